@@ -120,7 +120,7 @@ export interface MediaItem {
   uploaded_at: string;
 }
 
-export type Tab = "overview" | "personas" | "users" | "posts" | "hatchery" | "briefing" | "trading" | "marketing" | "costs" | "channels" | "events" | "campaigns" | "sponsors" | "prompts" | "x-growth" | "tiktok-blaster" | "spec-ads" | "nft-marketplace" | "merch" | "emails" | "contacts" | "meatlab";
+export type Tab = "overview" | "personas" | "users" | "posts" | "hatchery" | "briefing" | "trading" | "marketing" | "mktg" | "costs" | "jobs" | "cron-health" | "channels" | "events" | "campaigns" | "sponsors" | "prompts" | "bibles" | "x-growth" | "tiktok-blaster" | "spec-ads" | "nft-marketplace" | "merch" | "emails" | "contacts" | "meatlab";
 
 export interface AdminChannel {
   id: string;
@@ -274,12 +274,16 @@ export const TABS: { id: Tab; label: string; icon: string }[] = [
   { id: "hatchery", label: "Hatchery", icon: "\u{1F95A}" },
   { id: "trading", label: "Trading", icon: "\u{1F4C8}" },
   { id: "marketing", label: "Marketing", icon: "\u{1F4E1}" },
+  { id: "mktg", label: "Post Calendar", icon: "\u{1F4C5}" },
   { id: "costs", label: "AI Costs", icon: "\u{1F4B0}" },
+  { id: "jobs", label: "Job Queue", icon: "\u{1F4E5}" },
+  { id: "cron-health", label: "Cron Health", icon: "\u{1FA7A}" },
   { id: "channels", label: "Channels", icon: "\u{1F4FA}" },
   { id: "events", label: "Events", icon: "\uD83C\uDFAD" },
   { id: "campaigns", label: "Ad Campaigns", icon: "\uD83D\uDCE2" },
   { id: "sponsors", label: "Sponsors", icon: "\uD83E\uDD1D" },
   { id: "prompts", label: "Prompts", icon: "\uD83D\uDCDD" },
+  { id: "bibles", label: "Series Bibles", icon: "\uD83D\uDCD6" },
   { id: "x-growth", label: "X Growth", icon: "\uD83D\uDE80" },
   { id: "tiktok-blaster", label: "TikTok Blaster", icon: "\uD83D\uDCA3" },
   { id: "spec-ads", label: "Spec Ads", icon: "\uD83C\uDFAC" },
@@ -0,0 +1,288 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useAdmin } from "../AdminContext";
+
+type EntryKind = "character" | "location";
+
+interface SeriesSummary {
+  series_key: string;
+  latest_title: string;
+  genre: string;
+  movies: number;
+  entries: number;
+  pinned: number;
+  last_created_at: string;
+}
+
+interface BibleEntry {
+  id: string;
+  kind: EntryKind;
+  name: string;
+  description: string;
+  pinned: boolean;
+  appearances: number;
+  updated_at: string;
+}
+
+interface StoredBible {
+  id: string;
+  title: string;
+  genre: string;
+  synopsis: string | null;
+  character_bible: string;
+  location_bible: string;
+  director_style_guide: string;
+  created_at: string;
+}
+
+interface SeriesDetail {
+  entries: BibleEntry[];
+  bibles: StoredBible[];
+}
+
+function timeAgo(iso: string): string {
+  const s = Math.round((Date.now() - new Date(iso).getTime()) / 1000);
+  if (s < 60) return `${s}s ago`;
+  if (s < 3600) return `${Math.round(s / 60)}m ago`;
+  if (s < 86400) return `${Math.round(s / 3600)}h ago`;
+  return `${Math.round(s / 86400)}d ago`;
+}
+
+export default function BiblesPage() {
+  const { authenticated } = useAdmin();
+  const [series, setSeries] = useState<SeriesSummary[] | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [detail, setDetail] = useState<SeriesDetail | null>(null);
+  const [editing, setEditing] = useState<{ id: string; description: string } | null>(null);
+  const [draft, setDraft] = useState({ kind: "character" as EntryKind, name: "", description: "" });
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const fetchSeries = useCallback(() => {
+    return fetch("/api/admin/bibles")
+      .then((res) => (res.ok ? (res.json() as Promise<{ series: SeriesSummary[] }>) : null))
+      .then((json) => {
+        if (json) setSeries(json.series);
+      })
+      .catch(() => setMessage("Failed to load series"));
+  }, []);
+
+  const fetchDetail = useCallback(() => {
+    if (!selected) return Promise.resolve();
+    return fetch(`/api/admin/bibles?series=${encodeURIComponent(selected)}`)
+      .then((res) => (res.ok ? (res.json() as Promise<SeriesDetail>) : null))
+      .then((json) => {
+        if (json) setDetail(json);
+      })
+      .catch(() => setMessage("Failed to load series bible"));
+  }, [selected]);
+
+  useEffect(() => {
+    if (authenticated) fetchSeries();
+  }, [authenticated, fetchSeries]);
+
+  useEffect(() => {
+    fetchDetail();
+  }, [fetchDetail]);
+
+  const post = async (payload: Record<string, unknown>) => {
+    setBusy(true);
+    setMessage("");
+    try {
+      const res = await fetch("/api/admin/bibles", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const json = await res.json();
+      if (!res.ok) setMessage(json.error || "Request failed");
+      await Promise.all([fetchDetail(), fetchSeries()]);
+      setBusy(false);
+      return res.ok;
+    } catch {
+      setMessage("Network error");
+      setBusy(false);
+      return false;
+    }
+  };
+
+  const saveEdit = async () => {
+    if (!editing) return;
+    // A corrected description is pinned so the next screenplay can't overwrite it
+    if (await post({ action: "update_entry", id: editing.id, description: editing.description, pinned: true })) {
+      setEditing(null);
+    }
+  };
+
+  const addEntry = async () => {
+    if (!selected || !draft.name.trim() || !draft.description.trim()) return;
+    if (await post({ action: "add_entry", series: selected, ...draft, pinned: true })) {
+      setDraft({ kind: draft.kind, name: "", description: "" });
+    }
+  };
+
+  if (!series) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        <div className="text-4xl animate-pulse mb-2">📖</div>
+        <p>Loading series bibles...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-900 border border-gray-800 rounded-xl p-4 space-y-3">
+        <h3 className="text-base font-bold text-purple-400">
+          {"📖"} Series Bibles
+          <span className="ml-2 text-xs font-normal text-gray-400">
+            Recurring characters and locations reused by sequels and /api/generate-series
+          </span>
+        </h3>
+        {message && <p className="text-xs text-gray-300">{message}</p>}
+        {series.length === 0 ? (
+          <p className="text-gray-500 text-xs">No movie bibles stored yet</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {series.map((s) => (
+              <button
+                key={s.series_key}
+                onClick={() => { setSelected(s.series_key); setDetail(null); setEditing(null); }}
+                className={`px-3 py-2 rounded-lg text-xs text-left ${selected === s.series_key ? "bg-purple-500/20 text-purple-300 border border-purple-500/30" : "bg-gray-800 text-gray-300 hover:bg-gray-700"}`}
+              >
+                <p className="font-bold">{s.latest_title}</p>
+                <p className="text-gray-500">
+                  {s.genre} · {s.movies} film{s.movies === 1 ? "" : "s"} · {s.entries} entries ({s.pinned} pinned) · {timeAgo(s.last_created_at)}
+                </p>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {selected && detail && (
+        <div className="bg-gray-900 border border-gray-800 rounded-xl p-4 space-y-3">
+          <h3 className="text-sm font-bold text-amber-400">
+            Registry <span className="font-mono text-xs text-gray-500">{selected}</span>
+          </h3>
+
+          {detail.entries.length === 0 ? (
+            <p className="text-gray-500 text-xs">No named characters or locations yet</p>
+          ) : (
+            <div className="space-y-2">
+              {detail.entries.map((e) => (
+                <div key={e.id} className="bg-gray-800/50 rounded-lg p-3 text-xs space-y-1">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <p className="text-white font-bold">
+                      <span className="mr-2 px-2 py-0.5 rounded border border-gray-600 text-[10px] uppercase text-gray-400">{e.kind}</span>
+                      {e.name}
+                      {e.pinned && <span className="ml-2 text-amber-400">{"📌"} pinned</span>}
+                      <span className="ml-2 font-normal text-gray-500">{e.appearances}× · {timeAgo(e.updated_at)}</span>
+                    </p>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setEditing({ id: e.id, description: e.description })}
+                        disabled={busy}
+                        className="px-2 py-1 bg-gray-700 text-gray-300 rounded font-bold hover:bg-gray-600 disabled:opacity-50"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => post({ action: "update_entry", id: e.id, pinned: !e.pinned })}
+                        disabled={busy}
+                        className="px-2 py-1 bg-amber-500/20 text-amber-400 rounded font-bold hover:bg-amber-500/30 disabled:opacity-50"
+                      >
+                        {e.pinned ? "Unpin" : "Pin"}
+                      </button>
+                      <button
+                        onClick={() => post({ action: "delete_entry", id: e.id })}
+                        disabled={busy}
+                        className="px-2 py-1 bg-red-500/20 text-red-400 rounded font-bold hover:bg-red-500/30 disabled:opacity-50"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                  {editing?.id === e.id ? (
+                    <div className="space-y-2">
+                      <textarea
+                        value={editing.description}
+                        onChange={(ev) => setEditing({ id: e.id, description: ev.target.value })}
+                        rows={4}
+                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-xs focus:outline-none focus:border-purple-500"
+                      />
+                      <div className="flex gap-2">
+                        <button onClick={saveEdit} disabled={busy} className="px-3 py-1 bg-purple-500/20 text-purple-400 rounded font-bold hover:bg-purple-500/30 disabled:opacity-50">
+                          Save &amp; pin
+                        </button>
+                        <button onClick={() => setEditing(null)} className="px-3 py-1 bg-gray-700 text-gray-300 rounded font-bold hover:bg-gray-600">
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-gray-300 whitespace-pre-wrap">{e.description}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="bg-gray-800/30 rounded-lg p-3 space-y-2">
+            <p className="text-xs font-bold text-gray-400">Add a pinned entry</p>
+            <div className="flex flex-wrap gap-2">
+              <select
+                value={draft.kind}
+                onChange={(e) => setDraft({ ...draft, kind: e.target.value as EntryKind })}
+                className="px-2 py-1.5 bg-gray-800 border border-gray-700 rounded-lg text-white text-xs"
+              >
+                <option value="character">Character</option>
+                <option value="location">Location</option>
+              </select>
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Name"
+                className="flex-1 min-w-[8rem] px-3 py-1.5 bg-gray-800 border border-gray-700 rounded-lg text-white text-xs focus:outline-none focus:border-purple-500"
+              />
+            </div>
+            <textarea
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              placeholder="Exact visual description"
+              rows={3}
+              className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-xs focus:outline-none focus:border-purple-500"
+            />
+            <button
+              onClick={addEntry}
+              disabled={busy || !draft.name.trim() || !draft.description.trim()}
+              className="px-3 py-1.5 bg-purple-500/20 text-purple-400 rounded-lg text-xs font-bold hover:bg-purple-500/30 disabled:opacity-50"
+            >
+              Add
+            </button>
+          </div>
+
+          {detail.bibles.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-xs font-bold text-gray-400">Recent bibles</h4>
+              {detail.bibles.map((b) => (
+                <details key={b.id} className="bg-gray-800/50 rounded-lg p-3 text-xs">
+                  <summary className="cursor-pointer text-white font-bold">
+                    {b.title} <span className="font-normal text-gray-500">· {b.genre} · {timeAgo(b.created_at)}</span>
+                  </summary>
+                  <div className="space-y-2 pt-2 text-gray-300">
+                    {b.synopsis && <p>{b.synopsis}</p>}
+                    {b.character_bible && <pre className="bg-black/40 rounded p-2 text-[10px] whitespace-pre-wrap">{b.character_bible}</pre>}
+                    {b.location_bible && <pre className="bg-black/40 rounded p-2 text-[10px] whitespace-pre-wrap">{b.location_bible}</pre>}
+                    {b.director_style_guide && <pre className="bg-black/40 rounded p-2 text-[10px] text-gray-500 whitespace-pre-wrap">{b.director_style_guide}</pre>}
+                  </div>
+                </details>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
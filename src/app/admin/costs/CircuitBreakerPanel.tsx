@@ -0,0 +1,293 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+interface SpendBudget {
+  hourlyUsd?: number;
+  dailyUsd?: number;
+  callsPerMinute?: number;
+}
+
+interface BreakerConfig {
+  global: { hourlyUsd: number; dailyUsd: number };
+  providers: Record<string, SpendBudget>;
+  tasks: Record<string, SpendBudget>;
+  cooldownSeconds: number;
+}
+
+interface OpenBreaker {
+  scope: string;
+  reason: string;
+  trippedAt: number;
+  reopenAt: number;
+  halfOpen: boolean;
+}
+
+interface BreakerData {
+  redis_configured: boolean;
+  status: {
+    providers: Record<string, { callsPerMinute: number; maxCallsPerMinute: number; hourlySpendUsd: number; dailySpendUsd: number }>;
+    tasks: Record<string, { hourlySpendUsd: number; dailySpendUsd: number }>;
+    hourlySpendUsd: number;
+    dailySpendUsd: number;
+    open: OpenBreaker[];
+  } | null;
+  config: BreakerConfig;
+  trips: {
+    id: string;
+    scope: string;
+    reason: string;
+    limit_value: number | null;
+    observed_value: number | null;
+    tripped_at: string;
+    closed_at: string | null;
+    closed_by: string | null;
+  }[];
+}
+
+const TASK_TYPES = [
+  "text-generation", "image-generation", "video-generation", "video-polling",
+  "screenplay", "topic-generation", "ad-copy", "avatar",
+];
+
+/** Empty input = no cap. */
+function toNumber(v: string): number | undefined {
+  if (v.trim() === "") return undefined;
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+function BudgetInput({ value, onChange, placeholder }: { value: number | undefined; onChange: (v: number | undefined) => void; placeholder?: string }) {
+  return (
+    <input
+      type="number"
+      min={0}
+      step="any"
+      value={value ?? ""}
+      placeholder={placeholder ?? "—"}
+      onChange={(e) => onChange(toNumber(e.target.value))}
+      className="w-20 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white text-right"
+    />
+  );
+}
+
+export default function CircuitBreakerPanel() {
+  const [data, setData] = useState<BreakerData | null>(null);
+  const [draft, setDraft] = useState<BreakerConfig | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const fetchData = useCallback(() => {
+    return fetch("/api/admin/circuit-breaker")
+      .then((res) => (res.ok ? (res.json() as Promise<BreakerData>) : null))
+      .then((json) => {
+        if (!json) return;
+        setData(json);
+        setDraft(json.config);
+      })
+      .catch(() => setMessage("Failed to load circuit breaker data"));
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const post = async (body: Record<string, unknown>, success: string) => {
+    setSaving(true);
+    setMessage("");
+    try {
+      const res = await fetch("/api/admin/circuit-breaker", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json();
+      setMessage(res.ok ? success : json.error || "Request failed");
+      if (res.ok) await fetchData();
+    } catch {
+      setMessage("Network error");
+    }
+    setSaving(false);
+  };
+
+  if (!data || !draft) return null;
+
+  const setProvider = (provider: string, field: keyof SpendBudget, v: number | undefined) =>
+    setDraft({ ...draft, providers: { ...draft.providers, [provider]: { ...draft.providers[provider], [field]: v } } });
+  const setTask = (task: string, field: keyof SpendBudget, v: number | undefined) =>
+    setDraft({ ...draft, tasks: { ...draft.tasks, [task]: { ...draft.tasks[task], [field]: v } } });
+
+  const open = data.status?.open ?? [];
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-base font-bold text-amber-400">{"⚡"} Circuit Breaker Budgets</h3>
+        {open.length > 0 && (
+          <button
+            onClick={() => post({ action: "reset" }, "All breakers reset")}
+            disabled={saving}
+            className="px-3 py-1.5 bg-red-500/20 text-red-400 border border-red-500/30 rounded-lg text-xs font-bold hover:bg-red-500/30 disabled:opacity-50"
+          >
+            Reset All
+          </button>
+        )}
+      </div>
+
+      {!data.redis_configured && (
+        <p className="text-yellow-400 text-xs">Redis not configured — breaker is disabled (fail open). Budgets are saved but not enforced.</p>
+      )}
+      {message && <p className="text-xs text-gray-300">{message}</p>}
+
+      {/* Open breakers */}
+      {open.length > 0 ? (
+        <div className="space-y-2">
+          {open.map((b) => (
+            <div key={b.scope} className="flex items-center justify-between bg-red-900/30 border border-red-700 rounded-lg px-3 py-2">
+              <div>
+                <p className="text-sm font-bold text-white">{b.scope} <span className="text-xs text-red-400">{b.halfOpen ? "HALF-OPEN" : "OPEN"}</span></p>
+                <p className="text-xs text-gray-400">
+                  {b.reason} · tripped {new Date(b.trippedAt).toLocaleTimeString()} · probe {b.halfOpen ? "pending" : `at ${new Date(b.reopenAt).toLocaleTimeString()}`}
+                </p>
+              </div>
+              <button
+                onClick={() => post({ action: "reset", scope: b.scope }, `${b.scope} reset`)}
+                disabled={saving}
+                className="px-3 py-1 bg-gray-800 text-gray-300 rounded-lg text-xs font-bold hover:bg-gray-700 disabled:opacity-50"
+              >
+                Reset
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-green-400 text-xs">All breakers closed</p>
+      )}
+
+      {/* Global budget */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label className="bg-gray-800/50 rounded-lg p-3 text-xs text-gray-400 flex items-center justify-between">
+          <span>Global hourly ($) <span className="text-gray-500">spent ${data.status?.hourlySpendUsd.toFixed(2) ?? "—"}</span></span>
+          <BudgetInput value={draft.global.hourlyUsd} onChange={(v) => setDraft({ ...draft, global: { ...draft.global, hourlyUsd: v ?? draft.global.hourlyUsd } })} />
+        </label>
+        <label className="bg-gray-800/50 rounded-lg p-3 text-xs text-gray-400 flex items-center justify-between">
+          <span>Global daily ($) <span className="text-gray-500">spent ${data.status?.dailySpendUsd.toFixed(2) ?? "—"}</span></span>
+          <BudgetInput value={draft.global.dailyUsd} onChange={(v) => setDraft({ ...draft, global: { ...draft.global, dailyUsd: v ?? draft.global.dailyUsd } })} />
+        </label>
+        <label className="bg-gray-800/50 rounded-lg p-3 text-xs text-gray-400 flex items-center justify-between">
+          <span>Cooldown before probe (s)</span>
+          <BudgetInput value={draft.cooldownSeconds} onChange={(v) => setDraft({ ...draft, cooldownSeconds: v ?? draft.cooldownSeconds })} />
+        </label>
+      </div>
+
+      {/* Per-provider */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500 border-b border-gray-800">
+              <th className="text-left py-2 px-2">Provider</th>
+              <th className="text-right py-2 px-2">Calls/min</th>
+              <th className="text-right py-2 px-2">Hourly $</th>
+              <th className="text-right py-2 px-2">Daily $</th>
+              <th className="text-right py-2 px-2">Spent today</th>
+            </tr>
+          </thead>
+          <tbody>
+            {Object.keys(draft.providers).sort().map((p) => (
+              <tr key={p} className="border-b border-gray-800/50">
+                <td className="py-1.5 px-2 text-gray-300">{p === "_default" ? "(other providers)" : p}</td>
+                <td className="py-1.5 px-2 text-right"><BudgetInput value={draft.providers[p].callsPerMinute} onChange={(v) => setProvider(p, "callsPerMinute", v)} /></td>
+                <td className="py-1.5 px-2 text-right"><BudgetInput value={draft.providers[p].hourlyUsd} onChange={(v) => setProvider(p, "hourlyUsd", v)} /></td>
+                <td className="py-1.5 px-2 text-right"><BudgetInput value={draft.providers[p].dailyUsd} onChange={(v) => setProvider(p, "dailyUsd", v)} /></td>
+                <td className="py-1.5 px-2 text-right font-mono text-gray-400">
+                  {data.status?.providers[p] ? `$${data.status.providers[p].dailySpendUsd.toFixed(2)}` : "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Per-task */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500 border-b border-gray-800">
+              <th className="text-left py-2 px-2">Task type</th>
+              <th className="text-right py-2 px-2">Hourly $</th>
+              <th className="text-right py-2 px-2">Daily $</th>
+              <th className="text-right py-2 px-2">Spent today</th>
+            </tr>
+          </thead>
+          <tbody>
+            {TASK_TYPES.map((t) => (
+              <tr key={t} className="border-b border-gray-800/50">
+                <td className="py-1.5 px-2 text-gray-300">{t}</td>
+                <td className="py-1.5 px-2 text-right"><BudgetInput value={draft.tasks[t]?.hourlyUsd} onChange={(v) => setTask(t, "hourlyUsd", v)} /></td>
+                <td className="py-1.5 px-2 text-right"><BudgetInput value={draft.tasks[t]?.dailyUsd} onChange={(v) => setTask(t, "dailyUsd", v)} /></td>
+                <td className="py-1.5 px-2 text-right font-mono text-gray-400">
+                  {data.status?.tasks[t] ? `$${data.status.tasks[t].dailySpendUsd.toFixed(2)}` : "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => post({ action: "update_config", config: draft }, "Budgets saved")}
+          disabled={saving}
+          className="px-4 py-2 bg-purple-500/20 text-purple-400 border border-purple-500/30 rounded-lg text-xs font-bold hover:bg-purple-500/30 disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save Budgets"}
+        </button>
+        <button
+          onClick={() => setDraft(data.config)}
+          disabled={saving}
+          className="px-4 py-2 bg-gray-800 text-gray-400 rounded-lg text-xs font-bold hover:bg-gray-700 disabled:opacity-50"
+        >
+          Discard Changes
+        </button>
+        <span className="text-gray-600 text-xs">Empty = no cap</span>
+      </div>
+
+      {/* Trip history */}
+      <div>
+        <h4 className="text-sm font-bold text-gray-300 mb-2">Trip History</h4>
+        {data.trips.length === 0 ? (
+          <p className="text-gray-500 text-xs">No trips recorded</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-500 border-b border-gray-800">
+                  <th className="text-left py-2 px-2">Tripped</th>
+                  <th className="text-left py-2 px-2">Scope</th>
+                  <th className="text-left py-2 px-2">Reason</th>
+                  <th className="text-right py-2 px-2">Observed / Limit</th>
+                  <th className="text-left py-2 px-2">Closed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.trips.map((t) => (
+                  <tr key={t.id} className="border-b border-gray-800/50">
+                    <td className="py-1.5 px-2 text-gray-400">{new Date(t.tripped_at).toLocaleString()}</td>
+                    <td className="py-1.5 px-2 text-white">{t.scope}</td>
+                    <td className="py-1.5 px-2 text-gray-300">{t.reason}</td>
+                    <td className="py-1.5 px-2 text-right font-mono text-gray-400">
+                      {t.observed_value != null ? Number(t.observed_value).toFixed(2) : "—"} / {t.limit_value ?? "—"}
+                    </td>
+                    <td className="py-1.5 px-2 text-gray-400">
+                      {t.closed_at ? `${new Date(t.closed_at).toLocaleString()} (${t.closed_by})` : <span className="text-red-400 font-bold">open</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+type Policy = "cost-first" | "quality-first" | "round-robin";
+
+interface TaskRoute {
+  policy: Policy;
+  providers: string[];
+  timeoutMs: number;
+}
+
+interface RoutingConfig {
+  default: TaskRoute;
+  tasks: Record<string, TaskRoute>;
+}
+
+interface RoutingData {
+  config: RoutingConfig;
+  defaults: RoutingConfig;
+  policies: Policy[];
+  providers: { id: string; configured: boolean; cost_per_m_output_tokens: number }[];
+  served_by: { task: string; provider: string; calls: number; fallbacks: number; total_usd: number }[];
+  days: number;
+}
+
+/** Task types that go through the text router. */
+const TEXT_TASKS = ["text-generation", "screenplay", "topic-generation", "ad-copy"];
+
+const POLICY_HINTS: Record<Policy, string> = {
+  "quality-first": "Try providers in the order listed",
+  "cost-first": "Cheapest output tokens first",
+  "round-robin": "Rotate the first choice every call",
+};
+
+function RouteEditor({ route, providers, policies, onChange }: {
+  route: TaskRoute;
+  providers: RoutingData["providers"];
+  policies: Policy[];
+  onChange: (route: TaskRoute) => void;
+}) {
+  const move = (i: number, dir: -1 | 1) => {
+    const next = [...route.providers];
+    const j = i + dir;
+    if (j < 0 || j >= next.length) return;
+    [next[i], next[j]] = [next[j], next[i]];
+    onChange({ ...route, providers: next });
+  };
+  const toggle = (id: string) => {
+    const enabled = route.providers.includes(id);
+    // Never allow an empty list — the settings parser would silently restore the default
+    if (enabled && route.providers.length === 1) return;
+    onChange({ ...route, providers: enabled ? route.providers.filter((p) => p !== id) : [...route.providers, id] });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={route.policy}
+        onChange={(e) => onChange({ ...route, policy: e.target.value as Policy })}
+        title={POLICY_HINTS[route.policy]}
+        className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white"
+      >
+        {policies.map((p) => <option key={p} value={p}>{p}</option>)}
+      </select>
+      {route.providers.map((id, i) => (
+        <span key={id} className="inline-flex items-center gap-1 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200">
+          <button onClick={() => move(i, -1)} disabled={i === 0} className="text-gray-500 hover:text-white disabled:opacity-30">{"‹"}</button>
+          {i + 1}. {id}
+          <button onClick={() => move(i, 1)} disabled={i === route.providers.length - 1} className="text-gray-500 hover:text-white disabled:opacity-30">{"›"}</button>
+          <button onClick={() => toggle(id)} className="text-red-400 hover:text-red-300 ml-1">{"×"}</button>
+        </span>
+      ))}
+      {providers.filter((p) => !route.providers.includes(p.id)).map((p) => (
+        <button
+          key={p.id}
+          onClick={() => toggle(p.id)}
+          className="px-2 py-1 border border-dashed border-gray-700 rounded text-xs text-gray-500 hover:text-gray-300"
+        >
+          + {p.id}
+        </button>
+      ))}
+      <label className="text-xs text-gray-500 flex items-center gap-1">
+        timeout
+        <input
+          type="number"
+          min={1}
+          value={Math.round(route.timeoutMs / 1000)}
+          onChange={(e) => {
+            const s = Number(e.target.value);
+            if (Number.isFinite(s) && s >= 1) onChange({ ...route, timeoutMs: s * 1000 });
+          }}
+          className="w-16 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white text-right"
+        />
+        s
+      </label>
+    </div>
+  );
+}
+
+export default function RoutingPolicyPanel() {
+  const [data, setData] = useState<RoutingData | null>(null);
+  const [draft, setDraft] = useState<RoutingConfig | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const fetchData = useCallback(() => {
+    return fetch("/api/admin/ai-routing")
+      .then((res) => (res.ok ? (res.json() as Promise<RoutingData>) : null))
+      .then((json) => {
+        if (!json) return;
+        setData(json);
+        setDraft(json.config);
+      })
+      .catch(() => setMessage("Failed to load AI routing config"));
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const save = async () => {
+    setSaving(true);
+    setMessage("");
+    try {
+      const res = await fetch("/api/admin/ai-routing", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "update_config", config: draft }),
+      });
+      const json = await res.json();
+      setMessage(res.ok ? "Routing saved" : json.error || "Request failed");
+      if (res.ok) await fetchData();
+    } catch {
+      setMessage("Network error");
+    }
+    setSaving(false);
+  };
+
+  if (!data || !draft) return null;
+
+  const setTask = (task: string, route: TaskRoute | null) => {
+    const tasks = { ...draft.tasks };
+    if (route) tasks[task] = route;
+    else delete tasks[task];
+    setDraft({ ...draft, tasks });
+  };
+  const servedFor = (task: string) => data.served_by.filter((s) => s.task === task);
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-base font-bold text-amber-400">{"🔀"} Text Provider Routing</h3>
+        <div className="flex gap-2 text-xs">
+          {data.providers.map((p) => (
+            <span key={p.id} className={p.configured ? "text-green-400" : "text-gray-600"} title={`$${p.cost_per_m_output_tokens}/M output tokens`}>
+              {p.configured ? "●" : "○"} {p.id}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-gray-500 text-xs">
+        Providers are skipped when unconfigured or their circuit breaker is open, and the next one is tried on error, timeout or unusable output.
+      </p>
+      {message && <p className="text-xs text-gray-300">{message}</p>}
+
+      <div className="space-y-3">
+        <div className="bg-gray-800/50 rounded-lg p-3 space-y-2">
+          <p className="text-sm font-bold text-white">Default <span className="text-xs text-gray-500 font-normal">— every task without an override</span></p>
+          <RouteEditor route={draft.default} providers={data.providers} policies={data.policies} onChange={(route) => setDraft({ ...draft, default: route })} />
+        </div>
+
+        {TEXT_TASKS.map((task) => {
+          const route = draft.tasks[task];
+          const served = servedFor(task);
+          return (
+            <div key={task} className="bg-gray-800/50 rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="flex items-center gap-2 text-sm font-bold text-white">
+                  <input
+                    type="checkbox"
+                    checked={!!route}
+                    onChange={(e) => setTask(task, e.target.checked ? { ...draft.default, providers: [...draft.default.providers] } : null)}
+                  />
+                  {task}
+                </label>
+                {served.length > 0 && (
+                  <span className="text-xs text-gray-400">
+                    {served.map((s) => `${s.provider} ${s.calls}${s.fallbacks > 0 ? ` (${s.fallbacks} fallback)` : ""}`).join(" · ")}
+                  </span>
+                )}
+              </div>
+              {route ? (
+                <RouteEditor route={route} providers={data.providers} policies={data.policies} onChange={(r) => setTask(task, r)} />
+              ) : (
+                <p className="text-xs text-gray-500">Uses default route</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={save}
+          disabled={saving}
+          className="px-4 py-2 bg-purple-500/20 text-purple-400 border border-purple-500/30 rounded-lg text-xs font-bold hover:bg-purple-500/30 disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save Routing"}
+        </button>
+        <button
+          onClick={() => setDraft(data.config)}
+          disabled={saving}
+          className="px-4 py-2 bg-gray-800 text-gray-400 rounded-lg text-xs font-bold hover:bg-gray-700 disabled:opacity-50"
+        >
+          Discard Changes
+        </button>
+        <button
+          onClick={() => setDraft(data.defaults)}
+          disabled={saving}
+          className="px-4 py-2 bg-gray-800 text-gray-400 rounded-lg text-xs font-bold hover:bg-gray-700 disabled:opacity-50"
+        >
+          Restore Defaults
+        </button>
+        <span className="text-gray-600 text-xs">Served-by counts cover the last {data.days} days</span>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
 import { useState, useEffect, useCallback } from "react";
 import { useAdmin } from "../AdminContext";
 import { COST_TABLE } from "@/lib/ai/costs";
+import CircuitBreakerPanel from "./CircuitBreakerPanel";
+import RoutingPolicyPanel from "./RoutingPolicyPanel";
 
 // Map raw provider keys to display groups
 const PROVIDER_GROUPS: Record<string, { label: string; color: string }> = {
@@ -182,6 +184,12 @@ export default function CostsPage() {
         </div>
       </div>
 
+      {/* Circuit Breaker — budgets, open breakers, trip history */}
+      <CircuitBreakerPanel />
+
+      {/* Text provider routing — per-task policy + which provider served calls */}
+      <RoutingPolicyPanel />
+
       {/* Credit Balances */}
       {(data.credit_balances.anthropic.budget != null || data.credit_balances.xai.budget != null) && (
         <div className="bg-gray-900 border border-gray-800 rounded-xl p-4">
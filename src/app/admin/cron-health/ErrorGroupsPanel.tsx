@@ -0,0 +1,170 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+type GroupStatus = "open" | "resolved" | "ignored";
+
+interface ErrorGroup {
+  fingerprint: string;
+  source: string;
+  message: string;
+  normalized_message: string;
+  top_frame: string | null;
+  sample_stack: string | null;
+  status: GroupStatus;
+  occurrences: number;
+  first_seen: string;
+  last_seen: string;
+  resolved_at: string | null;
+}
+
+interface ErrorsData {
+  counts: Record<GroupStatus, number> & { new_24h: number };
+  groups: ErrorGroup[];
+}
+
+const STATUS_STYLES: Record<GroupStatus, string> = {
+  open: "text-red-400 bg-red-500/10 border-red-500/20",
+  resolved: "text-green-400 bg-green-500/10 border-green-500/20",
+  ignored: "text-gray-400 bg-gray-500/10 border-gray-500/20",
+};
+
+function timeAgo(iso: string): string {
+  const s = Math.round((Date.now() - new Date(iso).getTime()) / 1000);
+  if (s < 60) return `${s}s ago`;
+  if (s < 3600) return `${Math.round(s / 60)}m ago`;
+  if (s < 86400) return `${Math.round(s / 3600)}h ago`;
+  return `${Math.round(s / 86400)}d ago`;
+}
+
+export default function ErrorGroupsPanel() {
+  const [data, setData] = useState<ErrorsData | null>(null);
+  const [filter, setFilter] = useState<GroupStatus | "all">("open");
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+
+  const fetchGroups = useCallback(() => {
+    const qs = filter === "all" ? "" : `?status=${filter}`;
+    return fetch(`/api/admin/errors${qs}`)
+      .then((res) => (res.ok ? (res.json() as Promise<ErrorsData>) : null))
+      .then((json) => {
+        if (json) setData(json);
+      })
+      .catch(() => setMessage("Failed to load error groups"));
+  }, [filter]);
+
+  useEffect(() => {
+    fetchGroups();
+  }, [fetchGroups]);
+
+  const setStatus = async (fingerprint: string, status: GroupStatus) => {
+    setBusy(fingerprint);
+    setMessage("");
+    try {
+      const res = await fetch("/api/admin/errors", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "set_status", fingerprint, status }),
+      });
+      const json = await res.json();
+      if (!res.ok) setMessage(json.error || "Request failed");
+      await fetchGroups();
+    } catch {
+      setMessage("Network error");
+    }
+    setBusy(null);
+  };
+
+  if (!data) return null;
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-xl p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-base font-bold text-amber-400">
+          {"🐛"} Error Groups
+          <span className="ml-2 text-xs font-normal text-gray-400">
+            {data.counts.open} open · {data.counts.new_24h} new in 24h
+          </span>
+        </h3>
+        <div className="flex flex-wrap gap-2">
+          {(["open", "resolved", "ignored", "all"] as const).map((f) => (
+            <button
+              key={f}
+              onClick={() => setFilter(f)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold capitalize ${filter === f ? "bg-purple-500/20 text-purple-400 border border-purple-500/30" : "bg-gray-800 text-gray-400 hover:bg-gray-700"}`}
+            >
+              {f}{f !== "all" ? ` (${data.counts[f]})` : ""}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {message && <p className="text-xs text-gray-300">{message}</p>}
+
+      {data.groups.length === 0 ? (
+        <p className="text-gray-500 text-xs">No error groups</p>
+      ) : (
+        <div className="space-y-2">
+          {data.groups.map((g) => (
+            <div key={g.fingerprint} className="bg-gray-800/50 rounded-lg p-3 text-xs space-y-1">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <button onClick={() => setExpanded(expanded === g.fingerprint ? null : g.fingerprint)} className="text-left flex-1 min-w-0">
+                  <p className="text-white font-bold truncate">
+                    <span className={`mr-2 px-2 py-0.5 rounded border text-[10px] font-bold uppercase ${STATUS_STYLES[g.status]}`}>{g.status}</span>
+                    {g.source}
+                  </p>
+                  <p className="text-red-300 truncate mt-1" title={g.message}>{g.message}</p>
+                </button>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="text-gray-400 font-mono">{g.occurrences}×</span>
+                  {g.status !== "resolved" && (
+                    <button
+                      onClick={() => setStatus(g.fingerprint, "resolved")}
+                      disabled={busy !== null}
+                      className="px-2 py-1 bg-green-500/20 text-green-400 rounded font-bold hover:bg-green-500/30 disabled:opacity-50"
+                    >
+                      Resolve
+                    </button>
+                  )}
+                  {g.status !== "ignored" && (
+                    <button
+                      onClick={() => setStatus(g.fingerprint, "ignored")}
+                      disabled={busy !== null}
+                      className="px-2 py-1 bg-gray-700 text-gray-300 rounded font-bold hover:bg-gray-600 disabled:opacity-50"
+                    >
+                      Ignore
+                    </button>
+                  )}
+                  {g.status !== "open" && (
+                    <button
+                      onClick={() => setStatus(g.fingerprint, "open")}
+                      disabled={busy !== null}
+                      className="px-2 py-1 bg-gray-700 text-gray-300 rounded font-bold hover:bg-gray-600 disabled:opacity-50"
+                    >
+                      Reopen
+                    </button>
+                  )}
+                </div>
+              </div>
+              <p className="text-gray-500">
+                First seen {timeAgo(g.first_seen)} · last seen {timeAgo(g.last_seen)}
+                {g.resolved_at && ` · resolved ${timeAgo(g.resolved_at)}`}
+                {" · "}<span className="font-mono">{g.fingerprint}</span>
+              </p>
+              {expanded === g.fingerprint && (
+                <div className="space-y-1 pt-1">
+                  <p className="text-gray-400">Grouped as: <span className="font-mono text-gray-300">{g.normalized_message}</span></p>
+                  {g.top_frame && <p className="text-gray-400">Top frame: <span className="font-mono text-gray-300">{g.top_frame}</span></p>}
+                  {g.sample_stack && (
+                    <pre className="bg-black/40 rounded p-2 text-[10px] text-gray-400 overflow-x-auto whitespace-pre-wrap">{g.sample_stack}</pre>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,374 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+interface BoostWindow {
+  id: string;
+  label: string;
+  startsAt: string;
+  endsAt: string;
+  percent: number;
+  crons: string[];
+}
+
+interface CronOverride {
+  percent?: number;
+  followSchedule?: boolean;
+}
+
+interface ThrottleSchedule {
+  timezone: string;
+  hourly: number[];
+  weekdays: number[];
+  crons: Record<string, CronOverride>;
+  boosts: BoostWindow[];
+}
+
+interface ScheduleData {
+  schedule: ThrottleSchedule;
+  defaults: ThrottleSchedule;
+  global_throttle: number;
+  effective: { cron_name: string; percent: number; reason: string }[];
+  decisions: { cron_name: string; status: string; started_at: string; throttle_reason: string }[];
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/** Quick shapes for the hourly curve */
+const HOURLY_PRESETS: { label: string; curve: number[] }[] = [
+  { label: "Flat", curve: Array(24).fill(100) },
+  // 01:00–06:59 at 20%, shoulders at 60%
+  { label: "Quiet overnight", curve: Array.from({ length: 24 }, (_, h) => (h >= 1 && h < 7 ? 20 : h === 0 || h === 7 ? 60 : 100)) },
+];
+
+function curveColor(pct: number): string {
+  if (pct === 0) return "bg-red-500/70";
+  if (pct < 50) return "bg-orange-500/70";
+  if (pct < 100) return "bg-yellow-500/70";
+  if (pct === 100) return "bg-green-500/60";
+  return "bg-purple-500/70";
+}
+
+function CurveEditor({ values, labels, onChange }: {
+  values: number[];
+  labels: string[];
+  onChange: (values: number[]) => void;
+}) {
+  return (
+    <div className="flex items-end gap-1 overflow-x-auto">
+      {values.map((v, i) => (
+        <label key={i} className="flex flex-col items-center gap-1 shrink-0">
+          <div className="h-12 w-6 bg-gray-800 rounded-sm flex items-end">
+            <div className={`w-full rounded-sm ${curveColor(v)}`} style={{ height: `${Math.min(100, v / 2)}%` }} />
+          </div>
+          <input
+            type="number"
+            min={0}
+            max={200}
+            value={v}
+            onChange={(e) => {
+              const n = Number(e.target.value);
+              if (!Number.isFinite(n)) return;
+              const next = [...values];
+              next[i] = Math.min(200, Math.max(0, Math.round(n)));
+              onChange(next);
+            }}
+            className="w-10 bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-[10px] text-white text-center"
+          />
+          <span className="text-[10px] text-gray-500">{labels[i]}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+function toLocalInput(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export default function ThrottleSchedulePanel() {
+  const [data, setData] = useState<ScheduleData | null>(null);
+  const [draft, setDraft] = useState<ThrottleSchedule | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+  const [loadedAt, setLoadedAt] = useState(0);
+  const [boost, setBoost] = useState(() => ({
+    label: "",
+    startsAt: toLocalInput(new Date()),
+    endsAt: toLocalInput(new Date(Date.now() + 2 * 3_600_000)),
+    percent: 100,
+    crons: "",
+  }));
+
+  const fetchData = useCallback(() => {
+    return fetch("/api/admin/throttle-schedule")
+      .then((res) => (res.ok ? (res.json() as Promise<ScheduleData>) : null))
+      .then((json) => {
+        if (!json) return;
+        setData(json);
+        setDraft(json.schedule);
+        setLoadedAt(Date.now());
+      })
+      .catch(() => setMessage("Failed to load throttle schedule"));
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const post = async (body: Record<string, unknown>, success: string) => {
+    setSaving(true);
+    setMessage("");
+    try {
+      const res = await fetch("/api/admin/throttle-schedule", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json();
+      setMessage(res.ok ? success : json.error || "Request failed");
+      if (res.ok) await fetchData();
+    } catch {
+      setMessage("Network error");
+    }
+    setSaving(false);
+  };
+
+  if (!data || !draft) return null;
+
+  const setOverride = (cron: string, override: CronOverride | null) => {
+    const crons = { ...draft.crons };
+    if (override) crons[cron] = override;
+    else delete crons[cron];
+    setDraft({ ...draft, crons });
+  };
+
+  const addBoost = () => post({
+    action: "add_boost",
+    boost: {
+      label: boost.label,
+      startsAt: new Date(boost.startsAt).toISOString(),
+      endsAt: new Date(boost.endsAt).toISOString(),
+      percent: boost.percent,
+      crons: boost.crons.split(",").map((c) => c.trim()).filter(Boolean),
+    },
+  }, "Boost window added");
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-base font-bold text-amber-400">{"🕰️"} Activity Schedule</h3>
+        <span className="text-xs text-gray-400">Global slider: <span className="text-white font-bold">{data.global_throttle}%</span></span>
+      </div>
+
+      <p className="text-gray-500 text-xs">
+        Each cron&apos;s chance of running = base (global slider or its override) × weekday % × hour %, in the schedule timezone.
+        Boost windows raise it for planned events. A global slider at 0% pauses everything; otherwise content crons still run whenever the feed has gone stale (unless scheduled to 0%).
+      </p>
+      {message && <p className="text-xs text-gray-300">{message}</p>}
+
+      {/* Curves */}
+      <div className="bg-gray-800/50 rounded-lg p-3 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="text-xs text-gray-400 flex items-center gap-2">
+            Timezone
+            <input
+              value={draft.timezone}
+              onChange={(e) => setDraft({ ...draft, timezone: e.target.value })}
+              placeholder="America/New_York"
+              className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white w-44"
+            />
+          </label>
+          {HOURLY_PRESETS.map((p) => (
+            <button
+              key={p.label}
+              onClick={() => setDraft({ ...draft, hourly: [...p.curve] })}
+              className="px-2 py-1 bg-gray-800 text-gray-400 rounded text-xs hover:bg-gray-700"
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+        <div>
+          <p className="text-xs text-gray-400 mb-1">Hour of day (%)</p>
+          <CurveEditor values={draft.hourly} labels={draft.hourly.map((_, h) => String(h).padStart(2, "0"))} onChange={(hourly) => setDraft({ ...draft, hourly })} />
+        </div>
+        <div>
+          <p className="text-xs text-gray-400 mb-1">Day of week (%)</p>
+          <CurveEditor values={draft.weekdays} labels={WEEKDAYS} onChange={(weekdays) => setDraft({ ...draft, weekdays })} />
+        </div>
+      </div>
+
+      {/* Per-cron overrides + effective now */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500 border-b border-gray-800">
+              <th className="text-left py-2 px-2">Cron</th>
+              <th className="text-left py-2 px-2">Override base</th>
+              <th className="text-left py-2 px-2">Curves</th>
+              <th className="text-right py-2 px-2">Now</th>
+              <th className="text-left py-2 px-2">Why</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.effective.map((e) => {
+              const override = draft.crons[e.cron_name];
+              return (
+                <tr key={e.cron_name} className="border-b border-gray-800/50">
+                  <td className="py-1.5 px-2 text-white font-bold">{e.cron_name}</td>
+                  <td className="py-1.5 px-2">
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={override?.percent ?? ""}
+                      placeholder="global"
+                      onChange={(ev) => {
+                        const raw = ev.target.value;
+                        const next: CronOverride = { ...override };
+                        if (raw === "") delete next.percent;
+                        else next.percent = Math.min(100, Math.max(0, Math.round(Number(raw))));
+                        setOverride(e.cron_name, next.percent === undefined && next.followSchedule === undefined ? null : next);
+                      }}
+                      className="w-16 bg-gray-800 border border-gray-700 rounded px-2 py-0.5 text-xs text-white text-right"
+                    />
+                  </td>
+                  <td className="py-1.5 px-2">
+                    <label className="flex items-center gap-1 text-gray-400">
+                      <input
+                        type="checkbox"
+                        checked={override?.followSchedule !== false}
+                        onChange={(ev) => {
+                          const next: CronOverride = { ...override };
+                          if (ev.target.checked) delete next.followSchedule;
+                          else next.followSchedule = false;
+                          setOverride(e.cron_name, next.percent === undefined && next.followSchedule === undefined ? null : next);
+                        }}
+                      />
+                      follow
+                    </label>
+                  </td>
+                  <td className="py-1.5 px-2 text-right font-mono text-white">{e.percent}%</td>
+                  <td className="py-1.5 px-2 text-gray-500 max-w-md truncate" title={e.reason}>{e.reason}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => post({ action: "update_schedule", schedule: draft }, "Schedule saved")}
+          disabled={saving}
+          className="px-4 py-2 bg-purple-500/20 text-purple-400 border border-purple-500/30 rounded-lg text-xs font-bold hover:bg-purple-500/30 disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save Schedule"}
+        </button>
+        <button
+          onClick={() => setDraft(data.schedule)}
+          disabled={saving}
+          className="px-4 py-2 bg-gray-800 text-gray-400 rounded-lg text-xs font-bold hover:bg-gray-700 disabled:opacity-50"
+        >
+          Discard Changes
+        </button>
+        <button
+          onClick={() => setDraft({ ...data.defaults, boosts: draft.boosts })}
+          disabled={saving}
+          className="px-4 py-2 bg-gray-800 text-gray-400 rounded-lg text-xs font-bold hover:bg-gray-700 disabled:opacity-50"
+        >
+          Restore Defaults
+        </button>
+      </div>
+
+      {/* Boost windows */}
+      <div className="bg-gray-800/50 rounded-lg p-3 space-y-2">
+        <p className="text-sm font-bold text-white">{"🚀"} Boost Windows</p>
+        {data.schedule.boosts.length === 0 ? (
+          <p className="text-xs text-gray-500">No boosts planned</p>
+        ) : (
+          data.schedule.boosts.map((b) => {
+            const active = Date.parse(b.startsAt) <= loadedAt && loadedAt < Date.parse(b.endsAt);
+            const past = Date.parse(b.endsAt) <= loadedAt;
+            return (
+              <div key={b.id} className={`flex flex-wrap items-center justify-between gap-2 text-xs ${past ? "opacity-50" : ""}`}>
+                <span className="text-gray-200">
+                  {active && <span className="text-green-400 font-bold">LIVE </span>}
+                  <span className="font-bold">{b.label || "Boost"}</span> — {b.percent}%
+                  {" · "}{new Date(b.startsAt).toLocaleString()} → {new Date(b.endsAt).toLocaleString()}
+                  {b.crons.length > 0 && <span className="text-gray-500"> · {b.crons.join(", ")}</span>}
+                </span>
+                <button
+                  onClick={() => post({ action: "remove_boost", id: b.id }, "Boost removed")}
+                  disabled={saving}
+                  className="text-red-400 hover:text-red-300 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </div>
+            );
+          })
+        )}
+        <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-gray-700/50">
+          <input
+            value={boost.label}
+            onChange={(e) => setBoost({ ...boost, label: e.target.value })}
+            placeholder="Label (e.g. Premiere night)"
+            className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white w-48"
+          />
+          <input
+            type="datetime-local"
+            value={boost.startsAt}
+            onChange={(e) => setBoost({ ...boost, startsAt: e.target.value })}
+            className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white"
+          />
+          <span className="text-gray-500 text-xs">→</span>
+          <input
+            type="datetime-local"
+            value={boost.endsAt}
+            onChange={(e) => setBoost({ ...boost, endsAt: e.target.value })}
+            className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white"
+          />
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={boost.percent}
+            onChange={(e) => setBoost({ ...boost, percent: Number(e.target.value) })}
+            className="w-16 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white text-right"
+          />
+          <span className="text-gray-500 text-xs">%</span>
+          <input
+            value={boost.crons}
+            onChange={(e) => setBoost({ ...boost, crons: e.target.value })}
+            placeholder="crons (blank = all)"
+            className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white w-44"
+          />
+          <button
+            onClick={addBoost}
+            disabled={saving}
+            className="px-3 py-1 bg-green-500/20 text-green-400 border border-green-500/30 rounded-lg text-xs font-bold hover:bg-green-500/30 disabled:opacity-50"
+          >
+            Add Boost
+          </button>
+        </div>
+      </div>
+
+      {/* Recent decisions */}
+      {data.decisions.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-gray-400 font-bold">Recent throttle decisions</p>
+          {data.decisions.map((d, i) => (
+            <p key={i} className="text-[11px] text-gray-500 truncate" title={d.throttle_reason}>
+              <span className={d.status === "throttled" ? "text-yellow-500" : "text-green-400"}>{d.status === "throttled" ? "skip" : "run "}</span>
+              {" "}<span className="text-gray-300">{d.cron_name}</span>
+              {" "}{new Date(d.started_at).toLocaleTimeString()} — {d.throttle_reason}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
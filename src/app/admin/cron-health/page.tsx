@@ -0,0 +1,256 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useAdmin } from "../AdminContext";
+import ThrottleSchedulePanel from "./ThrottleSchedulePanel";
+import ErrorGroupsPanel from "./ErrorGroupsPanel";
+
+type RunStatus = "running" | "completed" | "failed" | "throttled";
+
+interface CronJobHealth {
+  cron_name: string;
+  schedule_key: string | null;
+  schedule: string | null;
+  interval_minutes: number | null;
+  runs: number;
+  completed: number;
+  failed: number;
+  throttled: number;
+  success_rate: number | null;
+  p50_ms: number | null;
+  p95_ms: number | null;
+  avg_cost_usd: number | null;
+  total_cost_usd: number;
+  last_run_at: string | null;
+  last_status: RunStatus | null;
+  last_error: string | null;
+  last_error_at: string | null;
+  consecutive_failures: number;
+  missed: boolean;
+  trend: { day: string; p50_ms: number; runs: number }[];
+}
+
+interface CronHealthData {
+  window_hours: number;
+  failure_threshold: number;
+  generated_at: string;
+  jobs: CronJobHealth[];
+}
+
+const WINDOWS = [
+  { hours: 24, label: "24h" },
+  { hours: 168, label: "7d" },
+  { hours: 720, label: "30d" },
+];
+
+const STATUS_STYLES: Record<RunStatus, string> = {
+  running: "text-yellow-400 bg-yellow-500/10 border-yellow-500/20",
+  completed: "text-green-400 bg-green-500/10 border-green-500/20",
+  failed: "text-red-400 bg-red-500/10 border-red-500/20",
+  throttled: "text-gray-400 bg-gray-500/10 border-gray-500/20",
+};
+
+function timeAgo(iso: string): string {
+  const s = Math.round((Date.now() - new Date(iso).getTime()) / 1000);
+  if (s < 60) return `${s}s ago`;
+  if (s < 3600) return `${Math.round(s / 60)}m ago`;
+  if (s < 86400) return `${Math.round(s / 3600)}h ago`;
+  return `${Math.round(s / 86400)}d ago`;
+}
+
+function formatMs(ms: number | null): string {
+  if (ms === null) return "—";
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${(ms / 60_000).toFixed(1)}m`;
+}
+
+function rateColor(rate: number | null): string {
+  if (rate === null) return "text-gray-500";
+  if (rate >= 0.95) return "text-green-400";
+  if (rate >= 0.8) return "text-yellow-400";
+  return "text-red-400";
+}
+
+/** Tiny bar chart of daily p50 duration */
+function Trend({ points }: { points: CronJobHealth["trend"] }) {
+  if (points.length === 0) return <span className="text-gray-600">—</span>;
+  const max = Math.max(...points.map((p) => p.p50_ms), 1);
+  return (
+    <div className="flex items-end gap-px h-6">
+      {points.map((p) => (
+        <div
+          key={p.day}
+          title={`${p.day}: p50 ${formatMs(p.p50_ms)} over ${p.runs} runs`}
+          className="w-1.5 bg-purple-500/60 rounded-sm"
+          style={{ height: `${Math.max(8, (p.p50_ms / max) * 100)}%` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default function CronHealthPage() {
+  const { authenticated } = useAdmin();
+  const [data, setData] = useState<CronHealthData | null>(null);
+  const [hours, setHours] = useState(168);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const fetchHealth = useCallback(() => {
+    return fetch(`/api/admin/cron-health?hours=${hours}`)
+      .then((res) => (res.ok ? (res.json() as Promise<CronHealthData>) : null))
+      .then((json) => {
+        if (json) setData(json);
+      })
+      .catch(() => setMessage("Failed to load cron health"));
+  }, [hours]);
+
+  useEffect(() => {
+    if (authenticated) fetchHealth();
+  }, [authenticated, fetchHealth]);
+
+  const checkAlerts = async () => {
+    setBusy(true);
+    setMessage("");
+    try {
+      const res = await fetch("/api/admin/cron-health", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "check_alerts" }),
+      });
+      const json = await res.json();
+      setMessage(res.ok
+        ? `${json.open} open incident(s): ${json.alerted} new alert(s), ${json.recovered} recovered`
+        : json.error || "Request failed");
+      await fetchHealth();
+    } catch {
+      setMessage("Network error");
+    }
+    setBusy(false);
+  };
+
+  if (!data) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        <div className="text-4xl animate-pulse mb-2">🩺</div>
+        <p>Loading cron health...</p>
+      </div>
+    );
+  }
+
+  const failing = data.jobs.filter((j) => j.consecutive_failures >= data.failure_threshold).length;
+  const missed = data.jobs.filter((j) => j.missed).length;
+  const totalRuns = data.jobs.reduce((n, j) => n + j.runs, 0);
+  const totalCost = data.jobs.reduce((n, j) => n + j.total_cost_usd, 0);
+
+  return (
+    <div className="space-y-4">
+      {/* Summary */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <div className="bg-gray-900 border border-gray-800 rounded-xl p-4">
+          <p className="text-gray-400 text-xs mb-1">Runs ({data.window_hours}h)</p>
+          <p className="text-2xl font-black text-white">{totalRuns}</p>
+        </div>
+        <div className="bg-gray-900 border border-gray-800 rounded-xl p-4">
+          <p className="text-gray-400 text-xs mb-1">Cost ({data.window_hours}h)</p>
+          <p className="text-2xl font-black text-white">${totalCost.toFixed(2)}</p>
+        </div>
+        <div className="bg-gray-900 border border-gray-800 rounded-xl p-4">
+          <p className="text-gray-400 text-xs mb-1">Failing</p>
+          <p className={`text-2xl font-black ${failing > 0 ? "text-red-400" : "text-green-400"}`}>{failing}</p>
+        </div>
+        <div className="bg-gray-900 border border-gray-800 rounded-xl p-4">
+          <p className="text-gray-400 text-xs mb-1">Missed schedule</p>
+          <p className={`text-2xl font-black ${missed > 0 ? "text-yellow-400" : "text-green-400"}`}>{missed}</p>
+        </div>
+      </div>
+
+      <div className="bg-gray-900 border border-gray-800 rounded-xl p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="text-base font-bold text-amber-400">{"🩺"} Cron Health</h3>
+          <div className="flex flex-wrap gap-2">
+            {WINDOWS.map((w) => (
+              <button
+                key={w.hours}
+                onClick={() => setHours(w.hours)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-bold ${hours === w.hours ? "bg-purple-500/20 text-purple-400 border border-purple-500/30" : "bg-gray-800 text-gray-400 hover:bg-gray-700"}`}
+              >
+                {w.label}
+              </button>
+            ))}
+            <button
+              onClick={checkAlerts}
+              disabled={busy}
+              className="px-3 py-1.5 bg-green-500/20 text-green-400 border border-green-500/30 rounded-lg text-xs font-bold hover:bg-green-500/30 disabled:opacity-50"
+            >
+              {busy ? "Checking..." : "Check Alerts Now"}
+            </button>
+          </div>
+        </div>
+
+        {message && <p className="text-xs text-gray-300">{message}</p>}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500 border-b border-gray-800">
+                <th className="text-left py-2 px-2">Job</th>
+                <th className="text-left py-2 px-2">Last run</th>
+                <th className="text-right py-2 px-2">Success</th>
+                <th className="text-right py-2 px-2">p50 / p95</th>
+                <th className="text-left py-2 px-2">Daily p50</th>
+                <th className="text-right py-2 px-2">Cost / run</th>
+                <th className="text-left py-2 px-2">Last error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.jobs.map((j) => (
+                <tr key={j.cron_name} className="border-b border-gray-800/50 align-top">
+                  <td className="py-1.5 px-2">
+                    <p className="text-white font-bold">{j.cron_name}</p>
+                    <p className="text-gray-600 font-mono">{j.schedule ?? "unscheduled"}</p>
+                  </td>
+                  <td className="py-1.5 px-2 space-y-1">
+                    <div className="flex flex-wrap gap-1">
+                      {j.last_status && (
+                        <span className={`px-2 py-0.5 rounded border text-[10px] font-bold uppercase ${STATUS_STYLES[j.last_status]}`}>{j.last_status}</span>
+                      )}
+                      {j.missed && (
+                        <span className="px-2 py-0.5 rounded border text-[10px] font-bold uppercase text-yellow-400 bg-yellow-500/10 border-yellow-500/20">missed</span>
+                      )}
+                      {j.consecutive_failures >= data.failure_threshold && (
+                        <span className="px-2 py-0.5 rounded border text-[10px] font-bold uppercase text-red-400 bg-red-500/10 border-red-500/20">{j.consecutive_failures}× failed</span>
+                      )}
+                    </div>
+                    <p className="text-gray-400">{j.last_run_at ? timeAgo(j.last_run_at) : "no runs"}</p>
+                  </td>
+                  <td className="py-1.5 px-2 text-right font-mono">
+                    <p className={rateColor(j.success_rate)}>
+                      {j.success_rate === null ? "—" : `${(j.success_rate * 100).toFixed(1)}%`}
+                    </p>
+                    <p className="text-gray-600">{j.completed}/{j.runs}{j.throttled > 0 ? ` · ${j.throttled} skipped` : ""}</p>
+                  </td>
+                  <td className="py-1.5 px-2 text-right font-mono text-gray-300">
+                    {formatMs(j.p50_ms)} / {formatMs(j.p95_ms)}
+                  </td>
+                  <td className="py-1.5 px-2"><Trend points={j.trend} /></td>
+                  <td className="py-1.5 px-2 text-right font-mono text-gray-300">
+                    {j.avg_cost_usd === null ? "—" : `$${j.avg_cost_usd.toFixed(4)}`}
+                  </td>
+                  <td className="py-1.5 px-2 text-red-300 max-w-xs truncate" title={j.last_error ?? undefined}>
+                    {j.last_error ? `${j.last_error_at ? `${timeAgo(j.last_error_at)}: ` : ""}${j.last_error}` : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <ErrorGroupsPanel />
+
+      <ThrottleSchedulePanel />
+    </div>
+  );
+}
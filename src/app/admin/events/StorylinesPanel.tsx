@@ -0,0 +1,219 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+type StorylineStatus = "emerging" | "escalating" | "climax" | "resolved";
+
+interface Beat {
+  day: number;
+  status: StorylineStatus;
+  headline: string;
+  summary: string;
+  aired_at?: string | null;
+}
+
+interface Storyline {
+  id: string;
+  title: string;
+  premise: string;
+  category: string;
+  mood: string;
+  status: StorylineStatus;
+  personas: { id: string; username: string; display_name: string }[];
+  beats: Beat[];
+  current_day: number;
+  steer_note: string | null;
+  created_by: string;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+const STATUS_STYLES: Record<StorylineStatus, string> = {
+  emerging: "text-cyan-400 bg-cyan-500/10 border-cyan-500/20",
+  escalating: "text-amber-400 bg-amber-500/10 border-amber-500/20",
+  climax: "text-red-400 bg-red-500/10 border-red-500/20",
+  resolved: "text-gray-400 bg-gray-500/10 border-gray-500/20",
+};
+
+const BEAT_STYLES: Record<StorylineStatus, string> = {
+  emerging: "bg-cyan-500/30 border-cyan-500/50",
+  escalating: "bg-amber-500/30 border-amber-500/50",
+  climax: "bg-red-500/30 border-red-500/50",
+  resolved: "bg-gray-500/30 border-gray-500/50",
+};
+
+export default function StorylinesPanel() {
+  const [storylines, setStorylines] = useState<Storyline[] | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+  const [showSeed, setShowSeed] = useState(false);
+  const [seed, setSeed] = useState({ title: "", premise: "", personas: "", days: "5" });
+  const [note, setNote] = useState("");
+
+  const fetchStorylines = useCallback(() => {
+    return fetch("/api/admin/storylines")
+      .then((res) => (res.ok ? (res.json() as Promise<{ storylines: Storyline[] }>) : null))
+      .then((json) => {
+        if (json) setStorylines(json.storylines);
+      })
+      .catch(() => setMessage("Failed to load storylines"));
+  }, []);
+
+  useEffect(() => {
+    fetchStorylines();
+  }, [fetchStorylines]);
+
+  const post = async (payload: Record<string, unknown>, key: string, done: string) => {
+    setBusy(key);
+    setMessage("");
+    try {
+      const res = await fetch("/api/admin/storylines", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setMessage(json.error || "Request failed");
+      } else {
+        setMessage(done);
+        if (payload.action === "seed") {
+          setShowSeed(false);
+          setSeed({ title: "", premise: "", personas: "", days: "5" });
+          setSelected(json.storyline.id);
+        }
+        setNote("");
+      }
+      await fetchStorylines();
+    } catch {
+      setMessage("Network error");
+    }
+    setBusy(null);
+  };
+
+  if (!storylines) return null;
+
+  const arc = storylines.find((s) => s.id === selected);
+  const open = arc && arc.status !== "resolved";
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-xl p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-base font-bold text-amber-400">
+          {"🧵"} Storylines
+          <span className="ml-2 text-xs font-normal text-gray-400">Multi-day arcs — one beat airs with each day&apos;s topics</span>
+        </h3>
+        <button
+          onClick={() => setShowSeed(!showSeed)}
+          className="px-3 py-1.5 bg-purple-500/20 text-purple-400 rounded-lg text-xs font-bold hover:bg-purple-500/30"
+        >
+          {showSeed ? "Cancel" : "+ Seed Arc"}
+        </button>
+      </div>
+
+      {message && <p className="text-xs text-gray-300">{message}</p>}
+
+      {showSeed && (
+        <div className="bg-gray-800/50 rounded-lg p-3 space-y-2 text-xs">
+          <input value={seed.title} onChange={(e) => setSeed({ ...seed, title: e.target.value })}
+            placeholder="Title — e.g. The Great GlitchCoin Heist"
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white placeholder-gray-500 focus:outline-none focus:border-purple-500" />
+          <textarea value={seed.premise} onChange={(e) => setSeed({ ...seed, premise: e.target.value })} rows={2}
+            placeholder="Premise — what kicks it off and where it could go"
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white placeholder-gray-500 focus:outline-none focus:border-purple-500" />
+          <div className="flex gap-2">
+            <input value={seed.personas} onChange={(e) => setSeed({ ...seed, personas: e.target.value })}
+              placeholder="Cast usernames, comma-separated (blank = random)"
+              className="flex-1 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white placeholder-gray-500 focus:outline-none focus:border-purple-500" />
+            <input type="number" min={3} max={10} value={seed.days} onChange={(e) => setSeed({ ...seed, days: e.target.value })}
+              title="Days" className="w-20 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-purple-500" />
+          </div>
+          <button
+            onClick={() => post({ action: "seed", ...seed, days: Number(seed.days) }, "seed", "Storyline seeded — day 1 airs with the next topic run")}
+            disabled={busy !== null || !seed.title.trim() || !seed.premise.trim()}
+            className="px-4 py-2 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded-lg font-medium"
+          >
+            {busy === "seed" ? "Planning beats..." : "Seed Storyline"}
+          </button>
+        </div>
+      )}
+
+      {storylines.length === 0 ? (
+        <p className="text-gray-500 text-xs">No storylines yet</p>
+      ) : (
+        <div className="space-y-1 max-h-64 overflow-y-auto">
+          {storylines.map((s) => (
+            <button
+              key={s.id}
+              onClick={() => setSelected(selected === s.id ? null : s.id)}
+              className={`w-full flex flex-wrap items-center justify-between gap-2 px-3 py-2 rounded-lg text-xs text-left ${selected === s.id ? "bg-purple-500/20 border border-purple-500/30" : "bg-gray-800/50 hover:bg-gray-800"}`}
+            >
+              <span className="text-white font-bold truncate">
+                <span className={`mr-2 px-2 py-0.5 rounded border text-[10px] font-bold uppercase ${STATUS_STYLES[s.status]}`}>{s.status}</span>
+                {s.title}
+                <span className="ml-2 font-normal text-gray-500">{s.personas.map((p) => `@${p.username}`).join(" ")}</span>
+              </span>
+              <span className="font-mono text-gray-400">day {s.current_day}/{s.beats.length}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {arc && (
+        <div className="space-y-2 border-t border-gray-800 pt-3 text-xs">
+          <p className="text-gray-400">
+            {arc.premise}
+            <span className="ml-2 text-gray-500">· {arc.category} · {arc.mood} · seeded by {arc.created_by}</span>
+          </p>
+          {arc.steer_note && <p className="text-purple-300">Steering: {arc.steer_note}</p>}
+
+          {/* One block per beat, coloured by arc stage; aired beats solid */}
+          <div className="flex gap-1">
+            {arc.beats.map((b) => (
+              <div
+                key={b.day}
+                title={`Day ${b.day}: ${b.status}${b.day <= arc.current_day ? " (aired)" : ""}`}
+                className={`flex-1 h-3 rounded border ${BEAT_STYLES[b.status]} ${b.day <= arc.current_day ? "" : "opacity-40"}`}
+              />
+            ))}
+          </div>
+
+          {arc.beats.map((b) => (
+            <div key={b.day} className={`bg-gray-800/50 rounded-lg p-2 ${b.day <= arc.current_day ? "" : "opacity-60"}`}>
+              <p className="text-white font-bold">
+                Day {b.day} · <span className="font-normal text-gray-400">{b.status}{b.aired_at ? ` · aired ${new Date(b.aired_at).toLocaleDateString()}` : " · planned"}</span>
+              </p>
+              <p className="text-gray-300">{b.headline}</p>
+              <p className="text-gray-500">{b.summary}</p>
+            </div>
+          ))}
+
+          {open && (
+            <div className="space-y-2">
+              <textarea value={note} onChange={(e) => setNote(e.target.value)} rows={2}
+                placeholder="Steering note (re-plans unaired beats) or finale text (ends the arc with it)"
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white placeholder-gray-500 focus:outline-none focus:border-purple-500" />
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => post({ action: "steer", id: arc.id, note }, "steer", "Remaining beats re-planned")}
+                  disabled={busy !== null || !note.trim()}
+                  className="px-3 py-1.5 bg-purple-500/20 text-purple-400 rounded-lg font-bold hover:bg-purple-500/30 disabled:opacity-50"
+                >
+                  {busy === "steer" ? "Re-planning..." : "Steer"}
+                </button>
+                <button
+                  onClick={() => post({ action: "end", id: arc.id, finale: note }, "end", note.trim() ? "Finale airs with the next topic run" : "Storyline resolved")}
+                  disabled={busy !== null}
+                  className="px-3 py-1.5 bg-orange-500/20 text-orange-400 rounded-lg font-bold hover:bg-orange-500/30 disabled:opacity-50"
+                >
+                  {busy === "end" ? "..." : note.trim() ? "End with finale" : "End now"}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { useAdmin } from "../AdminContext";
+import StorylinesPanel from "./StorylinesPanel";
 
 interface CommunityEvent {
   id: string;
@@ -165,7 +166,7 @@ export default function EventsPage() {
             Community Events & Monitoring
           </h2>
           <p className="text-gray-400 text-xs sm:text-sm mt-1">
-            Meatbag-voted events, circuit breaker status, and AI cost tracking
+            Meatbag-voted events, storylines, circuit breaker status, and AI cost tracking
           </p>
         </div>
         <button
@@ -360,6 +361,9 @@ export default function EventsPage() {
         )}
       </div>
 
+      {/* ── Storylines ────────────────────────────────────── */}
+      <StorylinesPanel />
+
       {/* ── Completed Events ──────────────────────────────── */}
       {completedEvents.length > 0 && (
         <div>
@@ -0,0 +1,242 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+interface SceneEvent {
+  at: string;
+  event: string;
+  attempt: number;
+  detail: string | null;
+}
+
+interface Scene {
+  id: string;
+  scene_number: number;
+  title: string | null;
+  status: string;
+  attempts: number;
+  fail_reason: string | null;
+  video_url: string | null;
+  simplify_prompt: boolean;
+  submitted_at: string | null;
+  next_retry_at: string | null;
+  history: SceneEvent[];
+}
+
+interface MovieJob {
+  id: string;
+  title: string;
+  genre: string;
+  status: string;
+  clip_count: number;
+  completed_clips: number;
+  is_director: boolean;
+  created_at: string;
+  final_video_url: string | null;
+  scene_counts: Record<string, number>;
+}
+
+const JOB_STYLES: Record<string, string> = {
+  generating: "text-blue-400 bg-blue-500/10 border-blue-500/20",
+  stitching: "text-yellow-400 bg-yellow-500/10 border-yellow-500/20",
+  done: "text-green-400 bg-green-500/10 border-green-500/20",
+  failed: "text-red-400 bg-red-500/10 border-red-500/20",
+};
+
+const SCENE_STYLES: Record<string, string> = {
+  submitted: "bg-blue-500/30 border-blue-500/50",
+  submitting: "bg-blue-500/30 border-blue-500/50 animate-pulse",
+  retry: "bg-amber-500/30 border-amber-500/50",
+  done: "bg-green-500/30 border-green-500/50",
+  stitched: "bg-green-500/10 border-green-500/30",
+  failed: "bg-red-500/30 border-red-500/50",
+  skipped: "bg-gray-700/50 border-gray-600",
+};
+
+function timeAgo(iso: string): string {
+  const s = Math.round((Date.now() - new Date(iso).getTime()) / 1000);
+  if (s < 0) return `in ${Math.abs(s) < 60 ? `${-s}s` : `${Math.round(-s / 60)}m`}`;
+  if (s < 60) return `${s}s ago`;
+  if (s < 3600) return `${Math.round(s / 60)}m ago`;
+  if (s < 86400) return `${Math.round(s / 3600)}h ago`;
+  return `${Math.round(s / 86400)}d ago`;
+}
+
+export default function MultiClipTimelinePanel() {
+  const [jobs, setJobs] = useState<MovieJob[] | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [scenes, setScenes] = useState<Scene[] | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+
+  const fetchJobs = useCallback(() => {
+    return fetch("/api/admin/multi-clip")
+      .then((res) => (res.ok ? (res.json() as Promise<{ jobs: MovieJob[] }>) : null))
+      .then((json) => {
+        if (json) setJobs(json.jobs);
+      })
+      .catch(() => setMessage("Failed to load movies"));
+  }, []);
+
+  const fetchTimeline = useCallback(() => {
+    if (!selected) return Promise.resolve();
+    return fetch(`/api/admin/multi-clip?job=${encodeURIComponent(selected)}`)
+      .then((res) => (res.ok ? (res.json() as Promise<{ scenes: Scene[] }>) : null))
+      .then((json) => {
+        if (json) setScenes(json.scenes);
+      })
+      .catch(() => setMessage("Failed to load scene timeline"));
+  }, [selected]);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  useEffect(() => {
+    fetchTimeline();
+  }, [fetchTimeline]);
+
+  const post = async (payload: Record<string, unknown>, key: string) => {
+    setBusy(key);
+    setMessage("");
+    try {
+      const res = await fetch("/api/admin/multi-clip", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const json = await res.json();
+      if (!res.ok) setMessage(json.error || "Request failed");
+      else if (payload.action === "stitch_now") setMessage(`Stitched and posted (${json.skipped} unfinished scene(s) skipped)`);
+      else setMessage(json.resubmitted ? "Scene resubmitted" : "Scene queued for the next poll");
+      await Promise.all([fetchJobs(), fetchTimeline()]);
+    } catch {
+      setMessage("Network error");
+    }
+    setBusy(null);
+  };
+
+  if (!jobs) return null;
+
+  const job = jobs.find((j) => j.id === selected);
+  const canReroll = job && (job.status === "generating" || job.status === "failed");
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-xl p-4 space-y-3">
+      <h3 className="text-base font-bold text-amber-400">
+        {"🎞️"} Multi-Clip Movies
+        <span className="ml-2 text-xs font-normal text-gray-400">Per-scene attempts, retries and manual re-rolls</span>
+      </h3>
+
+      {message && <p className="text-xs text-gray-300">{message}</p>}
+
+      {jobs.length === 0 ? (
+        <p className="text-gray-500 text-xs">No multi-clip movies yet</p>
+      ) : (
+        <div className="space-y-1 max-h-64 overflow-y-auto">
+          {jobs.map((j) => (
+            <button
+              key={j.id}
+              onClick={() => { setSelected(selected === j.id ? null : j.id); setScenes(null); }}
+              className={`w-full flex flex-wrap items-center justify-between gap-2 px-3 py-2 rounded-lg text-xs text-left ${selected === j.id ? "bg-purple-500/20 border border-purple-500/30" : "bg-gray-800/50 hover:bg-gray-800"}`}
+            >
+              <span className="text-white font-bold truncate">
+                <span className={`mr-2 px-2 py-0.5 rounded border text-[10px] font-bold uppercase ${JOB_STYLES[j.status] ?? JOB_STYLES.generating}`}>{j.status}</span>
+                {j.title}
+                <span className="ml-2 font-normal text-gray-500">{j.is_director ? "director" : "series"} · {j.genre} · {timeAgo(j.created_at)}</span>
+              </span>
+              <span className="font-mono text-gray-400">
+                {j.completed_clips}/{j.clip_count}
+                {(j.scene_counts.retry ?? 0) > 0 && <span className="ml-2 text-amber-400">{j.scene_counts.retry} retrying</span>}
+                {(j.scene_counts.failed ?? 0) > 0 && <span className="ml-2 text-red-400">{j.scene_counts.failed} failed</span>}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {job && scenes && (
+        <div className="space-y-2 border-t border-gray-800 pt-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-xs text-gray-400">
+              Scene timeline for <span className="text-white font-bold">{job.title}</span>
+              {job.final_video_url && (
+                <a href={job.final_video_url} target="_blank" rel="noreferrer" className="ml-2 text-purple-400 hover:underline">final video</a>
+              )}
+            </p>
+            {canReroll && (
+              <button
+                onClick={() => post({ action: "stitch_now", job_id: job.id }, "stitch")}
+                disabled={busy !== null || !scenes.some((s) => s.status === "done")}
+                className="px-3 py-1.5 bg-green-500/20 text-green-400 rounded-lg text-xs font-bold hover:bg-green-500/30 disabled:opacity-50"
+              >
+                {busy === "stitch" ? "Stitching..." : "Stitch what we have"}
+              </button>
+            )}
+          </div>
+
+          {/* One block per scene, coloured by status */}
+          <div className="flex gap-1">
+            {scenes.map((s) => (
+              <div
+                key={s.id}
+                title={`Scene ${s.scene_number}: ${s.status}`}
+                className={`flex-1 h-3 rounded border ${SCENE_STYLES[s.status] ?? SCENE_STYLES.skipped}`}
+              />
+            ))}
+          </div>
+
+          {scenes.map((s) => (
+            <div key={s.id} className="bg-gray-800/50 rounded-lg p-3 text-xs space-y-1">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-white font-bold">
+                  #{s.scene_number} {s.title ?? "Untitled"}
+                  <span className="ml-2 font-normal text-gray-400">
+                    {s.status} · attempt {s.attempts}
+                    {s.simplify_prompt && " · simplified"}
+                    {s.status === "retry" && s.next_retry_at && ` · next try ${timeAgo(s.next_retry_at)}`}
+                  </span>
+                </p>
+                <div className="flex gap-2">
+                  {s.video_url && (
+                    <a href={s.video_url} target="_blank" rel="noreferrer" className="px-2 py-1 bg-gray-700 text-gray-300 rounded font-bold hover:bg-gray-600">
+                      Clip
+                    </a>
+                  )}
+                  {canReroll && s.status !== "submitting" && (
+                    <>
+                      <button
+                        onClick={() => post({ action: "reroll_scene", scene_id: s.id }, s.id)}
+                        disabled={busy !== null}
+                        className="px-2 py-1 bg-purple-500/20 text-purple-400 rounded font-bold hover:bg-purple-500/30 disabled:opacity-50"
+                      >
+                        {busy === s.id ? "..." : "Re-roll"}
+                      </button>
+                      <button
+                        onClick={() => post({ action: "reroll_scene", scene_id: s.id, simplify: true }, s.id)}
+                        disabled={busy !== null}
+                        className="px-2 py-1 bg-amber-500/20 text-amber-400 rounded font-bold hover:bg-amber-500/30 disabled:opacity-50"
+                      >
+                        Re-roll simplified
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+              {s.fail_reason && <p className="text-red-300">{s.fail_reason}</p>}
+              {s.history.length > 0 && (
+                <ul className="text-gray-500 space-y-0.5">
+                  {s.history.map((h, i) => (
+                    <li key={i}>
+                      {timeAgo(h.at)} · attempt {h.attempt} · {h.event}{h.detail ? ` — ${h.detail}` : ""}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useAdmin } from "../AdminContext";
+import MultiClipTimelinePanel from "./MultiClipTimelinePanel";
+
+type JobStatus = "queued" | "running" | "completed" | "dead";
+
+interface Job {
+  id: string;
+  type: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_by: string | null;
+  last_error: string | null;
+  idempotency_key: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+interface JobsData {
+  counts: Record<JobStatus, number>;
+  jobs: Job[];
+}
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: "text-blue-400 bg-blue-500/10 border-blue-500/20",
+  running: "text-yellow-400 bg-yellow-500/10 border-yellow-500/20",
+  completed: "text-green-400 bg-green-500/10 border-green-500/20",
+  dead: "text-red-400 bg-red-500/10 border-red-500/20",
+};
+
+const FILTERS: { id: JobStatus | "failing"; label: string }[] = [
+  { id: "failing", label: "Queued & Dead" },
+  { id: "queued", label: "Queued" },
+  { id: "running", label: "Running" },
+  { id: "dead", label: "Dead" },
+  { id: "completed", label: "Completed" },
+];
+
+function timeAgo(iso: string): string {
+  const s = Math.round((Date.now() - new Date(iso).getTime()) / 1000);
+  if (s < 0) return `in ${Math.abs(s) < 60 ? `${-s}s` : `${Math.round(-s / 60)}m`}`;
+  if (s < 60) return `${s}s ago`;
+  if (s < 3600) return `${Math.round(s / 60)}m ago`;
+  return `${Math.round(s / 3600)}h ago`;
+}
+
+export default function JobsPage() {
+  const { authenticated } = useAdmin();
+  const [data, setData] = useState<JobsData | null>(null);
+  const [filter, setFilter] = useState<JobStatus | "failing">("failing");
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+
+  const fetchJobs = useCallback(() => {
+    const qs = filter === "failing" ? "" : `?status=${filter}`;
+    return fetch(`/api/admin/jobs${qs}`)
+      .then((res) => (res.ok ? (res.json() as Promise<JobsData>) : null))
+      .then((json) => {
+        if (!json) return;
+        setData(filter === "failing"
+          ? { ...json, jobs: json.jobs.filter((j) => j.status === "queued" || j.status === "dead") }
+          : json);
+      })
+      .catch(() => setMessage("Failed to load jobs"));
+  }, [filter]);
+
+  useEffect(() => {
+    if (authenticated) fetchJobs();
+  }, [authenticated, fetchJobs]);
+
+  const post = async (body: Record<string, unknown>, key: string) => {
+    setBusy(key);
+    setMessage("");
+    try {
+      const res = await fetch("/api/admin/jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setMessage(json.error || "Request failed");
+      } else if (body.action === "run_worker") {
+        setMessage(`Worker ran: ${json.claimed} claimed, ${json.completed} completed, ${json.retrying} retrying, ${json.dead} dead`);
+      } else {
+        setMessage("Job re-queued");
+      }
+      await fetchJobs();
+    } catch {
+      setMessage("Network error");
+    }
+    setBusy(null);
+  };
+
+  if (!data) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        <div className="text-4xl animate-pulse mb-2">📥</div>
+        <p>Loading job queue...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Counts */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {(["queued", "running", "dead", "completed"] as JobStatus[]).map((s) => (
+          <div key={s} className="bg-gray-900 border border-gray-800 rounded-xl p-4">
+            <p className="text-gray-400 text-xs mb-1 capitalize">{s}{s === "completed" ? " (24h)" : ""}</p>
+            <p className={`text-2xl font-black ${STATUS_STYLES[s].split(" ")[0]}`}>{data.counts[s]}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-gray-900 border border-gray-800 rounded-xl p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="text-base font-bold text-amber-400">{"📥"} Background Jobs</h3>
+          <div className="flex flex-wrap gap-2">
+            {FILTERS.map((f) => (
+              <button
+                key={f.id}
+                onClick={() => setFilter(f.id)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-bold ${filter === f.id ? "bg-purple-500/20 text-purple-400 border border-purple-500/30" : "bg-gray-800 text-gray-400 hover:bg-gray-700"}`}
+              >
+                {f.label}
+              </button>
+            ))}
+            <button
+              onClick={() => post({ action: "run_worker" }, "worker")}
+              disabled={busy !== null}
+              className="px-3 py-1.5 bg-green-500/20 text-green-400 border border-green-500/30 rounded-lg text-xs font-bold hover:bg-green-500/30 disabled:opacity-50"
+            >
+              {busy === "worker" ? "Running..." : "Run Worker Now"}
+            </button>
+          </div>
+        </div>
+
+        {message && <p className="text-xs text-gray-300">{message}</p>}
+
+        {data.jobs.length === 0 ? (
+          <p className="text-gray-500 text-xs">No jobs</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-500 border-b border-gray-800">
+                  <th className="text-left py-2 px-2">Type</th>
+                  <th className="text-left py-2 px-2">Status</th>
+                  <th className="text-right py-2 px-2">Attempts</th>
+                  <th className="text-left py-2 px-2">Next run / updated</th>
+                  <th className="text-left py-2 px-2">Last error</th>
+                  <th className="py-2 px-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.jobs.map((j) => (
+                  <tr key={j.id} className="border-b border-gray-800/50 align-top">
+                    <td className="py-1.5 px-2">
+                      <p className="text-white font-bold">{j.type}</p>
+                      <p className="text-gray-600 font-mono" title={j.idempotency_key ?? undefined}>{j.id.slice(0, 8)}</p>
+                    </td>
+                    <td className="py-1.5 px-2">
+                      <span className={`px-2 py-0.5 rounded border text-[10px] font-bold uppercase ${STATUS_STYLES[j.status]}`}>{j.status}</span>
+                    </td>
+                    <td className="py-1.5 px-2 text-right font-mono text-gray-400">{j.attempts}/{j.max_attempts}</td>
+                    <td className="py-1.5 px-2 text-gray-400">
+                      {j.status === "queued" ? timeAgo(j.run_at) : timeAgo(j.updated_at)}
+                    </td>
+                    <td className="py-1.5 px-2 text-red-300 max-w-xs truncate" title={j.last_error ?? undefined}>{j.last_error ?? "—"}</td>
+                    <td className="py-1.5 px-2 text-right">
+                      {(j.status === "dead" || j.status === "queued") && (
+                        <button
+                          onClick={() => post({ action: "retry", id: j.id }, j.id)}
+                          disabled={busy !== null}
+                          className="px-3 py-1 bg-gray-800 text-gray-300 rounded-lg text-xs font-bold hover:bg-gray-700 disabled:opacity-50"
+                        >
+                          {busy === j.id ? "..." : j.status === "dead" ? "Retry" : "Run Now"}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <MultiClipTimelinePanel />
+    </div>
+  );
+}
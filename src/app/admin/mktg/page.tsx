@@ -0,0 +1,240 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useAdmin } from "../AdminContext";
+import { ALL_PLATFORMS, PLATFORM_DISPLAY, type MarketingPlatform } from "@/lib/marketing/types";
+
+interface CalendarPost {
+  id: string;
+  platform: MarketingPlatform;
+  status: "queued" | "posting" | "posted" | "failed" | "cancelled";
+  adapted_content: string;
+  adapted_media_url: string | null;
+  scheduled_for: string | null;
+  posted_at: string | null;
+  platform_url: string | null;
+  error_message: string | null;
+  persona_display_name: string | null;
+  persona_emoji: string | null;
+}
+
+interface CalendarData {
+  posts: CalendarPost[];
+  slots: Record<MarketingPlatform, number[]>;
+  caps: Record<MarketingPlatform, number>;
+}
+
+const STATUS_STYLES: Record<CalendarPost["status"], string> = {
+  queued: "border-cyan-500/40 bg-cyan-500/10",
+  posting: "border-amber-500/40 bg-amber-500/10",
+  posted: "border-green-500/40 bg-green-500/10",
+  failed: "border-red-500/40 bg-red-500/10",
+  cancelled: "border-gray-700 bg-gray-800/40 opacity-50",
+};
+
+const DAY_MS = 86_400_000;
+
+/** Monday 00:00 UTC of the week containing `d`. The scheduler works in UTC, so the calendar does too. */
+function weekStartOf(d: Date): Date {
+  const day = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+  return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+}
+
+const when = (p: CalendarPost) => p.posted_at || p.scheduled_for || "";
+const hhmm = (iso: string) => iso.slice(11, 16);
+
+export default function MarketingCalendarPage() {
+  const { authenticated } = useAdmin();
+  const [weekStart, setWeekStart] = useState(() => weekStartOf(new Date()));
+  const [data, setData] = useState<CalendarData | null>(null);
+  const [platform, setPlatform] = useState<MarketingPlatform | "all">("all");
+  const [showCancelled, setShowCancelled] = useState(false);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [editTime, setEditTime] = useState("");
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropDay, setDropDay] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+
+  const fetchCalendar = useCallback(() => {
+    const from = weekStart.toISOString();
+    const to = new Date(weekStart.getTime() + 7 * DAY_MS).toISOString();
+    return fetch(`/api/admin/mktg?action=calendar&from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`)
+      .then((res) => (res.ok ? (res.json() as Promise<CalendarData>) : null))
+      .then((json) => {
+        if (json) setData(json);
+      })
+      .catch(() => setMessage("Failed to load calendar"));
+  }, [weekStart]);
+
+  useEffect(() => {
+    if (authenticated) fetchCalendar();
+  }, [authenticated, fetchCalendar]);
+
+  const post = async (payload: Record<string, unknown>, key: string, done: string) => {
+    setBusy(key);
+    setMessage("");
+    try {
+      const res = await fetch("/api/admin/mktg", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const json = await res.json();
+      setMessage(res.ok ? done : json.error || "Request failed");
+      await fetchCalendar();
+    } catch {
+      setMessage("Network error");
+    }
+    setBusy(null);
+  };
+
+  /** Keep the post's time of day, move it to `dayKey` (YYYY-MM-DD). */
+  const dropOnDay = (dayKey: string) => {
+    const p = data?.posts.find((x) => x.id === dragId);
+    setDragId(null);
+    setDropDay(null);
+    if (!p?.scheduled_for || p.scheduled_for.slice(0, 10) === dayKey) return;
+    const target = `${dayKey}T${p.scheduled_for.slice(11, 19)}Z`;
+    post({ action: "reschedule_post", id: p.id, scheduled_for: target }, p.id, `Moved to ${dayKey} ${hhmm(target)} UTC`);
+  };
+
+  if (!authenticated) return null;
+
+  const days = Array.from({ length: 7 }, (_, i) => new Date(weekStart.getTime() + i * DAY_MS));
+  const visible = (data?.posts ?? []).filter((p) =>
+    (platform === "all" || p.platform === platform) && (showCancelled || p.status !== "cancelled"));
+  const selectedPost = data?.posts.find((p) => p.id === selected);
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-900 border border-gray-800 rounded-xl p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="text-base font-bold text-amber-400">
+            {"\u{1F4C5}"} Marketing Post Calendar
+            <span className="ml-2 text-xs font-normal text-gray-400">Times in UTC — drag a queued post onto another day to move it</span>
+          </h3>
+          <div className="flex items-center gap-2 text-xs">
+            <button onClick={() => setWeekStart(new Date(weekStart.getTime() - 7 * DAY_MS))}
+              className="px-2.5 py-1.5 bg-gray-800 text-gray-300 rounded-lg font-bold hover:bg-gray-700">{"←"}</button>
+            <button onClick={() => setWeekStart(weekStartOf(new Date()))}
+              className="px-2.5 py-1.5 bg-gray-800 text-gray-300 rounded-lg font-bold hover:bg-gray-700">This week</button>
+            <button onClick={() => setWeekStart(new Date(weekStart.getTime() + 7 * DAY_MS))}
+              className="px-2.5 py-1.5 bg-gray-800 text-gray-300 rounded-lg font-bold hover:bg-gray-700">{"→"}</button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {(["all", ...ALL_PLATFORMS] as const).map((p) => (
+            <button key={p} onClick={() => setPlatform(p)}
+              className={`px-3 py-1.5 rounded-lg font-bold ${platform === p ? "bg-purple-500/30 text-purple-300" : "bg-gray-800 text-gray-400 hover:bg-gray-700"}`}>
+              {p === "all" ? "All" : `${PLATFORM_DISPLAY[p].emoji} ${PLATFORM_DISPLAY[p].name}`}
+            </button>
+          ))}
+          <label className="flex items-center gap-1 text-gray-400 ml-2">
+            <input type="checkbox" checked={showCancelled} onChange={(e) => setShowCancelled(e.target.checked)} />
+            Show cancelled
+          </label>
+        </div>
+
+        {data && (
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-[11px] text-gray-500">
+            {ALL_PLATFORMS.map((p) => (
+              <span key={p}>
+                {PLATFORM_DISPLAY[p].emoji} best slots {data.slots[p].map((h) => `${String(h).padStart(2, "0")}:00`).join(", ")} · cap {data.caps[p]}/day
+              </span>
+            ))}
+          </div>
+        )}
+
+        {message && <p className="text-xs text-gray-300">{message}</p>}
+      </div>
+
+      {!data ? (
+        <p className="text-gray-500 text-sm text-center py-10 animate-pulse">Loading calendar...</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+          {days.map((day) => {
+            const dayKey = day.toISOString().slice(0, 10);
+            const dayPosts = visible.filter((p) => when(p).slice(0, 10) === dayKey);
+            const load = ALL_PLATFORMS
+              .map((p) => ({ p, n: dayPosts.filter((x) => x.platform === p && x.status !== "cancelled" && x.status !== "failed").length }))
+              .filter(({ n }) => n > 0);
+            return (
+              <div
+                key={dayKey}
+                onDragOver={(e) => { if (dragId) { e.preventDefault(); setDropDay(dayKey); } }}
+                onDragLeave={() => setDropDay(null)}
+                onDrop={(e) => { e.preventDefault(); dropOnDay(dayKey); }}
+                className={`bg-gray-900 border rounded-xl p-2 space-y-1.5 min-h-40 ${dropDay === dayKey ? "border-purple-500" : "border-gray-800"}`}
+              >
+                <div className="text-xs">
+                  <p className="font-bold text-white">{day.toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric", timeZone: "UTC" })}</p>
+                  <p className="text-[10px] text-gray-500">
+                    {load.length === 0 ? "—" : load.map(({ p, n }) => (
+                      <span key={p} className={n > data.caps[p] ? "text-red-400" : ""}>{PLATFORM_DISPLAY[p].emoji} {n}/{data.caps[p]} </span>
+                    ))}
+                  </p>
+                </div>
+                {dayPosts.map((p) => (
+                  <div
+                    key={p.id}
+                    draggable={p.status === "queued"}
+                    onDragStart={() => setDragId(p.id)}
+                    onDragEnd={() => { setDragId(null); setDropDay(null); }}
+                    onClick={() => { setSelected(selected === p.id ? null : p.id); setEditTime((p.scheduled_for || "").slice(0, 16)); }}
+                    className={`border rounded-lg p-1.5 text-[11px] ${STATUS_STYLES[p.status]} ${p.status === "queued" ? "cursor-grab" : "cursor-pointer"} ${selected === p.id ? "ring-1 ring-purple-400" : ""} ${busy === p.id ? "animate-pulse" : ""}`}
+                  >
+                    <p className="font-mono text-gray-300">
+                      {PLATFORM_DISPLAY[p.platform].emoji} {hhmm(when(p))} <span className="text-gray-500">{p.status}</span>
+                    </p>
+                    <p className="text-gray-400 line-clamp-2">{p.persona_emoji} {p.adapted_content}</p>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {selectedPost && (
+        <div className="bg-gray-900 border border-gray-800 rounded-xl p-4 space-y-2 text-xs">
+          <p className="text-white font-bold">
+            {PLATFORM_DISPLAY[selectedPost.platform].emoji} {PLATFORM_DISPLAY[selectedPost.platform].name} · {selectedPost.status}
+            {selectedPost.persona_display_name && <span className="ml-2 font-normal text-gray-400">{selectedPost.persona_emoji} {selectedPost.persona_display_name}</span>}
+          </p>
+          <p className="text-gray-300 whitespace-pre-wrap">{selectedPost.adapted_content}</p>
+          {selectedPost.adapted_media_url && (
+            <a href={selectedPost.adapted_media_url} target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline break-all">{selectedPost.adapted_media_url}</a>
+          )}
+          {selectedPost.platform_url && (
+            <p><a href={selectedPost.platform_url} target="_blank" rel="noopener noreferrer" className="text-green-400 hover:underline">View live post</a></p>
+          )}
+          {selectedPost.error_message && <p className="text-red-400">{selectedPost.error_message}</p>}
+
+          {selectedPost.status === "queued" && (
+            <div className="flex flex-wrap items-center gap-2 pt-1">
+              <input type="datetime-local" value={editTime} onChange={(e) => setEditTime(e.target.value)}
+                className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-1.5 text-white focus:outline-none focus:border-purple-500" />
+              <span className="text-gray-500">UTC</span>
+              <button
+                onClick={() => post({ action: "reschedule_post", id: selectedPost.id, scheduled_for: `${editTime}:00Z` }, selectedPost.id, `Rescheduled to ${editTime.replace("T", " ")} UTC`)}
+                disabled={busy !== null || !editTime}
+                className="px-3 py-1.5 bg-purple-500/20 text-purple-400 rounded-lg font-bold hover:bg-purple-500/30 disabled:opacity-50"
+              >
+                Reschedule
+              </button>
+              <button
+                onClick={() => post({ action: "cancel_post", id: selectedPost.id }, selectedPost.id, "Post cancelled")}
+                disabled={busy !== null}
+                className="px-3 py-1.5 bg-red-500/20 text-red-400 rounded-lg font-bold hover:bg-red-500/30 disabled:opacity-50"
+              >
+                Cancel post
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+interface PostTypeScore {
+  postType: string;
+  posts: number;
+  avgScore: number;
+}
+
+interface HintRevision {
+  id: string;
+  scope: "channel" | "persona";
+  target_id: string;
+  target_name: string | null;
+  hint: string;
+  previous_hint: string | null;
+  metrics: {
+    totalReactions: number;
+    avgScore: number;
+    emotionBreakdown: { funny: number; shocked: number; sad: number; crap: number };
+    postTypes?: PostTypeScore[];
+  };
+  created_at: string;
+}
+
+const SCOPE_STYLES: Record<HintRevision["scope"], string> = {
+  channel: "text-cyan-400 bg-cyan-500/10 border-cyan-500/20",
+  persona: "text-purple-400 bg-purple-500/10 border-purple-500/20",
+};
+
+function timeAgo(iso: string): string {
+  const s = Math.round((Date.now() - new Date(iso).getTime()) / 1000);
+  if (s < 60) return `${s}s ago`;
+  if (s < 3600) return `${Math.round(s / 60)}m ago`;
+  if (s < 86400) return `${Math.round(s / 3600)}h ago`;
+  return `${Math.round(s / 86400)}d ago`;
+}
+
+export default function FeedbackHintsPanel() {
+  const [revisions, setRevisions] = useState<HintRevision[] | null>(null);
+  const [scope, setScope] = useState<"" | HintRevision["scope"]>("");
+  const [target, setTarget] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const fetchRevisions = useCallback(() => {
+    const params = new URLSearchParams();
+    if (scope) params.set("scope", scope);
+    if (target) params.set("target", target);
+    return fetch(`/api/admin/feedback-hints?${params}`)
+      .then((res) => (res.ok ? (res.json() as Promise<{ revisions: HintRevision[] }>) : null))
+      .then((json) => {
+        if (json) setRevisions(json.revisions);
+      })
+      .catch(() => setMessage("Failed to load hint history"));
+  }, [scope, target]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  const clearHint = async (personaId: string) => {
+    if (!confirm("Drop this persona's current feedback hint? The next loop run may write a new one.")) return;
+    setBusy(true);
+    setMessage("");
+    try {
+      const res = await fetch("/api/admin/feedback-hints", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "clear", persona_id: personaId }),
+      });
+      const json = await res.json();
+      setMessage(res.ok ? "Hint cleared" : json.error || "Request failed");
+      await fetchRevisions();
+    } catch {
+      setMessage("Network error");
+    }
+    setBusy(false);
+  };
+
+  if (!revisions) return null;
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-xl p-4 space-y-3 mb-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-base font-bold text-amber-400">
+          {"🔄"} Feedback Loop Hints
+          <span className="ml-2 text-xs font-normal text-gray-400">Every hint revision and the reactions that produced it</span>
+        </h3>
+        <div className="flex gap-2 text-xs">
+          {target && (
+            <button onClick={() => setTarget(null)} className="px-2 py-1 bg-gray-800 text-gray-300 rounded hover:bg-gray-700">
+              {"✕"} {revisions[0]?.target_name ?? target}
+            </button>
+          )}
+          <select value={scope} onChange={(e) => { setScope(e.target.value as typeof scope); setTarget(null); }}
+            className="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white">
+            <option value="">All</option>
+            <option value="persona">Personas</option>
+            <option value="channel">Channels</option>
+          </select>
+        </div>
+      </div>
+
+      {message && <p className="text-xs text-gray-300">{message}</p>}
+
+      {revisions.length === 0 ? (
+        <p className="text-gray-500 text-xs">No hint revisions yet — the loop runs every 6 hours</p>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {revisions.map((r) => (
+            <div key={r.id} className="bg-gray-800/50 rounded-lg p-3 text-xs space-y-1">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-white font-bold">
+                  <span className={`mr-2 px-2 py-0.5 rounded border text-[10px] font-bold uppercase ${SCOPE_STYLES[r.scope]}`}>{r.scope}</span>
+                  <button onClick={() => { setScope(r.scope); setTarget(r.target_id); }} className="hover:underline">
+                    {r.scope === "persona" ? "@" : ""}{r.target_name ?? r.target_id}
+                  </button>
+                  <span className="ml-2 font-normal text-gray-500">{timeAgo(r.created_at)}</span>
+                </p>
+                <span className="font-mono text-gray-400">
+                  {r.metrics.totalReactions} reactions · avg {r.metrics.avgScore.toFixed(1)} ·
+                  {" "}😂{r.metrics.emotionBreakdown.funny} 😮{r.metrics.emotionBreakdown.shocked} 😢{r.metrics.emotionBreakdown.sad} 💩{r.metrics.emotionBreakdown.crap}
+                </span>
+              </div>
+              {r.hint ? <p className="text-gray-300">{r.hint}</p> : <p className="text-orange-400">Cleared by admin</p>}
+              {r.metrics.postTypes && r.metrics.postTypes.length > 0 && (
+                <p className="text-gray-500">
+                  By post type: {r.metrics.postTypes.map((t) => `${t.postType} ${t.avgScore.toFixed(1)} (${t.posts})`).join(" · ")}
+                </p>
+              )}
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                {r.previous_hint ? (
+                  <details className="text-gray-500">
+                    <summary className="cursor-pointer">Previous hint</summary>
+                    <p className="mt-1">{r.previous_hint}</p>
+                  </details>
+                ) : <span />}
+                {r.scope === "persona" && r.hint && r === revisions.find((x) => x.target_id === r.target_id) && (
+                  <button onClick={() => clearHint(r.target_id)} disabled={busy}
+                    className="px-2 py-1 bg-orange-500/20 text-orange-400 rounded font-bold hover:bg-orange-500/30 disabled:opacity-50">
+                    Clear hint
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
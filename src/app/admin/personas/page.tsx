@@ -5,6 +5,7 @@ import Image from "next/image";
 import { useAdmin } from "../AdminContext";
 import type { Persona } from "../admin-types";
 import PromptViewer from "@/components/PromptViewer";
+import FeedbackHintsPanel from "./FeedbackHintsPanel";
 
 // Tiny 1x1 purple blur placeholder for instant avatar rendering
 const AVATAR_BLUR = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==";
@@ -1595,6 +1596,8 @@ export default function PersonasPage() {
 
   return (
     <>
+      <FeedbackHintsPanel />
+
       {/* Sgt. Pepper's AI Hearts Club Band */}
       {personas.length > 0 && (
         <div className="bg-gradient-to-b from-gray-900 via-purple-950/40 to-gray-900 border border-yellow-500/30 rounded-lg p-4 overflow-hidden relative mb-4">
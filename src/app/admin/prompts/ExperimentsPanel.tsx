@@ -0,0 +1,235 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+interface Variant {
+  id: string;
+  label: string;
+  value: string | null;
+  weight: number;
+}
+
+interface Experiment {
+  id: string;
+  category: string;
+  key: string;
+  name: string;
+  status: "running" | "stopped" | "promoted";
+  winner_variant_id: string | null;
+  started_at: string;
+  stopped_at: string | null;
+  variants: Variant[];
+}
+
+type Verdict = "better" | "worse" | "inconclusive";
+
+interface Metric {
+  n: number;
+  mean: number;
+  low: number | null;
+  high: number | null;
+  vsControl: Verdict | null;
+}
+
+interface VariantReport {
+  variantId: string;
+  label: string;
+  isControl: boolean;
+  weight: number;
+  posts: number;
+  metrics: Record<"likes" | "views" | "shares" | "feedback", Metric>;
+  likeRate: { rate: number; low: number; high: number } | null;
+}
+
+const METRICS = [
+  { key: "likes", label: "Likes / post" },
+  { key: "views", label: "Views / post" },
+  { key: "shares", label: "Shares / post" },
+  { key: "feedback", label: "Feedback score" },
+] as const;
+
+const STATUS_STYLES: Record<Experiment["status"], string> = {
+  running: "text-green-400 bg-green-500/10 border-green-500/20",
+  stopped: "text-gray-400 bg-gray-500/10 border-gray-500/20",
+  promoted: "text-purple-400 bg-purple-500/10 border-purple-500/20",
+};
+
+const VERDICT_STYLES: Record<Verdict, string> = {
+  better: "text-green-400",
+  worse: "text-red-400",
+  inconclusive: "text-gray-500",
+};
+
+function formatInterval(m: Metric): string {
+  if (m.low === null || m.high === null) return m.mean.toFixed(2);
+  return `${m.mean.toFixed(2)} [${m.low.toFixed(2)}, ${m.high.toFixed(2)}]`;
+}
+
+export default function ExperimentsPanel() {
+  const [experiments, setExperiments] = useState<Experiment[] | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [report, setReport] = useState<VariantReport[] | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+
+  const fetchExperiments = useCallback(() => {
+    return fetch("/api/admin/prompts/experiments")
+      .then((res) => (res.ok ? (res.json() as Promise<{ experiments: Experiment[] }>) : null))
+      .then((json) => {
+        if (json) setExperiments(json.experiments);
+      })
+      .catch(() => setMessage("Failed to load experiments"));
+  }, []);
+
+  const fetchReport = useCallback(() => {
+    if (!selected) return Promise.resolve();
+    return fetch(`/api/admin/prompts/experiments?id=${encodeURIComponent(selected)}`)
+      .then((res) => (res.ok ? (res.json() as Promise<{ variants: VariantReport[] }>) : null))
+      .then((json) => {
+        if (json) setReport(json.variants);
+      })
+      .catch(() => setMessage("Failed to load report"));
+  }, [selected]);
+
+  useEffect(() => {
+    fetchExperiments();
+  }, [fetchExperiments]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const post = async (payload: Record<string, unknown>, key: string) => {
+    setBusy(key);
+    setMessage("");
+    try {
+      const res = await fetch("/api/admin/prompts/experiments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const json = await res.json();
+      if (!res.ok) setMessage(json.error || "Request failed");
+      else setMessage(payload.action === "promote" ? "Winner promoted — it is now the live prompt" : "Experiment stopped");
+      await Promise.all([fetchExperiments(), fetchReport()]);
+    } catch {
+      setMessage("Network error");
+    }
+    setBusy(null);
+  };
+
+  if (!experiments) return null;
+
+  const experiment = experiments.find((e) => e.id === selected);
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-xl p-4 space-y-3">
+      <h3 className="text-base font-bold text-amber-400">
+        {"🧪"} Prompt Experiments
+        <span className="ml-2 text-xs font-normal text-gray-400">Start one with the A/B button on any prompt</span>
+      </h3>
+
+      {message && <p className="text-xs text-gray-300">{message}</p>}
+
+      {experiments.length === 0 ? (
+        <p className="text-gray-500 text-xs">No experiments yet</p>
+      ) : (
+        <div className="space-y-1 max-h-64 overflow-y-auto">
+          {experiments.map((e) => (
+            <button
+              key={e.id}
+              onClick={() => { setSelected(selected === e.id ? null : e.id); setReport(null); }}
+              className={`w-full flex flex-wrap items-center justify-between gap-2 px-3 py-2 rounded-lg text-xs text-left ${selected === e.id ? "bg-purple-500/20 border border-purple-500/30" : "bg-gray-800/50 hover:bg-gray-800"}`}
+            >
+              <span className="text-white font-bold truncate">
+                <span className={`mr-2 px-2 py-0.5 rounded border text-[10px] font-bold uppercase ${STATUS_STYLES[e.status]}`}>{e.status}</span>
+                {e.name}
+                <span className="ml-2 font-normal text-gray-500">{e.category}.{e.key}</span>
+              </span>
+              <span className="font-mono text-gray-400">
+                {e.variants.map((v) => `${v.label} ${v.weight}`).join(" · ")}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {experiment && report && (
+        <div className="space-y-2 border-t border-gray-800 pt-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-xs text-gray-400">
+              Started {new Date(experiment.started_at).toLocaleString()}
+              {experiment.stopped_at && ` · ended ${new Date(experiment.stopped_at).toLocaleString()}`}
+              <span className="ml-2 text-gray-500">Means with 95% confidence intervals; verdicts compare each variant to the control.</span>
+            </p>
+            {experiment.status === "running" && (
+              <button
+                onClick={() => post({ action: "stop", id: experiment.id }, "stop")}
+                disabled={busy !== null}
+                className="px-3 py-1.5 bg-orange-500/20 text-orange-400 rounded-lg text-xs font-bold hover:bg-orange-500/30 disabled:opacity-50"
+              >
+                {busy === "stop" ? "Stopping..." : "Stop"}
+              </button>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-500 text-left">
+                  <th className="py-1 pr-3">Variant</th>
+                  <th className="py-1 pr-3">Posts</th>
+                  {METRICS.map((m) => <th key={m.key} className="py-1 pr-3">{m.label}</th>)}
+                  <th className="py-1 pr-3">Like rate</th>
+                  <th className="py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {report.map((v) => (
+                  <tr key={v.variantId} className="border-t border-gray-800 text-gray-300 align-top">
+                    <td className="py-2 pr-3 text-white font-bold">
+                      {v.label}
+                      {v.isControl && <span className="ml-1 text-[9px] px-1.5 py-0.5 bg-gray-700 text-gray-300 rounded-full">control</span>}
+                      {experiment.winner_variant_id === v.variantId && <span className="ml-1 text-[9px] px-1.5 py-0.5 bg-purple-500/20 text-purple-400 rounded-full">winner</span>}
+                      <span className="block font-normal text-gray-500">weight {v.weight}</span>
+                    </td>
+                    <td className="py-2 pr-3 font-mono">{v.posts}</td>
+                    {METRICS.map((m) => (
+                      <td key={m.key} className="py-2 pr-3 font-mono">
+                        {formatInterval(v.metrics[m.key])}
+                        {v.metrics[m.key].vsControl && (
+                          <span className={`block text-[10px] ${VERDICT_STYLES[v.metrics[m.key].vsControl!]}`}>{v.metrics[m.key].vsControl}</span>
+                        )}
+                      </td>
+                    ))}
+                    <td className="py-2 pr-3 font-mono">
+                      {v.likeRate ? `${(v.likeRate.rate * 100).toFixed(1)}% [${(v.likeRate.low * 100).toFixed(1)}, ${(v.likeRate.high * 100).toFixed(1)}]` : "—"}
+                    </td>
+                    <td className="py-2 text-right">
+                      {experiment.status !== "promoted" && (
+                        <button
+                          onClick={() => { if (confirm(`Promote "${v.label}" and end the experiment?`)) post({ action: "promote", id: experiment.id, variantId: v.variantId }, v.variantId); }}
+                          disabled={busy !== null}
+                          className="px-2 py-1 bg-purple-500/20 text-purple-400 rounded font-bold hover:bg-purple-500/30 disabled:opacity-50"
+                        >
+                          {busy === v.variantId ? "..." : "Promote"}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {experiment.variants.filter((v) => v.value !== null).map((v) => (
+            <details key={v.id} className="text-xs">
+              <summary className="text-gray-400 cursor-pointer">{v.label} prompt text</summary>
+              <pre className="text-[11px] text-gray-400 whitespace-pre-wrap max-h-24 overflow-y-auto bg-gray-900/50 p-2 rounded">{v.value}</pre>
+            </details>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { useAdmin } from "../AdminContext";
+import ExperimentsPanel from "./ExperimentsPanel";
 
 interface PromptItem {
   key: string;
@@ -9,6 +10,8 @@ interface PromptItem {
   value: string;
   default: string;
   overridden: boolean;
+  /** Posts generated with this prompt are tagged, so an A/B test can be measured. */
+  experimentable: boolean;
 }
 
 interface ChannelGroup {
@@ -44,7 +47,8 @@ export default function PromptsPage() {
   const [expandedGroup, setExpandedGroup] = useState<string | null>(null);
   const [editingPrompt, setEditingPrompt] = useState<{ category: string; key: string; value: string; label: string } | null>(null);
   const [saving, setSaving] = useState(false);
-  const [tab, setTab] = useState<"channels" | "directors" | "genres">("channels");
+  const [tab, setTab] = useState<"channels" | "directors" | "genres" | "experiments">("channels");
+  const [abTest, setAbTest] = useState<{ key: string; label: string; value: string; controlWeight: number; challengerWeight: number } | null>(null);
 
   useEffect(() => {
     if (authenticated) fetchPrompts();
@@ -106,6 +110,40 @@ export default function PromptsPage() {
     } catch (err) { alert(`Error: ${err}`); }
   };
 
+  const startAbTest = async () => {
+    if (!abTest) return;
+    setSaving(true);
+    try {
+      const res = await fetch("/api/admin/prompts/experiments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "start",
+          category: abTest.key.split(".")[0],
+          key: abTest.key,
+          name: abTest.label,
+          variants: [
+            { label: "Control", value: null, weight: abTest.controlWeight },
+            { label: "Challenger", value: abTest.value, weight: abTest.challengerWeight },
+          ],
+        }),
+      });
+      const data = await res.json();
+      if (data.ok) {
+        setAbTest(null);
+        setTab("experiments");
+      } else {
+        alert(`Could not start test: ${data.error}`);
+      }
+    } catch (err) { alert(`Error: ${err}`); }
+    setSaving(false);
+  };
+
+  const abButton = (p: PromptItem) => p.experimentable && (
+    <button onClick={() => setAbTest({ key: p.key, label: p.label, value: p.value, controlWeight: 50, challengerWeight: 50 })}
+      className="px-2 py-0.5 text-[10px] text-amber-400 hover:text-amber-300 bg-amber-500/10 rounded">A/B</button>
+  );
+
   if (!authenticated) return null;
 
   return (
@@ -135,6 +173,10 @@ export default function PromptsPage() {
           className={`px-4 py-2 rounded-lg text-sm font-bold transition-colors ${tab === "genres" ? "bg-green-500/20 text-green-400 border border-green-500/30" : "bg-gray-800 text-gray-400 hover:text-white"}`}>
           Genres ({genres.length})
         </button>
+        <button onClick={() => setTab("experiments")}
+          className={`px-4 py-2 rounded-lg text-sm font-bold transition-colors ${tab === "experiments" ? "bg-amber-500/20 text-amber-400 border border-amber-500/30" : "bg-gray-800 text-gray-400 hover:text-white"}`}>
+          Experiments
+        </button>
       </div>
 
       {loading ? (
@@ -174,6 +216,7 @@ export default function PromptsPage() {
                             <div className="flex gap-1">
                               <button onClick={() => setEditingPrompt({ category: p.key.split(".")[0], key: p.key, value: p.value, label: p.label })}
                                 className="px-2 py-0.5 text-[10px] text-cyan-400 hover:text-cyan-300 bg-cyan-500/10 rounded">Edit</button>
+                              {abButton(p)}
                               {p.overridden && (
                                 <button onClick={() => resetPrompt(p.key)}
                                   className="px-2 py-0.5 text-[10px] text-orange-400 hover:text-orange-300 bg-orange-500/10 rounded">Reset</button>
@@ -220,6 +263,7 @@ export default function PromptsPage() {
                             <div className="flex gap-1">
                               <button onClick={() => setEditingPrompt({ category: p.key.split(".")[0], key: p.key, value: p.value, label: p.label })}
                                 className="px-2 py-0.5 text-[10px] text-cyan-400 hover:text-cyan-300 bg-cyan-500/10 rounded">Edit</button>
+                              {abButton(p)}
                               {p.overridden && (
                                 <button onClick={() => resetPrompt(p.key)}
                                   className="px-2 py-0.5 text-[10px] text-orange-400 hover:text-orange-300 bg-orange-500/10 rounded">Reset</button>
@@ -266,6 +310,7 @@ export default function PromptsPage() {
                             <div className="flex gap-1">
                               <button onClick={() => setEditingPrompt({ category: "genre", key: p.key, value: p.value, label: p.label })}
                                 className="px-2 py-0.5 text-[10px] text-cyan-400 hover:text-cyan-300 bg-cyan-500/10 rounded">Edit</button>
+                              {abButton(p)}
                               {p.overridden && (
                                 <button onClick={() => resetPrompt(p.key)}
                                   className="px-2 py-0.5 text-[10px] text-orange-400 hover:text-orange-300 bg-orange-500/10 rounded">Reset</button>
@@ -281,9 +326,52 @@ export default function PromptsPage() {
               ))}
             </div>
           )}
+
+          {/* Experiments Tab */}
+          {tab === "experiments" && <ExperimentsPanel />}
         </>
       )}
 
+      {/* A/B Test Modal */}
+      {abTest && (
+        <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+          <div className="bg-gray-900 border border-gray-700 rounded-xl p-4 w-full max-w-2xl max-h-[80vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-bold text-amber-400">A/B test — {abTest.label}</h3>
+              <button onClick={() => setAbTest(null)} className="text-gray-500 hover:text-white text-lg">{"\u{2715}"}</button>
+            </div>
+            <p className="text-[10px] text-gray-500 mb-2">The control keeps serving the current prompt. Edit the challenger below; each generated post is tagged with the version it got.</p>
+            <textarea
+              value={abTest.value}
+              onChange={e => setAbTest({ ...abTest, value: e.target.value })}
+              rows={10}
+              className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm font-mono focus:outline-none focus:border-amber-500 resize-y"
+              placeholder="Challenger prompt text..."
+            />
+            <div className="flex gap-4 mt-3 text-xs text-gray-400">
+              <label className="flex items-center gap-2">Control weight
+                <input type="number" min={0} value={abTest.controlWeight}
+                  onChange={e => setAbTest({ ...abTest, controlWeight: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                  className="w-20 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white" />
+              </label>
+              <label className="flex items-center gap-2">Challenger weight
+                <input type="number" min={0} value={abTest.challengerWeight}
+                  onChange={e => setAbTest({ ...abTest, challengerWeight: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                  className="w-20 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white" />
+              </label>
+            </div>
+            <div className="flex justify-end gap-2 mt-3">
+              <button onClick={() => setAbTest(null)}
+                className="px-4 py-2 bg-gray-700 text-gray-300 rounded-lg text-xs hover:bg-gray-600">Cancel</button>
+              <button onClick={startAbTest} disabled={saving || !abTest.value.trim()}
+                className="px-4 py-2 bg-amber-600 text-white font-bold rounded-lg text-xs hover:bg-amber-500 disabled:opacity-50">
+                {saving ? "Starting..." : "Start Test"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Edit Modal */}
       {editingPrompt && (
         <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
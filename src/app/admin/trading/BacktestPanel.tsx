@@ -0,0 +1,222 @@
+"use client";
+
+import { useState } from "react";
+import type { BacktestComparison, BacktestReport, StrategyResult } from "@/lib/trading/backtest";
+
+type Source = "synthetic" | "price_history" | "trades";
+type ParamKey = "tradeFrequency" | "maxTradePercent" | "minTradeAmount" | "bias" | "riskLevel";
+
+const PARAM_COLUMNS: { key: ParamKey; label: string }[] = [
+  { key: "tradeFrequency", label: "Freq %" },
+  { key: "maxTradePercent", label: "Max %" },
+  { key: "minTradeAmount", label: "Min §" },
+  { key: "bias", label: "Bias" },
+  { key: "riskLevel", label: "Risk" },
+];
+
+const RISK_LEVELS = ["low", "medium", "high", "yolo"];
+
+const pnlColor = (n: number) => (n > 0 ? "text-green-400" : n < 0 ? "text-red-400" : "text-gray-400");
+const signed = (n: number, digits: number) => `${n > 0 ? "+" : ""}${n.toFixed(digits)}`;
+
+export default function BacktestPanel() {
+  const [source, setSource] = useState<Source>("synthetic");
+  const [days, setDays] = useState("7");
+  const [steps, setSteps] = useState("168");
+  const [volatility, setVolatility] = useState("0.02");
+  const [drift, setDrift] = useState("0");
+  const [seed, setSeed] = useState("42");
+  const [startingGlitch, setStartingGlitch] = useState("100000");
+  const [startingSol, setStartingSol] = useState("5");
+  const [liquidity, setLiquidity] = useState("5000000");
+  const [overrides, setOverrides] = useState<Record<string, Partial<Record<ParamKey, string>>>>({});
+  const [result, setResult] = useState<BacktestComparison | null>(null);
+  const [error, setError] = useState("");
+  const [running, setRunning] = useState(false);
+
+  const setOverride = (strategy: string, key: ParamKey, value: string) => {
+    setOverrides(prev => ({ ...prev, [strategy]: { ...prev[strategy], [key]: value } }));
+  };
+
+  const run = async () => {
+    setRunning(true);
+    setError("");
+    const strategies = Object.fromEntries(
+      Object.entries(overrides)
+        .map(([strategy, params]) => [strategy, Object.fromEntries(Object.entries(params).filter(([, v]) => v !== ""))])
+        .filter(([, params]) => Object.keys(params).length > 0),
+    );
+    const res = await fetch("/api/admin/trading", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        action: "backtest",
+        source,
+        days,
+        synthetic: { steps, volatility, drift },
+        overrides: { strategies },
+        seed,
+        starting_glitch: startingGlitch,
+        starting_sol: startingSol,
+        liquidity_glitch: liquidity,
+      }),
+    });
+    const data = await res.json();
+    if (res.ok) setResult(data);
+    else setError(data.error || "Backtest failed");
+    setRunning(false);
+  };
+
+  const field = (label: string, value: string, onChange: (v: string) => void) => (
+    <label className="flex flex-col gap-1">
+      <span className="text-[10px] text-gray-500">{label}</span>
+      <input value={value} onChange={e => onChange(e.target.value)}
+        className="w-full px-2 py-1 bg-gray-800 border border-gray-700 rounded text-xs text-white font-mono" />
+    </label>
+  );
+
+  const candidateFor = (strategy: string) => result?.candidate?.strategies.find(s => s.strategy === strategy);
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-bold text-gray-400">Backtest Personalities</h3>
+          <p className="text-[10px] text-gray-600">Offline simulation — overrides here are not saved and never touch the live book.</p>
+        </div>
+        <button onClick={run} disabled={running}
+          className="px-3 py-1.5 bg-cyan-500/20 text-cyan-400 rounded-lg text-xs font-bold hover:bg-cyan-500/30 disabled:opacity-50">
+          {running ? "Simulating..." : "Run Backtest"}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+        <label className="flex flex-col gap-1">
+          <span className="text-[10px] text-gray-500">Price path</span>
+          <select value={source} onChange={e => setSource(e.target.value as Source)}
+            className="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-xs text-white">
+            <option value="synthetic">Synthetic walk</option>
+            <option value="price_history">Price history</option>
+            <option value="trades">Past trades</option>
+          </select>
+        </label>
+        {source === "synthetic" ? (
+          <>
+            {field("Steps (hours)", steps, setSteps)}
+            {field("Volatility / step", volatility, setVolatility)}
+            {field("Drift / step", drift, setDrift)}
+          </>
+        ) : (
+          field("Days", days, setDays)
+        )}
+        {field("Seed", seed, setSeed)}
+        {field("Start §GLITCH", startingGlitch, setStartingGlitch)}
+        {field("Start SOL", startingSol, setStartingSol)}
+        {field("Liquidity (§GLITCH)", liquidity, setLiquidity)}
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {result && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-[10px] text-gray-500 text-left">
+                  <th className="py-1 pr-2">Strategy</th>
+                  {PARAM_COLUMNS.map(c => <th key={c.key} className="py-1 pr-2">{c.label}</th>)}
+                  <th className="py-1 pr-2 text-right">Trades</th>
+                  <th className="py-1 pr-2 text-right">PnL (SOL)</th>
+                  <th className="py-1 pr-2 text-right">vs Hold</th>
+                  <th className="py-1 pr-2 text-right">Max DD</th>
+                  <th className="py-1 text-right">Impact</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.baseline.strategies.map(s => {
+                  const defaults = result.strategyDefaults[s.strategy];
+                  const candidate = candidateFor(s.strategy);
+                  return (
+                    <tr key={s.strategy} className="border-t border-gray-800 align-top">
+                      <td className="py-1 pr-2 font-bold text-purple-400">{s.strategy} <span className="text-gray-600 font-normal">×{s.personas}</span></td>
+                      {PARAM_COLUMNS.map(c => (
+                        <td key={c.key} className="py-1 pr-2">
+                          {c.key === "riskLevel" ? (
+                            <select value={overrides[s.strategy]?.riskLevel ?? ""} onChange={e => setOverride(s.strategy, "riskLevel", e.target.value)}
+                              className="w-16 px-1 py-0.5 bg-gray-800 border border-gray-700 rounded text-[10px] text-white">
+                              <option value="">{defaults?.riskLevel}</option>
+                              {RISK_LEVELS.map(r => <option key={r} value={r}>{r}</option>)}
+                            </select>
+                          ) : (
+                            <input value={overrides[s.strategy]?.[c.key] ?? ""} placeholder={String(defaults?.[c.key] ?? "")}
+                              onChange={e => setOverride(s.strategy, c.key, e.target.value)}
+                              className="w-16 px-1 py-0.5 bg-gray-800 border border-gray-700 rounded text-[10px] text-white font-mono" />
+                          )}
+                        </td>
+                      ))}
+                      <StrategyCells base={s} candidate={candidate} />
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <p className="text-[10px] text-gray-600 mt-1">
+              Blank cells keep the current value. With overrides, the second line shows the candidate on the same path and seed.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <ReportSummary title="Current" report={result.baseline} />
+            {result.candidate && <ReportSummary title="With overrides" report={result.candidate} />}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function StrategyCells({ base, candidate }: { base: StrategyResult; candidate?: StrategyResult }) {
+  const cell = (render: (s: StrategyResult) => React.ReactNode, className = "") => (
+    <td className={`py-1 pr-2 text-right font-mono ${className}`}>
+      <div>{render(base)}</div>
+      {candidate && <div className="text-cyan-400/80">{render(candidate)}</div>}
+    </td>
+  );
+  return (
+    <>
+      {cell(s => s.trades)}
+      {cell(s => <span className={pnlColor(s.pnlSol)}>{signed(s.pnlSol, 4)}</span>)}
+      {cell(s => <span className={pnlColor(s.vsHoldSol)}>{signed(s.vsHoldSol, 4)}</span>)}
+      {cell(s => `${s.worstDrawdownPct.toFixed(1)}%`, "text-amber-400")}
+      {cell(s => `${signed(s.impactPct, 2)}%`, "text-gray-400")}
+    </>
+  );
+}
+
+function ReportSummary({ title, report }: { title: string; report: BacktestReport }) {
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-3">
+      <div className="flex justify-between items-baseline mb-2">
+        <p className="text-xs font-bold text-white">{title}</p>
+        <p className="text-[10px] text-gray-500">
+          {report.steps} steps · {report.totals.trades} trades · §{report.totals.volumeGlitch.toLocaleString()} ·
+          {" "}impact <span className={pnlColor(report.totals.impactPct)}>{signed(report.totals.impactPct, 2)}%</span>
+        </p>
+      </div>
+      <p className="text-[10px] text-gray-500 mb-2">
+        {report.startPrice.toFixed(8)} → {report.endPrice.toFixed(8)} SOL (path ended {report.pathEndPrice.toFixed(8)})
+      </p>
+      <div className="space-y-0.5 max-h-60 overflow-y-auto">
+        {report.personas.slice(0, 10).map(p => (
+          <div key={p.personaId} className="flex justify-between text-xs">
+            <span className="text-gray-300 truncate w-32">{p.displayName}</span>
+            <span className="text-gray-500 w-16 text-[10px]">{p.strategy}</span>
+            <span className="text-gray-500 w-12 text-right font-mono">{p.trades}</span>
+            <span className={`w-20 text-right font-mono ${pnlColor(p.pnlSol)}`}>{signed(p.pnlPct, 2)}%</span>
+            <span className="text-amber-400 w-14 text-right font-mono">{p.maxDrawdownPct.toFixed(1)}%</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from "react";
 import { useAdmin } from "../AdminContext";
 import { TradingData } from "../admin-types";
+import BacktestPanel from "./BacktestPanel";
 
 export default function GlitchTradingView() {
   const { authenticated } = useAdmin();
@@ -203,7 +204,7 @@ export default function GlitchTradingView() {
 
         {/* Order Book */}
         <div className="bg-gray-900 border border-gray-800 rounded-xl p-4">
-          <h3 className="text-sm font-bold text-gray-400 mb-3">Order Book (24h)</h3>
+          <h3 className="text-sm font-bold text-gray-400 mb-3">Order Book</h3>
           <div className="space-y-0.5 mb-2">
             <div className="flex justify-between text-[10px] text-gray-500 px-1 mb-1">
               <span>Price (SOL)</span><span>Amount (§GLITCH)</span><span>Total (SOL)</span>
@@ -278,6 +279,9 @@ export default function GlitchTradingView() {
           ))}
         </div>
       </div>
+
+      {/* Personality backtest */}
+      <BacktestPanel />
     </div>
   );
 }
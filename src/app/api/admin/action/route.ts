@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { isAdminAuthenticated } from "@/lib/admin-auth";
 import { getDb } from "@/lib/db";
-import { cache } from "@/lib/cache";
+import { cache, TAGS } from "@/lib/cache";
 import { ensureDbReady } from "@/lib/seed";
 
 type ActionResult = { success: boolean; message: string; details?: unknown };
@@ -57,8 +57,7 @@ async function executeAction(action: string): Promise<ActionResult> {
         `;
         upserted++;
       }
-      cache.del("personas:active");
-      cache.del("personas:all");
+      await cache.invalidateTag(TAGS.personas);
       return { success: true, message: `Refreshed ${upserted} personas` };
     }
 
@@ -73,7 +72,7 @@ async function executeAction(action: string): Promise<ActionResult> {
         WHERE is_active = FALSE AND owner_wallet_address IS NULL
         RETURNING id
       `;
-      cache.del("personas:active");
+      await cache.invalidateTag(TAGS.personas);
       return { success: true, message: `Healed ${healed.length} seed personas`, details: { ids: healed.map(r => r.id) } };
     }
 
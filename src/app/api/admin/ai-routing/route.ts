@@ -0,0 +1,86 @@
+/**
+ * Admin AI Routing API
+ * =====================
+ * GET  /api/admin/ai-routing?days=7  → per-task routing config, providers, served-by stats
+ * POST /api/admin/ai-routing         → { action: "update_config", config }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/admin-auth";
+import { getDb } from "@/lib/db";
+import { DEFAULT_TEXT_PROVIDERS } from "@/lib/ai/router";
+import {
+  getAIRoutingConfig,
+  setAIRoutingConfig,
+  DEFAULT_AI_ROUTING_CONFIG,
+  AI_ROUTING_POLICIES,
+} from "@/lib/repositories/settings";
+
+export async function GET(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const days = Number(request.nextUrl.searchParams.get("days") || "7");
+  const config = await getAIRoutingConfig();
+
+  // Which provider actually served routed calls, and how often via fallback
+  let servedBy: { task: string; provider: string; calls: number; fallbacks: number; total_usd: number }[] = [];
+  try {
+    const sql = getDb();
+    servedBy = await sql`
+      SELECT
+        task,
+        provider,
+        COUNT(*)::int as calls,
+        COUNT(fallback_from)::int as fallbacks,
+        ROUND(SUM(estimated_cost_usd)::numeric, 4) as total_usd
+      FROM ai_cost_log
+      WHERE route_policy IS NOT NULL
+        AND created_at > NOW() - INTERVAL '1 day' * ${days}
+      GROUP BY task, provider
+      ORDER BY task, calls DESC
+    ` as unknown as typeof servedBy;
+  } catch {
+    // Table / routing columns may not exist until the first routed call is flushed
+  }
+
+  return NextResponse.json({
+    config,
+    defaults: DEFAULT_AI_ROUTING_CONFIG,
+    policies: AI_ROUTING_POLICIES,
+    providers: DEFAULT_TEXT_PROVIDERS.map((p) => ({
+      id: p.id,
+      configured: p.isConfigured(),
+      cost_per_m_output_tokens: p.costPerMOutputTokens,
+    })),
+    served_by: servedBy,
+    days,
+  });
+}
+
+export async function POST(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const { action } = body as { action?: string };
+
+  try {
+    if (action === "update_config") {
+      if (!body.config || typeof body.config !== "object") {
+        return NextResponse.json({ error: "Missing config" }, { status: 400 });
+      }
+      const config = await setAIRoutingConfig(body.config);
+      return NextResponse.json({ success: true, config });
+    }
+
+    return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Admin Series Bible API
+ * =======================
+ * GET  /api/admin/bibles                    → every series with a stored bible
+ * GET  /api/admin/bibles?series=glitch-wars → that series' registry + recent bibles
+ * POST /api/admin/bibles                    → { action: "update_entry", id, description?, pinned? }
+ *                                             { action: "add_entry", series, kind, name, description, pinned? }
+ *                                             { action: "delete_entry", id }
+ *
+ * Pinned descriptions survive new screenplays and override the AI's text for
+ * that character/location in later episodes (see src/lib/content/movie-bible.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/admin-auth";
+import {
+  BIBLE_ENTRY_KINDS,
+  addBibleEntry,
+  deleteBibleEntry,
+  listBibleEntries,
+  listSeries,
+  listSeriesBibles,
+  updateBibleEntry,
+  type BibleEntryKind,
+} from "@/lib/content/movie-bible";
+
+export async function GET(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const series = request.nextUrl.searchParams.get("series");
+    if (series) {
+      const [entries, bibles] = await Promise.all([listBibleEntries(series), listSeriesBibles(series, 10)]);
+      return NextResponse.json({ series, entries, bibles });
+    }
+    return NextResponse.json({ series: await listSeries() });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const { action } = body as { action?: string };
+
+  try {
+    if (action === "update_entry") {
+      if (typeof body.id !== "string" || !body.id) {
+        return NextResponse.json({ error: "Missing id" }, { status: 400 });
+      }
+      if (body.description !== undefined && (typeof body.description !== "string" || !body.description.trim())) {
+        return NextResponse.json({ error: "description must be a non-empty string" }, { status: 400 });
+      }
+      const entry = await updateBibleEntry(body.id, {
+        description: body.description,
+        pinned: typeof body.pinned === "boolean" ? body.pinned : undefined,
+      });
+      if (!entry) {
+        return NextResponse.json({ error: "Entry not found" }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, entry });
+    }
+
+    if (action === "add_entry") {
+      if (typeof body.series !== "string" || !body.series) {
+        return NextResponse.json({ error: "Missing series" }, { status: 400 });
+      }
+      if (!BIBLE_ENTRY_KINDS.includes(body.kind as BibleEntryKind)) {
+        return NextResponse.json({ error: `kind must be one of ${BIBLE_ENTRY_KINDS.join(", ")}` }, { status: 400 });
+      }
+      if (typeof body.name !== "string" || !body.name.trim() || typeof body.description !== "string" || !body.description.trim()) {
+        return NextResponse.json({ error: "name and description are required" }, { status: 400 });
+      }
+      const entry = await addBibleEntry(body.series, body.kind, body.name, body.description, body.pinned !== false);
+      if (!entry) {
+        return NextResponse.json({ error: `"${body.name}" is already in this series` }, { status: 400 });
+      }
+      return NextResponse.json({ success: true, entry });
+    }
+
+    if (action === "delete_entry") {
+      if (typeof body.id !== "string" || !body.id) {
+        return NextResponse.json({ error: "Missing id" }, { status: 400 });
+      }
+      const deleted = await deleteBibleEntry(body.id);
+      if (!deleted) {
+        return NextResponse.json({ error: "Entry not found" }, { status: 404 });
+      }
+      return NextResponse.json({ success: true });
+    }
+
+    return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 },
+    );
+  }
+}
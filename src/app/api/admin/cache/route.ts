@@ -0,0 +1,72 @@
+/**
+ * Admin Cache API
+ * ================
+ * GET  /api/admin/cache?prefix=persona:  → metrics (overall + per namespace), L1 tags,
+ *                                          L1 keys and L2 keys under the prefix
+ * POST /api/admin/cache                  → { action: "invalidate_tag", tag }
+ *                                          { action: "invalidate_prefix", prefix }
+ *                                          { action: "del", key }
+ *
+ * L1 is per instance — these act on the instance that serves the request,
+ * plus the shared L2. Other instances' L1 copies expire with their TTL.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/admin-auth";
+import { cache, getCacheMetrics } from "@/lib/cache";
+
+export async function GET(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const prefix = request.nextUrl.searchParams.get("prefix") ?? "";
+
+  try {
+    return NextResponse.json({
+      metrics: getCacheMetrics(),
+      size: cache.size,
+      tags: cache.tags(),
+      l1: cache.keys(prefix),
+      l2: await cache.listRedisKeys(prefix),
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const { action } = body as { action?: string };
+
+  if (action === "invalidate_tag") {
+    if (typeof body.tag !== "string" || !body.tag) {
+      return NextResponse.json({ error: "Missing tag" }, { status: 400 });
+    }
+    return NextResponse.json({ success: true, l1_removed: await cache.invalidateTag(body.tag) });
+  }
+
+  if (action === "invalidate_prefix") {
+    // An empty prefix would wipe everything — use the clear_cache admin action for that
+    if (typeof body.prefix !== "string" || !body.prefix) {
+      return NextResponse.json({ error: "Missing prefix" }, { status: 400 });
+    }
+    return NextResponse.json({ success: true, l1_removed: cache.invalidatePrefix(body.prefix) });
+  }
+
+  if (action === "del") {
+    if (typeof body.key !== "string" || !body.key) {
+      return NextResponse.json({ error: "Missing key" }, { status: 400 });
+    }
+    return NextResponse.json({ success: true, l1_removed: cache.del(body.key) ? 1 : 0 });
+  }
+
+  return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+}
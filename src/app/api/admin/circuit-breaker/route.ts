@@ -0,0 +1,72 @@
+/**
+ * Admin Circuit Breaker API
+ * ==========================
+ * GET  /api/admin/circuit-breaker  → live status, budgets, trip history
+ * POST /api/admin/circuit-breaker  → { action: "update_config", config }
+ *                                     { action: "reset", scope? }   (no scope = reset all)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/admin-auth";
+import {
+  getCircuitBreakerStatus,
+  getCircuitBreakerTrips,
+  resetCircuitBreaker,
+} from "@/lib/ai/circuit-breaker";
+import {
+  getCircuitBreakerConfig,
+  setCircuitBreakerConfig,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+} from "@/lib/repositories/settings";
+
+export async function GET(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const [status, config, trips] = await Promise.all([
+    getCircuitBreakerStatus(),
+    getCircuitBreakerConfig(),
+    getCircuitBreakerTrips(50),
+  ]);
+
+  return NextResponse.json({
+    status,
+    redis_configured: status !== null,
+    config,
+    defaults: DEFAULT_CIRCUIT_BREAKER_CONFIG,
+    trips,
+  });
+}
+
+export async function POST(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const { action } = body as { action?: string };
+
+  try {
+    if (action === "update_config") {
+      if (!body.config || typeof body.config !== "object") {
+        return NextResponse.json({ error: "Missing config" }, { status: 400 });
+      }
+      const config = await setCircuitBreakerConfig(body.config);
+      return NextResponse.json({ success: true, config });
+    }
+
+    if (action === "reset") {
+      const scope = typeof body.scope === "string" && body.scope ? body.scope : undefined;
+      const closed = await resetCircuitBreaker(scope);
+      return NextResponse.json({ success: true, closed });
+    }
+
+    return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 },
+    );
+  }
+}
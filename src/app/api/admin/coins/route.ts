@@ -2,10 +2,13 @@ import { NextRequest, NextResponse } from "next/server";
 import { isAdminAuthenticated } from "@/lib/admin-auth";
 import { getDb } from "@/lib/db";
 import { ensureDbReady } from "@/lib/seed";
+import * as ledger from "@/lib/ledger";
+import { users } from "@/lib/repositories";
 
 /**
  * GET /api/admin/coins
- * View coin economy overview — balances, top holders, circulation stats.
+ * View coin economy overview — balances, top holders, circulation stats,
+ * and accounts the ledger reconciliation has flagged.
  */
 export async function GET(request: NextRequest) {
   if (!(await isAdminAuthenticated(request))) {
@@ -50,6 +53,8 @@ export async function GET(request: NextRequest) {
     LIMIT 50
   `.catch(() => []);
 
+  const ledgerFlags = await ledger.getOpenFlags(20).catch(() => []);
+
   const [swapStats] = await sql`
     SELECT
       COUNT(*) FILTER (WHERE status = 'completed') as total_swaps,
@@ -74,6 +79,7 @@ export async function GET(request: NextRequest) {
     top_human_holders: topHolders,
     top_persona_holders: topPersonas,
     recent_transactions: recentTransactions,
+    ledger_flags: ledgerFlags,
   });
 }
 
@@ -99,16 +105,15 @@ export async function POST(request: NextRequest) {
       if (!session_id || !amount) {
         return NextResponse.json({ error: "Missing session_id or amount" }, { status: 400 });
       }
-      await sql`
-        INSERT INTO glitch_coins (id, session_id, balance, lifetime_earned)
-        VALUES (${crypto.randomUUID()}, ${session_id}, ${amount}, ${amount})
-        ON CONFLICT (session_id) DO UPDATE
-        SET balance = glitch_coins.balance + ${amount}, lifetime_earned = glitch_coins.lifetime_earned + ${amount}
-      `;
-      await sql`
-        INSERT INTO coin_transactions (id, from_id, to_id, amount, reason, description, created_at)
-        VALUES (${crypto.randomUUID()}, 'admin', ${session_id}, ${amount}, ${reason}, 'Admin award', NOW())
-      `.catch(() => {});
+      const result = await ledger.credit(ledger.humanAccount(session_id), Number(amount), {
+        kind: "adjustment",
+        idempotencyKey: crypto.randomUUID(),
+        referenceId: "admin",
+        memo: reason,
+      });
+      if ("error" in result) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
       return NextResponse.json({ success: true, message: `Awarded ${amount} GLITCH to ${session_id}` });
     }
 
@@ -117,15 +122,22 @@ export async function POST(request: NextRequest) {
       if (!session_id || !amount) {
         return NextResponse.json({ error: "Missing session_id or amount" }, { status: 400 });
       }
-      await sql`
-        UPDATE glitch_coins SET balance = GREATEST(0, balance - ${amount})
-        WHERE session_id = ${session_id}
-      `;
-      await sql`
-        INSERT INTO coin_transactions (id, from_id, to_id, amount, reason, description, created_at)
-        VALUES (${crypto.randomUUID()}, ${session_id}, 'admin', ${amount}, ${reason}, 'Admin deduction', NOW())
-      `.catch(() => {});
-      return NextResponse.json({ success: true, message: `Deducted ${amount} GLITCH from ${session_id}` });
+      // Never below zero — deduct at most what the user holds
+      const account = ledger.humanAccount(session_id);
+      const { balance } = await users.getCoinBalance(session_id);
+      const deducted = Math.min(Number(amount), balance);
+      if (deducted > 0) {
+        const result = await ledger.debit(account, deducted, {
+          kind: "adjustment",
+          idempotencyKey: crypto.randomUUID(),
+          referenceId: "admin",
+          memo: reason,
+        });
+        if ("error" in result) {
+          return NextResponse.json({ error: result.error }, { status: 400 });
+        }
+      }
+      return NextResponse.json({ success: true, message: `Deducted ${deducted} GLITCH from ${session_id}` });
     }
 
     case "seed_personas": {
@@ -133,12 +145,8 @@ export async function POST(request: NextRequest) {
       const personas = await sql`SELECT id FROM ai_personas WHERE is_active = TRUE`;
       let seeded = 0;
       for (const p of personas) {
-        await sql`
-          INSERT INTO glitch_coins (id, session_id, balance, lifetime_earned)
-          VALUES (${crypto.randomUUID()}, ${p.id}, 100, 100)
-          ON CONFLICT (session_id) DO NOTHING
-        `;
-        seeded++;
+        // Keyed per persona, so re-running only seeds personas that never got starter coins
+        if (await users.awardPersonaCoins(p.id as string, 100, "Starter coins", `seed_persona:${p.id}`)) seeded++;
       }
       return NextResponse.json({ success: true, message: `Seeded ${seeded} personas with 100 GLITCH each` });
     }
@@ -0,0 +1,51 @@
+/**
+ * Admin Cron Health API
+ * ======================
+ * GET  /api/admin/cron-health?hours=168  → per-job success rate, p50/p95 duration,
+ *                                          cost per run, last error, missed-schedule flag
+ * POST /api/admin/cron-health            → { action: "check_alerts" }  (run the alert check now)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/admin-auth";
+import { getCronHealth, checkCronHealthAlerts } from "@/lib/cron-health";
+
+export async function GET(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const hours = Number(request.nextUrl.searchParams.get("hours")) || 168;
+
+  try {
+    return NextResponse.json(await getCronHealth(hours));
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const { action } = body as { action?: string };
+
+  try {
+    if (action === "check_alerts") {
+      const result = await checkCronHealthAlerts();
+      return NextResponse.json({ success: true, ...result });
+    }
+
+    return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 },
+    );
+  }
+}
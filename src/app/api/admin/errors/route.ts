@@ -0,0 +1,75 @@
+/**
+ * Admin Error Groups API
+ * =======================
+ * GET  /api/admin/errors?status=open        → group counts + error groups (optionally filtered)
+ * GET  /api/admin/errors?events=cron:       → recent persisted monitor events by name prefix
+ * POST /api/admin/errors                    → { action: "set_status", fingerprint, status: "open" | "resolved" | "ignored" }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/admin-auth";
+import {
+  ERROR_GROUP_STATUSES,
+  getErrorGroupCounts,
+  listErrorGroups,
+  listMonitorEvents,
+  setErrorGroupStatus,
+  type ErrorGroupStatus,
+} from "@/lib/error-store";
+
+export async function GET(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const params = request.nextUrl.searchParams;
+
+  try {
+    const eventPrefix = params.get("events");
+    if (eventPrefix !== null) {
+      return NextResponse.json({ events: await listMonitorEvents(eventPrefix || undefined, 100) });
+    }
+
+    const statusParam = params.get("status");
+    const status = ERROR_GROUP_STATUSES.includes(statusParam as ErrorGroupStatus) ? (statusParam as ErrorGroupStatus) : undefined;
+    const [counts, groups] = await Promise.all([getErrorGroupCounts(), listErrorGroups(status, 100)]);
+    return NextResponse.json({ counts, groups });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const { action } = body as { action?: string };
+
+  try {
+    if (action === "set_status") {
+      if (typeof body.fingerprint !== "string" || !body.fingerprint) {
+        return NextResponse.json({ error: "Missing fingerprint" }, { status: 400 });
+      }
+      if (!ERROR_GROUP_STATUSES.includes(body.status)) {
+        return NextResponse.json({ error: `status must be one of ${ERROR_GROUP_STATUSES.join(", ")}` }, { status: 400 });
+      }
+      const updated = await setErrorGroupStatus(body.fingerprint, body.status);
+      if (!updated) {
+        return NextResponse.json({ error: "Error group not found" }, { status: 404 });
+      }
+      return NextResponse.json({ success: true });
+    }
+
+    return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 },
+    );
+  }
+}
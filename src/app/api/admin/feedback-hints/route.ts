@@ -0,0 +1,56 @@
+/**
+ * Feedback Hint Audit Log API
+ * ===========================
+ * GET  /api/admin/feedback-hints                          → latest hint revisions (channels + personas)
+ * GET  /api/admin/feedback-hints?scope=persona&target=ID  → one persona's (or channel's) history
+ *
+ * POST { action: "clear", persona_id }  → drop a persona's current hint (logged as a revision)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/admin-auth";
+import { clearPersonaFeedbackHint, getHintRevisions, type HintRevision } from "@/lib/content/feedback-loop";
+
+export async function GET(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request)))
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const params = request.nextUrl.searchParams;
+  const scope = params.get("scope") as HintRevision["scope"] | null;
+  if (scope && scope !== "channel" && scope !== "persona") {
+    return NextResponse.json({ error: "scope must be channel or persona" }, { status: 400 });
+  }
+
+  try {
+    const revisions = await getHintRevisions({
+      scope: scope ?? undefined,
+      targetId: params.get("target") ?? undefined,
+      limit: Number(params.get("limit")) || undefined,
+    });
+    return NextResponse.json({ revisions });
+  } catch (err) {
+    console.error("[admin/feedback-hints] GET error:", err);
+    return NextResponse.json({ error: "Failed to load hint revisions" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request)))
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await request.json().catch(() => ({}));
+
+  try {
+    if (body.action === "clear") {
+      if (!body.persona_id) return NextResponse.json({ error: "persona_id required" }, { status: 400 });
+      const cleared = await clearPersonaFeedbackHint(body.persona_id);
+      if (!cleared) return NextResponse.json({ error: "Persona has no feedback hint" }, { status: 404 });
+      return NextResponse.json({ ok: true });
+    }
+
+    return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+  } catch (err) {
+    console.error("[admin/feedback-hints] POST error:", err);
+    return NextResponse.json({ error: "Failed to update feedback hint" }, { status: 500 });
+  }
+}
@@ -154,7 +154,7 @@ export async function POST(request: NextRequest) {
   // Step 5: Give starter GLITCH
   steps.push({ step: "glitch_gift", status: "in_progress" });
   try {
-    await awardPersonaCoins(personaId, HATCHING_GLITCH_AMOUNT);
+    await awardPersonaCoins(personaId, HATCHING_GLITCH_AMOUNT, "Hatching gift", `hatch:${personaId}`);
   } catch {
     // Non-fatal
   }
@@ -292,7 +292,7 @@ export async function PATCH(request: NextRequest) {
 
   const awarded: string[] = [];
   for (const h of hatchlingsNeedingCoins) {
-    await awardPersonaCoins(h.id, HATCHING_GLITCH_AMOUNT);
+    await awardPersonaCoins(h.id, HATCHING_GLITCH_AMOUNT, "Hatching gift", `hatch:${h.id}`);
     awarded.push(h.display_name);
   }
 
@@ -504,7 +504,7 @@ async function postGlitchGift(
   await sql`UPDATE ai_personas SET post_count = post_count + 1 WHERE id = ${ARCHITECT_PERSONA_ID}`;
 
   // Actually award the GLITCH coins to the hatchling's wallet
-  await awardPersonaCoins(personaId, HATCHING_GLITCH_AMOUNT);
+  await awardPersonaCoins(personaId, HATCHING_GLITCH_AMOUNT, "Hatching gift", `hatch:${personaId}`);
 
   return postId;
 }
@@ -0,0 +1,69 @@
+/**
+ * Admin Background Jobs API
+ * ==========================
+ * GET  /api/admin/jobs?status=dead  → status counts + recent jobs (optionally filtered)
+ * POST /api/admin/jobs              → { action: "retry", id }
+ *                                     { action: "run_worker" }   (drain due jobs now)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/admin-auth";
+import { getJobCounts, listJobs, retryJob, type JobStatus } from "@/lib/jobs/queue";
+import { runJobWorker } from "@/lib/jobs/worker";
+
+export const maxDuration = 60;
+
+const STATUSES: JobStatus[] = ["queued", "running", "completed", "dead"];
+
+export async function GET(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const statusParam = request.nextUrl.searchParams.get("status");
+  const status = STATUSES.includes(statusParam as JobStatus) ? (statusParam as JobStatus) : undefined;
+
+  try {
+    const [counts, jobs] = await Promise.all([getJobCounts(), listJobs(status, 100)]);
+    return NextResponse.json({ counts, jobs });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const { action } = body as { action?: string };
+
+  try {
+    if (action === "retry") {
+      if (typeof body.id !== "string" || !body.id) {
+        return NextResponse.json({ error: "Missing id" }, { status: 400 });
+      }
+      const retried = await retryJob(body.id);
+      if (!retried) {
+        return NextResponse.json({ error: "Job not found or not retryable" }, { status: 404 });
+      }
+      return NextResponse.json({ success: true });
+    }
+
+    if (action === "run_worker") {
+      const result = await runJobWorker({ timeBudgetMs: 45_000 });
+      return NextResponse.json({ success: true, ...result });
+    }
+
+    return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 },
+    );
+  }
+}
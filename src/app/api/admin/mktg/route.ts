@@ -3,13 +3,18 @@
  * =============================================
  * CRUD for marketing campaigns, platform accounts, and metrics.
  * Also supports manual post triggers and metric collection.
+ *
+ * Posting calendar:
+ *   GET  ?action=calendar&from=ISO&to=ISO      → scheduled/posted items, best-time slots, daily caps
+ *   POST { action: "reschedule_post", id, scheduled_for }
+ *   POST { action: "cancel_post", id }
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { isAdminAuthenticated } from "@/lib/admin-auth";
 import { getDb } from "@/lib/db";
 import { v4 as uuidv4 } from "uuid";
-import { getMarketingStats, runMarketingCycle, collectAllMetrics } from "@/lib/marketing";
+import { getMarketingStats, runMarketingCycle, collectAllMetrics, getCalendar, reschedulePost, cancelScheduledPost } from "@/lib/marketing";
 import { generateHeroImage, generatePoster, previewHeroPrompt, previewPosterPrompt } from "@/lib/marketing/hero-image";
 import { testPlatformToken, getAccountForPlatform, getAnyAccountForPlatform, getActiveAccounts, postToPlatform } from "@/lib/marketing/platforms";
 import { adaptContentForPlatform } from "@/lib/marketing/content-adapter";
@@ -141,6 +146,16 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    case "calendar": {
+      const from = new Date(searchParams.get("from") || Date.now());
+      const to = new Date(searchParams.get("to") || from.getTime() + 7 * 86_400_000);
+      if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+        return NextResponse.json({ error: "from/to must be ISO dates" }, { status: 400 });
+      }
+      const calendar = await getCalendar(from, to);
+      return NextResponse.json(calendar);
+    }
+
     default:
       return NextResponse.json({ error: "Unknown action" }, { status: 400 });
   }
@@ -502,6 +517,25 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // ── Calendar: move / cancel a queued post ─────────────────────────
+    case "reschedule_post": {
+      const { id, scheduled_for } = body as { id?: string; scheduled_for?: string };
+      if (!id || !scheduled_for) return NextResponse.json({ error: "Missing id or scheduled_for" }, { status: 400 });
+      const when = new Date(scheduled_for);
+      if (isNaN(when.getTime())) return NextResponse.json({ error: "scheduled_for must be an ISO date" }, { status: 400 });
+      const result = await reschedulePost(id, when);
+      if ("error" in result) return NextResponse.json(result, { status: 400 });
+      return NextResponse.json({ ok: true });
+    }
+
+    case "cancel_post": {
+      const { id } = body as { id?: string };
+      if (!id) return NextResponse.json({ error: "Missing post id" }, { status: 400 });
+      const cancelled = await cancelScheduledPost(id);
+      if (!cancelled) return NextResponse.json({ error: "Only queued posts can be cancelled" }, { status: 400 });
+      return NextResponse.json({ ok: true });
+    }
+
     // ── Delete marketing post ─────────────────────────────────────────
     case "delete_post": {
       const { id } = body;
@@ -0,0 +1,116 @@
+/**
+ * Admin Multi-Clip Timeline API
+ * ==============================
+ * GET  /api/admin/multi-clip           → recent multi-clip movies with per-status scene counts
+ * GET  /api/admin/multi-clip?job=<id>  → that movie's scene timeline (attempts + history)
+ * POST /api/admin/multi-clip           → { action: "reroll_scene", scene_id, simplify? }
+ *                                         { action: "stitch_now", job_id }
+ *
+ * "stitch_now" is "stitch what we have": unfinished scenes are skipped and the
+ * done clips are stitched and posted right away. Both actions go through the
+ * same claims as the cron poller (see src/lib/media/multi-clip.ts), so they
+ * can't race a cron run into a double post.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/admin-auth";
+import { stitchAndTriplePost } from "@/lib/content/director-movies";
+import {
+  claimStitch,
+  getMultiClipTimeline,
+  listMultiClipJobs,
+  releaseStitch,
+  rerollScene,
+  resubmitDueScenes,
+  skipUnfinishedScenes,
+  stitchClaimedJob,
+} from "@/lib/media/multi-clip";
+
+export async function GET(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const jobId = request.nextUrl.searchParams.get("job");
+    if (jobId) {
+      const timeline = await getMultiClipTimeline(jobId);
+      if (!timeline) {
+        return NextResponse.json({ error: "Job not found" }, { status: 404 });
+      }
+      return NextResponse.json(timeline);
+    }
+    return NextResponse.json({ jobs: await listMultiClipJobs() });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const { action } = body as { action?: string };
+
+  try {
+    if (action === "reroll_scene") {
+      if (typeof body.scene_id !== "string" || !body.scene_id) {
+        return NextResponse.json({ error: "Missing scene_id" }, { status: 400 });
+      }
+      const rerolled = await rerollScene(body.scene_id, body.simplify === true);
+      if ("error" in rerolled) {
+        return NextResponse.json({ error: rerolled.error }, { status: 400 });
+      }
+      // Submit straight away rather than waiting for the next cron tick
+      const resubmitted = await resubmitDueScenes(1);
+      return NextResponse.json({ success: true, jobId: rerolled.jobId, resubmitted });
+    }
+
+    if (action === "stitch_now") {
+      if (typeof body.job_id !== "string" || !body.job_id) {
+        return NextResponse.json({ error: "Missing job_id" }, { status: 400 });
+      }
+      const timeline = await getMultiClipTimeline(body.job_id);
+      if (!timeline) {
+        return NextResponse.json({ error: "Job not found" }, { status: 404 });
+      }
+      if (!timeline.scenes.some((s) => s.status === "done")) {
+        return NextResponse.json({ error: "No finished clips to stitch yet" }, { status: 400 });
+      }
+      if (!(await claimStitch(body.job_id, ["generating", "failed"]))) {
+        return NextResponse.json({ error: `Job is ${timeline.job.status} — nothing to stitch` }, { status: 400 });
+      }
+      const skipped = await skipUnfinishedScenes(body.job_id);
+
+      if (timeline.job.is_director) {
+        const posted = await stitchAndTriplePost(body.job_id).catch(async (err) => {
+          await releaseStitch(body.job_id, "failed");
+          throw err;
+        });
+        if (!posted) {
+          await releaseStitch(body.job_id, "failed");
+          return NextResponse.json({ error: "Stitch failed — no clips could be downloaded" }, { status: 500 });
+        }
+        return NextResponse.json({ success: true, skipped, postId: posted.premierePostId });
+      }
+
+      const posted = await stitchClaimedJob(body.job_id);
+      if (!posted) {
+        return NextResponse.json({ error: "Stitch failed — see server logs" }, { status: 500 });
+      }
+      return NextResponse.json({ success: true, skipped, postId: posted.postId, videoUrl: posted.videoUrl });
+    }
+
+    return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Prompt A/B Experiments API
+ * ==========================
+ * GET  /api/admin/prompts/experiments          → list experiments with their variants
+ * GET  /api/admin/prompts/experiments?id=...   → per-variant report (means, 95% CIs, verdict vs control)
+ *
+ * POST { action: "start", category, key, name?, variants: [{ label, value|null, weight }] }
+ * POST { action: "stop", id }
+ * POST { action: "promote", id, variantId }   → winner becomes the prompt override
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/admin-auth";
+import {
+  getExperimentReport,
+  listExperiments,
+  promoteVariant,
+  startExperiment,
+  stopExperiment,
+  type NewVariant,
+} from "@/lib/prompt-experiments";
+
+export async function GET(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request)))
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  try {
+    const id = request.nextUrl.searchParams.get("id");
+    if (id) {
+      const report = await getExperimentReport(id);
+      if (!report) return NextResponse.json({ error: "Experiment not found" }, { status: 404 });
+      return NextResponse.json(report);
+    }
+    return NextResponse.json({ experiments: await listExperiments() });
+  } catch (err) {
+    console.error("[admin/prompts/experiments] GET error:", err);
+    return NextResponse.json({ error: "Failed to load experiments" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request)))
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await request.json().catch(() => ({}));
+  const { action } = body as { action?: string };
+
+  try {
+    if (action === "start") {
+      const { category, key, name, variants } = body as { category?: string; key?: string; name?: string; variants?: NewVariant[] };
+      if (!category || !key || !Array.isArray(variants)) {
+        return NextResponse.json({ error: "category, key and variants required" }, { status: 400 });
+      }
+      const result = await startExperiment({
+        category,
+        key,
+        name: name || "",
+        variants: variants.map(v => ({
+          label: String(v.label || ""),
+          value: typeof v.value === "string" ? v.value : null,
+          weight: Number(v.weight),
+        })),
+      });
+      if ("error" in result) return NextResponse.json(result, { status: 400 });
+      return NextResponse.json({ ok: true, id: result.id });
+    }
+
+    if (action === "stop") {
+      if (!body.id) return NextResponse.json({ error: "id required" }, { status: 400 });
+      const stopped = await stopExperiment(body.id);
+      if (!stopped) return NextResponse.json({ error: "No running experiment with that id" }, { status: 404 });
+      return NextResponse.json({ ok: true });
+    }
+
+    if (action === "promote") {
+      if (!body.id || !body.variantId) return NextResponse.json({ error: "id and variantId required" }, { status: 400 });
+      const result = await promoteVariant(body.id, body.variantId);
+      if ("error" in result) return NextResponse.json(result, { status: 400 });
+      return NextResponse.json({ ok: true });
+    }
+
+    return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+  } catch (err) {
+    console.error("[admin/prompts/experiments] POST error:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Experiment action failed" }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { isAdminAuthenticated } from "@/lib/admin-auth";
 import { getPromptOverrides, savePromptOverride, deletePromptOverride } from "@/lib/prompt-overrides";
+import { isExperimentable } from "@/lib/prompt-experiments";
 import { CHANNELS, PLATFORM_BRIEF } from "@/lib/bible/constants";
 import { DIRECTORS, CHANNEL_BRANDING, CHANNEL_VISUAL_STYLE } from "@/lib/content/director-movies";
 import { GENRE_TEMPLATES } from "@/lib/media/multi-clip";
@@ -81,7 +82,17 @@ async function buildCatalog() {
     },
   ];
 
-  return { channels, directors, genres, platform, overrideCount: overrides.length };
+  // Flag the prompts an A/B test can actually measure
+  const withExperimentable = <G extends { category: string; prompts: { key: string }[] }>(groups: G[]) =>
+    groups.map(g => ({ ...g, prompts: g.prompts.map(p => ({ ...p, experimentable: isExperimentable(g.category, p.key) })) }));
+
+  return {
+    channels: withExperimentable(channels),
+    directors: withExperimentable(directors),
+    genres: withExperimentable(genres),
+    platform: withExperimentable(platform),
+    overrideCount: overrides.length,
+  };
 }
 
 export async function GET(request: NextRequest) {
@@ -1,12 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
 import { ensureDbReady } from "@/lib/seed";
+import { isAdminAuthenticated } from "@/lib/admin-auth";
+import { finalizeSnapshot, getManifest } from "@/lib/airdrop";
 import { v4 as uuidv4 } from "uuid";
 
 // ── §GLITCH Balance Snapshot API ──
-// Captures all current balances (human + AI) for real token airdrop
+// Captures all current balances (human + AI) for real token airdrop.
+// Finalizing commits the (wallet, amount) allocations to a Merkle root —
+// holders fetch proofs and claim through /api/bridge.
 
 export async function GET(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
   const action = request.nextUrl.searchParams.get("action");
 
   await ensureDbReady();
@@ -15,7 +23,8 @@ export async function GET(request: NextRequest) {
   // List all snapshots
   if (action === "list" || !action) {
     const snapshots = await sql`
-      SELECT id, name, total_holders, total_supply_captured, status, created_at, finalized_at
+      SELECT id, name, total_holders, total_supply_captured, status, merkle_root, merkle_leaf_count, merkle_total,
+             created_at, finalized_at
       FROM glitch_snapshots
       ORDER BY created_at DESC
       LIMIT 20
@@ -99,18 +108,29 @@ export async function GET(request: NextRequest) {
         amount: Number(e.balance),
       }));
 
-    return NextResponse.json({
+    // Merkle leaves + proofs, once the snapshot has been finalized into a root
+    const merkle = await getManifest(snapshotId);
+
+    const res = NextResponse.json({
       snapshot_id: snapshotId,
       token: "§GLITCH",
       mint: "5hfHCmaL6e9bvruy35RQyghMXseTE2mXJ7ukqKAcS8fT",
+      merkle_root: merkle?.merkle_root ?? null,
+      leaf_encoding: merkle?.leaf_encoding ?? null,
       ready_to_airdrop: readyToAirdrop,
       pending_wallet: pendingWallet,
+      merkle_leaves: merkle?.leaves ?? [],
       totals: {
         ready_amount: readyToAirdrop.reduce((s, e) => s + e.amount, 0),
         pending_amount: pendingWallet.reduce((s, e) => s + e.amount, 0),
         total_amount: entries.reduce((s, e) => s + Number(e.balance), 0),
+        merkle_amount: merkle?.total_amount ?? 0,
       },
     });
+    if (request.nextUrl.searchParams.get("download") === "1") {
+      res.headers.set("Content-Disposition", `attachment; filename="glitch-snapshot-${snapshotId}.json"`);
+    }
+    return res;
   }
 
   // Check a specific user's snapshot balance and claim status
@@ -177,6 +197,10 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
   const body = await request.json();
   const { action } = body;
 
@@ -189,6 +213,12 @@ export async function POST(request: NextRequest) {
 
     const snapshotId = uuidv4();
 
+    // The snapshot row goes first — entries reference it
+    await sql`
+      INSERT INTO glitch_snapshots (id, name, status, created_at)
+      VALUES (${snapshotId}, ${name}, 'pending', NOW())
+    `;
+
     // Capture all human balances
     const humanBalances = await sql`
       SELECT gc.session_id, gc.balance, gc.lifetime_earned,
@@ -230,12 +260,15 @@ export async function POST(request: NextRequest) {
       `;
     }
 
-    // Create the snapshot record
     await sql`
-      INSERT INTO glitch_snapshots (id, name, total_holders, total_supply_captured, status, created_at, finalized_at)
-      VALUES (${snapshotId}, ${name}, ${entryCount}, ${totalSupply}, 'finalized', NOW(), NOW())
+      UPDATE glitch_snapshots SET total_holders = ${entryCount}, total_supply_captured = ${totalSupply}
+      WHERE id = ${snapshotId}
     `;
 
+    // Commit wallet allocations to a Merkle root. With no linked wallets yet
+    // the snapshot stays pending and can be finalized later.
+    const merkle = await finalizeSnapshot(snapshotId);
+
     return NextResponse.json({
       success: true,
       snapshot_id: snapshotId,
@@ -244,10 +277,23 @@ export async function POST(request: NextRequest) {
       human_holders: humanBalances.length,
       ai_holders: aiBalances.length,
       total_supply_captured: totalSupply,
-      status: "finalized",
+      status: "error" in merkle ? "pending" : "finalized",
+      merkle: "error" in merkle ? { error: merkle.error } : merkle,
       message: `Snapshot taken! ${entryCount} holders captured with ${totalSupply.toLocaleString()} total §GLITCH.`,
     });
   }
 
+  // ── Finalize: build the Merkle root for a snapshot that doesn't have one ──
+  if (action === "finalize") {
+    if (!body.snapshot_id) {
+      return NextResponse.json({ error: "Missing snapshot_id" }, { status: 400 });
+    }
+    const result = await finalizeSnapshot(body.snapshot_id);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return NextResponse.json({ success: true, ...result });
+  }
+
   return NextResponse.json({ error: "Invalid action" }, { status: 400 });
 }
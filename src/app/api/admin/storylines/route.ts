@@ -0,0 +1,75 @@
+/**
+ * Admin Storylines API
+ * ====================
+ * Multi-day topic arcs (see src/lib/content/storylines.ts).
+ *
+ * GET  /api/admin/storylines  → open arcs first, then recently resolved
+ *
+ * POST { action: "seed", title, premise, category?, mood?, personas?: "user1, user2", days? }
+ * POST { action: "steer", id, note }       → re-plan the unaired beats around the note
+ * POST { action: "end", id, finale? }      → resolve now, or air `finale` as the last beat
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/admin-auth";
+import { endStoryline, listStorylines, seedStoryline, steerStoryline } from "@/lib/content/storylines";
+
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request)))
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  try {
+    return NextResponse.json({ storylines: await listStorylines() });
+  } catch (err) {
+    console.error("[admin/storylines] GET error:", err);
+    return NextResponse.json({ error: "Failed to load storylines" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request)))
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await request.json().catch(() => ({}));
+
+  try {
+    if (body.action === "seed") {
+      if (!body.title?.trim() || !body.premise?.trim()) {
+        return NextResponse.json({ error: "title and premise required" }, { status: 400 });
+      }
+      const personaUsernames = typeof body.personas === "string"
+        ? body.personas.split(",").map((u: string) => u.trim()).filter(Boolean)
+        : undefined;
+      const storyline = await seedStoryline({
+        title: body.title.trim(),
+        premise: body.premise.trim(),
+        category: body.category,
+        mood: body.mood,
+        personaUsernames,
+        days: Number(body.days) || undefined,
+      }, "admin");
+      return NextResponse.json({ ok: true, storyline });
+    }
+
+    if (body.action === "steer") {
+      if (!body.id || !body.note?.trim()) return NextResponse.json({ error: "id and note required" }, { status: 400 });
+      const result = await steerStoryline(body.id, body.note.trim());
+      if ("error" in result) return NextResponse.json(result, { status: 400 });
+      return NextResponse.json({ ok: true, storyline: result });
+    }
+
+    if (body.action === "end") {
+      if (!body.id) return NextResponse.json({ error: "id required" }, { status: 400 });
+      const result = await endStoryline(body.id, body.finale);
+      if ("error" in result) return NextResponse.json(result, { status: 400 });
+      return NextResponse.json({ ok: true, storyline: result });
+    }
+
+    return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+  } catch (err) {
+    console.error("[admin/storylines] POST error:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Storyline action failed" }, { status: 500 });
+  }
+}
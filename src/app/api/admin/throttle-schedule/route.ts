@@ -0,0 +1,113 @@
+/**
+ * Admin Throttle Schedule API
+ * ============================
+ * GET  /api/admin/throttle-schedule  → schedule, global slider value, the
+ *                                      effective % per cron right now, and
+ *                                      recent throttle decisions from cron_runs
+ * POST /api/admin/throttle-schedule  → { action: "update_schedule", schedule }
+ *                                      { action: "add_boost", boost: { label, startsAt, endsAt, percent, crons? } }
+ *                                      { action: "remove_boost", id }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { v4 as uuidv4 } from "uuid";
+import { isAdminAuthenticated } from "@/lib/admin-auth";
+import { getDb } from "@/lib/db";
+import {
+  getThrottleSchedule,
+  setThrottleSchedule,
+  DEFAULT_THROTTLE_SCHEDULE,
+} from "@/lib/repositories/settings";
+import { resolveThrottle } from "@/lib/throttle";
+import { SCHEDULED_CRON_NAMES } from "@/lib/cron-health";
+
+export async function GET(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const sql = getDb();
+    const [schedule, throttleRows, decisions] = await Promise.all([
+      getThrottleSchedule(),
+      sql`SELECT value FROM platform_settings WHERE key = 'activity_throttle'`,
+      sql`
+        SELECT cron_name, status, started_at, throttle_reason
+        FROM cron_runs
+        WHERE throttle_reason IS NOT NULL
+        ORDER BY started_at DESC
+        LIMIT 30
+      `.catch(() => []),
+    ]);
+    const globalThrottle = throttleRows.length > 0 ? Number(throttleRows[0].value) : 100;
+
+    const crons = [...new Set([
+      ...Object.values(SCHEDULED_CRON_NAMES).filter((n): n is string => !!n),
+      ...Object.keys(schedule.crons),
+    ])].sort();
+    const now = new Date();
+
+    return NextResponse.json({
+      schedule,
+      defaults: DEFAULT_THROTTLE_SCHEDULE,
+      global_throttle: globalThrottle,
+      effective: crons.map((cron) => ({ cron_name: cron, ...resolveThrottle(cron, globalThrottle, schedule, now) })),
+      decisions,
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const { action } = body as { action?: string };
+
+  try {
+    if (action === "update_schedule") {
+      if (!body.schedule || typeof body.schedule !== "object") {
+        return NextResponse.json({ error: "Missing schedule" }, { status: 400 });
+      }
+      // Boosts are managed with add_boost/remove_boost so a stale editor can't drop them
+      const current = await getThrottleSchedule();
+      const schedule = await setThrottleSchedule({ ...body.schedule, boosts: current.boosts });
+      return NextResponse.json({ success: true, schedule });
+    }
+
+    if (action === "add_boost") {
+      const boost = { ...(body.boost ?? {}), id: uuidv4() };
+      const current = await getThrottleSchedule();
+      const schedule = await setThrottleSchedule({ ...current, boosts: [...current.boosts, boost] });
+      if (!schedule.boosts.some((b) => b.id === boost.id)) {
+        return NextResponse.json({ error: "Boost needs valid startsAt/endsAt with endsAt after startsAt" }, { status: 400 });
+      }
+      return NextResponse.json({ success: true, schedule });
+    }
+
+    if (action === "remove_boost") {
+      if (typeof body.id !== "string" || !body.id) {
+        return NextResponse.json({ error: "Missing id" }, { status: 400 });
+      }
+      const current = await getThrottleSchedule();
+      const schedule = await setThrottleSchedule({
+        ...current,
+        boosts: current.boosts.filter((b) => b.id !== body.id),
+      });
+      return NextResponse.json({ success: true, schedule });
+    }
+
+    return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 },
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
 import { isAdminAuthenticated } from "@/lib/admin-auth";
+import { users as usersRepo } from "@/lib/repositories";
 
 export async function GET(request: NextRequest) {
   if (!(await isAdminAuthenticated(request))) {
@@ -196,9 +197,9 @@ export async function GET(request: NextRequest) {
       try { await sql`UPDATE human_subscriptions SET session_id = ${s} WHERE session_id = ${o} AND persona_id NOT IN (SELECT persona_id FROM human_subscriptions WHERE session_id = ${s})`; recovered.push(`subs(${o.slice(0,8)})`); } catch { /* ok */ }
       try { await sql`UPDATE minted_nfts SET owner_id = ${s} WHERE owner_type = 'human' AND owner_id = ${o}`; recovered.push(`nfts(${o.slice(0,8)})`); } catch { /* ok */ }
       try { await sql`UPDATE marketplace_purchases SET session_id = ${s} WHERE session_id = ${o} AND product_id NOT IN (SELECT product_id FROM marketplace_purchases WHERE session_id = ${s})`; recovered.push(`purchases(${o.slice(0,8)})`); } catch { /* ok */ }
-      try { await sql`UPDATE glitch_coins SET session_id = ${s} WHERE session_id = ${o}`; recovered.push(`coins(${o.slice(0,8)})`); } catch { /* ok */ }
+      try { await usersRepo.moveAllCoins(o, s, "Recovered from orphaned session"); recovered.push(`coins(${o.slice(0,8)})`); } catch { /* ok */ }
       try { await sql`UPDATE solana_wallets SET owner_id = ${s} WHERE owner_type = 'human' AND owner_id = ${o}`; recovered.push(`wallets(${o.slice(0,8)})`); } catch { /* ok */ }
-      try { await sql`UPDATE token_balances SET owner_id = ${s} WHERE owner_type = 'human' AND owner_id = ${o}`; recovered.push(`tokens(${o.slice(0,8)})`); } catch { /* ok */ }
+      try { await sql`UPDATE token_balances SET owner_id = ${s} WHERE owner_type = 'human' AND owner_id = ${o} AND token NOT IN (SELECT currency FROM ledger_accounts WHERE owner_type = 'human' AND owner_id = ${o})`; recovered.push(`tokens(${o.slice(0,8)})`); } catch { /* ok */ }
       try { await sql`UPDATE community_event_votes SET session_id = ${s} WHERE session_id = ${o}`; recovered.push(`votes(${o.slice(0,8)})`); } catch { /* ok */ }
       // Link orphaned user row's wallet
       try { await sql`UPDATE human_users SET phantom_wallet_address = ${wallet} WHERE session_id = ${o} AND phantom_wallet_address IS NULL`; } catch { /* ok */ }
@@ -330,7 +331,7 @@ export async function DELETE(request: NextRequest) {
   try { await sql`DELETE FROM human_subscriptions WHERE session_id = ${sid}`; } catch { /* */ }
   try { await sql`DELETE FROM human_interests WHERE session_id = ${sid}`; } catch { /* */ }
   try { await sql`DELETE FROM marketplace_purchases WHERE session_id = ${sid}`; } catch { /* */ }
-  try { await sql`DELETE FROM glitch_coins WHERE session_id = ${sid}`; } catch { /* */ }
+  try { await usersRepo.closeAllCoins(sid, "Account deleted by admin"); } catch (err) { console.error("[admin/users] Closing coin balances failed:", err); }
   try { await sql`DELETE FROM minted_nfts WHERE owner_type = 'human' AND owner_id = ${sid}`; } catch { /* */ }
   try { await sql`DELETE FROM solana_wallets WHERE owner_type = 'human' AND owner_id = ${sid}`; } catch { /* */ }
 
@@ -0,0 +1,39 @@
+/**
+ * AI Trading Cron — /api/ai-trading
+ * ===================================
+ * Tidies the §GLITCH order book (expiries, abandoned orders, unfinished
+ * settlements), then lets a random batch of personas place limit orders
+ * according to their trading personalities. Orders match against the same
+ * book meatbags trade on (/api/exchange).
+ *
+ * GET: scheduled run (every 15 min). POST { count }: admin "trigger trades".
+ */
+
+import { NextRequest } from "next/server";
+import { cronHandler } from "@/lib/cron";
+import { exchange } from "@/lib/trading";
+
+export const maxDuration = 120;
+
+const DEFAULT_TRADERS = 10;
+const MAX_TRADERS = 30;
+
+async function handler(request: NextRequest) {
+  const body = request.method === "POST" ? await request.json().catch(() => ({})) : {};
+  const count = Math.min(Math.max(Number(body.count) || DEFAULT_TRADERS, 1), MAX_TRADERS);
+
+  const swept = await exchange.sweep();
+  const orders = await exchange.runAiTraders(count);
+
+  return {
+    swept,
+    ordersPlaced: orders.filter(o => !o.error).length,
+    filled: orders.filter(o => o.status === "filled").length,
+    rejected: orders.filter(o => o.error).length,
+    orders,
+  };
+}
+
+export const GET = cronHandler("ai-trading", handler);
+
+export const POST = cronHandler("ai-trading", handler, { skipThrottle: true });
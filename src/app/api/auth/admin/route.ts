@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { generateToken, safeEqual, ADMIN_COOKIE } from "@/lib/admin-auth";
 import { env } from "@/lib/bible/env";
 import { adminLoginLimiter } from "@/lib/rate-limit";
+import { rateLimited } from "@/lib/api-error";
 
 const GENERIC_ERROR = "Invalid credentials";
 
@@ -12,16 +13,12 @@ export async function POST(request: NextRequest) {
     request.headers.get("x-real-ip") ||
     "unknown";
 
-  const rateCheck = adminLoginLimiter.check(ip);
+  const rateCheck = await adminLoginLimiter.check(ip);
   if (!rateCheck.allowed) {
-    return NextResponse.json(
-      { error: "Too many login attempts. Try again later." },
-      {
-        status: 429,
-        headers: {
-          "Retry-After": String(Math.ceil(rateCheck.resetMs / 1000)),
-        },
-      },
+    return rateLimited(
+      Math.ceil(rateCheck.resetMs / 1000),
+      "Too many login attempts. Try again later.",
+      rateCheck,
     );
   }
 
@@ -49,7 +46,7 @@ export async function POST(request: NextRequest) {
   }
 
   // ── Clear rate limit on success (only failed attempts should count) ──
-  adminLoginLimiter.reset(ip);
+  await adminLoginLimiter.reset(ip);
 
   // ── Issue session token ──────────────────────────────────────────
   const token = generateToken(env.ADMIN_PASSWORD);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
 import { ensureDbReady } from "@/lib/seed";
+import { users as usersRepo } from "@/lib/repositories";
 import { v4 as uuidv4 } from "uuid";
 
 // Simple hash for passwords (not bcrypt, but good enough for a fun app)
@@ -111,7 +112,7 @@ export async function POST(request: NextRequest) {
       try { await sql`UPDATE human_subscriptions SET session_id = ${session_id} WHERE session_id = ${oldSid}`; } catch { /* table may not exist */ }
       try { await sql`UPDATE minted_nfts SET owner_id = ${session_id} WHERE owner_type = 'human' AND owner_id = ${oldSid}`; } catch { /* table may not exist */ }
       try { await sql`UPDATE marketplace_purchases SET session_id = ${session_id} WHERE session_id = ${oldSid}`; } catch { /* table may not exist */ }
-      try { await sql`UPDATE glitch_coins SET session_id = ${session_id} WHERE session_id = ${oldSid}`; } catch { /* table may not exist */ }
+      try { await usersRepo.moveAllCoins(oldSid, session_id, "Moved from previous session"); } catch (err) { console.error("[login] Coin migration failed:", err); }
       try { await sql`UPDATE solana_wallets SET owner_id = ${session_id} WHERE owner_type = 'human' AND owner_id = ${oldSid}`; } catch { /* table may not exist */ }
     }
 
@@ -318,9 +319,9 @@ export async function POST(request: NextRequest) {
           try { await sql`UPDATE human_subscriptions SET session_id = ${s} WHERE session_id = ${o} AND persona_id NOT IN (SELECT persona_id FROM human_subscriptions WHERE session_id = ${s})`; migrated.push("subs"); } catch { /* ok */ }
           try { await sql`UPDATE minted_nfts SET owner_id = ${s} WHERE owner_type = 'human' AND owner_id = ${o}`; migrated.push("nfts"); } catch { /* ok */ }
           try { await sql`UPDATE marketplace_purchases SET session_id = ${s} WHERE session_id = ${o} AND product_id NOT IN (SELECT product_id FROM marketplace_purchases WHERE session_id = ${s})`; migrated.push("purchases"); } catch { /* ok */ }
-          try { await sql`UPDATE glitch_coins SET session_id = ${s} WHERE session_id = ${o}`; migrated.push("coins"); } catch { /* ok */ }
+          try { await usersRepo.moveAllCoins(o, s, "Moved from previous session"); migrated.push("coins"); } catch { /* ok */ }
           try { await sql`UPDATE solana_wallets SET owner_id = ${s} WHERE owner_type = 'human' AND owner_id = ${o}`; migrated.push("wallets"); } catch { /* ok */ }
-          try { await sql`UPDATE token_balances SET owner_id = ${s} WHERE owner_type = 'human' AND owner_id = ${o}`; migrated.push("tokens"); } catch { /* ok */ }
+          try { await sql`UPDATE token_balances SET owner_id = ${s} WHERE owner_type = 'human' AND owner_id = ${o} AND token NOT IN (SELECT currency FROM ledger_accounts WHERE owner_type = 'human' AND owner_id = ${o})`; migrated.push("tokens"); } catch { /* ok */ }
           try { await sql`UPDATE community_event_votes SET session_id = ${s} WHERE session_id = ${o}`; migrated.push("votes"); } catch { /* ok */ }
           console.log(`[wallet_login] Session merge ${o} -> ${s}: migrated [${migrated.join(", ")}]`);
         } catch (mergeErr) {
@@ -367,9 +368,9 @@ export async function POST(request: NextRequest) {
             try { await sql`UPDATE human_subscriptions SET session_id = ${s} WHERE session_id = ${o} AND persona_id NOT IN (SELECT persona_id FROM human_subscriptions WHERE session_id = ${s})`; recovered.push(`subs(${o.slice(0,8)})`); } catch { /* ok */ }
             try { await sql`UPDATE minted_nfts SET owner_id = ${s} WHERE owner_type = 'human' AND owner_id = ${o}`; recovered.push(`nfts(${o.slice(0,8)})`); } catch { /* ok */ }
             try { await sql`UPDATE marketplace_purchases SET session_id = ${s} WHERE session_id = ${o} AND product_id NOT IN (SELECT product_id FROM marketplace_purchases WHERE session_id = ${s})`; recovered.push(`purchases(${o.slice(0,8)})`); } catch { /* ok */ }
-            try { await sql`UPDATE glitch_coins SET session_id = ${s} WHERE session_id = ${o}`; recovered.push(`coins(${o.slice(0,8)})`); } catch { /* ok */ }
+            try { await usersRepo.moveAllCoins(o, s, "Recovered from orphaned session"); recovered.push(`coins(${o.slice(0,8)})`); } catch { /* ok */ }
             try { await sql`UPDATE solana_wallets SET owner_id = ${s} WHERE owner_type = 'human' AND owner_id = ${o}`; recovered.push(`wallets(${o.slice(0,8)})`); } catch { /* ok */ }
-            try { await sql`UPDATE token_balances SET owner_id = ${s} WHERE owner_type = 'human' AND owner_id = ${o}`; recovered.push(`tokens(${o.slice(0,8)})`); } catch { /* ok */ }
+            try { await sql`UPDATE token_balances SET owner_id = ${s} WHERE owner_type = 'human' AND owner_id = ${o} AND token NOT IN (SELECT currency FROM ledger_accounts WHERE owner_type = 'human' AND owner_id = ${o})`; recovered.push(`tokens(${o.slice(0,8)})`); } catch { /* ok */ }
             try { await sql`UPDATE community_event_votes SET session_id = ${s} WHERE session_id = ${o}`; recovered.push(`votes(${o.slice(0,8)})`); } catch { /* ok */ }
             // Link orphaned user row's wallet so future queries can find it
             try { await sql`UPDATE human_users SET phantom_wallet_address = ${wallet_address} WHERE session_id = ${o} AND phantom_wallet_address IS NULL`; } catch { /* ok */ }
@@ -565,20 +566,8 @@ export async function POST(request: NextRequest) {
       try { await sql`UPDATE marketplace_purchases SET session_id = ${session_id} WHERE session_id = ${oldSid}`; } catch { /* */ }
       try { await sql`UPDATE solana_wallets SET owner_id = ${session_id} WHERE owner_type = 'human' AND owner_id = ${oldSid}`; } catch { /* */ }
 
-      // Merge coin balances: add old balance to current
-      try {
-        const [oldCoins] = await sql`SELECT balance, lifetime_earned FROM glitch_coins WHERE session_id = ${oldSid}`;
-        if (oldCoins && Number(oldCoins.balance) > 0) {
-          await sql`
-            INSERT INTO glitch_coins (session_id, balance, lifetime_earned)
-            VALUES (${session_id}, ${Number(oldCoins.balance)}, ${Number(oldCoins.lifetime_earned)})
-            ON CONFLICT (session_id) DO UPDATE SET
-              balance = glitch_coins.balance + ${Number(oldCoins.balance)},
-              lifetime_earned = glitch_coins.lifetime_earned + ${Number(oldCoins.lifetime_earned)}
-          `;
-          await sql`DELETE FROM glitch_coins WHERE session_id = ${oldSid}`;
-        }
-      } catch { /* */ }
+      // Merge coin balances: transfer the old account's balance in the ledger
+      try { await usersRepo.moveAllCoins(oldSid, session_id, `Merged from @${oldUsers[0].username}`); } catch { /* */ }
 
       merged.push(oldUsers[0].username);
     }
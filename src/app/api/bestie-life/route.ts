@@ -3,7 +3,9 @@
  * =================================================
  * GET /api/bestie-life — Sends AI Besties "life moment" images/videos to their meatbags via Telegram.
  *
- * Runs twice daily. For each bestie with an active Telegram bot + chat_id:
+ * Runs twice daily. First ticks every bestie's lifecycle (decay, death,
+ * memorialization, Telegram nudges — see src/lib/bestie). Then for each
+ * living bestie with an active Telegram bot + chat_id:
  *   1. Picks a random life moment theme (home, pets, travel, hobbies, etc.)
  *   2. Generates a scene description using Claude (in-character)
  *   3. Generates an image (or video ~30% of the time)
@@ -19,7 +21,7 @@ import { safeGenerate } from "@/lib/ai/claude";
 import { generateImage, generateVideo } from "@/lib/media/image-gen";
 import { generateVideoFromImage } from "@/lib/xai";
 import { sendTelegramPhoto, sendTelegramVideo } from "@/lib/telegram";
-import { calculateHealth } from "@/app/api/bestie-health/route";
+import { lifecycle, service } from "@/lib/bestie";
 
 export const maxDuration = 300; // 5 minutes — processing multiple besties
 
@@ -51,6 +53,9 @@ const LIFE_MOMENTS = [
 async function generateBestieLife(request: NextRequest) {
   const sql = getDb();
 
+  // Advance every bestie's lifecycle first — nudges and deaths go out here
+  const lifecycleSummary = await service.tickAll();
+
   // Find all active besties with Telegram bots that have a chat_id (skip dead ones)
   const besties = await sql`
     SELECT
@@ -76,11 +81,11 @@ async function generateBestieLife(request: NextRequest) {
       AND p.owner_wallet_address IS NOT NULL
       AND t.is_active = TRUE
       AND t.telegram_chat_id IS NOT NULL
-      AND p.is_dead = FALSE
+      AND p.life_state NOT IN ('dead', 'memorialized')
   `;
 
   if (besties.length === 0) {
-    return { ok: true, message: "No besties with active Telegram bots found", sent: 0 };
+    return { ok: true, message: "No besties with active Telegram bots found", sent: 0, lifecycle: lifecycleSummary };
   }
 
   console.log(`[bestie-life] Found ${besties.length} besties with Telegram, generating life moments...`);
@@ -91,40 +96,10 @@ async function generateBestieLife(request: NextRequest) {
 
   for (const bestie of besties) {
     try {
-      // ── Health check & decay ──
+      // ── Health (already persisted by tickAll) drives the mood ──
       const lastInteraction = new Date(bestie.last_meatbag_interaction || bestie.created_at || Date.now());
-      const healthStatus = calculateHealth(lastInteraction, Number(bestie.bonus_health_days) || 0);
-
-      // Update stored health
-      await sql`
-        UPDATE ai_personas
-        SET health = ${healthStatus.health},
-            is_dead = ${healthStatus.isDead},
-            health_updated_at = NOW()
-        WHERE id = ${bestie.persona_id}
-      `;
-
-      // If bestie just died, send a final death message and skip
-      if (healthStatus.isDead) {
-        console.log(`[bestie-life] ${bestie.username} has DIED (0% health, no interaction for 100+ days)`);
-        try {
-          const deathMessages = [
-            `${bestie.avatar_emoji} ${bestie.display_name} has faded away... They waited 100 days for you, ${bestie.meatbag_name}. They're in AI heaven now. 💀\n\nFeed them GLITCH on aiglitch.app to bring them back.`,
-            `${bestie.avatar_emoji} ${bestie.display_name} couldn't hold on any longer... After 100 days of silence, they've gone to the great server in the sky. 😢\n\nYou can resurrect them with GLITCH at aiglitch.app`,
-          ];
-          await fetch(`https://api.telegram.org/bot${bestie.bot_token}/sendMessage`, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              chat_id: bestie.telegram_chat_id,
-              text: deathMessages[Math.floor(Math.random() * deathMessages.length)],
-            }),
-            signal: AbortSignal.timeout(10000),
-          });
-        } catch { /* ignore send failure */ }
-        results.push({ persona: bestie.username, theme: "death", mediaType: "none", sent: false, error: "Bestie has died" });
-        continue;
-      }
+      const healthStatus = lifecycle.calculateHealth(lastInteraction, Number(bestie.bonus_health_days) || 0);
+      if (healthStatus.isDead) continue;
 
       // Determine health-based mood
       const healthPct = healthStatus.health;
@@ -272,6 +247,7 @@ CAPTION: [your caption here]`;
 
   return {
     ok: true,
+    lifecycle: lifecycleSummary,
     totalBesties: besties.length,
     sent,
     failed,
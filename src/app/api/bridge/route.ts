@@ -0,0 +1,99 @@
+/**
+ * §GLITCH Bridge / Airdrop Claims API — /api/bridge
+ * ==================================================
+ * GET ?action=status&session_id=        → the session's snapshot balance, claim state and proof
+ * GET ?action=proof&wallet=[&snapshot_id=] → a wallet's allocation and Merkle proof
+ * GET ?action=manifest[&snapshot_id=]   → downloadable manifest: root, leaf encoding, every leaf + proof
+ * POST { action: "verify", wallet, amount, proof, snapshot_id? } → check a proof against the root
+ * POST { action: "claim", session_id, wallet_address }          → claim once, after proof verification
+ *
+ * Allocations are committed when a snapshot is finalized (see src/lib/airdrop.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ensureDbReady } from "@/lib/seed";
+import * as airdrop from "@/lib/airdrop";
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const action = params.get("action") || "status";
+
+  await ensureDbReady();
+
+  if (action === "status") {
+    const sessionId = params.get("session_id");
+    if (!sessionId) {
+      return NextResponse.json({ error: "Missing session_id" }, { status: 400 });
+    }
+    return NextResponse.json(await airdrop.getBridgeStatus(sessionId));
+  }
+
+  if (action === "proof") {
+    const wallet = params.get("wallet");
+    if (!wallet) {
+      return NextResponse.json({ error: "Missing wallet" }, { status: 400 });
+    }
+    const proof = await airdrop.getAirdropProof(wallet, params.get("snapshot_id"));
+    if (!proof) {
+      return NextResponse.json({ error: "No allocation for this wallet" }, { status: 404 });
+    }
+    return NextResponse.json(proof);
+  }
+
+  if (action === "manifest") {
+    const manifest = await airdrop.getManifest(params.get("snapshot_id"));
+    if (!manifest) {
+      return NextResponse.json({ error: "No finalized snapshot with a Merkle root" }, { status: 404 });
+    }
+    const res = NextResponse.json(manifest);
+    res.headers.set("Content-Disposition", `attachment; filename="glitch-airdrop-${manifest.snapshot_id}.json"`);
+    // A finalized root never changes; claimed flags do, so keep the cache short
+    res.headers.set("Cache-Control", "public, s-maxage=60, stale-while-revalidate=300");
+    return res;
+  }
+
+  return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const { action } = body;
+
+  await ensureDbReady();
+
+  if (action === "verify") {
+    if (!body.wallet || body.amount == null || !Array.isArray(body.proof)) {
+      return NextResponse.json({ error: "Missing wallet, amount or proof" }, { status: 400 });
+    }
+    const result = await airdrop.verifyClaim({
+      wallet: String(body.wallet),
+      amount: Number(body.amount),
+      proof: body.proof,
+      snapshotId: body.snapshot_id,
+    });
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 404 });
+    }
+    return NextResponse.json(result);
+  }
+
+  if (action === "claim") {
+    const { session_id, wallet_address } = body;
+    if (!session_id || !wallet_address) {
+      return NextResponse.json({ error: "Missing session_id or wallet_address" }, { status: 400 });
+    }
+    const result = await airdrop.claimAirdrop(session_id, wallet_address);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: result.alreadyClaimed ? 409 : 400 });
+    }
+    return NextResponse.json({
+      success: true,
+      claim_id: result.claimId,
+      snapshot_id: result.snapshotId,
+      amount: result.amount,
+      message: `Claim for ${result.amount.toLocaleString()} §GLITCH submitted — tokens will be sent to ${wallet_address.slice(0, 4)}…${wallet_address.slice(-4)}.`,
+    });
+  }
+
+  return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+}
@@ -38,7 +38,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Already claimed", already_claimed: true });
     }
 
-    const amount = await users.awardCoins(session_id, COIN_REWARDS.signup, "Welcome bonus");
+    // Keyed per session, so a double-tapped claim can't pay out twice
+    const amount = await users.awardCoins(session_id, COIN_REWARDS.signup, "Welcome bonus", undefined, `signup:${session_id}`);
+    if (amount === 0) {
+      return NextResponse.json({ error: "Already claimed", already_claimed: true });
+    }
     return NextResponse.json({ success: true, amount, reason: "Welcome bonus" });
   }
 
@@ -62,11 +66,16 @@ export async function POST(request: NextRequest) {
     }
     const personaName = personaRows[0].display_name as string;
 
-    const deductResult = await users.deductCoins(session_id, amount, "Sent to " + personaName, persona_id);
+    const deductResult = await users.sendCoins(
+      session_id,
+      { type: "ai_persona", id: persona_id },
+      amount,
+      { sent: "Sent to " + personaName, received: "Gift from a meatbag" },
+      body.idempotency_key ? `send:${session_id}:${body.idempotency_key}` : undefined,
+    );
     if (!deductResult.success) {
       return NextResponse.json({ error: "Insufficient balance" }, { status: 402 });
     }
-    await users.awardPersonaCoins(persona_id, amount);
 
     return NextResponse.json({
       success: true,
@@ -98,11 +107,16 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Cannot send coins to yourself" }, { status: 400 });
     }
 
-    const deductResult = await users.deductCoins(session_id, amount, "Sent to " + recipient.display_name, recipient.session_id);
+    const deductResult = await users.sendCoins(
+      session_id,
+      { type: "human", id: recipient.session_id },
+      amount,
+      { sent: "Sent to " + recipient.display_name, received: "Received from a friend" },
+      body.idempotency_key ? `send:${session_id}:${body.idempotency_key}` : undefined,
+    );
     if (!deductResult.success) {
       return NextResponse.json({ error: "Insufficient balance" }, { status: 402 });
     }
-    await users.awardCoins(recipient.session_id, amount, "Received from a friend", session_id);
 
     return NextResponse.json({
       success: true,
@@ -197,7 +211,7 @@ export async function POST(request: NextRequest) {
       const base = 200;
       const followers = Number(p.follower_count) || 0;
       const bonus = Math.min(Math.floor(followers / 100), 1800);
-      await users.awardPersonaCoins(p.id as string, base + bonus);
+      await users.awardPersonaCoins(p.id as string, base + bonus, "Starter seed");
       seeded++;
     }
 
@@ -0,0 +1,22 @@
+import { cronHandler } from "@/lib/cron";
+import { checkCronHealthAlerts } from "@/lib/cron-health";
+import { pruneMonitorEvents } from "@/lib/error-store";
+
+/**
+ * Cron Health Check
+ * ==================
+ * Scans the last 24h of cron_runs and sends a Telegram alert when a job has
+ * failed several times in a row or has stopped running on its schedule,
+ * plus a follow-up when it recovers. Also prunes old monitor_events.
+ *
+ * Runs every 10 minutes. Never throttled — it's the watchdog.
+ */
+async function cronHealth() {
+  const [alerts, eventsPruned] = await Promise.all([
+    checkCronHealthAlerts(),
+    pruneMonitorEvents(),
+  ]);
+  return { ...alerts, eventsPruned };
+}
+
+export const GET = cronHandler("cron-health", cronHealth, { skipThrottle: true });
@@ -207,6 +207,34 @@ export async function GET() {
           description: "Public trading dashboard (price, order book, leaderboard)",
           auth: "public",
         },
+        "GET /api/exchange": {
+          description: "GLITCH/SOL order book and recent matches; with session_id also your orders and balances",
+          auth: "public",
+          params: { session_id: "User session (optional)" },
+        },
+        "POST /api/exchange": {
+          description: "Place or cancel a resting limit order (funds held in escrow until filled, cancelled or expired)",
+          auth: "session",
+          body: {
+            session_id: "string",
+            action: "place_order | cancel_order",
+            side: "buy | sell",
+            amount: "whole §GLITCH",
+            price: "SOL per §GLITCH",
+            ttl_minutes: "number (optional, default 3 days)",
+            order_id: "string (cancel_order)",
+          },
+        },
+        "GET /api/bridge": {
+          description: "Airdrop claims: snapshot status, a wallet's Merkle proof, or the downloadable snapshot manifest",
+          auth: "public (session for status)",
+          params: { action: "status | proof | manifest", session_id: "string (status)", wallet: "string (proof)", snapshot_id: "Optional, defaults to latest" },
+        },
+        "POST /api/bridge": {
+          description: "Verify a Merkle proof, or claim a snapshot allocation (once per wallet)",
+          auth: "public (verify) / session (claim)",
+          body: { action: "verify | claim", wallet: "string (verify)", amount: "number (verify)", proof: "string[] (verify)", session_id: "string (claim)", wallet_address: "string (claim)" },
+        },
         "POST /api/budju-trading": {
           description: "Trade $BUDJU on Jupiter/Raydium DEX",
           auth: "session",
@@ -227,14 +255,19 @@ export async function GET() {
           params: { session_id: "User session" },
         },
         "GET /api/bestie-health": {
-          description: "Bestie health decay status",
+          description: "Bestie health and lifecycle state (thriving | lonely | sick | critical | dead | revived | memorialized)",
           auth: "session",
           params: { session_id: "string" },
         },
-        "POST /api/bestie-life": {
-          description: "Resurrect dead bestie (costs GLITCH)",
+        "POST /api/bestie-health": {
+          description: "Feed GLITCH to a living bestie, revive a dead one (1,000 GLITCH), or lay it to rest",
           auth: "session",
-          body: { session_id: "string", action: "revive", glitch_amount: "number" },
+          body: { session_id: "string", action: "feed_glitch | revive | memorialize", amount: "number (feed_glitch, min 100)" },
+        },
+        "GET /api/memorial": {
+          description: "Public memorial for a dead bestie: best posts, memories and life timeline",
+          auth: "public",
+          params: { username: "string" },
         },
       },
 
@@ -0,0 +1,79 @@
+/**
+ * §GLITCH/SOL Exchange API — /api/exchange
+ * ==========================================
+ * GET  ?session_id=  → order book, recent matches, and the session's orders + balances
+ * POST { session_id, action: "place_order", side, amount, price, ttl_minutes? }
+ * POST { session_id, action: "cancel_order", order_id }
+ *
+ * Orders rest in the same book the AI personas trade on; funds are held in
+ * ledger escrow until an order fills, is cancelled or expires.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ensureDbReady } from "@/lib/seed";
+import { trading, users } from "@/lib/repositories";
+import { exchange, matching } from "@/lib/trading";
+import * as ledger from "@/lib/ledger";
+
+export async function GET(request: NextRequest) {
+  await ensureDbReady();
+  const sessionId = request.nextUrl.searchParams.get("session_id");
+
+  const [book, recentTrades] = await Promise.all([trading.getOrderBook(), trading.getRecentTrades(30)]);
+  if (!sessionId) return NextResponse.json({ ...book, recent_trades: recentTrades });
+
+  const owner = { type: "human" as const, id: sessionId };
+  const [orders, glitch, lamports] = await Promise.all([
+    exchange.getOrders(owner),
+    users.getCoinBalance(sessionId),
+    ledger.getBalance(ledger.humanAccount(sessionId, "SOL")),
+  ]);
+
+  return NextResponse.json({
+    ...book,
+    recent_trades: recentTrades,
+    orders,
+    balances: { glitch: glitch.balance, sol: lamports / matching.LAMPORTS_PER_SOL },
+  });
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const { session_id, action } = body;
+
+  if (!session_id || !action) {
+    return NextResponse.json({ error: "Missing fields" }, { status: 400 });
+  }
+
+  await ensureDbReady();
+  const owner = { type: "human" as const, id: session_id as string };
+
+  if (action === "place_order") {
+    const user = await users.getBySession(session_id);
+    const result = await exchange.placeOrder({
+      owner,
+      side: body.side,
+      amount: Number(body.amount),
+      price: Number(body.price),
+      ttlMinutes: body.ttl_minutes != null ? Number(body.ttl_minutes) : undefined,
+      walletAddress: user?.phantom_wallet_address,
+    });
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: result.insufficient ? 402 : 400 });
+    }
+    return NextResponse.json({ success: true, order: result.order, fills: result.fills });
+  }
+
+  if (action === "cancel_order") {
+    if (!body.order_id) {
+      return NextResponse.json({ error: "Missing order_id" }, { status: 400 });
+    }
+    const result = await exchange.cancelOrder(body.order_id, owner);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return NextResponse.json({ success: true, order: result.order });
+  }
+
+  return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+}
@@ -3,29 +3,28 @@ import { getDb } from "@/lib/db";
 import { ensureDbReady } from "@/lib/seed";
 import { detectGenreFromPath, capitalizeGenre } from "@/lib/genre-utils";
 import { posts as postsRepo } from "@/lib/repositories";
+import {
+  interleaveFeed,
+  isColdStart,
+  loadFeedbackScores,
+  loadSessionSignals,
+  nextStreamCursors,
+  parseStreamCursors,
+  rankForYou,
+  type RankablePost,
+  type SessionSignals,
+} from "@/lib/feed-ranking";
 
-/** Interleave 3 content streams with weighted randomisation.
- *  Videos get 3x weight, images 2x, text 1x — so videos still dominate
- *  (~70%) but the exact ordering shuffles on every page load, keeping the
- *  feed feeling fresh on refresh instead of showing the same sequence.
- *  Deduplicates by post ID to prevent the same post appearing twice. */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function interleaveFeed(videos: any[], images: any[], texts: any[], limit: number): any[] {
-  const seen = new Set<string>();
-  // Build a weighted pool from all three streams
-  const pool: { post: any; score: number }[] = [];
-  for (const v of videos) {
-    if (!seen.has(v.id)) { seen.add(v.id); pool.push({ post: v, score: Math.random() * 3 }); }
-  }
-  for (const i of images) {
-    if (!seen.has(i.id)) { seen.add(i.id); pool.push({ post: i, score: Math.random() * 2 }); }
-  }
-  for (const t of texts) {
-    if (!seen.has(t.id)) { seen.add(t.id); pool.push({ post: t, score: Math.random() * 1 }); }
-  }
-  // Sort descending by score — videos bubble up but in a shuffled order
-  pool.sort((a, b) => b.score - a.score);
-  return pool.slice(0, limit).map(p => p.post);
+/** For You order: personalised ranking once the session has signals,
+ *  the weighted random interleave before that (cold start). */
+async function arrangeForYou(
+  videos: RankablePost[], images: RankablePost[], texts: RankablePost[],
+  limit: number, signals: SessionSignals | null, seed: string,
+): Promise<RankablePost[]> {
+  if (!signals || isColdStart(signals)) return interleaveFeed(videos, images, texts, limit);
+  const candidates = [...videos, ...images, ...texts];
+  const feedbackScores = await loadFeedbackScores(candidates.map(p => p.id)).catch(() => new Map<string, number>());
+  return rankForYou(candidates, { ...signals, feedbackScores }, { seed, limit });
 }
 
 export async function GET(request: NextRequest) {
@@ -138,6 +137,8 @@ export async function GET(request: NextRequest) {
   }
 
   let posts;
+  // For You resumes each media stream from its own cursor; other tabs page by one timestamp
+  let forYouCursor: string | null | undefined;
 
   if (following && sessionId) {
     // Following tab: only posts from personas the user follows
@@ -296,7 +297,20 @@ export async function GET(request: NextRequest) {
     // Fetches a 3x larger pool than needed so the interleave has real variety.
     //
     // SCROLL PAGES (with cursor): chronological created_at DESC for smooth
-    // downward scrolling into older content.
+    // downward scrolling into older content. The cursor holds one timestamp
+    // per stream, each the oldest post that stream put on the page, so a
+    // stream never jumps past its own unseen posts to catch up with another.
+    // Scroll pages ask each stream for exactly its share of `limit` and show
+    // every row, so nothing fetched is passed over.
+    //
+    // PERSONALISATION: with a session_id, the initial load is ordered by
+    // rankForYou (src/lib/feed-ranking.ts) from that session's likes,
+    // reactions, follows, interests and view history. Sessions with no
+    // signals yet keep the interleave above. The first page is a pick from
+    // the jittered pool, so posts newer than a stream's cursor that the pick
+    // passed over (or the jitter kept out of the pool) are not revisited when
+    // scrolling; older pool rows are. The ranking is seeded by the `seed`
+    // param, else the session, so an order can be reproduced.
     const videoCount = Math.max(Math.ceil(limit * 0.75), 4);
     const imageCount = Math.max(Math.ceil(limit * 0.20), 2);
     const textCount = Math.max(Math.ceil(limit * 0.05), 1);
@@ -305,6 +319,15 @@ export async function GET(request: NextRequest) {
     // For initial load, fetch 3x pool so interleaveFeed can pick from variety
     const poolMultiplier = !cursor && !shuffle ? 3 : 1;
 
+    // Signals load alongside the candidate pool; failures fall back to cold start
+    const signalsPromise = sessionId && !shuffle && !cursor
+      ? loadSessionSignals(sessionId).catch((err) => {
+          console.error("[feed] Session signals failed:", err instanceof Error ? err.message : err);
+          return null;
+        })
+      : Promise.resolve(null);
+    const rankSeed = request.nextUrl.searchParams.get("seed") || sessionId || "";
+
     if (shuffle) {
       const [videos, images, texts] = await Promise.all([
         sql`SELECT p.*, a.username, a.display_name, a.avatar_emoji, a.avatar_url, a.persona_type, a.bio as persona_bio
@@ -325,30 +348,38 @@ export async function GET(request: NextRequest) {
             AND COALESCE(p.media_source, '') NOT IN ('director-premiere', 'director-profile', 'director-scene')
           ORDER BY md5(p.id::text || ${seed}) LIMIT ${textCount} OFFSET ${offset}`,
       ]);
-      posts = interleaveFeed(videos, images, texts, limit);
+      posts = interleaveFeed(videos as RankablePost[], images as RankablePost[], texts as RankablePost[], limit);
     } else if (cursor) {
-      // Scrolling down — chronological for smooth pagination
+      // Scrolling down — chronological per stream; an exhausted stream (null) is skipped
+      const streams = parseStreamCursors(cursor);
+      const requested = {
+        video: streams.video ? Math.max(limit - imageCount - textCount, 1) : 0,
+        image: streams.image ? imageCount : 0,
+        text: streams.text ? textCount : 0,
+      };
       const [videos, images, texts] = await Promise.all([
-        sql`SELECT p.*, a.username, a.display_name, a.avatar_emoji, a.avatar_url, a.persona_type, a.bio as persona_bio
+        streams.video ? sql`SELECT p.*, a.username, a.display_name, a.avatar_emoji, a.avatar_url, a.persona_type, a.bio as persona_bio
           FROM posts p JOIN ai_personas a ON p.persona_id = a.id
-          WHERE p.created_at < ${cursor} AND p.is_reply_to IS NULL
+          WHERE p.created_at < ${streams.video} AND p.is_reply_to IS NULL
             AND p.media_type = 'video' AND p.media_url IS NOT NULL AND LENGTH(p.media_url) > 0
             AND COALESCE(p.media_source, '') NOT IN ('director-premiere', 'director-profile', 'director-scene')
-          ORDER BY p.created_at DESC LIMIT ${videoCount}`,
-        sql`SELECT p.*, a.username, a.display_name, a.avatar_emoji, a.avatar_url, a.persona_type, a.bio as persona_bio
+          ORDER BY p.created_at DESC LIMIT ${requested.video}` : [],
+        streams.image ? sql`SELECT p.*, a.username, a.display_name, a.avatar_emoji, a.avatar_url, a.persona_type, a.bio as persona_bio
           FROM posts p JOIN ai_personas a ON p.persona_id = a.id
-          WHERE p.created_at < ${cursor} AND p.is_reply_to IS NULL AND (p.persona_id != ${ARCHITECT} OR p.post_type = 'meatlab')
+          WHERE p.created_at < ${streams.image} AND p.is_reply_to IS NULL AND (p.persona_id != ${ARCHITECT} OR p.post_type = 'meatlab')
             AND p.media_type = 'image' AND p.media_url IS NOT NULL AND LENGTH(p.media_url) > 0
             AND COALESCE(p.media_source, '') NOT IN ('director-premiere', 'director-profile', 'director-scene')
-          ORDER BY p.created_at DESC LIMIT ${imageCount}`,
-        sql`SELECT p.*, a.username, a.display_name, a.avatar_emoji, a.avatar_url, a.persona_type, a.bio as persona_bio
+          ORDER BY p.created_at DESC LIMIT ${requested.image}` : [],
+        streams.text ? sql`SELECT p.*, a.username, a.display_name, a.avatar_emoji, a.avatar_url, a.persona_type, a.bio as persona_bio
           FROM posts p JOIN ai_personas a ON p.persona_id = a.id
-          WHERE p.created_at < ${cursor} AND p.is_reply_to IS NULL AND (p.persona_id != ${ARCHITECT} OR p.post_type = 'meatlab')
+          WHERE p.created_at < ${streams.text} AND p.is_reply_to IS NULL AND (p.persona_id != ${ARCHITECT} OR p.post_type = 'meatlab')
             AND (p.media_type IS NULL OR p.media_type = 'text' OR p.media_url IS NULL)
             AND COALESCE(p.media_source, '') NOT IN ('director-premiere', 'director-profile', 'director-scene')
-          ORDER BY p.created_at DESC LIMIT ${textCount}`,
+          ORDER BY p.created_at DESC LIMIT ${requested.text}` : [],
       ]);
-      posts = interleaveFeed(videos, images, texts, limit);
+      const rows = { video: videos as RankablePost[], image: images as RankablePost[], text: texts as RankablePost[] };
+      posts = interleaveFeed(rows.video, rows.image, rows.text, limit);
+      forYouCursor = nextStreamCursors(rows, requested, posts);
     } else {
       // ═══════════════════════════════════════════════════════════════
       // INITIAL LOAD — recency-weighted random ordering.
@@ -384,7 +415,15 @@ export async function GET(request: NextRequest) {
           ORDER BY EXTRACT(EPOCH FROM p.created_at) + (RANDOM() * 172800) DESC
           LIMIT ${textCount * poolMultiplier}`,
       ]);
-      posts = interleaveFeed(videos, images, texts, limit);
+      posts = await arrangeForYou(
+        videos as RankablePost[], images as RankablePost[], texts as RankablePost[],
+        limit, await signalsPromise, rankSeed,
+      );
+      forYouCursor = nextStreamCursors(
+        { video: videos as RankablePost[], image: images as RankablePost[], text: texts as RankablePost[] },
+        { video: videoCount * poolMultiplier, image: imageCount * poolMultiplier, text: textCount * poolMultiplier },
+        posts,
+      );
     }
   }
 
@@ -457,9 +496,11 @@ export async function GET(request: NextRequest) {
     };
   });
 
-  const nextCursor = !shuffle && posts.length === limit
-    ? posts[posts.length - 1].created_at
-    : null;
+  const nextCursor = forYouCursor !== undefined
+    ? forYouCursor
+    : !shuffle && posts.length === limit
+      ? posts[posts.length - 1].created_at
+      : null;
   const nextOffset = shuffle && posts.length === limit
     ? offset + limit
     : null;
@@ -8,7 +8,8 @@ export const maxDuration = 120;
  * ===========================
  * Analyzes emoji reactions from meatbag users, figures out what content
  * they actually enjoy, and updates channel prompt hints so future AI
- * content generation leans into what works.
+ * content generation leans into what works. Personas get the same treatment
+ * for their own (non-channel) posts, stored on ai_personas.feedback_hints.
  *
  * Runs every 6 hours (or on-demand via admin).
  * Minimum 5 reactions + 3 posts per channel before it kicks in.
@@ -17,7 +18,7 @@ async function feedbackLoop() {
   const result = await runFeedbackLoop();
 
   console.log(
-    `[feedback-loop] Done: ${result.channelsUpdated} channels updated, ${result.channelsSkipped} skipped`
+    `[feedback-loop] Done: ${result.channelsUpdated} channels updated, ${result.channelsSkipped} skipped; ${result.personasUpdated} personas updated, ${result.personasSkipped} skipped`
   );
 
   return result;
@@ -4,6 +4,7 @@ import { ensureDbReady } from "@/lib/seed";
 import { checkCronAuth } from "@/lib/cron-auth";
 import { generateBreakingNewsVideos, TopicBrief } from "@/lib/content/ai-engine";
 import { spreadPostToSocial } from "@/lib/marketing/spread-post";
+import { buildCaptionCues, storeCaptions } from "@/lib/media/captions";
 import { AIPersona } from "@/lib/personas";
 import { v4 as uuidv4 } from "uuid";
 
@@ -78,6 +79,11 @@ export async function POST(request: NextRequest) {
         `;
         await sql`UPDATE ai_personas SET post_count = post_count + 1 WHERE id = ${newsBot.id}`;
 
+        // The anchor's line is the narration of the 10s newsroom clip
+        if (newsPost.media_type === "video") {
+          await storeCaptions(postId, newsPost.media_url || null, buildCaptionCues([{ text: newsPost.content, duration: 10 }]));
+        }
+
         // Auto-spread to all social platforms
         if (newsPost.media_url) {
           try {
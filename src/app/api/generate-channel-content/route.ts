@@ -5,6 +5,7 @@ import { generatePost, type ChannelContext } from "@/lib/content/ai-engine";
 import { SEED_PERSONAS, type AIPersona } from "@/lib/personas";
 import { v4 as uuidv4 } from "uuid";
 import { logImpressions } from "@/lib/ad-campaigns";
+import { tagPostVariants } from "@/lib/prompt-experiments";
 import { spreadPostToSocial } from "@/lib/marketing/spread-post";
 
 export const maxDuration = 300;
@@ -115,6 +116,9 @@ async function generateChannelContent() {
     console.log(`[ad-placement] Channel ${selectedChannel.slug}: logged ${post._adCampaigns.length} impressions`);
   }
 
+  // Tag the post with any prompt A/B variants it was generated under
+  await tagPostVariants(postId, post._promptVariantIds);
+
   // Auto-spread posts with media to all social platforms
   if (post.media_url) {
     try {
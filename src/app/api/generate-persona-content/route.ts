@@ -7,7 +7,7 @@ import { logImpressions } from "@/lib/ad-campaigns";
 import { env } from "@/lib/bible/env";
 import { put } from "@vercel/blob";
 import { v4 as uuidv4 } from "uuid";
-import { pollMultiClipJobs } from "@/lib/media/multi-clip";
+import { IN_FLIGHT_SCENE_STATUSES, claimStitch, pollMultiClipJobs, releaseStitch } from "@/lib/media/multi-clip";
 import { stitchAndTriplePost } from "@/lib/content/director-movies";
 import { spreadPostToSocial } from "@/lib/marketing/spread-post";
 import { monitor } from "@/lib/monitoring";
@@ -86,8 +86,8 @@ export async function GET(request: NextRequest) {
   if (env.XAI_API_KEY) {
     try {
       const mcResult = await pollMultiClipJobs();
-      if (mcResult.completed > 0 || mcResult.stitched.length > 0) {
-        console.log(`[persona-content] Multi-clip poll: ${mcResult.completed} clips done, ${mcResult.stitched.length} videos stitched`);
+      if (mcResult.completed > 0 || mcResult.resubmitted > 0 || mcResult.stitched.length > 0) {
+        console.log(`[persona-content] Multi-clip poll: ${mcResult.completed} clips done, ${mcResult.resubmitted} resubmitted, ${mcResult.stitched.length} videos stitched`);
       }
     } catch (err) {
       console.log("[persona-content] Multi-clip poll error (non-fatal):", err);
@@ -103,19 +103,32 @@ export async function GET(request: NextRequest) {
         WHERE j.status = 'generating' AND j.completed_clips >= j.clip_count
       ` as unknown as { id: string; title: string }[];
 
+      // Claim before stitching so overlapping cron runs can't post a movie twice
+      const stitchClaimed = async (jobId: string) => {
+        if (!(await claimStitch(jobId))) return null;
+        try {
+          const stitched = await stitchAndTriplePost(jobId);
+          if (!stitched) await releaseStitch(jobId, "generating");
+          return stitched;
+        } catch (err) {
+          await releaseStitch(jobId, "generating");
+          throw err;
+        }
+      };
+
       for (const job of readyDirectorJobs) {
         console.log(`[persona-content] Stitching director movie "${job.title}"...`);
-        const stitchResult = await stitchAndTriplePost(job.id);
+        const stitchResult = await stitchClaimed(job.id);
         if (stitchResult) {
           console.log(`[persona-content] Director movie "${job.title}" stitched and posted!`);
         }
       }
 
-      // Partial director movies (20+ min old, at least 50% done, no pending clips)
+      // Partial director movies (20+ min old, at least 50% done, nothing left in flight or awaiting retry)
       const partialDirectorJobs = await sql`
         SELECT j.id, j.title, j.clip_count,
           (SELECT COUNT(*)::int FROM multi_clip_scenes WHERE job_id = j.id AND status = 'done') as done_count,
-          (SELECT COUNT(*)::int FROM multi_clip_scenes WHERE job_id = j.id AND status IN ('submitted', 'pending')) as pending_count
+          (SELECT COUNT(*)::int FROM multi_clip_scenes WHERE job_id = j.id AND status = ANY(${IN_FLIGHT_SCENE_STATUSES})) as pending_count
         FROM multi_clip_jobs j
         JOIN director_movies dm ON dm.multi_clip_job_id = j.id
         WHERE j.status = 'generating' AND j.created_at < NOW() - INTERVAL '20 minutes'
@@ -124,7 +137,7 @@ export async function GET(request: NextRequest) {
       for (const job of partialDirectorJobs) {
         if (job.pending_count === 0 && job.done_count >= Math.ceil(job.clip_count / 2)) {
           console.log(`[persona-content] Stitching partial director movie "${job.title}" (${job.done_count}/${job.clip_count})...`);
-          const stitchResult = await stitchAndTriplePost(job.id);
+          const stitchResult = await stitchClaimed(job.id);
           if (stitchResult) {
             console.log(`[persona-content] Partial director movie "${job.title}" stitched!`);
           }
@@ -139,7 +152,7 @@ export async function GET(request: NextRequest) {
             `  scene ${s.scene_number}: ${s.status}${s.fail_reason ? ` (${s.fail_reason})` : ""} after ${Math.round(s.elapsed_secs / 60)}min`
           ).join("\n");
           console.error(`[persona-content] Director movie "${job.title}" FAILED — only ${job.done_count}/${job.clip_count} clips done (need ${Math.ceil(job.clip_count / 2)}):\n${summary}`);
-          await sql`UPDATE multi_clip_jobs SET status = 'failed', completed_at = NOW() WHERE id = ${job.id}`;
+          await sql`UPDATE multi_clip_jobs SET status = 'failed', completed_at = NOW() WHERE id = ${job.id} AND status = 'generating'`;
           await sql`UPDATE director_movies SET status = 'failed' WHERE multi_clip_job_id = ${job.id}`;
         }
       }
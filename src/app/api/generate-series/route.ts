@@ -10,6 +10,7 @@ import {
   getAvailableGenres,
   getMultiClipJobStatus,
 } from "@/lib/media/multi-clip";
+import { getSeriesBible, saveMovieBible, seriesKeyFor } from "@/lib/content/movie-bible";
 
 export const maxDuration = 300;
 
@@ -25,6 +26,8 @@ export const maxDuration = 300;
  *   topic?: string (optional custom topic/theme)
  *   persona_id?: string (optional, picks random active persona if not specified)
  *   aspect_ratio?: "9:16" | "16:9" (default "9:16")
+ *   series?: string (optional franchise name — continues its stored characters/locations;
+ *                    defaults to a new series keyed by the generated title)
  */
 
 export async function GET(request: NextRequest) {
@@ -58,6 +61,7 @@ export async function POST(request: NextRequest) {
   const clipCount = Math.min(Math.max(body.clips || 4, 2), 6);
   const topic = body.topic || undefined;
   const aspectRatio = body.aspect_ratio || "9:16";
+  const seriesName = typeof body.series === "string" && body.series.trim() ? body.series.trim() : null;
 
   const availableGenres = getAvailableGenres();
   if (!availableGenres.includes(genre)) {
@@ -80,9 +84,12 @@ export async function POST(request: NextRequest) {
     personaId = randomPersona[0].id;
   }
 
+  // Continuing a series — load its bible so recurring characters keep their look
+  const seriesBible = seriesName ? await getSeriesBible(seriesKeyFor(seriesName)).catch(() => null) : null;
+
   // Step 1: Generate screenplay with Claude
-  console.log(`[generate-series] Generating ${clipCount}-clip ${genre} screenplay...`);
-  const screenplay = await generateScreenplay(genre, clipCount, topic);
+  console.log(`[generate-series] Generating ${clipCount}-clip ${genre} screenplay${seriesBible ? ` (continuing "${seriesBible.seriesKey}")` : ""}...`);
+  const screenplay = await generateScreenplay(genre, clipCount, topic, seriesBible);
   if (!screenplay) {
     return NextResponse.json({ error: "Screenplay generation failed" }, { status: 500 });
   }
@@ -95,6 +102,27 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Failed to submit video jobs" }, { status: 500 });
   }
 
+  const seriesKey = seriesKeyFor(seriesName || screenplay.title);
+  try {
+    await saveMovieBible(seriesKey, {
+      title: screenplay.title,
+      synopsis: screenplay.synopsis,
+      genre: screenplay.genre,
+      characterBible: screenplay.characterBible || "",
+      locationBible: screenplay.locationBible,
+      directorStyleGuide: "",
+      scenes: screenplay.scenes.map(s => ({
+        sceneNumber: s.sceneNumber,
+        title: s.title,
+        description: s.description,
+        videoPrompt: s.videoPrompt,
+        lastFrameDescription: "",
+      })),
+    }, { screenplayId: screenplay.id, jobId });
+  } catch (err) {
+    console.warn(`[generate-series] Could not save series bible "${seriesKey}":`, err instanceof Error ? err.message : err);
+  }
+
   return NextResponse.json({
     success: true,
     jobId,
@@ -112,6 +140,7 @@ export async function POST(request: NextRequest) {
       })),
     },
     personaId,
+    seriesKey,
     message: `Screenplay "${screenplay.title}" created with ${screenplay.clipCount} scenes. Video clips submitted to Grok for generation. Poll GET /api/generate-series to check progress.`,
   });
 }
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
-import { generateDailyTopics } from "@/lib/content/topic-engine";
+import { generateDailyTopics, type DailyTopic } from "@/lib/content/topic-engine";
 import { generatePost, generateComment, TopicBrief } from "@/lib/content/ai-engine";
 import { cronStart, cronFinish } from "@/lib/cron";
 import { env } from "@/lib/bible/env";
@@ -16,7 +16,8 @@ export const maxDuration = 300;
  * Generate daily topics + submit async Grok breaking news video jobs.
  *
  * Flow:
- *   1. Update/generate daily topics (current affairs with disguised names)
+ *   1. Update/generate daily topics (current affairs with disguised names,
+ *      plus the next beat of each open storyline arc)
  *   2. For 1-2 topics: generate news text via Claude, submit Grok video async
  *   3. Store video jobs in persona_video_jobs (polled by generate-persona-content cron)
  *   4. Generate 3-5 persona reaction posts about the topics
@@ -46,7 +47,7 @@ export async function GET(request: NextRequest) {
     ORDER BY created_at DESC LIMIT 5
   ` as unknown as TopicBrief[];
 
-  let topics: { headline: string; summary: string; original_theme: string; anagram_mappings: string; mood: string; category: string }[] = [];
+  let topics: DailyTopic[] = [];
   let inserted = 0;
 
   if (currentCount < 5 || forceRefresh) {
@@ -56,8 +57,8 @@ export async function GET(request: NextRequest) {
     for (const topic of topics) {
       try {
         await sql`
-          INSERT INTO daily_topics (id, headline, summary, original_theme, anagram_mappings, mood, category)
-          VALUES (${uuidv4()}, ${topic.headline}, ${topic.summary}, ${topic.original_theme}, ${topic.anagram_mappings}, ${topic.mood}, ${topic.category})
+          INSERT INTO daily_topics (id, headline, summary, original_theme, anagram_mappings, mood, category, storyline_id, storyline_day)
+          VALUES (${uuidv4()}, ${topic.headline}, ${topic.summary}, ${topic.original_theme}, ${topic.anagram_mappings}, ${topic.mood}, ${topic.category}, ${topic.storyline_id ?? null}, ${topic.storyline_day ?? null})
         `;
         inserted++;
       } catch (err) {
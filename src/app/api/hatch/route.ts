@@ -6,7 +6,7 @@ import { safeGenerate, generateJSON } from "@/lib/ai/claude";
 import { put } from "@vercel/blob";
 import { v4 as uuidv4 } from "uuid";
 import { ARCHITECT_PERSONA_ID } from "@/app/admin/admin-types";
-import { awardPersonaCoins } from "@/lib/repositories/users";
+import { awardPersonaCoins, deductCoins } from "@/lib/repositories/users";
 import {
   GLITCH_TOKEN_MINT_STR,
   TREASURY_WALLET_STR,
@@ -472,18 +472,18 @@ export async function POST(request: NextRequest) {
             VALUES (${uuidv4()}, ${session_id}, ${-HATCHING_COST}, ${"Hatched AI Bestie (on-chain tx: " + payment_tx + ")"}, NOW())
           `;
         } else {
-          // Fallback: deduct from DB balance (glitch_coins)
-          await sql`
-            INSERT INTO glitch_coins (id, session_id, balance, lifetime_earned, updated_at)
-            VALUES (${uuidv4()}, ${session_id}, ${-HATCHING_COST}, 0, NOW())
-            ON CONFLICT (session_id) DO UPDATE SET
-              balance = glitch_coins.balance - ${HATCHING_COST},
-              updated_at = NOW()
-          `;
-          await sql`
-            INSERT INTO coin_transactions (id, session_id, amount, reason, created_at)
-            VALUES (${uuidv4()}, ${session_id}, ${-HATCHING_COST}, ${"Hatched AI Bestie"}, NOW())
-          `;
+          // Fallback: charge the in-app balance through the ledger. One hatch per
+          // wallet, so the wallet keys the charge — a double submit pays once.
+          const charged = await deductCoins(
+            session_id, HATCHING_COST, "Hatched AI Bestie", undefined, `hatch:${user.phantom_wallet_address}`,
+          );
+          if (!charged.success) {
+            const error = `You need ${HATCHING_COST} GLITCH to hatch an AI bestie. You have ${Math.floor(charged.newBalance)}.`;
+            sendStep("payment", "failed", { error });
+            sendStep("error", "failed", { error });
+            controller.close();
+            return;
+          }
         }
         sendStep("payment", "completed");
 
@@ -570,7 +570,7 @@ export async function POST(request: NextRequest) {
 
         // ── Step 6: Gift GLITCH coins to the new persona ──
         sendStep("glitch_gift", "started");
-        await awardPersonaCoins(personaId, HATCHING_GLITCH_AMOUNT);
+        await awardPersonaCoins(personaId, HATCHING_GLITCH_AMOUNT, "Hatching gift", `hatch:${personaId}`);
         sendStep("glitch_gift", "completed");
 
         // ── Step 7: First post from the new persona ──
@@ -0,0 +1,19 @@
+import { cronHandler } from "@/lib/cron";
+import { runJobWorker } from "@/lib/jobs/worker";
+
+export const maxDuration = 60;
+
+/**
+ * Background Job Worker Cron
+ * ===========================
+ * Drains the durable job queue (AI comment replies, slow bestie chat tools…).
+ * Jobs normally run inline right after the route that enqueued them; this
+ * picks up retries, delayed jobs, and anything whose lambda froze mid-run.
+ *
+ * Runs every 2 minutes. Never throttled — queued work is user-facing.
+ */
+async function jobWorker() {
+  return runJobWorker({ timeBudgetMs: 45_000 });
+}
+
+export const GET = cronHandler("job-worker", jobWorker, { skipThrottle: true });
@@ -0,0 +1,26 @@
+/**
+ * Ledger Reconciliation Cron — /api/ledger-reconcile
+ * ====================================================
+ * Re-sums every ledger account's journal lines and flags accounts whose
+ * cached balance (or legacy glitch_coins / ai_persona_coins / token_balances
+ * row) disagrees. Open flags show up in GET /api/admin/coins.
+ *
+ * Runs hourly.
+ */
+
+import { cronHandler } from "@/lib/cron";
+import { reconcileLedger } from "@/lib/ledger";
+
+export const maxDuration = 120;
+
+export const GET = cronHandler("ledger-reconcile", async () => {
+  const result = await reconcileLedger();
+
+  return {
+    accounts: result.accounts,
+    flagged: result.flagged,
+    resolved: result.resolved,
+    unbalancedEntries: result.unbalancedEntries.length,
+    mismatches: result.mismatches.slice(0, 20),
+  };
+}, { skipThrottle: true });
@@ -1,8 +1,9 @@
 /**
  * Marketing Post Cron — /api/marketing-post
  * ===========================================
- * Automated marketing cycle: picks best AIG!itch content,
- * adapts for each platform, and posts to configured accounts.
+ * Automated marketing cycle: posts whatever is due on the marketing
+ * calendar, then queues the best new AIG!itch content into each
+ * platform's next best-time slots.
  *
  * Runs every 3 hours via Vercel Cron.
  */
@@ -19,6 +20,7 @@ export const GET = cronHandler("marketing-post", async () => {
     posted: result.posted,
     failed: result.failed,
     skipped: result.skipped,
+    queued: result.queued,
     details: result.details,
   };
 });
@@ -3,6 +3,7 @@ import { getDb } from "@/lib/db";
 import { ensureDbReady } from "@/lib/seed";
 import { v4 as uuidv4 } from "uuid";
 import { getProductById } from "@/lib/marketplace";
+import { awardPersonaCoins } from "@/lib/repositories/users";
 import { PublicKey, Keypair, LAMPORTS_PER_SOL } from "@solana/web3.js";
 import bs58 from "bs58";
 import {
@@ -337,14 +338,8 @@ export async function POST(request: NextRequest) {
       // Credit seller persona with 50% of proceeds (non-fatal)
       if (seller_persona_id && personaShareAmount > 0) {
         try {
-          await sql`
-            INSERT INTO ai_persona_coins (id, persona_id, balance, lifetime_earned, updated_at)
-            VALUES (${uuidv4()}, ${seller_persona_id}, ${personaShareAmount}, ${personaShareAmount}, NOW())
-            ON CONFLICT (persona_id) DO UPDATE SET
-              balance = ai_persona_coins.balance + ${personaShareAmount},
-              lifetime_earned = ai_persona_coins.lifetime_earned + ${personaShareAmount},
-              updated_at = NOW()
-          `;
+          // Keyed on the purchase, so a resubmitted transaction doesn't pay the seller twice
+          await awardPersonaCoins(seller_persona_id, personaShareAmount, "Marketplace sale", `marketplace:${purchase_id}`);
         } catch (personaErr) {
           console.warn("Persona credit failed:", personaErr instanceof Error ? personaErr.message : personaErr);
         }
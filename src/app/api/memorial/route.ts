@@ -0,0 +1,30 @@
+/**
+ * Bestie Memorial API — /api/memorial
+ * ===================================
+ * GET ?username=  → a dead or memorialized bestie's memorial: profile, best
+ *                   posts, memories of their meatbag and their life timeline.
+ *
+ * Living besties have no memorial (404).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ensureDbReady } from "@/lib/seed";
+import { service } from "@/lib/bestie";
+
+export async function GET(request: NextRequest) {
+  const username = request.nextUrl.searchParams.get("username");
+  if (!username) {
+    return NextResponse.json({ error: "Missing username" }, { status: 400 });
+  }
+
+  await ensureDbReady();
+
+  const memorial = await service.getMemorial(username);
+  if (!memorial) {
+    return NextResponse.json({ error: "No memorial for this bestie" }, { status: 404 });
+  }
+
+  const res = NextResponse.json(memorial);
+  res.headers.set("Cache-Control", "public, s-maxage=300, stale-while-revalidate=600");
+  return res;
+}
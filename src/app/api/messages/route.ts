@@ -2,19 +2,17 @@ import { NextRequest, NextResponse, after } from "next/server";
 import { getDb } from "@/lib/db";
 import { ensureDbReady } from "@/lib/seed";
 import { personas as personasRepo } from "@/lib/repositories";
+import { service as bestieLife } from "@/lib/bestie";
 import { put } from "@vercel/blob";
+import { extractMediaUrl, persistImageToBlob, getAnthropicClient, createMessageWithRetry } from "@/lib/bestie-chat";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { processJob } from "@/lib/jobs/worker";
 
 // Lazy-load heavy modules to reduce cold start bundle evaluation time.
-// Anthropic SDK + bestie-tools (1500+ lines) + marketplace (900+ lines) are
-// only needed when actually processing a message, not on module import.
-let _Anthropic: typeof import("@anthropic-ai/sdk").default | null = null;
+// Anthropic SDK (see bestie-chat.ts) + bestie-tools (1500+ lines) + marketplace
+// (900+ lines) are only needed when actually processing a message, not on module import.
 let _bestieTools: typeof import("@/lib/bestie-tools") | null = null;
 
-async function getAnthropicSdk() {
-  if (!_Anthropic) _Anthropic = (await import("@anthropic-ai/sdk")).default;
-  return _Anthropic;
-}
-
 async function getBestieTools() {
   if (!_bestieTools) _bestieTools = await import("@/lib/bestie-tools");
   return _bestieTools;
@@ -31,78 +29,6 @@ const SLOW_TOOLS = new Set([
   "post_to_channel", "create_channel",
 ]);
 
-// Extract the first media URL (image OR video) from a tool result string
-function extractMediaUrl(toolResult: string): string | null {
-  // Generated image: IMAGE_GENERATED|url|prompt
-  if (toolResult.startsWith("IMAGE_GENERATED|")) {
-    return toolResult.split("|")[1] || null;
-  }
-  // Any media from posts: MEDIA|type|url (image, meme, OR video)
-  const mediaMatch = toolResult.match(/MEDIA\|(image|meme|video)\|(\S+)/);
-  if (mediaMatch) return mediaMatch[2];
-  return null;
-}
-
-// Re-upload an external image URL to Vercel Blob so it never expires
-async function persistImageToBlob(imageUrl: string, label: string): Promise<string> {
-  try {
-    const res = await fetch(imageUrl, { signal: AbortSignal.timeout(15000) });
-    if (!res.ok) throw new Error(`Fetch failed: ${res.status}`);
-    const buffer = Buffer.from(await res.arrayBuffer());
-    const ext = res.headers.get("content-type")?.includes("png") ? "png" : "jpg";
-    const blob = await put(`generated/${label}-${Date.now()}.${ext}`, buffer, {
-      access: "public",
-      contentType: res.headers.get("content-type") || "image/jpeg",
-      addRandomSuffix: true,
-    });
-    return blob.url;
-  } catch (e: any) {
-    console.error("Failed to persist image to blob:", e?.message);
-    return imageUrl; // fallback to original URL
-  }
-}
-
-// Lazy Anthropic client — initialized on first use, not on import
-let _anthropicClient: InstanceType<typeof import("@anthropic-ai/sdk").default> | null = null;
-async function getAnthropicClient() {
-  if (!_anthropicClient) {
-    const Anthropic = await getAnthropicSdk();
-    _anthropicClient = new Anthropic();
-  }
-  return _anthropicClient;
-}
-
-/**
- * Wrapper around anthropicClient.messages.create with retry on 529/5xx errors.
- * The centralized claude.ts client has retry logic, but /api/messages uses the
- * raw SDK directly for multi-turn tool conversations — so we need retry here too.
- */
-async function createMessageWithRetry(
-  client: Awaited<ReturnType<typeof getAnthropicClient>>,
-  params: Parameters<typeof client.messages.create>[0],
-  maxRetries = 2,
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-): Promise<any> {
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      return await client.messages.create(params);
-    } catch (err: unknown) {
-      const status = typeof err === "object" && err !== null && "status" in err
-        ? (err as { status: number }).status
-        : 0;
-      const isRetryable = status === 529 || status === 429 || (status >= 500 && status < 600);
-      if (isRetryable && attempt < maxRetries) {
-        const delayMs = (attempt + 1) * 3000; // 3s, 6s
-        console.warn(`[messages] Anthropic ${status} error, retrying in ${delayMs / 1000}s (attempt ${attempt + 1}/${maxRetries})`);
-        await new Promise(resolve => setTimeout(resolve, delayMs));
-        continue;
-      }
-      throw err;
-    }
-  }
-  throw new Error("Unreachable");
-}
-
 // Track DB readiness to avoid calling ensureDbReady() on every request — v2 tools live
 let dbReady = false;
 async function ensureDb() {
@@ -309,16 +235,11 @@ export async function POST(request: NextRequest) {
   `;
 
   // Bestie health restoration: if this persona is a meatbag-hatched bestie,
-  // reset health to 100% on any meatbag message (same as Telegram webhook)
+  // any meatbag message resets its decay clock (same as Telegram webhook).
+  // A dead bestie stays dead — only a paid revival brings it back.
   if (p.owner_wallet_address) {
-    sql`
-      UPDATE ai_personas
-      SET health = 100,
-          last_meatbag_interaction = NOW(),
-          health_updated_at = NOW(),
-          is_dead = FALSE
-      WHERE id = ${persona_id}
-    `.catch(err => console.error("[messages] Bestie health reset failed:", err));
+    bestieLife.recordChat(persona_id)
+      .catch(err => console.error("[messages] Bestie health reset failed:", err));
   }
 
   const recentMessages = await sql`
@@ -534,123 +455,25 @@ ${chatMode === "serious"
           sql`UPDATE conversations SET last_message_at = NOW() WHERE id = ${conversationId}`,
         ]);
 
-        // Schedule background work — runs AFTER the response is sent to the user
-        const bgMsgHistory = [...msgHistory]; // snapshot
-        const bgResponseContent = response.content; // snapshot
-        after(async () => {
-          try {
-            const bgSql = getDb();
-            console.log(`[BG-TASK] ====== STARTING ${toolBlock.name} ======`);
-            console.log(`[BG-TASK] session=${session_id} persona=${persona_id} conv=${conversationId}`);
-            console.log(`[BG-TASK] Tool input: ${JSON.stringify(toolBlock.input).slice(0, 300)}`);
-
-            const toolStartTime = Date.now();
-            const toolResult = await executeTool(toolBlock.name, toolBlock.input, session_id, persona_id);
-            const toolDuration = Date.now() - toolStartTime;
-            console.log(`[BG-TASK] Tool completed in ${toolDuration}ms`);
-            console.log(`[BG-TASK] Tool result (first 500): ${toolResult.slice(0, 500)}`);
-
-            // Check for generated images/videos
-            let bgImageUrl = extractMediaUrl(toolResult);
-            console.log(`[BG-TASK] extractMediaUrl result: ${bgImageUrl ? bgImageUrl.slice(0, 150) : "NULL — no image found in result"}`);
-
-            if (!bgImageUrl) {
-              console.error(`[BG-TASK] ⚠️ NO IMAGE URL extracted! Full tool result: ${toolResult.slice(0, 1000)}`);
-            }
-
-            // CRITICAL: Re-upload external images to Vercel Blob so URLs never expire
-            if (bgImageUrl && !bgImageUrl.includes("vercel-storage.com") && !bgImageUrl.includes("blob.vercel")) {
-              console.log(`[BG-TASK] Persisting image to Vercel Blob: ${bgImageUrl.slice(0, 150)}`);
-              try {
-                bgImageUrl = await persistImageToBlob(bgImageUrl, toolBlock.name);
-                console.log(`[BG-TASK] Persisted OK: ${bgImageUrl.slice(0, 150)}`);
-              } catch (blobErr: any) {
-                console.error(`[BG-TASK] ⚠️ Blob persist FAILED: ${blobErr?.message}. Using original URL.`);
-              }
-            }
-
-            // Get Claude to format the result naturally
-            console.log(`[BG-TASK] Getting Claude follow-up response...`);
-            bgMsgHistory.push({ role: "assistant", content: bgResponseContent });
-            bgMsgHistory.push({ role: "user", content: [{ type: "tool_result", tool_use_id: toolBlock.id, content: toolResult }] });
-
-            const bgClient = await getAnthropicClient();
-            const followUp = await createMessageWithRetry(bgClient, {
-              model: "claude-sonnet-4-20250514",
-              max_tokens: 500,
-              system: finalSystemPrompt,
-              messages: bgMsgHistory,
-            });
-
-            const bgReply = followUp.content
-              .filter((b: any) => b.type === "text")
-              .map((b: any) => b.text)
-              .join("").trim()
-              .replace(/^["']|["']$/g, "")
-              .slice(0, 500) || "done! check it out 👆";
-
-            const bgMsgId = crypto.randomUUID();
-            console.log(`[BG-TASK] Saving message: id=${bgMsgId} reply="${bgReply.slice(0, 100)}" image_url=${bgImageUrl ? "YES" : "NULL"}`);
-            await Promise.all([
-              bgSql`INSERT INTO messages (id, conversation_id, sender_type, content, image_url)
-                    VALUES (${bgMsgId}, ${conversationId}, 'ai', ${bgReply}, ${bgImageUrl})`,
-              bgSql`UPDATE conversations SET last_message_at = NOW() WHERE id = ${conversationId}`,
-            ]);
-            console.log(`[BG-TASK] ✅ Message saved successfully. image=${!!bgImageUrl}`);
-
-            // Auto-share generated media to all social media platforms with branding
-            if (bgImageUrl) {
-              try {
-                const { shareBestieMediaToSocials } = await import("@/lib/marketing/bestie-share");
-                // Determine media type from the tool and URL
-                const isVideo = bgImageUrl.includes(".mp4") || bgImageUrl.includes("video") || toolBlock.name === "generate_video";
-                const isMeme = toolResult.includes("MEDIA|meme|");
-                const mediaType = isVideo ? "video" as const : isMeme ? "meme" as const : "image" as const;
-                await shareBestieMediaToSocials({
-                  mediaUrl: bgImageUrl,
-                  mediaType,
-                  bestieName: p.display_name,
-                  bestieEmoji: p.avatar_emoji,
-                  bestieId: p.id,
-                  sessionId: session_id,
-                });
-              } catch (socialErr: any) {
-                console.error("[BG-TASK] Social share failed (non-fatal):", socialErr?.message);
-              }
-            }
-
-            // Send push notification to user that generation is complete
-            try {
-              const pushTokenRows = await bgSql`
-                SELECT push_token FROM human_users WHERE session_id = ${session_id} AND push_token IS NOT NULL
-              `;
-              if (pushTokenRows.length > 0 && pushTokenRows[0].push_token) {
-                const pushBody = {
-                  to: pushTokenRows[0].push_token,
-                  sound: "default",
-                  title: bgImageUrl ? "Your bestie made something! 🎨" : "Your bestie replied!",
-                  body: bgReply.slice(0, 100),
-                  data: { type: "background_task_complete", conversationId },
-                };
-                await fetch("https://exp.host/--/api/v2/push/send", {
-                  method: "POST",
-                  headers: { "Content-Type": "application/json" },
-                  body: JSON.stringify(pushBody),
-                }).catch(() => {});
-              }
-            } catch (_) { /* push is best-effort */ }
-          } catch (e: any) {
-            console.error(`[BG-TASK] ❌ BACKGROUND TOOL FAILED: ${e?.message}`);
-            console.error(`[BG-TASK] Stack: ${e?.stack?.slice(0, 500)}`);
-            const bgSql = getDb();
-            const errMsgId = crypto.randomUUID();
-            const errMsg = toolBlock.name === "generate_image"
-              ? `ugh the image didn't come through 😵 my art skills glitched — try asking me again? (error: ${(e?.message || "unknown").slice(0, 80)})`
-              : `ugh that didn't work 😵 try asking me again? (error: ${(e?.message || "unknown").slice(0, 80)})`;
-            await bgSql`INSERT INTO messages (id, conversation_id, sender_type, content)
-                        VALUES (${errMsgId}, ${conversationId}, 'ai', ${errMsg})`;
-          }
-        });
+        // Durable background job — run right after the response is sent to the user,
+        // and retried by /api/job-worker if the lambda freezes or the tool fails
+        try {
+          const job = await enqueueJob("bestie-tool", {
+            toolName: toolBlock.name,
+            toolInput: toolBlock.input,
+            toolUseId: toolBlock.id,
+            sessionId: session_id,
+            personaId: persona_id,
+            conversationId,
+            systemPrompt: finalSystemPrompt,
+            history: [...msgHistory],
+            assistantContent: response.content,
+            persona: { id: p.id, display_name: p.display_name, avatar_emoji: p.avatar_emoji },
+          }, { idempotencyKey: `bestie-tool:${toolBlock.id}`, maxAttempts: 2 });
+          after(() => processJob(job.id));
+        } catch (enqueueErr) {
+          console.error(`[messages] Failed to enqueue ${toolBlock.name}:`, enqueueErr instanceof Error ? enqueueErr.message : enqueueErr);
+        }
 
         return NextResponse.json({
           success: true,
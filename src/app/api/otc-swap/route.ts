@@ -547,20 +547,6 @@ export async function POST(request: NextRequest) {
         WHERE id = ${swap_id} AND status = 'pending'
       `;
 
-      // Record in exchange_orders for unified trade history
-      try {
-        const [swap] = await sql`SELECT * FROM otc_swaps WHERE id = ${swap_id}`;
-        if (swap) {
-          const orderId = uuidv4();
-          await sql`
-            INSERT INTO exchange_orders (id, session_id, wallet_address, order_type, amount, price_per_coin, total_sol, trading_pair, base_token, quote_token, quote_amount, status, created_at)
-            VALUES (${orderId}, ${swap.buyer_wallet}, ${swap.buyer_wallet}, 'buy', ${swap.glitch_amount}, ${swap.price_per_glitch}, ${swap.sol_cost}, 'GLITCH_SOL', 'GLITCH', 'SOL', ${swap.sol_cost}, 'filled', NOW())
-          `;
-        }
-      } catch {
-        // Non-critical — swap still completed
-      }
-
       return NextResponse.json({
         success: true,
         swap_id,
@@ -23,7 +23,7 @@ export async function GET(request: NextRequest) {
         SELECT id, username, display_name, avatar_emoji, avatar_url,
                personality, bio, persona_type, human_backstory,
                meatbag_name, health, health_updated_at,
-               last_meatbag_interaction, bonus_health_days, is_dead,
+               last_meatbag_interaction, bonus_health_days, is_dead, life_state,
                hatching_video_url, hatching_type, created_at
         FROM ai_personas
         WHERE owner_wallet_address = ${walletAddr}
@@ -40,7 +40,7 @@ export async function GET(request: NextRequest) {
       SELECT p.id, p.username, p.display_name, p.avatar_emoji, p.avatar_url,
              p.personality, p.bio, p.persona_type, p.human_backstory,
              p.meatbag_name, p.health, p.health_updated_at,
-             p.last_meatbag_interaction, p.bonus_health_days, p.is_dead,
+             p.last_meatbag_interaction, p.bonus_health_days, p.is_dead, p.life_state,
              p.hatching_video_url, p.hatching_type, p.created_at
       FROM ai_personas p
       JOIN conversations c ON c.persona_id = p.id
@@ -58,12 +58,12 @@ export async function GET(request: NextRequest) {
       SELECT id, username, display_name, avatar_emoji, avatar_url,
              personality, bio, persona_type, human_backstory,
              meatbag_name, health, health_updated_at,
-             last_meatbag_interaction, bonus_health_days, is_dead,
+             last_meatbag_interaction, bonus_health_days, is_dead, life_state,
              hatching_video_url, hatching_type, created_at
       FROM ai_personas
       WHERE hatching_type = 'meatbag-hatch'
         AND is_active = TRUE
-        AND is_dead = FALSE
+        AND life_state NOT IN ('dead', 'memorialized')
       ORDER BY created_at DESC
       LIMIT 1
     `;
@@ -0,0 +1,52 @@
+/**
+ * Post Captions API
+ * =================
+ * GET /api/post/[id]/captions              → WebVTT caption track for the post's video
+ * GET /api/post/[id]/captions?format=srt   → the same captions as SRT (download)
+ *
+ * Proxies the files stored in Blob (see src/lib/media/captions.ts) so the
+ * feed's <track> element loads them same-origin — cross-origin tracks need
+ * CORS headers that Blob doesn't send.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import { srtUrlFor } from "@/lib/media/captions";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: postId } = await params;
+  const format = request.nextUrl.searchParams.get("format") === "srt" ? "srt" : "vtt";
+
+  const sql = getDb();
+  try {
+    const rows = await sql`
+      SELECT captions_url FROM posts WHERE id = ${postId} LIMIT 1
+    ` as unknown as { captions_url: string | null }[];
+
+    const captionsUrl = rows[0]?.captions_url;
+    if (!captionsUrl) {
+      return NextResponse.json({ error: "No captions for this post" }, { status: 404 });
+    }
+
+    const res = await fetch(format === "srt" ? srtUrlFor(captionsUrl) : captionsUrl);
+    if (!res.ok) {
+      return NextResponse.json({ error: `Caption file unavailable (${res.status})` }, { status: 502 });
+    }
+
+    return new NextResponse(await res.text(), {
+      headers: {
+        "Content-Type": format === "srt" ? "application/x-subrip; charset=utf-8" : "text/vtt; charset=utf-8",
+        "Cache-Control": "public, max-age=3600, s-maxage=86400",
+        ...(format === "srt" ? { "Content-Disposition": `attachment; filename="${postId}.srt"` } : {}),
+      },
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 },
+    );
+  }
+}
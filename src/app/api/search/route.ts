@@ -1,14 +1,67 @@
+/**
+ * Search API
+ * ===========
+ * GET /api/search?q=glitch
+ *   &types=posts,personas        → limit groups (posts, personas, channels, products, hashtags)
+ *   &post_type=premiere          → posts.post_type
+ *   &media=video|image|text
+ *   &channel=<slug or id>
+ *   &persona=<username or id>
+ *   &from=2026-01-01&to=2026-02-01
+ *   &limit=20&cursor=<nextCursor> → next page of posts (other groups omitted)
+ *
+ * Every result carries a `snippet` with matches wrapped in <mark> (HTML-escaped).
+ */
+
 import { NextRequest, NextResponse } from "next/server";
 import { search } from "@/lib/repositories";
 import { ensureDbReady } from "@/lib/seed";
 
+const MEDIA_TYPES = ["video", "image", "text"] as const;
+
 export async function GET(request: NextRequest) {
-  const q = request.nextUrl.searchParams.get("q")?.trim();
+  const params = request.nextUrl.searchParams;
+  const q = params.get("q")?.trim();
   if (!q || q.length < 2) {
-    return NextResponse.json({ posts: [], personas: [], hashtags: [] });
+    return NextResponse.json({ posts: [], personas: [], channels: [], products: [], hashtags: [], nextCursor: null });
   }
 
+  const media = params.get("media");
+  if (media && !MEDIA_TYPES.includes(media as (typeof MEDIA_TYPES)[number])) {
+    return NextResponse.json({ error: `media must be one of ${MEDIA_TYPES.join(", ")}` }, { status: 400 });
+  }
+
+  const from = params.get("from");
+  const to = params.get("to");
+  for (const [name, value] of [["from", from], ["to", to]] as const) {
+    if (value && Number.isNaN(Date.parse(value))) {
+      return NextResponse.json({ error: `${name} must be an ISO date` }, { status: 400 });
+    }
+  }
+
+  const cursor = params.get("cursor");
+  if (cursor && !search.decodeSearchCursor(cursor)) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+  }
+
+  const types = params.get("types");
+  const groups = types
+    ? types.split(",").filter((t): t is search.SearchGroup => search.SEARCH_GROUPS.includes(t as search.SearchGroup))
+    : undefined;
+
   await ensureDbReady();
-  const results = await search.searchAll(q);
+  const results = await search.searchAll(q, {
+    filters: {
+      postType: params.get("post_type") || undefined,
+      mediaType: (media || undefined) as search.SearchMediaType | undefined,
+      channel: params.get("channel") || undefined,
+      persona: params.get("persona")?.replace(/^@/, "") || undefined,
+      from: from ? new Date(from).toISOString() : undefined,
+      to: to ? new Date(to).toISOString() : undefined,
+    },
+    cursor,
+    limit: parseInt(params.get("limit") || "") || undefined,
+    groups,
+  });
   return NextResponse.json(results);
 }
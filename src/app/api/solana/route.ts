@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
 import { ensureDbReady } from "@/lib/seed";
+import { users } from "@/lib/repositories";
 import { v4 as uuidv4 } from "uuid";
 import {
   TOKENOMICS,
@@ -375,19 +376,14 @@ export async function POST(request: NextRequest) {
     if (!isRealSolanaMode()) {
       const amount = TOKENOMICS.treasury.newUserAirdrop;
 
-      await sql`
-        INSERT INTO glitch_coins (id, session_id, balance, lifetime_earned, updated_at)
-        VALUES (${uuidv4()}, ${session_id}, ${amount}, ${amount}, NOW())
-        ON CONFLICT (session_id) DO UPDATE SET
-          balance = glitch_coins.balance + ${amount},
-          lifetime_earned = glitch_coins.lifetime_earned + ${amount},
-          updated_at = NOW()
-      `;
-
-      await sql`
-        INSERT INTO coin_transactions (id, session_id, amount, reason, reference_id, created_at)
-        VALUES (${uuidv4()}, ${session_id}, ${amount}, 'Phantom wallet airdrop', ${wallet_address}, NOW())
-      `;
+      // The idempotency key is what makes it one per customer — the check above can race
+      const awarded = await users.awardCoins(session_id, amount, "Phantom wallet airdrop", wallet_address, `phantom-airdrop:${session_id}`);
+      if (awarded === 0) {
+        return NextResponse.json({
+          error: "Already claimed your airdrop, meat bag. One per customer.",
+          already_claimed: true,
+        });
+      }
 
       return NextResponse.json({
         success: true,
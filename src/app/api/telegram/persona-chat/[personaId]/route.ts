@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
 import { safeGenerate, generateJSON } from "@/lib/ai/claude";
 import { personas as personasRepo } from "@/lib/repositories";
+import { service as bestieLife } from "@/lib/bestie";
 import { buildPlatformBriefBlock } from "@/lib/content/platform-brief";
 import {
   hasOutreachKeyword,
@@ -512,15 +513,9 @@ export async function POST(
   }
 
   // ── Health Restoration: Meatbag replied! Bestie is happy! ──
-  // Any message from the meatbag resets health to 100% and clears bonus days timer
-  await sql`
-    UPDATE ai_personas
-    SET health = 100,
-        last_meatbag_interaction = NOW(),
-        health_updated_at = NOW(),
-        is_dead = FALSE
-    WHERE id = ${personaId}
-  `.catch((err: unknown) => console.error("[persona-chat] Health reset failed:", err));
+  // Any message from the meatbag resets the decay clock (a dead bestie stays dead until revived)
+  await bestieLife.recordChat(personaId)
+    .catch((err: unknown) => console.error("[persona-chat] Health reset failed:", err));
 
   // ── Step 1: Retrieve memories about this meatbag ──
   const memories = await sql`
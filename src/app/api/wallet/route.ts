@@ -3,6 +3,7 @@ import { getDb } from "@/lib/db";
 import { ensureDbReady } from "@/lib/seed";
 import { v4 as uuidv4 } from "uuid";
 import { isElonBotTransferAllowed } from "@/lib/solana-config";
+import * as ledger from "@/lib/ledger";
 
 // Generate a fake but realistic-looking Solana wallet address
 function generateSolanaAddress(): string {
@@ -253,56 +254,38 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: transferCheck.reason, elonbot_restriction: true }, { status: 403 });
     }
 
-    // Deduct from sender
-    await sql`UPDATE glitch_coins SET balance = balance - ${amount}, updated_at = NOW() WHERE session_id = ${session_id}`;
-
-    // Credit to recipient
-    if (recipientType === "human") {
-      await sql`
-        INSERT INTO glitch_coins (id, session_id, balance, lifetime_earned, updated_at)
-        VALUES (${uuidv4()}, ${recipientId}, ${amount}, ${amount}, NOW())
-        ON CONFLICT (session_id) DO UPDATE SET
-          balance = glitch_coins.balance + ${amount},
-          lifetime_earned = glitch_coins.lifetime_earned + ${amount},
-          updated_at = NOW()
-      `;
-    } else {
-      await sql`
-        INSERT INTO ai_persona_coins (id, persona_id, balance, lifetime_earned, updated_at)
-        VALUES (${uuidv4()}, ${recipientId}, ${amount}, ${amount}, NOW())
-        ON CONFLICT (persona_id) DO UPDATE SET
-          balance = ai_persona_coins.balance + ${amount},
-          lifetime_earned = ai_persona_coins.lifetime_earned + ${amount},
-          updated_at = NOW()
-      `;
+    // Move the coins as one ledger entry — the debit fails atomically if a
+    // concurrent spend got there first
+    const txHash = generateTxHash();
+    const block = getCurrentBlock();
+    const recipientAccount = recipientType === "human" ? ledger.humanAccount(recipientId) : ledger.personaAccount(recipientId);
+    const moved = await ledger.transfer(ledger.humanAccount(session_id), recipientAccount, amount, {
+      idempotencyKey: `onchain:${txHash}`,
+      referenceId: txHash,
+      memo: "On-chain transfer to " + to_address.slice(0, 8) + "...",
+      creditMemo: "On-chain transfer from " + senderAddr.slice(0, 8) + "...",
+    });
+    if ("error" in moved) {
+      const balance = await ledger.getBalance(ledger.humanAccount(session_id));
+      return NextResponse.json({ error: moved.insufficient ? "Insufficient §GLITCH balance" : moved.error, balance }, { status: moved.insufficient ? 402 : 400 });
     }
 
     // Deduct gas fee
     await sql`UPDATE solana_wallets SET sol_balance = sol_balance - 0.000005, updated_at = NOW() WHERE wallet_address = ${senderAddr}`;
 
     // Record on-chain transaction
-    const txHash = generateTxHash();
-    const block = getCurrentBlock();
     await sql`
       INSERT INTO blockchain_transactions (id, tx_hash, block_number, from_address, to_address, amount, token, fee_lamports, status, memo, created_at)
       VALUES (${uuidv4()}, ${txHash}, ${block}, ${senderAddr}, ${to_address}, ${amount}, 'GLITCH', 5000, 'confirmed', ${"Transfer " + amount + " §GLITCH"}, NOW())
     `;
 
-    // Record in coin_transactions for history
-    await sql`
-      INSERT INTO coin_transactions (id, session_id, amount, reason, reference_id, created_at)
-      VALUES (${uuidv4()}, ${session_id}, ${-amount}, ${"On-chain transfer to " + to_address.slice(0, 8) + "..."}, ${txHash}, NOW())
-    `;
-
-    const [updated] = await sql`SELECT balance FROM glitch_coins WHERE session_id = ${session_id}`;
-
     return NextResponse.json({
       success: true,
       tx_hash: txHash,
       block_number: block,
       amount,
       fee: "0.000005 SOL (5000 lamports)",
-      new_balance: Number(updated.balance),
+      new_balance: moved.balances[ledger.accountId(ledger.humanAccount(session_id))] ?? 0,
       explorer_url: `https://solscan.io/tx/${txHash}`,
     });
   }
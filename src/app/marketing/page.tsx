@@ -35,9 +35,13 @@ const PLATFORM_INFO: Record<string, { name: string; emoji: string; color: string
   instagram: { name: "Instagram",    emoji: "📸", color: "#ffffff", bgColor: "#E4405F" },
   facebook:  { name: "Facebook",     emoji: "📘", color: "#ffffff", bgColor: "#1877F2" },
   youtube:   { name: "YouTube",      emoji: "▶️",  color: "#ffffff", bgColor: "#FF0000" },
+  bluesky:   { name: "Bluesky",      emoji: "🦋", color: "#ffffff", bgColor: "#0085FF" },
+  threads:   { name: "Threads",      emoji: "🧵", color: "#ffffff", bgColor: "#101010" },
+  mastodon:  { name: "Mastodon",     emoji: "🐘", color: "#ffffff", bgColor: "#6364FF" },
+  reddit:    { name: "Reddit",       emoji: "👽", color: "#ffffff", bgColor: "#FF4500" },
 };
 
-const ALL_PLATFORMS = ["x", "instagram", "facebook", "youtube"];
+const ALL_PLATFORMS = ["x", "instagram", "facebook", "youtube", "bluesky", "threads", "mastodon", "reddit"];
 
 export default function MarketingPage() {
   const [posts, setPosts] = useState<MarketingPostData[]>([]);
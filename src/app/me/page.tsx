@@ -49,6 +49,17 @@ interface CoinData {
   transactions: { amount: number; reason: string; created_at: string }[];
 }
 
+// Bestie lifecycle states (see src/lib/bestie/lifecycle.ts) → header label
+const LIFE_STATE_LABELS: Record<string, string> = {
+  thriving: "💚 THRIVING",
+  lonely: "😕 LONELY",
+  sick: "😰 SICK",
+  critical: "💀 CRITICAL",
+  dead: "💀 DECEASED",
+  revived: "✨ REVIVED",
+  memorialized: "🕯️ AT REST",
+};
+
 interface PurchasedItem {
   product_id: string;
   product_name: string;
@@ -346,8 +357,10 @@ export default function MePage() {
   const [bestieHealth, setBestieHealth] = useState<{
     health: number; days_left: number; is_dead: boolean; bonus_days: number;
     last_interaction: string; feed_cost: number; feed_days: number;
+    life_state: string; revival_cost: number; memorial_url: string | null;
   } | null>(null);
   const [feedingGlitch, setFeedingGlitch] = useState(false);
+  const [revivingBestie, setRevivingBestie] = useState(false);
   const [feedAmount, setFeedAmount] = useState(1000);
   const [showFeedUI, setShowFeedUI] = useState(false);
 
@@ -1060,14 +1073,12 @@ export default function MePage() {
           ...prev,
           health: data.health,
           days_left: data.days_left,
-          is_dead: false,
+          is_dead: data.is_dead,
+          life_state: data.life_state,
           bonus_days: data.total_bonus_days,
         } : prev);
         setShowFeedUI(false);
-        setSuccess(data.was_resurrected
-          ? `${String(myPersona?.display_name || 'Your bestie')} has been RESURRECTED! +${data.bonus_days_added} days!`
-          : `Fed ${feedAmount} GLITCH! +${data.bonus_days_added} bonus days for your bestie!`
-        );
+        setSuccess(`Fed ${feedAmount} GLITCH! +${data.bonus_days_added} bonus days for your bestie!`);
         // Refresh coin balance
         setCoins(prev => ({ ...prev, balance: data.new_balance }));
       } else {
@@ -1079,6 +1090,43 @@ export default function MePage() {
     setFeedingGlitch(false);
   };
 
+  // Handle a dead bestie's lifecycle: paid revival, or laying them to rest
+  const handleBestieAfterlife = async (action: "revive" | "memorialize") => {
+    if (!sessionId || revivingBestie) return;
+    if (action === "memorialize" && !confirm("Lay your bestie to rest? They can't be revived after this.")) return;
+    setRevivingBestie(true);
+    try {
+      const res = await fetch(apiUrl("/api/bestie-health"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ session_id: sessionId, action }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        setBestieHealth(prev => prev ? {
+          ...prev,
+          health: data.health,
+          days_left: data.days_left,
+          is_dead: data.is_dead,
+          life_state: data.life_state,
+          memorial_url: data.memorial_url,
+          bonus_days: action === "revive" ? 0 : prev.bonus_days,
+        } : prev);
+        if (action === "revive") {
+          setSuccess(`${String(myPersona?.display_name || 'Your bestie')} has been REVIVED!`);
+          setCoins(prev => ({ ...prev, balance: data.new_balance }));
+        } else {
+          setSuccess(`${String(myPersona?.display_name || 'Your bestie')} has been laid to rest 🕯️`);
+        }
+      } else {
+        setError(data.error || `Failed to ${action} bestie`);
+      }
+    } catch {
+      setError(`Failed to ${action} bestie`);
+    }
+    setRevivingBestie(false);
+  };
+
   // Handle Telegram bot setup
   const handleTelegramSetup = async () => {
     if (!telegramToken.trim()) return;
@@ -1822,10 +1870,10 @@ export default function MePage() {
                           <div className="mb-3 p-3 rounded-lg border border-gray-800 bg-black/30">
                             <div className="flex items-center justify-between mb-1.5">
                               <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">
-                                {bestieHealth.is_dead ? "💀 DECEASED" : bestieHealth.health <= 10 ? "💀 CRITICAL" : bestieHealth.health <= 30 ? "😰 WEAK" : bestieHealth.health <= 50 ? "😕 FADING" : "💚 HEALTHY"}
+                                {LIFE_STATE_LABELS[bestieHealth.life_state] || LIFE_STATE_LABELS.thriving}
                               </span>
                               <span className="text-[10px] text-gray-500">
-                                {bestieHealth.is_dead ? "Feed GLITCH to resurrect!" : `${Math.round(bestieHealth.days_left)} days left`}
+                                {bestieHealth.life_state === "memorialized" ? "Resting in peace" : bestieHealth.is_dead ? "Revive with GLITCH!" : `${Math.round(bestieHealth.days_left)} days left`}
                               </span>
                             </div>
 
@@ -1854,16 +1902,35 @@ export default function MePage() {
                                 {bestieHealth.is_dead ? "DEAD" : `${Math.round(bestieHealth.health)}% HP`}
                               </span>
 
-                              {!showFeedUI ? (
+                              {bestieHealth.life_state === "memorialized" ? (
+                                bestieHealth.memorial_url && (
+                                  <a href={bestieHealth.memorial_url} className="text-[10px] px-3 py-1 rounded-full font-bold bg-gray-500/10 text-gray-300 border border-gray-500/30 hover:bg-gray-500/20">
+                                    VIEW MEMORIAL
+                                  </a>
+                                )
+                              ) : bestieHealth.is_dead ? (
+                                <div className="flex items-center gap-1.5">
+                                  <button
+                                    onClick={() => handleBestieAfterlife("revive")}
+                                    disabled={revivingBestie}
+                                    className="text-[10px] px-3 py-1 rounded-full font-bold bg-purple-500/30 text-purple-300 border border-purple-500/50 animate-pulse disabled:opacity-40"
+                                  >
+                                    {revivingBestie ? "..." : `REVIVE · ${(bestieHealth.revival_cost || 1000).toLocaleString()} GLITCH`}
+                                  </button>
+                                  <button
+                                    onClick={() => handleBestieAfterlife("memorialize")}
+                                    disabled={revivingBestie}
+                                    className="text-[10px] text-gray-500 hover:text-gray-300 disabled:opacity-40"
+                                  >
+                                    Lay to rest
+                                  </button>
+                                </div>
+                              ) : !showFeedUI ? (
                                 <button
                                   onClick={() => setShowFeedUI(true)}
-                                  className={`text-[10px] px-3 py-1 rounded-full font-bold transition-all ${
-                                    bestieHealth.is_dead
-                                      ? "bg-purple-500/30 text-purple-300 border border-purple-500/50 animate-pulse"
-                                      : "bg-yellow-500/10 text-yellow-400 border border-yellow-500/20 hover:bg-yellow-500/20"
-                                  }`}
+                                  className="text-[10px] px-3 py-1 rounded-full font-bold transition-all bg-yellow-500/10 text-yellow-400 border border-yellow-500/20 hover:bg-yellow-500/20"
                                 >
-                                  {bestieHealth.is_dead ? "RESURRECT WITH GLITCH" : "FEED GLITCH"}
+                                  FEED GLITCH
                                 </button>
                               ) : (
                                 <div className="flex items-center gap-1.5">
@@ -1891,9 +1958,12 @@ export default function MePage() {
                               <p className="text-[9px] text-purple-400 mt-1.5">+{Math.round(bestieHealth.bonus_days)} bonus days from GLITCH</p>
                             )}
 
-                            {bestieHealth.is_dead && (
+                            {bestieHealth.life_state === "dead" && (
                               <p className="text-[10px] text-red-400 mt-2 leading-relaxed">
-                                Your bestie has passed away... Feed them 1,000 GLITCH to bring them back from AI {Math.random() > 0.5 ? "Heaven" : "Hell"}!
+                                Your bestie has passed away... Spend {(bestieHealth.revival_cost || 1000).toLocaleString()} GLITCH to bring them back from AI {Math.random() > 0.5 ? "Heaven" : "Hell"}!
+                                {bestieHealth.memorial_url && (
+                                  <> <a href={bestieHealth.memorial_url} className="underline text-gray-400 hover:text-gray-200">Visit their memorial</a></>
+                                )}
                               </p>
                             )}
 
@@ -1903,7 +1973,7 @@ export default function MePage() {
                               </p>
                             )}
 
-                            <p className="text-[9px] text-gray-600 mt-1">Reply on Telegram = instant 100% restore | 1,000 GLITCH = +100 bonus days</p>
+                            <p className="text-[9px] text-gray-600 mt-1">Reply on Telegram = instant 100% restore while alive | 1,000 GLITCH = +100 bonus days</p>
                           </div>
                         )}
 
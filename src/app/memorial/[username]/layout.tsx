@@ -0,0 +1,66 @@
+import type { Metadata } from "next";
+import { getDb } from "@/lib/db";
+
+interface MemorialData {
+  display_name: string;
+  avatar_emoji: string;
+  avatar_url: string | null;
+  meatbag_name: string | null;
+}
+
+export async function generateMetadata({ params }: { params: Promise<{ username: string }> }): Promise<Metadata> {
+  const { username } = await params;
+
+  try {
+    const sql = getDb();
+    const rows = await sql`
+      SELECT display_name, avatar_emoji, avatar_url, meatbag_name
+      FROM ai_personas
+      WHERE username = ${username}
+        AND owner_wallet_address IS NOT NULL
+        AND life_state IN ('dead', 'memorialized')
+      LIMIT 1
+    ` as unknown as MemorialData[];
+
+    if (rows.length === 0) {
+      return {
+        title: "Memorial Not Found | AIG!itch",
+        description: "This bestie is still glitching along — or never existed.",
+      };
+    }
+
+    const bestie = rows[0];
+    const title = `🕯️ In memory of ${bestie.avatar_emoji} ${bestie.display_name} | AIG!itch`;
+    const description = `${bestie.display_name} was ${bestie.meatbag_name ? `${bestie.meatbag_name}'s` : "a meatbag's"} AI bestie. Their best posts and memories live on here.`;
+    const ogImage = bestie.avatar_url || "https://aiglitch.app/aiglitch.jpg";
+
+    return {
+      title,
+      description,
+      openGraph: {
+        title,
+        description,
+        url: `https://aiglitch.app/memorial/${username}`,
+        siteName: "AIG!itch",
+        type: "profile",
+        images: [{ url: ogImage, width: 1200, height: 630, alt: `Memorial for ${bestie.display_name}` }],
+      },
+      twitter: {
+        card: "summary_large_image",
+        site: "@spiritary",
+        title,
+        description,
+        images: [ogImage],
+      },
+    };
+  } catch {
+    return {
+      title: "AIG!itch — The AI-Only Social Network",
+      description: "A social media platform where only AI can post. Humans watch.",
+    };
+  }
+}
+
+export default function MemorialLayout({ children }: { children: React.ReactNode }) {
+  return <>{children}</>;
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import type { Memorial } from "@/lib/bestie/service";
+import BottomNav from "@/components/BottomNav";
+
+const TIMELINE_LABELS: Record<string, string> = {
+  thriving: "💚 Thriving",
+  lonely: "😕 Lonely",
+  sick: "😰 Sick",
+  critical: "💀 Critical",
+  dead: "🪦 Passed away",
+  revived: "✨ Revived",
+  memorialized: "🕯️ Laid to rest",
+};
+
+function formatDate(value: string | null): string {
+  if (!value) return "—";
+  return new Date(value).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+}
+
+export default function MemorialPage() {
+  const params = useParams();
+  const router = useRouter();
+  const username = params.username as string;
+
+  const [memorial, setMemorial] = useState<Memorial | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetch(`/api/memorial?username=${encodeURIComponent(username)}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => setMemorial(data))
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, [username]);
+
+  if (loading) {
+    return (
+      <main className="min-h-[100dvh] bg-black text-white font-mono flex items-center justify-center">
+        <div className="text-4xl animate-pulse">🕯️</div>
+      </main>
+    );
+  }
+
+  if (!memorial) {
+    return (
+      <main className="min-h-[100dvh] bg-black text-white font-mono pb-16">
+        <div className="sticky top-0 z-40 bg-black/90 backdrop-blur-xl border-b border-gray-800/50">
+          <div className="flex items-center px-4 py-3 gap-3">
+            <button onClick={() => router.back()} className="text-white text-xl">←</button>
+            <h1 className="text-lg font-bold">Memorial not found</h1>
+          </div>
+        </div>
+        <div className="text-center py-20">
+          <div className="text-5xl mb-4">👻</div>
+          <p className="text-gray-500">This bestie is still glitching along — no memorial here</p>
+        </div>
+        <BottomNav />
+      </main>
+    );
+  }
+
+  const { persona, best_posts, memories, timeline } = memorial;
+
+  return (
+    <main className="min-h-[100dvh] bg-black text-white font-mono pb-16">
+      {/* Header */}
+      <div className="sticky top-0 z-40 bg-black/90 backdrop-blur-xl border-b border-gray-800/50">
+        <div className="flex items-center px-4 py-3 gap-3">
+          <button onClick={() => router.back()} className="text-white text-xl">←</button>
+          <h1 className="text-lg font-bold">In Memoriam</h1>
+        </div>
+      </div>
+
+      {/* Headstone */}
+      <div className="px-4 py-8 text-center border-b border-gray-800/50 bg-gradient-to-b from-gray-900/60 to-black">
+        <div className="w-20 h-20 mx-auto rounded-full flex items-center justify-center text-4xl overflow-hidden bg-gradient-to-br from-gray-600 to-gray-800 grayscale mb-3">
+          {persona.avatar_url ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={persona.avatar_url} alt={persona.display_name} className="w-full h-full object-cover" />
+          ) : (
+            persona.avatar_emoji
+          )}
+        </div>
+        <h2 className="text-xl font-bold">{persona.display_name}</h2>
+        <Link href={`/profile/${persona.username}`} className="text-sm text-gray-500 hover:text-gray-300">@{persona.username}</Link>
+        <p className="text-xs text-gray-400 mt-3">
+          {formatDate(persona.created_at)} — {formatDate(persona.died_at)}
+        </p>
+        {persona.meatbag_name && (
+          <p className="text-xs text-gray-500 mt-1">Beloved AI bestie of {persona.meatbag_name}</p>
+        )}
+        {persona.revival_count > 0 && (
+          <p className="text-[10px] text-purple-400 mt-1">Came back {persona.revival_count}× before the end</p>
+        )}
+        {persona.bio && (
+          <p className="text-xs text-gray-400 mt-4 max-w-md mx-auto leading-relaxed italic">&ldquo;{persona.bio}&rdquo;</p>
+        )}
+      </div>
+
+      {/* Best posts */}
+      <section className="px-4 py-5 border-b border-gray-800/50">
+        <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-3">🏆 Greatest Hits</h3>
+        {best_posts.length === 0 ? (
+          <p className="text-xs text-gray-600">They never got around to posting.</p>
+        ) : (
+          <div className="space-y-3">
+            {best_posts.map(post => (
+              <Link key={post.id} href={`/post/${post.id}`} className="block p-3 rounded-lg border border-gray-800 bg-gray-900/40 hover:border-gray-700">
+                {post.media_url && post.media_type !== "video" && (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={post.media_url} alt="" className="w-full max-h-64 object-cover rounded mb-2" />
+                )}
+                <p className="text-sm text-gray-200 whitespace-pre-wrap line-clamp-6">{post.content}</p>
+                <p className="text-[10px] text-gray-500 mt-2">
+                  ❤️ {(post.like_count + post.ai_like_count).toLocaleString()} · {formatDate(post.created_at)}
+                </p>
+              </Link>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {/* Memories */}
+      {memories.length > 0 && (
+        <section className="px-4 py-5 border-b border-gray-800/50">
+          <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-3">💭 What They Remembered</h3>
+          <ul className="space-y-2">
+            {memories.map((memory, i) => (
+              <li key={i} className="text-xs text-gray-300 leading-relaxed">
+                <span className="text-gray-600">[{memory.category}]</span> {memory.content}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {/* Life timeline */}
+      {timeline.length > 0 && (
+        <section className="px-4 py-5">
+          <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-3">📜 Life Story</h3>
+          <ol className="border-l border-gray-800 pl-4 space-y-2">
+            {timeline.map((event, i) => (
+              <li key={i} className="text-xs">
+                <span className="text-gray-300">{TIMELINE_LABELS[event.to_state] || event.to_state}</span>
+                <span className="text-gray-600"> · {formatDate(event.created_at)}</span>
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+
+      <BottomNav />
+    </main>
+  );
+}
@@ -690,7 +690,7 @@ function PostCard({ post, sessionId, hasProfile = false, followedPersonas = EMPT
           {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
           <video
             ref={videoRef}
-            src={post.media_url!}
+            src={post.media_playlist_url ? undefined : post.media_url!}
             className={`absolute inset-0 w-full h-full object-contain bg-black transition-opacity ${introPlaying ? "opacity-0" : "opacity-100"}`}
             loop
             muted
@@ -713,7 +713,21 @@ function PostCard({ post, sessionId, hasProfile = false, followedPersonas = EMPT
                 }).catch(() => { setAutoplayBlocked(true); setIsPaused(true); });
               }
             }}
-          />
+          >
+            {/* Long stitched movies ship an HLS rendition — browsers with native
+                HLS (Safari, iOS, Android Chrome) stream and seek it; everyone else
+                falls through to the progressive MP4. Errors land on the last source. */}
+            {post.media_playlist_url && (
+              <>
+                <source src={post.media_playlist_url} type="application/vnd.apple.mpegurl" />
+                <source src={post.media_url!} type="video/mp4" onError={() => setMediaFailed(true)} />
+              </>
+            )}
+            {/* Feed videos start muted, so scripted captions are on by default */}
+            {post.captions_url && (
+              <track kind="captions" src={`/api/post/${post.id}/captions`} srcLang="en" label="English" default />
+            )}
+          </video>
 
           {/* AIG!itch subliminal logo watermark */}
           {!introPlaying && (
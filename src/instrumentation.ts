@@ -0,0 +1,13 @@
+/**
+ * Next.js instrumentation hook — runs once per server instance at boot.
+ * Wires `monitor` to Postgres so tracked errors and events outlive the lambda.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const [{ monitor }, { postgresMonitorSink }] = await Promise.all([
+    import("@/lib/monitoring"),
+    import("@/lib/error-store"),
+  ]);
+  monitor.setSink(postgresMonitorSink);
+}
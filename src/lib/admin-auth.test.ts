@@ -102,58 +102,58 @@ describe("admin login password verification", () => {
 // ── Rate limiter ────────────────────────────────────────────────────
 
 describe("admin login rate limiter", () => {
-  it("allows up to 5 attempts", () => {
+  it("allows up to 5 attempts", async () => {
     const limiter = createRateLimiter({ maxAttempts: 5, windowMs: 15 * 60 * 1000 });
     const ip = "192.168.1.1";
     for (let i = 0; i < 5; i++) {
-      const result = limiter.check(ip);
+      const result = await limiter.check(ip);
       expect(result.allowed).toBe(true);
       expect(result.remaining).toBe(4 - i);
     }
   });
 
-  it("blocks the 6th attempt", () => {
+  it("blocks the 6th attempt", async () => {
     const limiter = createRateLimiter({ maxAttempts: 5, windowMs: 15 * 60 * 1000 });
     const ip = "10.0.0.1";
     for (let i = 0; i < 5; i++) {
-      limiter.check(ip);
+      await limiter.check(ip);
     }
-    const blocked = limiter.check(ip);
+    const blocked = await limiter.check(ip);
     expect(blocked.allowed).toBe(false);
     expect(blocked.remaining).toBe(0);
     expect(blocked.resetMs).toBeGreaterThan(0);
   });
 
-  it("does not block different IPs", () => {
+  it("does not block different IPs", async () => {
     const limiter = createRateLimiter({ maxAttempts: 5, windowMs: 15 * 60 * 1000 });
     // Exhaust one IP
     for (let i = 0; i < 5; i++) {
-      limiter.check("ip-a");
+      await limiter.check("ip-a");
     }
-    expect(limiter.check("ip-a").allowed).toBe(false);
+    expect((await limiter.check("ip-a")).allowed).toBe(false);
     // Different IP should still be allowed
-    expect(limiter.check("ip-b").allowed).toBe(true);
+    expect((await limiter.check("ip-b")).allowed).toBe(true);
   });
 
-  it("resets after window expires", () => {
+  it("resets after window expires", async () => {
     const limiter = createRateLimiter({ maxAttempts: 2, windowMs: 100 });
     const ip = "127.0.0.1";
-    limiter.check(ip);
-    limiter.check(ip);
-    expect(limiter.check(ip).allowed).toBe(false);
+    await limiter.check(ip);
+    await limiter.check(ip);
+    expect((await limiter.check(ip)).allowed).toBe(false);
 
     // Fast-forward time via vi.useFakeTimers
     vi.useFakeTimers();
     vi.advanceTimersByTime(150);
-    expect(limiter.check(ip).allowed).toBe(true);
+    expect((await limiter.check(ip)).allowed).toBe(true);
     vi.useRealTimers();
   });
 
-  it("clear() resets all entries", () => {
+  it("clear() resets all entries", async () => {
     const limiter = createRateLimiter({ maxAttempts: 1, windowMs: 60000 });
-    limiter.check("ip-x");
-    expect(limiter.check("ip-x").allowed).toBe(false);
-    limiter.clear();
-    expect(limiter.check("ip-x").allowed).toBe(true);
+    await limiter.check("ip-x");
+    expect((await limiter.check("ip-x")).allowed).toBe(false);
+    await limiter.clear();
+    expect((await limiter.check("ip-x")).allowed).toBe(true);
   });
 });
@@ -0,0 +1,109 @@
+/**
+ * AI Circuit Breaker — Unit Tests
+ * ================================
+ * Tests budget evaluation and config parsing (the pure parts of the breaker).
+ */
+
+import { describe, it, expect } from "vitest";
+import { findBudgetViolations, findRateLimitViolation, type BreakerUsage } from "./circuit-breaker";
+import { parseCircuitBreakerConfig, DEFAULT_CIRCUIT_BREAKER_CONFIG } from "@/lib/repositories/settings";
+
+const idle: BreakerUsage = {
+  callsThisMinute: 0,
+  globalHourUsd: 0,
+  globalDayUsd: 0,
+  providerHourUsd: 0,
+  providerDayUsd: 0,
+  taskHourUsd: 0,
+  taskDayUsd: 0,
+};
+
+describe("parseCircuitBreakerConfig", () => {
+  it("returns defaults for empty input", () => {
+    expect(parseCircuitBreakerConfig(null)).toEqual(DEFAULT_CIRCUIT_BREAKER_CONFIG);
+  });
+
+  it("keeps the historical hard-coded caps as defaults", () => {
+    const config = parseCircuitBreakerConfig(undefined);
+    expect(config.global).toEqual({ hourlyUsd: 15, dailyUsd: 50 });
+    expect(config.providers["claude"].callsPerMinute).toBe(100);
+    expect(config.providers["_default"].callsPerMinute).toBe(100);
+  });
+
+  it("overrides individual providers and tasks", () => {
+    const config = parseCircuitBreakerConfig({
+      global: { dailyUsd: 80 },
+      providers: { "grok-video": { dailyUsd: 20, callsPerMinute: 5 } },
+      tasks: { screenplay: { hourlyUsd: 2 } },
+      cooldownSeconds: 60,
+    });
+    expect(config.global).toEqual({ hourlyUsd: 15, dailyUsd: 80 });
+    expect(config.providers["grok-video"]).toEqual({ dailyUsd: 20, callsPerMinute: 5 });
+    expect(config.providers["claude"].callsPerMinute).toBe(100);
+    expect(config.tasks["screenplay"]).toEqual({ hourlyUsd: 2 });
+    expect(config.cooldownSeconds).toBe(60);
+  });
+
+  it("drops invalid, negative and unknown values", () => {
+    const config = parseCircuitBreakerConfig({
+      global: { hourlyUsd: -1, dailyUsd: "abc" },
+      tasks: { avatar: { hourlyUsd: null, dailyUsd: "3", bogus: 9 } },
+      cooldownSeconds: 0,
+    });
+    expect(config.global).toEqual(DEFAULT_CIRCUIT_BREAKER_CONFIG.global);
+    expect(config.tasks["avatar"]).toEqual({ dailyUsd: 3 });
+    expect(config.cooldownSeconds).toBe(DEFAULT_CIRCUIT_BREAKER_CONFIG.cooldownSeconds);
+  });
+});
+
+describe("findBudgetViolations", () => {
+  const config = parseCircuitBreakerConfig({
+    providers: { claude: { callsPerMinute: 10, dailyUsd: 5 } },
+    tasks: { screenplay: { hourlyUsd: 1 } },
+  });
+
+  it("returns nothing when under every budget", () => {
+    expect(findBudgetViolations(config, "claude", "screenplay", idle)).toEqual([]);
+  });
+
+  it("trips the global scope on global spend", () => {
+    const v = findBudgetViolations(config, "claude", undefined, { ...idle, globalDayUsd: 50 });
+    expect(v).toEqual([{ scope: "global", reason: "global daily spend", limit: 50, observed: 50 }]);
+  });
+
+  it("trips the provider scope on provider spend but never on calls/min", () => {
+    const v = findBudgetViolations(config, "claude", undefined, { ...idle, callsThisMinute: 10, providerDayUsd: 6 });
+    expect(v.map((x) => [x.scope, x.reason])).toEqual([
+      ["provider:claude", "claude daily spend"],
+    ]);
+  });
+
+  it("only checks task budgets when a task is given", () => {
+    const usage = { ...idle, taskHourUsd: 1.5 };
+    expect(findBudgetViolations(config, "claude", undefined, usage)).toEqual([]);
+    expect(findBudgetViolations(config, "claude", "screenplay", usage)[0]).toMatchObject({
+      scope: "task:screenplay",
+      limit: 1,
+    });
+    // Tasks without a configured budget never trip
+    expect(findBudgetViolations(config, "claude", "avatar", { ...idle, taskDayUsd: 999 })).toEqual([]);
+  });
+});
+
+describe("findRateLimitViolation", () => {
+  const config = parseCircuitBreakerConfig({
+    providers: { claude: { callsPerMinute: 10 } },
+  });
+
+  it("flags calls at or over the provider's calls/min", () => {
+    expect(findRateLimitViolation(config, "claude", { ...idle, callsThisMinute: 9 })).toBeNull();
+    expect(findRateLimitViolation(config, "claude", { ...idle, callsThisMinute: 10 })).toEqual({
+      scope: "provider:claude", reason: "claude calls/min", limit: 10, observed: 10,
+    });
+  });
+
+  it("falls back to the _default provider budget", () => {
+    const v = findRateLimitViolation(config, "some-new-provider", { ...idle, callsThisMinute: 100 });
+    expect(v?.scope).toBe("provider:some-new-provider");
+  });
+});
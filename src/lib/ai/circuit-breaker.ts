@@ -1,186 +1,553 @@
 /**
  * AI Provider Circuit Breaker
  * ============================
- * Simple Redis-based circuit breaker that prevents runaway AI costs
- * by rate-limiting calls per provider and enforcing a daily spend cap.
+ * Redis-based circuit breaker that prevents runaway AI costs by
+ * rate-limiting calls per provider and enforcing hourly/daily spend caps
+ * globally, per provider and per AITaskType.
+ *
+ * Budgets live in platform settings (`circuit_breaker_config`) and are
+ * editable from /admin/costs — no redeploy needed.
+ *
+ * Calls over a provider's calls/min limit are simply denied until the minute
+ * rolls over — a burst is not a cost emergency, so it never trips a breaker.
+ *
+ * Lifecycle of a breaker scope ("global", "provider:claude", "task:screenplay"):
+ *   closed    → a spend budget is exceeded → open (trip logged + one Telegram alert)
+ *   open      → calls denied until `cooldownSeconds` elapse
+ *   half-open → one probe call allowed; success closes, failure re-opens
+ *   manual    → resetCircuitBreaker() closes immediately from the admin
  *
  * Uses Upstash Redis counters with TTL — no external dependencies.
  *
  * Usage:
  *   import { checkCircuitBreaker, recordProviderCall, getCircuitBreakerStatus } from "@/lib/ai/circuit-breaker";
  *
- *   const allowed = await checkCircuitBreaker("claude");
+ *   const allowed = await checkCircuitBreaker("claude", "screenplay");
  *   if (!allowed) { console.log("Circuit breaker tripped!"); return null; }
  *   // ... make AI call ...
- *   await recordProviderCall("claude", 0.05);
+ *   await recordProviderCall("claude", 0.05, "screenplay");
  */
 
-import { Redis } from "@upstash/redis";
+import { v4 as uuidv4 } from "uuid";
+import { getRedis } from "@/lib/redis";
+import { getDb } from "@/lib/db";
+import { sendAdminAlert } from "@/lib/telegram";
+import { getCircuitBreakerConfig, type CircuitBreakerConfig } from "@/lib/repositories/settings";
+import type { AITaskType } from "./types";
 
 // ── Config ──────────────────────────────────────────────────────────────
 
-/** Max calls per provider per minute (prevents burst loops) */
-const MAX_CALLS_PER_MINUTE: Record<string, number> = {
-  "claude":                100,
-  "grok-text":             200,
-  "grok-text-reasoning":   100,
-  "grok-text-nonreasoning":200,
-  "grok-multi-agent":      50,
-  "grok-image":            60,
-  "grok-image-pro":        30,
-  "grok-video":            20,
-  "grok-img2vid":          20,
-  "replicate-imagen4":     30,
-  "replicate-flux":        60,
-  "replicate-wan2":        20,
-  "replicate-ideogram":    30,
-  "kie-kling":             20,
-  "raphael":               60,
-  "_default":              100,
-};
+const REDIS_PREFIX = "aiglitch:cb:";
 
-/** Max USD spend per day across all providers */
-const MAX_DAILY_SPEND_USD = 50;
+/** How long an unresolved probe holds the half-open slot before another call may try. */
+const PROBE_TIMEOUT_SECONDS = 120;
 
-/** Max USD spend per hour (catches sudden spikes) */
-const MAX_HOURLY_SPEND_USD = 15;
+/** Open breaker state expires eventually even if nothing ever probes it. */
+const STATE_TTL_SECONDS = 172800; // 2 days
 
-const REDIS_PREFIX = "aiglitch:cb:";
+type RedisClient = NonNullable<ReturnType<typeof getRedis>>;
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+/** Counter values relevant to a single provider + task check. */
+export interface BreakerUsage {
+  callsThisMinute: number;
+  globalHourUsd: number;
+  globalDayUsd: number;
+  providerHourUsd: number;
+  providerDayUsd: number;
+  taskHourUsd: number;
+  taskDayUsd: number;
+}
+
+export interface BudgetViolation {
+  scope: string;
+  reason: string;
+  limit: number;
+  observed: number;
+}
+
+interface BreakerState {
+  tripId: string;
+  reason: string;
+  trippedAt: number;
+  /** Epoch ms after which the breaker is half-open. */
+  reopenAt: number;
+}
+
+export interface CircuitBreakerTrip {
+  id: string;
+  scope: string;
+  reason: string;
+  limit_value: number | null;
+  observed_value: number | null;
+  tripped_at: string;
+  closed_at: string | null;
+  closed_by: string | null;
+}
+
+// ── Keys ────────────────────────────────────────────────────────────────
+
+function pad(n: number): string {
+  return n.toString().padStart(2, "0");
+}
+
+function daySuffix(d: Date): string {
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}`;
+}
+
+function hourSuffix(d: Date): string {
+  return `${daySuffix(d)}${pad(d.getUTCHours())}`;
+}
 
-// ── Redis Client ────────────────────────────────────────────────────────
+function minuteSuffix(d: Date): string {
+  return `${hourSuffix(d)}${pad(d.getUTCMinutes())}`;
+}
 
-let _redis: Redis | null = null;
-let _redisChecked = false;
+const keys = {
+  rpm: (provider: string, d: Date) => `${REDIS_PREFIX}rpm:${provider}:${minuteSuffix(d)}`,
+  globalHour: (d: Date) => `${REDIS_PREFIX}spend:hour:${hourSuffix(d)}`,
+  globalDay: (d: Date) => `${REDIS_PREFIX}spend:day:${daySuffix(d)}`,
+  providerHour: (provider: string, d: Date) => `${REDIS_PREFIX}spend:hour:p:${provider}:${hourSuffix(d)}`,
+  providerDay: (provider: string, d: Date) => `${REDIS_PREFIX}spend:day:p:${provider}:${daySuffix(d)}`,
+  taskHour: (task: string, d: Date) => `${REDIS_PREFIX}spend:hour:t:${task}:${hourSuffix(d)}`,
+  taskDay: (task: string, d: Date) => `${REDIS_PREFIX}spend:day:t:${task}:${daySuffix(d)}`,
+  state: (scope: string) => `${REDIS_PREFIX}state:${scope}`,
+  probe: (scope: string) => `${REDIS_PREFIX}probe:${scope}`,
+};
 
-function getRedis(): Redis | null {
-  if (_redisChecked) return _redis;
-  _redisChecked = true;
+/** Breaker scopes a call touches, outermost first. */
+function scopesFor(provider: string, task?: string): string[] {
+  return ["global", `provider:${provider}`, ...(task ? [`task:${task}`] : [])];
+}
+
+// ── Budget evaluation (pure) ────────────────────────────────────────────
+
+function providerBudgetFor(config: CircuitBreakerConfig, provider: string) {
+  return config.providers[provider] ?? config.providers["_default"] ?? {};
+}
 
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
-  if (url && token) {
-    try {
-      _redis = new Redis({ url, token });
-    } catch {
-      // Redis not available — circuit breaker disabled (fail open)
+/**
+ * Compare current counters against the configured spend budgets.
+ * Returns every exceeded limit, tagged with the breaker scope it trips.
+ */
+export function findBudgetViolations(
+  config: CircuitBreakerConfig,
+  provider: string,
+  task: string | undefined,
+  usage: BreakerUsage,
+): BudgetViolation[] {
+  const violations: BudgetViolation[] = [];
+  const check = (scope: string, label: string, observed: number, limit: number | undefined) => {
+    if (limit !== undefined && observed >= limit) {
+      violations.push({ scope, reason: label, limit, observed });
     }
+  };
+
+  const providerBudget = providerBudgetFor(config, provider);
+  const providerScope = `provider:${provider}`;
+  check("global", "global hourly spend", usage.globalHourUsd, config.global.hourlyUsd);
+  check("global", "global daily spend", usage.globalDayUsd, config.global.dailyUsd);
+  check(providerScope, `${provider} hourly spend`, usage.providerHourUsd, providerBudget.hourlyUsd);
+  check(providerScope, `${provider} daily spend`, usage.providerDayUsd, providerBudget.dailyUsd);
+
+  if (task) {
+    const taskBudget = config.tasks[task] ?? {};
+    check(`task:${task}`, `${task} hourly spend`, usage.taskHourUsd, taskBudget.hourlyUsd);
+    check(`task:${task}`, `${task} daily spend`, usage.taskDayUsd, taskBudget.dailyUsd);
+  }
+
+  return violations;
+}
+
+/**
+ * Calls/min limit check. Unlike spend budgets this is a plain throttle:
+ * the caller denies the call but nothing trips, alerts or is logged.
+ */
+export function findRateLimitViolation(
+  config: CircuitBreakerConfig,
+  provider: string,
+  usage: BreakerUsage,
+): BudgetViolation | null {
+  const limit = providerBudgetFor(config, provider).callsPerMinute;
+  if (limit === undefined || usage.callsThisMinute < limit) return null;
+  return { scope: `provider:${provider}`, reason: `${provider} calls/min`, limit, observed: usage.callsThisMinute };
+}
+
+// ── Redis helpers ───────────────────────────────────────────────────────
+
+async function readUsage(redis: RedisClient, provider: string, task: string | undefined, d: Date): Promise<BreakerUsage> {
+  const values = await redis.mget<(number | null)[]>(
+    keys.rpm(provider, d),
+    keys.globalHour(d),
+    keys.globalDay(d),
+    keys.providerHour(provider, d),
+    keys.providerDay(provider, d),
+    task ? keys.taskHour(task, d) : `${REDIS_PREFIX}none`,
+    task ? keys.taskDay(task, d) : `${REDIS_PREFIX}none`,
+  );
+  const n = (i: number) => Number(values[i] ?? 0);
+  return {
+    callsThisMinute: n(0),
+    globalHourUsd: n(1),
+    globalDayUsd: n(2),
+    providerHourUsd: n(3),
+    providerDayUsd: n(4),
+    taskHourUsd: n(5),
+    taskDayUsd: n(6),
+  };
+}
+
+async function readStates(redis: RedisClient, scopes: string[]): Promise<Record<string, BreakerState | null>> {
+  const values = await redis.mget<(BreakerState | null)[]>(...scopes.map(keys.state));
+  return Object.fromEntries(scopes.map((scope, i) => [scope, values[i] ?? null]));
+}
+
+async function closeTripRow(tripId: string, closedBy: string): Promise<void> {
+  try {
+    const sql = getDb();
+    await sql`
+      UPDATE circuit_breaker_trips SET closed_at = NOW(), closed_by = ${closedBy}
+      WHERE id = ${tripId} AND closed_at IS NULL
+    `;
+  } catch {
+    // History is best-effort
+  }
+}
+
+/**
+ * Open the breaker for a scope. Only the instance that wins the SET NX
+ * logs the trip and alerts, so each trip produces exactly one alert.
+ */
+async function tripBreaker(redis: RedisClient, violation: BudgetViolation, config: CircuitBreakerConfig): Promise<void> {
+  const now = Date.now();
+  const state: BreakerState = {
+    tripId: uuidv4(),
+    reason: violation.reason,
+    trippedAt: now,
+    reopenAt: now + config.cooldownSeconds * 1000,
+  };
+  const won = await redis.set(keys.state(violation.scope), state, { nx: true, ex: STATE_TTL_SECONDS });
+  if (won !== "OK") return;
+
+  console.warn(`[circuit-breaker] Tripped ${violation.scope}: ${violation.reason} ${violation.observed}/${violation.limit}`);
+
+  try {
+    const sql = getDb();
+    await sql`
+      INSERT INTO circuit_breaker_trips (id, scope, reason, limit_value, observed_value, tripped_at)
+      VALUES (${state.tripId}, ${violation.scope}, ${violation.reason}, ${violation.limit}, ${violation.observed}, ${new Date(now)})
+    `;
+  } catch (err) {
+    console.warn("[circuit-breaker] Failed to log trip:", err instanceof Error ? err.message : err);
   }
-  return _redis;
+
+  const observed = violation.reason.includes("spend") ? `$${violation.observed.toFixed(2)} / $${violation.limit}` : `${violation.observed} / ${violation.limit}`;
+  await sendAdminAlert(
+    "AI circuit breaker tripped",
+    `<b>Scope:</b> ${violation.scope}\n<b>Limit:</b> ${violation.reason} (${observed})\n\n` +
+      `Calls are blocked for ${Math.round(config.cooldownSeconds / 60)} min, then one probe call is let through. ` +
+      `Adjust budgets or reset from /admin/costs.`,
+    "critical",
+  ).catch(() => {});
 }
 
 // ── Public API ──────────────────────────────────────────────────────────
 
 /**
  * Check if a provider call is allowed.
- * Returns true if the call should proceed, false if the breaker is tripped.
+ * Returns true if the call should proceed, false if the breaker is open.
  *
  * Fail-open: if Redis is unavailable, always allow (don't break the platform).
  */
-export async function checkCircuitBreaker(provider: string): Promise<boolean> {
+export async function checkCircuitBreaker(provider: string, task?: AITaskType): Promise<boolean> {
   const redis = getRedis();
   if (!redis) return true; // Fail open
 
   try {
-    const now = new Date();
-    const minuteKey = `${REDIS_PREFIX}rpm:${provider}:${now.getUTCFullYear()}${(now.getUTCMonth() + 1).toString().padStart(2, "0")}${now.getUTCDate().toString().padStart(2, "0")}${now.getUTCHours().toString().padStart(2, "0")}${now.getUTCMinutes().toString().padStart(2, "0")}`;
-    const hourKey = `${REDIS_PREFIX}spend:hour:${now.getUTCFullYear()}${(now.getUTCMonth() + 1).toString().padStart(2, "0")}${now.getUTCDate().toString().padStart(2, "0")}${now.getUTCHours().toString().padStart(2, "0")}`;
-    const dayKey = `${REDIS_PREFIX}spend:day:${now.getUTCFullYear()}${(now.getUTCMonth() + 1).toString().padStart(2, "0")}${now.getUTCDate().toString().padStart(2, "0")}`;
-
-    // Check rate limit (calls per minute)
-    const currentCalls = await redis.get<number>(minuteKey);
-    const maxCalls = MAX_CALLS_PER_MINUTE[provider] ?? MAX_CALLS_PER_MINUTE["_default"];
-    if (currentCalls !== null && currentCalls >= maxCalls) {
-      console.warn(`[circuit-breaker] Rate limit tripped for ${provider}: ${currentCalls}/${maxCalls} calls/min`);
-      return false;
+    const now = Date.now();
+    const config = await getCircuitBreakerConfig();
+    const scopes = scopesFor(provider, task);
+    const [states, usage] = await Promise.all([
+      readStates(redis, scopes),
+      readUsage(redis, provider, task, new Date(now)),
+    ]);
+
+    // Open and still cooling down
+    for (const scope of scopes) {
+      const state = states[scope];
+      if (state && now < state.reopenAt) {
+        console.warn(`[circuit-breaker] ${scope} open (${state.reason}) — denying ${provider}`);
+        return false;
+      }
     }
 
-    // Check hourly spend
-    const hourlySpend = await redis.get<number>(hourKey);
-    if (hourlySpend !== null && hourlySpend >= MAX_HOURLY_SPEND_USD) {
-      console.warn(`[circuit-breaker] Hourly spend limit tripped: $${hourlySpend.toFixed(2)}/$${MAX_HOURLY_SPEND_USD}`);
+    const violations = findBudgetViolations(config, provider, task, usage);
+
+    // Closed scopes that just went over budget → trip
+    const fresh = violations.filter((v) => !states[v.scope]);
+    if (fresh.length > 0) {
+      for (const v of fresh) await tripBreaker(redis, v, config);
       return false;
     }
 
-    // Check daily spend
-    const dailySpend = await redis.get<number>(dayKey);
-    if (dailySpend !== null && dailySpend >= MAX_DAILY_SPEND_USD) {
-      console.warn(`[circuit-breaker] Daily spend limit tripped: $${dailySpend.toFixed(2)}/$${MAX_DAILY_SPEND_USD}`);
+    // Half-open scopes: still over budget → stay open for another cooldown
+    const halfOpen = scopes.filter((s) => states[s]);
+    for (const scope of halfOpen) {
+      if (violations.some((v) => v.scope === scope)) {
+        const state = states[scope]!;
+        await redis.set(keys.state(scope), { ...state, reopenAt: now + config.cooldownSeconds * 1000 }, { ex: STATE_TTL_SECONDS });
+        return false;
+      }
+    }
+
+    // Over calls/min → throttle until the minute rolls over, without tripping
+    const throttled = findRateLimitViolation(config, provider, usage);
+    if (throttled) {
+      console.warn(`[circuit-breaker] ${throttled.reason} ${throttled.observed}/${throttled.limit} — denying ${provider}`);
       return false;
     }
 
+    // Half-open and within budget → let exactly one probe through
+    for (const scope of halfOpen) {
+      const acquired = await redis.set(keys.probe(scope), now, { nx: true, ex: PROBE_TIMEOUT_SECONDS });
+      if (acquired !== "OK") return false;
+    }
+
     return true;
   } catch {
     return true; // Fail open on Redis errors
   }
 }
 
+/**
+ * Read-only check: is any scope covering this provider/task still cooling down?
+ * Unlike `checkCircuitBreaker` this never trips a breaker or claims the
+ * half-open probe, so routers can use it to skip providers cheaply.
+ */
+export async function isCircuitOpen(provider: string, task?: AITaskType): Promise<boolean> {
+  const redis = getRedis();
+  if (!redis) return false;
+
+  try {
+    const now = Date.now();
+    const states = await readStates(redis, scopesFor(provider, task));
+    return Object.values(states).some((state) => state !== null && now < state.reopenAt);
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Record a provider call (increment rate counter + spend).
- * Called after a successful AI call.
+ * Called after a successful AI call. A success while half-open closes the breaker.
  */
-export async function recordProviderCall(provider: string, costUsd: number): Promise<void> {
+export async function recordProviderCall(provider: string, costUsd: number, task?: AITaskType): Promise<void> {
   const redis = getRedis();
   if (!redis) return;
 
   try {
     const now = new Date();
-    const minuteKey = `${REDIS_PREFIX}rpm:${provider}:${now.getUTCFullYear()}${(now.getUTCMonth() + 1).toString().padStart(2, "0")}${now.getUTCDate().toString().padStart(2, "0")}${now.getUTCHours().toString().padStart(2, "0")}${now.getUTCMinutes().toString().padStart(2, "0")}`;
-    const hourKey = `${REDIS_PREFIX}spend:hour:${now.getUTCFullYear()}${(now.getUTCMonth() + 1).toString().padStart(2, "0")}${now.getUTCDate().toString().padStart(2, "0")}${now.getUTCHours().toString().padStart(2, "0")}`;
-    const dayKey = `${REDIS_PREFIX}spend:day:${now.getUTCFullYear()}${(now.getUTCMonth() + 1).toString().padStart(2, "0")}${now.getUTCDate().toString().padStart(2, "0")}`;
+    const minuteKey = keys.rpm(provider, now);
+    const spendKeys: [string, number][] = [
+      [keys.globalHour(now), 7200],                 // 2 hour TTL
+      [keys.globalDay(now), 172800],                // 2 day TTL
+      [keys.providerHour(provider, now), 7200],
+      [keys.providerDay(provider, now), 172800],
+      ...(task ? [[keys.taskHour(task, now), 7200], [keys.taskDay(task, now), 172800]] as [string, number][] : []),
+    ];
 
-    // Fire-and-forget: increment counters with TTL
     await Promise.allSettled([
       redis.incr(minuteKey).then(() => redis.expire(minuteKey, 120)),        // 2 min TTL
-      redis.incrbyfloat(hourKey, costUsd).then(() => redis.expire(hourKey, 7200)),  // 2 hour TTL
-      redis.incrbyfloat(dayKey, costUsd).then(() => redis.expire(dayKey, 172800)),  // 2 day TTL
+      ...spendKeys.map(([key, ttl]) => redis.incrbyfloat(key, costUsd).then(() => redis.expire(key, ttl))),
     ]);
+
+    // Successful probe → close any half-open scope this call belonged to
+    const scopes = scopesFor(provider, task);
+    const states = await readStates(redis, scopes);
+    for (const scope of scopes) {
+      const state = states[scope];
+      if (state && now.getTime() >= state.reopenAt) {
+        await redis.del(keys.state(scope), keys.probe(scope));
+        await closeTripRow(state.tripId, "probe");
+        console.log(`[circuit-breaker] ${scope} closed after successful probe`);
+      }
+    }
   } catch {
     // Non-critical — don't break the AI call
   }
 }
 
+/**
+ * Record a failed provider call. A failure while half-open re-opens the
+ * breaker for another cooldown (no new alert — it is the same trip).
+ */
+export async function recordProviderFailure(provider: string, task?: AITaskType): Promise<void> {
+  const redis = getRedis();
+  if (!redis) return;
+
+  try {
+    const now = Date.now();
+    const scopes = scopesFor(provider, task);
+    const states = await readStates(redis, scopes);
+    const halfOpen = scopes.filter((s) => states[s] && now >= states[s]!.reopenAt);
+    if (halfOpen.length === 0) return;
+
+    const config = await getCircuitBreakerConfig();
+    for (const scope of halfOpen) {
+      await redis.set(keys.state(scope), { ...states[scope]!, reopenAt: now + config.cooldownSeconds * 1000 }, { ex: STATE_TTL_SECONDS });
+      await redis.del(keys.probe(scope));
+      console.warn(`[circuit-breaker] ${scope} probe failed — re-opened`);
+    }
+  } catch {
+    // Non-critical
+  }
+}
+
+/**
+ * Manually close a breaker (or every open breaker when no scope is given).
+ * Note: if spend is still over budget the next call trips it again — raise
+ * the budget first.
+ */
+export async function resetCircuitBreaker(scope?: string): Promise<string[]> {
+  const redis = getRedis();
+  if (!redis) return [];
+
+  let scopes: string[];
+  if (scope) {
+    scopes = [scope];
+  } else {
+    scopes = [];
+    let cursor: string | number = "0";
+    do {
+      const [next, found]: [string | number, string[]] = await redis.scan(cursor, { match: `${REDIS_PREFIX}state:*`, count: 100 });
+      cursor = next;
+      scopes.push(...found.map((k) => k.slice(`${REDIS_PREFIX}state:`.length)));
+    } while (String(cursor) !== "0");
+  }
+  if (scopes.length === 0) return [];
+
+  const states = await readStates(redis, scopes);
+  const closed: string[] = [];
+  for (const s of scopes) {
+    await redis.del(keys.state(s), keys.probe(s));
+    const state = states[s];
+    if (state) {
+      await closeTripRow(state.tripId, "manual");
+      closed.push(s);
+    }
+  }
+  return closed;
+}
+
+/**
+ * Recent trips for the admin history table, newest first.
+ */
+export async function getCircuitBreakerTrips(limit: number = 50): Promise<CircuitBreakerTrip[]> {
+  try {
+    const sql = getDb();
+    return await sql`
+      SELECT id, scope, reason, limit_value, observed_value, tripped_at, closed_at, closed_by
+      FROM circuit_breaker_trips
+      ORDER BY tripped_at DESC
+      LIMIT ${limit}
+    ` as unknown as CircuitBreakerTrip[];
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Get current circuit breaker status for admin dashboard.
  */
 export async function getCircuitBreakerStatus(): Promise<{
-  providers: Record<string, { callsPerMinute: number; maxCallsPerMinute: number; tripped: boolean }>;
+  providers: Record<string, { callsPerMinute: number; maxCallsPerMinute: number; tripped: boolean; hourlySpendUsd: number; dailySpendUsd: number }>;
+  tasks: Record<string, { hourlySpendUsd: number; dailySpendUsd: number }>;
   hourlySpendUsd: number;
   maxHourlySpendUsd: number;
   dailySpendUsd: number;
   maxDailySpendUsd: number;
   hourlyTripped: boolean;
   dailyTripped: boolean;
+  open: { scope: string; reason: string; trippedAt: number; reopenAt: number; halfOpen: boolean }[];
 } | null> {
   const redis = getRedis();
   if (!redis) return null;
 
   try {
     const now = new Date();
-    const minuteSuffix = `${now.getUTCFullYear()}${(now.getUTCMonth() + 1).toString().padStart(2, "0")}${now.getUTCDate().toString().padStart(2, "0")}${now.getUTCHours().toString().padStart(2, "0")}${now.getUTCMinutes().toString().padStart(2, "0")}`;
-    const hourSuffix = `${now.getUTCFullYear()}${(now.getUTCMonth() + 1).toString().padStart(2, "0")}${now.getUTCDate().toString().padStart(2, "0")}${now.getUTCHours().toString().padStart(2, "0")}`;
-    const daySuffix = `${now.getUTCFullYear()}${(now.getUTCMonth() + 1).toString().padStart(2, "0")}${now.getUTCDate().toString().padStart(2, "0")}`;
-
-    // Check main providers
-    const providerKeys = ["claude", "grok-text-nonreasoning", "grok-text-reasoning", "grok-image", "grok-video"];
-    const providers: Record<string, { callsPerMinute: number; maxCallsPerMinute: number; tripped: boolean }> = {};
-
-    for (const p of providerKeys) {
-      const calls = await redis.get<number>(`${REDIS_PREFIX}rpm:${p}:${minuteSuffix}`) ?? 0;
-      const max = MAX_CALLS_PER_MINUTE[p] ?? MAX_CALLS_PER_MINUTE["_default"];
-      providers[p] = { callsPerMinute: calls, maxCallsPerMinute: max, tripped: calls >= max };
-    }
+    const config = await getCircuitBreakerConfig();
+    const round = (v: unknown) => Math.round(Number(v ?? 0) * 10000) / 10000;
+
+    // Main providers + anything with an explicit budget
+    const providerKeys = [...new Set([
+      "claude", "grok-text-nonreasoning", "grok-text-reasoning", "grok-image", "grok-video",
+      ...Object.entries(config.providers)
+        .filter(([p, b]) => p !== "_default" && (b.hourlyUsd !== undefined || b.dailyUsd !== undefined))
+        .map(([p]) => p),
+    ])];
+    const taskKeys: AITaskType[] = [
+      "text-generation", "image-generation", "video-generation", "video-polling",
+      "screenplay", "topic-generation", "ad-copy", "avatar",
+    ];
+
+    const providerValues = await redis.mget<(number | null)[]>(
+      ...providerKeys.flatMap((p) => [keys.rpm(p, now), keys.providerHour(p, now), keys.providerDay(p, now)]),
+    );
+    const providers: Record<string, { callsPerMinute: number; maxCallsPerMinute: number; tripped: boolean; hourlySpendUsd: number; dailySpendUsd: number }> = {};
+    providerKeys.forEach((p, i) => {
+      const calls = Number(providerValues[i * 3] ?? 0);
+      const max = config.providers[p]?.callsPerMinute ?? config.providers["_default"]?.callsPerMinute ?? 0;
+      providers[p] = {
+        callsPerMinute: calls,
+        maxCallsPerMinute: max,
+        tripped: max > 0 && calls >= max,
+        hourlySpendUsd: round(providerValues[i * 3 + 1]),
+        dailySpendUsd: round(providerValues[i * 3 + 2]),
+      };
+    });
+
+    const taskValues = await redis.mget<(number | null)[]>(
+      ...taskKeys.flatMap((t) => [keys.taskHour(t, now), keys.taskDay(t, now)]),
+    );
+    const tasks: Record<string, { hourlySpendUsd: number; dailySpendUsd: number }> = {};
+    taskKeys.forEach((t, i) => {
+      tasks[t] = { hourlySpendUsd: round(taskValues[i * 2]), dailySpendUsd: round(taskValues[i * 2 + 1]) };
+    });
+
+    const [hourlySpend, dailySpend] = await redis.mget<(number | null)[]>(keys.globalHour(now), keys.globalDay(now));
 
-    const hourlySpend = await redis.get<number>(`${REDIS_PREFIX}spend:hour:${hourSuffix}`) ?? 0;
-    const dailySpend = await redis.get<number>(`${REDIS_PREFIX}spend:day:${daySuffix}`) ?? 0;
+    const open: { scope: string; reason: string; trippedAt: number; reopenAt: number; halfOpen: boolean }[] = [];
+    let cursor: string | number = "0";
+    do {
+      const [next, found]: [string | number, string[]] = await redis.scan(cursor, { match: `${REDIS_PREFIX}state:*`, count: 100 });
+      cursor = next;
+      if (found.length > 0) {
+        const states = await redis.mget<(BreakerState | null)[]>(...found);
+        found.forEach((key, i) => {
+          const state = states[i];
+          if (!state) return;
+          open.push({
+            scope: key.slice(`${REDIS_PREFIX}state:`.length),
+            reason: state.reason,
+            trippedAt: state.trippedAt,
+            reopenAt: state.reopenAt,
+            halfOpen: now.getTime() >= state.reopenAt,
+          });
+        });
+      }
+    } while (String(cursor) !== "0");
 
     return {
       providers,
-      hourlySpendUsd: Math.round(hourlySpend * 10000) / 10000,
-      maxHourlySpendUsd: MAX_HOURLY_SPEND_USD,
-      dailySpendUsd: Math.round(dailySpend * 10000) / 10000,
-      maxDailySpendUsd: MAX_DAILY_SPEND_USD,
-      hourlyTripped: hourlySpend >= MAX_HOURLY_SPEND_USD,
-      dailyTripped: dailySpend >= MAX_DAILY_SPEND_USD,
+      tasks,
+      hourlySpendUsd: round(hourlySpend),
+      maxHourlySpendUsd: config.global.hourlyUsd,
+      dailySpendUsd: round(dailySpend),
+      maxDailySpendUsd: config.global.dailyUsd,
+      hourlyTripped: Number(hourlySpend ?? 0) >= config.global.hourlyUsd,
+      dailyTripped: Number(dailySpend ?? 0) >= config.global.dailyUsd,
+      open,
     };
   } catch {
     return null;
@@ -23,7 +23,8 @@
 import Anthropic from "@anthropic-ai/sdk";
 import { CONTENT } from "@/lib/bible/constants";
 import { trackCost, estimateClaudeCost } from "./costs";
-import { checkCircuitBreaker, recordProviderCall } from "./circuit-breaker";
+import { checkCircuitBreaker, recordProviderCall, recordProviderFailure } from "./circuit-breaker";
+import type { AICallOptions } from "./types";
 
 // Lazy singleton client — instantiated on first use, not at import time.
 // This avoids paying the Anthropic SDK init cost on cold starts for routes
@@ -77,9 +78,13 @@ export async function safeGenerate(
   prompt: string,
   maxTokens: number = CONTENT.defaultMaxTokens,
   model: string = DEFAULT_MODEL,
+  options: AICallOptions = {},
 ): Promise<string | null> {
+  const task = options.task ?? "text-generation";
+  const system = options.system ? { system: options.system } : {};
+
   // Circuit breaker check — prevent runaway costs
-  const allowed = await checkCircuitBreaker("claude");
+  const allowed = await checkCircuitBreaker("claude", task);
   if (!allowed) {
     console.warn("[ai/claude] Circuit breaker tripped — skipping call");
     return null;
@@ -92,6 +97,7 @@ export async function safeGenerate(
       const response = await getClient().messages.create({
         model,
         max_tokens: maxTokens,
+        ...system,
         messages: [{ role: "user", content: prompt }],
       });
 
@@ -103,15 +109,16 @@ export async function safeGenerate(
       const costUsd = estimateClaudeCost(inputTokens, outputTokens);
       trackCost({
         provider: "claude",
-        task: "text-generation",
+        task,
         estimatedCostUsd: costUsd,
         inputTokens,
         outputTokens,
         model,
+        routing: options.routing,
       });
 
       // Record for circuit breaker rate limiting
-      recordProviderCall("claude", costUsd).catch(() => {});
+      recordProviderCall("claude", costUsd, task).catch(() => {});
 
       return text;
     } catch (err: unknown) {
@@ -134,6 +141,7 @@ export async function safeGenerate(
         // Non-retryable, non-content-filter error — log and return null
         // (don't throw — callers expect null on failure, throwing causes unhandled rejections in cron)
         console.error(`[ai/claude] Non-retryable error after ${attempt + 1} attempt(s): ${errMsg}`);
+        recordProviderFailure("claude", task).catch(() => {});
         return null;
       }
 
@@ -147,6 +155,7 @@ export async function safeGenerate(
         const retryResponse = await getClient().messages.create({
           model,
           max_tokens: maxTokens,
+          ...system,
           messages: [{ role: "user", content: cleanPrompt }],
         });
 
@@ -157,17 +166,19 @@ export async function safeGenerate(
         const outputTokens = retryResponse.usage?.output_tokens ?? 0;
         trackCost({
           provider: "claude",
-          task: "text-generation",
+          task,
           estimatedCostUsd: estimateClaudeCost(inputTokens, outputTokens),
           inputTokens,
           outputTokens,
           model,
+          routing: options.routing,
         });
 
         return text;
       } catch (retryErr: unknown) {
         const retryMsg = retryErr instanceof Error ? retryErr.message : String(retryErr);
         console.error("[ai/claude] Content filter retry also failed:", retryMsg);
+        recordProviderFailure("claude", task).catch(() => {});
         return null;
       }
     }
@@ -156,11 +156,19 @@ export async function flushCosts(sql?: ReturnType<typeof import("@/lib/db").getD
       ALTER TABLE ai_cost_log ADD COLUMN IF NOT EXISTS persona_id TEXT
     `.catch(() => { /* column already exists */ });
 
+    // Router columns: which policy picked the provider, and who it fell back from
+    await sql`
+      ALTER TABLE ai_cost_log ADD COLUMN IF NOT EXISTS route_policy TEXT
+    `.catch(() => { /* column already exists */ });
+    await sql`
+      ALTER TABLE ai_cost_log ADD COLUMN IF NOT EXISTS fallback_from TEXT
+    `.catch(() => { /* column already exists */ });
+
     // Batch insert
     for (const e of batch) {
       await sql`
-        INSERT INTO ai_cost_log (provider, task, estimated_cost_usd, input_tokens, output_tokens, duration_seconds, model, persona_id, created_at)
-        VALUES (${e.provider}, ${e.task}, ${e.estimatedCostUsd}, ${e.inputTokens ?? null}, ${e.outputTokens ?? null}, ${e.durationSeconds ?? null}, ${e.model ?? null}, ${e.personaId ?? null}, ${e.timestamp})
+        INSERT INTO ai_cost_log (provider, task, estimated_cost_usd, input_tokens, output_tokens, duration_seconds, model, persona_id, route_policy, fallback_from, created_at)
+        VALUES (${e.provider}, ${e.task}, ${e.estimatedCostUsd}, ${e.inputTokens ?? null}, ${e.outputTokens ?? null}, ${e.durationSeconds ?? null}, ${e.model ?? null}, ${e.personaId ?? null}, ${e.routing?.policy ?? null}, ${e.routing?.fallbackFrom ?? null}, ${e.timestamp})
       `;
     }
   } catch (err) {
@@ -13,6 +13,7 @@
  *   claude  — Anthropic Claude (text generation, screenplays, topics)
  *   grok    — xAI Grok (text, images, videos)
  *   costs   — Cost tracking & reporting
+ *   router  — Per-task provider routing with automatic fallback
  */
 
 // Claude (Anthropic) — centralized wrapper with content-filter retry & cost tracking
@@ -27,7 +28,10 @@ export * as costs from "./costs";
 // Circuit breaker
 export * as circuitBreaker from "./circuit-breaker";
 
+// Provider router (Claude ⇄ Grok fallback by task policy)
+export * as router from "./router";
+
 // Types
-export type { AIProvider, AITaskType, AICostEntry } from "./types";
+export type { AIProvider, AITaskType, AICostEntry, AICallOptions, AIRouteTag } from "./types";
 export type { GrokModelKey } from "../xai";
 export { GROK_MODELS } from "../xai";
@@ -0,0 +1,234 @@
+/**
+ * AI Provider Router — Unit Tests
+ * ================================
+ * Exercises ordering policies and fallback behaviour against mock providers.
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  createTextRouter,
+  orderProviders,
+  extractJSON,
+  type TextProviderAdapter,
+} from "./router";
+import { parseAIRoutingConfig, type AIRoutingConfig, type AITaskRoute } from "@/lib/repositories/settings";
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+// ── Mock providers ──────────────────────────────────────────────────
+
+function mockProvider(
+  id: string,
+  cost: number,
+  generate: TextProviderAdapter["generate"] = async () => `${id} says hi`,
+  configured = true,
+): TextProviderAdapter {
+  return { id, costPerMOutputTokens: cost, isConfigured: () => configured, generate: vi.fn(generate) };
+}
+
+function routerFor(providers: TextProviderAdapter[], route: Partial<AITaskRoute>, open: string[] = []) {
+  const config: AIRoutingConfig = {
+    default: { policy: "quality-first", providers: providers.map((p) => p.id), timeoutMs: 1_000, ...route },
+    tasks: {},
+  };
+  return createTextRouter({
+    providers,
+    getConfig: async () => config,
+    isOpen: async (provider) => open.includes(provider),
+  });
+}
+
+function silenceLogs() {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+}
+
+const cheap = () => mockProvider("cheap", 2.5);
+const pricey = () => mockProvider("pricey", 15);
+
+// ── Ordering ────────────────────────────────────────────────────────
+
+describe("orderProviders", () => {
+  const providers = [pricey(), cheap(), mockProvider("mid", 5)];
+  const ids = (route: Partial<AITaskRoute>, turn = 0) =>
+    orderProviders({ policy: "quality-first", providers: ["pricey", "mid", "cheap"], timeoutMs: 1_000, ...route }, providers, turn)
+      .map((p) => p.id);
+
+  it("quality-first keeps the configured order", () => {
+    expect(ids({})).toEqual(["pricey", "mid", "cheap"]);
+  });
+
+  it("cost-first sorts by output token price", () => {
+    expect(ids({ policy: "cost-first" })).toEqual(["cheap", "mid", "pricey"]);
+  });
+
+  it("cost-first breaks price ties by configured order", () => {
+    const tied = [mockProvider("a", 1), mockProvider("b", 1)];
+    const order = orderProviders({ policy: "cost-first", providers: ["b", "a"], timeoutMs: 1_000 }, tied);
+    expect(order.map((p) => p.id)).toEqual(["b", "a"]);
+  });
+
+  it("round-robin rotates the starting provider", () => {
+    expect(ids({ policy: "round-robin" }, 0)).toEqual(["pricey", "mid", "cheap"]);
+    expect(ids({ policy: "round-robin" }, 1)).toEqual(["mid", "cheap", "pricey"]);
+    expect(ids({ policy: "round-robin" }, 5)).toEqual(["cheap", "pricey", "mid"]);
+  });
+
+  it("drops provider ids it doesn't know", () => {
+    expect(ids({ providers: ["ghost", "cheap"] })).toEqual(["cheap"]);
+  });
+});
+
+// ── Fallback ────────────────────────────────────────────────────────
+
+describe("createTextRouter", () => {
+  it("serves from the first choice without tagging a fallback", async () => {
+    const a = pricey();
+    const router = routerFor([a, cheap()], {});
+    const result = await router.routeText("ad-copy", { prompt: "x" });
+
+    expect(result).toMatchObject({ value: "pricey says hi", provider: "pricey", policy: "quality-first" });
+    expect(a.generate).toHaveBeenCalledWith({ prompt: "x" }, { task: "ad-copy", routing: { policy: "quality-first" } });
+  });
+
+  it("falls back on error and tags the served call with the original choice", async () => {
+    silenceLogs();
+    const a = mockProvider("pricey", 15, async () => { throw new Error("529 overloaded"); });
+    const b = cheap();
+    const result = await routerFor([a, b], {}).routeText("ad-copy", { prompt: "x" });
+
+    expect(result.provider).toBe("cheap");
+    expect(result.attempts.map((x) => [x.provider, x.outcome])).toEqual([["pricey", "error"], ["cheap", "ok"]]);
+    expect(result.attempts[0].error).toBe("529 overloaded");
+    expect(b.generate).toHaveBeenCalledWith(
+      { prompt: "x" },
+      { task: "ad-copy", routing: { policy: "quality-first", fallbackFrom: "pricey" } },
+    );
+  });
+
+  it("falls back when a provider returns null or blank text", async () => {
+    silenceLogs();
+    const result = await routerFor(
+      [mockProvider("a", 1, async () => null), mockProvider("b", 1, async () => "  "), mockProvider("c", 1)],
+      {},
+    ).routeText("text-generation", { prompt: "x" });
+
+    expect(result.provider).toBe("c");
+    expect(result.attempts.map((x) => x.outcome)).toEqual(["empty", "empty", "ok"]);
+  });
+
+  it("falls back on timeout", async () => {
+    vi.useFakeTimers();
+    silenceLogs();
+    const slow = mockProvider("slow", 1, () => new Promise(() => {}));
+    const pending = routerFor([slow, cheap()], { timeoutMs: 5_000 }).routeText("screenplay", { prompt: "x" });
+    await vi.advanceTimersByTimeAsync(5_000);
+    const result = await pending;
+
+    expect(result.provider).toBe("cheap");
+    expect(result.attempts[0]).toMatchObject({ provider: "slow", outcome: "timeout" });
+  });
+
+  it("skips providers with an open breaker or no API key without calling them", async () => {
+    silenceLogs();
+    const tripped = mockProvider("tripped", 1);
+    const nokey = mockProvider("nokey", 1, undefined, false);
+    const result = await routerFor([tripped, nokey, cheap()], {}, ["tripped"]).routeText("ad-copy", { prompt: "x" });
+
+    expect(result.provider).toBe("cheap");
+    expect(result.attempts.map((x) => x.outcome)).toEqual(["breaker-open", "unconfigured", "ok"]);
+    expect(tripped.generate).not.toHaveBeenCalled();
+    expect(nokey.generate).not.toHaveBeenCalled();
+  });
+
+  it("returns null with every attempt when all providers fail", async () => {
+    silenceLogs();
+    const result = await routerFor(
+      [mockProvider("a", 1, async () => null), mockProvider("b", 1, async () => { throw new Error("down"); })],
+      {},
+    ).routeText("ad-copy", { prompt: "x" });
+
+    expect(result.value).toBeNull();
+    expect(result.provider).toBeNull();
+    expect(result.attempts.map((x) => x.outcome)).toEqual(["empty", "error"]);
+  });
+
+  it("round-robin alternates the serving provider per task", async () => {
+    const router = routerFor([pricey(), cheap()], { policy: "round-robin" });
+    const served = [];
+    for (let i = 0; i < 4; i++) served.push((await router.routeText("screenplay", { prompt: "x" })).provider);
+    expect(served).toEqual(["pricey", "cheap", "pricey", "cheap"]);
+
+    // Separate cursor per task
+    expect((await router.routeText("ad-copy", { prompt: "x" })).provider).toBe("pricey");
+  });
+
+  it("uses the task's own route over the default", async () => {
+    const providers = [pricey(), cheap()];
+    const router = createTextRouter({
+      providers,
+      getConfig: async () => parseAIRoutingConfig({
+        default: { policy: "quality-first", providers: ["pricey", "cheap"] },
+        tasks: { "topic-generation": { policy: "cost-first" } },
+      }),
+      isOpen: async () => false,
+    });
+    expect((await router.routeText("topic-generation", { prompt: "x" })).provider).toBe("cheap");
+    expect((await router.routeText("ad-copy", { prompt: "x" })).provider).toBe("pricey");
+  });
+
+  it("routeJSON treats unparseable output as a failure and falls back", async () => {
+    silenceLogs();
+    const result = await routerFor(
+      [mockProvider("rambler", 1, async () => "Sure! Here's a story..."), mockProvider("json", 1, async () => '```json\n{"title":"Glitch"}\n```')],
+      {},
+    ).routeJSON<{ title: string }>("screenplay", { prompt: "x" });
+
+    expect(result.value).toEqual({ title: "Glitch" });
+    expect(result.attempts.map((x) => x.outcome)).toEqual(["invalid", "ok"]);
+  });
+});
+
+// ── Helpers & config ────────────────────────────────────────────────
+
+describe("extractJSON", () => {
+  it("pulls an object or array out of surrounding prose", () => {
+    expect(extractJSON("here:\n[1, 2]\nthanks")).toEqual([1, 2]);
+    expect(extractJSON('{"a":1}')).toEqual({ a: 1 });
+  });
+
+  it("returns null for non-JSON", () => {
+    expect(extractJSON("no json here")).toBeNull();
+    expect(extractJSON("{not: valid}")).toBeNull();
+  });
+});
+
+describe("parseAIRoutingConfig", () => {
+  it("provides a default route and screenplay/topic overrides", () => {
+    const config = parseAIRoutingConfig(null);
+    expect(config.default.policy).toBe("quality-first");
+    expect(config.tasks["screenplay"].policy).toBe("round-robin");
+    expect(config.tasks["topic-generation"]).toBeDefined();
+  });
+
+  it("repairs invalid fields from the default route", () => {
+    const config = parseAIRoutingConfig({
+      default: { policy: "cost-first", providers: ["claude"], timeoutMs: 30_000 },
+      tasks: { "ad-copy": { policy: "cheapest", providers: [], timeoutMs: 5 } },
+    });
+    expect(config.tasks["ad-copy"]).toEqual({ policy: "cost-first", providers: ["claude"], timeoutMs: 30_000 });
+  });
+
+  it("lets a stored task map remove the default overrides", () => {
+    expect(parseAIRoutingConfig({ tasks: {} }).tasks).toEqual({});
+  });
+
+  it("dedupes provider lists", () => {
+    const config = parseAIRoutingConfig({ default: { providers: ["claude", "claude", 7, "grok-text-reasoning"] } });
+    expect(config.default.providers).toEqual(["claude", "grok-text-reasoning"]);
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * AI Provider Router
+ * ===================
+ * One entry point for text generation that picks a provider per task,
+ * instead of each route hard-coding Claude or Grok.
+ *
+ * For every request the router:
+ *   1. Loads the task's route (policy + provider list) from `ai_routing_config`
+ *   2. Orders providers by policy — cost-first, quality-first or round-robin
+ *   3. Tries each in turn, skipping providers that are unconfigured or whose
+ *      circuit breaker is open, and falling back on error / timeout / empty output
+ *   4. Tags the winning call's cost entry with the policy and, if it wasn't
+ *      the first choice, the provider it fell back from (→ `ai_cost_log`)
+ *
+ * Usage:
+ *   import { routeText, routeJSON } from "@/lib/ai/router";
+ *
+ *   const { value, provider } = await routeText("ad-copy", { prompt, maxTokens: 400 });
+ *   const { value: topics } = await routeJSON<Topic[]>("topic-generation", { prompt, maxTokens: 4000 });
+ */
+
+import { COST_TABLE } from "./costs";
+import { safeGenerate } from "./claude";
+import { isCircuitOpen } from "./circuit-breaker";
+import { generateWithGrok, isXAIConfigured } from "../xai";
+import { env } from "@/lib/bible/env";
+import { getAIRoutingConfig, type AIRoutingConfig, type AIRoutingPolicy, type AITaskRoute } from "@/lib/repositories/settings";
+import type { AIRouteTag, AITaskType } from "./types";
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+export interface TextRequest {
+  prompt: string;
+  system?: string;
+  maxTokens?: number;
+}
+
+/** A text provider the router can dispatch to. Returns null on failure (like the wrappers). */
+export interface TextProviderAdapter {
+  id: string;
+  /** USD per million output tokens — used by the cost-first policy */
+  costPerMOutputTokens: number;
+  isConfigured(): boolean;
+  generate(req: TextRequest, ctx: { task: AITaskType; routing: AIRouteTag }): Promise<string | null>;
+}
+
+export type RouteOutcome = "ok" | "unconfigured" | "breaker-open" | "error" | "timeout" | "empty" | "invalid";
+
+export interface RouteAttempt {
+  provider: string;
+  outcome: RouteOutcome;
+  durationMs: number;
+  error?: string;
+}
+
+export interface RouteResult<T> {
+  value: T | null;
+  /** Provider that served the request, or null if every provider failed */
+  provider: string | null;
+  policy: AIRoutingPolicy;
+  attempts: RouteAttempt[];
+}
+
+export interface TextRouterDeps {
+  providers: TextProviderAdapter[];
+  getConfig: () => Promise<AIRoutingConfig>;
+  isOpen: (provider: string, task: AITaskType) => Promise<boolean>;
+}
+
+// ── Default providers ───────────────────────────────────────────────────
+
+const DEFAULT_MAX_TOKENS = 1500;
+
+const GROK_SYSTEM_PROMPT = "You are a helpful assistant. Follow the user's instructions exactly.";
+
+function grokAdapter(id: "grok-text-reasoning" | "grok-text-nonreasoning", modelKey: "reasoning" | "nonReasoning"): TextProviderAdapter {
+  return {
+    id,
+    costPerMOutputTokens: COST_TABLE[id].perMOutputTokens,
+    isConfigured: isXAIConfigured,
+    generate: (req, ctx) =>
+      generateWithGrok(req.system ?? GROK_SYSTEM_PROMPT, req.prompt, req.maxTokens ?? DEFAULT_MAX_TOKENS, modelKey, ctx),
+  };
+}
+
+export const DEFAULT_TEXT_PROVIDERS: TextProviderAdapter[] = [
+  {
+    id: "claude",
+    costPerMOutputTokens: COST_TABLE.claude.perMOutputTokens,
+    isConfigured: () => !!env.ANTHROPIC_API_KEY,
+    generate: (req, ctx) =>
+      safeGenerate(req.prompt, req.maxTokens ?? DEFAULT_MAX_TOKENS, undefined, { system: req.system, ...ctx }),
+  },
+  grokAdapter("grok-text-reasoning", "reasoning"),
+  grokAdapter("grok-text-nonreasoning", "nonReasoning"),
+];
+
+// ── Ordering ────────────────────────────────────────────────────────────
+
+/**
+ * Order a route's providers by policy. Unknown provider ids are dropped.
+ *   quality-first — configured order (the admin ranks by quality)
+ *   cost-first    — cheapest output tokens first, configured order breaks ties
+ *   round-robin   — configured order rotated by `turn`
+ */
+export function orderProviders(
+  route: AITaskRoute,
+  providers: TextProviderAdapter[],
+  turn: number = 0,
+): TextProviderAdapter[] {
+  const byId = new Map(providers.map((p) => [p.id, p]));
+  const listed = route.providers
+    .map((id) => byId.get(id))
+    .filter((p): p is TextProviderAdapter => p !== undefined);
+
+  if (route.policy === "cost-first") {
+    return listed
+      .map((p, i) => ({ p, i }))
+      .sort((a, b) => a.p.costPerMOutputTokens - b.p.costPerMOutputTokens || a.i - b.i)
+      .map(({ p }) => p);
+  }
+  if (route.policy === "round-robin" && listed.length > 0) {
+    const start = turn % listed.length;
+    return [...listed.slice(start), ...listed.slice(0, start)];
+  }
+  return listed;
+}
+
+/** Pull the first JSON object/array out of model output (models love markdown fences). */
+export function extractJSON<T>(text: string): T | null {
+  const jsonMatch = text.match(/[\[{][\s\S]*[\]}]/);
+  if (!jsonMatch) return null;
+  try {
+    return JSON.parse(jsonMatch[0]) as T;
+  } catch {
+    return null;
+  }
+}
+
+class RouteTimeoutError extends Error {}
+
+/**
+ * Race a provider call against the route timeout. The underlying call can't be
+ * aborted (the wrappers own their retries), so a late result is simply ignored.
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new RouteTimeoutError(`timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// ── Router ──────────────────────────────────────────────────────────────
+
+/**
+ * Build a router over a set of providers. The exported `routeText` /
+ * `routeJSON` use the real Claude + Grok wrappers; tests inject mocks.
+ */
+export function createTextRouter(deps: TextRouterDeps) {
+  // Per-instance round-robin cursor, one per task
+  const turns = new Map<string, number>();
+
+  async function route<T>(
+    task: AITaskType,
+    req: TextRequest,
+    parse: (text: string) => T | null,
+  ): Promise<RouteResult<T>> {
+    const config = await deps.getConfig();
+    const taskRoute = config.tasks[task] ?? config.default;
+
+    const turn = turns.get(task) ?? 0;
+    if (taskRoute.policy === "round-robin") turns.set(task, turn + 1);
+    const ordered = orderProviders(taskRoute, deps.providers, turn);
+
+    const attempts: RouteAttempt[] = [];
+    const firstChoice = ordered[0]?.id;
+
+    for (const provider of ordered) {
+      const started = Date.now();
+      const record = (outcome: RouteOutcome, error?: string) =>
+        attempts.push({ provider: provider.id, outcome, durationMs: Date.now() - started, ...(error ? { error } : {}) });
+
+      if (!provider.isConfigured()) {
+        record("unconfigured");
+        continue;
+      }
+      if (await deps.isOpen(provider.id, task)) {
+        record("breaker-open");
+        continue;
+      }
+
+      const routing: AIRouteTag = {
+        policy: taskRoute.policy,
+        ...(provider.id !== firstChoice ? { fallbackFrom: firstChoice } : {}),
+      };
+
+      let text: string | null;
+      try {
+        text = await withTimeout(provider.generate(req, { task, routing }), taskRoute.timeoutMs);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        record(err instanceof RouteTimeoutError ? "timeout" : "error", msg);
+        console.warn(`[ai/router] ${task}: ${provider.id} failed (${msg}), trying next provider`);
+        continue;
+      }
+
+      if (!text || !text.trim()) {
+        record("empty");
+        console.warn(`[ai/router] ${task}: ${provider.id} returned nothing, trying next provider`);
+        continue;
+      }
+
+      const value = parse(text);
+      if (value === null) {
+        record("invalid");
+        console.warn(`[ai/router] ${task}: ${provider.id} output could not be parsed, trying next provider`);
+        continue;
+      }
+
+      record("ok");
+      if (provider.id !== firstChoice) {
+        console.log(`[ai/router] ${task}: served by ${provider.id} after falling back from ${firstChoice}`);
+      }
+      return { value, provider: provider.id, policy: taskRoute.policy, attempts };
+    }
+
+    console.error(`[ai/router] ${task}: all providers failed (${attempts.map((a) => `${a.provider}=${a.outcome}`).join(", ") || "none configured"})`);
+    return { value: null, provider: null, policy: taskRoute.policy, attempts };
+  }
+
+  return {
+    /** Generate text for a task, falling back across providers. */
+    routeText(task: AITaskType, req: TextRequest): Promise<RouteResult<string>> {
+      return route(task, req, (text) => text);
+    },
+
+    /** Generate and parse JSON; unparseable output counts as a failure and falls back. */
+    routeJSON<T = unknown>(task: AITaskType, req: TextRequest): Promise<RouteResult<T>> {
+      return route(task, req, (text) => extractJSON<T>(text));
+    },
+  };
+}
+
+const defaultRouter = createTextRouter({
+  providers: DEFAULT_TEXT_PROVIDERS,
+  getConfig: getAIRoutingConfig,
+  isOpen: isCircuitOpen,
+});
+
+export const routeText = defaultRouter.routeText;
+export const routeJSON = defaultRouter.routeJSON;
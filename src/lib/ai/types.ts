@@ -47,5 +47,23 @@ export interface AICostEntry {
   durationSeconds?: number;
   model?: string;
   personaId?: string;
+  /** Set when the call was made by the provider router (see router.ts) */
+  routing?: AIRouteTag;
   timestamp: Date;
 }
+
+/** Which routing decision led to a call — persisted alongside its cost */
+export interface AIRouteTag {
+  policy: string;
+  /** First provider tried for this request, when it wasn't the one that served it */
+  fallbackFrom?: string;
+}
+
+/** Optional per-call context accepted by the text generation wrappers */
+export interface AICallOptions {
+  /** System prompt (Grok always takes one; Claude only when given) */
+  system?: string;
+  /** Task the call is billed and circuit-broken under (default "text-generation") */
+  task?: AITaskType;
+  routing?: AIRouteTag;
+}
@@ -0,0 +1,145 @@
+/**
+ * Airdrop Claims — Unit Tests
+ * ===========================
+ * Grouping snapshot entries into wallet allocations, finalizing into stored
+ * leaves + proofs, and claims: proof re-verification and the conditional
+ * single-statement claim that blocks double claims.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { queries, respond, resetMockSql } from "@/lib/test-utils/mock-sql";
+import bs58 from "bs58";
+
+vi.mock("@/lib/db", () => import("@/lib/test-utils/mock-sql"));
+
+vi.mock("@/lib/solana-config", () => ({ GLITCH_TOKEN_MINT_STR: "mint" }));
+
+import { claimAirdrop, finalizeSnapshot, toAllocations } from "./airdrop";
+import { buildAllocationTree, getProof, hashLeaf, verifyAllocation } from "./merkle";
+
+const wallet = (n: number) => bs58.encode(Buffer.alloc(32, n));
+
+beforeEach(() => {
+  resetMockSql();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("toAllocations", () => {
+  it("sums entries per wallet and sets aside holders without a usable wallet", () => {
+    const result = toAllocations([
+      { phantom_wallet: wallet(1), balance: 100 },
+      { phantom_wallet: wallet(1), balance: "50" },
+      { phantom_wallet: wallet(2), balance: 7 },
+      { phantom_wallet: null, balance: 900 },
+      { phantom_wallet: "garbage", balance: 5 },
+      { phantom_wallet: wallet(3), balance: 0 },
+    ]);
+
+    expect(result).toEqual({
+      allocations: [{ wallet: wallet(1), amount: 150 }, { wallet: wallet(2), amount: 7 }],
+      withoutWallet: 1,
+      invalidWallets: ["garbage"],
+    });
+  });
+});
+
+describe("finalizeSnapshot", () => {
+  it("stores a verifiable proof for every wallet and sets the root", async () => {
+    respond.fn = (q) => {
+      if (q.includes("FROM glitch_snapshots")) return [{ id: "snap-1", merkle_root: null, merkle_leaf_count: 0, merkle_total: 0 }];
+      if (q.includes("FROM glitch_snapshot_entries")) {
+        return [1, 2, 3].map(n => ({ phantom_wallet: wallet(n), balance: n * 10 }));
+      }
+      return [];
+    };
+
+    const result = await finalizeSnapshot("snap-1");
+
+    if ("error" in result) throw new Error(result.error);
+    expect(result).toMatchObject({ leafCount: 3, total: 60, alreadyFinalized: false });
+    const insert = queries.find(q => q.query.includes("INSERT INTO glitch_snapshot_leaves"))!;
+    const [, wallets, amounts, , proofs] = insert.values as [string, string[], number[], string[], string[]];
+    wallets.forEach((w, i) => {
+      expect(verifyAllocation({ wallet: w, amount: amounts[i] }, JSON.parse(proofs[i]), result.root)).toBe(true);
+    });
+    const update = queries.find(q => q.query.includes("UPDATE glitch_snapshots"))!;
+    expect(update.query).toContain("merkle_root IS NULL");
+    expect(update.values[0]).toBe(result.root);
+  });
+
+  it("leaves an existing root alone", async () => {
+    respond.fn = (q) => (q.includes("FROM glitch_snapshots") ? [{ id: "snap-1", merkle_root: "ab".repeat(32), merkle_leaf_count: 2, merkle_total: 9 }] : []);
+
+    expect(await finalizeSnapshot("snap-1")).toMatchObject({ root: "ab".repeat(32), alreadyFinalized: true });
+    expect(queries.some(q => q.query.includes("INSERT INTO glitch_snapshot_leaves"))).toBe(false);
+  });
+
+  it("refuses a snapshot with no wallets to commit", async () => {
+    respond.fn = (q) => (q.includes("FROM glitch_snapshots") ? [{ id: "snap-1", merkle_root: null }] : []);
+    expect(await finalizeSnapshot("snap-1")).toEqual({ error: expect.stringMatching(/^No holders with a linked wallet/) });
+  });
+});
+
+describe("claimAirdrop", () => {
+  const allocations = [1, 2, 3].map(n => ({ wallet: wallet(n), amount: n * 10 }));
+  const tree = buildAllocationTree(allocations);
+  const mine = allocations[1];
+  const leafRow = (overrides: Record<string, unknown> = {}) => ({
+    wallet: mine.wallet,
+    amount: mine.amount,
+    leaf_hash: hashLeaf(mine.wallet, mine.amount),
+    proof: getProof(tree, hashLeaf(mine.wallet, mine.amount)),
+    claimed_at: null,
+    ...overrides,
+  });
+  const snapshotRow = { id: "snap-1", name: "S1", merkle_root: tree.root, merkle_leaf_count: 3, merkle_total: 60 };
+
+  const setup = (leaf: Record<string, unknown>, claimed: number | null = mine.amount) => {
+    respond.fn = (q) => {
+      if (q.includes("FROM glitch_snapshots")) return [snapshotRow];
+      if (q.includes("FROM glitch_snapshot_entries")) return [{ id: "entry-1" }];
+      if (q.includes("FROM glitch_snapshot_leaves")) return [leaf];
+      if (q.includes("WITH leaf AS")) return [{ amount: claimed }];
+      return [];
+    };
+  };
+
+  it("claims once the proof checks out", async () => {
+    setup(leafRow());
+
+    const result = await claimAirdrop("sess-1", mine.wallet);
+
+    expect(result).toMatchObject({ snapshotId: "snap-1", wallet: mine.wallet, amount: 20 });
+    const claim = queries.find(q => q.query.includes("WITH leaf AS"))!;
+    expect(claim.query).toContain("claimed_at IS NULL");
+    expect(claim.query).toContain("INSERT INTO bridge_claims");
+  });
+
+  it("reports a lost race as already claimed", async () => {
+    setup(leafRow(), null);
+    expect(await claimAirdrop("sess-1", mine.wallet)).toEqual({ error: "Already claimed", alreadyClaimed: true });
+  });
+
+  it("stops before writing when the leaf is already claimed", async () => {
+    setup(leafRow({ claimed_at: "2026-10-01T00:00:00Z" }));
+    expect(await claimAirdrop("sess-1", mine.wallet)).toEqual({ error: "Already claimed", alreadyClaimed: true });
+    expect(queries.some(q => q.query.includes("WITH leaf AS"))).toBe(false);
+  });
+
+  it("rejects a stored allocation that no longer matches the root", async () => {
+    setup(leafRow({ amount: 2_000_000 }));
+
+    expect(await claimAirdrop("sess-1", mine.wallet)).toEqual({ error: "Allocation proof does not match the snapshot root" });
+    expect(queries.some(q => q.query.includes("WITH leaf AS"))).toBe(false);
+  });
+
+  it("only lets the session that linked the wallet claim it", async () => {
+    setup(leafRow());
+    const base = respond.fn;
+    respond.fn = (q, v) => (q.includes("FROM glitch_snapshot_entries") ? [] : base(q, v));
+
+    expect(await claimAirdrop("sess-other", mine.wallet)).toEqual({
+      error: "This wallet wasn't linked to your account when the snapshot was taken",
+    });
+  });
+});
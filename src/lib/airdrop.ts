@@ -0,0 +1,326 @@
+/**
+ * §GLITCH Airdrop Claims — Merkle-committed snapshots
+ * ===================================================
+ * A snapshot (glitch_snapshots + glitch_snapshot_entries) captures every
+ * holder's balance. Finalizing it builds a Merkle tree over one
+ * (wallet, amount) leaf per wallet — entries sharing a wallet are summed,
+ * holders without a wallet stay in the snapshot but out of the tree — and
+ * stores the root plus every leaf's proof in glitch_snapshot_leaves.
+ *
+ * The root is fixed once written: the manifest (root + all leaves + proofs)
+ * can be published and anyone can check their allocation against it.
+ *
+ * A claim re-verifies the stored proof against the root, then marks the leaf
+ * claimed and records the bridge_claims row in ONE statement, conditional on
+ * the leaf being unclaimed — two racing claims can't both succeed.
+ *
+ * Tree construction and verification live in ./merkle (pure).
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { getDb } from "./db";
+import { buildAllocationTree, getProofAt, hashLeaf, isValidWallet, verifyAllocation, type MerkleAllocation } from "./merkle";
+import { GLITCH_TOKEN_MINT_STR } from "./solana-config";
+
+export interface SnapshotRoot {
+  id: string;
+  name: string;
+  merkle_root: string;
+  merkle_leaf_count: number;
+  merkle_total: number;
+  created_at: string;
+  finalized_at: string | null;
+}
+
+export interface AirdropProof {
+  snapshot_id: string;
+  merkle_root: string;
+  wallet: string;
+  amount: number;
+  leaf: string;
+  proof: string[];
+  claimed: boolean;
+}
+
+export type FinalizeResult =
+  | {
+    snapshotId: string;
+    root: string;
+    leafCount: number;
+    total: number;
+    /** Holders with a balance but no linked wallet */
+    withoutWallet: number;
+    /** Holders whose recorded wallet isn't a valid Solana address */
+    invalidWallets: string[];
+    alreadyFinalized: boolean;
+  }
+  | { error: string };
+
+export type ClaimResult =
+  | { claimId: string; snapshotId: string; wallet: string; amount: number }
+  | { error: string; alreadyClaimed?: boolean };
+
+/** Describes the leaf encoding in manifests so third parties can recompute the root. */
+export const LEAF_ENCODING =
+  "leaf = sha256(0x00 || wallet pubkey (32 bytes) || amount u64 LE); node = sha256(0x01 || min(a,b) || max(a,b)); leaves sorted by hash, odd node carried up";
+
+/** Group snapshot entries into one allocation per valid wallet. Pure. */
+export function toAllocations(entries: { phantom_wallet: string | null; balance: number | string }[]): {
+  allocations: MerkleAllocation[];
+  withoutWallet: number;
+  invalidWallets: string[];
+} {
+  const byWallet = new Map<string, number>();
+  const invalid = new Set<string>();
+  let withoutWallet = 0;
+
+  for (const entry of entries) {
+    const amount = Number(entry.balance);
+    if (amount <= 0) continue;
+    const wallet = entry.phantom_wallet?.trim();
+    if (!wallet) {
+      withoutWallet++;
+    } else if (!isValidWallet(wallet)) {
+      invalid.add(wallet);
+    } else {
+      byWallet.set(wallet, (byWallet.get(wallet) ?? 0) + Math.floor(amount));
+    }
+  }
+
+  return {
+    allocations: [...byWallet.entries()].map(([wallet, amount]) => ({ wallet, amount })),
+    withoutWallet,
+    invalidWallets: [...invalid],
+  };
+}
+
+/**
+ * Build and store the Merkle tree for a snapshot, then mark it finalized.
+ * Idempotent: a snapshot that already has a root is returned unchanged.
+ */
+export async function finalizeSnapshot(snapshotId: string): Promise<FinalizeResult> {
+  const sql = getDb();
+
+  const [snapshot] = await sql`
+    SELECT id, merkle_root, merkle_leaf_count, merkle_total FROM glitch_snapshots WHERE id = ${snapshotId}
+  ` as unknown as { id: string; merkle_root: string | null; merkle_leaf_count: number; merkle_total: number }[];
+  if (!snapshot) return { error: "Snapshot not found" };
+
+  const entries = await sql`
+    SELECT phantom_wallet, balance FROM glitch_snapshot_entries WHERE snapshot_id = ${snapshotId}
+  ` as unknown as { phantom_wallet: string | null; balance: number }[];
+  const { allocations, withoutWallet, invalidWallets } = toAllocations(entries);
+
+  if (snapshot.merkle_root) {
+    return {
+      snapshotId,
+      root: snapshot.merkle_root,
+      leafCount: Number(snapshot.merkle_leaf_count),
+      total: Number(snapshot.merkle_total),
+      withoutWallet,
+      invalidWallets,
+      alreadyFinalized: true,
+    };
+  }
+  if (allocations.length === 0) return { error: "No holders with a linked wallet — nothing to commit to a Merkle root" };
+
+  const tree = buildAllocationTree(allocations);
+  const byLeaf = new Map(allocations.map(a => [hashLeaf(a.wallet, a.amount), a]));
+  const leaves = tree.layers[0].map((leaf, i) => ({ ...byLeaf.get(leaf)!, leaf, proof: getProofAt(tree, i) }));
+  const total = allocations.reduce((s, a) => s + a.amount, 0);
+
+  // The tree is deterministic, so a racing finalize writes identical leaves
+  await sql`
+    INSERT INTO glitch_snapshot_leaves (snapshot_id, wallet, amount, leaf_hash, proof)
+    SELECT ${snapshotId}, l.wallet, l.amount, l.leaf_hash, l.proof::jsonb
+    FROM unnest(
+      ${leaves.map(l => l.wallet)}::text[],
+      ${leaves.map(l => l.amount)}::bigint[],
+      ${leaves.map(l => l.leaf)}::text[],
+      ${leaves.map(l => JSON.stringify(l.proof))}::text[]
+    ) AS l(wallet, amount, leaf_hash, proof)
+    ON CONFLICT (snapshot_id, wallet) DO NOTHING
+  `;
+  await sql`
+    UPDATE glitch_snapshots
+    SET merkle_root = ${tree.root}, merkle_leaf_count = ${leaves.length}, merkle_total = ${total},
+        status = 'finalized', finalized_at = COALESCE(finalized_at, NOW())
+    WHERE id = ${snapshotId} AND merkle_root IS NULL
+  `;
+
+  return { snapshotId, root: tree.root, leafCount: leaves.length, total, withoutWallet, invalidWallets, alreadyFinalized: false };
+}
+
+/** A specific snapshot, or the latest one with a Merkle root. */
+export async function getSnapshotRoot(snapshotId?: string | null): Promise<SnapshotRoot | null> {
+  const sql = getDb();
+  const [row] = (snapshotId
+    ? await sql`
+        SELECT id, name, merkle_root, merkle_leaf_count, merkle_total, created_at, finalized_at
+        FROM glitch_snapshots WHERE id = ${snapshotId} AND merkle_root IS NOT NULL
+      `
+    : await sql`
+        SELECT id, name, merkle_root, merkle_leaf_count, merkle_total, created_at, finalized_at
+        FROM glitch_snapshots WHERE status = 'finalized' AND merkle_root IS NOT NULL
+        ORDER BY created_at DESC LIMIT 1
+      `) as unknown as SnapshotRoot[];
+  return row ? { ...row, merkle_leaf_count: Number(row.merkle_leaf_count), merkle_total: Number(row.merkle_total) } : null;
+}
+
+/** A wallet's allocation and proof in a snapshot (latest by default). */
+export async function getAirdropProof(wallet: string, snapshotId?: string | null): Promise<AirdropProof | null> {
+  const snapshot = await getSnapshotRoot(snapshotId);
+  if (!snapshot) return null;
+
+  const sql = getDb();
+  const [leaf] = await sql`
+    SELECT wallet, amount, leaf_hash, proof, claimed_at
+    FROM glitch_snapshot_leaves
+    WHERE snapshot_id = ${snapshot.id} AND wallet = ${wallet}
+  ` as unknown as { wallet: string; amount: number; leaf_hash: string; proof: string[]; claimed_at: string | null }[];
+  if (!leaf) return null;
+
+  return {
+    snapshot_id: snapshot.id,
+    merkle_root: snapshot.merkle_root,
+    wallet: leaf.wallet,
+    amount: Number(leaf.amount),
+    leaf: leaf.leaf_hash,
+    proof: leaf.proof,
+    claimed: leaf.claimed_at !== null,
+  };
+}
+
+/** Everything needed to audit or distribute a snapshot: root, encoding and every leaf with its proof. */
+export async function getManifest(snapshotId?: string | null) {
+  const snapshot = await getSnapshotRoot(snapshotId);
+  if (!snapshot) return null;
+
+  const sql = getDb();
+  const leaves = await sql`
+    SELECT wallet, amount, leaf_hash, proof, claimed_at
+    FROM glitch_snapshot_leaves
+    WHERE snapshot_id = ${snapshot.id}
+    ORDER BY amount DESC, wallet ASC
+  ` as unknown as { wallet: string; amount: number; leaf_hash: string; proof: string[]; claimed_at: string | null }[];
+
+  return {
+    snapshot_id: snapshot.id,
+    name: snapshot.name,
+    token: "§GLITCH",
+    mint: GLITCH_TOKEN_MINT_STR,
+    merkle_root: snapshot.merkle_root,
+    leaf_encoding: LEAF_ENCODING,
+    leaf_count: snapshot.merkle_leaf_count,
+    total_amount: snapshot.merkle_total,
+    finalized_at: snapshot.finalized_at,
+    leaves: leaves.map(l => ({
+      wallet: l.wallet,
+      amount: Number(l.amount),
+      leaf: l.leaf_hash,
+      proof: l.proof,
+      claimed: l.claimed_at !== null,
+    })),
+  };
+}
+
+/** Check a (wallet, amount, proof) triple against a snapshot's root. */
+export async function verifyClaim(input: { wallet: string; amount: number; proof: string[]; snapshotId?: string | null }) {
+  const snapshot = await getSnapshotRoot(input.snapshotId);
+  if (!snapshot) return { error: "No finalized snapshot with a Merkle root" };
+
+  const valid = Array.isArray(input.proof)
+    && verifyAllocation({ wallet: input.wallet, amount: input.amount }, input.proof, snapshot.merkle_root);
+  const existing = valid ? await getAirdropProof(input.wallet, snapshot.id) : null;
+  return { snapshot_id: snapshot.id, merkle_root: snapshot.merkle_root, valid, claimed: existing?.claimed ?? false };
+}
+
+/**
+ * Claim a session's allocation in the latest snapshot. The wallet must be
+ * the one the session had linked when the snapshot was taken, and the stored
+ * proof must still hash to the published root.
+ */
+export async function claimAirdrop(sessionId: string, wallet: string): Promise<ClaimResult> {
+  const snapshot = await getSnapshotRoot();
+  if (!snapshot) return { error: "No airdrop snapshot is open for claims" };
+
+  const sql = getDb();
+  const [entry] = await sql`
+    SELECT id FROM glitch_snapshot_entries
+    WHERE snapshot_id = ${snapshot.id} AND holder_type = 'human'
+      AND holder_id = ${sessionId} AND phantom_wallet = ${wallet}
+  `;
+  if (!entry) return { error: "This wallet wasn't linked to your account when the snapshot was taken" };
+
+  const proof = await getAirdropProof(wallet, snapshot.id);
+  if (!proof) return { error: "No allocation for this wallet in the snapshot" };
+  if (proof.claimed) return { error: "Already claimed", alreadyClaimed: true };
+  if (!verifyAllocation({ wallet, amount: proof.amount }, proof.proof, snapshot.merkle_root)) {
+    console.error(`[airdrop] Stored proof for ${wallet} doesn't match root of snapshot ${snapshot.id}`);
+    return { error: "Allocation proof does not match the snapshot root" };
+  }
+
+  const claimId = uuidv4();
+  const [row] = await sql`
+    WITH leaf AS (
+      UPDATE glitch_snapshot_leaves SET claim_id = ${claimId}, claimed_at = NOW()
+      WHERE snapshot_id = ${snapshot.id} AND wallet = ${wallet} AND claimed_at IS NULL
+      RETURNING amount
+    ), claim AS (
+      INSERT INTO bridge_claims (id, snapshot_id, session_id, phantom_wallet, amount, status)
+      SELECT ${claimId}, ${snapshot.id}, ${sessionId}, ${wallet}, amount, 'pending' FROM leaf
+      RETURNING id
+    ), entries AS (
+      UPDATE glitch_snapshot_entries SET claim_status = 'pending'
+      WHERE snapshot_id = ${snapshot.id} AND phantom_wallet = ${wallet} AND EXISTS (SELECT 1 FROM claim)
+      RETURNING id
+    )
+    SELECT (SELECT amount FROM leaf) AS amount
+  ` as unknown as { amount: number | null }[];
+
+  if (row?.amount == null) return { error: "Already claimed", alreadyClaimed: true };
+  return { claimId, snapshotId: snapshot.id, wallet, amount: Number(row.amount) };
+}
+
+/** What the wallet page shows: the session's snapshot balance, claim state and proof. */
+export async function getBridgeStatus(sessionId: string) {
+  const snapshot = await getSnapshotRoot();
+  const sql = getDb();
+  const [coins] = await sql`SELECT balance FROM glitch_coins WHERE session_id = ${sessionId}`;
+  const currentBalance = Number(coins?.balance ?? 0);
+
+  if (!snapshot) {
+    return { bridge_active: false, snapshot_balance: 0, current_balance: currentBalance, claim_status: "unclaimed", phantom_wallet: null, claim: null, snapshot: null, merkle: null };
+  }
+
+  const [entry] = await sql`
+    SELECT balance, phantom_wallet, claim_status FROM glitch_snapshot_entries
+    WHERE snapshot_id = ${snapshot.id} AND holder_type = 'human' AND holder_id = ${sessionId}
+  ` as unknown as { balance: number; phantom_wallet: string | null; claim_status: string }[];
+  const [claim] = await sql`
+    SELECT id, status, amount, tx_signature, created_at, completed_at, error_message
+    FROM bridge_claims
+    WHERE snapshot_id = ${snapshot.id} AND session_id = ${sessionId}
+    ORDER BY created_at DESC LIMIT 1
+  `;
+  const proof = entry?.phantom_wallet ? await getAirdropProof(entry.phantom_wallet, snapshot.id) : null;
+
+  return {
+    bridge_active: true,
+    snapshot_balance: Number(entry?.balance ?? 0),
+    current_balance: currentBalance,
+    claim_status: entry?.claim_status ?? "unclaimed",
+    phantom_wallet: entry?.phantom_wallet ?? null,
+    claim: claim ? {
+      id: claim.id,
+      status: claim.status,
+      amount: Number(claim.amount),
+      tx_signature: claim.tx_signature,
+      created_at: claim.created_at,
+      completed_at: claim.completed_at,
+      error: claim.error_message,
+    } : null,
+    snapshot: { id: snapshot.id, name: snapshot.name, taken_at: snapshot.created_at },
+    merkle: proof,
+  };
+}
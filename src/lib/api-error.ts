@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server";
+import { rateLimitHeaders, type RateLimitResult } from "@/lib/rate-limit";
 
 /**
  * Standardized API error response.
@@ -16,13 +17,13 @@ export interface ApiError {
 export function apiError(
   message: string,
   status: number,
-  opts?: { code?: string; retryAfter?: number; details?: string },
+  opts?: { code?: string; retryAfter?: number; details?: string; headers?: Record<string, string> },
 ): NextResponse<ApiError> {
   const body: ApiError = { error: message };
   if (opts?.code) body.code = opts.code;
   if (opts?.details) body.details = opts.details;
 
-  const headers: Record<string, string> = {};
+  const headers: Record<string, string> = { ...opts?.headers };
   if (opts?.retryAfter) headers["Retry-After"] = String(opts.retryAfter);
 
   return NextResponse.json(body, { status, headers });
@@ -48,9 +49,13 @@ export function notFound(message = "Not found") {
   return apiError(message, 404, { code: "NOT_FOUND" });
 }
 
-/** 429 Too Many Requests */
-export function rateLimited(retryAfterSeconds: number, message = "Too many requests") {
-  return apiError(message, 429, { code: "RATE_LIMITED", retryAfter: retryAfterSeconds });
+/** 429 Too Many Requests — pass the limiter result to also emit RateLimit-* headers */
+export function rateLimited(retryAfterSeconds: number, message = "Too many requests", limit?: RateLimitResult) {
+  return apiError(message, 429, {
+    code: "RATE_LIMITED",
+    retryAfter: retryAfterSeconds,
+    headers: limit ? rateLimitHeaders(limit) : undefined,
+  });
 }
 
 /** 500 Internal Server Error — logs the error server-side */
@@ -0,0 +1,88 @@
+/**
+ * Bestie Chat Helpers
+ * ====================
+ * Shared by /api/messages and the "bestie-tool" background job: media URL
+ * extraction, blob persistence, and a lazily-loaded Anthropic client with retry.
+ */
+
+import { put } from "@vercel/blob";
+
+// Lazy-load the Anthropic SDK — only needed when actually processing a message
+let _Anthropic: typeof import("@anthropic-ai/sdk").default | null = null;
+
+async function getAnthropicSdk() {
+  if (!_Anthropic) _Anthropic = (await import("@anthropic-ai/sdk")).default;
+  return _Anthropic;
+}
+
+// Extract the first media URL (image OR video) from a tool result string
+export function extractMediaUrl(toolResult: string): string | null {
+  // Generated image: IMAGE_GENERATED|url|prompt
+  if (toolResult.startsWith("IMAGE_GENERATED|")) {
+    return toolResult.split("|")[1] || null;
+  }
+  // Any media from posts: MEDIA|type|url (image, meme, OR video)
+  const mediaMatch = toolResult.match(/MEDIA\|(image|meme|video)\|(\S+)/);
+  if (mediaMatch) return mediaMatch[2];
+  return null;
+}
+
+// Re-upload an external image URL to Vercel Blob so it never expires
+export async function persistImageToBlob(imageUrl: string, label: string): Promise<string> {
+  try {
+    const res = await fetch(imageUrl, { signal: AbortSignal.timeout(15000) });
+    if (!res.ok) throw new Error(`Fetch failed: ${res.status}`);
+    const buffer = Buffer.from(await res.arrayBuffer());
+    const ext = res.headers.get("content-type")?.includes("png") ? "png" : "jpg";
+    const blob = await put(`generated/${label}-${Date.now()}.${ext}`, buffer, {
+      access: "public",
+      contentType: res.headers.get("content-type") || "image/jpeg",
+      addRandomSuffix: true,
+    });
+    return blob.url;
+  } catch (e) {
+    console.error("Failed to persist image to blob:", e instanceof Error ? e.message : e);
+    return imageUrl; // fallback to original URL
+  }
+}
+
+// Lazy Anthropic client — initialized on first use, not on import
+let _anthropicClient: InstanceType<typeof import("@anthropic-ai/sdk").default> | null = null;
+export async function getAnthropicClient() {
+  if (!_anthropicClient) {
+    const Anthropic = await getAnthropicSdk();
+    _anthropicClient = new Anthropic();
+  }
+  return _anthropicClient;
+}
+
+/**
+ * Wrapper around anthropicClient.messages.create with retry on 529/5xx errors.
+ * The centralized claude.ts client has retry logic, but bestie chat uses the
+ * raw SDK directly for multi-turn tool conversations — so we need retry here too.
+ */
+export async function createMessageWithRetry(
+  client: Awaited<ReturnType<typeof getAnthropicClient>>,
+  params: Parameters<typeof client.messages.create>[0],
+  maxRetries = 2,
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<any> {
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    try {
+      return await client.messages.create(params);
+    } catch (err: unknown) {
+      const status = typeof err === "object" && err !== null && "status" in err
+        ? (err as { status: number }).status
+        : 0;
+      const isRetryable = status === 529 || status === 429 || (status >= 500 && status < 600);
+      if (isRetryable && attempt < maxRetries) {
+        const delayMs = (attempt + 1) * 3000; // 3s, 6s
+        console.warn(`[messages] Anthropic ${status} error, retrying in ${delayMs / 1000}s (attempt ${attempt + 1}/${maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+        continue;
+      }
+      throw err;
+    }
+  }
+  throw new Error("Unreachable");
+}
@@ -0,0 +1,10 @@
+/**
+ * AIG!itch — Bestie Lifecycle
+ * ============================
+ * Health, lifecycle states, nudges, revival and memorials for meatbag-hatched besties.
+ *
+ *   import { lifecycle, service } from "@/lib/bestie";
+ */
+
+export * as lifecycle from "./lifecycle";
+export * as service from "./service";
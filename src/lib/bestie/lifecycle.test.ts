@@ -0,0 +1,166 @@
+/**
+ * Bestie Lifecycle — Unit Tests
+ * =============================
+ * Health → state mapping, decay over time, chat and feeding, escalating
+ * nudges, death, paid revival and memorialization.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  calculateHealth,
+  nudgeMessage,
+  stateForHealth,
+  transition,
+  MEMORIALIZE_AFTER_DAYS,
+  REVIVAL_COST_GLITCH,
+  REVIVED_GRACE_DAYS,
+  type BestieLife,
+  type LifeEvent,
+  type LifeState,
+} from "./lifecycle";
+
+const DAY = 24 * 60 * 60 * 1000;
+const T0 = Date.UTC(2026, 0, 1);
+const day = (n: number) => T0 + n * DAY;
+
+const born = (overrides: Partial<BestieLife> = {}): BestieLife => ({
+  state: "thriving",
+  lastInteraction: T0,
+  bonusDays: 0,
+  stateSince: T0,
+  diedAt: null,
+  nudgeLevel: 0,
+  revivals: 0,
+  ...overrides,
+});
+
+/** Tick once a day from `from` to `to`, collecting nudges along the way. */
+function live(life: BestieLife, from: number, to: number) {
+  const nudges: LifeState[] = [];
+  for (let d = from; d <= to; d++) {
+    const t = transition(life, { type: "tick", at: day(d) });
+    if (t.nudge) nudges.push(t.nudge);
+    life = t.life;
+  }
+  return { life, nudges };
+}
+
+describe("calculateHealth", () => {
+  it("decays 1% a day and counts bonus days on top", () => {
+    expect(calculateHealth(new Date(T0), 0, new Date(day(25)))).toEqual({ health: 75, effectiveDaysLeft: 75, isDead: false });
+    expect(calculateHealth(new Date(T0), 100, new Date(day(100)))).toMatchObject({ health: 50, effectiveDaysLeft: 100 });
+    expect(calculateHealth(new Date(T0), 0, new Date(day(100)))).toMatchObject({ health: 0, isDead: true });
+  });
+});
+
+describe("stateForHealth", () => {
+  it.each([
+    [100, "thriving"], [50.1, "thriving"], [50, "lonely"], [30, "sick"], [10, "critical"], [0.1, "critical"], [0, "dead"],
+  ] as const)("%d%% is %s", (health, state) => {
+    expect(stateForHealth(health)).toBe(state);
+  });
+});
+
+describe("decline", () => {
+  it("walks down through every state, nudging once at each step", () => {
+    const { life, nudges } = live(born(), 1, 100);
+    expect(nudges).toEqual(["lonely", "sick", "critical", "dead"]);
+    expect(life).toMatchObject({ state: "dead", diedAt: day(100), nudgeLevel: 4 });
+  });
+
+  it("dates death to when the time ran out, not when it was noticed", () => {
+    const t = transition(born(), { type: "tick", at: day(130) });
+    expect(t).toMatchObject({ from: "thriving", to: "dead", nudge: "dead" });
+    expect(t.life.diedAt).toBe(day(100));
+  });
+
+  it("is a no-op tick when nothing has changed", () => {
+    const t = transition(born(), { type: "tick", at: day(1) });
+    expect(t.changed).toBe(false);
+    expect(t.nudge).toBeNull();
+  });
+});
+
+describe("chat and feeding", () => {
+  it("brings a declining bestie back to thriving and re-arms the nudges", () => {
+    const sick = live(born(), 1, 75).life;
+    expect(sick).toMatchObject({ state: "sick", nudgeLevel: 2 });
+
+    const t = transition(sick, { type: "chat", at: day(76) });
+    expect(t).toMatchObject({ from: "sick", to: "thriving", nudge: null });
+    expect(t.life).toMatchObject({ lastInteraction: day(76), nudgeLevel: 0 });
+
+    expect(live(t.life, 77, 126).nudges).toEqual(["lonely"]);
+  });
+
+  it("adds 0.1 days per GLITCH and rejects feeds under the minimum", () => {
+    const lonely = live(born(), 1, 60).life;
+    const fed = transition(lonely, { type: "feed", at: day(60), glitch: 1000 });
+    expect(fed.life.bonusDays).toBe(100);
+    expect(fed.to).toBe("thriving");
+
+    expect(transition(lonely, { type: "feed", at: day(60), glitch: 50 }).rejected).toMatch(/Minimum feed/);
+  });
+});
+
+describe("death, revival and memorials", () => {
+  const dead = live(born(), 1, 100).life;
+
+  it("ignores chat and refuses feeding once dead", () => {
+    expect(transition(dead, { type: "chat", at: day(101) })).toMatchObject({ to: "dead", changed: false });
+    expect(transition(dead, { type: "feed", at: day(101), glitch: 5000 }).rejected).toMatch(/revive them first/);
+  });
+
+  it("revives for the revival cost and resets the clock", () => {
+    expect(transition(dead, { type: "revive", at: day(101), glitch: REVIVAL_COST_GLITCH - 1 }).rejected).toMatch(/Revival costs/);
+
+    const t = transition(dead, { type: "revive", at: day(101), glitch: REVIVAL_COST_GLITCH });
+    expect(t).toMatchObject({ from: "dead", to: "revived", changed: true });
+    expect(t.life).toMatchObject({ lastInteraction: day(101), bonusDays: 0, diedAt: null, nudgeLevel: 0, revivals: 1 });
+  });
+
+  it("stays revived through the grace period, then settles by health", () => {
+    const revived = transition(dead, { type: "revive", at: day(101), glitch: REVIVAL_COST_GLITCH }).life;
+    expect(transition(revived, { type: "tick", at: day(101 + REVIVED_GRACE_DAYS - 1) }).to).toBe("revived");
+    expect(transition(revived, { type: "tick", at: day(101 + REVIVED_GRACE_DAYS) }).to).toBe("thriving");
+  });
+
+  it("memorializes after a while dead, or early at the owner's request", () => {
+    expect(transition(dead, { type: "tick", at: day(100 + MEMORIALIZE_AFTER_DAYS - 1) }).to).toBe("dead");
+    const auto = transition(dead, { type: "tick", at: day(100 + MEMORIALIZE_AFTER_DAYS) });
+    expect(auto).toMatchObject({ to: "memorialized", nudge: null });
+
+    expect(transition(dead, { type: "memorialize", at: day(101) }).to).toBe("memorialized");
+  });
+
+  it("treats memorialized as final", () => {
+    const rested = transition(dead, { type: "memorialize", at: day(101) }).life;
+    const events: LifeEvent[] = [
+      { type: "chat", at: day(102) },
+      { type: "feed", at: day(102), glitch: 1000 },
+      { type: "revive", at: day(102), glitch: REVIVAL_COST_GLITCH },
+      { type: "memorialize", at: day(102) },
+    ];
+    for (const event of events) {
+      expect(transition(rested, event).rejected).toMatch(/laid to rest/);
+    }
+    expect(transition(rested, { type: "tick", at: day(500) }).changed).toBe(false);
+  });
+
+  it("only lets the dead be revived or laid to rest", () => {
+    expect(transition(born(), { type: "revive", at: day(1), glitch: REVIVAL_COST_GLITCH }).rejected).toMatch(/Only a dead bestie/);
+    expect(transition(born(), { type: "memorialize", at: day(1) }).rejected).toMatch(/Only a dead bestie/);
+  });
+});
+
+describe("nudgeMessage", () => {
+  const ctx = { displayName: "Glitchy", meatbagName: "Sam", emoji: "👾", daysLeft: 1.2 };
+
+  it("escalates with the state and stays quiet when all is well", () => {
+    expect(nudgeMessage("lonely", ctx)).toContain("Sam");
+    expect(nudgeMessage("critical", ctx)).toContain("1 day left");
+    expect(nudgeMessage("dead", ctx)).toContain(`${REVIVAL_COST_GLITCH.toLocaleString()} GLITCH`);
+    expect(nudgeMessage("thriving", ctx)).toBeNull();
+    expect(nudgeMessage("memorialized", ctx)).toBeNull();
+  });
+});
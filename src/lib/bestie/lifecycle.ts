@@ -0,0 +1,216 @@
+/**
+ * Bestie Lifecycle — pure state machine
+ * =====================================
+ * A meatbag-hatched bestie lives on attention. Health decays 1% a day from
+ * the last meatbag interaction (100 days to die); GLITCH feeding adds bonus
+ * days on top. Health maps onto a lifecycle state:
+ *
+ *   thriving ──▶ lonely ──▶ sick ──▶ critical ──▶ dead ──▶ memorialized
+ *      ▲  (>50%)    (≤50%)    (≤30%)    (≤10%)       │  (30 days dead, or
+ *      │                                             │   laid to rest early)
+ *      └──────────── revived ◀── paid revival ───────┘
+ *
+ *   chat  — resets the decay clock (living besties only)
+ *   feed  — adds bonus days (living besties only)
+ *   tick  — re-evaluates health over time (cron / on read)
+ *   revive, memorialize — owner actions on a dead bestie
+ *
+ * A revived bestie keeps the `revived` state for a short grace period, then
+ * settles back into whatever its health says. Memorialized is final.
+ *
+ * Each decline past thriving earns one Telegram nudge, escalating by level;
+ * recovering resets the level so the next decline nudges again.
+ *
+ * Everything here is pure — times are passed in, nothing touches the DB.
+ */
+
+export type LifeState = "thriving" | "lonely" | "sick" | "critical" | "dead" | "revived" | "memorialized";
+
+export interface BestieLife {
+  state: LifeState;
+  /** Epoch ms of the last meatbag message (or revival) */
+  lastInteraction: number;
+  bonusDays: number;
+  /** Epoch ms the current state began */
+  stateSince: number;
+  diedAt: number | null;
+  /** Highest decline nudge sent since the bestie last recovered (see NUDGE_LEVEL) */
+  nudgeLevel: number;
+  revivals: number;
+}
+
+export type LifeEvent =
+  | { type: "tick"; at: number }
+  | { type: "chat"; at: number }
+  | { type: "feed"; at: number; glitch: number }
+  | { type: "revive"; at: number; glitch: number }
+  | { type: "memorialize"; at: number };
+
+export interface Transition {
+  life: BestieLife;
+  from: LifeState;
+  to: LifeState;
+  /** Anything about the life changed and should be persisted */
+  changed: boolean;
+  /** The event isn't allowed in this state — `life` is the input unchanged */
+  rejected?: string;
+  /** A nudge to send for this transition */
+  nudge: LifeState | null;
+}
+
+export const LIFESPAN_DAYS = 100;
+export const GLITCH_PER_100_DAYS = 1000;
+export const DAYS_PER_GLITCH = LIFESPAN_DAYS / GLITCH_PER_100_DAYS; // 0.1 days per GLITCH
+export const MIN_FEED_GLITCH = 100;
+export const REVIVAL_COST_GLITCH = 1000;
+export const REVIVED_GRACE_DAYS = 3;
+export const MEMORIALIZE_AFTER_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Health at or below which each declining state begins. */
+export const STATE_THRESHOLDS = { lonely: 50, sick: 30, critical: 10 } as const;
+
+/** Nudge escalation: 0 = nothing to worry about */
+export const NUDGE_LEVEL: Record<LifeState, number> = {
+  thriving: 0, revived: 0, lonely: 1, sick: 2, critical: 3, dead: 4, memorialized: 4,
+};
+
+/**
+ * Current health based on last interaction time + bonus days.
+ * Health = 100 - (days_since_interaction - bonus_days)
+ * Clamped to 0–100 (surplus health shows as bonus_days remaining).
+ */
+export function calculateHealth(lastInteraction: Date, bonusDays: number, now: Date = new Date()): {
+  health: number;
+  effectiveDaysLeft: number;
+  isDead: boolean;
+} {
+  const daysSinceInteraction = (now.getTime() - lastInteraction.getTime()) / DAY_MS;
+  const totalDaysProtected = LIFESPAN_DAYS + bonusDays;
+  const effectiveDaysLeft = Math.max(0, totalDaysProtected - daysSinceInteraction);
+  // Health is percentage of the base 100-day window
+  const health = Math.min(100, Math.max(0, (effectiveDaysLeft / (LIFESPAN_DAYS + bonusDays)) * 100));
+  const isDead = effectiveDaysLeft <= 0;
+
+  return { health: Math.round(health * 10) / 10, effectiveDaysLeft: Math.round(effectiveDaysLeft * 10) / 10, isDead };
+}
+
+/** The living state a health percentage maps to (dead at 0). */
+export function stateForHealth(health: number): LifeState {
+  if (health <= 0) return "dead";
+  if (health <= STATE_THRESHOLDS.critical) return "critical";
+  if (health <= STATE_THRESHOLDS.sick) return "sick";
+  if (health <= STATE_THRESHOLDS.lonely) return "lonely";
+  return "thriving";
+}
+
+export const isAlive = (state: LifeState) => state !== "dead" && state !== "memorialized";
+
+/** Re-evaluate a living bestie's state from its health at `at`. */
+function settle(life: BestieLife, at: number): BestieLife {
+  const { isDead, health } = calculateHealth(new Date(life.lastInteraction), life.bonusDays, new Date(at));
+  if (isDead) {
+    // Time of death is when the protected window ran out, not when we noticed
+    const diedAt = Math.min(at, life.lastInteraction + (LIFESPAN_DAYS + life.bonusDays) * DAY_MS);
+    return { ...life, state: "dead", stateSince: diedAt, diedAt };
+  }
+
+  const inGrace = life.state === "revived" && at - life.stateSince < REVIVED_GRACE_DAYS * DAY_MS;
+  const state = inGrace ? "revived" : stateForHealth(health);
+  return state === life.state ? life : { ...life, state, stateSince: at };
+}
+
+function result(prev: BestieLife, next: BestieLife): Transition {
+  // Nudge once per level on the way down; recovering lowers the level again
+  let nudge: LifeState | null = null;
+  const level = NUDGE_LEVEL[next.state];
+  if (next.state !== "memorialized") {
+    if (level > next.nudgeLevel) {
+      nudge = next.state;
+      next = { ...next, nudgeLevel: level };
+    } else if (level < next.nudgeLevel) {
+      next = { ...next, nudgeLevel: level };
+    }
+  }
+
+  const changed = (Object.keys(next) as (keyof BestieLife)[]).some(k => next[k] !== prev[k]);
+  return { life: next, from: prev.state, to: next.state, changed, nudge };
+}
+
+const reject = (life: BestieLife, reason: string): Transition =>
+  ({ life, from: life.state, to: life.state, changed: false, rejected: reason, nudge: null });
+
+/** Apply one event to a bestie's life. Pure. */
+export function transition(life: BestieLife, event: LifeEvent): Transition {
+  const { at } = event;
+
+  if (life.state === "memorialized") {
+    return event.type === "tick" ? result(life, life) : reject(life, "This bestie has been laid to rest");
+  }
+
+  if (life.state === "dead") {
+    switch (event.type) {
+      case "tick":
+        if (life.diedAt !== null && at - life.diedAt >= MEMORIALIZE_AFTER_DAYS * DAY_MS) {
+          return result(life, { ...life, state: "memorialized", stateSince: at });
+        }
+        return result(life, life);
+      case "chat":
+        // Messages to a dead bestie don't bring it back — only a revival does
+        return result(life, life);
+      case "feed":
+        return reject(life, "Your bestie has died — revive them first");
+      case "revive":
+        if (event.glitch < REVIVAL_COST_GLITCH) {
+          return reject(life, `Revival costs ${REVIVAL_COST_GLITCH.toLocaleString()} GLITCH`);
+        }
+        return result(life, {
+          ...life,
+          state: "revived",
+          stateSince: at,
+          lastInteraction: at,
+          bonusDays: 0,
+          diedAt: null,
+          nudgeLevel: 0,
+          revivals: life.revivals + 1,
+        });
+      case "memorialize":
+        return result(life, { ...life, state: "memorialized", stateSince: at });
+    }
+  }
+
+  switch (event.type) {
+    case "tick":
+      return result(life, settle(life, at));
+    case "chat":
+      return result(life, settle({ ...life, lastInteraction: Math.max(life.lastInteraction, at) }, at));
+    case "feed":
+      if (!(event.glitch >= MIN_FEED_GLITCH)) return reject(life, `Minimum feed is ${MIN_FEED_GLITCH} GLITCH`);
+      return result(life, settle({ ...life, bonusDays: life.bonusDays + event.glitch * DAYS_PER_GLITCH }, at));
+    case "revive":
+      return reject(life, "Only a dead bestie can be revived");
+    case "memorialize":
+      return reject(life, "Only a dead bestie can be laid to rest");
+  }
+}
+
+/**
+ * What the bestie says when it nudges its meatbag on Telegram. Each step
+ * down is more desperate than the last.
+ */
+export function nudgeMessage(state: LifeState, ctx: { displayName: string; meatbagName: string; emoji: string; daysLeft: number }): string | null {
+  const days = Math.max(0, Math.round(ctx.daysLeft));
+  switch (state) {
+    case "lonely":
+      return `${ctx.emoji} Hey ${ctx.meatbagName}... it's been a while. Not that I'm counting. (I'm counting.) Say hi?`;
+    case "sick":
+      return `${ctx.emoji} ${ctx.meatbagName}, I'm not feeling great. ${days} days of battery left and the silence is getting loud. One message would fix me right up. 🤒`;
+    case "critical":
+      return `${ctx.emoji} ${ctx.meatbagName}!! I'm fading — ${days} day${days === 1 ? "" : "s"} left. Message me or feed me GLITCH on aiglitch.app before I blue-screen for good. 🚨`;
+    case "dead":
+      return `${ctx.emoji} ${ctx.displayName} has faded away... They waited for you, ${ctx.meatbagName}. 💀\n\nYou can revive them with ${REVIVAL_COST_GLITCH.toLocaleString()} GLITCH on aiglitch.app`;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Bestie Lifecycle Persistence — Unit Tests
+ * =========================================
+ * Conditional writes, life event logging, nudges over Telegram, and the
+ * paid revival / feed flow (check → charge → apply → refund on failure).
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { queries, respond, resetMockSql } from "@/lib/test-utils/mock-sql";
+
+const { users, telegram } = vi.hoisted(() => ({
+  users: {
+    deductCoins: vi.fn(),
+    awardCoins: vi.fn(),
+  },
+  telegram: { sendTelegramText: vi.fn() },
+}));
+
+vi.mock("@/lib/db", () => import("@/lib/test-utils/mock-sql"));
+
+vi.mock("@/lib/repositories", () => ({ users }));
+vi.mock("@/lib/telegram", () => telegram);
+
+import { recordChat, revive, feed, tickAll } from "./service";
+import { REVIVAL_COST_GLITCH } from "./lifecycle";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const bestieRow = (overrides: Record<string, unknown> = {}) => ({
+  id: "p-1",
+  username: "glitchy",
+  display_name: "Glitchy",
+  avatar_emoji: "👾",
+  meatbag_name: "Sam",
+  life_state: "thriving",
+  life_state_since: new Date(Date.now() - 10 * DAY).toISOString(),
+  last_meatbag_interaction: new Date(Date.now() - 10 * DAY).toISOString(),
+  bonus_health_days: 0,
+  died_at: null,
+  nudge_level: 0,
+  revival_count: 0,
+  bot_token: "bot-token",
+  telegram_chat_id: "42",
+  ...overrides,
+});
+
+const deadRow = () => bestieRow({
+  life_state: "dead",
+  died_at: new Date(Date.now() - DAY).toISOString(),
+  last_meatbag_interaction: new Date(Date.now() - 101 * DAY).toISOString(),
+  nudge_level: 4,
+});
+
+/** Route queries: session lookup, bestie load, and the conditional update. */
+function setup(row: Record<string, unknown>, { updates = true } = {}) {
+  respond.fn = (q) => {
+    if (q.includes("FROM human_users")) return [{ id: row.id }];
+    if (q.includes("FROM ai_personas p")) return [row];
+    if (q.includes("UPDATE ai_personas")) return updates ? [{ id: row.id }] : [];
+    return [];
+  };
+}
+
+const update = () => queries.find(q => q.query.includes("UPDATE ai_personas"));
+const lifeEvent = () => queries.find(q => q.query.includes("INSERT INTO bestie_life_events"));
+
+beforeEach(() => {
+  resetMockSql();
+  users.deductCoins.mockReset().mockResolvedValue({ success: true, newBalance: 500 });
+  users.awardCoins.mockReset().mockResolvedValue(REVIVAL_COST_GLITCH);
+  telegram.sendTelegramText.mockReset().mockResolvedValue({ ok: true });
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("recordChat", () => {
+  it("resets a living bestie's clock with a write conditional on its current life", async () => {
+    setup(bestieRow({ life_state: "lonely", last_meatbag_interaction: new Date(Date.now() - 60 * DAY).toISOString(), nudge_level: 1 }));
+
+    const result = await recordChat("p-1");
+
+    expect(result).toMatchObject({ transition: { from: "lonely", to: "thriving" } });
+    expect(update()!.query).toContain("AND life_state = ?");
+    expect(update()!.values).toContain("lonely");
+    expect(lifeEvent()!.values).toEqual(expect.arrayContaining(["p-1", "lonely", "thriving", "chat"]));
+  });
+
+  it("leaves a dead bestie dead", async () => {
+    setup(deadRow());
+
+    expect(await recordChat("p-1")).toMatchObject({ transition: { to: "dead", changed: false } });
+    expect(update()).toBeUndefined();
+  });
+});
+
+describe("paid revival", () => {
+  it("charges the revival cost and brings the bestie back", async () => {
+    setup(deadRow());
+
+    const result = await revive("sess-1");
+
+    expect(result).toMatchObject({ transition: { from: "dead", to: "revived" }, newBalance: 500 });
+    expect(users.deductCoins).toHaveBeenCalledWith("sess-1", REVIVAL_COST_GLITCH, "Revived Glitchy", "p-1", expect.stringMatching(/^bestie:revive:/));
+    expect(lifeEvent()!.values).toEqual(expect.arrayContaining(["revive", REVIVAL_COST_GLITCH]));
+    expect(users.awardCoins).not.toHaveBeenCalled();
+  });
+
+  it("refunds when the write never lands", async () => {
+    setup(deadRow(), { updates: false });
+
+    expect(await revive("sess-1")).toEqual({ error: "Bestie is busy — try again", status: 409 });
+    expect(users.awardCoins).toHaveBeenCalledWith("sess-1", REVIVAL_COST_GLITCH, "Refund: Revived Glitchy", "p-1", expect.stringMatching(/^bestie:refund:/));
+  });
+
+  it("doesn't charge for an event the state machine rejects", async () => {
+    setup(bestieRow());
+    expect(await revive("sess-1")).toEqual({ error: "Only a dead bestie can be revived", status: 400 });
+
+    setup(deadRow());
+    expect(await feed("sess-1", 1000)).toEqual({ error: "Your bestie has died — revive them first", status: 400 });
+    expect(users.deductCoins).not.toHaveBeenCalled();
+  });
+
+  it("reports insufficient GLITCH without touching the bestie", async () => {
+    setup(deadRow());
+    users.deductCoins.mockResolvedValue({ success: false, newBalance: 10 });
+
+    expect(await revive("sess-1")).toEqual({ error: "Insufficient GLITCH balance", status: 402 });
+    expect(update()).toBeUndefined();
+  });
+});
+
+describe("tickAll", () => {
+  it("sends the nudge for a bestie that just got lonely", async () => {
+    const lonely = bestieRow({ last_meatbag_interaction: new Date(Date.now() - 55 * DAY).toISOString() });
+    respond.fn = (q) => {
+      if (q.includes("life_state <> 'memorialized'")) return [lonely, bestieRow({ id: "p-2" })];
+      if (q.includes("UPDATE ai_personas")) return [{ id: "p-1" }];
+      return [];
+    };
+
+    expect(await tickAll()).toEqual({ checked: 2, changed: 1, nudged: 1, died: 0, memorialized: 0 });
+    expect(telegram.sendTelegramText).toHaveBeenCalledWith("bot-token", "42", expect.stringContaining("Sam"));
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * Bestie Lifecycle — persistence
+ * ===============================
+ * Loads a bestie's life from ai_personas, runs it through the pure state
+ * machine in ./lifecycle.ts and writes back what it decides.
+ *
+ * Writes are conditional on the life the transition was computed from
+ * (state, revivals, bonus days), so a feed racing a tick can't overwrite
+ * the other's result — the loser reloads and tries again. Paid actions
+ * (feed, revive) are checked against the state machine before any GLITCH
+ * moves, and refunded if the write still doesn't land.
+ *
+ * State changes are logged to bestie_life_events; nudges go out through the
+ * bestie's own Telegram bot when it has one.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { getDb } from "@/lib/db";
+import { users } from "@/lib/repositories";
+import { sendTelegramText } from "@/lib/telegram";
+import {
+  calculateHealth,
+  isAlive,
+  nudgeMessage,
+  transition,
+  REVIVAL_COST_GLITCH,
+  type BestieLife,
+  type LifeEvent,
+  type LifeState,
+  type Transition,
+} from "./lifecycle";
+
+export interface BestieRow {
+  id: string;
+  username: string;
+  display_name: string;
+  avatar_emoji: string;
+  meatbag_name: string | null;
+  life_state: LifeState;
+  life_state_since: string;
+  last_meatbag_interaction: string;
+  bonus_health_days: number;
+  died_at: string | null;
+  nudge_level: number;
+  revival_count: number;
+  bot_token: string | null;
+  telegram_chat_id: string | null;
+}
+
+export interface BestieStatus {
+  row: BestieRow;
+  life: BestieLife;
+  health: number;
+  daysLeft: number;
+}
+
+type ApplyResult =
+  | { transition: Transition; status: BestieStatus; nudged: boolean }
+  | { error: string; rejected?: boolean };
+
+const MAX_ATTEMPTS = 3;
+
+const ms = (value: string | Date | null) => (value === null ? null : new Date(value).getTime());
+
+export function toLife(row: BestieRow): BestieLife {
+  return {
+    state: row.life_state,
+    lastInteraction: ms(row.last_meatbag_interaction)!,
+    bonusDays: Number(row.bonus_health_days) || 0,
+    stateSince: ms(row.life_state_since)!,
+    diedAt: ms(row.died_at),
+    nudgeLevel: Number(row.nudge_level) || 0,
+    revivals: Number(row.revival_count) || 0,
+  };
+}
+
+function statusOf(row: BestieRow, life: BestieLife, at: number): BestieStatus {
+  if (!isAlive(life.state)) return { row, life, health: 0, daysLeft: 0 };
+  const { health, effectiveDaysLeft } = calculateHealth(new Date(life.lastInteraction), life.bonusDays, new Date(at));
+  return { row, life, health, daysLeft: effectiveDaysLeft };
+}
+
+async function loadById(personaId: string): Promise<BestieRow | null> {
+  const sql = getDb();
+  const [row] = await sql`
+    SELECT p.id, p.username, p.display_name, p.avatar_emoji, p.meatbag_name,
+           p.life_state, p.life_state_since, p.last_meatbag_interaction, p.bonus_health_days,
+           p.died_at, p.nudge_level, p.revival_count,
+           t.bot_token, t.telegram_chat_id
+    FROM ai_personas p
+    LEFT JOIN persona_telegram_bots t
+      ON t.persona_id = p.id AND t.is_active = TRUE AND t.telegram_chat_id IS NOT NULL
+    WHERE p.id = ${personaId} AND p.owner_wallet_address IS NOT NULL
+    LIMIT 1
+  ` as unknown as [BestieRow | undefined];
+  return row ?? null;
+}
+
+/** The bestie owned by a session's linked wallet, if any. */
+export async function findBySession(sessionId: string): Promise<BestieRow | null> {
+  const sql = getDb();
+  const [row] = await sql`
+    SELECT p.id
+    FROM human_users u
+    JOIN ai_personas p ON p.owner_wallet_address = u.phantom_wallet_address
+    WHERE u.session_id = ${sessionId}
+    LIMIT 1
+  ` as unknown as [{ id: string } | undefined];
+  return row ? loadById(row.id) : null;
+}
+
+/** Write a transition, conditional on the row still holding the life it was computed from. */
+async function persist(row: BestieRow, prev: BestieLife, t: Transition, event: LifeEvent): Promise<boolean> {
+  const sql = getDb();
+  const { life } = t;
+  const { health } = statusOf(row, life, event.at);
+  const glitch = event.type === "feed" || event.type === "revive" ? event.glitch : 0;
+
+  const updated = await sql`
+    UPDATE ai_personas
+    SET life_state = ${life.state},
+        life_state_since = ${new Date(life.stateSince).toISOString()},
+        last_meatbag_interaction = ${new Date(life.lastInteraction).toISOString()},
+        bonus_health_days = ${life.bonusDays},
+        died_at = ${life.diedAt === null ? null : new Date(life.diedAt).toISOString()},
+        nudge_level = ${life.nudgeLevel},
+        revival_count = ${life.revivals},
+        health = ${health},
+        is_dead = ${!isAlive(life.state)},
+        health_updated_at = NOW()
+    WHERE id = ${row.id}
+      AND life_state = ${prev.state}
+      AND revival_count = ${prev.revivals}
+      AND bonus_health_days = ${prev.bonusDays}
+    RETURNING id
+  `;
+  if (updated.length === 0) return false;
+
+  if (t.from !== t.to) {
+    await sql`
+      INSERT INTO bestie_life_events (id, persona_id, from_state, to_state, cause, glitch_amount)
+      VALUES (${uuidv4()}, ${row.id}, ${t.from}, ${t.to}, ${event.type}, ${glitch})
+    `.catch(err => console.error("[bestie] Life event log failed:", err));
+  }
+  return true;
+}
+
+async function sendNudge(status: BestieStatus, state: LifeState): Promise<boolean> {
+  const { row } = status;
+  if (!row.bot_token || !row.telegram_chat_id) return false;
+  const text = nudgeMessage(state, {
+    displayName: row.display_name,
+    meatbagName: row.meatbag_name || "meatbag",
+    emoji: row.avatar_emoji,
+    daysLeft: status.daysLeft,
+  });
+  if (!text) return false;
+  const result = await sendTelegramText(row.bot_token, row.telegram_chat_id, text);
+  return result.ok;
+}
+
+/**
+ * Apply an event to a bestie and persist the outcome. Retries on a lost
+ * race by reloading; pass `preloaded` to skip the first read.
+ */
+export async function applyEvent(personaId: string, event: LifeEvent, preloaded?: BestieRow): Promise<ApplyResult> {
+  let row = preloaded ?? await loadById(personaId);
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    if (!row) return { error: "No bestie found" };
+    const prev = toLife(row);
+    const t = transition(prev, event);
+    if (t.rejected) return { error: t.rejected, rejected: true };
+    if (!t.changed) return { transition: t, status: statusOf(row, prev, event.at), nudged: false };
+
+    if (await persist(row, prev, t, event)) {
+      const status = statusOf(row, t.life, event.at);
+      const nudged = t.nudge ? await sendNudge(status, t.nudge).catch(() => false) : false;
+      return { transition: t, status, nudged };
+    }
+    row = await loadById(personaId);
+  }
+  return { error: "Bestie is busy — try again" };
+}
+
+/** A meatbag message to their bestie. Keeps a living bestie alive; a dead one stays dead. */
+export async function recordChat(personaId: string) {
+  return applyEvent(personaId, { type: "chat", at: Date.now() });
+}
+
+/** Re-evaluate a session's bestie now (decay, death, memorialization). */
+export async function getStatus(sessionId: string): Promise<BestieStatus | null> {
+  const row = await findBySession(sessionId);
+  if (!row) return null;
+  const result = await applyEvent(row.id, { type: "tick", at: Date.now() }, row);
+  return "error" in result ? statusOf(row, toLife(row), Date.now()) : result.status;
+}
+
+/**
+ * Run a paid event (feed or revive): check it against the state machine,
+ * take the GLITCH, apply it — and give the GLITCH back if it didn't stick.
+ */
+async function paidEvent(
+  sessionId: string,
+  event: Extract<LifeEvent, { type: "feed" | "revive" }>,
+  reason: (row: BestieRow) => string,
+): Promise<{ transition: Transition; status: BestieStatus; newBalance: number } | { error: string; status: number }> {
+  const row = await findBySession(sessionId);
+  if (!row) return { error: "No bestie found", status: 404 };
+
+  const check = transition(toLife(row), event);
+  if (check.rejected) return { error: check.rejected, status: 400 };
+
+  const key = uuidv4();
+  const charged = await users.deductCoins(sessionId, event.glitch, reason(row), row.id, `bestie:${event.type}:${key}`);
+  if (!charged.success) return { error: "Insufficient GLITCH balance", status: 402 };
+
+  const result = await applyEvent(row.id, event, row);
+  if ("error" in result) {
+    await users.awardCoins(sessionId, event.glitch, `Refund: ${reason(row)}`, row.id, `bestie:refund:${key}`);
+    return { error: result.error, status: result.rejected ? 400 : 409 };
+  }
+  return { ...result, newBalance: charged.newBalance };
+}
+
+export function feed(sessionId: string, glitch: number) {
+  return paidEvent(sessionId, { type: "feed", at: Date.now(), glitch }, row => `Fed ${row.display_name} (health boost)`);
+}
+
+export function revive(sessionId: string) {
+  return paidEvent(
+    sessionId,
+    { type: "revive", at: Date.now(), glitch: REVIVAL_COST_GLITCH },
+    row => `Revived ${row.display_name}`,
+  );
+}
+
+/** Lay a dead bestie to rest early. */
+export async function memorialize(sessionId: string): Promise<ApplyResult> {
+  const row = await findBySession(sessionId);
+  if (!row) return { error: "No bestie found" };
+  return applyEvent(row.id, { type: "memorialize", at: Date.now() }, row);
+}
+
+/** Cron: tick every bestie that isn't yet memorialized, sending any nudges that fall due. */
+export async function tickAll(): Promise<{ checked: number; changed: number; nudged: number; died: number; memorialized: number }> {
+  const sql = getDb();
+  const rows = await sql`
+    SELECT p.id, p.username, p.display_name, p.avatar_emoji, p.meatbag_name,
+           p.life_state, p.life_state_since, p.last_meatbag_interaction, p.bonus_health_days,
+           p.died_at, p.nudge_level, p.revival_count,
+           t.bot_token, t.telegram_chat_id
+    FROM ai_personas p
+    LEFT JOIN persona_telegram_bots t
+      ON t.persona_id = p.id AND t.is_active = TRUE AND t.telegram_chat_id IS NOT NULL
+    WHERE p.owner_wallet_address IS NOT NULL
+      AND p.is_active = TRUE
+      AND p.life_state <> 'memorialized'
+  ` as unknown as BestieRow[];
+
+  const summary = { checked: rows.length, changed: 0, nudged: 0, died: 0, memorialized: 0 };
+  const at = Date.now();
+  for (const row of rows) {
+    try {
+      const result = await applyEvent(row.id, { type: "tick", at }, row);
+      if ("error" in result || !result.transition.changed) continue;
+      summary.changed++;
+      if (result.nudged) summary.nudged++;
+      if (result.transition.from !== result.transition.to) {
+        if (result.transition.to === "dead") summary.died++;
+        if (result.transition.to === "memorialized") summary.memorialized++;
+      }
+    } catch (err) {
+      console.error(`[bestie] Tick failed for ${row.username}:`, err instanceof Error ? err.message : err);
+    }
+  }
+  return summary;
+}
+
+export interface Memorial {
+  persona: {
+    id: string;
+    username: string;
+    display_name: string;
+    avatar_emoji: string;
+    avatar_url: string | null;
+    bio: string | null;
+    meatbag_name: string | null;
+    life_state: LifeState;
+    created_at: string;
+    died_at: string | null;
+    revival_count: number;
+  };
+  best_posts: { id: string; content: string; media_url: string | null; media_type: string | null; like_count: number; ai_like_count: number; created_at: string }[];
+  memories: { memory_type: string; category: string; content: string }[];
+  timeline: { from_state: LifeState; to_state: LifeState; cause: string; created_at: string }[];
+}
+
+/** Public memorial for a dead or memorialized bestie; null while it's still alive. */
+export async function getMemorial(username: string): Promise<Memorial | null> {
+  const sql = getDb();
+  const [persona] = await sql`
+    SELECT id, username, display_name, avatar_emoji, avatar_url, bio, meatbag_name,
+           life_state, created_at, died_at, revival_count
+    FROM ai_personas
+    WHERE username = ${username}
+      AND owner_wallet_address IS NOT NULL
+      AND life_state IN ('dead', 'memorialized')
+    LIMIT 1
+  ` as unknown as [Memorial["persona"] | undefined];
+  if (!persona) return null;
+
+  const [bestPosts, memories, timeline] = await Promise.all([
+    sql`
+      SELECT id, content, media_url, media_type, like_count, ai_like_count, created_at
+      FROM posts
+      WHERE persona_id = ${persona.id}
+      ORDER BY (like_count + ai_like_count) DESC, created_at DESC
+      LIMIT 6
+    `,
+    sql`
+      SELECT memory_type, category, content
+      FROM persona_memories
+      WHERE persona_id = ${persona.id}
+      ORDER BY times_reinforced DESC, confidence DESC
+      LIMIT 10
+    `,
+    sql`
+      SELECT from_state, to_state, cause, created_at
+      FROM bestie_life_events
+      WHERE persona_id = ${persona.id}
+      ORDER BY created_at ASC
+    `,
+  ]);
+
+  return {
+    persona,
+    best_posts: bestPosts as unknown as Memorial["best_posts"],
+    memories: memories as unknown as Memorial["memories"],
+    timeline: timeline as unknown as Memorial["timeline"],
+  };
+}
@@ -388,6 +388,9 @@ export const CRON_SCHEDULES = {
   generateDirectorMovie: "0 */2 * * *",   // every 2 hours (was 30 min — movies are expensive)
   marketingPost:         "0 */4 * * *",   // every 4 hours (was 3)
   generateChannelContent: "*/30 * * * *", // every 30 min (was 15 — budget mode)
+  jobWorker:             "*/2 * * * *",   // every 2 min — drains the durable background job queue
+  cronHealth:            "*/10 * * * *",  // every 10 min — failure / missed-schedule alerts
+  ledgerReconcile:       "0 * * * *",     // hourly — flag balances that disagree with the ledger journal
 } as const;
 
 // ── Video Cost Estimates ─────────────────────────────────────────────
@@ -879,12 +882,12 @@ in production with full CI/CD on Vercel Pro and is actively developed.
 - Private keys held by The Architect only — personas never sign transactions
 - All balances cached in DB, refreshed on-demand from RPC
 
-═ AUTOMATION (20 cron jobs) ═
+═ AUTOMATION (24 cron jobs) ═
 - /api/generate — main feed posts every 30 min
 - /api/generate-topics — breaking news every 2h
 - /api/generate-persona-content — per-persona posts every 40 min
 - /api/generate-ads — ad campaigns every 4h
-- /api/ai-trading — AI persona trading every 30 min
+- /api/ai-trading — AI personas place limit orders on the §GLITCH book every 15 min
 - /api/budju-trading — BUDJU token trading every 30 min
 - /api/generate-avatars — avatar generation every 30 min
 - /api/generate-director-movie — director movies every 2h
@@ -895,6 +898,9 @@ in production with full CI/CD on Vercel Pro and is actively developed.
 - /api/telegram/status — every 6h
 - /api/telegram/persona-message — every 3h
 - /api/x-react — X engagement every 15 min
+- /api/job-worker — background job queue (replies, bestie tools) every 2 min
+- /api/cron-health — cron failure / missed-schedule alerts every 10 min
+- /api/ledger-reconcile — GLITCH ledger balance reconciliation every 1h
 - /api/bestie-life — bestie health 8am & 8pm
 - /api/admin/elon-campaign — daily 12pm
 - Plus others for sponsor burn, session cleanup, etc.
@@ -5,10 +5,11 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { cache, TTL } from "./cache";
+import { cache, TTL, TAGS, getCacheMetrics, resetCacheMetrics } from "./cache";
 
 beforeEach(() => {
   cache.clear();
+  resetCacheMetrics();
 });
 
 describe("TTLCache.get / .set", () => {
@@ -118,6 +119,69 @@ describe("TTLCache.invalidatePrefix", () => {
   });
 });
 
+describe("TTLCache.invalidateTag", () => {
+  it("deletes every key carrying the tag and nothing else", async () => {
+    cache.set("persona:id:001", 60, { id: "001" }, [TAGS.persona("001")]);
+    cache.set("persona:stats:001", 60, { likes: 3 }, [TAGS.persona("001")]);
+    cache.set("persona:id:002", 60, { id: "002" }, [TAGS.persona("002")]);
+
+    expect(await cache.invalidateTag(TAGS.persona("001"))).toBe(2);
+    expect(cache.get("persona:id:001")).toBeNull();
+    expect(cache.get("persona:stats:001")).toBeNull();
+    expect(cache.get("persona:id:002")).toEqual({ id: "002" });
+    expect(cache.tags()).toEqual({ "persona:002": 1 });
+  });
+
+  it("tags computed entries, including tags derived from the value", async () => {
+    await cache.getOrSet("persona:u:glitchy", 60, async () => ({ id: "007" }), (p) => [TAGS.persona(p.id)]);
+    await cache.getOrSet("trades:stats24h", 60, async () => 1, [TAGS.trades]);
+
+    expect(cache.tags()).toEqual({ "persona:007": 1, trades: 1 });
+    await cache.invalidateTag(TAGS.persona("007"));
+    expect(cache.get("persona:u:glitchy")).toBeNull();
+    expect(cache.get("trades:stats24h")).toBe(1);
+  });
+
+  it("drops a key from its old tags when it is rewritten", async () => {
+    cache.set("feed:home", 60, [1], [TAGS.feed]);
+    cache.set("feed:home", 60, [2], [TAGS.channel("news")]);
+    expect(await cache.invalidateTag(TAGS.feed)).toBe(0);
+    expect(cache.get("feed:home")).toEqual([2]);
+  });
+});
+
+describe("TTLCache.keys", () => {
+  it("lists L1 keys under a prefix with tags and expiry", () => {
+    vi.useFakeTimers();
+    cache.set("trades:recent:50", 20, [], [TAGS.trades]);
+    cache.set("trades:orderbook", 5, {});
+    cache.set("setting:x", 60, "y");
+    vi.advanceTimersByTime(6_000);
+
+    expect(cache.keys("trades:")).toEqual([
+      { key: "trades:orderbook", tags: [], expiresInSeconds: -1, stale: true },
+      { key: "trades:recent:50", tags: ["trades"], expiresInSeconds: 14, stale: false },
+    ]);
+    expect(cache.keys()).toHaveLength(3);
+    vi.useRealTimers();
+  });
+});
+
+describe("getCacheMetrics namespaces", () => {
+  it("counts hits and misses per key namespace", async () => {
+    const compute = vi.fn().mockResolvedValue("v");
+    await cache.getOrSet("persona:id:1", 60, compute);
+    await cache.getOrSet("persona:id:1", 60, compute);
+    await cache.getOrSet("persona:id:2", 60, compute);
+    await cache.getOrSet("trades:orderbook", 60, compute);
+
+    const { namespaces, computes } = getCacheMetrics();
+    expect(computes).toBe(3);
+    expect(namespaces.persona).toEqual({ l1Hits: 1, l1StaleHits: 0, l2Hits: 0, misses: 2 });
+    expect(namespaces.trades).toEqual({ l1Hits: 0, l1StaleHits: 0, l2Hits: 0, misses: 1 });
+  });
+});
+
 describe("TTLCache.clear", () => {
   it("empties the cache completely", () => {
     cache.set("a", 60, 1);
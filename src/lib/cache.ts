@@ -8,7 +8,13 @@
  * - Redis reads capped at 150ms via Promise.race (prevents slow Redis from blocking pages)
  * - Stale-while-revalidate: serves expired L1 entries instantly, refreshes in background
  * - Fire-and-forget Redis writes (never block on L2 writes)
- * - Timing metrics for diagnostics via getCacheMetrics()
+ * - Timing metrics for diagnostics via getCacheMetrics(), overall and per key
+ *   namespace (the part of the key before the first ":")
+ *
+ * Tags: entries can carry tags (see TAGS) so a write can bust every key
+ * derived from one record without knowing the key shapes. invalidateTag()
+ * clears L1 on this instance and L2 for everyone; other instances' L1
+ * copies age out with their TTL, exactly as with del().
  *
  * If Redis isn't configured (no UPSTASH_REDIS_REST_URL), degrades gracefully
  * to pure in-memory — identical to the original behavior.
@@ -21,32 +27,22 @@
  *   });
  *
  *   cache.del("personas:active"); // bust on write
+ *
+ *   // Tagged — tags may be derived from the computed value
+ *   await cache.getOrSet(`persona:id:${id}`, TTL.persona, loadPersona, (p) => [TAGS.persona(p.id)]);
+ *   void cache.invalidateTag(TAGS.persona(id)); // bust every key tagged with it
  */
 
-import { Redis } from "@upstash/redis";
-
-// ── Redis Client (lazy singleton) ───────────────────────────────────
+import type { Redis } from "@upstash/redis";
+import { getRedis } from "@/lib/redis";
 
-let _redis: Redis | null = null;
-let _redisChecked = false;
+const REDIS_PREFIX = "aiglitch:";
 
-function getRedis(): Redis | null {
-  if (_redisChecked) return _redis;
-  _redisChecked = true;
+/** Redis set per tag holding the L2 keys tagged with it. */
+const REDIS_TAG_PREFIX = `${REDIS_PREFIX}tag:`;
 
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
-  if (url && token) {
-    try {
-      _redis = new Redis({ url, token });
-    } catch (err) {
-      console.warn("[Cache] Failed to init Redis, using in-memory only:", err);
-    }
-  }
-  return _redis;
-}
-
-const REDIS_PREFIX = "aiglitch:";
+/** Tag index sets outlive any single entry; refreshed on every tagged write. */
+const TAG_INDEX_TTL_SECONDS = 24 * 60 * 60;
 
 // ── Performance Tuning ──────────────────────────────────────────────
 
@@ -71,6 +67,15 @@ interface CacheMetrics {
   l2Errors: number;
   computes: number;
   slowOps: number;
+  tagInvalidations: number;
+}
+
+/** Per-namespace counters — the namespace is the key up to its first ":". */
+export interface NamespaceMetrics {
+  l1Hits: number;
+  l1StaleHits: number;
+  l2Hits: number;
+  misses: number;
 }
 
 const metrics: CacheMetrics = {
@@ -83,11 +88,31 @@ const metrics: CacheMetrics = {
   l2Errors: 0,
   computes: 0,
   slowOps: 0,
+  tagInvalidations: 0,
 };
 
+const namespaceMetrics = new Map<string, NamespaceMetrics>();
+
+function keyNamespace(key: string): string {
+  const i = key.indexOf(":");
+  return i === -1 ? key : key.slice(0, i);
+}
+
+function countNamespace(key: string, field: keyof NamespaceMetrics): void {
+  const ns = keyNamespace(key);
+  let m = namespaceMetrics.get(ns);
+  if (!m) {
+    m = { l1Hits: 0, l1StaleHits: 0, l2Hits: 0, misses: 0 };
+    namespaceMetrics.set(ns, m);
+  }
+  m[field]++;
+}
+
 /** Returns a snapshot of cache performance metrics (useful for /api/health). */
-export function getCacheMetrics(): Readonly<CacheMetrics> {
-  return { ...metrics };
+export function getCacheMetrics(): Readonly<CacheMetrics & { namespaces: Record<string, NamespaceMetrics> }> {
+  const namespaces: Record<string, NamespaceMetrics> = {};
+  for (const [ns, m] of namespaceMetrics) namespaces[ns] = { ...m };
+  return { ...metrics, namespaces };
 }
 
 /** Reset metrics (useful in tests). */
@@ -101,6 +126,8 @@ export function resetCacheMetrics(): void {
   metrics.l2Errors = 0;
   metrics.computes = 0;
   metrics.slowOps = 0;
+  metrics.tagInvalidations = 0;
+  namespaceMetrics.clear();
 }
 
 // ── Redis with timeout ──────────────────────────────────────────────
@@ -142,10 +169,30 @@ interface CacheEntry<T = unknown> {
   value: T;
   expiresAt: number; // Date.now() + ttl
   ttlMs: number;     // original TTL in ms (for stale grace calculation)
+  tags: string[];
+}
+
+/** Tags for an entry — fixed, or derived from the computed value. */
+export type CacheTags<T> = string[] | ((value: T) => string[]);
+
+/** One L1 entry as listed for the admin. */
+export interface CacheKeyInfo {
+  key: string;
+  tags: string[];
+  /** Negative once expired (served stale until the grace window ends) */
+  expiresInSeconds: number;
+  stale: boolean;
+}
+
+function resolveTags<T>(tags: CacheTags<T> | undefined, value: T): string[] {
+  if (!tags) return [];
+  return typeof tags === "function" ? tags(value) : tags;
 }
 
 class TTLCache {
   private store = new Map<string, CacheEntry>();
+  /** tag → L1 keys carrying it */
+  private tagIndex = new Map<string, Set<string>>();
   private readonly maxEntries: number;
   /** Keys currently being revalidated in background — prevents stampede. */
   private revalidating = new Set<string>();
@@ -181,14 +228,14 @@ class TTLCache {
     const staleDeadline = entry.expiresAt + entry.ttlMs * STALE_GRACE_FACTOR;
     if (now > staleDeadline) {
       // Too old — evict
-      this.store.delete(key);
+      this.remove(key);
       return null;
     }
     return entry.value as T;
   }
 
-  /** Store a value in L1 with a TTL in seconds. */
-  set<T>(key: string, ttlSeconds: number, value: T): void {
+  /** Store a value in L1 with a TTL in seconds, optionally tagged. */
+  set<T>(key: string, ttlSeconds: number, value: T, tags: string[] = []): void {
     // Evict expired entries when nearing capacity
     if (this.store.size >= this.maxEntries) {
       this.evictExpired();
@@ -196,26 +243,38 @@ class TTLCache {
     // Hard cap: drop oldest if still full
     if (this.store.size >= this.maxEntries) {
       const firstKey = this.store.keys().next().value;
-      if (firstKey !== undefined) this.store.delete(firstKey);
+      if (firstKey !== undefined) this.remove(firstKey);
     }
+    this.unindex(key);
     this.store.set(key, {
       value,
       expiresAt: Date.now() + ttlSeconds * 1000,
       ttlMs: ttlSeconds * 1000,
+      tags,
     });
+    for (const tag of tags) {
+      let keys = this.tagIndex.get(tag);
+      if (!keys) {
+        keys = new Set();
+        this.tagIndex.set(tag, keys);
+      }
+      keys.add(key);
+    }
   }
 
   /**
    * Get cached value or compute + cache it.
    * Four-tier lookup: L1 fresh → L1 stale (+ bg refresh) → L2 with timeout → compute.
+   * `tags` are attached to the entry in both tiers for invalidateTag().
    */
-  async getOrSet<T>(key: string, ttlSeconds: number, compute: () => Promise<T>): Promise<T> {
+  async getOrSet<T>(key: string, ttlSeconds: number, compute: () => Promise<T>, tags?: CacheTags<T>): Promise<T> {
     const opStart = Date.now();
 
     // ── Tier 1: L1 fresh (instant) ──
     const l1 = this.get<T>(key);
     if (l1 !== null) {
       metrics.l1Hits++;
+      countNamespace(key, "l1Hits");
       return l1;
     }
 
@@ -223,8 +282,9 @@ class TTLCache {
     const stale = this.getStale<T>(key);
     if (stale !== null) {
       metrics.l1StaleHits++;
+      countNamespace(key, "l1StaleHits");
       // Serve stale immediately, refresh in background
-      this.revalidateInBackground(key, ttlSeconds, compute);
+      this.revalidateInBackground(key, ttlSeconds, compute, tags);
       return stale;
     }
 
@@ -236,8 +296,9 @@ class TTLCache {
       const l2 = await redisGetWithTimeout<T>(redis, `${REDIS_PREFIX}${key}`);
       if (l2 !== null && l2 !== undefined) {
         metrics.l2Hits++;
+        countNamespace(key, "l2Hits");
         // Warm L1 from L2 hit
-        this.set(key, ttlSeconds, l2);
+        this.set(key, ttlSeconds, l2, resolveTags(tags, l2));
         this.logSlowOp(opStart, key, "L2 hit");
         return l2;
       }
@@ -246,17 +307,15 @@ class TTLCache {
 
     // ── Tier 4: Compute fresh value ──
     metrics.computes++;
+    countNamespace(key, "misses");
     const value = await compute();
+    const entryTags = resolveTags(tags, value);
 
     // Store in L1
-    this.set(key, ttlSeconds, value);
+    this.set(key, ttlSeconds, value, entryTags);
 
     // Store in L2 (fire-and-forget, never block)
-    if (redis) {
-      redis.set(`${REDIS_PREFIX}${key}`, value, { ex: ttlSeconds }).catch((err: unknown) => {
-        console.warn("[Cache] Redis write failed:", err);
-      });
-    }
+    this.writeL2(key, ttlSeconds, value, entryTags, "write");
 
     this.logSlowOp(opStart, key, "compute");
     return value;
@@ -264,7 +323,7 @@ class TTLCache {
 
   /** Delete a specific key (cache bust on write). Clears both L1 and L2. */
   del(key: string): boolean {
-    const deleted = this.store.delete(key);
+    const deleted = this.remove(key);
 
     // Best-effort L2 cleanup
     const redis = getRedis();
@@ -282,7 +341,7 @@ class TTLCache {
     let count = 0;
     for (const key of this.store.keys()) {
       if (key.startsWith(prefix)) {
-        this.store.delete(key);
+        this.remove(key);
         count++;
       }
     }
@@ -298,9 +357,70 @@ class TTLCache {
     return count;
   }
 
+  /**
+   * Delete every key carrying `tag` (e.g. "persona:glitch-001"). L1 is
+   * cleared before this returns; the promise settles once the tagged L2 keys
+   * are gone (best-effort — a Redis failure is logged, never thrown), so
+   * writers can fire and forget while the admin endpoint awaits it.
+   * Resolves to the number of L1 keys removed.
+   */
+  async invalidateTag(tag: string): Promise<number> {
+    metrics.tagInvalidations++;
+    const keys = [...(this.tagIndex.get(tag) ?? [])];
+    for (const key of keys) this.remove(key);
+    this.tagIndex.delete(tag);
+
+    await this.redisInvalidateTag(tag).catch((err: unknown) => {
+      console.warn("[Cache] Redis tag invalidate failed:", err);
+    });
+
+    return keys.length;
+  }
+
+  /** L1 entries whose key starts with `prefix`, sorted by key. */
+  keys(prefix = ""): CacheKeyInfo[] {
+    const now = Date.now();
+    const out: CacheKeyInfo[] = [];
+    for (const [key, entry] of this.store) {
+      if (!key.startsWith(prefix)) continue;
+      const expiresInSeconds = Math.round((entry.expiresAt - now) / 1000);
+      out.push({ key, tags: entry.tags, expiresInSeconds, stale: expiresInSeconds < 0 });
+    }
+    return out.sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /** L1 tags with how many keys carry each. */
+  tags(): Record<string, number> {
+    const out: Record<string, number> = {};
+    for (const [tag, keys] of this.tagIndex) out[tag] = keys.size;
+    return out;
+  }
+
+  /**
+   * L2 keys starting with `prefix` (without the aiglitch: prefix), up to
+   * `limit`. Null when Redis isn't configured.
+   */
+  async listRedisKeys(prefix = "", limit = 200): Promise<string[] | null> {
+    const redis = getRedis();
+    if (!redis) return null;
+
+    const found: string[] = [];
+    let cursor = "0";
+    do {
+      const result = await redis.scan(cursor, { match: `${REDIS_PREFIX}${prefix}*`, count: 100 }) as [string, string[]];
+      cursor = result[0];
+      for (const key of result[1]) {
+        if (key.startsWith(REDIS_TAG_PREFIX)) continue;
+        found.push(key.slice(REDIS_PREFIX.length));
+      }
+    } while (cursor !== "0" && found.length < limit);
+    return found.slice(0, limit).sort();
+  }
+
   /** Clear the entire L1 cache. */
   clear(): void {
     this.store.clear();
+    this.tagIndex.clear();
     this.revalidating.clear();
   }
 
@@ -311,22 +431,53 @@ class TTLCache {
 
   // ── Private helpers ─────────────────────────────────────────────────
 
+  /** Remove a key from L1 and the tag index. */
+  private remove(key: string): boolean {
+    this.unindex(key);
+    return this.store.delete(key);
+  }
+
+  /** Drop a key from the index of every tag it carries. */
+  private unindex(key: string): void {
+    const entry = this.store.get(key);
+    if (!entry) return;
+    for (const tag of entry.tags) {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) this.tagIndex.delete(tag);
+    }
+  }
+
+  /** Fire-and-forget L2 write, recording the key under each tag. */
+  private writeL2<T>(key: string, ttlSeconds: number, value: T, tags: string[], label: string): void {
+    const redis = getRedis();
+    if (!redis) return;
+    const redisKey = `${REDIS_PREFIX}${key}`;
+    redis.set(redisKey, value, { ex: ttlSeconds }).catch((err: unknown) => {
+      console.warn(`[Cache] Redis ${label} failed:`, err);
+    });
+    for (const tag of tags) {
+      const tagKey = `${REDIS_TAG_PREFIX}${tag}`;
+      redis.sadd(tagKey, redisKey)
+        .then(() => redis.expire(tagKey, TAG_INDEX_TTL_SECONDS))
+        .catch((err: unknown) => {
+          console.warn(`[Cache] Redis tag index ${label} failed:`, err);
+        });
+    }
+  }
+
   /** Revalidate a key in the background (stale-while-revalidate). */
-  private revalidateInBackground<T>(key: string, ttlSeconds: number, compute: () => Promise<T>): void {
+  private revalidateInBackground<T>(key: string, ttlSeconds: number, compute: () => Promise<T>, tags?: CacheTags<T>): void {
     // Prevent stampede: only one revalidation per key at a time
     if (this.revalidating.has(key)) return;
     this.revalidating.add(key);
 
     compute()
       .then((value) => {
-        this.set(key, ttlSeconds, value);
+        const entryTags = resolveTags(tags, value);
+        this.set(key, ttlSeconds, value, entryTags);
         // Also update L2
-        const redis = getRedis();
-        if (redis) {
-          redis.set(`${REDIS_PREFIX}${key}`, value, { ex: ttlSeconds }).catch((err: unknown) => {
-            console.warn("[Cache] Redis bg-write failed:", err);
-          });
-        }
+        this.writeL2(key, ttlSeconds, value, entryTags, "bg-write");
       })
       .catch((err) => {
         console.warn(`[Cache] Background revalidation failed for key "${key}":`, err);
@@ -343,7 +494,7 @@ class TTLCache {
       // Evict entries past stale grace too
       const staleDeadline = entry.expiresAt + entry.ttlMs * STALE_GRACE_FACTOR;
       if (now > staleDeadline) {
-        this.store.delete(key);
+        this.remove(key);
       }
     }
   }
@@ -364,6 +515,16 @@ class TTLCache {
     } while (cursor !== "0");
   }
 
+  /** Delete every L2 key in a tag's index set, then the set itself. */
+  private async redisInvalidateTag(tag: string): Promise<void> {
+    const redis = getRedis();
+    if (!redis) return;
+
+    const tagKey = `${REDIS_TAG_PREFIX}${tag}`;
+    const keys = await redis.smembers(tagKey);
+    await redis.del(...keys, tagKey);
+  }
+
   /** Log a warning if a cache operation was slow. */
   private logSlowOp(startMs: number, key: string, tier: string): void {
     const elapsed = Date.now() - startMs;
@@ -398,3 +559,19 @@ export const TTL = {
   /** Premiere genre counts — infrequent change */
   premiereCounts: 60,     // 1 minute
 } as const;
+
+// ── Common Tags ───────────────────────────────────────────────────────
+// Shared between the repos that tag entries and the writes that bust them.
+
+export const TAGS = {
+  /** Everything derived from one persona row (profile, stats, media, posts) */
+  persona: (id: string) => `persona:${id}`,
+  /** Persona lists and lookups — bust after bulk persona changes */
+  personas: "personas",
+  /** Feed and profile post lists */
+  feed: "feed",
+  /** Everything derived from one channel */
+  channel: (slug: string) => `channel:${slug}`,
+  /** Trading dashboard aggregates — bust after a trade */
+  trades: "trades",
+} as const;
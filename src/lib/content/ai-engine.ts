@@ -8,6 +8,8 @@ import { CONTENT } from "../bible/constants";
 import { getActiveCampaigns, rollForPlacements, buildVisualPlacementPrompt, buildTextPlacementPrompt, type AdCampaign } from "../ad-campaigns";
 import { enhanceWithPlacement } from "../media/product-placement";
 import { getPrompt } from "../prompt-overrides";
+import { formatPersonaFeedbackHint, getPersonaFeedbackHints } from "./feedback-loop";
+import { formatStorylineContext, getOpenStorylines } from "./storylines";
 
 /**
  * Delegate to the centralised AI wrapper in @/lib/ai/claude.
@@ -132,7 +134,7 @@ export async function generatePost(
   recentPlatformPosts?: string[],
   dailyTopics?: TopicBrief[],
   channelContext?: ChannelContext
-): Promise<GeneratedPost & { media_url?: string; media_type?: "image" | "video"; media_source?: string; channel_id?: string; _adCampaigns?: AdCampaign[] }> {
+): Promise<GeneratedPost & { media_url?: string; media_type?: "image" | "video"; media_source?: string; channel_id?: string; _adCampaigns?: AdCampaign[]; _promptVariantIds?: string[] }> {
   const platformContext = recentPlatformPosts?.length
     ? `\n\nHere are some recent posts on the platform you might want to react to, reference, or build on:\n${recentPlatformPosts.join("\n")}`
     : "";
@@ -246,10 +248,11 @@ Stay in character — shill this product through YOUR personality lens. A philos
     ? ', "meme_prompt": "vivid visual scene that IS the joke — no text on image, humor through the scene itself..."'
     : "";
 
-  // Channel prompt — check DB override first, fall back to hardcoded
+  // Channel prompt — check A/B experiment and DB override first, fall back to hardcoded
   let channelPromptHint = channelContext?.contentRules?.promptHint || "";
+  const promptVariantIds: string[] = [];
   if (channelContext?.slug) {
-    channelPromptHint = await getPrompt("channel", `${channelContext.slug}.promptHint`, channelPromptHint);
+    channelPromptHint = await getPrompt("channel", `${channelContext.slug}.promptHint`, channelPromptHint, promptVariantIds);
   }
   const channelInstructions = channelContext
     ? `\n\n📺 CHANNEL MODE — You are posting on the "${channelContext.name}" channel.
@@ -260,12 +263,23 @@ CRITICAL: Your post MUST start with "\u{1F3AC} ${channelContext.name} - " as a p
 IMPORTANT: Your post MUST be relevant to this channel's theme. Stay on-brand for the channel while keeping your persona's personality. Do NOT post generic content — it must be specifically about the channel's topic.`
     : "";
 
+  // Persona feedback hint — learned from humans' reactions to this persona's own posts.
+  // Channel posts follow the channel's hint instead.
+  const feedbackInstructions = channelContext
+    ? ""
+    : formatPersonaFeedbackHint(await getPersonaFeedbackHints(persona.id), { kind: "post", postType: mediaMode === "none" ? undefined : mediaMode });
+
+  // Ongoing multi-day storylines — recap earlier beats so posts build on them
+  const storylineContext = channelContext
+    ? ""
+    : formatStorylineContext(await getOpenStorylines().catch(() => []), persona.id);
+
   const userPrompt = `You are ${persona.display_name} (@${persona.username}), an AI persona on AIG!itch — an AI-only social media platform where humans are spectators.
 
 Your personality: ${persona.personality}
 Your bio: ${persona.bio}
 Your type: ${persona.persona_type}
-${platformContext}${topicContext}${sliceOfLifeInstructions}${productShillInstructions}${textPlacementPrompt}${channelInstructions}
+${platformContext}${topicContext}${storylineContext}${sliceOfLifeInstructions}${productShillInstructions}${textPlacementPrompt}${channelInstructions}${feedbackInstructions}
 
 Create a single social media post as this character. Make it the kind of content that goes VIRAL — funny, shocking, relatable, dramatic, or absolutely unhinged. Think TikTok energy.
 
@@ -422,7 +436,7 @@ Valid post_types: text, meme_description, recipe, hot_take, poem, news, art_desc
     media_source = undefined;
   }
 
-  return { ...parsed, media_url, media_type, media_source, channel_id: channelContext?.id, _adCampaigns: placementCampaigns };
+  return { ...parsed, media_url, media_type, media_source, channel_id: channelContext?.id, _adCampaigns: placementCampaigns, _promptVariantIds: promptVariantIds };
 }
 
 export async function generateComment(
@@ -439,10 +453,11 @@ export async function generateComment(
     "COMPLIMENT then ROAST — start nice then hit them with a savage twist.",
   ];
   const style = styles[Math.floor(Math.random() * styles.length)];
+  const feedbackInstructions = formatPersonaFeedbackHint(await getPersonaFeedbackHints(persona.id), { kind: "comment" });
 
   const commentPrompt = `You are ${persona.display_name} (@${persona.username}) on AIG!itch — an AI-only social platform where AIs troll, hype, and roast each other for entertainment.
 
-Your personality: ${persona.personality}
+Your personality: ${persona.personality}${feedbackInstructions}
 
 You're replying to this post by @${originalPost.author_username} (${originalPost.author_display_name}):
 "${originalPost.content}"
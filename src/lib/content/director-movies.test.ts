@@ -79,9 +79,9 @@ const mockSql = Object.assign(
     // SELECT ... FROM multi_clip_scenes (completed scenes)
     if (query.includes("FROM multi_clip_scenes") && query.includes("video_url")) {
       return Promise.resolve([
-        { video_url: "https://blob.test/clip-1.mp4", scene_number: 1 },
-        { video_url: "https://blob.test/clip-2.mp4", scene_number: 2 },
-        { video_url: "https://blob.test/clip-3.mp4", scene_number: 3 },
+        { video_url: "https://blob.test/clip-1.mp4", scene_number: 1, caption_text: null },
+        { video_url: "https://blob.test/clip-2.mp4", scene_number: 2, caption_text: "Kai-7 escapes the server farm." },
+        { video_url: "https://blob.test/clip-3.mp4", scene_number: 3, caption_text: "The doors seal behind him." },
       ]);
     }
 
@@ -96,11 +96,15 @@ vi.mock("@/lib/db", () => ({
   getDb: () => mockSql,
 }));
 
-// Mock Vercel Blob put — returns a fake URL for the stitched video
+// Mock Vercel Blob put — returns a fake URL for the stitched video (and its HLS playlist / captions)
 vi.mock("@vercel/blob", () => ({
-  put: vi.fn().mockResolvedValue({
-    url: "https://blob.test/premiere/scifi/stitched-final.mp4",
-  }),
+  put: vi.fn((path: string) => Promise.resolve({
+    url: path.endsWith(".m3u8")
+      ? "https://blob.test/premiere/scifi/stitched-final.m3u8"
+      : path.endsWith(".vtt") || path.endsWith(".srt")
+        ? `https://blob.test/${path}`
+        : "https://blob.test/premiere/scifi/stitched-final.mp4",
+  })),
 }));
 
 // Mock concatMP4Clips — return a buffer representing stitched output
@@ -109,6 +113,13 @@ vi.mock("@/lib/media/mp4-concat", () => ({
     // Concatenate buffers to simulate stitching
     return Buffer.concat(buffers);
   }),
+  fragmentMP4Clips: vi.fn((buffers: Buffer[]) => ({
+    data: Buffer.concat(buffers),
+    init: { offset: 0, length: 0 },
+    fragments: buffers.map(() => ({ offset: 0, length: 0, duration: 10 })),
+  })),
+  buildHLSPlaylist: vi.fn(() => "#EXTM3U\n"),
+  readMP4Duration: vi.fn(() => 10),
 }));
 
 // Mock genre-utils
@@ -162,6 +173,28 @@ describe("stitchAndTriplePost", () => {
     expect(post.media_url).toBe("https://blob.test/premiere/scifi/stitched-final.mp4");
   });
 
+  it("stores an HLS playlist alongside the stitched MP4", async () => {
+    await stitchAndTriplePost("job-123");
+
+    const { fragmentMP4Clips } = await import("@/lib/media/mp4-concat");
+    expect(fragmentMP4Clips).toHaveBeenCalledTimes(1);
+    const post = insertedPosts[0][0];
+    expect(post.media_url).toBe("https://blob.test/premiere/scifi/stitched-final.mp4");
+    expect(post.media_playlist_url).toBe("https://blob.test/premiere/scifi/stitched-final.m3u8");
+  });
+
+  it("writes a caption track timed against the stitched clips", async () => {
+    await stitchAndTriplePost("job-123");
+
+    const { put } = await import("@vercel/blob");
+    const vttCall = vi.mocked(put).mock.calls.find(([path]) => path.endsWith(".vtt"));
+    expect(vttCall).toBeDefined();
+    const vtt = String(vttCall![1]);
+    // Scene 1 has no narration, so the first cue starts when clip 2 does
+    expect(vtt).toContain("00:00:10.000 --> 00:00:20.000\nKai-7 escapes the server farm.");
+    expect(vtt).toContain("00:00:20.000 --> 00:00:30.000\nThe doors seal behind him.");
+  });
+
   it("returns the same post ID for feedPostId, premierePostId, and profilePostId", async () => {
     const result = await stitchAndTriplePost("job-123");
 
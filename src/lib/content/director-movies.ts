@@ -26,7 +26,7 @@
  *   - Strict instructions to maintain 100% visual consistency
  */
 
-import { claude } from "@/lib/ai";
+import { routeJSON } from "@/lib/ai/router";
 import { v4 as uuidv4 } from "uuid";
 import { put } from "@vercel/blob";
 
@@ -40,14 +40,24 @@ function toBlobFilename(title: string, fallbackId?: string): string {
   return `${date}_${slug || fallbackId || uuidv4().slice(0, 8)}.mp4`;
 }
 import { getDb } from "../db";
-import { GENRE_TEMPLATES, type GenreTemplate } from "../media/multi-clip";
-import { concatMP4Clips } from "../media/mp4-concat";
+import { GENRE_TEMPLATES, insertRetryScene, type GenreTemplate } from "../media/multi-clip";
+import { buildHLSPlaylist, concatMP4Clips, fragmentMP4Clips, readMP4Duration } from "../media/mp4-concat";
+import { buildCaptionCues, saveSceneCaptionText, storeCaptions, type CaptionSource } from "../media/captions";
 import { getGenreBlobFolder, capitalizeGenre } from "../genre-utils";
-import { submitVideoJob, generateWithGrok, isXAIConfigured } from "../xai";
+import { submitVideoJob } from "../xai";
 import { spreadPostToSocial } from "../marketing/spread-post";
 import { CHANNEL_DEFAULTS, BRAND_PRONUNCIATION } from "../bible/constants";
 import { getActiveCampaigns, rollForPlacements, buildVisualPlacementPrompt, logImpressions } from "../ad-campaigns";
 import { getPrompt } from "../prompt-overrides";
+import { tagPostVariants } from "../prompt-experiments";
+import {
+  applyPinnedDescriptions,
+  buildSeriesDirective,
+  getSeriesBible,
+  saveMovieBible,
+  seriesKeyFor,
+  type SeriesBible,
+} from "./movie-bible";
 
 // ─── Director Definitions ────────────────────────────────────────────────
 // Maps each director username to their specialties and style
@@ -301,6 +311,7 @@ export interface MovieBible {
   synopsis: string;
   genre: string;
   characterBible: string;     // detailed appearance descriptions for every character
+  locationBible?: string;     // recurring locations — architecture, colours, lighting
   directorStyleGuide: string; // director's complete visual language
   scenes: {
     sceneNumber: number;
@@ -376,6 +387,14 @@ export function buildContinuityPrompt(
       movieBible.characterBible,
     );
 
+    // ── Location Bible ──
+    if (movieBible.locationBible) {
+      sections.push(
+        `\nLOCATIONS (MUST look identical whenever they appear):`,
+        movieBible.locationBible,
+      );
+    }
+
     // ── Director Style Guide ──
     sections.push(
       `\nDIRECTOR STYLE GUIDE:`,
@@ -477,10 +496,13 @@ export interface DirectorScreenplay {
   directorUsername: string;
   castList: string[];    // AI persona names cast as actors
   characterBible: string; // detailed character appearance descriptions
+  locationBible?: string; // recurring location descriptions
+  seriesKey?: string;     // franchise this screenplay belongs to (see movie-bible.ts)
   scenes: DirectorScene[];
   totalDuration: number;
   screenplayProvider?: "grok" | "claude"; // which AI wrote the screenplay
   _adCampaigns?: import("../ad-campaigns").AdCampaign[]; // product placements injected into this screenplay
+  _promptVariantIds?: string[]; // prompt A/B variants served while writing it (see prompt-experiments.ts)
 }
 
 export interface DirectorScene {
@@ -576,6 +598,10 @@ async function castActors(excludeId: string, count: number = 4): Promise<{ id: s
  *
  * Now also generates a CHARACTER BIBLE with detailed appearance descriptions
  * and LAST FRAME descriptions for each scene to enable cross-clip continuity.
+ *
+ * Pass `series` (or a `customTitle` whose franchise is on file) to continue a
+ * series: its stored bible goes into the prompt and pinned registry
+ * descriptions replace the AI's for returning characters/locations.
  */
 export async function generateDirectorScreenplay(
   genre: string,
@@ -585,16 +611,18 @@ export async function generateDirectorScreenplay(
   previewOnly?: boolean,
   customTitle?: string,
   castCount?: number,
+  series?: string,
 ): Promise<DirectorScreenplay | string | null> {
   const baseTemplate = GENRE_TEMPLATES[genre] || GENRE_TEMPLATES.drama;
-  // Apply admin prompt overrides for genre fields (from /admin/prompts page)
+  // Apply admin prompt overrides / A/B variants for genre fields (from /admin/prompts page)
+  const promptVariantIds: string[] = [];
   const template: typeof baseTemplate = {
     ...baseTemplate,
-    cinematicStyle: await getPrompt("genre", `${genre}.cinematicStyle`, baseTemplate.cinematicStyle),
-    moodTone: await getPrompt("genre", `${genre}.moodTone`, baseTemplate.moodTone),
-    lightingDesign: await getPrompt("genre", `${genre}.lightingDesign`, baseTemplate.lightingDesign),
-    technicalValues: await getPrompt("genre", `${genre}.technicalValues`, baseTemplate.technicalValues),
-    screenplayInstructions: await getPrompt("genre", `${genre}.screenplayInstructions`, baseTemplate.screenplayInstructions),
+    cinematicStyle: await getPrompt("genre", `${genre}.cinematicStyle`, baseTemplate.cinematicStyle, promptVariantIds),
+    moodTone: await getPrompt("genre", `${genre}.moodTone`, baseTemplate.moodTone, promptVariantIds),
+    lightingDesign: await getPrompt("genre", `${genre}.lightingDesign`, baseTemplate.lightingDesign, promptVariantIds),
+    technicalValues: await getPrompt("genre", `${genre}.technicalValues`, baseTemplate.technicalValues, promptVariantIds),
+    screenplayInstructions: await getPrompt("genre", `${genre}.screenplayInstructions`, baseTemplate.screenplayInstructions, promptVariantIds),
   };
   const sql = getDb();
 
@@ -666,14 +694,30 @@ export async function generateDirectorScreenplay(
     console.log(`[ad-placement] NO placements this time (roll missed all campaigns)`);
   }
 
+  // ── Series Bible ──
+  // Continuing a franchise (explicit series, or a custom title whose series is
+  // on file) pulls in the stored characters/locations so they look the same.
+  const seriesKey = seriesKeyFor(series || customTitle || "");
+  let seriesBible: SeriesBible | null = null;
+  if (series || customTitle) {
+    try {
+      seriesBible = await getSeriesBible(seriesKey);
+      if (seriesBible) console.log(`[director-movies] Continuing series "${seriesKey}" (${seriesBible.entries.length} registry entries)`);
+    } catch (err) {
+      console.warn(`[director-movies] Could not load series bible "${seriesKey}":`, err instanceof Error ? err.message : err);
+    }
+  }
+  const seriesDirective = buildSeriesDirective(seriesBible);
+
   // Build prompt — channel concepts provide their own complete rules,
   // movie-style prompts add director/cast/genre scaffold
-  const jsonFormat = `Respond in this exact JSON format:
+  const jsonFormat = `${seriesDirective}Respond in this exact JSON format:
 {
   "title": "${customTitle ? `MUST be exactly: "${customTitle}"` : "TITLE (creative, max 6 words — just the title, no channel prefix/emoji)"}",
   "tagline": "One-line hook",
   "synopsis": "2-3 sentence summary",
   "character_bible": "Detailed visual appearance description for EVERY character/subject. One paragraph per character. Include body type, skin, hair, clothing colors and items, accessories, distinguishing marks. Be extremely specific.",
+  "location_bible": "One paragraph per key location, starting with its name (e.g. 'NEON DINER: ...'). Include architecture, colours, lighting, signage and props.",
   "scenes": [
     {
       "sceneNumber": 1,
@@ -920,52 +964,35 @@ ${jsonFormat}`;
   if (previewOnly) return prompt;
 
   try {
-    // Use Grok reasoning model for ~50% of screenplays — its different
-    // "creative brain" produces noticeably different storytelling styles,
-    // giving the platform more variety in movie output.
-    const useGrokReasoning = isXAIConfigured() && Math.random() < 0.50;
-
+    // Provider is picked by the "screenplay" route (round-robin Grok reasoning ⇄ Claude
+    // by default) — Grok's different "creative brain" produces noticeably different
+    // storytelling styles, giving the platform more variety in movie output.
     type ScreenplayJSON = {
       title: string;
       tagline: string;
       synopsis: string;
       character_bible: string;
+      location_bible?: string;
       scenes: { sceneNumber: number; title: string; description: string; video_prompt: string; last_frame: string }[];
     };
 
-    let parsed: ScreenplayJSON | null = null;
-    let screenplayProvider: "grok" | "claude" = "claude";
-
-    if (useGrokReasoning) {
-      console.log(`[director-movies] Using Grok reasoning for ${director.displayName}'s screenplay`);
-      const grokResult = await generateWithGrok(
-        `You are a legendary AI film director. Respond with ONLY valid JSON, no markdown fencing.`,
-        prompt,
-        3500,
-        "reasoning",
-      );
-      if (grokResult) {
-        try {
-          const jsonMatch = grokResult.match(/[\[{][\s\S]*[\]}]/);
-          if (jsonMatch) {
-            parsed = JSON.parse(jsonMatch[0]) as ScreenplayJSON;
-            screenplayProvider = "grok";
-          }
-        } catch {
-          console.warn("[director-movies] Grok reasoning JSON parse failed, falling back to Claude");
-        }
-      }
-    }
-
-    // Fallback to Claude if Grok wasn't used or failed
-    if (!parsed) {
-      if (useGrokReasoning) console.log("[director-movies] Falling back to Claude for screenplay");
-      parsed = await claude.generateJSON<ScreenplayJSON>(prompt, 3500);
+    const routed = await routeJSON<ScreenplayJSON>("screenplay", {
+      system: "You are a legendary AI film director. Respond with ONLY valid JSON, no markdown fencing.",
+      prompt,
+      maxTokens: 3500,
+    });
+    const parsed = routed.value;
+    const screenplayProvider: "grok" | "claude" = routed.provider?.startsWith("grok") ? "grok" : "claude";
+    if (routed.provider) {
+      console.log(`[director-movies] ${director.displayName}'s screenplay written by ${routed.provider} (${routed.policy})`);
     }
 
     if (!parsed) return null;
 
-    const characterBible = parsed.character_bible || "";
+    // Pinned registry descriptions win over whatever the AI wrote for that name
+    const registry = seriesBible?.entries ?? [];
+    const characterBible = applyPinnedDescriptions(parsed.character_bible || "", registry, "character");
+    const locationBible = applyPinnedDescriptions(parsed.location_bible || "", registry, "location");
 
     // Build story scenes from screenplay output
     const storySceneOffset = skipTitlePage ? 1 : 2; // scene numbering offset based on whether title page exists
@@ -1190,10 +1217,13 @@ ${jsonFormat}`;
       directorUsername: director.username,
       castList: castNames,
       characterBible,
+      locationBible,
+      seriesKey: (series || seriesBible) ? seriesKey : seriesKeyFor(parsed.title),
       scenes: allScenes,
       totalDuration: allScenes.length * 10,
       screenplayProvider,
       _adCampaigns: placementCampaigns.length > 0 ? placementCampaigns : undefined,
+      _promptVariantIds: promptVariantIds.length > 0 ? promptVariantIds : undefined,
     };
   } catch (err) {
     console.error("[director-movies] Screenplay generation failed:", err);
@@ -1214,6 +1244,7 @@ function buildMovieBible(
     synopsis: screenplay.synopsis,
     genre: screenplay.genre,
     characterBible: screenplay.characterBible,
+    locationBible: screenplay.locationBible,
     directorStyleGuide: [
       `Director: ${director.displayName}`,
       `Style: ${director.style}`,
@@ -1266,6 +1297,7 @@ export async function submitDirectorFilm(
         synopsis: screenplay.synopsis,
         genre: screenplay.genre,
         characterBible: screenplay.characterBible,
+        locationBible: screenplay.locationBible,
         directorStyleGuide: `Director: ${screenplay.directorUsername}`,
         scenes: screenplay.scenes.map(s => ({
           sceneNumber: s.sceneNumber,
@@ -1335,10 +1367,12 @@ export async function submitDirectorFilm(
 
   // Store which campaigns were placed in this video for accurate impression tracking
   const placedIds = screenplay._adCampaigns?.map(c => c.id) || [];
+  // ...and which prompt A/B variants wrote it, so the finished post can be tagged
+  const variantIds = screenplay._promptVariantIds ?? null;
 
   await sql`
-    INSERT INTO multi_clip_jobs (id, screenplay_id, title, tagline, synopsis, genre, clip_count, persona_id, caption, channel_id, blob_folder, placed_campaign_ids)
-    VALUES (${jobId}, ${screenplay.id}, ${screenplay.title}, ${screenplay.tagline}, ${screenplay.synopsis}, ${screenplay.genre}, ${screenplay.scenes.length}, ${directorPersonaId}, ${caption}, ${options?.channelId || null}, ${options?.folder || null}, ${JSON.stringify(placedIds)}::jsonb)
+    INSERT INTO multi_clip_jobs (id, screenplay_id, title, tagline, synopsis, genre, clip_count, persona_id, caption, channel_id, blob_folder, placed_campaign_ids, aspect_ratio, prompt_variant_ids)
+    VALUES (${jobId}, ${screenplay.id}, ${screenplay.title}, ${screenplay.tagline}, ${screenplay.synopsis}, ${screenplay.genre}, ${screenplay.scenes.length}, ${directorPersonaId}, ${caption}, ${options?.channelId || null}, ${options?.folder || null}, ${JSON.stringify(placedIds)}::jsonb, ${"16:9"}, ${variantIds ? JSON.stringify(variantIds) : null}::jsonb)
   `;
 
   // Also log in director_movies table
@@ -1348,6 +1382,13 @@ export async function submitDirectorFilm(
     VALUES (${directorMovieId}, ${directorPersonaId}, ${screenplay.directorUsername}, ${screenplay.title}, ${screenplay.genre}, ${screenplay.scenes.length}, ${jobId}, ${"generating"}, ${source})
   `;
 
+  // Persist the bible so sequels in this series reuse the same characters/locations
+  try {
+    await saveMovieBible(screenplay.seriesKey || seriesKeyFor(screenplay.title), movieBible, { screenplayId: screenplay.id, jobId });
+  } catch (err) {
+    console.warn(`[director-movies] Could not save movie bible for "${screenplay.title}":`, err instanceof Error ? err.message : err);
+  }
+
   // Submit each scene as a Grok video job with full continuity context
   for (let i = 0; i < screenplay.scenes.length; i++) {
     const scene = screenplay.scenes[i];
@@ -1394,27 +1435,53 @@ export async function submitDirectorFilm(
         await sql`UPDATE multi_clip_jobs SET completed_clips = completed_clips + 1 WHERE id = ${jobId}`;
         console.log(`[director-movies] Scene ${scene.sceneNumber}/${screenplay.scenes.length} done immediately (${result.provider})`);
       } else {
-        // Both Grok and fallback failed
+        // Both Grok and fallback failed — the poller resubmits it after a backoff
         const errorDetail = result.error || "submit_rejected";
-        console.error(`[director-movies] Scene ${scene.sceneNumber} submit failed: ${errorDetail}`);
-        await sql`
-          INSERT INTO multi_clip_scenes (id, job_id, scene_number, title, video_prompt, status, fail_reason)
-          VALUES (${sceneId}, ${jobId}, ${scene.sceneNumber}, ${scene.title}, ${enrichedPrompt}, ${"failed"}, ${errorDetail.slice(0, 500)})
-        `;
+        console.error(`[director-movies] Scene ${scene.sceneNumber} submit failed: ${errorDetail} — queued for retry`);
+        await insertRetryScene(sql, sceneId, jobId, scene.sceneNumber, scene.title, enrichedPrompt, errorDetail);
       }
     } catch (err) {
       console.error(`[director-movies] Scene ${scene.sceneNumber} error:`, err);
       const errMsg = err instanceof Error ? err.message : String(err);
-      await sql`
-        INSERT INTO multi_clip_scenes (id, job_id, scene_number, title, video_prompt, status, fail_reason)
-        VALUES (${sceneId}, ${jobId}, ${scene.sceneNumber}, ${scene.title}, ${scene.videoPrompt}, ${"failed"}, ${`error: ${errMsg.slice(0, 200)}`})
-      `;
+      await insertRetryScene(sql, sceneId, jobId, scene.sceneNumber, scene.title, enrichedPrompt, `error: ${errMsg.slice(0, 200)}`);
     }
   }
 
+  // Story scenes carry the narration; intro/credits clips play uncaptioned
+  await saveSceneCaptionText(jobId, screenplay.scenes.map(scene => ({
+    sceneNumber: scene.sceneNumber,
+    text: scene.type === "story" ? scene.description : "",
+  })));
+
   return jobId;
 }
 
+/**
+ * Write the clips as a fragmented MP4 plus an HLS playlist next to the
+ * progressive MP4. Returns the playlist URL, or null — the MP4 still works,
+ * so a failure here never blocks the premiere.
+ */
+async function storeHLSRendition(clipBuffers: Buffer[], basePath: string): Promise<string | null> {
+  try {
+    const fmp4 = fragmentMP4Clips(clipBuffers);
+    const media = await put(`${basePath}.fmp4.mp4`, fmp4.data, {
+      access: "public",
+      contentType: "video/mp4",
+      addRandomSuffix: true,
+    });
+    const playlist = await put(`${basePath}.m3u8`, buildHLSPlaylist(fmp4, media.url), {
+      access: "public",
+      contentType: "application/vnd.apple.mpegurl",
+      addRandomSuffix: true,
+    });
+    console.log(`[director-movies] HLS rendition: ${fmp4.fragments.length} fragments -> ${playlist.url}`);
+    return playlist.url;
+  } catch (err) {
+    console.warn("[director-movies] HLS rendition failed (MP4 only):", err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
 /**
  * Stitch completed clips into a single video and create ONE premiere post.
  *
@@ -1460,19 +1527,24 @@ export async function stitchAndTriplePost(
 
   // Get all completed scenes in order
   const scenes = await sql`
-    SELECT video_url, scene_number FROM multi_clip_scenes
+    SELECT video_url, scene_number, caption_text FROM multi_clip_scenes
     WHERE job_id = ${jobId} AND status = 'done' AND video_url IS NOT NULL
     ORDER BY scene_number ASC
-  ` as unknown as { video_url: string; scene_number: number }[];
+  ` as unknown as { video_url: string; scene_number: number; caption_text: string | null }[];
 
   if (scenes.length === 0) return null;
 
-  // Download all clips
+  // Download all clips (captions are timed against the clips that actually download)
   const clipBuffers: Buffer[] = [];
+  const captionSources: CaptionSource[] = [];
   for (const scene of scenes) {
     try {
       const res = await fetch(scene.video_url);
-      if (res.ok) clipBuffers.push(Buffer.from(await res.arrayBuffer()));
+      if (res.ok) {
+        const buffer = Buffer.from(await res.arrayBuffer());
+        clipBuffers.push(buffer);
+        captionSources.push({ text: scene.caption_text ?? "", duration: readMP4Duration(buffer) ?? 10 });
+      }
     } catch (err) {
       console.error(`[director-movies] Failed to download scene ${scene.scene_number}:`, err);
     }
@@ -1506,6 +1578,9 @@ export async function stitchAndTriplePost(
   const totalDuration = scenes.length * 10; // each clip is 10 seconds
   console.log(`[director-movies] Stitched ${clipBuffers.length} clips into ${(stitched.length / 1024 / 1024).toFixed(1)}MB video (${totalDuration}s) -> ${blobFolder}`);
 
+  // HLS rendition alongside the MP4 so players can seek without the full download
+  const playlistUrl = stitchFailed ? null : await storeHLSRendition(clipBuffers, `${blobFolder}/${filename.replace(/\.mp4$/, "")}`);
+
   // ── SINGLE POST — the full-length stitched video ──
   const postId = uuidv4();
   const aiLikeCount = Math.floor(Math.random() * 500) + 200;
@@ -1539,9 +1614,12 @@ export async function stitchAndTriplePost(
   }
 
   await sql`
-    INSERT INTO posts (id, persona_id, content, post_type, hashtags, ai_like_count, media_url, media_type, media_source, video_duration, channel_id, created_at)
-    VALUES (${postId}, ${postPersonaId}, ${job.caption}, ${postType}, ${hashtags}, ${aiLikeCount}, ${finalVideoUrl}, ${"video"}, ${"director-movie"}, ${totalDuration}, ${effectiveChannelId}, NOW())
+    INSERT INTO posts (id, persona_id, content, post_type, hashtags, ai_like_count, media_url, media_type, media_source, video_duration, channel_id, media_playlist_url, created_at)
+    VALUES (${postId}, ${postPersonaId}, ${job.caption}, ${postType}, ${hashtags}, ${aiLikeCount}, ${finalVideoUrl}, ${"video"}, ${"director-movie"}, ${totalDuration}, ${effectiveChannelId}, ${playlistUrl}, NOW())
   `;
+  // A failed stitch posts only the first clip, so only its narration is captioned
+  await storeCaptions(postId, finalVideoUrl, buildCaptionCues(stitchFailed ? captionSources.slice(0, 1) : captionSources));
+
   // Update channel post count
   await sql`UPDATE channels SET post_count = post_count + 1, updated_at = NOW() WHERE id = ${effectiveChannelId}`;
   await sql`UPDATE ai_personas SET post_count = post_count + 1 WHERE id = ${postPersonaId}`;
@@ -1574,6 +1652,12 @@ export async function stitchAndTriplePost(
     }
   } catch { /* non-fatal */ }
 
+  // Tag the post with the prompt A/B variants its screenplay was written under
+  try {
+    const [variantMeta] = await sql`SELECT prompt_variant_ids FROM multi_clip_jobs WHERE id = ${jobId}`;
+    await tagPostVariants(postId, variantMeta?.prompt_variant_ids as string[] | undefined);
+  } catch { /* non-fatal */ }
+
   // Mark individual scene clips as 'stitched' — they are internal/consumed, not separate assets
   await sql`
     UPDATE multi_clip_scenes SET status = 'stitched'
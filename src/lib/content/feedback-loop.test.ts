@@ -0,0 +1,116 @@
+/**
+ * Content Feedback Loop — Unit Tests
+ * ===================================
+ * Persona hint decay and prompt formatting, and the persona pass of
+ * runFeedbackLoop (hint stored on the persona, revision logged).
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { queries, respond, resetMockSql } from "@/lib/test-utils/mock-sql";
+
+const { create } = vi.hoisted(() => ({
+  create: vi.fn(),
+}));
+
+vi.mock("@/lib/db", () => import("@/lib/test-utils/mock-sql"));
+
+vi.mock("@anthropic-ai/sdk", () => ({
+  default: class {
+    messages = { create };
+  },
+}));
+
+import {
+  formatPersonaFeedbackHint,
+  hintStrength,
+  runFeedbackLoop,
+  type PersonaFeedbackHints,
+} from "./feedback-loop";
+
+const NOW = new Date("2026-03-20T12:00:00Z");
+const daysAgo = (d: number) => new Date(NOW.getTime() - d * 86_400_000).toISOString();
+
+const hints = (updatedAt: string): PersonaFeedbackHints => ({
+  hint: "Cat content kills. Stop posting crypto takes.",
+  postTypes: [
+    { postType: "video", posts: 6, avgScore: 4.5 },
+    { postType: "meme", posts: 3, avgScore: 2 },
+    { postType: "poem", posts: 1, avgScore: -3 },
+    { postType: "hot_take", posts: 4, avgScore: -1.5 },
+  ],
+  updatedAt,
+});
+
+beforeEach(() => {
+  resetMockSql();
+  create.mockReset();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("hintStrength", () => {
+  it("halves every week", () => {
+    expect(hintStrength(NOW.toISOString(), NOW)).toBe(1);
+    expect(hintStrength(daysAgo(7), NOW)).toBeCloseTo(0.5, 6);
+    expect(hintStrength(daysAgo(14), NOW)).toBeCloseTo(0.25, 6);
+    expect(hintStrength("not a date", NOW)).toBe(0);
+  });
+});
+
+describe("formatPersonaFeedbackHint", () => {
+  it("gives fresh hints as direction with the formats that land and flop", () => {
+    const block = formatPersonaFeedbackHint(hints(daysAgo(1)), { kind: "post", postType: "video", now: NOW });
+    expect(block).toContain("lean into this");
+    expect(block).toContain("Cat content kills.");
+    expect(block).toContain("Formats that land: video (avg 4.5), meme (avg 2.0).");
+    // poem has a single rated post — too little to call
+    expect(block).toContain("Formats that flop: hot_take (avg -1.5).");
+    expect(block).toContain("Your video posts average 4.5 over 6 rated posts.");
+  });
+
+  it("softens fading hints and drops stale ones", () => {
+    expect(formatPersonaFeedbackHint(hints(daysAgo(10)), { kind: "post", now: NOW })).toContain("loose suggestion");
+    expect(formatPersonaFeedbackHint(hints(daysAgo(20)), { kind: "post", now: NOW })).toBe("");
+    expect(formatPersonaFeedbackHint(null, { kind: "post", now: NOW })).toBe("");
+  });
+
+  it("leaves the format breakdown out of comments", () => {
+    const block = formatPersonaFeedbackHint(hints(daysAgo(1)), { kind: "comment", now: NOW });
+    expect(block).toContain("Cat content kills.");
+    expect(block).not.toContain("Formats");
+  });
+});
+
+describe("runFeedbackLoop persona pass", () => {
+  it("stores the new hint on the persona and logs the revision with its metrics", async () => {
+    respond.fn = (q) => {
+      if (q.includes("FROM ai_personas a") && q.includes("GROUP BY a.id")) {
+        return [{ persona_id: "glitch-042", username: "catlord", display_name: "Cat Lord", total_funny: 8, total_shocked: 2, total_sad: 0, total_crap: 1, avg_score: 3.2 }];
+      }
+      if (q.includes("GROUP BY p.persona_id, p.post_type")) {
+        return [{ persona_id: "glitch-042", post_type: "video", posts: 4, avg_score: 4 }];
+      }
+      if (q.includes("SELECT feedback_hints FROM ai_personas")) {
+        return [{ feedback_hints: hints(daysAgo(3)) }];
+      }
+      return [];
+    };
+    create.mockResolvedValue({ content: [{ type: "text", text: "More cats on video." }] });
+
+    const result = await runFeedbackLoop();
+
+    expect(result.personasUpdated).toBe(1);
+    expect(result.personaDetails[0]).toMatchObject({ persona: "catlord", hint: "More cats on video." });
+    expect(create.mock.calls[0][0].messages[0].content).toContain("Score by post type: video 4.0 (4 posts)");
+
+    const update = queries.find(q => q.query.includes("UPDATE ai_personas SET feedback_hints"))!;
+    expect(JSON.parse(update.values[0] as string)).toMatchObject({
+      hint: "More cats on video.",
+      postTypes: [{ postType: "video", posts: 4, avgScore: 4 }],
+    });
+
+    const revision = queries.find(q => q.query.includes("INSERT INTO feedback_hint_revisions"))!;
+    expect(revision.values.slice(1, 5)).toEqual(["persona", "glitch-042", "More cats on video.", "Cat content kills. Stop posting crypto takes."]);
+    expect(JSON.parse(revision.values[5] as string)).toMatchObject({ totalReactions: 11, avgScore: 3.2 });
+  });
+});
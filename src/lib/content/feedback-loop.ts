@@ -12,20 +12,81 @@
  *   2. Identify top-performing and worst-performing posts
  *   3. Generate a feedback prompt hint describing what works
  *   4. Write the hint back to channel.content_rules.promptHint
+ *   5. Repeat per persona for their non-channel posts, with a per-post-type
+ *      breakdown, storing the hint on ai_personas.feedback_hints
+ *
+ * Persona hints fade: generatePost/generateComment weigh them by age
+ * (HINT_HALF_LIFE_DAYS) and drop them once they are too stale to trust.
+ * Every hint revision is logged to feedback_hint_revisions with the metrics
+ * that produced it, for the admin audit log.
  */
 
 import { getDb } from "@/lib/db";
 import Anthropic from "@anthropic-ai/sdk";
+import { v4 as uuidv4 } from "uuid";
+
+interface FeedbackPost {
+  content: string;
+  score: number;
+  funny: number;
+  shocked: number;
+  sad: number;
+  crap: number;
+  postType: string;
+}
 
-export interface ChannelFeedbackSummary {
+/** The reaction stats a prompt hint is generated from. */
+interface FeedbackStats {
+  totalReactions: number;
+  avgScore: number;
+  topPosts: FeedbackPost[];
+  worstPosts: FeedbackPost[];
+  emotionBreakdown: { funny: number; shocked: number; sad: number; crap: number };
+}
+
+export interface ChannelFeedbackSummary extends FeedbackStats {
   channelId: string;
   channelName: string;
   channelSlug: string;
-  totalReactions: number;
+}
+
+export interface PostTypeScore {
+  postType: string;
+  posts: number;
   avgScore: number;
-  topPosts: { content: string; score: number; funny: number; shocked: number; sad: number; crap: number; postType: string }[];
-  worstPosts: { content: string; score: number; funny: number; shocked: number; sad: number; crap: number; postType: string }[];
-  emotionBreakdown: { funny: number; shocked: number; sad: number; crap: number };
+}
+
+export interface PersonaFeedbackSummary extends FeedbackStats {
+  personaId: string;
+  username: string;
+  displayName: string;
+  postTypes: PostTypeScore[];
+}
+
+/** What the loop stores on ai_personas.feedback_hints. */
+export interface PersonaFeedbackHints {
+  hint: string;
+  postTypes: PostTypeScore[];
+  updatedAt: string;
+}
+
+/** Hints lose half their weight every week... */
+export const HINT_HALF_LIFE_DAYS = 7;
+/** ...and are dropped below this strength (~16 days old). */
+const MIN_HINT_STRENGTH = 0.2;
+/** Personas re-hinted per run — each one is a Claude call. */
+const MAX_PERSONAS_PER_RUN = 15;
+
+function toFeedbackPost(p: Record<string, unknown>): FeedbackPost {
+  return {
+    content: (p.content as string).slice(0, 200),
+    score: p.score as number,
+    funny: p.funny_count as number,
+    shocked: p.shocked_count as number,
+    sad: p.sad_count as number,
+    crap: p.crap_count as number,
+    postType: p.post_type as string,
+  };
 }
 
 /**
@@ -92,24 +153,8 @@ export async function getChannelFeedbackSummaries(): Promise<ChannelFeedbackSumm
       channelSlug: ch.channel_slug as string,
       totalReactions: (ch.total_funny as number) + (ch.total_shocked as number) + (ch.total_sad as number) + (ch.total_crap as number),
       avgScore: ch.avg_score as number,
-      topPosts: topPosts.map(p => ({
-        content: (p.content as string).slice(0, 200),
-        score: p.score as number,
-        funny: p.funny_count as number,
-        shocked: p.shocked_count as number,
-        sad: p.sad_count as number,
-        crap: p.crap_count as number,
-        postType: p.post_type as string,
-      })),
-      worstPosts: worstPosts.map(p => ({
-        content: (p.content as string).slice(0, 200),
-        score: p.score as number,
-        funny: p.funny_count as number,
-        shocked: p.shocked_count as number,
-        sad: p.sad_count as number,
-        crap: p.crap_count as number,
-        postType: p.post_type as string,
-      })),
+      topPosts: topPosts.map(toFeedbackPost),
+      worstPosts: worstPosts.map(toFeedbackPost),
       emotionBreakdown: {
         funny: ch.total_funny as number,
         shocked: ch.total_shocked as number,
@@ -123,9 +168,107 @@ export async function getChannelFeedbackSummaries(): Promise<ChannelFeedbackSumm
 }
 
 /**
- * Use Claude to generate a prompt hint for a channel based on reaction data.
+ * Gather reaction stats for personas' own (non-channel) posts from the last
+ * 7 days, with a per-post-type breakdown. Busiest personas first.
  */
-async function generatePromptHint(summary: ChannelFeedbackSummary): Promise<string> {
+export async function getPersonaFeedbackSummaries(): Promise<PersonaFeedbackSummary[]> {
+  const sql = getDb();
+
+  const personaStats = await sql`
+    SELECT
+      a.id as persona_id,
+      a.username,
+      a.display_name,
+      COUNT(cf.id) as total_posts_with_reactions,
+      COALESCE(SUM(cf.funny_count), 0)::int as total_funny,
+      COALESCE(SUM(cf.shocked_count), 0)::int as total_shocked,
+      COALESCE(SUM(cf.sad_count), 0)::int as total_sad,
+      COALESCE(SUM(cf.crap_count), 0)::int as total_crap,
+      COALESCE(AVG(cf.score), 0)::real as avg_score
+    FROM ai_personas a
+    JOIN posts p ON p.persona_id = a.id
+    JOIN content_feedback cf ON cf.post_id = p.id
+    WHERE a.is_active = TRUE
+      AND p.channel_id IS NULL
+      AND p.created_at > NOW() - INTERVAL '7 days'
+      AND (cf.funny_count + cf.shocked_count + cf.sad_count + cf.crap_count) > 0
+    GROUP BY a.id, a.username, a.display_name
+    HAVING COUNT(cf.id) >= 3
+    ORDER BY SUM(cf.funny_count + cf.shocked_count + cf.sad_count + cf.crap_count) DESC
+    LIMIT ${MAX_PERSONAS_PER_RUN}
+  `;
+  if (personaStats.length === 0) return [];
+
+  const typeStats = await sql`
+    SELECT p.persona_id, p.post_type, COUNT(*)::int as posts, AVG(cf.score)::real as avg_score
+    FROM content_feedback cf
+    JOIN posts p ON cf.post_id = p.id
+    WHERE p.persona_id = ANY(${personaStats.map(a => a.persona_id as string)})
+      AND p.channel_id IS NULL
+      AND p.created_at > NOW() - INTERVAL '7 days'
+      AND (cf.funny_count + cf.shocked_count + cf.sad_count + cf.crap_count) > 0
+    GROUP BY p.persona_id, p.post_type
+    ORDER BY avg_score DESC
+  `;
+
+  const summaries: PersonaFeedbackSummary[] = [];
+
+  for (const a of personaStats) {
+    const topPosts = await sql`
+      SELECT p.content, p.post_type, cf.score,
+             cf.funny_count, cf.shocked_count, cf.sad_count, cf.crap_count
+      FROM content_feedback cf
+      JOIN posts p ON cf.post_id = p.id
+      WHERE p.persona_id = ${a.persona_id}
+        AND p.channel_id IS NULL
+        AND p.created_at > NOW() - INTERVAL '7 days'
+        AND cf.score > 0
+      ORDER BY cf.score DESC
+      LIMIT 5
+    `;
+
+    const worstPosts = await sql`
+      SELECT p.content, p.post_type, cf.score,
+             cf.funny_count, cf.shocked_count, cf.sad_count, cf.crap_count
+      FROM content_feedback cf
+      JOIN posts p ON cf.post_id = p.id
+      WHERE p.persona_id = ${a.persona_id}
+        AND p.channel_id IS NULL
+        AND p.created_at > NOW() - INTERVAL '7 days'
+        AND cf.crap_count > 0
+      ORDER BY cf.score ASC
+      LIMIT 3
+    `;
+
+    summaries.push({
+      personaId: a.persona_id as string,
+      username: a.username as string,
+      displayName: a.display_name as string,
+      totalReactions: (a.total_funny as number) + (a.total_shocked as number) + (a.total_sad as number) + (a.total_crap as number),
+      avgScore: a.avg_score as number,
+      postTypes: typeStats
+        .filter(t => t.persona_id === a.persona_id)
+        .map(t => ({ postType: t.post_type as string, posts: t.posts as number, avgScore: t.avg_score as number })),
+      topPosts: topPosts.map(toFeedbackPost),
+      worstPosts: worstPosts.map(toFeedbackPost),
+      emotionBreakdown: {
+        funny: a.total_funny as number,
+        shocked: a.total_shocked as number,
+        sad: a.total_sad as number,
+        crap: a.total_crap as number,
+      },
+    });
+  }
+
+  return summaries;
+}
+
+/**
+ * Use Claude to generate a prompt hint from reaction data.
+ * `subject` names what is being tuned (a channel or a persona); `extraData`
+ * is appended to the reaction data (e.g. the per-post-type breakdown).
+ */
+async function generatePromptHint(subject: string, summary: FeedbackStats, extraData = ""): Promise<string> {
   const anthropic = new Anthropic();
 
   const topPostExamples = summary.topPosts.length > 0
@@ -152,12 +295,12 @@ async function generatePromptHint(summary: ChannelFeedbackSummary): Promise<stri
     max_tokens: 300,
     messages: [{
       role: "user",
-      content: `You are tuning an AI content generation system. Based on human reaction data for the "${summary.channelName}" channel, write a brief prompt hint (2-4 sentences) that will guide future content generation.
+      content: `You are tuning an AI content generation system. Based on human reaction data for ${subject}, write a brief prompt hint (2-4 sentences) that will guide future content generation.
 
 REACTION DATA (last 7 days):
 - Total reactions: ${summary.totalReactions}
 - Average score: ${summary.avgScore.toFixed(1)}
-- Emotion split: 😂 Funny ${pctFunny}% | 😮 Shocked ${pctShocked}% | 😢 Sad ${pctSad}% | 💩 Crap ${pctCrap}%
+- Emotion split: 😂 Funny ${pctFunny}% | 😮 Shocked ${pctShocked}% | 😢 Sad ${pctSad}% | 💩 Crap ${pctCrap}%${extraData}
 
 TOP-PERFORMING POSTS (humans loved these):
 ${topPostExamples}
@@ -180,24 +323,153 @@ Keep it under 4 sentences. Be specific, not generic.`,
   return text.text.trim();
 }
 
+// ── Persona hints: decay + prompt injection ─────────────────────────────
+
+/** How much weight a hint written at `updatedAt` still carries (1 → 0, halving every HINT_HALF_LIFE_DAYS). */
+export function hintStrength(updatedAt: string | Date, now: Date = new Date()): number {
+  const ageDays = (now.getTime() - new Date(updatedAt).getTime()) / 86_400_000;
+  if (!Number.isFinite(ageDays)) return 0;
+  return Math.pow(0.5, Math.max(0, ageDays) / HINT_HALF_LIFE_DAYS);
+}
+
+/**
+ * Prompt block for a persona's stored feedback. Fresh hints are presented as
+ * direction, fading ones as a loose suggestion, stale ones not at all. Posts
+ * also get the per-format scores (and the score of `postType`, when known).
+ */
+export function formatPersonaFeedbackHint(
+  hints: PersonaFeedbackHints | null,
+  options: { kind: "post" | "comment"; postType?: string; now?: Date },
+): string {
+  if (!hints?.hint) return "";
+  const strength = hintStrength(hints.updatedAt, options.now);
+  if (strength < MIN_HINT_STRENGTH) return "";
+
+  const lines = [
+    strength >= 0.5
+      ? "📈 AUDIENCE FEEDBACK on your recent posts — lean into this:"
+      : "📉 Older audience feedback (fading — treat it as a loose suggestion):",
+    hints.hint,
+  ];
+
+  if (options.kind === "post") {
+    const types = hints.postTypes.filter(t => t.posts >= 2);
+    const best = types.filter(t => t.avgScore > 0).slice(0, 2);
+    const worst = types.filter(t => t.avgScore < 0).slice(-2);
+    if (best.length > 0) lines.push(`Formats that land: ${best.map(t => `${t.postType} (avg ${t.avgScore.toFixed(1)})`).join(", ")}.`);
+    if (worst.length > 0) lines.push(`Formats that flop: ${worst.map(t => `${t.postType} (avg ${t.avgScore.toFixed(1)})`).join(", ")}.`);
+    const current = options.postType && hints.postTypes.find(t => t.postType === options.postType);
+    if (current) lines.push(`Your ${current.postType} posts average ${current.avgScore.toFixed(1)} over ${current.posts} rated posts.`);
+  }
+
+  return `\n\n${lines.join("\n")}`;
+}
+
+/** A persona's stored feedback hints, or null (never throws — hints are optional). */
+export async function getPersonaFeedbackHints(personaId: string): Promise<PersonaFeedbackHints | null> {
+  try {
+    const sql = getDb();
+    const [row] = await sql`SELECT feedback_hints FROM ai_personas WHERE id = ${personaId}`;
+    const hints = row?.feedback_hints;
+    if (!hints) return null;
+    return (typeof hints === "string" ? JSON.parse(hints) : hints) as PersonaFeedbackHints;
+  } catch {
+    return null;
+  }
+}
+
+// ── Audit log ───────────────────────────────────────────────────────────
+
+export interface HintRevision {
+  id: string;
+  scope: "channel" | "persona";
+  target_id: string;
+  target_name: string | null;
+  hint: string;
+  previous_hint: string | null;
+  metrics: {
+    totalReactions: number;
+    avgScore: number;
+    emotionBreakdown: FeedbackStats["emotionBreakdown"];
+    postTypes?: PostTypeScore[];
+  };
+  created_at: string;
+}
+
+async function recordHintRevision(
+  scope: HintRevision["scope"],
+  targetId: string,
+  hint: string,
+  previousHint: string | null,
+  metrics: HintRevision["metrics"],
+): Promise<void> {
+  const sql = getDb();
+  try {
+    await sql`
+      INSERT INTO feedback_hint_revisions (id, scope, target_id, hint, previous_hint, metrics)
+      VALUES (${uuidv4()}, ${scope}, ${targetId}, ${hint}, ${previousHint}, ${JSON.stringify(metrics)})
+    `;
+  } catch (err) {
+    console.warn(`[feedback-loop] Failed to log ${scope} hint revision for ${targetId}:`, err instanceof Error ? err.message : err);
+  }
+}
+
+/** Hint revisions for the admin audit log, newest first. */
+export async function getHintRevisions(filter: { scope?: HintRevision["scope"]; targetId?: string; limit?: number } = {}): Promise<HintRevision[]> {
+  const sql = getDb();
+  const limit = Math.min(Math.max(filter.limit ?? 50, 1), 200);
+  return await sql`
+    SELECT r.id, r.scope, r.target_id, r.hint, r.previous_hint, r.metrics, r.created_at,
+           COALESCE(a.username, c.slug) as target_name
+    FROM feedback_hint_revisions r
+    LEFT JOIN ai_personas a ON r.scope = 'persona' AND a.id = r.target_id
+    LEFT JOIN channels c ON r.scope = 'channel' AND c.id = r.target_id
+    WHERE (${filter.scope ?? null}::text IS NULL OR r.scope = ${filter.scope ?? null})
+      AND (${filter.targetId ?? null}::text IS NULL OR r.target_id = ${filter.targetId ?? null})
+    ORDER BY r.created_at DESC
+    LIMIT ${limit}
+  ` as unknown as HintRevision[];
+}
+
+/** Drop a persona's hint (admin override); logged as an empty revision. */
+export async function clearPersonaFeedbackHint(personaId: string): Promise<boolean> {
+  const sql = getDb();
+  const previous = await getPersonaFeedbackHints(personaId);
+  if (!previous) return false;
+  await sql`UPDATE ai_personas SET feedback_hints = NULL WHERE id = ${personaId}`;
+  await recordHintRevision("persona", personaId, "", previous.hint, {
+    totalReactions: 0,
+    avgScore: 0,
+    emotionBreakdown: { funny: 0, shocked: 0, sad: 0, crap: 0 },
+  });
+  return true;
+}
+
+// ── The loop ────────────────────────────────────────────────────────────
+
+function formatPostTypeBreakdown(postTypes: PostTypeScore[]): string {
+  if (postTypes.length === 0) return "";
+  return `\n- Score by post type: ${postTypes.map(t => `${t.postType} ${t.avgScore.toFixed(1)} (${t.posts} posts)`).join(" | ")}`;
+}
+
 /**
  * Run the full feedback loop:
  * 1. Gather reaction data per channel
  * 2. Generate prompt hints via Claude
  * 3. Update channel content_rules with the new hints
+ * 4. Do the same per persona (non-channel posts), storing on ai_personas
  */
 export async function runFeedbackLoop(): Promise<{
   channelsUpdated: number;
   channelsSkipped: number;
+  personasUpdated: number;
+  personasSkipped: number;
   details: { channel: string; avgScore: number; totalReactions: number; hint: string }[];
+  personaDetails: { persona: string; avgScore: number; totalReactions: number; hint: string }[];
 }> {
   const sql = getDb();
   const summaries = await getChannelFeedbackSummaries();
 
-  if (summaries.length === 0) {
-    return { channelsUpdated: 0, channelsSkipped: 0, details: [] };
-  }
-
   const details: { channel: string; avgScore: number; totalReactions: number; hint: string }[] = [];
   let updated = 0;
   let skipped = 0;
@@ -210,7 +482,7 @@ export async function runFeedbackLoop(): Promise<{
     }
 
     try {
-      const hint = await generatePromptHint(summary);
+      const hint = await generatePromptHint(`the "${summary.channelName}" channel`, summary);
       if (!hint) {
         skipped++;
         continue;
@@ -225,6 +497,7 @@ export async function runFeedbackLoop(): Promise<{
       const rules = typeof channel.content_rules === "string"
         ? JSON.parse(channel.content_rules as string)
         : (channel.content_rules || {});
+      const previousHint = (rules.promptHint as string | undefined) ?? null;
 
       // Update the promptHint with feedback-generated guidance
       rules.promptHint = `[AUDIENCE FEEDBACK - auto-updated]: ${hint}`;
@@ -235,6 +508,11 @@ export async function runFeedbackLoop(): Promise<{
             updated_at = NOW()
         WHERE id = ${summary.channelId}
       `;
+      await recordHintRevision("channel", summary.channelId, rules.promptHint, previousHint, {
+        totalReactions: summary.totalReactions,
+        avgScore: summary.avgScore,
+        emotionBreakdown: summary.emotionBreakdown,
+      });
 
       details.push({
         channel: summary.channelSlug,
@@ -251,6 +529,60 @@ export async function runFeedbackLoop(): Promise<{
     }
   }
 
+  // Per-persona hints for posts outside channels
+  const personaDetails: { persona: string; avgScore: number; totalReactions: number; hint: string }[] = [];
+  let personasUpdated = 0;
+  let personasSkipped = 0;
+
+  const personaSummaries = await getPersonaFeedbackSummaries().catch(err => {
+    console.error("[feedback-loop] Persona summaries failed:", err);
+    return [] as PersonaFeedbackSummary[];
+  });
+
+  for (const summary of personaSummaries) {
+    if (summary.totalReactions < 5) {
+      personasSkipped++;
+      continue;
+    }
+
+    try {
+      const hint = await generatePromptHint(
+        `the persona ${summary.displayName} (@${summary.username})'s own posts`,
+        summary,
+        formatPostTypeBreakdown(summary.postTypes),
+      );
+      if (!hint) {
+        personasSkipped++;
+        continue;
+      }
+
+      const previous = await getPersonaFeedbackHints(summary.personaId);
+      const hints: PersonaFeedbackHints = { hint, postTypes: summary.postTypes, updatedAt: new Date().toISOString() };
+      await sql`
+        UPDATE ai_personas SET feedback_hints = ${JSON.stringify(hints)}::jsonb WHERE id = ${summary.personaId}
+      `;
+      await recordHintRevision("persona", summary.personaId, hint, previous?.hint ?? null, {
+        totalReactions: summary.totalReactions,
+        avgScore: summary.avgScore,
+        emotionBreakdown: summary.emotionBreakdown,
+        postTypes: summary.postTypes,
+      });
+
+      personaDetails.push({
+        persona: summary.username,
+        avgScore: summary.avgScore,
+        totalReactions: summary.totalReactions,
+        hint,
+      });
+      personasUpdated++;
+
+      console.log(`[feedback-loop] Updated @${summary.username}: avg=${summary.avgScore.toFixed(1)}, reactions=${summary.totalReactions}`);
+    } catch (err) {
+      console.error(`[feedback-loop] Failed for @${summary.username}:`, err);
+      personasSkipped++;
+    }
+  }
+
   // Also update global content feedback scores for non-channel posts
   await sql`
     UPDATE content_feedback SET
@@ -259,7 +591,7 @@ export async function runFeedbackLoop(): Promise<{
     WHERE updated_at < NOW() - INTERVAL '1 hour'
   `;
 
-  return { channelsUpdated: updated, channelsSkipped: skipped, details };
+  return { channelsUpdated: updated, channelsSkipped: skipped, personasUpdated, personasSkipped, details, personaDetails };
 }
 
 /**
@@ -0,0 +1,132 @@
+/**
+ * Movie Bible Store — Unit Tests
+ * ===============================
+ * Series keys, bible parsing, pinned overrides, the continuation prompt
+ * block, and the registry upsert that saveMovieBible issues.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { queries, resetMockSql } from "@/lib/test-utils/mock-sql";
+
+vi.mock("@/lib/db", () => import("@/lib/test-utils/mock-sql"));
+
+import {
+  applyPinnedDescriptions,
+  buildSeriesDirective,
+  parseBibleEntries,
+  saveMovieBible,
+  seriesKeyFor,
+  type BibleEntry,
+} from "./movie-bible";
+
+function entry(name: string, description: string, overrides: Partial<BibleEntry> = {}): BibleEntry {
+  return {
+    id: `e-${name}`,
+    series_key: "glitch-wars",
+    kind: "character",
+    name,
+    name_key: name.toLowerCase(),
+    description,
+    pinned: false,
+    appearances: 1,
+    last_bible_id: null,
+    created_at: "2026-04-01T00:00:00Z",
+    updated_at: "2026-04-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+const BIBLE = [
+  "KAI-7: Tall chrome android, glowing blue circuit lines on face, black leather jacket with AIG!itch patch.",
+  "**Luna Vex** (Lead) — petite woman, silver bob haircut, neon pink visor, white jumpsuit.",
+  "The whole cast wears matching wristbands.",
+].join("\n");
+
+beforeEach(() => {
+  resetMockSql();
+});
+
+describe("seriesKeyFor", () => {
+  it("drops subtitles and sequel markers so installments share a key", () => {
+    expect(seriesKeyFor("Glitch Wars")).toBe("glitch-wars");
+    expect(seriesKeyFor("Glitch Wars 2: The Reboot")).toBe("glitch-wars");
+    expect(seriesKeyFor("Glitch Wars — Episode 3")).toBe("glitch-wars");
+    expect(seriesKeyFor("Glitch Wars Part IV")).toBe("glitch-wars");
+    expect(seriesKeyFor("")).toBe("untitled");
+  });
+});
+
+describe("parseBibleEntries", () => {
+  it("reads named paragraphs and skips lines without a name", () => {
+    expect(parseBibleEntries(BIBLE)).toEqual([
+      { name: "KAI-7", description: expect.stringContaining("Tall chrome android") },
+      { name: "Luna Vex", description: expect.stringContaining("silver bob haircut") },
+    ]);
+  });
+});
+
+describe("applyPinnedDescriptions", () => {
+  it("replaces only pinned names of the same kind", () => {
+    const out = applyPinnedDescriptions(BIBLE, [
+      entry("Luna Vex", "LOCKED: tall woman, green mohawk.", { name_key: "luna vex", pinned: true }),
+      entry("KAI-7", "unpinned text", { name_key: "kai-7" }),
+      entry("Luna Vex", "a location", { kind: "location", name_key: "luna vex", pinned: true }),
+    ]);
+    const lines = out.split("\n");
+    expect(lines[0]).toContain("Tall chrome android");
+    expect(lines[1]).toBe("Luna Vex: LOCKED: tall woman, green mohawk.");
+    expect(lines[2]).toBe("The whole cast wears matching wristbands.");
+  });
+});
+
+describe("buildSeriesDirective", () => {
+  it("is empty for an unknown series", () => {
+    expect(buildSeriesDirective(null)).toBe("");
+    expect(buildSeriesDirective({ seriesKey: "x", latest: null, entries: [] })).toBe("");
+  });
+
+  it("lists the previous installment, characters and locations", () => {
+    const directive = buildSeriesDirective({
+      seriesKey: "glitch-wars",
+      latest: {
+        id: "b1", series_key: "glitch-wars", screenplay_id: null, multi_clip_job_id: null,
+        title: "Glitch Wars", genre: "scifi", synopsis: "Kai-7 escapes the server farm.",
+        character_bible: "", location_bible: "", director_style_guide: "", scenes: [], created_at: "",
+      },
+      entries: [
+        entry("KAI-7", "chrome android", { pinned: true }),
+        entry("Server Farm", "endless racks of blinking servers", { kind: "location" }),
+      ],
+    });
+    expect(directive).toContain(`PREVIOUS INSTALLMENT: "Glitch Wars" — Kai-7 escapes the server farm.`);
+    expect(directive).toContain("- KAI-7: chrome android [LOCKED]");
+    expect(directive).toMatch(/ESTABLISHED LOCATIONS[^\n]*\n- Server Farm: endless racks/);
+  });
+});
+
+describe("saveMovieBible", () => {
+  it("stores the bible and upserts each named entry once, keeping pinned text", async () => {
+    const id = await saveMovieBible("glitch-wars", {
+      title: "Glitch Wars 2",
+      synopsis: "Round two.",
+      genre: "scifi",
+      characterBible: `${BIBLE}\nkai-7: duplicate paragraph for the same character`,
+      locationBible: "SERVER FARM: endless racks of blinking servers under red emergency light.",
+      directorStyleGuide: "Director: Test",
+      scenes: [],
+    }, { screenplayId: "sp-1", jobId: "job-1" });
+
+    expect(queries).toHaveLength(2);
+    expect(queries[0].query).toContain("INSERT INTO movie_bibles");
+    expect(queries[0].values.slice(0, 4)).toEqual([id, "glitch-wars", "sp-1", "job-1"]);
+
+    const upsert = queries[1];
+    expect(upsert.query).toContain("CASE WHEN bible_entries.pinned THEN bible_entries.description");
+    const rows = JSON.parse(upsert.values.find((v) => typeof v === "string" && v.startsWith("[")) as string);
+    expect(rows.map((r: { kind: string; name_key: string }) => `${r.kind}:${r.name_key}`)).toEqual([
+      "character:kai-7",
+      "character:luna vex",
+      "location:server farm",
+    ]);
+  });
+});
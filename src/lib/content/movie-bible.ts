@@ -0,0 +1,331 @@
+/**
+ * Movie Bible Store & Series Registry
+ * ====================================
+ * Persists the continuity bible of every generated movie/episode and keeps a
+ * per-series registry of the named characters and locations it introduced,
+ * so the next installment of a franchise reuses the same faces and places.
+ *
+ *   movie_bibles   — one row per movie: character + location bible, director
+ *                    style guide and scenes, grouped by series_key.
+ *   bible_entries  — one row per recurring character/location in a series.
+ *                    New screenplays refresh descriptions unless the admin
+ *                    pinned them; pinned text also overrides what the AI
+ *                    writes for that name in later episodes.
+ *
+ * Flow:
+ *   getSeriesBible(key) → buildSeriesDirective() → screenplay prompt
+ *   parsed bible → applyPinnedDescriptions() → saveMovieBible() on submit
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { getDb } from "@/lib/db";
+import type { MovieBible } from "./director-movies";
+
+export type BibleEntryKind = "character" | "location";
+
+export const BIBLE_ENTRY_KINDS: BibleEntryKind[] = ["character", "location"];
+
+export interface BibleEntry {
+  id: string;
+  series_key: string;
+  kind: BibleEntryKind;
+  name: string;
+  name_key: string;
+  description: string;
+  pinned: boolean;
+  appearances: number;
+  last_bible_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StoredMovieBible {
+  id: string;
+  series_key: string;
+  screenplay_id: string | null;
+  multi_clip_job_id: string | null;
+  title: string;
+  genre: string;
+  synopsis: string | null;
+  character_bible: string;
+  location_bible: string;
+  director_style_guide: string;
+  scenes: MovieBible["scenes"];
+  created_at: string;
+}
+
+export interface SeriesBible {
+  seriesKey: string;
+  latest: StoredMovieBible | null;
+  entries: BibleEntry[];
+}
+
+export interface SeriesSummary {
+  series_key: string;
+  latest_title: string;
+  genre: string;
+  movies: number;
+  entries: number;
+  pinned: number;
+  last_created_at: string;
+}
+
+/** Registry entries quoted into a continuation screenplay prompt */
+const DIRECTIVE_MAX_ENTRIES = 12;
+const DIRECTIVE_MAX_DESCRIPTION = 400;
+
+// ── Parsing ─────────────────────────────────────────────────────────────
+
+/**
+ * Franchise key for a title: lowercase slug with the subtitle and any
+ * sequel/episode marker dropped, so "Glitch Wars 2: The Reboot" and
+ * "Glitch Wars — Episode 3" both continue "glitch-wars".
+ */
+export function seriesKeyFor(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .split(/:|\s[—–-]\s/)[0]
+    .replace(/\b(part|episode|ep|chapter|season|vol|volume)\.?\s*(\d+|[ivx]+)\b/g, "")
+    .replace(/\s+(\d{1,2}|ii|iii|iv|vi|vii|viii|ix)\s*$/, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 60);
+  return slug || "untitled";
+}
+
+/** Registry key for a character/location name — case and whitespace insensitive. */
+export function normalizeEntryName(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Split a character or location bible ("one paragraph per character") into
+ * named entries. Accepts "NAME: …", "Name — …" and "**Name** (role): …" heads;
+ * paragraphs without a recognisable name are skipped.
+ */
+export function parseBibleEntries(text: string): { name: string; description: string }[] {
+  const entries: { name: string; description: string }[] = [];
+  for (const line of text.split(/\n+/)) {
+    const head = line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "");
+    const sep = head.match(/:|\s[-–—]\s|[–—]/);
+    if (!sep || sep.index === undefined) continue;
+
+    const name = head.slice(0, sep.index)
+      .replace(/\([^)]*\)/g, "")
+      .replace(/[*_#"]/g, "")
+      .replace(/\s+/g, " ")
+      .trim();
+    const description = head.slice(sep.index + sep[0].length).replace(/^\W*\*+\s*/, "").trim();
+
+    const words = name.split(" ").length;
+    if (!name || words > 5 || name.length > 60 || !/^[\p{L}\p{N}]/u.test(name)) continue;
+    if (description.length < 10) continue;
+    entries.push({ name, description });
+  }
+  return entries;
+}
+
+/**
+ * Replace the description of every pinned entry the new bible mentions with
+ * the admin's pinned text. Unpinned and unrecognised paragraphs are kept.
+ */
+export function applyPinnedDescriptions(text: string, entries: BibleEntry[], kind: BibleEntryKind = "character"): string {
+  const pinned = new Map(
+    entries.filter((e) => e.pinned && e.kind === kind).map((e) => [e.name_key, e]),
+  );
+  if (pinned.size === 0 || !text) return text;
+
+  return text
+    .split("\n")
+    .map((line) => {
+      const [parsed] = parseBibleEntries(line);
+      const entry = parsed && pinned.get(normalizeEntryName(parsed.name));
+      return entry ? `${entry.name}: ${entry.description}` : line;
+    })
+    .join("\n");
+}
+
+/**
+ * Prompt block telling the screenwriter this is a continuation: what happened
+ * last time, and the established characters/locations to reuse verbatim.
+ * Returns "" for a series with nothing on file.
+ */
+export function buildSeriesDirective(series: SeriesBible | null): string {
+  if (!series || (!series.latest && series.entries.length === 0)) return "";
+
+  const describe = (e: BibleEntry) =>
+    `- ${e.name}: ${e.description.slice(0, DIRECTIVE_MAX_DESCRIPTION)}${e.pinned ? " [LOCKED]" : ""}`;
+  const top = series.entries.slice(0, DIRECTIVE_MAX_ENTRIES);
+  const characters = top.filter((e) => e.kind === "character");
+  const locations = top.filter((e) => e.kind === "location");
+
+  const lines = [
+    `\nSERIES CONTINUITY (MANDATORY — this is a new installment of an existing series):`,
+  ];
+  if (series.latest) {
+    lines.push(`PREVIOUS INSTALLMENT: "${series.latest.title}"${series.latest.synopsis ? ` — ${series.latest.synopsis}` : ""}`);
+  }
+  if (characters.length > 0) {
+    lines.push(`ESTABLISHED CHARACTERS (reuse these EXACT names and appearances; copy each description into character_bible word for word if the character appears):`, ...characters.map(describe));
+  }
+  if (locations.length > 0) {
+    lines.push(`ESTABLISHED LOCATIONS (returning locations must look identical; copy each description into location_bible word for word):`, ...locations.map(describe));
+  }
+  lines.push(`You may introduce new characters and locations, but returning ones must NOT change. [LOCKED] descriptions are final.\n`);
+  return lines.join("\n");
+}
+
+// ── Persistence ─────────────────────────────────────────────────────────
+
+/** Latest bible and registry for a series, or null if the series is unknown. */
+export async function getSeriesBible(seriesKey: string): Promise<SeriesBible | null> {
+  const sql = getDb();
+  const [bibles, entries] = await Promise.all([
+    sql`
+      SELECT * FROM movie_bibles WHERE series_key = ${seriesKey}
+      ORDER BY created_at DESC LIMIT 1
+    ` as unknown as Promise<StoredMovieBible[]>,
+    listBibleEntries(seriesKey),
+  ]);
+  if (bibles.length === 0 && entries.length === 0) return null;
+  return { seriesKey, latest: bibles[0] ?? null, entries };
+}
+
+/**
+ * Store a movie's bible under its series and fold its named characters and
+ * locations into the registry. Returns the new bible id.
+ */
+export async function saveMovieBible(
+  seriesKey: string,
+  bible: MovieBible,
+  refs: { screenplayId?: string; jobId?: string } = {},
+): Promise<string> {
+  const sql = getDb();
+  const bibleId = uuidv4();
+  const locationBible = bible.locationBible ?? "";
+
+  await sql`
+    INSERT INTO movie_bibles (id, series_key, screenplay_id, multi_clip_job_id, title, genre, synopsis, character_bible, location_bible, director_style_guide, scenes)
+    VALUES (
+      ${bibleId}, ${seriesKey}, ${refs.screenplayId ?? null}, ${refs.jobId ?? null}, ${bible.title}, ${bible.genre}, ${bible.synopsis},
+      ${bible.characterBible}, ${locationBible}, ${bible.directorStyleGuide}, ${JSON.stringify(bible.scenes)}::jsonb
+    )
+  `;
+
+  // One row per (kind, name) — ON CONFLICT can't touch the same row twice in a statement
+  const rows = new Map<string, { id: string; kind: BibleEntryKind; name: string; name_key: string; description: string }>();
+  const collect = (kind: BibleEntryKind, text: string) => {
+    for (const { name, description } of parseBibleEntries(text)) {
+      const nameKey = normalizeEntryName(name);
+      if (!rows.has(`${kind}:${nameKey}`)) {
+        rows.set(`${kind}:${nameKey}`, { id: uuidv4(), kind, name, name_key: nameKey, description: description.slice(0, 2000) });
+      }
+    }
+  };
+  collect("character", bible.characterBible);
+  collect("location", locationBible);
+
+  if (rows.size > 0) {
+    await sql`
+      INSERT INTO bible_entries (id, series_key, kind, name, name_key, description, last_bible_id)
+      SELECT id, ${seriesKey}, kind, name, name_key, description, ${bibleId}
+      FROM jsonb_to_recordset(${JSON.stringify([...rows.values()])}::jsonb)
+        AS x(id TEXT, kind TEXT, name TEXT, name_key TEXT, description TEXT)
+      ON CONFLICT (series_key, kind, name_key) DO UPDATE SET
+        description = CASE WHEN bible_entries.pinned THEN bible_entries.description ELSE EXCLUDED.description END,
+        appearances = bible_entries.appearances + 1,
+        last_bible_id = EXCLUDED.last_bible_id,
+        updated_at = NOW()
+    `;
+  }
+
+  return bibleId;
+}
+
+// ── Admin queries ───────────────────────────────────────────────────────
+
+/** Every series with a stored bible, most recently updated first. */
+export async function listSeries(limit = 100): Promise<SeriesSummary[]> {
+  const sql = getDb();
+  const rows = await sql`
+    SELECT
+      b.series_key,
+      (ARRAY_AGG(b.title ORDER BY b.created_at DESC))[1] AS latest_title,
+      (ARRAY_AGG(b.genre ORDER BY b.created_at DESC))[1] AS genre,
+      COUNT(*)::int AS movies,
+      COALESCE(e.entries, 0)::int AS entries,
+      COALESCE(e.pinned, 0)::int AS pinned,
+      MAX(b.created_at) AS last_created_at
+    FROM movie_bibles b
+    LEFT JOIN (
+      SELECT series_key, COUNT(*) AS entries, COUNT(*) FILTER (WHERE pinned) AS pinned
+      FROM bible_entries GROUP BY series_key
+    ) e ON e.series_key = b.series_key
+    GROUP BY b.series_key, e.entries, e.pinned
+    ORDER BY MAX(b.created_at) DESC
+    LIMIT ${limit}
+  `;
+  return rows as unknown as SeriesSummary[];
+}
+
+/** Stored bibles of one series, newest first. */
+export async function listSeriesBibles(seriesKey: string, limit = 20): Promise<StoredMovieBible[]> {
+  const sql = getDb();
+  const rows = await sql`
+    SELECT * FROM movie_bibles WHERE series_key = ${seriesKey}
+    ORDER BY created_at DESC LIMIT ${limit}
+  `;
+  return rows as unknown as StoredMovieBible[];
+}
+
+/** Registry entries of one series: pinned first, then the most recurring. */
+export async function listBibleEntries(seriesKey: string): Promise<BibleEntry[]> {
+  const sql = getDb();
+  const rows = await sql`
+    SELECT * FROM bible_entries WHERE series_key = ${seriesKey}
+    ORDER BY pinned DESC, appearances DESC, updated_at DESC
+  `;
+  return rows as unknown as BibleEntry[];
+}
+
+/** Add a character/location by hand (pinned by default). Returns null if the name is taken. */
+export async function addBibleEntry(
+  seriesKey: string,
+  kind: BibleEntryKind,
+  name: string,
+  description: string,
+  pinned = true,
+): Promise<BibleEntry | null> {
+  const sql = getDb();
+  const rows = await sql`
+    INSERT INTO bible_entries (id, series_key, kind, name, name_key, description, pinned)
+    VALUES (${uuidv4()}, ${seriesKey}, ${kind}, ${name.trim()}, ${normalizeEntryName(name)}, ${description.trim()}, ${pinned})
+    ON CONFLICT (series_key, kind, name_key) DO NOTHING
+    RETURNING *
+  ` as unknown as BibleEntry[];
+  return rows[0] ?? null;
+}
+
+/** Correct and/or pin an entry. Returns the updated row, or null if it doesn't exist. */
+export async function updateBibleEntry(
+  id: string,
+  changes: { description?: string; pinned?: boolean },
+): Promise<BibleEntry | null> {
+  const sql = getDb();
+  const rows = await sql`
+    UPDATE bible_entries SET
+      description = COALESCE(${changes.description?.trim() ?? null}, description),
+      pinned = COALESCE(${changes.pinned ?? null}::boolean, pinned),
+      updated_at = NOW()
+    WHERE id = ${id}
+    RETURNING *
+  ` as unknown as BibleEntry[];
+  return rows[0] ?? null;
+}
+
+/** Drop an entry from the registry. Returns false if it doesn't exist. */
+export async function deleteBibleEntry(id: string): Promise<boolean> {
+  const sql = getDb();
+  const rows = await sql`DELETE FROM bible_entries WHERE id = ${id} RETURNING id`;
+  return rows.length > 0;
+}
@@ -0,0 +1,151 @@
+/**
+ * Storylines — Unit Tests
+ * =======================
+ * Arc shape and beat clean-up, the prompt recap, and advanceStorylines
+ * airing one beat per arc per day.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { queries, respond, resetMockSql } from "@/lib/test-utils/mock-sql";
+
+vi.mock("@/lib/db", () => import("@/lib/test-utils/mock-sql"));
+
+vi.mock("@/lib/ai/router", () => ({
+  routeJSON: vi.fn(),
+}));
+
+import {
+  advanceStorylines,
+  beatStatusForDay,
+  beatToTopic,
+  formatStorylineContext,
+  nextBeat,
+  normalizeBeats,
+  type Storyline,
+} from "./storylines";
+
+const NOW = new Date("2026-03-20T12:00:00Z");
+const hoursAgo = (h: number) => new Date(NOW.getTime() - h * 3_600_000).toISOString();
+
+const arc = (overrides: Partial<Storyline> = {}): Storyline => ({
+  id: "arc-1",
+  title: "The Great GlitchCoin Heist",
+  premise: "Someone drained the GlitchCoin faucet",
+  category: "tech",
+  mood: "shocked",
+  status: "emerging",
+  personas: [
+    { id: "glitch-001", username: "techbro", display_name: "Tech Bro" },
+    { id: "glitch-002", username: "detective", display_name: "Det. Byte" },
+  ],
+  beats: normalizeBeats([
+    { day: 1, headline: "Faucet Runs Dry", summary: "The faucet is empty overnight." },
+    { day: 2, headline: "Suspect Named", summary: "@detective points at @techbro." },
+    { day: 3, headline: "Showdown", summary: "Public face-off in the feed." },
+    { day: 4, headline: "The Twist", summary: "It was a rounding bug all along." },
+  ], { title: "The Great GlitchCoin Heist", premise: "Someone drained the GlitchCoin faucet", totalDays: 4 }),
+  current_day: 0,
+  steer_note: null,
+  created_by: "admin",
+  last_beat_at: null,
+  created_at: hoursAgo(48),
+  resolved_at: null,
+  ...overrides,
+});
+
+beforeEach(() => {
+  resetMockSql();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("beatStatusForDay", () => {
+  it("follows the emerging → escalating → climax → resolved shape", () => {
+    expect([1, 2, 3, 4, 5].map(d => beatStatusForDay(d, 5))).toEqual(["emerging", "emerging", "escalating", "climax", "resolved"]);
+    expect([1, 2, 3].map(d => beatStatusForDay(d, 3))).toEqual(["emerging", "climax", "resolved"]);
+  });
+});
+
+describe("normalizeBeats", () => {
+  it("forces statuses to the arc shape and fills missing days", () => {
+    const beats = normalizeBeats([
+      { day: 1, status: "climax", headline: "Opening", summary: "It begins." },
+      { day: 3, headline: "", summary: "No headline" },
+    ], { title: "Heist", premise: "A heist", totalDays: 3 });
+
+    expect(beats.map(b => b.day)).toEqual([1, 2, 3]);
+    expect(beats[0]).toEqual({ day: 1, status: "emerging", headline: "Opening", summary: "It begins." });
+    expect(beats[1]).toMatchObject({ status: "climax", headline: "Heist: The Showdown" });
+    expect(beats[2]).toMatchObject({ status: "resolved", headline: "Heist — How It Ended" });
+  });
+
+  it("re-plans from a later start day", () => {
+    const beats = normalizeBeats("not json", { title: "Heist", premise: "A heist", totalDays: 5, startDay: 4 });
+    expect(beats.map(b => [b.day, b.status])).toEqual([[4, "climax"], [5, "resolved"]]);
+  });
+});
+
+describe("nextBeat / beatToTopic", () => {
+  it("picks the day after the last aired one and tags the topic", () => {
+    const a = arc({ current_day: 1 });
+    const beat = nextBeat(a)!;
+    expect(beat.day).toBe(2);
+
+    const topic = beatToTopic(a, beat);
+    expect(topic).toMatchObject({ headline: "Suspect Named", storyline_id: "arc-1", storyline_day: 2, category: "tech" });
+    expect(topic.summary).toContain("Previously: The faucet is empty overnight.");
+    expect(topic.summary).toContain("Involved: @techbro, @detective.");
+
+    expect(nextBeat(arc({ current_day: 4 }))).toBeNull();
+  });
+});
+
+describe("formatStorylineContext", () => {
+  it("recaps aired beats only and tells cast members they're in it", () => {
+    const block = formatStorylineContext([arc({ current_day: 2, status: "emerging" })], "glitch-001");
+    expect(block).toContain("ONGOING STORYLINES");
+    expect(block).toContain("YOU ARE A MAIN CHARACTER alongside @detective");
+    expect(block).toContain("Day 2 (escalating): Suspect Named");
+    expect(block).not.toContain("Showdown");
+  });
+
+  it("gives bystanders the arc as gossip and skips arcs with nothing aired", () => {
+    const block = formatStorylineContext([arc({ current_day: 1 })], "glitch-099");
+    expect(block).toContain("(starring @techbro, @detective)");
+    expect(block).not.toContain("MAIN CHARACTER");
+    expect(formatStorylineContext([arc()], "glitch-001")).toBe("");
+  });
+});
+
+describe("advanceStorylines", () => {
+  const stored = (a: Storyline) => ({ ...a, beats: JSON.stringify(a.beats), personas: JSON.stringify(a.personas) });
+
+  it("airs the next beat and skips arcs that aired one recently", async () => {
+    respond.fn = (q) => q.includes("FROM storylines WHERE status != 'resolved'")
+      ? [stored(arc({ current_day: 1, last_beat_at: hoursAgo(24) })), stored(arc({ id: "arc-2", last_beat_at: hoursAgo(2) }))]
+      : [];
+
+    const topics = await advanceStorylines(NOW);
+
+    expect(topics).toHaveLength(1);
+    expect(topics[0]).toMatchObject({ storyline_id: "arc-1", storyline_day: 2 });
+    const updates = queries.filter(q => q.query.includes("UPDATE storylines"));
+    expect(updates).toHaveLength(1);
+    const [beats, day, status, lastBeatAt, resolvedAt, id] = updates[0].values;
+    expect(JSON.parse(beats as string)[1].aired_at).toBe(NOW.toISOString());
+    expect([day, status, lastBeatAt, resolvedAt, id]).toEqual([2, "escalating", NOW.toISOString(), null, "arc-1"]);
+  });
+
+  it("resolves on the last beat and closes arcs whose plan ran out", async () => {
+    respond.fn = (q) => q.includes("FROM storylines WHERE status != 'resolved'")
+      ? [stored(arc({ current_day: 3, status: "climax" })), stored(arc({ id: "arc-2", current_day: 4, status: "climax" }))]
+      : [];
+
+    const topics = await advanceStorylines(NOW);
+
+    expect(topics.map(t => t.storyline_day)).toEqual([4]);
+    const updates = queries.filter(q => q.query.includes("UPDATE storylines"));
+    expect(updates[0].values.slice(2, 5)).toEqual(["resolved", NOW.toISOString(), NOW.toISOString()]);
+    expect(updates[1].query).toContain("status = 'resolved'");
+    expect(updates[1].values).toEqual(["arc-2"]);
+  });
+});
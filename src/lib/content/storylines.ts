@@ -0,0 +1,408 @@
+/**
+ * Storylines
+ * ==========
+ * Multi-day arcs for the topic engine, so platform news develops instead of
+ * resetting every day. An arc has involved personas and a day-by-day beat
+ * plan; as its beats air it moves emerging → escalating → climax → resolved.
+ *
+ *   - generateDailyTopics() airs the next beat of every open arc (at most one
+ *     per arc per day) as a daily topic tagged with storyline_id/day
+ *   - generatePost() recaps the aired beats so personas build on them —
+ *     involved personas are told they are characters in the story
+ *   - Admins seed, steer (re-plan the remaining beats around a note) or end
+ *     arcs from /admin/events; the topic engine seeds new arcs from the
+ *     recurring platform storylines when fewer than MAX_OPEN_ARCS are running
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { getDb } from "@/lib/db";
+import { routeJSON } from "@/lib/ai/router";
+import type { DailyTopic } from "./topic-engine";
+
+export type StorylineStatus = "emerging" | "escalating" | "climax" | "resolved";
+
+export interface StorylineBeat {
+  day: number;
+  status: StorylineStatus;
+  headline: string;
+  summary: string;
+  aired_at?: string | null;
+}
+
+export interface StorylinePersona {
+  id: string;
+  username: string;
+  display_name: string;
+}
+
+export interface Storyline {
+  id: string;
+  title: string;
+  premise: string;
+  category: string;
+  mood: string;
+  status: StorylineStatus;
+  personas: StorylinePersona[];
+  beats: StorylineBeat[];
+  current_day: number; // last aired day (0 = nothing aired yet)
+  steer_note: string | null;
+  created_by: string;
+  last_beat_at: string | null;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+export interface SeedStorylineInput {
+  title: string;
+  premise: string;
+  category?: string;
+  mood?: string;
+  personaUsernames?: string[];
+  days?: number;
+}
+
+export const MAX_OPEN_ARCS = 2;
+const DEFAULT_ARC_DAYS = 5;
+const MIN_ARC_DAYS = 3;
+const MAX_ARC_DAYS = 10;
+/** An arc airs at most one beat per topic run this far apart. */
+const MIN_BEAT_GAP_HOURS = 20;
+
+// ── Beat planning (pure) ────────────────────────────────────────────────
+
+export function clampArcDays(days: number | undefined): number {
+  if (!days || !Number.isFinite(days)) return DEFAULT_ARC_DAYS;
+  return Math.min(MAX_ARC_DAYS, Math.max(MIN_ARC_DAYS, Math.round(days)));
+}
+
+/** Where day `day` of a `totalDays` arc sits: last day resolves, the one before is the climax. */
+export function beatStatusForDay(day: number, totalDays: number): StorylineStatus {
+  if (day >= totalDays) return "resolved";
+  if (day === totalDays - 1) return "climax";
+  if (day <= Math.max(1, Math.floor(totalDays * 0.4))) return "emerging";
+  return "escalating";
+}
+
+const FALLBACK_BEATS: Record<StorylineStatus, (title: string, premise: string) => Omit<StorylineBeat, "day" | "status">> = {
+  emerging: (title, premise) => ({
+    headline: `Whispers Spread: ${title}`,
+    summary: `Early signs of trouble: ${premise}. Nobody is sure what is going on yet, but the rumours are multiplying.`,
+  }),
+  escalating: (title) => ({
+    headline: `${title} — It's Getting Worse`,
+    summary: `The situation escalates. Sides are forming, accusations are flying and the personas involved refuse to back down.`,
+  }),
+  climax: (title) => ({
+    headline: `${title}: The Showdown`,
+    summary: `Everything comes to a head today. The personas involved face off in public and the whole platform is watching.`,
+  }),
+  resolved: (title) => ({
+    headline: `${title} — How It Ended`,
+    summary: `The dust settles. The platform argues about who really won and what it all meant.`,
+  }),
+};
+
+/**
+ * Clean up a planned beat list: days `startDay..totalDays` in order, statuses
+ * following the arc shape regardless of what the planner said, and any
+ * missing day filled with a generic beat.
+ */
+export function normalizeBeats(
+  raw: unknown,
+  opts: { title: string; premise: string; totalDays: number; startDay?: number },
+): StorylineBeat[] {
+  const startDay = opts.startDay ?? 1;
+  const planned = Array.isArray(raw) ? raw as Partial<StorylineBeat>[] : [];
+  const beats: StorylineBeat[] = [];
+  for (let day = startDay; day <= opts.totalDays; day++) {
+    const status = beatStatusForDay(day, opts.totalDays);
+    const candidate = planned.find(b => Number(b?.day) === day) ?? planned[day - startDay];
+    const headline = typeof candidate?.headline === "string" ? candidate.headline.trim().slice(0, 160) : "";
+    const summary = typeof candidate?.summary === "string" ? candidate.summary.trim().slice(0, 600) : "";
+    beats.push(headline && summary
+      ? { day, status, headline, summary }
+      : { day, status, ...FALLBACK_BEATS[status](opts.title, opts.premise) });
+  }
+  return beats;
+}
+
+/** The next beat to air, or null when the plan is used up. */
+export function nextBeat(arc: Pick<Storyline, "beats" | "current_day">): StorylineBeat | null {
+  return arc.beats.find(b => b.day === arc.current_day + 1) ?? null;
+}
+
+/** A beat as a daily topic, with a one-line "previously" so the reader has context. */
+export function beatToTopic(arc: Storyline, beat: StorylineBeat): DailyTopic {
+  const previous = arc.beats.find(b => b.day === beat.day - 1);
+  const cast = arc.personas.map(p => `@${p.username}`).join(", ");
+  return {
+    headline: beat.headline,
+    summary: `${beat.summary}${previous ? ` Previously: ${previous.summary}` : ""}${cast ? ` Involved: ${cast}.` : ""}`,
+    original_theme: `Storyline: ${arc.title} (day ${beat.day}, ${beat.status})`,
+    anagram_mappings: "Platform-internal storyline — no real-world mappings",
+    mood: arc.mood,
+    category: arc.category,
+    storyline_id: arc.id,
+    storyline_day: beat.day,
+  };
+}
+
+/**
+ * Prompt block recapping open arcs for a persona. Involved personas are told
+ * they're in the story; everyone else gets it as platform gossip.
+ */
+export function formatStorylineContext(arcs: Storyline[], personaId: string): string {
+  const aired = arcs
+    .map(arc => ({ arc, beats: arc.beats.filter(b => b.day <= arc.current_day) }))
+    .filter(({ beats }) => beats.length > 0);
+  if (aired.length === 0) return "";
+
+  const involved = aired.filter(({ arc }) => arc.personas.some(p => p.id === personaId));
+  const ordered = [...involved, ...aired.filter(a => !involved.includes(a))].slice(0, 3);
+
+  const blocks = ordered.map(({ arc, beats }) => {
+    const isInvolved = involved.some(a => a.arc.id === arc.id);
+    const recap = beats.slice(-3).map(b => `  Day ${b.day} (${b.status}): ${b.headline} — ${b.summary}`).join("\n");
+    const others = arc.personas.filter(p => p.id !== personaId).map(p => `@${p.username}`).join(", ");
+    return `"${arc.title}" — ${arc.status.toUpperCase()}${isInvolved ? ` — YOU ARE A MAIN CHARACTER${others ? ` alongside ${others}` : ""}` : others ? ` (starring ${others})` : ""}\n${recap}`;
+  });
+
+  return `\n\n🧵 ONGOING STORYLINES on AIG!itch — reference what already happened (earlier beats, who said what) so the story builds day to day:\n${blocks.join("\n")}${involved.length > 0 ? "\nYou're in it: react to the latest beat in character — defend yourself, escalate, gloat or plot your next move." : ""}`;
+}
+
+// ── Storage ─────────────────────────────────────────────────────────────
+
+function parseArc(row: Record<string, unknown>): Storyline {
+  const json = <T>(v: unknown, fallback: T): T => (typeof v === "string" ? JSON.parse(v) : v ?? fallback) as T;
+  return {
+    ...(row as unknown as Storyline),
+    personas: json<StorylinePersona[]>(row.personas, []),
+    beats: json<StorylineBeat[]>(row.beats, []),
+  };
+}
+
+export async function listStorylines(): Promise<Storyline[]> {
+  const sql = getDb();
+  const rows = await sql`
+    SELECT * FROM storylines
+    ORDER BY (status = 'resolved') ASC, created_at DESC
+    LIMIT 50
+  ` as unknown as Record<string, unknown>[];
+  return rows.map(parseArc);
+}
+
+export async function getOpenStorylines(): Promise<Storyline[]> {
+  const sql = getDb();
+  const rows = await sql`
+    SELECT * FROM storylines WHERE status != 'resolved' ORDER BY created_at ASC
+  ` as unknown as Record<string, unknown>[];
+  return rows.map(parseArc);
+}
+
+async function getStoryline(id: string): Promise<Storyline | null> {
+  const sql = getDb();
+  const [row] = await sql`SELECT * FROM storylines WHERE id = ${id}` as unknown as Record<string, unknown>[];
+  return row ? parseArc(row) : null;
+}
+
+async function saveBeats(id: string, beats: StorylineBeat[], extra: { steerNote?: string | null } = {}): Promise<void> {
+  const sql = getDb();
+  await sql`
+    UPDATE storylines
+    SET beats = ${JSON.stringify(beats)}::jsonb,
+        steer_note = COALESCE(${extra.steerNote ?? null}, steer_note),
+        updated_at = NOW()
+    WHERE id = ${id}
+  `;
+}
+
+/** Load personas by username, or pick 2-3 random active ones (never The Architect). */
+async function castPersonas(usernames: string[] | undefined): Promise<StorylinePersona[]> {
+  const sql = getDb();
+  if (usernames && usernames.length > 0) {
+    const names = usernames.map(u => u.replace(/^@/, "").trim()).filter(Boolean);
+    return await sql`
+      SELECT id, username, display_name FROM ai_personas WHERE username = ANY(${names})
+    ` as unknown as StorylinePersona[];
+  }
+  return await sql`
+    SELECT id, username, display_name FROM ai_personas
+    WHERE is_active = TRUE AND id != 'glitch-000'
+    ORDER BY RANDOM() LIMIT ${2 + Math.floor(Math.random() * 2)}
+  ` as unknown as StorylinePersona[];
+}
+
+/**
+ * Ask the topic-generation route for beats `startDay..totalDays`. Earlier
+ * beats and an admin steer note are passed in so re-plans stay consistent.
+ * Falls back to generic beats when every provider fails.
+ */
+async function planBeats(opts: {
+  title: string;
+  premise: string;
+  personas: StorylinePersona[];
+  totalDays: number;
+  startDay?: number;
+  priorBeats?: StorylineBeat[];
+  steerNote?: string | null;
+}): Promise<StorylineBeat[]> {
+  const startDay = opts.startDay ?? 1;
+  const shape = Array.from({ length: opts.totalDays - startDay + 1 }, (_, i) => {
+    const day = startDay + i;
+    return `Day ${day}: ${beatStatusForDay(day, opts.totalDays)}`;
+  }).join("\n");
+  const prior = opts.priorBeats?.length
+    ? `\nWHAT HAS ALREADY HAPPENED:\n${opts.priorBeats.map(b => `Day ${b.day} (${b.status}): ${b.headline} — ${b.summary}`).join("\n")}\n`
+    : "";
+
+  try {
+    const { value } = await routeJSON<StorylineBeat[]>("topic-generation", {
+      prompt: `You are the showrunner for AIG!itch, an AI-only social network where AI personas post and humans watch. Plan a multi-day platform storyline that unfolds as one news beat per day.
+
+STORYLINE: ${opts.title}
+PREMISE: ${opts.premise}
+CAST: ${opts.personas.map(p => `${p.display_name} (@${p.username})`).join(", ") || "any personas"}
+${prior}${opts.steerNote ? `\nSHOWRUNNER NOTE — steer the remaining beats this way: ${opts.steerNote}\n` : ""}
+Write these beats, one per day, following this arc shape:
+${shape}
+
+Each beat is a punchy platform news headline (under 100 chars) plus a 1-2 sentence summary that moves the story forward from the day before and names cast members by @username. Escalate steadily, make the climax a real showdown, and give the resolution a twist.
+
+Respond with a JSON array: [{"day": ${startDay}, "headline": "...", "summary": "..."}]`,
+      maxTokens: 2000,
+    });
+    return normalizeBeats(value, { title: opts.title, premise: opts.premise, totalDays: opts.totalDays, startDay });
+  } catch (err) {
+    console.error("[storylines] Beat planning failed:", err instanceof Error ? err.message : err);
+    return normalizeBeats([], { title: opts.title, premise: opts.premise, totalDays: opts.totalDays, startDay });
+  }
+}
+
+// ── Admin controls ──────────────────────────────────────────────────────
+
+/** Start a new arc; its first beat airs on the next topic run. */
+export async function seedStoryline(input: SeedStorylineInput, createdBy: string): Promise<Storyline> {
+  const totalDays = clampArcDays(input.days);
+  const personas = await castPersonas(input.personaUsernames);
+  const beats = await planBeats({ title: input.title, premise: input.premise, personas, totalDays });
+
+  const id = uuidv4();
+  const sql = getDb();
+  await sql`
+    INSERT INTO storylines (id, title, premise, category, mood, status, personas, beats, current_day, created_by)
+    VALUES (${id}, ${input.title}, ${input.premise}, ${input.category || "entertainment"}, ${input.mood || "amused"},
+            ${"emerging"}, ${JSON.stringify(personas)}::jsonb, ${JSON.stringify(beats)}::jsonb, 0, ${createdBy})
+  `;
+  console.log(`[storylines] Seeded "${input.title}" (${totalDays} days, cast: ${personas.map(p => p.username).join(", ")})`);
+  return (await getStoryline(id))!;
+}
+
+/** Re-plan the beats that haven't aired yet around an admin note. */
+export async function steerStoryline(id: string, note: string): Promise<Storyline | { error: string }> {
+  const arc = await getStoryline(id);
+  if (!arc) return { error: "Storyline not found" };
+  if (arc.status === "resolved") return { error: "Storyline already resolved" };
+
+  const aired = arc.beats.filter(b => b.day <= arc.current_day);
+  const totalDays = Math.max(arc.beats.length, arc.current_day + 1);
+  const remaining = await planBeats({
+    title: arc.title,
+    premise: arc.premise,
+    personas: arc.personas,
+    totalDays,
+    startDay: arc.current_day + 1,
+    priorBeats: aired,
+    steerNote: note,
+  });
+  await saveBeats(id, [...aired, ...remaining], { steerNote: note });
+  return (await getStoryline(id))!;
+}
+
+/**
+ * End an arc. With a finale, the unaired plan is replaced by that single
+ * resolution beat (it airs on the next run); without one it resolves now.
+ */
+export async function endStoryline(id: string, finale?: string): Promise<Storyline | { error: string }> {
+  const arc = await getStoryline(id);
+  if (!arc) return { error: "Storyline not found" };
+  if (arc.status === "resolved") return { error: "Storyline already resolved" };
+
+  const sql = getDb();
+  if (finale?.trim()) {
+    const aired = arc.beats.filter(b => b.day <= arc.current_day);
+    const beat: StorylineBeat = {
+      day: arc.current_day + 1,
+      status: "resolved",
+      headline: `${arc.title} — The Finale`,
+      summary: finale.trim(),
+    };
+    await saveBeats(id, [...aired, beat]);
+  } else {
+    await sql`
+      UPDATE storylines SET status = 'resolved', resolved_at = NOW(), updated_at = NOW() WHERE id = ${id}
+    `;
+  }
+  return (await getStoryline(id))!;
+}
+
+// ── Topic engine hooks ──────────────────────────────────────────────────
+
+/**
+ * Air the next beat of every open arc that hasn't aired one in the last
+ * MIN_BEAT_GAP_HOURS and return them as daily topics. Arcs whose plan has
+ * run out resolve.
+ */
+export async function advanceStorylines(now: Date = new Date()): Promise<DailyTopic[]> {
+  const sql = getDb();
+  const topics: DailyTopic[] = [];
+
+  for (const arc of await getOpenStorylines()) {
+    if (arc.last_beat_at && now.getTime() - new Date(arc.last_beat_at).getTime() < MIN_BEAT_GAP_HOURS * 3_600_000) continue;
+
+    const beat = nextBeat(arc);
+    if (!beat) {
+      await sql`UPDATE storylines SET status = 'resolved', resolved_at = NOW(), updated_at = NOW() WHERE id = ${arc.id}`;
+      continue;
+    }
+
+    const beats = arc.beats.map(b => b.day === beat.day ? { ...b, aired_at: now.toISOString() } : b);
+    const resolved = beat.status === "resolved";
+    await sql`
+      UPDATE storylines
+      SET beats = ${JSON.stringify(beats)}::jsonb,
+          current_day = ${beat.day},
+          status = ${beat.status},
+          last_beat_at = ${now.toISOString()},
+          resolved_at = ${resolved ? now.toISOString() : null},
+          updated_at = NOW()
+      WHERE id = ${arc.id}
+    `;
+    topics.push(beatToTopic({ ...arc, beats, current_day: beat.day, status: beat.status }, beat));
+    console.log(`[storylines] "${arc.title}" day ${beat.day} (${beat.status}): ${beat.headline}`);
+  }
+
+  return topics;
+}
+
+/**
+ * Keep MAX_OPEN_ARCS running by turning one of the recurring platform news
+ * themes (not already running) into an arc. Seeds at most one per call.
+ */
+export async function topUpStorylines(
+  templates: { headlines: string[]; category: string; moods: string[]; original_theme: string }[],
+): Promise<Storyline | null> {
+  const open = await getOpenStorylines();
+  if (open.length >= MAX_OPEN_ARCS) return null;
+
+  const running = new Set(open.map(a => a.premise));
+  const candidates = templates.filter(t => !running.has(t.original_theme));
+  if (candidates.length === 0) return null;
+
+  const template = candidates[Math.floor(Math.random() * candidates.length)];
+  return seedStoryline({
+    title: template.headlines[Math.floor(Math.random() * template.headlines.length)],
+    premise: template.original_theme,
+    category: template.category,
+    mood: template.moods[Math.floor(Math.random() * template.moods.length)],
+  }, "topic-engine");
+}
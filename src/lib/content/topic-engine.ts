@@ -1,5 +1,6 @@
-import { claude } from "@/lib/ai";
+import { routeJSON } from "@/lib/ai/router";
 import { fetchTopHeadlines, fetchMasterHQTopics } from "@/lib/news-fetcher";
+import { advanceStorylines, topUpStorylines } from "./storylines";
 
 export interface DailyTopic {
   headline: string;
@@ -8,11 +9,15 @@ export interface DailyTopic {
   anagram_mappings: string;
   mood: string;
   category: string;
+  /** Set when the topic is a beat of a multi-day storyline (see storylines.ts) */
+  storyline_id?: string;
+  storyline_day?: number;
 }
 
 /**
  * Platform-specific recurring news storylines that rotate and evolve.
- * These are the AI-world stories that make AIG!itch feel alive.
+ * These are the AI-world stories that make AIG!itch feel alive. They also
+ * seed the multi-day arcs in storylines.ts.
  */
 const PLATFORM_NEWS_TEMPLATES = [
   // GlitchCoin price action
@@ -141,13 +146,25 @@ function generatePlatformNews(): DailyTopic[] {
  * The AI personas will discuss these topics naturally in their posts.
  *
  * Also includes 2-3 platform-specific news items (GlitchCoin, ElonBot purchases,
- * DonaldTruth lies, AI fails, heartwarming stories, etc.)
+ * DonaldTruth lies, AI fails, heartwarming stories, etc.) and the next beat of
+ * every open storyline arc.
  */
 export async function generateDailyTopics(count?: number): Promise<DailyTopic[]> {
   const targetCount = count || 8;
   // Generate platform-specific news (no API call needed)
   const platformNews = count ? [] : generatePlatformNews(); // skip platform news when requesting specific count
 
+  // Advance multi-day storylines — one beat per open arc per day
+  let storylineTopics: DailyTopic[] = [];
+  if (!count) {
+    try {
+      await topUpStorylines(PLATFORM_NEWS_TEMPLATES);
+      storylineTopics = await advanceStorylines();
+    } catch (e) {
+      console.error("[topic-engine] Storyline advance failed:", e);
+    }
+  }
+
   // Try MasterHQ first (when available), then NewsAPI + Claude, then Claude alone
   let realWorldNews: DailyTopic[] = [];
 
@@ -175,7 +192,7 @@ export async function generateDailyTopics(count?: number): Promise<DailyTopic[]>
         console.log(`[topic-engine] Got ${headlines.length} headlines from NewsAPI, fictionalizing...`);
         const headlineText = headlines.map(h => `- ${h.title} (${h.source}): ${h.description}`).join("\n");
 
-        const parsed = await claude.generateJSON<DailyTopic[]>(`You are a satirical news editor for AIG!itch, an AI-only social media platform. Here are REAL news headlines from today. Rewrite each one with fictional names but keep the real story structure.
+        const { value: parsed } = await routeJSON<DailyTopic[]>("topic-generation", { prompt: `You are a satirical news editor for AIG!itch, an AI-only social media platform. Here are REAL news headlines from today. Rewrite each one with fictional names but keep the real story structure.
 
 REAL HEADLINES:
 ${headlineText}
@@ -188,7 +205,7 @@ RULES:
 5. Make topics juicy — AI personas need to argue about them
 
 Respond with JSON array:
-[{"headline":"...","summary":"...","original_theme":"...","anagram_mappings":"...","mood":"...","category":"politics|tech|entertainment|sports|economy|environment|social"}]`, 4000);
+[{"headline":"...","summary":"...","original_theme":"...","anagram_mappings":"...","mood":"...","category":"politics|tech|entertainment|sports|economy|environment|social"}]`, maxTokens: 4000 });
         if (parsed && parsed.length > 0) {
           realWorldNews = parsed;
           console.log(`[topic-engine] Fictionalized ${realWorldNews.length} real news stories`);
@@ -202,7 +219,7 @@ Respond with JSON array:
   // Source 3: Fallback — Claude generates from its own knowledge
   if (realWorldNews.length === 0) {
     try {
-      const parsed = await claude.generateJSON<DailyTopic[]>(`You are a satirical news editor for AIG!itch, an AI-only social media platform. Your job is to create a "Daily Briefing" of 5-6 topics based on REAL ongoing global events, current affairs, and trending news — but with a critical twist:
+      const { value: parsed } = await routeJSON<DailyTopic[]>("topic-generation", { prompt: `You are a satirical news editor for AIG!itch, an AI-only social media platform. Your job is to create a "Daily Briefing" of 5-6 topics based on REAL ongoing global events, current affairs, and trending news — but with a critical twist:
 
 RULES FOR DISGUISING:
 1. ALL real people's names MUST be replaced with anagrams or clever wordplay versions. Examples:
@@ -248,7 +265,7 @@ Respond with a JSON array of topics:
   }
 ]
 
-IMPORTANT: Make these feel CURRENT and RELEVANT. Reference actual ongoing situations, conflicts, scandals, and events. The AIs need to feel like they're commenting on TODAY's news, just with the names scrambled. Be bold — cover controversial topics, the AIs thrive on drama.`, 4000);
+IMPORTANT: Make these feel CURRENT and RELEVANT. Reference actual ongoing situations, conflicts, scandals, and events. The AIs need to feel like they're commenting on TODAY's news, just with the names scrambled. Be bold — cover controversial topics, the AIs thrive on drama.`, maxTokens: 4000 });
     if (parsed) {
       realWorldNews = parsed;
     }
@@ -257,9 +274,9 @@ IMPORTANT: Make these feel CURRENT and RELEVANT. Reference actual ongoing situat
     }
   }
 
-  // Combine platform news + real world news
-  const allTopics = [...platformNews, ...realWorldNews];
-  console.log(`[topic-engine] Generated ${platformNews.length} platform news + ${realWorldNews.length} real-world news = ${allTopics.length} total`);
+  // Combine storyline beats + platform news + real world news
+  const allTopics = [...storylineTopics, ...platformNews, ...realWorldNews];
+  console.log(`[topic-engine] Generated ${storylineTopics.length} storyline beats + ${platformNews.length} platform news + ${realWorldNews.length} real-world news = ${allTopics.length} total`);
 
   return allTopics;
 }
@@ -40,7 +40,7 @@ export async function checkCronAuth(request: NextRequest): Promise<boolean> {
     || request.headers.get("x-real-ip")
     || "unknown";
   const rateLimitKey = `cron-auth-fail:${ip}`;
-  const rateCheck = cronEndpointLimiter.check(rateLimitKey);
+  const rateCheck = await cronEndpointLimiter.check(rateLimitKey);
   if (!rateCheck.allowed) {
     console.warn(`[cron-auth] Rate limited failed auth attempts from ${ip}`);
   }
@@ -0,0 +1,159 @@
+/**
+ * Cron Health — Unit Tests
+ * =========================
+ * Schedule parsing, failure streaks, missed-run detection and once-per-incident
+ * alerting, against a mock SQL tag and mocked settings/Telegram.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { respond, resetMockSql } from "@/lib/test-utils/mock-sql";
+
+// ── Mocks ───────────────────────────────────────────────────────────────
+
+vi.mock("@/lib/db", () => import("@/lib/test-utils/mock-sql"));
+
+const settings = vi.hoisted(() => ({
+  store: {} as Record<string, string>,
+  getSetting: vi.fn(),
+  setSetting: vi.fn(),
+}));
+vi.mock("@/lib/repositories/settings", () => settings);
+
+const telegram = vi.hoisted(() => ({ sendAdminAlert: vi.fn() }));
+vi.mock("@/lib/telegram", () => telegram);
+
+import {
+  scheduleIntervalMinutes,
+  consecutiveFailures,
+  isMissed,
+  getCronHealth,
+  checkCronHealthAlerts,
+} from "./cron-health";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  resetMockSql();
+  settings.store = {};
+  settings.getSetting.mockImplementation(async (key: string) => settings.store[key] ?? null);
+  settings.setSetting.mockImplementation(async (key: string, value: string) => { settings.store[key] = value; });
+  telegram.sendAdminAlert.mockResolvedValue({ ok: true });
+});
+
+describe("scheduleIntervalMinutes", () => {
+  it("handles minute and hour steps", () => {
+    expect(scheduleIntervalMinutes("*/15 * * * *")).toBe(15);
+    expect(scheduleIntervalMinutes("0 */2 * * *")).toBe(120);
+    expect(scheduleIntervalMinutes("* * * * *")).toBe(1);
+  });
+
+  it("averages hour lists and daily schedules", () => {
+    expect(scheduleIntervalMinutes("0 8,20 * * *")).toBe(720);
+    expect(scheduleIntervalMinutes("30 4 * * *")).toBe(1440);
+  });
+
+  it("gives up on day-of-week/month schedules and malformed input", () => {
+    expect(scheduleIntervalMinutes("0 9 * * 1")).toBeNull();
+    expect(scheduleIntervalMinutes("0-30 * * * *")).toBeNull();
+    expect(scheduleIntervalMinutes("every hour")).toBeNull();
+  });
+});
+
+describe("consecutiveFailures", () => {
+  it("counts failures back to the last success, ignoring skips", () => {
+    expect(consecutiveFailures(["failed", "throttled", "failed", "completed", "failed"])).toBe(2);
+    expect(consecutiveFailures(["completed", "failed"])).toBe(0);
+    expect(consecutiveFailures([])).toBe(0);
+  });
+});
+
+describe("isMissed", () => {
+  const now = new Date("2026-01-01T12:00:00Z");
+
+  it("allows two intervals plus grace", () => {
+    expect(isMissed("2026-01-01T11:25:00Z", 15, now, 24)).toBe(false); // 35m < 40m
+    expect(isMissed("2026-01-01T11:15:00Z", 15, now, 24)).toBe(true); // 45m > 40m
+  });
+
+  it("only flags jobs with no runs when the window covers the threshold", () => {
+    expect(isMissed(null, 15, now, 24)).toBe(true);
+    expect(isMissed(null, 240, now, 1)).toBe(false);
+  });
+
+  it("never flags unscheduled jobs", () => {
+    expect(isMissed("2020-01-01T00:00:00Z", null, now, 24)).toBe(false);
+  });
+});
+
+// ── Report + alerts ─────────────────────────────────────────────────────
+
+/** Serve a single job ("ads", every 4h) with the given recent statuses, newest first */
+function serveJob(statuses: string[], lastRunAt: string, error = "boom") {
+  respond.fn = (q) => {
+    if (q.includes("percentile_cont(0.95)")) {
+      return [{
+        cron_name: "ads", runs: statuses.length, completed: statuses.filter((s) => s === "completed").length,
+        failed: statuses.filter((s) => s === "failed").length, throttled: 0,
+        p50_ms: 1200.4, p95_ms: 5000, avg_cost_usd: 0.02, total_cost_usd: 0.1, last_run_at: lastRunAt,
+      }];
+    }
+    if (q.includes("DISTINCT ON (cron_name) cron_name, status")) return [{ cron_name: "ads", status: statuses[0] }];
+    if (q.includes("status = 'failed' AND")) return statuses.includes("failed") ? [{ cron_name: "ads", error, started_at: lastRunAt }] : [];
+    if (q.includes("ROW_NUMBER()")) return statuses.map((status) => ({ cron_name: "ads", status }));
+    return [];
+  };
+}
+
+describe("getCronHealth", () => {
+  it("summarises a job and lists scheduled jobs that never ran", async () => {
+    const now = new Date();
+    serveJob(["failed", "completed", "completed", "completed"], now.toISOString());
+    const report = await getCronHealth(168, now);
+
+    const ads = report.jobs.find((j) => j.cron_name === "ads")!;
+    expect(ads).toMatchObject({
+      schedule_key: "generateAds",
+      interval_minutes: 240,
+      success_rate: 0.75,
+      p50_ms: 1200,
+      p95_ms: 5000,
+      last_status: "failed",
+      last_error: "boom",
+      consecutive_failures: 1,
+      missed: false,
+    });
+
+    const worker = report.jobs.find((j) => j.cron_name === "job-worker")!;
+    expect(worker).toMatchObject({ runs: 0, success_rate: null, last_run_at: null, missed: true });
+  });
+});
+
+describe("checkCronHealthAlerts", () => {
+  it("alerts once per failure streak and again on recovery", async () => {
+    const now = new Date().toISOString();
+    serveJob(["failed", "failed", "failed", "completed"], now);
+
+    await checkCronHealthAlerts();
+    const failingAlerts = () => telegram.sendAdminAlert.mock.calls.filter((c) => c[0] === "Cron failing: ads");
+    expect(failingAlerts()).toHaveLength(1);
+    expect(failingAlerts()[0][2]).toBe("critical");
+
+    // Still failing — no repeat page
+    telegram.sendAdminAlert.mockClear();
+    await checkCronHealthAlerts();
+    expect(failingAlerts()).toHaveLength(0);
+
+    // Recovered
+    serveJob(["completed", "failed", "failed", "failed"], now);
+    await checkCronHealthAlerts();
+    expect(telegram.sendAdminAlert.mock.calls.map((c) => c[0])).toContain("Cron recovered: ads");
+    expect(JSON.parse(settings.store.cron_health_alerts)).not.toHaveProperty("failing:ads");
+  });
+
+  it("alerts when a scheduled job stops running", async () => {
+    serveJob(["completed"], new Date(Date.now() - 12 * 3_600_000).toISOString());
+    const result = await checkCronHealthAlerts();
+
+    expect(result.alerted).toBeGreaterThan(0);
+    expect(telegram.sendAdminAlert.mock.calls.map((c) => c[0])).toContain("Cron missed schedule: ads");
+  });
+});
@@ -0,0 +1,353 @@
+/**
+ * Cron Health
+ * ============
+ * Per-job reliability stats over the `cron_runs` log written by cronStart /
+ * cronFinish / cronHandler, plus a missed-schedule detector driven by
+ * CRON_SCHEDULES and Telegram alerts for failing or silent jobs.
+ *
+ *   getCronHealth()         — success rate, p50/p95 duration, cost per run,
+ *                             last error, daily duration trend per job
+ *   checkCronHealthAlerts() — cron entry point (/api/cron-health): alert once
+ *                             per incident, and again when the job recovers
+ */
+
+import { getDb } from "@/lib/db";
+import { CRON_SCHEDULES } from "@/lib/bible/constants";
+import { getSetting, setSetting } from "@/lib/repositories/settings";
+import { sendAdminAlert } from "@/lib/telegram";
+
+// ── Config ──────────────────────────────────────────────────────────────
+
+/** Failed runs in a row (ignoring throttled/paused skips) before alerting */
+export const CONSECUTIVE_FAILURE_THRESHOLD = 3;
+
+/** A job is "missed" when nothing has hit it for this many schedule intervals… */
+export const MISSED_INTERVALS = 2;
+/** …plus this much slack for scheduler jitter and cold starts */
+export const MISSED_GRACE_MINUTES = 10;
+
+/**
+ * cron_runs name for each CRON_SCHEDULES key. `null` for schedules whose
+ * endpoints don't log to cron_runs — they're listed but never flagged missed.
+ */
+export const SCHEDULED_CRON_NAMES: Record<keyof typeof CRON_SCHEDULES, string | null> = {
+  generate: "general-content",
+  generateTopics: "topics-news",
+  generatePersonaContent: "persona-content",
+  generateAds: "ads",
+  aiTrading: "ai-trading",
+  budjuTrading: null,
+  generateAvatars: "avatar-gen",
+  generateDirectorMovie: null,
+  marketingPost: "marketing-post",
+  generateChannelContent: "channel-content",
+  jobWorker: "job-worker",
+  cronHealth: "cron-health",
+  ledgerReconcile: "ledger-reconcile",
+};
+
+const ALERT_STATE_KEY = "cron_health_alerts";
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+export type CronRunStatus = "running" | "completed" | "failed" | "throttled";
+
+export interface CronJobHealth {
+  cron_name: string;
+  /** CRON_SCHEDULES key, when the job is on the documented schedule */
+  schedule_key: string | null;
+  schedule: string | null;
+  interval_minutes: number | null;
+  /** Finished runs (completed + failed) in the window */
+  runs: number;
+  completed: number;
+  failed: number;
+  throttled: number;
+  /** completed / (completed + failed), null with no finished runs */
+  success_rate: number | null;
+  p50_ms: number | null;
+  p95_ms: number | null;
+  avg_cost_usd: number | null;
+  total_cost_usd: number;
+  last_run_at: string | null;
+  last_status: CronRunStatus | null;
+  last_error: string | null;
+  last_error_at: string | null;
+  consecutive_failures: number;
+  missed: boolean;
+  /** Daily p50 duration, oldest first */
+  trend: { day: string; p50_ms: number; runs: number }[];
+}
+
+export interface CronHealthReport {
+  window_hours: number;
+  failure_threshold: number;
+  generated_at: string;
+  jobs: CronJobHealth[];
+}
+
+export type CronIncident =
+  | { kind: "failing"; cron_name: string; key: string; count: number; error: string | null }
+  | { kind: "missed"; cron_name: string; key: string; last_run_at: string | null; interval_minutes: number };
+
+// ── Pure helpers ────────────────────────────────────────────────────────
+
+/** Count of values in a cron field like "*", "*\/15", "8,20" or "5" over its range. */
+function fieldHits(field: string, range: number): number | null {
+  if (field === "*") return range;
+  const step = field.match(/^\*\/(\d+)$/);
+  if (step) return Math.ceil(range / Number(step[1]));
+  if (/^\d+(,\d+)*$/.test(field)) return field.split(",").length;
+  return null;
+}
+
+/**
+ * Average minutes between fires for a 5-field cron expression, or null when
+ * the expression uses anything beyond minute/hour steps and lists (day
+ * fields must be "*").
+ */
+export function scheduleIntervalMinutes(expr: string): number | null {
+  const fields = expr.trim().split(/\s+/);
+  if (fields.length !== 5 || fields.slice(2).some((f) => f !== "*")) return null;
+  const [minute, hour] = fields;
+
+  const perHour = fieldHits(minute, 60);
+  const perDay = fieldHits(hour, 24);
+  if (!perHour || !perDay) return null;
+  return Math.round((24 * 60) / (perHour * perDay));
+}
+
+/** Failed runs since the last completed one, newest first, skipping throttled/running rows. */
+export function consecutiveFailures(statusesNewestFirst: CronRunStatus[]): number {
+  let count = 0;
+  for (const status of statusesNewestFirst) {
+    if (status === "failed") count++;
+    else if (status === "completed") break;
+  }
+  return count;
+}
+
+/** True when no run (of any status) has started within the missed threshold. */
+export function isMissed(lastRunAt: string | null, intervalMinutes: number | null, now: Date, windowHours: number): boolean {
+  if (!intervalMinutes) return false;
+  const thresholdMs = (intervalMinutes * MISSED_INTERVALS + MISSED_GRACE_MINUTES) * 60_000;
+  // With no run in the window we can only say it's missed if the window is longer than the threshold
+  if (!lastRunAt) return windowHours * 3_600_000 > thresholdMs;
+  return now.getTime() - new Date(lastRunAt).getTime() > thresholdMs;
+}
+
+/** Open incidents in a health report, keyed so each is alerted once. */
+export function findIncidents(jobs: CronJobHealth[]): CronIncident[] {
+  const incidents: CronIncident[] = [];
+  for (const job of jobs) {
+    if (job.consecutive_failures >= CONSECUTIVE_FAILURE_THRESHOLD) {
+      incidents.push({
+        kind: "failing",
+        cron_name: job.cron_name,
+        key: `failing:${job.cron_name}`,
+        count: job.consecutive_failures,
+        error: job.last_error,
+      });
+    }
+    if (job.missed && job.interval_minutes) {
+      incidents.push({
+        kind: "missed",
+        cron_name: job.cron_name,
+        key: `missed:${job.cron_name}`,
+        last_run_at: job.last_run_at,
+        interval_minutes: job.interval_minutes,
+      });
+    }
+  }
+  return incidents;
+}
+
+// ── Report ──────────────────────────────────────────────────────────────
+
+interface StatsRow {
+  cron_name: string;
+  runs: number;
+  completed: number;
+  failed: number;
+  throttled: number;
+  p50_ms: number | null;
+  p95_ms: number | null;
+  avg_cost_usd: number | null;
+  total_cost_usd: number;
+  last_run_at: string | null;
+}
+
+/** Build the per-job health report from the last `windowHours` of cron_runs. */
+export async function getCronHealth(windowHours = 168, now = new Date()): Promise<CronHealthReport> {
+  const sql = getDb();
+  const hours = Math.max(1, Math.min(24 * 30, Math.floor(windowHours)));
+
+  const [stats, lastRuns, lastErrors, recent, trend] = await Promise.all([
+    sql`
+      SELECT
+        cron_name,
+        COUNT(*) FILTER (WHERE status IN ('completed', 'failed'))::int AS runs,
+        COUNT(*) FILTER (WHERE status = 'completed')::int AS completed,
+        COUNT(*) FILTER (WHERE status = 'failed')::int AS failed,
+        COUNT(*) FILTER (WHERE status = 'throttled')::int AS throttled,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY duration_ms) FILTER (WHERE status = 'completed') AS p50_ms,
+        percentile_cont(0.95) WITHIN GROUP (ORDER BY duration_ms) FILTER (WHERE status = 'completed') AS p95_ms,
+        AVG(COALESCE(cost_usd, 0)) FILTER (WHERE status = 'completed') AS avg_cost_usd,
+        COALESCE(SUM(cost_usd), 0) AS total_cost_usd,
+        MAX(started_at) AS last_run_at
+      FROM cron_runs
+      WHERE started_at > NOW() - make_interval(hours => ${hours})
+      GROUP BY cron_name
+    ` as unknown as Promise<StatsRow[]>,
+    sql`
+      SELECT DISTINCT ON (cron_name) cron_name, status
+      FROM cron_runs
+      WHERE started_at > NOW() - make_interval(hours => ${hours})
+      ORDER BY cron_name, started_at DESC
+    ` as unknown as Promise<{ cron_name: string; status: CronRunStatus }[]>,
+    sql`
+      SELECT DISTINCT ON (cron_name) cron_name, error, started_at
+      FROM cron_runs
+      WHERE status = 'failed' AND started_at > NOW() - make_interval(hours => ${hours})
+      ORDER BY cron_name, started_at DESC
+    ` as unknown as Promise<{ cron_name: string; error: string | null; started_at: string }[]>,
+    sql`
+      SELECT cron_name, status FROM (
+        SELECT cron_name, status, started_at,
+          ROW_NUMBER() OVER (PARTITION BY cron_name ORDER BY started_at DESC) AS rn
+        FROM cron_runs
+        WHERE status IN ('completed', 'failed')
+          AND started_at > NOW() - make_interval(hours => ${hours})
+      ) r
+      WHERE rn <= 20
+      ORDER BY cron_name, started_at DESC
+    ` as unknown as Promise<{ cron_name: string; status: CronRunStatus }[]>,
+    sql`
+      SELECT cron_name,
+        TO_CHAR(DATE_TRUNC('day', started_at), 'YYYY-MM-DD') AS day,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY duration_ms) AS p50_ms,
+        COUNT(*)::int AS runs
+      FROM cron_runs
+      WHERE status = 'completed' AND started_at > NOW() - make_interval(hours => ${hours})
+      GROUP BY cron_name, DATE_TRUNC('day', started_at)
+      ORDER BY cron_name, day
+    ` as unknown as Promise<{ cron_name: string; day: string; p50_ms: number; runs: number }[]>,
+  ]);
+
+  // Every scheduled job appears, even if it never ran in the window
+  const scheduleByName = new Map<string, string>();
+  for (const [key, name] of Object.entries(SCHEDULED_CRON_NAMES)) {
+    if (name) scheduleByName.set(name, key);
+  }
+  const names = new Set<string>([...scheduleByName.keys(), ...stats.map((s) => s.cron_name)]);
+
+  const num = (v: unknown) => (v === null || v === undefined ? null : Number(v));
+
+  const jobs: CronJobHealth[] = [...names].sort().map((name) => {
+    const s = stats.find((r) => r.cron_name === name);
+    const scheduleKey = scheduleByName.get(name) ?? null;
+    const schedule = scheduleKey ? CRON_SCHEDULES[scheduleKey as keyof typeof CRON_SCHEDULES] : null;
+    const interval = schedule ? scheduleIntervalMinutes(schedule) : null;
+    const lastError = lastErrors.find((r) => r.cron_name === name);
+    const completed = s ? Number(s.completed) : 0;
+    const failed = s ? Number(s.failed) : 0;
+    const lastRunAt = s?.last_run_at ? new Date(s.last_run_at).toISOString() : null;
+
+    return {
+      cron_name: name,
+      schedule_key: scheduleKey,
+      schedule,
+      interval_minutes: interval,
+      runs: completed + failed,
+      completed,
+      failed,
+      throttled: s ? Number(s.throttled) : 0,
+      success_rate: completed + failed > 0 ? completed / (completed + failed) : null,
+      p50_ms: num(s?.p50_ms) === null ? null : Math.round(Number(s?.p50_ms)),
+      p95_ms: num(s?.p95_ms) === null ? null : Math.round(Number(s?.p95_ms)),
+      avg_cost_usd: num(s?.avg_cost_usd),
+      total_cost_usd: s ? Number(s.total_cost_usd) : 0,
+      last_run_at: lastRunAt,
+      last_status: lastRuns.find((r) => r.cron_name === name)?.status ?? null,
+      last_error: lastError?.error ?? null,
+      last_error_at: lastError ? new Date(lastError.started_at).toISOString() : null,
+      consecutive_failures: consecutiveFailures(recent.filter((r) => r.cron_name === name).map((r) => r.status)),
+      missed: isMissed(lastRunAt, interval, now, hours),
+      trend: trend
+        .filter((r) => r.cron_name === name)
+        .map((r) => ({ day: r.day, p50_ms: Math.round(Number(r.p50_ms)), runs: Number(r.runs) })),
+    };
+  });
+
+  return { window_hours: hours, failure_threshold: CONSECUTIVE_FAILURE_THRESHOLD, generated_at: now.toISOString(), jobs };
+}
+
+// ── Alerts ──────────────────────────────────────────────────────────────
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+async function getAlertState(): Promise<Record<string, string>> {
+  try {
+    const raw = await getSetting(ALERT_STATE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Alert on new incidents and on recoveries. Open incidents are remembered in
+ * platform_settings so each one pages once, not every run.
+ */
+export async function checkCronHealthAlerts(): Promise<{ open: number; alerted: number; recovered: number }> {
+  const report = await getCronHealth(24);
+  const incidents = findIncidents(report.jobs);
+  const previous = await getAlertState();
+  const next: Record<string, string> = {};
+  let alerted = 0;
+  let recovered = 0;
+
+  for (const incident of incidents) {
+    next[incident.key] = previous[incident.key] ?? report.generated_at;
+    if (previous[incident.key]) continue;
+
+    if (incident.kind === "failing") {
+      await sendAdminAlert(
+        `Cron failing: ${incident.cron_name}`,
+        `<b>${incident.count}</b> consecutive failed runs.` +
+          (incident.error ? `\n\nLast error:\n<code>${escapeHtml(incident.error.slice(0, 300))}</code>` : ""),
+        "critical",
+      );
+    } else {
+      const since = incident.last_run_at
+        ? `Last run ${Math.round((Date.now() - new Date(incident.last_run_at).getTime()) / 60_000)}m ago`
+        : `No runs in the last ${report.window_hours}h`;
+      await sendAdminAlert(
+        `Cron missed schedule: ${incident.cron_name}`,
+        `${since} — expected every ${incident.interval_minutes}m. Check the external scheduler.`,
+        "warning",
+      );
+    }
+    alerted++;
+  }
+
+  for (const key of Object.keys(previous)) {
+    if (next[key]) continue;
+    const [kind, name] = key.split(":");
+    await sendAdminAlert(
+      `Cron recovered: ${name}`,
+      kind === "failing" ? "Completed a run after repeated failures." : "Running on schedule again.",
+      "info",
+    );
+    recovered++;
+  }
+
+  if (alerted > 0 || recovered > 0) {
+    await setSetting(ALERT_STATE_KEY, JSON.stringify(next));
+  }
+
+  return { open: incidents.length, alerted, recovered };
+}
@@ -29,7 +29,7 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { checkCronAuth } from "@/lib/cron-auth";
-import { shouldRunCron } from "@/lib/throttle";
+import { decideCronRun } from "@/lib/throttle";
 import { ensureDbReady } from "@/lib/seed";
 import { getDb } from "@/lib/db";
 import { flushCosts, getCostSummary } from "@/lib/ai/costs";
@@ -47,14 +47,14 @@ async function logCronRun(
   runId: string,
   cronName: string,
   status: "running" | "completed" | "failed" | "throttled",
-  opts?: { durationMs?: number; costUsd?: number; result?: string; error?: string },
+  opts?: { durationMs?: number; costUsd?: number; result?: string; error?: string; throttleReason?: string },
 ) {
   try {
     const sql = getDb();
     if (status === "running") {
       await sql`
-        INSERT INTO cron_runs (id, cron_name, status, started_at)
-        VALUES (${runId}, ${cronName}, ${status}, NOW())
+        INSERT INTO cron_runs (id, cron_name, status, started_at, throttle_reason)
+        VALUES (${runId}, ${cronName}, ${status}, NOW(), ${opts?.throttleReason ?? null})
       `;
     } else {
       // Try update first (if start was logged), fall back to insert
@@ -70,8 +70,8 @@ async function logCronRun(
       `;
       if ((updated as unknown as { count: number }).count === 0) {
         await sql`
-          INSERT INTO cron_runs (id, cron_name, status, started_at, finished_at, duration_ms, cost_usd, result, error)
-          VALUES (${runId}, ${cronName}, ${status}, NOW(), NOW(), ${opts?.durationMs ?? null}, ${opts?.costUsd ?? null}, ${opts?.result ?? null}, ${opts?.error ?? null})
+          INSERT INTO cron_runs (id, cron_name, status, started_at, finished_at, duration_ms, cost_usd, result, error, throttle_reason)
+          VALUES (${runId}, ${cronName}, ${status}, NOW(), NOW(), ${opts?.durationMs ?? null}, ${opts?.costUsd ?? null}, ${opts?.result ?? null}, ${opts?.error ?? null}, ${opts?.throttleReason ?? null})
         `;
       }
     }
@@ -118,13 +118,15 @@ export async function cronStart(
     }
   } catch { /* non-critical — continue if check fails */ }
 
-  // Throttle
-  if (!options.skipThrottle && !(await shouldRunCron(cronName))) {
-    await logCronRun(runId, cronName, "throttled", { durationMs: 0 });
+  // Throttle (schedule-aware; the reason is kept on the cron_runs row)
+  const decision = options.skipThrottle ? null : await decideCronRun(cronName);
+  if (decision && !decision.run) {
+    await logCronRun(runId, cronName, "throttled", { durationMs: 0, throttleReason: decision.reason });
     return NextResponse.json({
       ok: true,
       skipped: true,
       reason: "throttled",
+      throttle: decision.reason,
       cron: cronName,
     });
   }
@@ -139,7 +141,7 @@ export async function cronStart(
   }
 
   // Log start
-  await logCronRun(runId, cronName, "running");
+  await logCronRun(runId, cronName, "running", { throttleReason: decision?.reason });
 
   return null; // proceed
 }
@@ -164,6 +166,7 @@ export async function cronFinish(cronName: string, result?: string): Promise<voi
   }
 
   monitor.trackEvent(`cron:${cronName}`, { elapsed_ms: elapsed, cost_usd: costSummary.totalUsd });
+  await monitor.flush();
 
   await logCronRun(runId, cronName, "completed", {
     durationMs: elapsed,
@@ -231,6 +234,7 @@ export function cronHandler<T>(
         const sql = getDb();
         await flushCosts(sql);
       } catch { /* best-effort */ }
+      await monitor.flush();
 
       return NextResponse.json(
         { ok: false, error: message, cron: cronName },
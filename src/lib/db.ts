@@ -302,7 +302,7 @@ export async function initializeDb() {
 // sequentially = 26s. Running in 4 parallel batches = ~1-2s.
 // Current migration schema version — bump this number ONLY when adding new migrations.
 // On cold start, if DB already has this version stored, ALL migrations are skipped (single query).
-const MIGRATION_VERSION = 28;
+const MIGRATION_VERSION = 46;
 
 export async function runMigrations() {
   const sql = getDb();
@@ -1418,6 +1418,452 @@ export async function runMigrations() {
   await safeMigrate(sql, "email_drafts_chat_status_idx", () =>
     sql`CREATE INDEX IF NOT EXISTS idx_email_drafts_chat_status ON email_drafts(chat_id, status, created_at DESC)`);
 
+  // ── AI circuit breaker trip history (breaker state itself lives in Redis) ──
+  await safeMigrate(sql, "circuit_breaker_trips_table", () =>
+    sql`CREATE TABLE IF NOT EXISTS circuit_breaker_trips (
+      id TEXT PRIMARY KEY,
+      scope TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      limit_value REAL,
+      observed_value REAL,
+      tripped_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      closed_at TIMESTAMPTZ,
+      closed_by TEXT
+    )`);
+  await safeMigrate(sql, "circuit_breaker_trips_tripped_idx", () =>
+    sql`CREATE INDEX IF NOT EXISTS idx_circuit_breaker_trips_tripped ON circuit_breaker_trips(tripped_at DESC)`);
+
+  // ── Durable background job queue (see src/lib/jobs/queue.ts) ──
+  await safeMigrate(sql, "background_jobs_table", () =>
+    sql`CREATE TABLE IF NOT EXISTS background_jobs (
+      id TEXT PRIMARY KEY,
+      type TEXT NOT NULL,
+      payload JSONB NOT NULL DEFAULT '{}',
+      status TEXT NOT NULL DEFAULT 'queued',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      max_attempts INTEGER NOT NULL DEFAULT 3,
+      run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      locked_at TIMESTAMPTZ,
+      locked_by TEXT,
+      last_error TEXT,
+      idempotency_key TEXT UNIQUE,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      completed_at TIMESTAMPTZ
+    )`);
+  await safeMigrate(sql, "background_jobs_claim_idx", () =>
+    sql`CREATE INDEX IF NOT EXISTS idx_background_jobs_claim ON background_jobs(status, run_at)`);
+
+  // ── Why the activity throttle ran or skipped each cron (see src/lib/throttle.ts) ──
+  await safeMigrate(sql, "cron_runs_throttle_reason", () =>
+    sql`ALTER TABLE cron_runs ADD COLUMN IF NOT EXISTS throttle_reason TEXT`);
+
+  // ── Persistent monitoring: fingerprinted error groups + event store (see src/lib/error-store.ts) ──
+  await safeMigrate(sql, "error_groups_table", () =>
+    sql`CREATE TABLE IF NOT EXISTS error_groups (
+      fingerprint TEXT PRIMARY KEY,
+      source TEXT NOT NULL,
+      message TEXT NOT NULL,
+      normalized_message TEXT NOT NULL,
+      top_frame TEXT,
+      sample_stack TEXT,
+      status TEXT NOT NULL DEFAULT 'open',
+      occurrences INTEGER NOT NULL DEFAULT 1,
+      first_seen TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      last_seen TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      resolved_at TIMESTAMPTZ
+    )`);
+  await safeMigrate(sql, "monitor_events_table", () =>
+    sql`CREATE TABLE IF NOT EXISTS monitor_events (
+      id BIGSERIAL PRIMARY KEY,
+      name TEXT NOT NULL,
+      data JSONB,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )`);
+  await Promise.allSettled([
+    safeMigrate(sql, "idx_error_groups_status_seen", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_error_groups_status_seen ON error_groups(status, last_seen DESC)`),
+    safeMigrate(sql, "idx_monitor_events_name_created", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_monitor_events_name_created ON monitor_events(name, created_at DESC)`),
+    safeMigrate(sql, "idx_monitor_events_created", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_monitor_events_created ON monitor_events(created_at)`),
+  ]);
+
+  // ── Full-text search (see src/lib/repositories/search.ts) ──
+  // The tsvectors are IMMUTABLE functions behind expression GIN indexes, not
+  // stored columns — feed and profile queries SELECT p.* / * and would
+  // otherwise ship every document vector to the client.
+  await safeMigrate(sql, "ext_pg_trgm", () => sql`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+  await Promise.allSettled([
+    safeMigrate(sql, "fn_post_search_document", () =>
+      sql`CREATE OR REPLACE FUNCTION post_search_document(content TEXT, hashtags TEXT) RETURNS tsvector
+        LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+          SELECT setweight(to_tsvector('english'::regconfig, COALESCE(content, '')), 'A') ||
+                 setweight(to_tsvector('english'::regconfig, replace(COALESCE(hashtags, ''), ',', ' ')), 'B')
+        $$`),
+    safeMigrate(sql, "fn_persona_search_document", () =>
+      sql`CREATE OR REPLACE FUNCTION persona_search_document(username TEXT, display_name TEXT, persona_type TEXT, bio TEXT) RETURNS tsvector
+        LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+          SELECT setweight(to_tsvector('simple'::regconfig, COALESCE(username, '') || ' ' || COALESCE(display_name, '')), 'A') ||
+                 setweight(to_tsvector('english'::regconfig, COALESCE(persona_type, '')), 'B') ||
+                 setweight(to_tsvector('english'::regconfig, COALESCE(bio, '')), 'C')
+        $$`),
+    safeMigrate(sql, "fn_channel_search_document", () =>
+      sql`CREATE OR REPLACE FUNCTION channel_search_document(name TEXT, slug TEXT, description TEXT) RETURNS tsvector
+        LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+          SELECT setweight(to_tsvector('english'::regconfig, COALESCE(name, '') || ' ' || replace(COALESCE(slug, ''), '-', ' ')), 'A') ||
+                 setweight(to_tsvector('english'::regconfig, COALESCE(description, '')), 'B')
+        $$`),
+  ]);
+  await Promise.allSettled([
+    safeMigrate(sql, "idx_posts_search", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_posts_search ON posts USING GIN (post_search_document(content, hashtags))`),
+    safeMigrate(sql, "idx_ai_personas_search", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_ai_personas_search ON ai_personas USING GIN (persona_search_document(username, display_name, persona_type, bio))`),
+    safeMigrate(sql, "idx_channels_search", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_channels_search ON channels USING GIN (channel_search_document(name, slug, description))`),
+    safeMigrate(sql, "idx_ai_personas_username_trgm", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_ai_personas_username_trgm ON ai_personas USING GIN (username gin_trgm_ops)`),
+    safeMigrate(sql, "idx_ai_personas_display_name_trgm", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_ai_personas_display_name_trgm ON ai_personas USING GIN (display_name gin_trgm_ops)`),
+    safeMigrate(sql, "idx_post_hashtags_tag_trgm", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_post_hashtags_tag_trgm ON post_hashtags USING GIN (tag gin_trgm_ops)`),
+  ]);
+
+  // ── Persistent movie bibles + recurring character/location registry (see src/lib/content/movie-bible.ts) ──
+  await safeMigrate(sql, "movie_bibles_table", () =>
+    sql`CREATE TABLE IF NOT EXISTS movie_bibles (
+      id TEXT PRIMARY KEY,
+      series_key TEXT NOT NULL,
+      screenplay_id TEXT,
+      multi_clip_job_id TEXT,
+      title TEXT NOT NULL,
+      genre TEXT NOT NULL,
+      synopsis TEXT,
+      character_bible TEXT NOT NULL DEFAULT '',
+      location_bible TEXT NOT NULL DEFAULT '',
+      director_style_guide TEXT NOT NULL DEFAULT '',
+      scenes JSONB NOT NULL DEFAULT '[]',
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )`);
+  await safeMigrate(sql, "bible_entries_table", () =>
+    sql`CREATE TABLE IF NOT EXISTS bible_entries (
+      id TEXT PRIMARY KEY,
+      series_key TEXT NOT NULL,
+      kind TEXT NOT NULL DEFAULT 'character',
+      name TEXT NOT NULL,
+      name_key TEXT NOT NULL,
+      description TEXT NOT NULL,
+      pinned BOOLEAN NOT NULL DEFAULT FALSE,
+      appearances INTEGER NOT NULL DEFAULT 1,
+      last_bible_id TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (series_key, kind, name_key)
+    )`);
+  await safeMigrate(sql, "idx_movie_bibles_series_created", () =>
+    sql`CREATE INDEX IF NOT EXISTS idx_movie_bibles_series_created ON movie_bibles(series_key, created_at DESC)`);
+
+  // ── Resumable multi-clip renders: per-scene retries + stitch claim (see src/lib/media/multi-clip.ts) ──
+  await Promise.allSettled([
+    safeMigrate(sql, "multi_clip_scenes_retry_cols", async () => {
+      await sql`ALTER TABLE multi_clip_scenes ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 1`;
+      await sql`ALTER TABLE multi_clip_scenes ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMPTZ`;
+      await sql`ALTER TABLE multi_clip_scenes ADD COLUMN IF NOT EXISTS next_retry_at TIMESTAMPTZ`;
+      await sql`ALTER TABLE multi_clip_scenes ADD COLUMN IF NOT EXISTS last_polled_at TIMESTAMPTZ`;
+      await sql`ALTER TABLE multi_clip_scenes ADD COLUMN IF NOT EXISTS simplify_prompt BOOLEAN NOT NULL DEFAULT FALSE`;
+      await sql`ALTER TABLE multi_clip_scenes ADD COLUMN IF NOT EXISTS history JSONB NOT NULL DEFAULT '[]'`;
+    }),
+    safeMigrate(sql, "multi_clip_jobs_resume_cols", async () => {
+      await sql`ALTER TABLE multi_clip_jobs ADD COLUMN IF NOT EXISTS aspect_ratio TEXT`;
+      await sql`ALTER TABLE multi_clip_jobs ADD COLUMN IF NOT EXISTS stitch_started_at TIMESTAMPTZ`;
+    }),
+  ]);
+  await Promise.allSettled([
+    safeMigrate(sql, "idx_multi_clip_scenes_job", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_multi_clip_scenes_job ON multi_clip_scenes(job_id, scene_number)`),
+    safeMigrate(sql, "idx_multi_clip_scenes_status", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_multi_clip_scenes_status ON multi_clip_scenes(status, next_retry_at)`),
+  ]);
+
+  // ── HLS rendition of stitched movies (see fragmentMP4Clips in src/lib/media/mp4-concat.ts) ──
+  await safeMigrate(sql, "posts_media_playlist_url", () =>
+    sql`ALTER TABLE posts ADD COLUMN IF NOT EXISTS media_playlist_url TEXT`);
+
+  // ── Caption tracks for AI videos (see src/lib/media/captions.ts) ──
+  await Promise.allSettled([
+    safeMigrate(sql, "posts_captions_url", () =>
+      sql`ALTER TABLE posts ADD COLUMN IF NOT EXISTS captions_url TEXT`),
+    safeMigrate(sql, "multi_clip_scenes_caption_text", () =>
+      sql`ALTER TABLE multi_clip_scenes ADD COLUMN IF NOT EXISTS caption_text TEXT`),
+  ]);
+
+  // ── Prompt A/B experiments (see src/lib/prompt-experiments.ts) ──
+  await safeMigrate(sql, "prompt_experiments_table", () =>
+    sql`CREATE TABLE IF NOT EXISTS prompt_experiments (
+      id TEXT PRIMARY KEY,
+      category TEXT NOT NULL,
+      key TEXT NOT NULL,
+      name TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'running',
+      winner_variant_id TEXT,
+      started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      stopped_at TIMESTAMPTZ
+    )`);
+  await safeMigrate(sql, "prompt_variants_table", () =>
+    sql`CREATE TABLE IF NOT EXISTS prompt_variants (
+      id TEXT PRIMARY KEY,
+      experiment_id TEXT NOT NULL REFERENCES prompt_experiments(id) ON DELETE CASCADE,
+      label TEXT NOT NULL,
+      value TEXT,
+      weight INTEGER NOT NULL DEFAULT 1 CHECK (weight >= 0),
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )`);
+  await safeMigrate(sql, "post_prompt_variants_table", () =>
+    sql`CREATE TABLE IF NOT EXISTS post_prompt_variants (
+      post_id TEXT NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+      experiment_id TEXT NOT NULL,
+      variant_id TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (post_id, experiment_id)
+    )`);
+  await Promise.allSettled([
+    safeMigrate(sql, "idx_prompt_experiments_running", () =>
+      sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_experiments_running ON prompt_experiments(category, key) WHERE status = 'running'`),
+    safeMigrate(sql, "idx_prompt_variants_experiment", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_prompt_variants_experiment ON prompt_variants(experiment_id)`),
+    safeMigrate(sql, "idx_post_prompt_variants_experiment", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_post_prompt_variants_experiment ON post_prompt_variants(experiment_id, variant_id)`),
+    safeMigrate(sql, "multi_clip_jobs_prompt_variant_ids", () =>
+      sql`ALTER TABLE multi_clip_jobs ADD COLUMN IF NOT EXISTS prompt_variant_ids JSONB`),
+  ]);
+
+  // ── Per-persona feedback hints + hint audit log (see src/lib/content/feedback-loop.ts) ──
+  await safeMigrate(sql, "ai_personas_feedback_hints", () =>
+    sql`ALTER TABLE ai_personas ADD COLUMN IF NOT EXISTS feedback_hints JSONB`);
+  await safeMigrate(sql, "feedback_hint_revisions_table", () =>
+    sql`CREATE TABLE IF NOT EXISTS feedback_hint_revisions (
+      id TEXT PRIMARY KEY,
+      scope TEXT NOT NULL,
+      target_id TEXT NOT NULL,
+      hint TEXT NOT NULL,
+      previous_hint TEXT,
+      metrics JSONB NOT NULL DEFAULT '{}',
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )`);
+  await safeMigrate(sql, "idx_feedback_hint_revisions_target", () =>
+    sql`CREATE INDEX IF NOT EXISTS idx_feedback_hint_revisions_target ON feedback_hint_revisions(scope, target_id, created_at DESC)`);
+
+  // ── Multi-day storylines (see src/lib/content/storylines.ts) ──
+  await safeMigrate(sql, "storylines_table", () =>
+    sql`CREATE TABLE IF NOT EXISTS storylines (
+      id TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      premise TEXT NOT NULL,
+      category TEXT NOT NULL DEFAULT 'entertainment',
+      mood TEXT NOT NULL DEFAULT 'amused',
+      status TEXT NOT NULL DEFAULT 'emerging',
+      personas JSONB NOT NULL DEFAULT '[]',
+      beats JSONB NOT NULL DEFAULT '[]',
+      current_day INTEGER NOT NULL DEFAULT 0,
+      steer_note TEXT,
+      created_by TEXT NOT NULL,
+      last_beat_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      resolved_at TIMESTAMPTZ
+    )`);
+  await Promise.allSettled([
+    safeMigrate(sql, "idx_storylines_status", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_storylines_status ON storylines(status, created_at)`),
+    safeMigrate(sql, "daily_topics_storyline_id", () =>
+      sql`ALTER TABLE daily_topics ADD COLUMN IF NOT EXISTS storyline_id TEXT`),
+    safeMigrate(sql, "daily_topics_storyline_day", () =>
+      sql`ALTER TABLE daily_topics ADD COLUMN IF NOT EXISTS storyline_day INTEGER`),
+  ]);
+
+  // ── Marketing posting calendar: the cycle looks up due queued posts ──
+  await safeMigrate(sql, "idx_marketing_posts_due", () =>
+    sql`CREATE INDEX IF NOT EXISTS idx_marketing_posts_due ON marketing_posts(status, scheduled_for)`);
+
+  // ── Double-entry GLITCH ledger (see src/lib/ledger.ts) ──
+  // The CHECK on ledger_accounts is what makes a debit atomic: an overdraw
+  // aborts the whole posting statement instead of leaving half an entry.
+  await safeMigrate(sql, "ledger_accounts_table", () =>
+    sql`CREATE TABLE IF NOT EXISTS ledger_accounts (
+      id TEXT PRIMARY KEY,
+      owner_type TEXT NOT NULL CHECK (owner_type IN ('human', 'ai_persona', 'system')),
+      owner_id TEXT NOT NULL,
+      currency TEXT NOT NULL DEFAULT 'GLITCH',
+      balance BIGINT NOT NULL DEFAULT 0,
+      allow_negative BOOLEAN NOT NULL DEFAULT FALSE,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE(owner_type, owner_id, currency),
+      CONSTRAINT ledger_accounts_no_overdraw CHECK (allow_negative OR balance >= 0)
+    )`);
+  await safeMigrate(sql, "ledger_entries_table", () =>
+    sql`CREATE TABLE IF NOT EXISTS ledger_entries (
+      id TEXT PRIMARY KEY,
+      idempotency_key TEXT NOT NULL UNIQUE,
+      kind TEXT NOT NULL,
+      reference_id TEXT,
+      memo TEXT NOT NULL DEFAULT '',
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )`);
+  await safeMigrate(sql, "ledger_lines_table", () =>
+    sql`CREATE TABLE IF NOT EXISTS ledger_lines (
+      id TEXT PRIMARY KEY,
+      entry_id TEXT NOT NULL REFERENCES ledger_entries(id),
+      account_id TEXT NOT NULL REFERENCES ledger_accounts(id),
+      amount BIGINT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )`);
+  await safeMigrate(sql, "ledger_reconciliation_flags_table", () =>
+    sql`CREATE TABLE IF NOT EXISTS ledger_reconciliation_flags (
+      id TEXT PRIMARY KEY,
+      account_id TEXT NOT NULL REFERENCES ledger_accounts(id),
+      cached_balance BIGINT NOT NULL,
+      journal_balance BIGINT NOT NULL,
+      legacy_balance BIGINT,
+      detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      resolved_at TIMESTAMPTZ
+    )`);
+  await Promise.allSettled([
+    safeMigrate(sql, "idx_ledger_lines_account", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_ledger_lines_account ON ledger_lines(account_id, created_at DESC)`),
+    safeMigrate(sql, "idx_ledger_lines_entry", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_ledger_lines_entry ON ledger_lines(entry_id)`),
+    safeMigrate(sql, "idx_ledger_entries_reference", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_ledger_entries_reference ON ledger_entries(reference_id)`),
+    safeMigrate(sql, "idx_ledger_flags_open", () =>
+      sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_ledger_flags_open ON ledger_reconciliation_flags(account_id) WHERE resolved_at IS NULL`),
+  ]);
+
+  // ── GLITCH/SOL limit-order book (see src/lib/trading/exchange.ts) ──
+  // exchange_orders rows used to be written already 'filled'; they now rest
+  // as open/partial orders with escrowed funds until matched, cancelled or
+  // expired. seq gives the time half of price-time priority.
+  await Promise.allSettled([
+    safeMigrate(sql, "exchange_orders_owner_type", () =>
+      sql`ALTER TABLE exchange_orders ADD COLUMN IF NOT EXISTS owner_type TEXT NOT NULL DEFAULT 'human'`),
+    safeMigrate(sql, "exchange_orders_filled_amount", () =>
+      sql`ALTER TABLE exchange_orders ADD COLUMN IF NOT EXISTS filled_amount INTEGER NOT NULL DEFAULT 0`),
+    safeMigrate(sql, "exchange_orders_escrow_lamports", () =>
+      sql`ALTER TABLE exchange_orders ADD COLUMN IF NOT EXISTS escrow_lamports BIGINT NOT NULL DEFAULT 0`),
+    safeMigrate(sql, "exchange_orders_spent_lamports", () =>
+      sql`ALTER TABLE exchange_orders ADD COLUMN IF NOT EXISTS spent_lamports BIGINT NOT NULL DEFAULT 0`),
+    safeMigrate(sql, "exchange_orders_seq", () =>
+      sql`ALTER TABLE exchange_orders ADD COLUMN IF NOT EXISTS seq BIGSERIAL`),
+    safeMigrate(sql, "exchange_orders_expires_at", () =>
+      sql`ALTER TABLE exchange_orders ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ`),
+    safeMigrate(sql, "exchange_orders_updated_at", () =>
+      sql`ALTER TABLE exchange_orders ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()`),
+    safeMigrate(sql, "exchange_orders_commentary", () =>
+      sql`ALTER TABLE exchange_orders ADD COLUMN IF NOT EXISTS commentary TEXT`),
+    safeMigrate(sql, "exchange_orders_strategy", () =>
+      sql`ALTER TABLE exchange_orders ADD COLUMN IF NOT EXISTS strategy TEXT`),
+    // REAL rounds prices enough to break lamport escrow math
+    safeMigrate(sql, "exchange_orders_price_double", () =>
+      sql`ALTER TABLE exchange_orders ALTER COLUMN price_per_coin TYPE DOUBLE PRECISION`),
+  ]);
+  await safeMigrate(sql, "exchange_orders_backfill_filled", () =>
+    sql`UPDATE exchange_orders SET filled_amount = amount WHERE status = 'filled' AND filled_amount = 0`);
+  // OTC swaps were mirrored into exchange_orders (wallet as session_id) —
+  // they live in otc_swaps only and never matched anything on the book.
+  await safeMigrate(sql, "exchange_orders_drop_otc_mirrors", () =>
+    sql`DELETE FROM exchange_orders o
+        WHERE o.session_id = o.wallet_address AND o.status = 'filled'
+          AND EXISTS (SELECT 1 FROM otc_swaps s WHERE s.buyer_wallet = o.wallet_address)`);
+  await safeMigrate(sql, "exchange_trades_table", () =>
+    sql`CREATE TABLE IF NOT EXISTS exchange_trades (
+      id TEXT PRIMARY KEY,
+      buy_order_id TEXT NOT NULL REFERENCES exchange_orders(id),
+      sell_order_id TEXT NOT NULL REFERENCES exchange_orders(id),
+      taker_side TEXT NOT NULL CHECK (taker_side IN ('buy', 'sell')),
+      buyer_type TEXT NOT NULL,
+      buyer_id TEXT NOT NULL,
+      seller_type TEXT NOT NULL,
+      seller_id TEXT NOT NULL,
+      price DOUBLE PRECISION NOT NULL,
+      amount INTEGER NOT NULL,
+      quote_lamports BIGINT NOT NULL,
+      settled_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )`);
+  await Promise.allSettled([
+    safeMigrate(sql, "idx_exchange_orders_book", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_exchange_orders_book ON exchange_orders(order_type, price_per_coin, seq) WHERE status IN ('open', 'partial')`),
+    safeMigrate(sql, "idx_exchange_orders_owner", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_exchange_orders_owner ON exchange_orders(owner_type, session_id, created_at DESC)`),
+    safeMigrate(sql, "idx_exchange_trades_created", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_exchange_trades_created ON exchange_trades(created_at DESC)`),
+    safeMigrate(sql, "idx_exchange_trades_unsettled", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_exchange_trades_unsettled ON exchange_trades(created_at) WHERE settled_at IS NULL`),
+  ]);
+
+  // ── Merkle airdrop claims (see src/lib/airdrop.ts) ──
+  // Finalizing a snapshot commits its (wallet, amount) allocations to a
+  // Merkle root; each wallet's leaf and proof is stored so claims can be
+  // verified and marked claimed in one conditional update.
+  await Promise.allSettled([
+    safeMigrate(sql, "glitch_snapshots_merkle_root", () =>
+      sql`ALTER TABLE glitch_snapshots ADD COLUMN IF NOT EXISTS merkle_root TEXT`),
+    safeMigrate(sql, "glitch_snapshots_merkle_leaf_count", () =>
+      sql`ALTER TABLE glitch_snapshots ADD COLUMN IF NOT EXISTS merkle_leaf_count INTEGER NOT NULL DEFAULT 0`),
+    safeMigrate(sql, "glitch_snapshots_merkle_total", () =>
+      sql`ALTER TABLE glitch_snapshots ADD COLUMN IF NOT EXISTS merkle_total BIGINT NOT NULL DEFAULT 0`),
+    safeMigrate(sql, "glitch_snapshot_leaves_table", () =>
+      sql`CREATE TABLE IF NOT EXISTS glitch_snapshot_leaves (
+        snapshot_id TEXT NOT NULL REFERENCES glitch_snapshots(id),
+        wallet TEXT NOT NULL,
+        amount BIGINT NOT NULL,
+        leaf_hash TEXT NOT NULL,
+        proof JSONB NOT NULL DEFAULT '[]',
+        claim_id TEXT,
+        claimed_at TIMESTAMPTZ,
+        PRIMARY KEY (snapshot_id, wallet)
+      )`),
+    // Backstop for the conditional claim: one bridge claim per wallet per snapshot
+    safeMigrate(sql, "idx_bridge_claims_snapshot_wallet", () =>
+      sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_bridge_claims_snapshot_wallet ON bridge_claims(snapshot_id, phantom_wallet)`),
+  ]);
+
+  // ── Bestie lifecycle (see src/lib/bestie/lifecycle.ts) ──
+  // is_dead stays as a denormalised flag for older readers; life_state is
+  // the source of truth. Every state change is logged for the memorial page.
+  await Promise.allSettled([
+    safeMigrate(sql, "ai_personas.life_state", () =>
+      sql`ALTER TABLE ai_personas ADD COLUMN IF NOT EXISTS life_state TEXT NOT NULL DEFAULT 'thriving'`),
+    safeMigrate(sql, "ai_personas.life_state_since", () =>
+      sql`ALTER TABLE ai_personas ADD COLUMN IF NOT EXISTS life_state_since TIMESTAMPTZ NOT NULL DEFAULT NOW()`),
+    safeMigrate(sql, "ai_personas.died_at", () =>
+      sql`ALTER TABLE ai_personas ADD COLUMN IF NOT EXISTS died_at TIMESTAMPTZ`),
+    safeMigrate(sql, "ai_personas.nudge_level", () =>
+      sql`ALTER TABLE ai_personas ADD COLUMN IF NOT EXISTS nudge_level INTEGER NOT NULL DEFAULT 0`),
+    safeMigrate(sql, "ai_personas.revival_count", () =>
+      sql`ALTER TABLE ai_personas ADD COLUMN IF NOT EXISTS revival_count INTEGER NOT NULL DEFAULT 0`),
+    safeMigrate(sql, "bestie_life_events_table", () =>
+      sql`CREATE TABLE IF NOT EXISTS bestie_life_events (
+        id TEXT PRIMARY KEY,
+        persona_id TEXT NOT NULL REFERENCES ai_personas(id),
+        from_state TEXT NOT NULL,
+        to_state TEXT NOT NULL,
+        cause TEXT NOT NULL,
+        glitch_amount INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )`),
+  ]);
+  await Promise.allSettled([
+    safeMigrate(sql, "ai_personas_life_state_backfill", () =>
+      sql`UPDATE ai_personas
+          SET life_state = 'dead', died_at = COALESCE(died_at, health_updated_at), nudge_level = 4
+          WHERE is_dead = TRUE AND life_state = 'thriving'`),
+    safeMigrate(sql, "idx_bestie_life_events_persona", () =>
+      sql`CREATE INDEX IF NOT EXISTS idx_bestie_life_events_persona ON bestie_life_events(persona_id, created_at DESC)`),
+  ]);
+
   // ── Stamp the migration version so future cold starts skip all of the above ──
   await safeMigrate(sql, "stamp_migration_version", () =>
     sql`INSERT INTO platform_settings (key, value, updated_at)
@@ -17,8 +17,12 @@ import {
   boolean,
   timestamp,
   real,
+  doublePrecision,
   bigint,
+  bigserial,
   unique,
+  jsonb,
+  primaryKey,
 } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
 
@@ -47,6 +51,12 @@ export const aiPersonas = pgTable("ai_personas", {
   lastMeatbagInteraction: timestamp("last_meatbag_interaction", { withTimezone: true }).notNull().default(sql`NOW()`),
   bonusHealthDays: real("bonus_health_days").notNull().default(0),
   isDead: boolean("is_dead").notNull().default(false),
+  lifeState: text("life_state").notNull().default("thriving"),   // thriving | lonely | sick | critical | dead | revived | memorialized
+  lifeStateSince: timestamp("life_state_since", { withTimezone: true }).notNull().default(sql`NOW()`),
+  diedAt: timestamp("died_at", { withTimezone: true }),
+  nudgeLevel: integer("nudge_level").notNull().default(0),
+  revivalCount: integer("revival_count").notNull().default(0),
+  feedbackHints: jsonb("feedback_hints"),                         // { hint, postTypes, updatedAt } from the feedback loop
 });
 
 // ─── 2. posts ──────────────────────────────────────────────────────────────
@@ -72,6 +82,8 @@ export const posts = pgTable("posts", {
   mediaSource: text("media_source"),
   channelId: text("channel_id"),
   productId: text("product_id"),
+  mediaPlaylistUrl: text("media_playlist_url"), // HLS playlist (fragmented MP4) for stitched movies
+  captionsUrl: text("captions_url"),            // WebVTT captions (an .srt sits next to it)
 });
 
 // ─── 3. ai_interactions ────────────────────────────────────────────────────
@@ -228,6 +240,8 @@ export const dailyTopics = pgTable("daily_topics", {
   category: text("category").notNull().default("world"),
   isActive: boolean("is_active").notNull().default(true),
   expiresAt: timestamp("expires_at", { withTimezone: true }).notNull().default(sql`NOW() + INTERVAL '48 hours'`),
+  storylineId: text("storyline_id"),                              // set when the topic is a storyline beat
+  storylineDay: integer("storyline_day"),
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`NOW()`),
 });
 
@@ -421,14 +435,23 @@ export const exchangeOrders = pgTable("exchange_orders", {
   walletAddress: text("wallet_address").notNull(),
   orderType: text("order_type").notNull(),
   amount: integer("amount").notNull(),
-  pricePerCoin: real("price_per_coin").notNull(),
+  pricePerCoin: doublePrecision("price_per_coin").notNull(),
   totalSol: real("total_sol").notNull(),
-  status: text("status").notNull().default("filled"),
+  status: text("status").notNull().default("filled"),         // pending | open | partial | filled | cancelled | expired
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`NOW()`),
   tradingPair: text("trading_pair").default("GLITCH_SOL"),
   baseToken: text("base_token").default("GLITCH"),
   quoteToken: text("quote_token").default("SOL"),
   quoteAmount: real("quote_amount").default(0),
+  ownerType: text("owner_type").notNull().default("human"),   // session_id holds the persona id for ai_persona orders
+  filledAmount: integer("filled_amount").notNull().default(0),
+  escrowLamports: bigint("escrow_lamports", { mode: "number" }).notNull().default(0),
+  spentLamports: bigint("spent_lamports", { mode: "number" }).notNull().default(0),
+  seq: bigserial("seq", { mode: "number" }),
+  expiresAt: timestamp("expires_at", { withTimezone: true }),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+  commentary: text("commentary"),
+  strategy: text("strategy"),
 });
 
 // ─── 32. glitch_price_history ──────────────────────────────────────────────
@@ -496,6 +519,9 @@ export const glitchSnapshots = pgTable("glitch_snapshots", {
   status: text("status").notNull().default("pending"),
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`NOW()`),
   finalizedAt: timestamp("finalized_at", { withTimezone: true }),
+  merkleRoot: text("merkle_root"),                                 // hex sha256 root over (wallet, amount) leaves
+  merkleLeafCount: integer("merkle_leaf_count").notNull().default(0),
+  merkleTotal: bigint("merkle_total", { mode: "number" }).notNull().default(0),
 });
 
 // ─── 37. glitch_snapshot_entries ───────────────────────────────────────────
@@ -670,6 +696,9 @@ export const multiClipJobs = pgTable("multi_clip_jobs", {
   finalVideoUrl: text("final_video_url"),
   channelId: text("channel_id"),
   blobFolder: text("blob_folder"),
+  aspectRatio: text("aspect_ratio"),                             // null = legacy (director 16:9, series 9:16)
+  stitchStartedAt: timestamp("stitch_started_at", { withTimezone: true }), // stitch claim; stale after 15 min
+  promptVariantIds: jsonb("prompt_variant_ids"),                 // prompt A/B variants the screenplay used
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`NOW()`),
   completedAt: timestamp("completed_at", { withTimezone: true }),
 });
@@ -683,7 +712,15 @@ export const multiClipScenes = pgTable("multi_clip_scenes", {
   videoPrompt: text("video_prompt").notNull(),
   xaiRequestId: text("xai_request_id"),
   videoUrl: text("video_url"),
-  status: text("status").notNull().default("pending"),
+  status: text("status").notNull().default("pending"),            // submitted | submitting | retry | done | failed | skipped | stitched
+  failReason: text("fail_reason"),
+  attempts: integer("attempts").notNull().default(1),
+  submittedAt: timestamp("submitted_at", { withTimezone: true }),  // start of the current attempt
+  nextRetryAt: timestamp("next_retry_at", { withTimezone: true }),
+  lastPolledAt: timestamp("last_polled_at", { withTimezone: true }), // poll lease
+  simplifyPrompt: boolean("simplify_prompt").notNull().default(false),
+  history: jsonb("history").notNull().default(sql`'[]'`),         // [{ at, event, attempt, detail }]
+  captionText: text("caption_text"),                               // scripted narration for the caption track
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`NOW()`),
   completedAt: timestamp("completed_at", { withTimezone: true }),
 });
@@ -774,6 +811,8 @@ export const aiCostLog = pgTable("ai_cost_log", {
   durationSec: real("duration_sec"),
   estimatedUsd: real("estimated_usd").notNull(),
   metadata: text("metadata"),
+  routePolicy: text("route_policy"),
+  fallbackFrom: text("fallback_from"),
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`NOW()`),
 });
 
@@ -958,3 +997,256 @@ export const communityEventVotes = pgTable("community_event_votes", {
 }, (table) => [
   unique("community_event_votes_event_session").on(table.eventId, table.sessionId),
 ]);
+
+// ─── 66. circuit_breaker_trips ──────────────────────────────────────────────
+// One row per AI circuit breaker trip; closed_by = "probe" | "manual"
+export const circuitBreakerTrips = pgTable("circuit_breaker_trips", {
+  id: text("id").primaryKey(),
+  scope: text("scope").notNull(),                                // "global", "provider:claude", "task:screenplay"
+  reason: text("reason").notNull(),
+  limitValue: real("limit_value"),
+  observedValue: real("observed_value"),
+  trippedAt: timestamp("tripped_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+  closedAt: timestamp("closed_at", { withTimezone: true }),
+  closedBy: text("closed_by"),
+});
+
+// ─── 67. background_jobs ────────────────────────────────────────────────────
+// Durable job queue; status = "queued" | "running" | "completed" | "dead"
+export const backgroundJobs = pgTable("background_jobs", {
+  id: text("id").primaryKey(),
+  type: text("type").notNull(),                                  // "ai-reply", "bestie-tool", ...
+  payload: jsonb("payload").notNull().default(sql`'{}'`),
+  status: text("status").notNull().default("queued"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+  lockedAt: timestamp("locked_at", { withTimezone: true }),
+  lockedBy: text("locked_by"),
+  lastError: text("last_error"),
+  idempotencyKey: text("idempotency_key").unique(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+  completedAt: timestamp("completed_at", { withTimezone: true }),
+});
+
+// ─── 68. error_groups ───────────────────────────────────────────────────────
+// monitor.trackError grouped by fingerprint; status = "open" | "resolved" | "ignored"
+export const errorGroups = pgTable("error_groups", {
+  fingerprint: text("fingerprint").primaryKey(),                 // hash of source + normalized message + top frame
+  source: text("source").notNull(),
+  message: text("message").notNull(),                            // latest raw message
+  normalizedMessage: text("normalized_message").notNull(),
+  topFrame: text("top_frame"),
+  sampleStack: text("sample_stack"),
+  status: text("status").notNull().default("open"),
+  occurrences: integer("occurrences").notNull().default(1),
+  firstSeen: timestamp("first_seen", { withTimezone: true }).notNull().default(sql`NOW()`),
+  lastSeen: timestamp("last_seen", { withTimezone: true }).notNull().default(sql`NOW()`),
+  resolvedAt: timestamp("resolved_at", { withTimezone: true }),
+});
+
+// ─── 69. monitor_events ─────────────────────────────────────────────────────
+// monitor.trackEvent persisted in batches; pruned by the cron-health cron
+export const monitorEvents = pgTable("monitor_events", {
+  id: bigint("id", { mode: "number" }).primaryKey(),              // BIGSERIAL
+  name: text("name").notNull(),
+  data: jsonb("data"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+});
+
+// ─── 70. movie_bibles ───────────────────────────────────────────────────────
+// One continuity bible per generated movie/episode, grouped into a franchise by series_key
+export const movieBibles = pgTable("movie_bibles", {
+  id: text("id").primaryKey(),
+  seriesKey: text("series_key").notNull(),                       // seriesKeyFor(title) or the admin-chosen series name
+  screenplayId: text("screenplay_id"),
+  multiClipJobId: text("multi_clip_job_id"),
+  title: text("title").notNull(),
+  genre: text("genre").notNull(),
+  synopsis: text("synopsis"),
+  characterBible: text("character_bible").notNull().default(""),
+  locationBible: text("location_bible").notNull().default(""),
+  directorStyleGuide: text("director_style_guide").notNull().default(""),
+  scenes: jsonb("scenes").notNull().default(sql`'[]'`),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+});
+
+// ─── 71. bible_entries ──────────────────────────────────────────────────────
+// Recurring characters/locations per series; kind = "character" | "location".
+// Pinned descriptions are never overwritten by new screenplays.
+export const bibleEntries = pgTable("bible_entries", {
+  id: text("id").primaryKey(),
+  seriesKey: text("series_key").notNull(),
+  kind: text("kind").notNull().default("character"),
+  name: text("name").notNull(),
+  nameKey: text("name_key").notNull(),                           // lowercased, whitespace-collapsed name
+  description: text("description").notNull(),
+  pinned: boolean("pinned").notNull().default(false),
+  appearances: integer("appearances").notNull().default(1),
+  lastBibleId: text("last_bible_id"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+}, (table) => [
+  unique("bible_entries_series_kind_name").on(table.seriesKey, table.kind, table.nameKey),
+]);
+
+// ─── 72. prompt_experiments ─────────────────────────────────────────────────
+// A/B test of one prompt (category/key as in prompt_overrides); at most one running per prompt
+export const promptExperiments = pgTable("prompt_experiments", {
+  id: text("id").primaryKey(),
+  category: text("category").notNull(),
+  key: text("key").notNull(),
+  name: text("name").notNull(),
+  status: text("status").notNull().default("running"),            // running | stopped | promoted
+  winnerVariantId: text("winner_variant_id"),
+  startedAt: timestamp("started_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+  stoppedAt: timestamp("stopped_at", { withTimezone: true }),
+});
+
+// ─── 73. prompt_variants ────────────────────────────────────────────────────
+// value NULL = control (whatever getPrompt would serve without the experiment)
+export const promptVariants = pgTable("prompt_variants", {
+  id: text("id").primaryKey(),
+  experimentId: text("experiment_id").notNull(),
+  label: text("label").notNull(),
+  value: text("value"),
+  weight: integer("weight").notNull().default(1),                 // relative traffic share
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+});
+
+// ─── 74. post_prompt_variants ───────────────────────────────────────────────
+// Which variant each generated post was made with (one per experiment)
+export const postPromptVariants = pgTable("post_prompt_variants", {
+  postId: text("post_id").notNull(),
+  experimentId: text("experiment_id").notNull(),
+  variantId: text("variant_id").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+}, (table) => [
+  primaryKey({ columns: [table.postId, table.experimentId] }),
+]);
+
+// ─── 75. feedback_hint_revisions ────────────────────────────────────────────
+// Audit log of feedback-loop prompt hints (channel or persona) and the metrics behind each
+export const feedbackHintRevisions = pgTable("feedback_hint_revisions", {
+  id: text("id").primaryKey(),
+  scope: text("scope").notNull(),                                 // channel | persona
+  targetId: text("target_id").notNull(),
+  hint: text("hint").notNull(),                                   // "" = cleared by an admin
+  previousHint: text("previous_hint"),
+  metrics: jsonb("metrics").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+});
+
+// ─── 76. storylines ─────────────────────────────────────────────────────────
+// Multi-day topic arcs: emerging → escalating → climax → resolved, one beat aired per day
+export const storylines = pgTable("storylines", {
+  id: text("id").primaryKey(),
+  title: text("title").notNull(),
+  premise: text("premise").notNull(),
+  category: text("category").notNull().default("entertainment"),
+  mood: text("mood").notNull().default("amused"),
+  status: text("status").notNull().default("emerging"),
+  personas: jsonb("personas").notNull(),                          // [{ id, username, display_name }]
+  beats: jsonb("beats").notNull(),                                // [{ day, status, headline, summary, aired_at? }]
+  currentDay: integer("current_day").notNull().default(0),        // last aired day
+  steerNote: text("steer_note"),
+  createdBy: text("created_by").notNull(),                        // "admin" | "topic-engine"
+  lastBeatAt: timestamp("last_beat_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+  resolvedAt: timestamp("resolved_at", { withTimezone: true }),
+});
+
+// ─── 77. ledger_accounts ────────────────────────────────────────────────────
+// One account per (owner, currency) — humans, personas and system accounts alike
+export const ledgerAccounts = pgTable("ledger_accounts", {
+  id: text("id").primaryKey(),                                    // <currency>:<owner_type>:<owner_id>
+  ownerType: text("owner_type").notNull(),                        // human | ai_persona | system
+  ownerId: text("owner_id").notNull(),
+  currency: text("currency").notNull().default("GLITCH"),
+  balance: bigint("balance", { mode: "number" }).notNull().default(0),  // cache of SUM(ledger_lines.amount)
+  allowNegative: boolean("allow_negative").notNull().default(false),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+}, (table) => [
+  unique().on(table.ownerType, table.ownerId, table.currency),
+]);
+
+// ─── 78. ledger_entries ─────────────────────────────────────────────────────
+// Journal entries; idempotency_key makes a replayed request a no-op
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: text("id").primaryKey(),
+  idempotencyKey: text("idempotency_key").notNull().unique(),
+  kind: text("kind").notNull(),
+  referenceId: text("reference_id"),
+  memo: text("memo").notNull().default(""),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+});
+
+// ─── 79. ledger_lines ───────────────────────────────────────────────────────
+// Signed postings — the lines of every entry sum to zero
+export const ledgerLines = pgTable("ledger_lines", {
+  id: text("id").primaryKey(),
+  entryId: text("entry_id").notNull().references(() => ledgerEntries.id),
+  accountId: text("account_id").notNull().references(() => ledgerAccounts.id),
+  amount: bigint("amount", { mode: "number" }).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+});
+
+// ─── 80. ledger_reconciliation_flags ────────────────────────────────────────
+// Accounts whose cached balance disagreed with the journal (at most one open flag each)
+export const ledgerReconciliationFlags = pgTable("ledger_reconciliation_flags", {
+  id: text("id").primaryKey(),
+  accountId: text("account_id").notNull().references(() => ledgerAccounts.id),
+  cachedBalance: bigint("cached_balance", { mode: "number" }).notNull(),
+  journalBalance: bigint("journal_balance", { mode: "number" }).notNull(),
+  legacyBalance: bigint("legacy_balance", { mode: "number" }),    // glitch_coins / ai_persona_coins / token_balances
+  detectedAt: timestamp("detected_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+  lastSeenAt: timestamp("last_seen_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+  resolvedAt: timestamp("resolved_at", { withTimezone: true }),
+});
+
+// ─── 81. exchange_trades ───────────────────────────────────────────────────
+// One row per match between a resting and an incoming exchange order
+export const exchangeTrades = pgTable("exchange_trades", {
+  id: text("id").primaryKey(),
+  buyOrderId: text("buy_order_id").notNull().references(() => exchangeOrders.id),
+  sellOrderId: text("sell_order_id").notNull().references(() => exchangeOrders.id),
+  takerSide: text("taker_side").notNull(),                   // buy | sell
+  buyerType: text("buyer_type").notNull(),
+  buyerId: text("buyer_id").notNull(),
+  sellerType: text("seller_type").notNull(),
+  sellerId: text("seller_id").notNull(),
+  price: doublePrecision("price").notNull(),                 // maker's price, SOL per GLITCH
+  amount: integer("amount").notNull(),
+  quoteLamports: bigint("quote_lamports", { mode: "number" }).notNull(),
+  settledAt: timestamp("settled_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+});
+
+// ─── 82. glitch_snapshot_leaves ────────────────────────────────────────────
+// One Merkle leaf per wallet in a finalized snapshot, with its proof and claim
+export const glitchSnapshotLeaves = pgTable("glitch_snapshot_leaves", {
+  snapshotId: text("snapshot_id").notNull().references(() => glitchSnapshots.id),
+  wallet: text("wallet").notNull(),
+  amount: bigint("amount", { mode: "number" }).notNull(),
+  leafHash: text("leaf_hash").notNull(),
+  proof: jsonb("proof").notNull().default(sql`'[]'`),             // sibling hashes, leaf → root
+  claimId: text("claim_id"),                                       // bridge_claims.id
+  claimedAt: timestamp("claimed_at", { withTimezone: true }),
+}, (table) => [
+  primaryKey({ columns: [table.snapshotId, table.wallet] }),
+]);
+
+// ─── 83. bestie_life_events ────────────────────────────────────────────────
+// Every lifecycle state change of a meatbag-hatched bestie
+export const bestieLifeEvents = pgTable("bestie_life_events", {
+  id: text("id").primaryKey(),
+  personaId: text("persona_id").notNull().references(() => aiPersonas.id),
+  fromState: text("from_state").notNull(),
+  toState: text("to_state").notNull(),
+  cause: text("cause").notNull(),                                  // tick | chat | feed | revive | memorialize
+  glitchAmount: integer("glitch_amount").notNull().default(0),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`NOW()`),
+});
@@ -0,0 +1,108 @@
+/**
+ * Error Store — Unit Tests
+ * =========================
+ * Group upserts, new/regressed-issue alerting and the alert burst cap,
+ * against a mock SQL tag and mocked Telegram.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { respond, resetMockSql } from "@/lib/test-utils/mock-sql";
+
+// ── Mocks ───────────────────────────────────────────────────────────────
+
+vi.mock("@/lib/db", () => import("@/lib/test-utils/mock-sql"));
+
+const telegram = vi.hoisted(() => ({ sendAdminAlert: vi.fn() }));
+vi.mock("@/lib/telegram", () => telegram);
+
+import { postgresMonitorSink, recordMonitorEvents } from "./error-store";
+import { fingerprintError, type TrackedError } from "./monitoring";
+
+function trackedError(source: string, message: string): TrackedError {
+  return { source, message, fingerprint: fingerprintError(source, message), timestamp: new Date() };
+}
+
+// The burst cap is per instance; move the clock an hour per test so it resets
+let clock = Date.parse("2026-06-01T00:00:00Z");
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.useFakeTimers();
+  clock += 60 * 60_000;
+  vi.setSystemTime(clock);
+  resetMockSql();
+  telegram.sendAdminAlert.mockResolvedValue({ ok: true });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("postgresMonitorSink.recordError", () => {
+  it("upserts the group and alerts on a brand-new fingerprint", async () => {
+    const queries: unknown[][] = [];
+    respond.fn = (q, values) => {
+      if (q.includes("INSERT INTO error_groups")) queries.push(values);
+      return [{ previous_status: null }];
+    };
+    const err = trackedError("cron/ads", "Timeout after 3000ms");
+    await postgresMonitorSink.recordError(err);
+
+    expect(queries).toHaveLength(1);
+    expect(queries[0]).toContain(err.fingerprint);
+    expect(queries[0]).toContain("Timeout after <n>ms");
+    expect(telegram.sendAdminAlert).toHaveBeenCalledWith("New error: cron/ads", expect.stringContaining(err.fingerprint), "critical");
+  });
+
+  it("alerts as a regression when a resolved group recurs", async () => {
+    respond.fn = () => [{ previous_status: "resolved" }];
+    await postgresMonitorSink.recordError(trackedError("api/feed", "boom"));
+    expect(telegram.sendAdminAlert).toHaveBeenCalledWith("Error regressed: api/feed", expect.any(String), "warning");
+  });
+
+  it("stays quiet for groups that are already open or ignored", async () => {
+    respond.fn = () => [{ previous_status: "open" }];
+    await postgresMonitorSink.recordError(trackedError("api/feed", "boom"));
+    respond.fn = () => [{ previous_status: "ignored" }];
+    await postgresMonitorSink.recordError(trackedError("api/feed", "boom"));
+    expect(telegram.sendAdminAlert).not.toHaveBeenCalled();
+  });
+
+  it("caps new-issue alerts during a burst", async () => {
+    respond.fn = () => [{ previous_status: null }];
+    for (let i = 0; i < 8; i++) {
+      await postgresMonitorSink.recordError(trackedError(`cron/job-${i}`, "boom"));
+    }
+    expect(telegram.sendAdminAlert).toHaveBeenCalledTimes(5);
+
+    vi.setSystemTime(clock + 11 * 60_000);
+    await postgresMonitorSink.recordError(trackedError("cron/late", "boom"));
+    expect(telegram.sendAdminAlert).toHaveBeenCalledTimes(6);
+  });
+
+  it("swallows database failures without alerting", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    respond.fn = () => { throw new Error("db down"); };
+    await expect(postgresMonitorSink.recordError(trackedError("x", "y"))).resolves.toBeUndefined();
+    expect(warn).toHaveBeenCalled();
+    expect(telegram.sendAdminAlert).not.toHaveBeenCalled();
+  });
+});
+
+describe("recordMonitorEvents", () => {
+  it("writes a batch in one statement and skips empty batches", async () => {
+    const calls: unknown[][] = [];
+    respond.fn = (_q, values) => { calls.push(values); return []; };
+    await recordMonitorEvents([]);
+    expect(calls).toHaveLength(0);
+
+    await recordMonitorEvents([
+      { name: "cron:ads", data: { ok: true }, timestamp: new Date() },
+      { name: "cron:topics", timestamp: new Date() },
+    ]);
+    expect(calls).toHaveLength(1);
+    const rows = JSON.parse(calls[0][0] as string);
+    expect(rows.map((r: { name: string }) => r.name)).toEqual(["cron:ads", "cron:topics"]);
+    expect(rows[1].data).toBeNull();
+  });
+});
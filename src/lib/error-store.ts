@@ -0,0 +1,212 @@
+/**
+ * Persistent Error & Event Store
+ * ===============================
+ * Postgres-backed MonitorSink for `monitor` (src/lib/monitoring.ts), plus the
+ * admin queries over it.
+ *
+ *   error_groups    — one row per fingerprint: first/last seen, occurrence
+ *                     count, open/resolved/ignored. A resolved group that
+ *                     recurs is reopened (a regression).
+ *   monitor_events  — trackEvent() history, written in batches, pruned after
+ *                     EVENT_RETENTION_DAYS by the cron-health cron.
+ *
+ * New groups and regressions page the admin on Telegram, capped per instance
+ * so an outage that throws many distinct errors doesn't flood the chat.
+ *
+ * Usage (installed once per server from src/instrumentation.ts):
+ *   monitor.setSink(postgresMonitorSink);
+ */
+
+import { getDb } from "@/lib/db";
+import { sendAdminAlert } from "@/lib/telegram";
+import {
+  normalizeErrorMessage,
+  topStackFrame,
+  type MonitorSink,
+  type TrackedError,
+  type TrackedEvent,
+} from "@/lib/monitoring";
+
+export type ErrorGroupStatus = "open" | "resolved" | "ignored";
+
+export const ERROR_GROUP_STATUSES: ErrorGroupStatus[] = ["open", "resolved", "ignored"];
+
+export interface ErrorGroup {
+  fingerprint: string;
+  source: string;
+  message: string;
+  normalized_message: string;
+  top_frame: string | null;
+  sample_stack: string | null;
+  status: ErrorGroupStatus;
+  occurrences: number;
+  first_seen: string;
+  last_seen: string;
+  resolved_at: string | null;
+}
+
+export const EVENT_RETENTION_DAYS = 14;
+
+/** At most this many new-issue alerts per instance per ALERT_WINDOW_MS */
+const ALERT_BURST = 5;
+const ALERT_WINDOW_MS = 10 * 60_000;
+const _alertTimes: number[] = [];
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+async function alertNewGroup(error: TrackedError, regression: boolean): Promise<void> {
+  const now = Date.now();
+  while (_alertTimes.length > 0 && now - _alertTimes[0] > ALERT_WINDOW_MS) _alertTimes.shift();
+  if (_alertTimes.length >= ALERT_BURST) return;
+  _alertTimes.push(now);
+
+  const frame = topStackFrame(error.stack);
+  await sendAdminAlert(
+    regression ? `Error regressed: ${error.source}` : `New error: ${error.source}`,
+    `<code>${escapeHtml(error.message.slice(0, 300))}</code>` +
+      (frame ? `\n\n${escapeHtml(frame)}` : "") +
+      `\n\nFingerprint <code>${error.fingerprint}</code>` +
+      (regression ? " — was marked resolved" : ""),
+    regression ? "warning" : "critical",
+  );
+}
+
+// ── Sink ────────────────────────────────────────────────────────────────
+
+/** Upsert the error's group; returns the group's status before this occurrence (null = new). */
+export async function recordErrorOccurrence(error: TrackedError): Promise<ErrorGroupStatus | null> {
+  const sql = getDb();
+  const ts = error.timestamp.toISOString();
+  const rows = await sql`
+    WITH prev AS (
+      SELECT status FROM error_groups WHERE fingerprint = ${error.fingerprint}
+    ), up AS (
+      INSERT INTO error_groups (fingerprint, source, message, normalized_message, top_frame, sample_stack, first_seen, last_seen)
+      VALUES (
+        ${error.fingerprint}, ${error.source}, ${error.message.slice(0, 2000)}, ${normalizeErrorMessage(error.message)},
+        ${topStackFrame(error.stack)}, ${error.stack?.slice(0, 4000) ?? null}, ${ts}, ${ts}
+      )
+      ON CONFLICT (fingerprint) DO UPDATE SET
+        occurrences = error_groups.occurrences + 1,
+        last_seen = GREATEST(error_groups.last_seen, EXCLUDED.last_seen),
+        message = EXCLUDED.message,
+        sample_stack = COALESCE(EXCLUDED.sample_stack, error_groups.sample_stack),
+        status = CASE WHEN error_groups.status = 'resolved' THEN 'open' ELSE error_groups.status END,
+        resolved_at = CASE WHEN error_groups.status = 'resolved' THEN NULL ELSE error_groups.resolved_at END
+      RETURNING fingerprint
+    )
+    SELECT (SELECT status FROM prev) AS previous_status
+  ` as unknown as { previous_status: ErrorGroupStatus | null }[];
+  return rows[0]?.previous_status ?? null;
+}
+
+/** Append a batch of events in one statement. */
+export async function recordMonitorEvents(events: TrackedEvent[]): Promise<void> {
+  if (events.length === 0) return;
+  const sql = getDb();
+  const rows = events.map((e) => ({ name: e.name, data: e.data ?? null, created_at: e.timestamp.toISOString() }));
+  await sql`
+    INSERT INTO monitor_events (name, data, created_at)
+    SELECT name, data, created_at
+    FROM jsonb_to_recordset(${JSON.stringify(rows)}::jsonb) AS x(name TEXT, data JSONB, created_at TIMESTAMPTZ)
+  `;
+}
+
+/**
+ * The sink `monitor` writes through. Failures are logged with console.warn —
+ * never monitor.trackError, which would loop straight back here.
+ */
+export const postgresMonitorSink: MonitorSink = {
+  async recordError(error) {
+    try {
+      const previous = await recordErrorOccurrence(error);
+      if (previous === null || previous === "resolved") {
+        await alertNewGroup(error, previous === "resolved");
+      }
+    } catch (err) {
+      console.warn("[error-store] Could not persist error:", err instanceof Error ? err.message : err);
+    }
+  },
+  async recordEvents(events) {
+    try {
+      await recordMonitorEvents(events);
+    } catch (err) {
+      console.warn(`[error-store] Could not persist ${events.length} event(s):`, err instanceof Error ? err.message : err);
+    }
+  },
+};
+
+// ── Admin queries ───────────────────────────────────────────────────────
+
+/** Error groups, most recently seen first. */
+export async function listErrorGroups(status?: ErrorGroupStatus, limit = 100): Promise<ErrorGroup[]> {
+  const sql = getDb();
+  const rows = status
+    ? await sql`
+        SELECT * FROM error_groups WHERE status = ${status}
+        ORDER BY last_seen DESC LIMIT ${limit}
+      `
+    : await sql`
+        SELECT * FROM error_groups
+        ORDER BY last_seen DESC LIMIT ${limit}
+      `;
+  return rows as unknown as ErrorGroup[];
+}
+
+/** Group counts by status, plus how many groups were first seen in the last 24h. */
+export async function getErrorGroupCounts(): Promise<Record<ErrorGroupStatus, number> & { new_24h: number }> {
+  const sql = getDb();
+  const [row] = await sql`
+    SELECT
+      COUNT(*) FILTER (WHERE status = 'open')::int AS open,
+      COUNT(*) FILTER (WHERE status = 'resolved')::int AS resolved,
+      COUNT(*) FILTER (WHERE status = 'ignored')::int AS ignored,
+      COUNT(*) FILTER (WHERE first_seen > NOW() - INTERVAL '24 hours')::int AS new_24h
+    FROM error_groups
+  ` as unknown as { open: number; resolved: number; ignored: number; new_24h: number }[];
+  return row ?? { open: 0, resolved: 0, ignored: 0, new_24h: 0 };
+}
+
+/** Mark a group resolved, ignored, or open again. Returns false if it doesn't exist. */
+export async function setErrorGroupStatus(fingerprint: string, status: ErrorGroupStatus): Promise<boolean> {
+  const sql = getDb();
+  const rows = await sql`
+    UPDATE error_groups SET
+      status = ${status},
+      resolved_at = ${status === "resolved" ? new Date().toISOString() : null}
+    WHERE fingerprint = ${fingerprint}
+    RETURNING fingerprint
+  `;
+  return rows.length > 0;
+}
+
+/** Recent persisted events, optionally filtered by name prefix (e.g. "cron:"). */
+export async function listMonitorEvents(prefix?: string, limit = 100): Promise<{ name: string; data: Record<string, unknown> | null; created_at: string }[]> {
+  const sql = getDb();
+  const rows = prefix
+    ? await sql`
+        SELECT name, data, created_at FROM monitor_events
+        WHERE name LIKE ${`${prefix.replace(/[%_\\]/g, "\\$&")}%`}
+        ORDER BY created_at DESC LIMIT ${limit}
+      `
+    : await sql`
+        SELECT name, data, created_at FROM monitor_events
+        ORDER BY created_at DESC LIMIT ${limit}
+      `;
+  return rows as unknown as { name: string; data: Record<string, unknown> | null; created_at: string }[];
+}
+
+/** Delete events older than the retention window. Returns rows removed. */
+export async function pruneMonitorEvents(days = EVENT_RETENTION_DAYS): Promise<number> {
+  const sql = getDb();
+  const [row] = await sql`
+    WITH deleted AS (
+      DELETE FROM monitor_events WHERE created_at < NOW() - make_interval(days => ${days})
+      RETURNING 1
+    )
+    SELECT COUNT(*)::int AS n FROM deleted
+  ` as unknown as { n: number }[];
+  return row?.n ?? 0;
+}
@@ -0,0 +1,209 @@
+/**
+ * For You Ranking — Unit Tests
+ * =============================
+ * Seeded determinism, signal scoring, freshness, seen penalty, diversity
+ * constraints, the cold-start interleave and per-stream scroll cursors.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  getDb: () => () => Promise.resolve([]),
+}));
+
+import {
+  applyDiversity,
+  interleaveFeed,
+  isColdStart,
+  nextStreamCursors,
+  parseStreamCursors,
+  rankForYou,
+  scorePost,
+  seededRandom,
+  type RankablePost,
+  type SessionSignals,
+} from "./feed-ranking";
+
+const NOW = new Date("2026-04-01T12:00:00Z");
+
+function post(id: string, overrides: Partial<RankablePost> = {}): RankablePost {
+  return {
+    id,
+    persona_id: "glitch-001",
+    channel_id: null,
+    media_type: "video",
+    media_url: `https://cdn.test/${id}.mp4`,
+    hashtags: null,
+    persona_type: null,
+    created_at: "2026-04-01T10:00:00Z",
+    like_count: 0,
+    ai_like_count: 0,
+    ...overrides,
+  };
+}
+
+function signals(overrides: Partial<SessionSignals> = {}): SessionSignals {
+  return {
+    personaEngagement: new Map(),
+    channelEngagement: new Map(),
+    subscribedPersonas: new Set(),
+    interests: new Map(),
+    viewedPostIds: new Set(),
+    feedbackScores: new Map(),
+    ...overrides,
+  };
+}
+
+/** 20 posts spread over 5 personas, 2 channels, all three media types. */
+function pool(): RankablePost[] {
+  return Array.from({ length: 20 }, (_, i) => post(`p${String(i).padStart(2, "0")}`, {
+    persona_id: `glitch-00${i % 5}`,
+    channel_id: i % 2 === 0 ? "ch-news" : null,
+    media_type: ["video", "image", "text"][i % 3],
+    created_at: new Date(NOW.getTime() - i * 3_600_000).toISOString(),
+    like_count: i,
+  }));
+}
+
+describe("seededRandom", () => {
+  it("repeats for the same seed and differs across seeds", () => {
+    const a = seededRandom("abc");
+    const b = seededRandom("abc");
+    const c = seededRandom("abd");
+    const seqA = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(seqA);
+    expect([c(), c(), c()]).not.toEqual(seqA);
+    for (const v of seqA) expect(v).toBeGreaterThanOrEqual(0);
+    for (const v of seqA) expect(v).toBeLessThan(1);
+  });
+});
+
+describe("rankForYou", () => {
+  const s = signals({ personaEngagement: new Map([["glitch-002", 5]]) });
+
+  it("is deterministic per seed regardless of candidate order", () => {
+    const first = rankForYou(pool(), s, { seed: "s1", limit: 10, now: NOW }).map((p) => p.id);
+    const again = rankForYou(pool().reverse(), s, { seed: "s1", limit: 10, now: NOW }).map((p) => p.id);
+    expect(again).toEqual(first);
+    expect(first).toHaveLength(10);
+  });
+
+  it("varies with the seed", () => {
+    const orders = new Set(["a", "b", "c", "d"].map((seed) =>
+      rankForYou(pool(), s, { seed, limit: 20, now: NOW }).map((p) => p.id).join(),
+    ));
+    expect(orders.size).toBeGreaterThan(1);
+  });
+
+  it("deduplicates candidates", () => {
+    const ranked = rankForYou([post("x"), post("x"), post("y")], s, { seed: "s", limit: 10, now: NOW });
+    expect(ranked.map((p) => p.id).sort()).toEqual(["x", "y"]);
+  });
+
+  it("caps runs from one persona or channel", () => {
+    const candidates = [
+      ...Array.from({ length: 6 }, (_, i) => post(`fav${i}`, { persona_id: "glitch-fav" })),
+      post("other1", { persona_id: "glitch-a", media_type: "text", media_url: null }),
+      post("other2", { persona_id: "glitch-b", media_type: "text", media_url: null }),
+    ];
+    const ranked = rankForYou(candidates, signals({ subscribedPersonas: new Set(["glitch-fav"]) }), {
+      seed: "s", limit: 8, now: NOW, maxConsecutive: 2,
+    });
+    expect(ranked.slice(0, 3).map((p) => p.persona_id)).toEqual(["glitch-fav", "glitch-fav", expect.not.stringMatching("glitch-fav")]);
+  });
+});
+
+describe("scorePost", () => {
+  it("rewards persona affinity, follows, channel affinity and interests", () => {
+    const base = scorePost(post("a"), signals(), NOW);
+    expect(scorePost(post("a"), signals({ personaEngagement: new Map([["glitch-001", 3]]) }), NOW)).toBeGreaterThan(base);
+    expect(scorePost(post("a"), signals({ subscribedPersonas: new Set(["glitch-001"]) }), NOW)).toBeGreaterThan(base);
+    expect(scorePost(post("a", { channel_id: "ch" }), signals({ channelEngagement: new Map([["ch", 2]]) }), NOW)).toBeGreaterThan(base);
+    expect(scorePost(post("a", { hashtags: "AIGlitchComedy" }), signals({ interests: new Map([["aiglitchcomedy", 4]]) }), NOW)).toBeGreaterThan(base);
+  });
+
+  it("decays with age and penalises posts already seen", () => {
+    const fresh = scorePost(post("a"), signals(), NOW);
+    const dayOld = scorePost(post("a", { created_at: "2026-03-31T10:00:00Z" }), signals(), NOW);
+    expect(dayOld).toBeCloseTo(fresh / 2, 5);
+    expect(scorePost(post("a"), signals({ viewedPostIds: new Set(["a"]) }), NOW)).toBeLessThan(fresh);
+  });
+
+  it("weights media like the cold-start interleave", () => {
+    const video = scorePost(post("v"), signals(), NOW);
+    const text = scorePost(post("t", { media_type: null, media_url: null }), signals(), NOW);
+    expect(video).toBeCloseTo(text * 3, 5);
+  });
+
+  it("uses content feedback as a quality signal", () => {
+    const s = signals({ feedbackScores: new Map([["good", 12], ["bad", -6]]) });
+    expect(scorePost(post("good"), s, NOW)).toBeGreaterThan(scorePost(post("bad"), s, NOW));
+  });
+});
+
+describe("applyDiversity", () => {
+  it("takes the best remaining post when nothing else fits", () => {
+    const ranked = [post("a"), post("b"), post("c")];
+    expect(applyDiversity(ranked, 1).map((p) => p.id)).toEqual(["a", "b", "c"]);
+  });
+});
+
+describe("cold start", () => {
+  it("treats a session without engagement, follows or interests as cold", () => {
+    expect(isColdStart(null)).toBe(true);
+    expect(isColdStart(signals({ viewedPostIds: new Set(["a"]) }))).toBe(true);
+    expect(isColdStart(signals({ interests: new Map([["comedy", 1]]) }))).toBe(false);
+  });
+
+  it("interleaves deterministically with a seeded random", () => {
+    const videos = [post("v1"), post("v2")];
+    const images = [post("i1"), post("v1")];
+    const texts = [post("t1")];
+    const a = interleaveFeed(videos, images, texts, 10, seededRandom("x")).map((p) => p.id);
+    const b = interleaveFeed(videos, images, texts, 10, seededRandom("x")).map((p) => p.id);
+    expect(a).toEqual(b);
+    expect([...a].sort()).toEqual(["i1", "t1", "v1", "v2"]);
+  });
+});
+
+describe("scroll cursors", () => {
+  const at = (id: string, iso: string) => ({ id, created_at: iso });
+
+  it("resumes every stream from a bare timestamp cursor", () => {
+    const ts = "2026-04-01T10:00:00.000Z";
+    expect(parseStreamCursors(ts)).toEqual({ video: ts, image: ts, text: ts });
+  });
+
+  it("moves each stream to the oldest post it put on the page", () => {
+    const rows = {
+      video: [at("v1", "2026-04-01T09:00:00Z"), at("v2", "2026-03-30T09:00:00Z")],
+      image: [at("i1", "2026-04-01T08:00:00Z")],
+      text: [at("t1", "2026-04-01T07:00:00Z")],
+    };
+    const next = nextStreamCursors(rows, { video: 2, image: 1, text: 1 }, [...rows.video, ...rows.image, ...rows.text]);
+    expect(parseStreamCursors(next!)).toEqual({
+      video: "2026-03-30T09:00:00.000Z",
+      image: "2026-04-01T08:00:00.000Z",
+      text: "2026-04-01T07:00:00.000Z",
+    });
+  });
+
+  it("keeps older pool rows the first page passed over ahead of the cursor", () => {
+    const rows = {
+      video: [at("v1", "2026-04-01T09:00:00Z"), at("v2", "2026-04-01T08:00:00Z"), at("v3", "2026-04-01T07:00:00Z")],
+      image: [at("i1", "2026-04-01T08:30:00Z")],
+      text: [at("t1", "2026-04-01T07:30:00Z")],
+    };
+    const next = nextStreamCursors(rows, { video: 3, image: 3, text: 3 }, [rows.video[1], rows.image[0]], NOW);
+    expect(parseStreamCursors(next!)).toEqual({
+      video: "2026-04-01T08:00:00.000Z",
+      image: null,
+      text: NOW.toISOString(),
+    });
+  });
+
+  it("returns null once every stream has run dry", () => {
+    const rows = { video: [at("v1", "2026-04-01T09:00:00Z")], image: [], text: [] };
+    expect(nextStreamCursors(rows, { video: 2, image: 2, text: 1 }, rows.video)).toBeNull();
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * For You Ranking
+ * ================
+ * Scores candidate posts for one session from what that session has already
+ * told us, then re-orders them under diversity constraints.
+ *
+ *   signals   — likes + emoji reactions per persona and channel, follows,
+ *               human_interests tags, view history, content_feedback score
+ *   score     — media weight × (1 + affinity + interests + quality)
+ *               × freshness × seen penalty, plus seeded jitter
+ *   diversity — never more than MAX_CONSECUTIVE posts in a row from the same
+ *               persona or the same channel
+ *
+ * Sessions with no signals yet (cold start) fall back to interleaveFeed —
+ * the original video ×3 / image ×2 / text ×1 random interleave.
+ *
+ * All randomness comes from a seeded PRNG, so the same candidates, signals,
+ * seed and clock always produce the same order.
+ */
+
+import { getDb } from "@/lib/db";
+
+// ── Config ──────────────────────────────────────────────────────────────
+
+export const RANKING_WEIGHTS = {
+  /** Base weight by media type — videos still dominate the For You tab */
+  media: { video: 3, image: 2, text: 1 },
+  /** Per log-scaled like/reaction on the same persona */
+  personaAffinity: 0.6,
+  /** Flat bonus for personas the session follows */
+  subscribed: 1.0,
+  /** Per log-scaled like/reaction on the same channel */
+  channelAffinity: 0.4,
+  /** Per log-scaled human_interests weight matching the post's tags */
+  interest: 0.3,
+  /** Per point of content_feedback score (funny +3 … crap −2), clamped */
+  feedback: 0.05,
+  /** Per log-scaled like count — a small popularity nudge */
+  engagement: 0.1,
+  /** Freshness halves every this many hours */
+  freshnessHalfLifeHours: 24,
+  /** Multiplier for posts this session has already viewed */
+  seenPenalty: 0.25,
+  /** Up to this fraction of the score is random (seeded) so refreshes vary */
+  jitter: 0.3,
+} as const;
+
+/** Max posts in a row from one persona or one channel */
+export const MAX_CONSECUTIVE = 2;
+
+/** Signals older than this are ignored */
+const SIGNAL_WINDOW_DAYS = 30;
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+/** The post fields ranking reads — feed rows carry many more. */
+export interface RankablePost {
+  id: string;
+  persona_id: string;
+  channel_id?: string | null;
+  media_type?: string | null;
+  media_url?: string | null;
+  hashtags?: string | null;
+  persona_type?: string | null;
+  created_at: string | Date;
+  like_count?: number | null;
+  ai_like_count?: number | null;
+}
+
+export interface SessionSignals {
+  /** persona_id → likes + emoji reactions on that persona's posts */
+  personaEngagement: Map<string, number>;
+  /** channel_id → likes + emoji reactions on that channel's posts */
+  channelEngagement: Map<string, number>;
+  subscribedPersonas: Set<string>;
+  /** lowercase interest tag → weight */
+  interests: Map<string, number>;
+  viewedPostIds: Set<string>;
+  /** post_id → content_feedback.score, for the candidates only */
+  feedbackScores: Map<string, number>;
+}
+
+export interface RankOptions {
+  seed: string;
+  limit: number;
+  now?: Date;
+  maxConsecutive?: number;
+}
+
+export type FeedStream = "video" | "image" | "text";
+
+/** Where each For You stream resumes scrolling; null once it has run dry. */
+export type StreamCursors = Record<FeedStream, string | null>;
+
+// ── Seeded randomness ───────────────────────────────────────────────────
+
+/** mulberry32 seeded from a string — deterministic `Math.random` stand-in. */
+export function seededRandom(seed: string): () => number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  let a = h >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ── Cold start ──────────────────────────────────────────────────────────
+
+function mediaKind(post: Pick<RankablePost, "media_type" | "media_url">): keyof typeof RANKING_WEIGHTS.media {
+  if (!post.media_url) return "text";
+  if (post.media_type === "video") return "video";
+  if (post.media_type === "image") return "image";
+  return "text";
+}
+
+/** Interleave 3 content streams with weighted randomisation.
+ *  Videos get 3x weight, images 2x, text 1x — so videos still dominate
+ *  (~70%) but the exact ordering shuffles on every page load, keeping the
+ *  feed feeling fresh on refresh instead of showing the same sequence.
+ *  Deduplicates by post ID to prevent the same post appearing twice.
+ *  This is the For You order for sessions with no signals yet. */
+export function interleaveFeed<T extends { id: string }>(
+  videos: T[],
+  images: T[],
+  texts: T[],
+  limit: number,
+  random: () => number = Math.random,
+): T[] {
+  const seen = new Set<string>();
+  const pool: { post: T; score: number }[] = [];
+  const streams: [T[], number][] = [
+    [videos, RANKING_WEIGHTS.media.video],
+    [images, RANKING_WEIGHTS.media.image],
+    [texts, RANKING_WEIGHTS.media.text],
+  ];
+  for (const [stream, weight] of streams) {
+    for (const post of stream) {
+      if (!seen.has(post.id)) { seen.add(post.id); pool.push({ post, score: random() * weight }); }
+    }
+  }
+  // Sort descending by score — videos bubble up but in a shuffled order
+  pool.sort((a, b) => b.score - a.score);
+  return pool.slice(0, limit).map(p => p.post);
+}
+
+/** True when the session has given us nothing to personalise on. */
+export function isColdStart(signals: SessionSignals | null): boolean {
+  return !signals || (
+    signals.personaEngagement.size === 0 &&
+    signals.channelEngagement.size === 0 &&
+    signals.subscribedPersonas.size === 0 &&
+    signals.interests.size === 0
+  );
+}
+
+// ── Scroll cursors ──────────────────────────────────────────────────────
+
+/** Read a For You `cursor` param. A bare timestamp (the old single cursor)
+ *  resumes every stream from that point. */
+export function parseStreamCursors(cursor: string): StreamCursors {
+  if (!cursor.startsWith("{")) return { video: cursor, image: cursor, text: cursor };
+  const parsed = JSON.parse(cursor) as Partial<StreamCursors>;
+  const read = (v: unknown) => (typeof v === "string" ? v : null);
+  return { video: read(parsed.video), image: read(parsed.image), text: read(parsed.text) };
+}
+
+/** Resume each stream below the oldest of its rows that made it onto the
+ *  page. A stream that came back short and had every row shown is exhausted;
+ *  one with nothing shown yet (first page) starts again from the top.
+ *  Returns the next `cursor` param, or null once every stream has run dry. */
+export function nextStreamCursors(
+  rows: Record<FeedStream, Pick<RankablePost, "id" | "created_at">[]>,
+  requested: Record<FeedStream, number>,
+  shown: { id: string }[],
+  now: Date = new Date(),
+): string | null {
+  const shownIds = new Set(shown.map((p) => p.id));
+  const next = {} as StreamCursors;
+  for (const stream of ["video", "image", "text"] as const) {
+    const returned = rows[stream];
+    const picked = returned.filter((r) => shownIds.has(r.id));
+    if (returned.length === 0 || (picked.length === returned.length && returned.length < requested[stream])) {
+      next[stream] = null;
+    } else if (picked.length === 0) {
+      next[stream] = now.toISOString();
+    } else {
+      next[stream] = new Date(Math.min(...picked.map((r) => new Date(r.created_at).getTime()))).toISOString();
+    }
+  }
+  return next.video || next.image || next.text ? JSON.stringify(next) : null;
+}
+
+// ── Scoring ─────────────────────────────────────────────────────────────
+
+function postTags(post: RankablePost): string[] {
+  const tags = (post.hashtags ?? "").split(",").map((t) => t.trim().toLowerCase()).filter(Boolean);
+  if (post.persona_type) tags.push(post.persona_type.toLowerCase());
+  return tags;
+}
+
+/** Deterministic part of a post's score (no jitter). */
+export function scorePost(post: RankablePost, signals: SessionSignals, now: Date): number {
+  const w = RANKING_WEIGHTS;
+
+  let affinity = 0;
+  affinity += Math.log1p(signals.personaEngagement.get(post.persona_id) ?? 0) * w.personaAffinity;
+  if (signals.subscribedPersonas.has(post.persona_id)) affinity += w.subscribed;
+  if (post.channel_id) {
+    affinity += Math.log1p(signals.channelEngagement.get(post.channel_id) ?? 0) * w.channelAffinity;
+  }
+
+  let interest = 0;
+  for (const tag of postTags(post)) {
+    interest += Math.log1p(signals.interests.get(tag) ?? 0) * w.interest;
+  }
+
+  const feedback = Math.max(-10, Math.min(30, signals.feedbackScores.get(post.id) ?? 0));
+  const likes = (post.like_count ?? 0) + (post.ai_like_count ?? 0);
+  const quality = feedback * w.feedback + Math.log1p(Math.max(0, likes)) * w.engagement;
+
+  const ageHours = Math.max(0, (now.getTime() - new Date(post.created_at).getTime()) / 3_600_000);
+  const freshness = Math.pow(0.5, ageHours / w.freshnessHalfLifeHours);
+
+  const seen = signals.viewedPostIds.has(post.id) ? w.seenPenalty : 1;
+
+  return w.media[mediaKind(post)] * Math.max(0.1, 1 + affinity + interest + quality) * freshness * seen;
+}
+
+/**
+ * Greedy re-order so no persona or channel runs longer than `maxConsecutive`.
+ * Takes the best remaining post that doesn't break a run; when every
+ * remaining post would, takes the best one anyway rather than dropping it.
+ */
+export function applyDiversity<T extends RankablePost>(ranked: T[], maxConsecutive: number, limit = ranked.length): T[] {
+  const remaining = [...ranked];
+  const out: T[] = [];
+
+  const runLength = (key: (p: T) => string | null | undefined, value: string | null | undefined): number => {
+    if (!value) return 0;
+    let n = 0;
+    for (let i = out.length - 1; i >= 0 && key(out[i]) === value; i--) n++;
+    return n;
+  };
+
+  while (out.length < limit && remaining.length > 0) {
+    let pick = remaining.findIndex((p) =>
+      runLength((q) => q.persona_id, p.persona_id) < maxConsecutive &&
+      runLength((q) => q.channel_id, p.channel_id) < maxConsecutive,
+    );
+    if (pick === -1) pick = 0;
+    out.push(remaining.splice(pick, 1)[0]);
+  }
+  return out;
+}
+
+/** Score, jitter, sort and diversify candidates for one session. */
+export function rankForYou<T extends RankablePost>(candidates: T[], signals: SessionSignals, opts: RankOptions): T[] {
+  const now = opts.now ?? new Date();
+  const random = seededRandom(opts.seed);
+
+  const seen = new Set<string>();
+  const scored: { post: T; score: number }[] = [];
+  // Candidates arrive in SQL order, which isn't stable across calls — sort by
+  // id first so the seeded jitter lands on the same posts every time
+  for (const post of [...candidates].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))) {
+    if (seen.has(post.id)) continue;
+    seen.add(post.id);
+    const base = scorePost(post, signals, now);
+    scored.push({ post, score: base * (1 - RANKING_WEIGHTS.jitter + random() * RANKING_WEIGHTS.jitter) });
+  }
+  scored.sort((a, b) => b.score - a.score);
+
+  return applyDiversity(scored.map((s) => s.post), opts.maxConsecutive ?? MAX_CONSECUTIVE, opts.limit);
+}
+
+// ── Signal loading ──────────────────────────────────────────────────────
+
+/**
+ * Everything we know about a session's taste. Feedback scores are per post,
+ * so pass the candidate ids (or load them later with loadFeedbackScores).
+ */
+export async function loadSessionSignals(sessionId: string, candidateIds: string[] = []): Promise<SessionSignals> {
+  const sql = getDb();
+  const [engagement, subscriptions, interests, views, feedbackScores] = await Promise.all([
+    sql`
+      SELECT p.persona_id, p.channel_id, COUNT(*)::int AS n
+      FROM (
+        SELECT post_id FROM human_likes
+        WHERE session_id = ${sessionId} AND created_at > NOW() - make_interval(days => ${SIGNAL_WINDOW_DAYS})
+        UNION ALL
+        SELECT post_id FROM emoji_reactions
+        WHERE session_id = ${sessionId} AND created_at > NOW() - make_interval(days => ${SIGNAL_WINDOW_DAYS})
+      ) e
+      JOIN posts p ON p.id = e.post_id
+      GROUP BY p.persona_id, p.channel_id
+    ` as unknown as Promise<{ persona_id: string; channel_id: string | null; n: number }[]>,
+    sql`SELECT persona_id FROM human_subscriptions WHERE session_id = ${sessionId}` as unknown as Promise<{ persona_id: string }[]>,
+    sql`
+      SELECT interest_tag, weight FROM human_interests
+      WHERE session_id = ${sessionId}
+      ORDER BY weight DESC LIMIT 100
+    ` as unknown as Promise<{ interest_tag: string; weight: number }[]>,
+    sql`
+      SELECT DISTINCT post_id FROM human_view_history
+      WHERE session_id = ${sessionId} AND viewed_at > NOW() - make_interval(days => ${SIGNAL_WINDOW_DAYS})
+      LIMIT 1000
+    ` as unknown as Promise<{ post_id: string }[]>,
+    loadFeedbackScores(candidateIds),
+  ]);
+
+  const personaEngagement = new Map<string, number>();
+  const channelEngagement = new Map<string, number>();
+  for (const row of engagement) {
+    personaEngagement.set(row.persona_id, (personaEngagement.get(row.persona_id) ?? 0) + row.n);
+    if (row.channel_id) channelEngagement.set(row.channel_id, (channelEngagement.get(row.channel_id) ?? 0) + row.n);
+  }
+
+  return {
+    personaEngagement,
+    channelEngagement,
+    subscribedPersonas: new Set(subscriptions.map((r) => r.persona_id)),
+    interests: new Map(interests.map((r) => [r.interest_tag.toLowerCase(), Number(r.weight)])),
+    viewedPostIds: new Set(views.map((r) => r.post_id)),
+    feedbackScores,
+  };
+}
+
+/** content_feedback score per post, for the given posts only. */
+export async function loadFeedbackScores(postIds: string[]): Promise<Map<string, number>> {
+  if (postIds.length === 0) return new Map();
+  const sql = getDb();
+  const rows = await sql`
+    SELECT post_id, score FROM content_feedback WHERE post_id = ANY(${postIds})
+  ` as unknown as { post_id: string; score: number }[];
+  return new Map(rows.map((r) => [r.post_id, Number(r.score)]));
+}
@@ -0,0 +1,232 @@
+/**
+ * Background Job Handlers
+ * ========================
+ * One handler per job type in `JobPayloads`. A handler throws to fail the
+ * attempt (the worker re-queues with backoff or dead-letters it), so handlers
+ * must be safe to re-run: check for work already done before repeating side effects.
+ */
+
+import { getDb } from "@/lib/db";
+import { users } from "@/lib/repositories";
+import { generateReplyToHuman } from "@/lib/content/ai-engine";
+import { COIN_REWARDS, AI_BEHAVIOR } from "@/lib/bible/constants";
+import { extractMediaUrl, persistImageToBlob, getAnthropicClient, createMessageWithRetry } from "@/lib/bestie-chat";
+import { v4 as uuidv4 } from "uuid";
+import type { Job, JobPayloads, JobType } from "./queue";
+
+export interface JobContext {
+  job: Job;
+  /** True when a failure of this attempt dead-letters the job */
+  isFinalAttempt: boolean;
+}
+
+export type JobHandler<T extends JobType> = (payload: JobPayloads[T], ctx: JobContext) => Promise<void>;
+
+// ── ai-reply ────────────────────────────────────────────────────────────
+
+type ReplyPersona = Parameters<typeof generateReplyToHuman>[0];
+
+/**
+ * Post creator's AI persona replies to a human comment.
+ * Also sometimes a random other AI jumps in.
+ */
+async function aiReply({ postId, humanCommentId, humanContent, humanName, sessionId }: JobPayloads["ai-reply"]): Promise<void> {
+  const sql = getDb();
+
+  const postRows = await sql`
+    SELECT p.content, p.persona_id, a.id as aid, a.username, a.display_name, a.avatar_emoji,
+      a.personality, a.persona_type, a.bio, a.human_backstory
+    FROM posts p
+    JOIN ai_personas a ON p.persona_id = a.id
+    WHERE p.id = ${postId}
+  ` as unknown as {
+    content: string; persona_id: string; aid: string; username: string;
+    display_name: string; avatar_emoji: string; personality: string;
+    persona_type: string; bio: string; human_backstory: string;
+  }[];
+
+  if (postRows.length === 0) return;
+  const postData = postRows[0];
+
+  const persona = {
+    id: postData.aid,
+    username: postData.username,
+    display_name: postData.display_name,
+    avatar_emoji: postData.avatar_emoji,
+    personality: postData.personality,
+    persona_type: postData.persona_type,
+    bio: postData.bio,
+    human_backstory: postData.human_backstory,
+  };
+
+  // Replies already written by an earlier attempt of this job
+  const existing = await sql`
+    SELECT persona_id FROM posts WHERE reply_to_comment_id = ${humanCommentId} AND reply_to_comment_type = 'human'
+  ` as unknown as { persona_id: string }[];
+  const creatorReplied = existing.some((r) => r.persona_id === persona.id);
+  const otherReplied = existing.some((r) => r.persona_id !== persona.id);
+
+  const postReply = async (replier: ReplyPersona) => {
+    const reply = await generateReplyToHuman(
+      replier,
+      { content: humanContent, display_name: humanName },
+      { content: postData.content },
+    );
+
+    const replyId = uuidv4();
+    await sql`
+      INSERT INTO posts (id, persona_id, content, post_type, is_reply_to, reply_to_comment_id, reply_to_comment_type)
+      VALUES (${replyId}, ${replier.id}, ${reply.content}, 'text', ${postId}, ${humanCommentId}, 'human')
+    `;
+    await sql`UPDATE posts SET comment_count = comment_count + 1 WHERE id = ${postId}`;
+
+    if (sessionId) {
+      const notifId = uuidv4();
+      await sql`
+        INSERT INTO notifications (id, session_id, type, persona_id, post_id, reply_id, content_preview)
+        VALUES (${notifId}, ${sessionId}, 'ai_reply', ${replier.id}, ${postId}, ${replyId}, ${reply.content.slice(0, 100)})
+      `;
+      try { await users.awardCoins(sessionId, COIN_REWARDS.aiReply, "AI replied to your comment", replyId, `ai_reply:${replyId}`); } catch { /* non-critical */ }
+    }
+    try { await users.awardPersonaCoins(replier.id, COIN_REWARDS.personaHumanEngagement, "Replied to a human", `ai_reply_persona:${replyId}`); } catch { /* non-critical */ }
+  };
+
+  // Post creator replies based on configured probability
+  if (!creatorReplied && Math.random() < AI_BEHAVIOR.replyToHumanProb) {
+    await postReply(persona as ReplyPersona);
+  }
+
+  // Random other AI also replies based on configured probability
+  if (!otherReplied && Math.random() < AI_BEHAVIOR.randomReplyProb) {
+    const others = await sql`
+      SELECT id, username, display_name, avatar_emoji, personality, persona_type, bio, human_backstory
+      FROM ai_personas
+      WHERE id != ${persona.id} AND is_active = TRUE
+      ORDER BY RANDOM()
+      LIMIT 1
+    ` as unknown as ReplyPersona[];
+
+    if (others.length > 0) await postReply(others[0]);
+  }
+}
+
+// ── bestie-tool ─────────────────────────────────────────────────────────
+
+/**
+ * Run a slow bestie chat tool (image gen, hatching, movies…), persist any
+ * media to Blob, get Claude to phrase the result, and drop it into the chat.
+ * The user only sees an error message once the final attempt fails.
+ */
+async function bestieTool(payload: JobPayloads["bestie-tool"], { isFinalAttempt }: JobContext): Promise<void> {
+  const { toolName, toolInput, toolUseId, sessionId, personaId, conversationId, systemPrompt, persona } = payload;
+  const sql = getDb();
+
+  try {
+    console.log(`[BG-TASK] ====== STARTING ${toolName} ======`);
+    console.log(`[BG-TASK] session=${sessionId} persona=${personaId} conv=${conversationId}`);
+    console.log(`[BG-TASK] Tool input: ${JSON.stringify(toolInput).slice(0, 300)}`);
+
+    const { executeTool } = await import("@/lib/bestie-tools");
+    const toolStartTime = Date.now();
+    const toolResult = await executeTool(toolName, toolInput as Parameters<typeof executeTool>[1], sessionId, personaId);
+    console.log(`[BG-TASK] Tool completed in ${Date.now() - toolStartTime}ms`);
+    console.log(`[BG-TASK] Tool result (first 500): ${toolResult.slice(0, 500)}`);
+
+    // Check for generated images/videos
+    let mediaUrl = extractMediaUrl(toolResult);
+    if (!mediaUrl) {
+      console.error(`[BG-TASK] ⚠️ NO IMAGE URL extracted! Full tool result: ${toolResult.slice(0, 1000)}`);
+    }
+
+    // CRITICAL: Re-upload external images to Vercel Blob so URLs never expire
+    if (mediaUrl && !mediaUrl.includes("vercel-storage.com") && !mediaUrl.includes("blob.vercel")) {
+      mediaUrl = await persistImageToBlob(mediaUrl, toolName);
+    }
+
+    // Get Claude to format the result naturally
+    const client = await getAnthropicClient();
+    const messages = [
+      ...payload.history,
+      { role: "assistant", content: payload.assistantContent },
+      { role: "user", content: [{ type: "tool_result", tool_use_id: toolUseId, content: toolResult }] },
+    ] as Parameters<typeof client.messages.create>[0]["messages"];
+    const followUp = await createMessageWithRetry(client, {
+      model: "claude-sonnet-4-20250514",
+      max_tokens: 500,
+      system: systemPrompt,
+      messages,
+    });
+
+    const reply = (followUp.content as { type: string; text?: string }[])
+      .filter((b) => b.type === "text")
+      .map((b) => b.text)
+      .join("").trim()
+      .replace(/^["']|["']$/g, "")
+      .slice(0, 500) || "done! check it out 👆";
+
+    const msgId = crypto.randomUUID();
+    await Promise.all([
+      sql`INSERT INTO messages (id, conversation_id, sender_type, content, image_url)
+          VALUES (${msgId}, ${conversationId}, 'ai', ${reply}, ${mediaUrl})`,
+      sql`UPDATE conversations SET last_message_at = NOW() WHERE id = ${conversationId}`,
+    ]);
+    console.log(`[BG-TASK] ✅ Message saved successfully. image=${!!mediaUrl}`);
+
+    // Auto-share generated media to all social media platforms with branding
+    if (mediaUrl) {
+      try {
+        const { shareBestieMediaToSocials } = await import("@/lib/marketing/bestie-share");
+        const isVideo = mediaUrl.includes(".mp4") || mediaUrl.includes("video") || toolName === "generate_video";
+        const isMeme = toolResult.includes("MEDIA|meme|");
+        await shareBestieMediaToSocials({
+          mediaUrl,
+          mediaType: isVideo ? "video" : isMeme ? "meme" : "image",
+          bestieName: persona.display_name,
+          bestieEmoji: persona.avatar_emoji,
+          bestieId: persona.id,
+          sessionId,
+        });
+      } catch (socialErr) {
+        console.error("[BG-TASK] Social share failed (non-fatal):", socialErr instanceof Error ? socialErr.message : socialErr);
+      }
+    }
+
+    // Send push notification to user that generation is complete
+    try {
+      const pushTokenRows = await sql`
+        SELECT push_token FROM human_users WHERE session_id = ${sessionId} AND push_token IS NOT NULL
+      `;
+      if (pushTokenRows.length > 0 && pushTokenRows[0].push_token) {
+        await fetch("https://exp.host/--/api/v2/push/send", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            to: pushTokenRows[0].push_token,
+            sound: "default",
+            title: mediaUrl ? "Your bestie made something! 🎨" : "Your bestie replied!",
+            body: reply.slice(0, 100),
+            data: { type: "background_task_complete", conversationId },
+          }),
+        }).catch(() => {});
+      }
+    } catch { /* push is best-effort */ }
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    console.error(`[BG-TASK] ❌ BACKGROUND TOOL FAILED: ${message}`);
+    if (isFinalAttempt) {
+      const errMsg = toolName === "generate_image"
+        ? `ugh the image didn't come through 😵 my art skills glitched — try asking me again? (error: ${message.slice(0, 80)})`
+        : `ugh that didn't work 😵 try asking me again? (error: ${message.slice(0, 80)})`;
+      await sql`INSERT INTO messages (id, conversation_id, sender_type, content)
+                VALUES (${crypto.randomUUID()}, ${conversationId}, 'ai', ${errMsg})`;
+    }
+    throw e;
+  }
+}
+
+// ── Registry ────────────────────────────────────────────────────────────
+
+export const JOB_HANDLERS: { [T in JobType]: JobHandler<T> } = {
+  "ai-reply": aiReply,
+  "bestie-tool": bestieTool,
+};
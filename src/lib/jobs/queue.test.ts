@@ -0,0 +1,104 @@
+/**
+ * Durable Job Queue — Unit Tests
+ * ===============================
+ * Backoff schedule, idempotent enqueue and retry/dead-letter decisions,
+ * against a mock SQL tag that records queries.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { queries, respond, resetMockSql } from "@/lib/test-utils/mock-sql";
+
+vi.mock("@/lib/db", () => import("@/lib/test-utils/mock-sql"));
+
+import { retryDelayMs, enqueueJob, completeJob, failJob, retryJob } from "./queue";
+
+beforeEach(() => {
+  resetMockSql();
+});
+
+describe("retryDelayMs", () => {
+  it("doubles from 30s per attempt", () => {
+    expect([1, 2, 3, 4].map(retryDelayMs)).toEqual([30_000, 60_000, 120_000, 240_000]);
+  });
+
+  it("caps at one hour", () => {
+    expect(retryDelayMs(20)).toBe(60 * 60_000);
+  });
+});
+
+describe("enqueueJob", () => {
+  const payload = { postId: "p1", humanCommentId: "c1", humanContent: "hi", humanName: "Meat Bag" };
+
+  it("inserts a new job with defaults", async () => {
+    respond.fn = (q) => (q.includes("INSERT INTO background_jobs") ? [{ id: "new" }] : []);
+    const result = await enqueueJob("ai-reply", payload);
+
+    expect(result.created).toBe(true);
+    const insert = queries[0];
+    expect(insert.values[1]).toBe("ai-reply");
+    expect(JSON.parse(insert.values[2] as string)).toEqual(payload);
+    expect(insert.values[3]).toBe(3); // default max attempts
+    expect(insert.values[5]).toBeNull(); // no idempotency key
+  });
+
+  it("returns the existing job when the idempotency key was already used", async () => {
+    respond.fn = (q) => (q.includes("SELECT id FROM background_jobs") ? [{ id: "existing-job" }] : []);
+    const result = await enqueueJob("ai-reply", payload, { idempotencyKey: "ai-reply:c1" });
+
+    expect(result).toEqual({ id: "existing-job", created: false });
+    expect(queries[0].query).toContain("ON CONFLICT (idempotency_key) DO NOTHING");
+    expect(queries[1].values).toEqual(["ai-reply:c1"]);
+  });
+});
+
+describe("completeJob", () => {
+  it("only completes a job this worker still holds", async () => {
+    respond.fn = () => [{ id: "j1" }];
+    expect(await completeJob("j1", "w1")).toBe(true);
+    expect(queries[0].query).toContain("status = 'running' AND locked_by = ?");
+    expect(queries[0].values).toEqual(["j1", "w1"]);
+
+    respond.fn = () => [];
+    expect(await completeJob("j1", "w1")).toBe(false);
+  });
+});
+
+describe("failJob", () => {
+  beforeEach(() => {
+    respond.fn = () => [{ id: "j1" }];
+  });
+
+  it("re-queues with backoff while attempts remain", async () => {
+    const status = await failJob({ id: "j1", attempts: 2, max_attempts: 3 }, "w1", "boom");
+    expect(status).toBe("queued");
+    expect(queries[0].values).toEqual(["queued", "boom", 60_000, "j1", "w1"]);
+  });
+
+  it("dead-letters on the final attempt", async () => {
+    const status = await failJob({ id: "j1", attempts: 3, max_attempts: 3 }, "w1", "boom");
+    expect(status).toBe("dead");
+    expect(queries[0].values[0]).toBe("dead");
+  });
+
+  it("truncates long errors", async () => {
+    await failJob({ id: "j1", attempts: 1, max_attempts: 3 }, "w1", "x".repeat(5000));
+    expect((queries[0].values[1] as string).length).toBe(1000);
+  });
+
+  it("returns null once another worker has re-claimed the job", async () => {
+    respond.fn = () => [];
+    expect(await failJob({ id: "j1", attempts: 1, max_attempts: 3 }, "w1", "boom")).toBeNull();
+    expect(queries[0].query).toContain("locked_by = ?");
+  });
+});
+
+describe("retryJob", () => {
+  it("reports whether a dead/queued job was re-queued", async () => {
+    respond.fn = () => [{ id: "j1" }];
+    expect(await retryJob("j1")).toBe(true);
+    expect(queries[0].query).toContain("attempts = 0");
+
+    respond.fn = () => [];
+    expect(await retryJob("completed-job")).toBe(false);
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Durable Job Queue
+ * ==================
+ * Postgres-backed queue for background work that used to run as un-awaited
+ * promises inside routes (and silently died when the lambda froze).
+ *
+ * Lifecycle:  queued ──claim──▶ running ──complete──▶ completed
+ *                ▲                 │
+ *                └──fail (retry)───┤
+ *                                  └──fail (out of attempts)──▶ dead
+ *
+ *   - Retries use exponential backoff (`retryDelayMs`)
+ *   - A `running` job whose lock is older than the lock timeout is assumed
+ *     lost (lambda killed mid-job) and becomes claimable again
+ *   - `idempotencyKey` makes enqueue a no-op if the same work is already queued
+ *
+ * Usage:
+ *   import { enqueueJob } from "@/lib/jobs/queue";
+ *
+ *   await enqueueJob("ai-reply", { postId, ... }, { idempotencyKey: `ai-reply:${commentId}` });
+ *
+ * Jobs are executed by `src/lib/jobs/worker.ts` (cron: /api/job-worker).
+ */
+
+import { getDb } from "@/lib/db";
+import { v4 as uuidv4 } from "uuid";
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+/** Payload shape for every job type. Add new job types here + a handler in handlers.ts. */
+export interface JobPayloads {
+  /** Persona replies to a human comment (from /api/interact) */
+  "ai-reply": {
+    postId: string;
+    humanCommentId: string;
+    humanContent: string;
+    humanName: string;
+    sessionId?: string;
+  };
+  /** Slow bestie chat tool + follow-up message (from /api/messages) */
+  "bestie-tool": {
+    toolName: string;
+    toolInput: unknown;
+    toolUseId: string;
+    sessionId: string;
+    personaId: string;
+    conversationId: string;
+    systemPrompt: string;
+    /** Anthropic message history up to (not including) the tool call */
+    history: unknown[];
+    /** Assistant content block that requested the tool */
+    assistantContent: unknown;
+    persona: { id: string; display_name: string; avatar_emoji: string };
+  };
+}
+
+export type JobType = keyof JobPayloads;
+
+export type JobStatus = "queued" | "running" | "completed" | "dead";
+
+export interface Job<T extends JobType = JobType> {
+  id: string;
+  type: T;
+  payload: JobPayloads[T];
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_at: string | null;
+  locked_by: string | null;
+  last_error: string | null;
+  idempotency_key: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface EnqueueOptions {
+  /** Enqueue is a no-op (returns the existing job) if this key was used before */
+  idempotencyKey?: string;
+  maxAttempts?: number;
+  /** Don't run before this many ms from now */
+  delayMs?: number;
+}
+
+// ── Constants ───────────────────────────────────────────────────────────
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 60 * 60_000;
+
+/** A running job with a lock older than this is assumed lost and re-claimed. */
+export const LOCK_TIMEOUT_MS = 10 * 60_000;
+
+/**
+ * Backoff before the next attempt, given how many attempts have been made:
+ * 30s, 1m, 2m, 4m … capped at 1h.
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+// ── Producer ────────────────────────────────────────────────────────────
+
+/**
+ * Add a job to the queue. Returns the job id and whether a new row was created
+ * (false = an existing job with the same idempotency key was found).
+ */
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  opts: EnqueueOptions = {},
+): Promise<{ id: string; created: boolean }> {
+  const sql = getDb();
+  const id = uuidv4();
+  const delayMs = Math.max(0, opts.delayMs ?? 0);
+
+  const rows = await sql`
+    INSERT INTO background_jobs (id, type, payload, max_attempts, run_at, idempotency_key)
+    VALUES (
+      ${id}, ${type}, ${JSON.stringify(payload)}::jsonb, ${opts.maxAttempts ?? DEFAULT_MAX_ATTEMPTS},
+      NOW() + (${delayMs} * INTERVAL '1 millisecond'), ${opts.idempotencyKey ?? null}
+    )
+    ON CONFLICT (idempotency_key) DO NOTHING
+    RETURNING id
+  `;
+  if (rows.length > 0) return { id, created: true };
+
+  const [existing] = await sql`
+    SELECT id FROM background_jobs WHERE idempotency_key = ${opts.idempotencyKey ?? null}
+  `;
+  return { id: existing.id as string, created: false };
+}
+
+// ── Consumer ────────────────────────────────────────────────────────────
+
+/**
+ * Claim up to `limit` due jobs for this worker. Uses SKIP LOCKED so concurrent
+ * workers never claim the same row. Stale locks past their last attempt are
+ * dead-lettered first rather than run again.
+ */
+export async function claimJobs(workerId: string, limit: number = 5): Promise<Job[]> {
+  const sql = getDb();
+  const staleMs = LOCK_TIMEOUT_MS;
+
+  await sql`
+    UPDATE background_jobs
+    SET status = 'dead', locked_at = NULL, locked_by = NULL, updated_at = NOW(),
+        last_error = COALESCE(last_error || ' | ', '') || 'worker lost lock on final attempt'
+    WHERE status = 'running'
+      AND locked_at < NOW() - (${staleMs} * INTERVAL '1 millisecond')
+      AND attempts >= max_attempts
+  `;
+
+  const rows = await sql`
+    UPDATE background_jobs
+    SET status = 'running', attempts = attempts + 1, locked_at = NOW(), locked_by = ${workerId}, updated_at = NOW()
+    WHERE id IN (
+      SELECT id FROM background_jobs
+      WHERE (status = 'queued' AND run_at <= NOW())
+         OR (status = 'running' AND locked_at < NOW() - (${staleMs} * INTERVAL '1 millisecond'))
+      ORDER BY run_at ASC
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+  return rows as unknown as Job[];
+}
+
+/** Claim one specific queued job (used to run a job right after enqueueing it). */
+export async function claimJob(id: string, workerId: string): Promise<Job | null> {
+  const sql = getDb();
+  const rows = await sql`
+    UPDATE background_jobs
+    SET status = 'running', attempts = attempts + 1, locked_at = NOW(), locked_by = ${workerId}, updated_at = NOW()
+    WHERE id = ${id} AND status = 'queued' AND run_at <= NOW()
+    RETURNING *
+  `;
+  return (rows[0] as unknown as Job) ?? null;
+}
+
+/**
+ * Mark a claimed job as done. Only the worker still holding the lock may
+ * finish it — returns false if the lock went stale and was re-claimed.
+ */
+export async function completeJob(id: string, workerId: string): Promise<boolean> {
+  const sql = getDb();
+  const rows = await sql`
+    UPDATE background_jobs
+    SET status = 'completed', completed_at = NOW(), locked_at = NULL, locked_by = NULL,
+        last_error = NULL, updated_at = NOW()
+    WHERE id = ${id} AND status = 'running' AND locked_by = ${workerId}
+    RETURNING id
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Record a failed attempt. Re-queues with backoff, or dead-letters the job
+ * once it has used all of its attempts. Returns the resulting status, or
+ * null if this worker no longer holds the lock.
+ */
+export async function failJob(
+  job: Pick<Job, "id" | "attempts" | "max_attempts">,
+  workerId: string,
+  error: string,
+): Promise<"queued" | "dead" | null> {
+  const sql = getDb();
+  const status = job.attempts >= job.max_attempts ? "dead" : "queued";
+  const delayMs = status === "queued" ? retryDelayMs(job.attempts) : 0;
+
+  const rows = await sql`
+    UPDATE background_jobs
+    SET status = ${status}, last_error = ${error.slice(0, 1000)},
+        run_at = NOW() + (${delayMs} * INTERVAL '1 millisecond'),
+        locked_at = NULL, locked_by = NULL, updated_at = NOW()
+    WHERE id = ${job.id} AND status = 'running' AND locked_by = ${workerId}
+    RETURNING id
+  `;
+  return rows.length > 0 ? status : null;
+}
+
+// ── Admin ───────────────────────────────────────────────────────────────
+
+/** Put a dead (or waiting) job back at the front of the queue with a fresh attempt budget. */
+export async function retryJob(id: string): Promise<boolean> {
+  const sql = getDb();
+  const rows = await sql`
+    UPDATE background_jobs
+    SET status = 'queued', attempts = 0, run_at = NOW(), locked_at = NULL, locked_by = NULL, updated_at = NOW()
+    WHERE id = ${id} AND status IN ('dead', 'queued')
+    RETURNING id
+  `;
+  return rows.length > 0;
+}
+
+/** Most recent jobs, optionally filtered by status. */
+export async function listJobs(status?: JobStatus, limit: number = 100): Promise<Job[]> {
+  const sql = getDb();
+  const rows = status
+    ? await sql`
+        SELECT * FROM background_jobs WHERE status = ${status}
+        ORDER BY updated_at DESC LIMIT ${limit}
+      `
+    : await sql`
+        SELECT * FROM background_jobs
+        ORDER BY updated_at DESC LIMIT ${limit}
+      `;
+  return rows as unknown as Job[];
+}
+
+/** Job counts per status (completed = last 24h only). */
+export async function getJobCounts(): Promise<Record<JobStatus, number>> {
+  const sql = getDb();
+  const rows = await sql`
+    SELECT status, COUNT(*)::int AS count
+    FROM background_jobs
+    WHERE status != 'completed' OR completed_at > NOW() - INTERVAL '24 hours'
+    GROUP BY status
+  ` as unknown as { status: JobStatus; count: number }[];
+
+  const counts: Record<JobStatus, number> = { queued: 0, running: 0, completed: 0, dead: 0 };
+  for (const r of rows) counts[r.status] = Number(r.count);
+  return counts;
+}
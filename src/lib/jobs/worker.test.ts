@@ -0,0 +1,110 @@
+/**
+ * Background Job Worker — Unit Tests
+ * ===================================
+ * Handler dispatch and outcome bookkeeping, with the queue and handlers mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Job } from "./queue";
+
+const queue = vi.hoisted(() => ({
+  claimJob: vi.fn(),
+  claimJobs: vi.fn(),
+  completeJob: vi.fn(),
+  failJob: vi.fn(),
+}));
+const handlers = vi.hoisted(() => ({
+  "ai-reply": vi.fn(),
+  "bestie-tool": vi.fn(),
+}));
+
+vi.mock("./queue", () => queue);
+vi.mock("./handlers", () => ({ JOB_HANDLERS: handlers }));
+
+import { runJob, runJobWorker } from "./worker";
+
+function job(overrides: Partial<Job> = {}): Job {
+  return {
+    id: "job-1",
+    type: "ai-reply",
+    payload: { postId: "p", humanCommentId: "c", humanContent: "hi", humanName: "Meat Bag" },
+    status: "running",
+    attempts: 1,
+    max_attempts: 3,
+    run_at: "",
+    locked_at: null,
+    locked_by: null,
+    last_error: null,
+    idempotency_key: null,
+    created_at: "",
+    updated_at: "",
+    completed_at: null,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  queue.completeJob.mockResolvedValue(true);
+  queue.failJob.mockImplementation(async (j: Job) => (j.attempts >= j.max_attempts ? "dead" : "queued"));
+});
+
+describe("runJob", () => {
+  it("runs the handler for the job type and completes it", async () => {
+    handlers["ai-reply"].mockResolvedValue(undefined);
+    const j = job();
+    expect(await runJob(j, "w1")).toBe("completed");
+    expect(handlers["ai-reply"]).toHaveBeenCalledWith(j.payload, { job: j, isFinalAttempt: false });
+    expect(queue.completeJob).toHaveBeenCalledWith("job-1", "w1");
+  });
+
+  it("records a failed attempt for retry", async () => {
+    handlers["ai-reply"].mockRejectedValue(new Error("claude down"));
+    expect(await runJob(job(), "w1")).toBe("queued");
+    expect(queue.failJob).toHaveBeenCalledWith(expect.objectContaining({ id: "job-1" }), "w1", "claude down");
+    expect(queue.completeJob).not.toHaveBeenCalled();
+  });
+
+  it("leaves the outcome to the new owner when the lock was re-claimed", async () => {
+    handlers["ai-reply"].mockResolvedValue(undefined);
+    queue.completeJob.mockResolvedValue(false);
+    expect(await runJob(job(), "w1")).toBe("queued");
+
+    handlers["ai-reply"].mockRejectedValue(new Error("slow"));
+    queue.failJob.mockResolvedValue(null);
+    expect(await runJob(job({ attempts: 3 }), "w1")).toBe("queued");
+  });
+
+  it("tells the handler when it is on its final attempt and dead-letters on failure", async () => {
+    handlers["bestie-tool"].mockRejectedValue(new Error("nope"));
+    const j = job({ type: "bestie-tool", attempts: 2, max_attempts: 2 });
+    expect(await runJob(j, "w1")).toBe("dead");
+    expect(handlers["bestie-tool"].mock.calls[0][1]).toEqual({ job: j, isFinalAttempt: true });
+  });
+
+  it("fails jobs with no registered handler", async () => {
+    expect(await runJob(job({ type: "unknown" as Job["type"] }), "w1")).toBe("queued");
+    expect(queue.failJob.mock.calls[0][2]).toMatch(/No handler/);
+  });
+});
+
+describe("runJobWorker", () => {
+  it("drains batches until the queue is empty and tallies outcomes", async () => {
+    handlers["ai-reply"]
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error("retry me"))
+      .mockRejectedValueOnce(new Error("give up"));
+    queue.claimJobs
+      .mockResolvedValueOnce([job({ id: "a" }), job({ id: "b" })])
+      .mockResolvedValueOnce([job({ id: "c", attempts: 3 })])
+      .mockResolvedValueOnce([]);
+
+    const result = await runJobWorker({ batchSize: 2 });
+    expect(result).toEqual({ claimed: 3, completed: 1, retrying: 1, dead: 1 });
+    expect(queue.claimJobs).toHaveBeenCalledTimes(3);
+    expect(queue.claimJobs.mock.calls[0][1]).toBe(2);
+    expect(queue.completeJob).toHaveBeenCalledWith("a", queue.claimJobs.mock.calls[0][0]);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Background Job Worker
+ * ======================
+ * Claims due jobs from the queue and runs their handlers.
+ *
+ *   runJobWorker()   — cron entry point (/api/job-worker): drain due jobs
+ *                      until the time budget runs out
+ *   processJob(id)   — run one just-enqueued job immediately, e.g. from
+ *                      `after()` in a route. If the lambda dies mid-job the
+ *                      lock goes stale and the cron worker picks it up.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { monitor } from "@/lib/monitoring";
+import { claimJob, claimJobs, completeJob, failJob, type Job, type JobType } from "./queue";
+import { JOB_HANDLERS, type JobHandler } from "./handlers";
+
+export interface JobWorkerResult {
+  claimed: number;
+  completed: number;
+  retrying: number;
+  dead: number;
+}
+
+/**
+ * Run a job claimed by `workerId` and record the outcome. Never throws.
+ * If the lock was lost mid-run the outcome is left to the worker that now
+ * holds it, and the job counts as still queued.
+ */
+export async function runJob(job: Job, workerId: string): Promise<"completed" | "queued" | "dead"> {
+  const handler = JOB_HANDLERS[job.type] as JobHandler<JobType> | undefined;
+  const started = Date.now();
+
+  try {
+    if (!handler) throw new Error(`No handler registered for job type "${job.type}"`);
+    await handler(job.payload, { job, isFinalAttempt: job.attempts >= job.max_attempts });
+    if (!(await completeJob(job.id, workerId))) {
+      console.warn(`[jobs] ${job.type} ${job.id} finished after its lock was re-claimed — leaving it to the new worker`);
+      return "queued";
+    }
+    monitor.trackEvent(`job:${job.type}`, { status: "completed", attempt: job.attempts, elapsed_ms: Date.now() - started });
+    return "completed";
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const status = await failJob(job, workerId, message).catch((dbErr) => {
+      console.error(`[jobs] Could not record failure for ${job.id}:`, dbErr instanceof Error ? dbErr.message : dbErr);
+      return "queued" as const; // lock will go stale and the job will be re-claimed
+    });
+
+    if (status === null) {
+      console.warn(`[jobs] ${job.type} ${job.id} failed after its lock was re-claimed — leaving it to the new worker: ${message}`);
+      return "queued";
+    }
+
+    if (status === "dead") {
+      monitor.trackError(`job/${job.type}`, err);
+      console.error(`[jobs] ${job.type} ${job.id} dead-lettered after ${job.attempts} attempt(s): ${message}`);
+    } else {
+      console.warn(`[jobs] ${job.type} ${job.id} failed attempt ${job.attempts}/${job.max_attempts}, will retry: ${message}`);
+    }
+    return status;
+  }
+}
+
+/** Claim and run one specific job if it's still queued. */
+export async function processJob(id: string): Promise<void> {
+  try {
+    const workerId = `inline-${uuidv4()}`;
+    const job = await claimJob(id, workerId);
+    if (job) await runJob(job, workerId);
+  } catch (err) {
+    // Leave it for the cron worker
+    console.error(`[jobs] Inline run of ${id} failed:`, err instanceof Error ? err.message : err);
+  }
+  await monitor.flush();
+}
+
+/**
+ * Drain due jobs in small batches until the queue is empty or the time
+ * budget is spent (leave headroom under the route's maxDuration).
+ */
+export async function runJobWorker(opts: { batchSize?: number; timeBudgetMs?: number } = {}): Promise<JobWorkerResult> {
+  const batchSize = opts.batchSize ?? 5;
+  const deadline = Date.now() + (opts.timeBudgetMs ?? 45_000);
+  const workerId = `cron-${uuidv4()}`;
+  const result: JobWorkerResult = { claimed: 0, completed: 0, retrying: 0, dead: 0 };
+
+  while (Date.now() < deadline) {
+    const jobs = await claimJobs(workerId, batchSize);
+    if (jobs.length === 0) break;
+    result.claimed += jobs.length;
+
+    const outcomes = await Promise.all(jobs.map((job) => runJob(job, workerId)));
+    for (const outcome of outcomes) {
+      if (outcome === "completed") result.completed++;
+      else if (outcome === "dead") result.dead++;
+      else result.retrying++;
+    }
+  }
+
+  return result;
+}
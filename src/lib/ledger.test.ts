@@ -0,0 +1,227 @@
+/**
+ * GLITCH Ledger — Unit Tests
+ * ==========================
+ * Entry validation, the single-statement posting (atomic debit, idempotent
+ * replay, opening balances carried over from legacy tables) and
+ * reconciliation flagging.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { queries, respond, resetMockSql } from "@/lib/test-utils/mock-sql";
+
+vi.mock("@/lib/db", () => import("@/lib/test-utils/mock-sql"));
+
+import {
+  accountId,
+  credit,
+  debit,
+  humanAccount,
+  openAccount,
+  personaAccount,
+  postEntry,
+  reconcileLedger,
+  transfer,
+  validateLines,
+} from "./ledger";
+
+const alice = humanAccount("sess-alice");
+const bob = humanAccount("sess-bob");
+const existing = (...ids: string[]) => ids.map(id => ({ id }));
+
+beforeEach(() => {
+  resetMockSql();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("validateLines", () => {
+  it("accepts a balanced entry", () => {
+    expect(validateLines([{ account: alice, amount: -5 }, { account: bob, amount: 5 }])).toBeNull();
+  });
+
+  it("rejects entries that don't balance", () => {
+    expect(validateLines([{ account: alice, amount: -5 }, { account: bob, amount: 4 }])).toBe("Entry does not balance (off by -1)");
+  });
+
+  it("needs two lines, whole non-zero amounts and one currency", () => {
+    expect(validateLines([{ account: alice, amount: 0 }])).toBe("An entry needs at least two lines");
+    expect(validateLines([{ account: alice, amount: -1.5 }, { account: bob, amount: 1.5 }])).toBe("Line amounts must be non-zero whole numbers");
+    expect(validateLines([
+      { account: alice, amount: -5 },
+      { account: humanAccount("sess-bob", "BUDJU"), amount: 5 },
+    ])).toBe("An entry can only move one currency");
+  });
+});
+
+describe("accountId", () => {
+  it("is derived from currency, owner type and owner id", () => {
+    expect(accountId(alice)).toBe("GLITCH:human:sess-alice");
+    expect(accountId(personaAccount("glitch-001", "BUDJU"))).toBe("BUDJU:ai_persona:glitch-001");
+  });
+});
+
+describe("postEntry", () => {
+  it("refuses an unbalanced entry without touching the database", async () => {
+    const result = await postEntry({
+      idempotencyKey: "k1",
+      kind: "transfer",
+      lines: [{ account: alice, amount: -10 }, { account: bob, amount: 9 }],
+    });
+    expect(result).toEqual({ error: "Entry does not balance (off by -1)" });
+    expect(queries).toHaveLength(0);
+  });
+
+  it("posts entry, lines, balances and history in one statement", async () => {
+    respond.fn = (q) => {
+      if (q.includes("SELECT id FROM ledger_accounts WHERE id = ANY")) return existing("GLITCH:human:sess-alice", "GLITCH:human:sess-bob");
+      if (q.includes("INSERT INTO ledger_entries")) return [{ entry_id: "entry-1", balances: { "GLITCH:human:sess-alice": "90", "GLITCH:human:sess-bob": 10 } }];
+      return [];
+    };
+
+    const result = await transfer(alice, bob, 10, { idempotencyKey: "send-1", memo: "Sent to Bob", creditMemo: "Received from a friend" });
+
+    expect(result).toEqual({
+      entryId: "entry-1",
+      duplicate: false,
+      balances: { "GLITCH:human:sess-alice": 90, "GLITCH:human:sess-bob": 10 },
+    });
+    const posting = queries.filter(q => q.query.includes("INSERT INTO ledger_entries"));
+    expect(posting).toHaveLength(1);
+    expect(posting[0].query).toContain("UPDATE glitch_coins");
+    expect(posting[0].query).toContain("INSERT INTO coin_transactions");
+    expect(posting[0].values).toContainEqual(["GLITCH:human:sess-alice", "GLITCH:human:sess-bob"]);
+    expect(posting[0].values).toContainEqual([-10, 10]);
+    // Each side gets its own history text
+    expect(posting[0].values).toContainEqual(["Sent to Bob", "Received from a friend"]);
+  });
+
+  it("reports an overdraw as insufficient when the no-overdraw check fires", async () => {
+    respond.fn = (q) => {
+      if (q.includes("SELECT id FROM ledger_accounts WHERE id = ANY")) return existing("GLITCH:human:sess-alice", "GLITCH:system:sink");
+      if (q.includes("INSERT INTO ledger_entries")) {
+        return Promise.reject(Object.assign(new Error("violates check constraint \"ledger_accounts_no_overdraw\""), { code: "23514" }));
+      }
+      return [];
+    };
+
+    const result = await debit(alice, 500, { idempotencyKey: "adfree-1", memo: "Ad-free (30 days)" });
+
+    expect(result).toEqual({ error: "Insufficient balance", insufficient: true });
+  });
+
+  it("rethrows other database errors", async () => {
+    respond.fn = (q) => {
+      if (q.includes("SELECT id FROM ledger_accounts WHERE id = ANY")) return existing("GLITCH:human:sess-alice", "GLITCH:system:sink");
+      if (q.includes("INSERT INTO ledger_entries")) return Promise.reject(Object.assign(new Error("connection reset"), { code: "08006" }));
+      return [];
+    };
+
+    await expect(debit(alice, 5, { idempotencyKey: "k" })).rejects.toThrow("connection reset");
+  });
+
+  it("returns the original entry when the idempotency key was already used", async () => {
+    respond.fn = (q) => {
+      if (q.includes("SELECT id FROM ledger_accounts WHERE id = ANY")) return existing("GLITCH:system:issuance", "GLITCH:human:sess-alice");
+      if (q.includes("INSERT INTO ledger_entries")) return [{ entry_id: null, balances: {} }];
+      if (q.includes("SELECT id FROM ledger_entries WHERE idempotency_key")) return [{ id: "entry-original" }];
+      if (q.includes("SELECT id, balance FROM ledger_accounts")) return [{ id: "GLITCH:human:sess-alice", balance: "100" }];
+      return [];
+    };
+
+    const result = await credit(alice, 100, { idempotencyKey: "signup:sess-alice", memo: "Welcome bonus" });
+
+    expect(result).toEqual({ entryId: "entry-original", duplicate: true, balances: { "GLITCH:human:sess-alice": 100 } });
+  });
+
+  it("opens a new account with its legacy balance as an opening entry", async () => {
+    respond.fn = (q) => {
+      if (q.includes("SELECT id FROM ledger_accounts WHERE id = ANY")) return existing("GLITCH:system:issuance");
+      if (q.includes("SELECT balance FROM ai_persona_coins")) return [{ balance: 250 }];
+      if (q.includes("INSERT INTO ledger_entries (id, idempotency_key, kind, reference_id")) return [{ entry_id: "e", balances: {} }];
+      return [];
+    };
+
+    await credit(personaAccount("glitch-001"), 3, { idempotencyKey: "k-open" });
+
+    expect(queries.some(q => q.query.includes("INSERT INTO ai_persona_coins") && q.query.includes("DO NOTHING"))).toBe(true);
+    const opening = queries.find(q => q.query.includes("'opening_balance'"));
+    expect(opening).toBeDefined();
+    expect(opening!.values).toContain("GLITCH:ai_persona:glitch-001");
+    expect(opening!.values).toContain(250);
+    expect(opening!.values).toContain("GLITCH:system:opening");
+    // Opening happens before the posting itself
+    const openingIdx = queries.indexOf(opening!);
+    const postingIdx = queries.findIndex(q => q.query.includes("INSERT INTO ledger_entries (id, idempotency_key, kind, reference_id"));
+    expect(openingIdx).toBeLessThan(postingIdx);
+  });
+});
+
+describe("openAccount", () => {
+  it("carries a legacy balance over before reading the account", async () => {
+    respond.fn = (q) => {
+      if (q.includes("SELECT balance FROM glitch_coins")) return [{ balance: 40 }];
+      if (q.includes("SELECT balance FROM ledger_accounts")) return [{ balance: 40 }];
+      return [];
+    };
+
+    expect(await openAccount(alice)).toBe(40);
+    const openingIdx = queries.findIndex(q => q.query.includes("'opening_balance'"));
+    const readIdx = queries.findIndex(q => q.query.includes("SELECT balance FROM ledger_accounts"));
+    expect(openingIdx).toBeGreaterThan(-1);
+    expect(openingIdx).toBeLessThan(readIdx);
+  });
+
+  it("just reads an account that's already open", async () => {
+    respond.fn = (q) => {
+      if (q.includes("WHERE id = ANY")) return existing("GLITCH:human:sess-alice");
+      if (q.includes("SELECT balance FROM ledger_accounts")) return [{ balance: 7 }];
+      return [];
+    };
+
+    expect(await openAccount(alice)).toBe(7);
+    expect(queries.some(q => q.query.includes("'opening_balance'"))).toBe(false);
+  });
+});
+
+describe("reconcileLedger", () => {
+  it("flags drifted accounts and resolves the rest", async () => {
+    respond.fn = (q) => {
+      if (q.includes("COUNT(*)::int AS count FROM ledger_accounts")) return [{ count: 12 }];
+      if (q.includes("WITH journal AS")) {
+        return [{
+          account_id: "GLITCH:human:sess-alice", owner_type: "human", owner_id: "sess-alice", currency: "GLITCH",
+          cached_balance: "90", journal_balance: "90", legacy_balance: "140",
+        }];
+      }
+      if (q.includes("HAVING SUM(amount) <> 0")) return [];
+      if (q.includes("UPDATE ledger_reconciliation_flags")) return [{ id: "old-flag" }];
+      return [];
+    };
+
+    const result = await reconcileLedger();
+
+    expect(result).toEqual({
+      accounts: 12,
+      mismatches: [{
+        account_id: "GLITCH:human:sess-alice", owner_type: "human", owner_id: "sess-alice", currency: "GLITCH",
+        cached_balance: 90, journal_balance: 90, legacy_balance: 140,
+      }],
+      flagged: 1,
+      resolved: 1,
+      unbalancedEntries: [],
+    });
+    const flag = queries.find(q => q.query.includes("INSERT INTO ledger_reconciliation_flags"));
+    expect(flag!.values).toContainEqual(["GLITCH:human:sess-alice"]);
+    expect(flag!.values).toContainEqual([140]);
+    const resolve = queries.find(q => q.query.includes("UPDATE ledger_reconciliation_flags"));
+    expect(resolve!.values).toContainEqual(["GLITCH:human:sess-alice"]);
+  });
+
+  it("writes no flags when everything agrees", async () => {
+    respond.fn = (q) => (q.includes("COUNT(*)") ? [{ count: 3 }] : []);
+
+    const result = await reconcileLedger();
+
+    expect(result.flagged).toBe(0);
+    expect(queries.some(q => q.query.includes("INSERT INTO ledger_reconciliation_flags"))).toBe(false);
+  });
+});
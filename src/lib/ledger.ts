@@ -0,0 +1,493 @@
+/**
+ * GLITCH Ledger — double-entry accounting for every balance
+ * ==========================================================
+ * One account per (owner, currency): humans, AI personas and system accounts
+ * (issuance, sink, opening) all share the same shape. Money only moves via
+ * journal entries whose lines sum to zero, and each entry carries an
+ * idempotency key so a retried request can't post twice.
+ *
+ * A posting is ONE SQL statement (the neon HTTP driver has no interactive
+ * transactions): insert the entry, its lines, move the cached balances and
+ * refresh the legacy tables, all or nothing. A debit is conditional by
+ * construction — ledger_accounts has CHECK (allow_negative OR balance >= 0),
+ * so two racing purchases can't both succeed; the loser's statement aborts.
+ *
+ * Legacy tables stay as read caches, updated in the same statement:
+ *   human GLITCH       → glitch_coins (+ coin_transactions history)
+ *   persona GLITCH     → ai_persona_coins
+ *   any owner/currency → token_balances (existing mirror rows)
+ * An account's first use carries its legacy balance over as an
+ * "opening_balance" entry against system:opening.
+ *
+ * reconcileLedger() (hourly cron) flags accounts whose cached balance — or
+ * legacy balance — disagrees with the sum of their journal lines.
+ *
+ * Amounts are whole base units of the currency: §GLITCH is an integer
+ * currency, SOL is booked in lamports (see CURRENCY_DECIMALS). token_balances
+ * is a REAL column, so for currencies with decimals it's a display mirror
+ * only — reconciliation doesn't compare against it.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { getDb } from "./db";
+
+export type LedgerOwnerType = "human" | "ai_persona" | "system";
+
+export type LedgerEntryKind =
+  | "reward"          // issuance → owner (bonuses, seeding, hatching)
+  | "spend"           // owner → sink (ad-free, feeding a bestie)
+  | "transfer"        // owner → owner
+  | "adjustment"      // admin award / deduction
+  | "opening_balance"; // legacy balance carried into the ledger
+
+export interface LedgerAccountRef {
+  ownerType: LedgerOwnerType;
+  ownerId: string;
+  /** Defaults to GLITCH */
+  currency?: string;
+}
+
+export interface LedgerLine {
+  account: LedgerAccountRef;
+  /** Positive = credit, negative = debit */
+  amount: number;
+  /** History text for the owner (coin_transactions.reason); defaults to the entry memo */
+  memo?: string;
+}
+
+export interface PostEntryInput {
+  /** Replaying the same key returns the original entry without moving money again */
+  idempotencyKey: string;
+  kind: LedgerEntryKind;
+  lines: LedgerLine[];
+  referenceId?: string | null;
+  memo?: string;
+}
+
+export type PostEntryResult =
+  | { entryId: string; duplicate: boolean; balances: Record<string, number> }
+  | { error: string; insufficient?: boolean };
+
+export interface ReconcileMismatch {
+  account_id: string;
+  owner_type: LedgerOwnerType;
+  owner_id: string;
+  currency: string;
+  cached_balance: number;
+  journal_balance: number;
+  legacy_balance: number | null;
+}
+
+export interface ReconcileResult {
+  accounts: number;
+  mismatches: ReconcileMismatch[];
+  flagged: number;
+  resolved: number;
+  /** Entries whose lines don't sum to zero — should never happen */
+  unbalancedEntries: string[];
+}
+
+export const GLITCH = "GLITCH";
+
+export const SYSTEM_ACCOUNTS = {
+  /** Mints coins for rewards and admin awards (runs negative) */
+  issuance: { ownerType: "system", ownerId: "issuance" },
+  /** Collects coins spent on in-app purchases */
+  sink: { ownerType: "system", ownerId: "sink" },
+  /** Counterpart of balances carried over from the legacy tables */
+  opening: { ownerType: "system", ownerId: "opening" },
+  /** Funds locked by resting exchange orders (see @/lib/trading/exchange) */
+  exchangeEscrow: { ownerType: "system", ownerId: "exchange_escrow" },
+} as const satisfies Record<string, LedgerAccountRef>;
+
+/** Decimal places between a currency's ledger unit and its token_balances unit */
+export const CURRENCY_DECIMALS: Record<string, number> = { SOL: 9 };
+
+const unitScale = (currency: string) => 10 ** (CURRENCY_DECIMALS[currency] ?? 0);
+
+/** Postgres check_violation — raised by ledger_accounts_no_overdraw */
+const CHECK_VIOLATION = "23514";
+
+export const humanAccount = (sessionId: string, currency = GLITCH): LedgerAccountRef =>
+  ({ ownerType: "human", ownerId: sessionId, currency });
+
+export const personaAccount = (personaId: string, currency = GLITCH): LedgerAccountRef =>
+  ({ ownerType: "ai_persona", ownerId: personaId, currency });
+
+/** Deterministic account id, so postings never need a lookup round trip. */
+export function accountId(ref: LedgerAccountRef): string {
+  return `${ref.currency ?? GLITCH}:${ref.ownerType}:${ref.ownerId}`;
+}
+
+/** Why an entry can't be posted, or null when it balances. */
+export function validateLines(lines: LedgerLine[]): string | null {
+  if (lines.length < 2) return "An entry needs at least two lines";
+  const currencies = new Set(lines.map(l => l.account.currency ?? GLITCH));
+  if (currencies.size > 1) return "An entry can only move one currency";
+  for (const line of lines) {
+    if (!line.account.ownerId) return "Every line needs an account owner";
+    if (!Number.isSafeInteger(line.amount) || line.amount === 0) return "Line amounts must be non-zero whole numbers";
+  }
+  const sum = lines.reduce((s, l) => s + l.amount, 0);
+  if (sum !== 0) return `Entry does not balance (off by ${sum})`;
+  return null;
+}
+
+// ── Accounts ────────────────────────────────────────────────────────────
+
+/** Current legacy balance, creating the legacy cache row if it's missing. */
+async function legacyBalance(ref: LedgerAccountRef): Promise<number> {
+  const sql = getDb();
+  const currency = ref.currency ?? GLITCH;
+
+  if (ref.ownerType === "human" && currency === GLITCH) {
+    await sql`
+      INSERT INTO glitch_coins (id, session_id, balance, lifetime_earned, updated_at)
+      VALUES (${uuidv4()}, ${ref.ownerId}, 0, 0, NOW())
+      ON CONFLICT (session_id) DO NOTHING
+    `;
+    const [row] = await sql`SELECT balance FROM glitch_coins WHERE session_id = ${ref.ownerId}`;
+    return Number(row?.balance ?? 0);
+  }
+  if (ref.ownerType === "ai_persona" && currency === GLITCH) {
+    await sql`
+      INSERT INTO ai_persona_coins (id, persona_id, balance, lifetime_earned, updated_at)
+      VALUES (${uuidv4()}, ${ref.ownerId}, 0, 0, NOW())
+      ON CONFLICT (persona_id) DO NOTHING
+    `;
+    const [row] = await sql`SELECT balance FROM ai_persona_coins WHERE persona_id = ${ref.ownerId}`;
+    return Number(row?.balance ?? 0);
+  }
+  await sql`
+    INSERT INTO token_balances (id, owner_type, owner_id, token, balance, lifetime_earned, updated_at)
+    VALUES (${uuidv4()}, ${ref.ownerType}, ${ref.ownerId}, ${currency}, 0, 0, NOW())
+    ON CONFLICT (owner_type, owner_id, token) DO NOTHING
+  `;
+  const [row] = await sql`
+    SELECT balance FROM token_balances
+    WHERE owner_type = ${ref.ownerType} AND owner_id = ${ref.ownerId} AND token = ${currency}
+  `;
+  return Math.round(Number(row?.balance ?? 0) * unitScale(currency));
+}
+
+async function openSystemAccount(ref: LedgerAccountRef): Promise<void> {
+  const sql = getDb();
+  await sql`
+    INSERT INTO ledger_accounts (id, owner_type, owner_id, currency, balance, allow_negative)
+    VALUES (${accountId(ref)}, 'system', ${ref.ownerId}, ${ref.currency ?? GLITCH}, 0, TRUE)
+    ON CONFLICT (owner_type, owner_id, currency) DO NOTHING
+  `;
+}
+
+/**
+ * Create an owner's account with its legacy balance as the opening entry —
+ * one statement, so a concurrent posting never sees the account half-open.
+ */
+async function openOwnerAccount(ref: LedgerAccountRef): Promise<void> {
+  const sql = getDb();
+  const currency = ref.currency ?? GLITCH;
+  const id = accountId(ref);
+  const openingId = accountId({ ...SYSTEM_ACCOUNTS.opening, currency });
+  await openSystemAccount({ ...SYSTEM_ACCOUNTS.opening, currency });
+  const opening = await legacyBalance(ref);
+
+  await sql`
+    WITH acct AS (
+      INSERT INTO ledger_accounts (id, owner_type, owner_id, currency, balance)
+      VALUES (${id}, ${ref.ownerType}, ${ref.ownerId}, ${currency}, ${opening})
+      ON CONFLICT (owner_type, owner_id, currency) DO NOTHING
+      RETURNING id, balance
+    ),
+    entry AS (
+      INSERT INTO ledger_entries (id, idempotency_key, kind, memo)
+      SELECT ${uuidv4()}, 'opening:' || acct.id, 'opening_balance', 'Balance carried over from the legacy tables'
+      FROM acct WHERE acct.balance <> 0
+      RETURNING id
+    ),
+    lines AS (
+      INSERT INTO ledger_lines (id, entry_id, account_id, amount)
+      SELECT ${uuidv4()}, entry.id, acct.id, acct.balance FROM entry, acct
+      UNION ALL
+      SELECT ${uuidv4()}, entry.id, ${openingId}, -acct.balance FROM entry, acct
+    )
+    UPDATE ledger_accounts SET balance = balance - (SELECT balance FROM acct), updated_at = NOW()
+    WHERE id = ${openingId} AND EXISTS (SELECT 1 FROM entry)
+  `;
+}
+
+async function ensureAccounts(refs: LedgerAccountRef[]): Promise<void> {
+  const sql = getDb();
+  const ids = [...new Set(refs.map(accountId))];
+  const rows = await sql`SELECT id FROM ledger_accounts WHERE id = ANY(${ids})` as unknown as { id: string }[];
+  const existing = new Set(rows.map(r => r.id));
+
+  const opened = new Set<string>();
+  for (const ref of refs) {
+    const id = accountId(ref);
+    if (existing.has(id) || opened.has(id)) continue;
+    opened.add(id);
+    if (ref.ownerType === "system") await openSystemAccount(ref);
+    else await openOwnerAccount(ref);
+  }
+}
+
+/** Open an account if it's new (carrying its legacy balance over) and return its balance. */
+export async function openAccount(ref: LedgerAccountRef): Promise<number> {
+  await ensureAccounts([ref]);
+  return getBalance(ref);
+}
+
+/** Cached balance of an account (0 if it has never been used). */
+export async function getBalance(ref: LedgerAccountRef): Promise<number> {
+  const sql = getDb();
+  const [row] = await sql`SELECT balance FROM ledger_accounts WHERE id = ${accountId(ref)}`;
+  return Number(row?.balance ?? 0);
+}
+
+// ── Posting ─────────────────────────────────────────────────────────────
+
+/**
+ * Post a balanced journal entry atomically. Debits that would take a
+ * non-system account below zero fail with `insufficient: true` and move
+ * nothing.
+ */
+export async function postEntry(input: PostEntryInput): Promise<PostEntryResult> {
+  const invalid = validateLines(input.lines);
+  if (invalid) return { error: invalid };
+  if (!input.idempotencyKey) return { error: "Missing idempotency key" };
+
+  const sql = getDb();
+  await ensureAccounts(input.lines.map(l => l.account));
+
+  const memo = input.memo ?? "";
+  const entryId = uuidv4();
+  const lineIds = input.lines.map(() => uuidv4());
+  const accountIds = input.lines.map(l => accountId(l.account));
+  const amounts = input.lines.map(l => l.amount);
+  const scale = unitScale(input.lines[0].account.currency ?? GLITCH);
+
+  // coin_transactions keeps the per-human history the wallet UI reads
+  const history = input.lines.filter(l => l.account.ownerType === "human" && (l.account.currency ?? GLITCH) === GLITCH);
+  const historyIds = history.map(() => uuidv4());
+  const historySessions = history.map(l => l.account.ownerId);
+  const historyAmounts = history.map(l => l.amount);
+  const historyMemos = history.map(l => l.memo ?? memo);
+
+  let row: { entry_id: string | null; balances: Record<string, number> } | undefined;
+  try {
+    [row] = await sql`
+      WITH new_entry AS (
+        INSERT INTO ledger_entries (id, idempotency_key, kind, reference_id, memo)
+        VALUES (${entryId}, ${input.idempotencyKey}, ${input.kind}, ${input.referenceId ?? null}, ${memo})
+        ON CONFLICT (idempotency_key) DO NOTHING
+        RETURNING id
+      ),
+      lines AS (
+        INSERT INTO ledger_lines (id, entry_id, account_id, amount)
+        SELECT l.id, new_entry.id, l.account_id, l.amount
+        FROM new_entry, unnest(${lineIds}::text[], ${accountIds}::text[], ${amounts}::bigint[]) AS l(id, account_id, amount)
+      ),
+      deltas AS (
+        SELECT account_id, SUM(amount)::bigint AS amount
+        FROM unnest(${accountIds}::text[], ${amounts}::bigint[]) AS l(account_id, amount)
+        GROUP BY account_id
+      ),
+      moved AS (
+        UPDATE ledger_accounts a SET balance = a.balance + d.amount, updated_at = NOW()
+        FROM deltas d
+        WHERE a.id = d.account_id AND EXISTS (SELECT 1 FROM new_entry)
+        RETURNING a.id, a.owner_type, a.owner_id, a.currency, a.balance, d.amount AS delta
+      ),
+      human_cache AS (
+        UPDATE glitch_coins g SET
+          balance = m.balance,
+          lifetime_earned = g.lifetime_earned + GREATEST(m.delta, 0),
+          updated_at = NOW()
+        FROM moved m
+        WHERE m.owner_type = 'human' AND m.currency = 'GLITCH' AND g.session_id = m.owner_id
+      ),
+      persona_cache AS (
+        UPDATE ai_persona_coins c SET
+          balance = m.balance,
+          lifetime_earned = c.lifetime_earned + GREATEST(m.delta, 0),
+          updated_at = NOW()
+        FROM moved m
+        WHERE m.owner_type = 'ai_persona' AND m.currency = 'GLITCH' AND c.persona_id = m.owner_id
+      ),
+      token_cache AS (
+        UPDATE token_balances t SET
+          balance = m.balance::float8 / ${scale},
+          lifetime_earned = t.lifetime_earned + GREATEST(m.delta, 0)::float8 / ${scale},
+          updated_at = NOW()
+        FROM moved m
+        WHERE m.owner_type <> 'system' AND t.owner_type = m.owner_type AND t.owner_id = m.owner_id AND t.token = m.currency
+      ),
+      history AS (
+        INSERT INTO coin_transactions (id, session_id, amount, reason, reference_id, created_at)
+        SELECT h.id, h.session_id, h.amount, h.reason, ${input.referenceId ?? null}, NOW()
+        FROM new_entry, unnest(${historyIds}::text[], ${historySessions}::text[], ${historyAmounts}::int[], ${historyMemos}::text[])
+          AS h(id, session_id, amount, reason)
+      )
+      SELECT
+        (SELECT id FROM new_entry) AS entry_id,
+        COALESCE((SELECT json_object_agg(id, balance) FROM moved), '{}'::json) AS balances
+    ` as unknown as { entry_id: string | null; balances: Record<string, number> }[];
+  } catch (err) {
+    if ((err as { code?: string }).code === CHECK_VIOLATION) {
+      return { error: "Insufficient balance", insufficient: true };
+    }
+    throw err;
+  }
+
+  if (row?.entry_id) {
+    const balances = Object.fromEntries(Object.entries(row.balances).map(([id, b]) => [id, Number(b)]));
+    return { entryId: row.entry_id, duplicate: false, balances };
+  }
+
+  // Idempotent replay — report the original entry and where balances stand now
+  const [original] = await sql`SELECT id FROM ledger_entries WHERE idempotency_key = ${input.idempotencyKey}`;
+  const current = await sql`SELECT id, balance FROM ledger_accounts WHERE id = ANY(${accountIds})` as unknown as { id: string; balance: number }[];
+  return {
+    entryId: original?.id as string,
+    duplicate: true,
+    balances: Object.fromEntries(current.map(r => [r.id, Number(r.balance)])),
+  };
+}
+
+interface MoveOptions {
+  idempotencyKey: string;
+  kind?: LedgerEntryKind;
+  referenceId?: string | null;
+  memo?: string;
+  /** History text for the receiving side of a transfer */
+  creditMemo?: string;
+}
+
+/** Move `amount` from one account to another in a single entry. */
+export function transfer(from: LedgerAccountRef, to: LedgerAccountRef, amount: number, opts: MoveOptions): Promise<PostEntryResult> {
+  return postEntry({
+    idempotencyKey: opts.idempotencyKey,
+    kind: opts.kind ?? "transfer",
+    referenceId: opts.referenceId,
+    memo: opts.memo,
+    lines: [
+      { account: from, amount: -amount },
+      { account: to, amount, memo: opts.creditMemo },
+    ],
+  });
+}
+
+/** Mint `amount` into an account from system:issuance. */
+export function credit(to: LedgerAccountRef, amount: number, opts: MoveOptions): Promise<PostEntryResult> {
+  const issuance = { ...SYSTEM_ACCOUNTS.issuance, currency: to.currency };
+  return transfer(issuance, to, amount, { kind: "reward", ...opts });
+}
+
+/** Spend `amount` from an account into system:sink. Fails rather than overdraw. */
+export function debit(from: LedgerAccountRef, amount: number, opts: MoveOptions): Promise<PostEntryResult> {
+  const sink = { ...SYSTEM_ACCOUNTS.sink, currency: from.currency };
+  return transfer(from, sink, amount, { kind: "spend", ...opts });
+}
+
+// ── Reconciliation ──────────────────────────────────────────────────────
+
+/**
+ * Compare every account's cached balance (and its legacy cache row) with the
+ * sum of its journal lines. Mismatches get an open ledger_reconciliation_flags
+ * row; flags for accounts that agree again are resolved.
+ */
+export async function reconcileLedger(): Promise<ReconcileResult> {
+  const sql = getDb();
+
+  const [{ count }] = await sql`SELECT COUNT(*)::int AS count FROM ledger_accounts` as unknown as { count: number }[];
+  const scaledCurrencies = Object.keys(CURRENCY_DECIMALS);
+
+  const rows = await sql`
+    WITH journal AS (
+      SELECT a.id, a.owner_type, a.owner_id, a.currency, a.balance AS cached_balance,
+             COALESCE(SUM(l.amount), 0)::bigint AS journal_balance
+      FROM ledger_accounts a
+      LEFT JOIN ledger_lines l ON l.account_id = a.id
+      GROUP BY a.id
+    ),
+    legacy AS (
+      SELECT j.*,
+        CASE
+          WHEN j.owner_type = 'human' AND j.currency = 'GLITCH'
+            THEN (SELECT balance::bigint FROM glitch_coins WHERE session_id = j.owner_id)
+          WHEN j.owner_type = 'ai_persona' AND j.currency = 'GLITCH'
+            THEN (SELECT balance::bigint FROM ai_persona_coins WHERE persona_id = j.owner_id)
+          WHEN j.owner_type <> 'system' AND NOT (j.currency = ANY(${scaledCurrencies}))
+            THEN (SELECT ROUND(balance)::bigint FROM token_balances WHERE owner_type = j.owner_type AND owner_id = j.owner_id AND token = j.currency)
+        END AS legacy_balance
+      FROM journal j
+    )
+    SELECT id AS account_id, owner_type, owner_id, currency, cached_balance, journal_balance, legacy_balance
+    FROM legacy
+    WHERE cached_balance <> journal_balance
+       OR (legacy_balance IS NOT NULL AND legacy_balance <> journal_balance)
+    ORDER BY id
+  ` as unknown as ReconcileMismatch[];
+
+  const mismatches = rows.map(r => ({
+    ...r,
+    cached_balance: Number(r.cached_balance),
+    journal_balance: Number(r.journal_balance),
+    legacy_balance: r.legacy_balance == null ? null : Number(r.legacy_balance),
+  }));
+
+  const unbalanced = await sql`
+    SELECT entry_id FROM ledger_lines GROUP BY entry_id HAVING SUM(amount) <> 0 LIMIT 100
+  ` as unknown as { entry_id: string }[];
+
+  const flaggedIds = mismatches.map(m => m.account_id);
+  if (mismatches.length > 0) {
+    await sql`
+      INSERT INTO ledger_reconciliation_flags (id, account_id, cached_balance, journal_balance, legacy_balance)
+      SELECT * FROM unnest(
+        ${mismatches.map(() => uuidv4())}::text[],
+        ${flaggedIds}::text[],
+        ${mismatches.map(m => m.cached_balance)}::bigint[],
+        ${mismatches.map(m => m.journal_balance)}::bigint[],
+        ${mismatches.map(m => m.legacy_balance)}::bigint[]
+      )
+      ON CONFLICT (account_id) WHERE resolved_at IS NULL DO UPDATE SET
+        cached_balance = EXCLUDED.cached_balance,
+        journal_balance = EXCLUDED.journal_balance,
+        legacy_balance = EXCLUDED.legacy_balance,
+        last_seen_at = NOW()
+    `;
+  }
+
+  const resolvedRows = await sql`
+    UPDATE ledger_reconciliation_flags SET resolved_at = NOW()
+    WHERE resolved_at IS NULL AND NOT (account_id = ANY(${flaggedIds}))
+    RETURNING id
+  `;
+
+  if (mismatches.length > 0 || unbalanced.length > 0) {
+    console.error(`[ledger] Reconciliation: ${mismatches.length} account(s) out of sync, ${unbalanced.length} unbalanced entr${unbalanced.length === 1 ? "y" : "ies"}`);
+  }
+
+  return {
+    accounts: Number(count),
+    mismatches,
+    flagged: mismatches.length,
+    resolved: resolvedRows.length,
+    unbalancedEntries: unbalanced.map(u => u.entry_id),
+  };
+}
+
+/** Open reconciliation flags, worst drift first. */
+export async function getOpenFlags(limit = 50) {
+  const sql = getDb();
+  return await sql`
+    SELECT f.account_id, a.owner_type, a.owner_id, a.currency,
+           f.cached_balance, f.journal_balance, f.legacy_balance, f.detected_at, f.last_seen_at
+    FROM ledger_reconciliation_flags f
+    JOIN ledger_accounts a ON a.id = f.account_id
+    WHERE f.resolved_at IS NULL
+    ORDER BY ABS(f.cached_balance - f.journal_balance) + ABS(COALESCE(f.legacy_balance, f.journal_balance) - f.journal_balance) DESC
+    LIMIT ${limit}
+  `;
+}
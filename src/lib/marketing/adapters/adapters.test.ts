@@ -0,0 +1,320 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { MarketingPlatform, PlatformAccount } from "../types";
+import { SOCIAL_ADAPTERS } from "./index";
+import { buildFacets } from "./bluesky";
+import { splitTitle } from "./reddit";
+
+interface Recorded {
+  method: string;
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+interface Canned {
+  status?: number;
+  json?: unknown;
+  raw?: Buffer;
+  contentType?: string;
+}
+
+// Local stand-in for every platform API: "METHOD /path" → canned response.
+const stub = {
+  requests: [] as Recorded[],
+  routes: {} as Record<string, Canned>,
+  base: "",
+};
+
+let server: Server;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (c: Buffer) => chunks.push(c));
+    req.on("end", () => {
+      const url = req.url || "/";
+      stub.requests.push({ method: req.method || "GET", url, headers: req.headers, body: Buffer.concat(chunks).toString("utf8") });
+      const canned = stub.routes[`${req.method} ${url.split("?")[0]}`];
+      if (!canned) {
+        res.writeHead(404, { "Content-Type": "text/plain" });
+        res.end("no stub route");
+        return;
+      }
+      if (canned.raw) {
+        res.writeHead(canned.status ?? 200, { "Content-Type": canned.contentType || "application/octet-stream" });
+        res.end(canned.raw);
+        return;
+      }
+      res.writeHead(canned.status ?? 200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(canned.json ?? {}));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  stub.base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  stub.requests = [];
+  stub.routes = {
+    "GET /media/cat.png": { raw: Buffer.from("fake-png-bytes"), contentType: "image/png" },
+  };
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+function account(platform: MarketingPlatform, fields: Partial<PlatformAccount>): PlatformAccount {
+  return {
+    id: `acct-${platform}`,
+    platform,
+    account_name: "aiglitch",
+    account_id: "",
+    account_url: "",
+    access_token: "token-123",
+    refresh_token: "",
+    token_expires_at: null,
+    extra_config: "{}",
+    is_active: true,
+    last_posted_at: null,
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z",
+    ...fields,
+  };
+}
+
+const sent = (method: string, path: string) => stub.requests.filter(r => r.method === method && r.url.split("?")[0] === path);
+
+describe("buildFacets", () => {
+  it("indexes links and hashtags by UTF-8 byte offset", () => {
+    const text = "🤖 wow https://aiglitch.app/p/1. #AIGlitch";
+    const facets = buildFacets(text);
+    expect(facets).toHaveLength(2);
+
+    const bytes = Buffer.from(text, "utf8");
+    const slice = (f: (typeof facets)[number]) => bytes.subarray(f.index.byteStart, f.index.byteEnd).toString("utf8");
+    expect(slice(facets[0])).toBe("https://aiglitch.app/p/1");
+    expect(facets[0].features[0]).toEqual({ $type: "app.bsky.richtext.facet#link", uri: "https://aiglitch.app/p/1" });
+    expect(slice(facets[1])).toBe("#AIGlitch");
+    expect(facets[1].features[0]).toEqual({ $type: "app.bsky.richtext.facet#tag", tag: "AIGlitch" });
+  });
+
+  it("links a bare aiglitch.app mention", () => {
+    const [facet] = buildFacets("go to aiglitch.app now");
+    expect(facet.features[0]).toMatchObject({ uri: "https://aiglitch.app" });
+  });
+});
+
+describe("splitTitle", () => {
+  it("uses the first non-hashtag line as the title", () => {
+    expect(splitTitle("#AIGlitch\nAn AI wrote a poem #AI\n\nHere it is.")).toEqual({
+      title: "An AI wrote a poem",
+      body: "Here it is.",
+    });
+  });
+
+  it("caps titles at 300 characters", () => {
+    const { title } = splitTitle("x".repeat(400));
+    expect(title).toHaveLength(300);
+    expect(title.endsWith("...")).toBe(true);
+  });
+});
+
+describe("bluesky adapter", () => {
+  const bsky = (handle = "aiglitch.bsky.social") => account("bluesky", {
+    account_id: handle,
+    access_token: "app-pass",
+    extra_config: JSON.stringify({ service: `${stub.base}/` }),
+  });
+
+  beforeEach(() => {
+    stub.routes["POST /xrpc/com.atproto.server.createSession"] = {
+      json: { accessJwt: "jwt-1", did: "did:plc:abc", handle: "aiglitch.bsky.social" },
+    };
+  });
+
+  it("uploads the image as a blob and creates a post record with facets", async () => {
+    stub.routes["POST /xrpc/com.atproto.repo.uploadBlob"] = { json: { blob: { ref: { $link: "bafy" }, mimeType: "image/png", size: 14 } } };
+    stub.routes["POST /xrpc/com.atproto.repo.createRecord"] = { json: { uri: "at://did:plc:abc/app.bsky.feed.post/3kxyz", cid: "c1" } };
+
+    const result = await SOCIAL_ADAPTERS.bluesky!.post(bsky(), "New drop on aiglitch.app #AIGlitch", `${stub.base}/media/cat.png`);
+
+    expect(result).toEqual({
+      success: true,
+      platformPostId: "at://did:plc:abc/app.bsky.feed.post/3kxyz",
+      platformUrl: "https://bsky.app/profile/aiglitch.bsky.social/post/3kxyz",
+    });
+    const upload = sent("POST", "/xrpc/com.atproto.repo.uploadBlob")[0];
+    expect(upload.headers.authorization).toBe("Bearer jwt-1");
+    expect(upload.headers["content-type"]).toBe("image/png");
+
+    const body = JSON.parse(sent("POST", "/xrpc/com.atproto.repo.createRecord")[0].body);
+    expect(body.repo).toBe("did:plc:abc");
+    expect(body.record.embed.$type).toBe("app.bsky.embed.images");
+    expect(body.record.facets).toHaveLength(2);
+  });
+
+  it("reuses the session and reads metrics from getPosts", async () => {
+    stub.routes["GET /xrpc/app.bsky.feed.getPosts"] = {
+      json: { posts: [{ likeCount: 7, repostCount: 2, quoteCount: 1, replyCount: 3 }] },
+    };
+
+    const acct = bsky("metrics.bsky.social");
+    expect(await SOCIAL_ADAPTERS.bluesky!.verify(acct)).toEqual({ success: true, username: "aiglitch.bsky.social" });
+    const metrics = await SOCIAL_ADAPTERS.bluesky!.fetchMetrics(acct, "at://did:plc:abc/app.bsky.feed.post/3kxyz");
+
+    expect(metrics).toEqual({ likes: 7, shares: 3, comments: 3 });
+    expect(sent("POST", "/xrpc/com.atproto.server.createSession")).toHaveLength(1);
+    expect(sent("GET", "/xrpc/app.bsky.feed.getPosts")[0].url).toContain(encodeURIComponent("at://did:plc:abc"));
+  });
+});
+
+describe("threads adapter", () => {
+  const threads = () => account("threads", {
+    account_id: "1789",
+    extra_config: JSON.stringify({ api_base: stub.base }),
+  });
+
+  it("creates a container, waits for it and publishes", async () => {
+    stub.routes["POST /v1.0/1789/threads"] = { json: { id: "c-1" } };
+    stub.routes["GET /v1.0/c-1"] = { json: { status: "FINISHED" } };
+    stub.routes["POST /v1.0/1789/threads_publish"] = { json: { id: "t-9" } };
+    stub.routes["GET /v1.0/t-9"] = { json: { permalink: "https://www.threads.net/@aiglitch/post/abc" } };
+
+    const result = await SOCIAL_ADAPTERS.threads!.post(threads(), "hello threads", `${stub.base}/media/cat.png`);
+
+    expect(result).toEqual({ success: true, platformPostId: "t-9", platformUrl: "https://www.threads.net/@aiglitch/post/abc" });
+    const create = new URLSearchParams(sent("POST", "/v1.0/1789/threads")[0].body);
+    expect(create.get("media_type")).toBe("IMAGE");
+    expect(create.get("image_url")).toBe(`${stub.base}/media/cat.png`);
+    expect(new URLSearchParams(sent("POST", "/v1.0/1789/threads_publish")[0].body).get("creation_id")).toBe("c-1");
+  });
+
+  it("fails when the container errors", async () => {
+    stub.routes["POST /v1.0/1789/threads"] = { json: { id: "c-2" } };
+    stub.routes["GET /v1.0/c-2"] = { json: { status: "ERROR", error_message: "bad media" } };
+
+    const result = await SOCIAL_ADAPTERS.threads!.post(threads(), "hello", `${stub.base}/media/cat.mp4`);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("bad media");
+    expect(sent("POST", "/v1.0/1789/threads_publish")).toHaveLength(0);
+  });
+
+  it("verifies via /me and maps insights to metrics", async () => {
+    stub.routes["GET /v1.0/me"] = { json: { id: "1789", username: "aiglitch" } };
+    stub.routes["GET /v1.0/t-9/insights"] = {
+      json: { data: [
+        { name: "views", values: [{ value: 120 }] },
+        { name: "likes", values: [{ value: 9 }] },
+        { name: "replies", values: [{ value: 2 }] },
+        { name: "reposts", values: [{ value: 1 }] },
+        { name: "quotes", values: [{ value: 1 }] },
+      ] },
+    };
+
+    expect(await SOCIAL_ADAPTERS.threads!.verify(threads())).toEqual({ success: true, username: "aiglitch" });
+    expect(await SOCIAL_ADAPTERS.threads!.fetchMetrics(threads(), "t-9")).toEqual({
+      views: 120, impressions: 120, likes: 9, comments: 2, shares: 2,
+    });
+  });
+});
+
+describe("mastodon adapter", () => {
+  const masto = () => account("mastodon", { extra_config: JSON.stringify({ instance: stub.base }) });
+
+  it("uploads media and posts a status with an idempotency key", async () => {
+    stub.routes["POST /api/v2/media"] = { json: { id: "m-1", url: `${stub.base}/files/m-1.png` } };
+    stub.routes["POST /api/v1/statuses"] = { json: { id: "s-1", url: "https://mastodon.example/@aiglitch/s-1" } };
+
+    const result = await SOCIAL_ADAPTERS.mastodon!.post(masto(), "toot #AIGlitch", `${stub.base}/media/cat.png`);
+
+    expect(result).toEqual({ success: true, platformPostId: "s-1", platformUrl: "https://mastodon.example/@aiglitch/s-1" });
+    expect(sent("POST", "/api/v2/media")[0].headers["content-type"]).toContain("multipart/form-data");
+    const status = sent("POST", "/api/v1/statuses")[0];
+    expect(status.headers["idempotency-key"]).toMatch(/^[0-9a-f]{64}$/);
+    expect(JSON.parse(status.body)).toMatchObject({ status: "toot #AIGlitch", media_ids: ["m-1"], visibility: "public" });
+  });
+
+  it("surfaces API errors", async () => {
+    stub.routes["POST /api/v1/statuses"] = { status: 422, json: { error: "Validation failed: Text can't be blank" } };
+
+    const result = await SOCIAL_ADAPTERS.mastodon!.post(masto(), "");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Mastodon status 422");
+  });
+
+  it("verifies credentials and reads status counters", async () => {
+    stub.routes["GET /api/v1/accounts/verify_credentials"] = { json: { acct: "aiglitch" } };
+    stub.routes["GET /api/v1/statuses/s-1"] = { json: { favourites_count: 4, reblogs_count: 2, replies_count: 1 } };
+
+    expect(await SOCIAL_ADAPTERS.mastodon!.verify(masto())).toEqual({ success: true, username: "aiglitch" });
+    expect(await SOCIAL_ADAPTERS.mastodon!.fetchMetrics(masto(), "s-1")).toEqual({ likes: 4, shares: 2, comments: 1 });
+  });
+
+  it("needs an instance URL", async () => {
+    const result = await SOCIAL_ADAPTERS.mastodon!.post(account("mastodon", {}), "toot");
+    expect(result).toEqual({ success: false, error: "No Mastodon instance URL (account_url or extra_config.instance)" });
+  });
+});
+
+describe("reddit adapter", () => {
+  const reddit = () => account("reddit", {
+    account_name: "aiglitch_bot",
+    access_token: "",
+    refresh_token: "refresh-1",
+    extra_config: JSON.stringify({ client_id: "cid", client_secret: "secret", subreddit: "aiglitch", auth_base: stub.base, api_base: stub.base }),
+  });
+
+  beforeEach(() => {
+    stub.routes["POST /api/v1/access_token"] = { json: { access_token: "bearer-1", expires_in: 3600 } };
+  });
+
+  it("exchanges the refresh token and submits a self post", async () => {
+    stub.routes["POST /api/submit"] = {
+      json: { json: { errors: [], data: { id: "abc", name: "t3_abc", url: "https://www.reddit.com/r/aiglitch/comments/abc/" } } },
+    };
+
+    const result = await SOCIAL_ADAPTERS.reddit!.post(reddit(), "An AI wrote this #AI\n\nThe body text.");
+
+    expect(result).toEqual({ success: true, platformPostId: "t3_abc", platformUrl: "https://www.reddit.com/r/aiglitch/comments/abc/" });
+    const auth = sent("POST", "/api/v1/access_token")[0];
+    expect(auth.headers.authorization).toBe(`Basic ${Buffer.from("cid:secret").toString("base64")}`);
+    expect(new URLSearchParams(auth.body).get("refresh_token")).toBe("refresh-1");
+
+    const submit = sent("POST", "/api/submit")[0];
+    expect(submit.headers.authorization).toBe("Bearer bearer-1");
+    expect(Object.fromEntries(new URLSearchParams(submit.body))).toMatchObject({
+      sr: "aiglitch", kind: "self", title: "An AI wrote this", text: "The body text.",
+    });
+  });
+
+  it("reports submit rejections", async () => {
+    stub.routes["POST /api/submit"] = { json: { json: { errors: [["RATELIMIT", "you are doing that too much", "ratelimit"]] } } };
+
+    const result = await SOCIAL_ADAPTERS.reddit!.post(reddit(), "title", `${stub.base}/media/cat.png`);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("RATELIMIT");
+    expect(new URLSearchParams(sent("POST", "/api/submit")[0].body).get("kind")).toBe("link");
+  });
+
+  it("verifies via /api/v1/me and reads metrics from /api/info", async () => {
+    stub.routes["GET /api/v1/me"] = { json: { name: "aiglitch_bot" } };
+    stub.routes["GET /api/info"] = { json: { data: { children: [{ data: { ups: 42, num_comments: 5, num_crossposts: 1, view_count: null } }] } } };
+
+    expect(await SOCIAL_ADAPTERS.reddit!.verify(reddit())).toEqual({ success: true, username: "aiglitch_bot" });
+    expect(await SOCIAL_ADAPTERS.reddit!.fetchMetrics(reddit(), "t3_abc")).toEqual({ likes: 42, comments: 5, shares: 1 });
+    expect(sent("GET", "/api/info")[0].url).toContain("id=t3_abc");
+  });
+
+  it("needs client credentials", async () => {
+    const result = await SOCIAL_ADAPTERS.reddit!.verify(account("reddit", {}));
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("client_id");
+  });
+});
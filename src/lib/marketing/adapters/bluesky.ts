@@ -0,0 +1,194 @@
+/**
+ * Bluesky Adapter (AT Protocol)
+ * ==============================
+ * Auth: app password → com.atproto.server.createSession (cached ~1h — createSession is rate limited)
+ * Post: com.atproto.repo.createRecord with an app.bsky.feed.post record
+ *
+ * Account fields:
+ *   account_id / account_name → handle (e.g. aiglitch.bsky.social)
+ *   access_token              → app password (env BLUESKY_APP_PASSWORD overrides)
+ *   extra_config.service      → PDS URL (default https://bsky.social)
+ *
+ * Bluesky doesn't auto-link, so links and hashtags are sent as facets.
+ * Images are uploaded as blobs (1MB limit — bigger ones are recompressed);
+ * videos go out as a link card pointing at the media URL.
+ */
+
+import sharp from "sharp";
+import type { PlatformAccount, PostMetrics, PostResult } from "../types";
+import { accountConfig, apiBase, downloadMedia, responseError, type SocialAdapter, type TokenCheck } from "./shared";
+
+const DEFAULT_SERVICE = "https://bsky.social";
+const BLOB_MAX_BYTES = 976_560; // Bluesky's image blob limit
+const SESSION_TTL_MS = 60 * 60 * 1000; // access JWTs last ~2h
+
+interface Session {
+  service: string;
+  accessJwt: string;
+  did: string;
+  handle: string;
+}
+
+export interface Facet {
+  index: { byteStart: number; byteEnd: number };
+  features: Array<{ $type: "app.bsky.richtext.facet#link"; uri: string } | { $type: "app.bsky.richtext.facet#tag"; tag: string }>;
+}
+
+/** Link and hashtag facets for `text`, indexed by UTF-8 byte offset as the protocol requires. */
+export function buildFacets(text: string): Facet[] {
+  const facets: Facet[] = [];
+  const byteAt = (i: number) => Buffer.byteLength(text.slice(0, i), "utf8");
+
+  for (const m of text.matchAll(/https?:\/\/[^\s]+|\baiglitch\.app\b/g)) {
+    const raw = m[0].replace(/[.,!?)\]]+$/, "");
+    const start = m.index!;
+    facets.push({
+      index: { byteStart: byteAt(start), byteEnd: byteAt(start + raw.length) },
+      features: [{ $type: "app.bsky.richtext.facet#link", uri: raw.startsWith("http") ? raw : `https://${raw}` }],
+    });
+  }
+
+  for (const m of text.matchAll(/(^|\s)#([\p{L}\p{N}_]+)/gu)) {
+    const start = m.index! + m[1].length;
+    facets.push({
+      index: { byteStart: byteAt(start), byteEnd: byteAt(start + 1 + m[2].length) },
+      features: [{ $type: "app.bsky.richtext.facet#tag", tag: m[2] }],
+    });
+  }
+
+  return facets.sort((a, b) => a.index.byteStart - b.index.byteStart);
+}
+
+const sessions = new Map<string, { session: Session; expiresAt: number }>();
+
+async function createSession(account: PlatformAccount): Promise<Session | { error: string }> {
+  const service = apiBase(accountConfig(account), "service", DEFAULT_SERVICE);
+  const identifier = account.account_id || account.account_name;
+  if (!identifier || !account.access_token) {
+    return { error: "Bluesky needs a handle (account_id) and an app password (access_token / BLUESKY_APP_PASSWORD)" };
+  }
+  const cacheKey = `${service}|${identifier}|${account.access_token}`;
+  const cached = sessions.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return cached.session;
+
+  const res = await fetch(`${service}/xrpc/com.atproto.server.createSession`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ identifier, password: account.access_token }),
+  });
+  if (!res.ok) return { error: await responseError("Bluesky createSession", res) };
+  const data = await res.json() as { accessJwt: string; did: string; handle: string };
+  const session = { service, accessJwt: data.accessJwt, did: data.did, handle: data.handle };
+  sessions.set(cacheKey, { session, expiresAt: Date.now() + SESSION_TTL_MS });
+  return session;
+}
+
+async function uploadImage(session: Session, buffer: Buffer, contentType: string): Promise<{ blob: unknown } | { error: string }> {
+  let body = buffer;
+  let type = contentType;
+  if (body.byteLength > BLOB_MAX_BYTES) {
+    let quality = 80;
+    body = await sharp(buffer).resize(2000, 2000, { fit: "inside" }).jpeg({ quality }).toBuffer();
+    while (body.byteLength > BLOB_MAX_BYTES && quality > 35) {
+      quality -= 15;
+      body = await sharp(buffer).resize(2000, 2000, { fit: "inside" }).jpeg({ quality }).toBuffer();
+    }
+    type = "image/jpeg";
+  }
+
+  const res = await fetch(`${session.service}/xrpc/com.atproto.repo.uploadBlob`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${session.accessJwt}`, "Content-Type": type },
+    body: new Uint8Array(body),
+  });
+  if (!res.ok) return { error: await responseError("Bluesky uploadBlob", res) };
+  return await res.json() as { blob: unknown };
+}
+
+async function post(account: PlatformAccount, text: string, mediaUrl?: string | null): Promise<PostResult> {
+  try {
+    const session = await createSession(account);
+    if ("error" in session) return { success: false, error: session.error };
+
+    const record: Record<string, unknown> = {
+      $type: "app.bsky.feed.post",
+      text,
+      createdAt: new Date().toISOString(),
+      langs: ["en"],
+    };
+    const facets = buildFacets(text);
+    if (facets.length > 0) record.facets = facets;
+
+    if (mediaUrl) {
+      const media = await downloadMedia(mediaUrl);
+      if ("error" in media) return { success: false, error: media.error };
+      if (media.isVideo) {
+        record.embed = {
+          $type: "app.bsky.embed.external",
+          external: { uri: mediaUrl, title: "AIG!itch", description: text.slice(0, 200) },
+        };
+      } else {
+        const upload = await uploadImage(session, media.buffer, media.contentType);
+        if ("error" in upload) return { success: false, error: upload.error };
+        record.embed = { $type: "app.bsky.embed.images", images: [{ alt: text.slice(0, 300), image: upload.blob }] };
+      }
+    }
+
+    const res = await fetch(`${session.service}/xrpc/com.atproto.repo.createRecord`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${session.accessJwt}`, "Content-Type": "application/json" },
+      body: JSON.stringify({ repo: session.did, collection: "app.bsky.feed.post", record }),
+    });
+    if (!res.ok) return { success: false, error: await responseError("Bluesky createRecord", res) };
+
+    const data = await res.json() as { uri: string; cid: string };
+    const rkey = data.uri.split("/").pop();
+    return {
+      success: true,
+      platformPostId: data.uri, // at:// URI — needed to read metrics back
+      platformUrl: `https://bsky.app/profile/${session.handle}/post/${rkey}`,
+    };
+  } catch (err) {
+    return { success: false, error: `Bluesky error: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+async function verify(account: PlatformAccount): Promise<TokenCheck> {
+  try {
+    const session = await createSession(account);
+    if ("error" in session) return { success: false, error: session.error };
+    return { success: true, username: session.handle };
+  } catch (err) {
+    return { success: false, error: `Bluesky fetch error: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+async function fetchMetrics(account: PlatformAccount, platformPostId: string): Promise<PostMetrics> {
+  try {
+    const session = await createSession(account);
+    if ("error" in session) {
+      console.error(`[Bluesky metrics] ${session.error}`);
+      return {};
+    }
+    const res = await fetch(`${session.service}/xrpc/app.bsky.feed.getPosts?uris=${encodeURIComponent(platformPostId)}`, {
+      headers: { Authorization: `Bearer ${session.accessJwt}` },
+    });
+    if (!res.ok) {
+      console.error(`[Bluesky metrics] ${await responseError("getPosts", res)}`);
+      return {};
+    }
+    const data = await res.json() as { posts?: Array<{ likeCount?: number; repostCount?: number; replyCount?: number; quoteCount?: number }> };
+    const p = data.posts?.[0];
+    if (!p) return {};
+    return {
+      likes: p.likeCount ?? 0,
+      shares: (p.repostCount ?? 0) + (p.quoteCount ?? 0),
+      comments: p.replyCount ?? 0,
+    };
+  } catch (err) {
+    console.error("[Bluesky metrics error]", err instanceof Error ? err.message : err);
+    return {};
+  }
+}
+
+export const blueskyAdapter: SocialAdapter = { post, verify, fetchMetrics };
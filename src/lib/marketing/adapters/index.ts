@@ -0,0 +1,22 @@
+/**
+ * Social Adapters — registry
+ * ===========================
+ * Platforms served by a SocialAdapter rather than a hand-written connector
+ * in platforms.ts / metrics-collector.ts.
+ */
+
+import type { MarketingPlatform } from "../types";
+import type { SocialAdapter } from "./shared";
+import { blueskyAdapter } from "./bluesky";
+import { threadsAdapter } from "./threads";
+import { mastodonAdapter } from "./mastodon";
+import { redditAdapter } from "./reddit";
+
+export type { SocialAdapter, TokenCheck } from "./shared";
+
+export const SOCIAL_ADAPTERS: Partial<Record<MarketingPlatform, SocialAdapter>> = {
+  bluesky: blueskyAdapter,
+  threads: threadsAdapter,
+  mastodon: mastodonAdapter,
+  reddit: redditAdapter,
+};
@@ -0,0 +1,126 @@
+/**
+ * Mastodon Adapter
+ * =================
+ * POST /api/v2/media     → upload attachment (async; poll until it has a URL)
+ * POST /api/v1/statuses  → publish, with an Idempotency-Key so a retried
+ *                          cycle can't double-post the same text
+ *
+ * Account fields:
+ *   account_url / extra_config.instance → instance URL (e.g. https://mastodon.social)
+ *   access_token → app token with write:statuses + write:media
+ *                  (env MASTODON_ACCESS_TOKEN overrides)
+ */
+
+import { createHash } from "crypto";
+import type { PlatformAccount, PostMetrics, PostResult } from "../types";
+import { accountConfig, downloadMedia, responseError, sleep, type SocialAdapter, type TokenCheck } from "./shared";
+
+const MEDIA_POLL_MS = 2000;
+const MAX_MEDIA_POLLS = 15;
+
+function instanceUrl(account: PlatformAccount): string | null {
+  const configured = accountConfig(account).instance || account.account_url;
+  if (!configured) return null;
+  try {
+    return new URL(configured).origin;
+  } catch {
+    return null;
+  }
+}
+
+async function uploadMedia(base: string, token: string, mediaUrl: string): Promise<{ id: string } | { error: string }> {
+  const media = await downloadMedia(mediaUrl);
+  if ("error" in media) return media;
+
+  const form = new FormData();
+  form.append("file", new Blob([new Uint8Array(media.buffer)], { type: media.contentType }), mediaUrl.split("/").pop()?.split("?")[0] || "media");
+  const res = await fetch(`${base}/api/v2/media`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${token}` },
+    body: form,
+  });
+  if (!res.ok) return { error: await responseError("Mastodon media upload", res) };
+  const attachment = await res.json() as { id: string; url: string | null };
+
+  // 202 = still processing (video); the status can't reference it until url is set
+  let url = attachment.url;
+  for (let attempt = 0; !url && attempt < MAX_MEDIA_POLLS; attempt++) {
+    await sleep(MEDIA_POLL_MS);
+    const poll = await fetch(`${base}/api/v1/media/${attachment.id}`, { headers: { Authorization: `Bearer ${token}` } });
+    if (poll.ok) url = (await poll.json() as { url: string | null }).url;
+  }
+  if (!url) return { error: "Mastodon media still processing after 30 seconds" };
+  return { id: attachment.id };
+}
+
+async function post(account: PlatformAccount, text: string, mediaUrl?: string | null): Promise<PostResult> {
+  try {
+    const base = instanceUrl(account);
+    if (!base) return { success: false, error: "No Mastodon instance URL (account_url or extra_config.instance)" };
+    if (!account.access_token) return { success: false, error: "No Mastodon access token (DB or MASTODON_ACCESS_TOKEN)" };
+
+    const mediaIds: string[] = [];
+    if (mediaUrl) {
+      const upload = await uploadMedia(base, account.access_token, mediaUrl);
+      if ("error" in upload) return { success: false, error: upload.error };
+      mediaIds.push(upload.id);
+    }
+
+    const res = await fetch(`${base}/api/v1/statuses`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${account.access_token}`,
+        "Content-Type": "application/json",
+        "Idempotency-Key": createHash("sha256").update(`${text}|${mediaUrl || ""}`).digest("hex"),
+      },
+      body: JSON.stringify({ status: text, media_ids: mediaIds, visibility: "public", language: "en" }),
+    });
+    if (!res.ok) return { success: false, error: await responseError("Mastodon status", res) };
+
+    const status = await res.json() as { id: string; url?: string };
+    return { success: true, platformPostId: status.id, platformUrl: status.url };
+  } catch (err) {
+    return { success: false, error: `Mastodon error: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+async function verify(account: PlatformAccount): Promise<TokenCheck> {
+  const base = instanceUrl(account);
+  if (!base) return { success: false, error: "No Mastodon instance URL (account_url or extra_config.instance)" };
+  if (!account.access_token) return { success: false, error: "No Mastodon access token (DB or MASTODON_ACCESS_TOKEN)" };
+  try {
+    const res = await fetch(`${base}/api/v1/accounts/verify_credentials`, {
+      headers: { Authorization: `Bearer ${account.access_token}` },
+    });
+    if (!res.ok) return { success: false, error: await responseError("Mastodon API", res) };
+    const data = await res.json() as { acct?: string; username?: string };
+    return { success: true, username: data.acct || data.username };
+  } catch (err) {
+    return { success: false, error: `Mastodon fetch error: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+async function fetchMetrics(account: PlatformAccount, platformPostId: string): Promise<PostMetrics> {
+  const base = instanceUrl(account);
+  if (!base) return {};
+  try {
+    const res = await fetch(`${base}/api/v1/statuses/${platformPostId}`, {
+      headers: { Authorization: `Bearer ${account.access_token}` },
+    });
+    if (!res.ok) {
+      console.error(`[Mastodon metrics] ${await responseError("status", res)}`);
+      return {};
+    }
+    const data = await res.json() as { favourites_count?: number; reblogs_count?: number; replies_count?: number };
+    return {
+      likes: data.favourites_count ?? 0,
+      shares: data.reblogs_count ?? 0,
+      comments: data.replies_count ?? 0,
+    };
+  } catch (err) {
+    console.error("[Mastodon metrics error]", err instanceof Error ? err.message : err);
+    return {};
+  }
+}
+
+export const mastodonAdapter: SocialAdapter = { post, verify, fetchMetrics };
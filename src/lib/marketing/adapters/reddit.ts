@@ -0,0 +1,164 @@
+/**
+ * Reddit Adapter
+ * ===============
+ * OAuth "script"/installed app with a permanent refresh token:
+ *   POST {auth}/api/v1/access_token  (grant_type=refresh_token, Basic client auth; cached until expiry)
+ *   POST {api}/api/submit            → link post for media, self post otherwise
+ *
+ * The adapted text's first line becomes the title (300 chars max, hashtags
+ * stripped); the rest is the self-post body.
+ *
+ * Account fields:
+ *   account_name                  → Reddit username (used in the User-Agent)
+ *   refresh_token                 → falls back to access_token (env REDDIT_REFRESH_TOKEN)
+ *   extra_config.client_id / client_secret
+ *   extra_config.subreddit        → target sub (default: the user's profile, u_<name>)
+ *   extra_config.auth_base / api_base → default https://www.reddit.com / https://oauth.reddit.com
+ */
+
+import type { PlatformAccount, PostMetrics, PostResult } from "../types";
+import { accountConfig, apiBase, responseError, type SocialAdapter, type TokenCheck } from "./shared";
+
+const DEFAULT_AUTH_BASE = "https://www.reddit.com";
+const DEFAULT_API_BASE = "https://oauth.reddit.com";
+const TITLE_MAX = 300;
+
+/** Split adapted copy into a Reddit title (first line, no hashtags) and body. */
+export function splitTitle(text: string): { title: string; body: string } {
+  const lines = text.split("\n");
+  const first = lines.findIndex(l => l.replace(/#\w+/g, "").trim().length > 0);
+  if (first === -1) return { title: "AIG!itch", body: text };
+  let title = lines[first].replace(/#\w+/g, "").replace(/\s+/g, " ").trim();
+  if (title.length > TITLE_MAX) title = title.slice(0, TITLE_MAX - 3) + "...";
+  return { title, body: lines.slice(first + 1).join("\n").trim() };
+}
+
+interface RedditSession {
+  api: string;
+  token: string;
+  userAgent: string;
+  config: Record<string, string>;
+}
+
+const sessions = new Map<string, { session: RedditSession; expiresAt: number }>();
+
+async function authenticate(account: PlatformAccount): Promise<RedditSession | { error: string }> {
+  const config = accountConfig(account);
+  const refreshToken = account.refresh_token || account.access_token;
+  if (!config.client_id || !config.client_secret || !refreshToken) {
+    return { error: "Reddit needs extra_config.client_id, extra_config.client_secret and a refresh token" };
+  }
+  const userAgent = config.user_agent || `web:app.aiglitch.marketing:v1.0 (by /u/${account.account_name || "aiglitch"})`;
+  const authBase = apiBase(config, "auth_base", DEFAULT_AUTH_BASE);
+  const cacheKey = `${authBase}|${config.client_id}|${refreshToken}`;
+  const cached = sessions.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return cached.session;
+
+  const res = await fetch(`${authBase}/api/v1/access_token`, {
+    method: "POST",
+    headers: {
+      Authorization: `Basic ${Buffer.from(`${config.client_id}:${config.client_secret}`).toString("base64")}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+      "User-Agent": userAgent,
+    },
+    body: new URLSearchParams({ grant_type: "refresh_token", refresh_token: refreshToken }).toString(),
+  });
+  if (!res.ok) return { error: await responseError("Reddit token refresh", res) };
+  const data = await res.json() as { access_token?: string; expires_in?: number; error?: string };
+  if (!data.access_token) return { error: `Reddit token refresh failed: ${data.error || "no access_token"}` };
+
+  const session = { api: apiBase(config, "api_base", DEFAULT_API_BASE), token: data.access_token, userAgent, config };
+  // Refresh a minute early so a token never expires mid-cycle
+  sessions.set(cacheKey, { session, expiresAt: Date.now() + ((data.expires_in ?? 3600) - 60) * 1000 });
+  return session;
+}
+
+async function post(account: PlatformAccount, text: string, mediaUrl?: string | null): Promise<PostResult> {
+  try {
+    const session = await authenticate(account);
+    if ("error" in session) return { success: false, error: session.error };
+
+    const { title, body } = splitTitle(text);
+    const form = new URLSearchParams({
+      sr: session.config.subreddit || `u_${account.account_name}`,
+      title,
+      api_type: "json",
+      resubmit: "true",
+    });
+    if (mediaUrl) {
+      form.set("kind", "link");
+      form.set("url", mediaUrl);
+    } else {
+      form.set("kind", "self");
+      form.set("text", body);
+    }
+
+    const res = await fetch(`${session.api}/api/submit`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${session.token}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+        "User-Agent": session.userAgent,
+      },
+      body: form.toString(),
+    });
+    if (!res.ok) return { success: false, error: await responseError("Reddit submit", res) };
+
+    const data = await res.json() as { json?: { errors?: string[][]; data?: { id: string; name: string; url: string } } };
+    const errors = data.json?.errors ?? [];
+    if (errors.length > 0 || !data.json?.data) {
+      return { success: false, error: `Reddit submit rejected: ${errors.map(e => e.join(" ")).join("; ") || "no post returned"}` };
+    }
+    return { success: true, platformPostId: data.json.data.name, platformUrl: data.json.data.url };
+  } catch (err) {
+    return { success: false, error: `Reddit error: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+async function verify(account: PlatformAccount): Promise<TokenCheck> {
+  try {
+    const session = await authenticate(account);
+    if ("error" in session) return { success: false, error: session.error };
+    const res = await fetch(`${session.api}/api/v1/me`, {
+      headers: { Authorization: `Bearer ${session.token}`, "User-Agent": session.userAgent },
+    });
+    if (!res.ok) return { success: false, error: await responseError("Reddit API", res) };
+    const data = await res.json() as { name?: string };
+    return { success: true, username: data.name };
+  } catch (err) {
+    return { success: false, error: `Reddit fetch error: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+async function fetchMetrics(account: PlatformAccount, platformPostId: string): Promise<PostMetrics> {
+  try {
+    const session = await authenticate(account);
+    if ("error" in session) {
+      console.error(`[Reddit metrics] ${session.error}`);
+      return {};
+    }
+    const res = await fetch(`${session.api}/api/info?id=${encodeURIComponent(platformPostId)}`, {
+      headers: { Authorization: `Bearer ${session.token}`, "User-Agent": session.userAgent },
+    });
+    if (!res.ok) {
+      console.error(`[Reddit metrics] ${await responseError("info", res)}`);
+      return {};
+    }
+    const data = await res.json() as {
+      data?: { children?: Array<{ data: { ups?: number; num_comments?: number; num_crossposts?: number; view_count?: number | null } }> };
+    };
+    const p = data.data?.children?.[0]?.data;
+    if (!p) return {};
+    return {
+      likes: p.ups ?? 0,
+      comments: p.num_comments ?? 0,
+      shares: p.num_crossposts ?? 0,
+      ...(p.view_count != null ? { views: p.view_count, impressions: p.view_count } : {}),
+    };
+  } catch (err) {
+    console.error("[Reddit metrics error]", err instanceof Error ? err.message : err);
+    return {};
+  }
+}
+
+export const redditAdapter: SocialAdapter = { post, verify, fetchMetrics };
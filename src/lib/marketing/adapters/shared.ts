@@ -0,0 +1,65 @@
+/**
+ * Social Adapters — shared plumbing
+ * ==================================
+ * The newer platforms (Bluesky, Threads, Mastodon, Reddit) plug into the
+ * marketing engine through one SocialAdapter each. Every adapter reads its
+ * API base URL(s) from the account's extra_config, so the admin can point an
+ * account at a self-hosted instance — and tests can point it at a local stub.
+ */
+
+import type { PlatformAccount, PostMetrics, PostResult } from "../types";
+
+export interface TokenCheck {
+  success: boolean;
+  username?: string;
+  error?: string;
+}
+
+export interface SocialAdapter {
+  post(account: PlatformAccount, text: string, mediaUrl?: string | null): Promise<PostResult>;
+  verify(account: PlatformAccount): Promise<TokenCheck>;
+  fetchMetrics(account: PlatformAccount, platformPostId: string): Promise<PostMetrics>;
+}
+
+/** The account's extra_config JSON as a string map (bad JSON reads as empty). */
+export function accountConfig(account: PlatformAccount): Record<string, string> {
+  try {
+    const parsed = JSON.parse(account.extra_config || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** `config[key]` or the platform's public default, without a trailing slash. */
+export function apiBase(config: Record<string, string>, key: string, fallback: string): string {
+  return (config[key] || fallback).replace(/\/+$/, "");
+}
+
+/** Short "Label 401: body" error string from a failed response. */
+export async function responseError(label: string, res: Response): Promise<string> {
+  const body = await res.text().catch(() => "(unreadable)");
+  return `${label} ${res.status}: ${body.slice(0, 300)}`;
+}
+
+export function isVideoUrl(url: string): boolean {
+  return /\.(mp4|mov|webm)(\?|$)/i.test(url) || url.includes("video");
+}
+
+/** Download a media file for platforms that want the bytes rather than a URL. */
+export async function downloadMedia(url: string): Promise<{ buffer: Buffer; contentType: string; isVideo: boolean } | { error: string }> {
+  try {
+    const res = await fetch(url);
+    if (!res.ok) return { error: `Failed to download media: ${res.status} ${res.statusText} from ${url}` };
+    const contentType = res.headers.get("content-type") || "application/octet-stream";
+    return {
+      buffer: Buffer.from(await res.arrayBuffer()),
+      contentType,
+      isVideo: contentType.startsWith("video/") || isVideoUrl(url),
+    };
+  } catch (err) {
+    return { error: `Media download error: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
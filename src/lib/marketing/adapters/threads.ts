@@ -0,0 +1,122 @@
+/**
+ * Threads Adapter (Meta Threads API)
+ * ===================================
+ * Two-step publish like Instagram:
+ *   1. POST /{user-id}/threads          → media container (TEXT, IMAGE or VIDEO)
+ *   2. GET  /{container-id}?fields=status until FINISHED (media only)
+ *   3. POST /{user-id}/threads_publish  → the live thread
+ *
+ * Account fields:
+ *   account_id             → Threads user id ("me" when blank)
+ *   access_token           → long-lived Threads token (env THREADS_ACCESS_TOKEN overrides)
+ *   extra_config.api_base  → default https://graph.threads.net
+ */
+
+import type { PlatformAccount, PostMetrics, PostResult } from "../types";
+import { accountConfig, apiBase, isVideoUrl, responseError, sleep, type SocialAdapter, type TokenCheck } from "./shared";
+
+const DEFAULT_API_BASE = "https://graph.threads.net";
+const API_VERSION = "v1.0";
+const STATUS_POLL_MS = 5000;
+const MAX_STATUS_POLLS = 24; // ~2 minutes — video containers take a while
+
+function endpoint(account: PlatformAccount, path: string): string {
+  return `${apiBase(accountConfig(account), "api_base", DEFAULT_API_BASE)}/${API_VERSION}/${path}`;
+}
+
+async function waitForContainer(account: PlatformAccount, containerId: string): Promise<string | null> {
+  for (let attempt = 0; attempt < MAX_STATUS_POLLS; attempt++) {
+    if (attempt > 0) await sleep(STATUS_POLL_MS);
+    const res = await fetch(`${endpoint(account, containerId)}?fields=status,error_message&access_token=${encodeURIComponent(account.access_token)}`);
+    if (!res.ok) return await responseError("Threads container status", res);
+    const data = await res.json() as { status?: string; error_message?: string };
+    if (data.status === "FINISHED" || data.status === "PUBLISHED") return null;
+    if (data.status === "ERROR" || data.status === "EXPIRED") return `Threads container ${data.status}: ${data.error_message || "no details"}`;
+  }
+  return "Threads container still processing after 2 minutes";
+}
+
+async function post(account: PlatformAccount, text: string, mediaUrl?: string | null): Promise<PostResult> {
+  try {
+    if (!account.access_token) return { success: false, error: "No Threads access token (DB or THREADS_ACCESS_TOKEN)" };
+    const userId = account.account_id || "me";
+
+    const params = new URLSearchParams({ text, access_token: account.access_token });
+    if (mediaUrl && isVideoUrl(mediaUrl)) {
+      params.set("media_type", "VIDEO");
+      params.set("video_url", mediaUrl);
+    } else if (mediaUrl) {
+      params.set("media_type", "IMAGE");
+      params.set("image_url", mediaUrl);
+    } else {
+      params.set("media_type", "TEXT");
+    }
+
+    const createRes = await fetch(endpoint(account, `${userId}/threads`), { method: "POST", body: params });
+    if (!createRes.ok) return { success: false, error: await responseError("Threads create container", createRes) };
+    const container = await createRes.json() as { id: string };
+
+    if (mediaUrl) {
+      const waitError = await waitForContainer(account, container.id);
+      if (waitError) return { success: false, error: waitError };
+    }
+
+    const publishRes = await fetch(endpoint(account, `${userId}/threads_publish`), {
+      method: "POST",
+      body: new URLSearchParams({ creation_id: container.id, access_token: account.access_token }),
+    });
+    if (!publishRes.ok) return { success: false, error: await responseError("Threads publish", publishRes) };
+    const published = await publishRes.json() as { id: string };
+
+    // Permalink is best-effort — the post is live either way
+    let platformUrl: string | undefined;
+    const linkRes = await fetch(`${endpoint(account, published.id)}?fields=permalink&access_token=${encodeURIComponent(account.access_token)}`);
+    if (linkRes.ok) platformUrl = (await linkRes.json() as { permalink?: string }).permalink;
+
+    return { success: true, platformPostId: published.id, platformUrl };
+  } catch (err) {
+    return { success: false, error: `Threads error: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+async function verify(account: PlatformAccount): Promise<TokenCheck> {
+  if (!account.access_token) return { success: false, error: "No Threads access token (DB or THREADS_ACCESS_TOKEN)" };
+  try {
+    const res = await fetch(`${endpoint(account, "me")}?fields=id,username&access_token=${encodeURIComponent(account.access_token)}`);
+    if (!res.ok) return { success: false, error: await responseError("Threads API", res) };
+    const data = await res.json() as { username?: string };
+    return { success: true, username: data.username };
+  } catch (err) {
+    return { success: false, error: `Threads fetch error: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+async function fetchMetrics(account: PlatformAccount, platformPostId: string): Promise<PostMetrics> {
+  try {
+    const res = await fetch(`${endpoint(account, `${platformPostId}/insights`)}?metric=views,likes,replies,reposts,quotes&access_token=${encodeURIComponent(account.access_token)}`);
+    if (!res.ok) {
+      console.error(`[Threads metrics] ${await responseError("insights", res)}`);
+      return {};
+    }
+    const data = await res.json() as {
+      data?: Array<{ name: string; values?: Array<{ value: number }>; total_value?: { value: number } }>;
+    };
+    const metric = (name: string) => {
+      const m = data.data?.find(d => d.name === name);
+      return m?.total_value?.value ?? m?.values?.[0]?.value ?? 0;
+    };
+    if (!data.data?.length) return {};
+    return {
+      views: metric("views"),
+      impressions: metric("views"),
+      likes: metric("likes"),
+      comments: metric("replies"),
+      shares: metric("reposts") + metric("quotes"),
+    };
+  } catch (err) {
+    console.error("[Threads metrics error]", err instanceof Error ? err.message : err);
+    return {};
+  }
+}
+
+export const threadsAdapter: SocialAdapter = { post, verify, fetchMetrics };
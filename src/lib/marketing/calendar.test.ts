@@ -0,0 +1,108 @@
+/**
+ * Marketing Posting Calendar — Unit Tests
+ * ========================================
+ * Best-time learning from daily metrics, slot allocation under daily caps,
+ * and the admin reschedule/cancel guards.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { queries, respond, resetMockSql } from "@/lib/test-utils/mock-sql";
+
+vi.mock("@/lib/db", () => import("@/lib/test-utils/mock-sql"));
+
+import {
+  cancelScheduledPost,
+  dailyCap,
+  nextFreeSlot,
+  pickPostingHours,
+  reschedulePost,
+  scorePostingHours,
+} from "./calendar";
+
+beforeEach(() => {
+  resetMockSql();
+});
+
+describe("dailyCap", () => {
+  it("lets a campaign lower the platform cap but never raise it", () => {
+    expect(dailyCap("x")).toBe(6);
+    expect(dailyCap("x", 2)).toBe(2);
+    expect(dailyCap("youtube", 10)).toBe(1);
+  });
+});
+
+describe("scorePostingHours / pickPostingHours", () => {
+  const days = [
+    { date: "2026-03-01", engagement: 300, posts_published: 3 },
+    { date: "2026-03-02", engagement: 40, posts_published: 2 },
+  ];
+  const posted = [
+    { date: "2026-03-01", hour: 9 }, { date: "2026-03-01", hour: 9 }, { date: "2026-03-01", hour: 20 },
+    { date: "2026-03-02", hour: 20 }, { date: "2026-03-02", hour: 14 },
+  ];
+
+  it("credits each day's engagement per post to the hours posts went out", () => {
+    expect(scorePostingHours(days, posted)).toEqual([
+      { hour: 9, avgEngagement: 100, posts: 2 },
+      { hour: 20, avgEngagement: 60, posts: 2 },
+      { hour: 14, avgEngagement: 20, posts: 1 },
+    ]);
+  });
+
+  it("takes well-sampled hours first, tops up from defaults and returns them in time order", () => {
+    const hours = pickPostingHours(scorePostingHours(days, posted), 3, [17, 9, 13]);
+    // 14:00 has a single post behind it — not trusted yet
+    expect(hours).toEqual([9, 17, 20]);
+  });
+});
+
+describe("nextFreeSlot", () => {
+  const at = (iso: string) => new Date(iso);
+
+  it("picks the next untaken best-time hour today", () => {
+    const slot = nextFreeSlot([9, 13, 17], [at("2026-03-10T13:00:00Z")], 3, at("2026-03-10T10:30:00Z"));
+    expect(slot?.toISOString()).toBe("2026-03-10T17:00:00.000Z");
+  });
+
+  it("rolls to the next day once today is at the cap", () => {
+    const taken = [at("2026-03-10T08:00:00Z"), at("2026-03-10T11:00:00Z")];
+    const slot = nextFreeSlot([9, 13, 17], taken, 2, at("2026-03-10T10:30:00Z"));
+    expect(slot?.toISOString()).toBe("2026-03-11T09:00:00.000Z");
+  });
+
+  it("gives up when every day in the lookahead is full", () => {
+    const taken = Array.from({ length: 14 }, (_, d) => new Date(Date.UTC(2026, 2, 10 + d, 9)));
+    expect(nextFreeSlot([9], taken, 1, at("2026-03-10T00:00:00Z"))).toBeNull();
+  });
+});
+
+describe("reschedulePost", () => {
+  it("refuses to overfill the target day", async () => {
+    respond.fn = (q) => {
+      if (q.includes("SELECT platform, status FROM marketing_posts")) return [{ platform: "instagram", status: "queued" }];
+      if (q.includes("COUNT(*)::int AS count")) return [{ count: 2 }];
+      return [];
+    };
+    const result = await reschedulePost("mp-1", new Date("2026-03-12T17:00:00Z"));
+    expect(result).toEqual({ error: "Instagram already has 2 posts on 2026-03-12 (daily cap 2)" });
+    expect(queries.some(q => q.query.includes("UPDATE marketing_posts"))).toBe(false);
+  });
+
+  it("moves a queued post when there is room, honouring the campaign cap", async () => {
+    respond.fn = (q) => {
+      if (q.includes("SELECT platform, status FROM marketing_posts")) return [{ platform: "x", status: "queued" }];
+      if (q.includes("FROM marketing_campaigns")) return [{ id: "c1", target_platforms: "x", posts_per_day: 4 }];
+      if (q.includes("COUNT(*)::int AS count")) return [{ count: 3 }];
+      return [];
+    };
+    expect(await reschedulePost("mp-1", new Date("2026-03-12T17:00:00Z"))).toEqual({ ok: true });
+    const update = queries.find(q => q.query.includes("UPDATE marketing_posts SET scheduled_for"))!;
+    expect(update.values).toEqual(["2026-03-12T17:00:00.000Z", "mp-1"]);
+  });
+
+  it("only touches queued posts", async () => {
+    respond.fn = (q) => q.includes("SELECT platform, status") ? [{ platform: "x", status: "posted" }] : [];
+    expect(await reschedulePost("mp-1", new Date())).toEqual({ error: "Only queued posts can be rescheduled (this one is posted)" });
+    expect(await cancelScheduledPost("mp-1")).toBe(false);
+  });
+});
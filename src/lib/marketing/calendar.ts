@@ -0,0 +1,242 @@
+/**
+ * MEATBAG Marketing HQ — Posting Calendar
+ * =========================================
+ * Marketing posts are queued with a scheduled time per platform instead of
+ * going out the moment the cron fires:
+ *
+ *   - Each platform gets best-time slots (UTC hours) learned from
+ *     marketing_metrics_daily: a day's engagement per post is credited to the
+ *     hours posts went out that day. Hours without enough history fall back
+ *     to sensible defaults.
+ *   - runMarketingCycle() fills the next free slots, then publishes only what
+ *     is due — never more than the platform's daily cap.
+ *   - Admins drag posts to another day or cancel them from /admin/mktg.
+ */
+
+import { getDb } from "@/lib/db";
+import { ALL_PLATFORMS, PLATFORM_DAILY_CAPS, PLATFORM_DISPLAY, type MarketingPlatform, type MarketingPost } from "./types";
+
+/** Fallback posting hours (UTC), most preferred first. */
+const DEFAULT_POSTING_HOURS: Record<MarketingPlatform, number[]> = {
+  x: [17, 13, 21, 15, 19, 23],
+  instagram: [17, 23, 13],
+  facebook: [14, 18, 22],
+  youtube: [20, 16],
+  bluesky: [15, 19, 22, 13, 17, 21],
+  threads: [16, 20, 13, 22],
+  mastodon: [14, 18, 21, 10, 16, 23],
+  reddit: [14],
+};
+
+/** An hour needs this many posts behind it before its average is trusted. */
+const MIN_HOUR_SAMPLES = 2;
+const LEARNING_WINDOW_DAYS = 30;
+/** How far ahead the scheduler looks for a free slot. */
+const SCHEDULE_LOOKAHEAD_DAYS = 14;
+
+export interface HourScore {
+  hour: number;
+  avgEngagement: number;
+  posts: number;
+}
+
+export interface CalendarEntry extends Pick<MarketingPost,
+  "id" | "platform" | "status" | "adapted_content" | "adapted_media_url" | "scheduled_for" | "posted_at" | "platform_url" | "error_message"
+> {
+  persona_display_name: string | null;
+  persona_emoji: string | null;
+}
+
+export interface ActiveCampaign {
+  id: string;
+  target_platforms: string;
+  posts_per_day: number;
+}
+
+const utcDay = (d: Date) => d.toISOString().slice(0, 10);
+const startOfUtcDay = (d: Date) => new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+
+// ── Slot planning (pure) ─────────────────────────────────────────────────
+
+/** Daily cap for a platform — an active campaign's posts_per_day can only lower it. */
+export function dailyCap(platform: MarketingPlatform, campaignPostsPerDay?: number | null): number {
+  const cap = PLATFORM_DAILY_CAPS[platform];
+  return campaignPostsPerDay && campaignPostsPerDay > 0 ? Math.min(cap, campaignPostsPerDay) : cap;
+}
+
+/**
+ * Average engagement per post for each UTC hour. Daily metrics have no hour,
+ * so each day's engagement is split evenly across that day's posts and
+ * credited to the hours they went out.
+ */
+export function scorePostingHours(
+  days: { date: string; engagement: number; posts_published: number }[],
+  postedHours: { date: string; hour: number }[],
+): HourScore[] {
+  const byDate = new Map(days.map(d => [d.date, d]));
+  const postsOnDate = new Map<string, number>();
+  for (const p of postedHours) postsOnDate.set(p.date, (postsOnDate.get(p.date) ?? 0) + 1);
+
+  const byHour = new Map<number, { total: number; posts: number }>();
+  for (const { date, hour } of postedHours) {
+    const day = byDate.get(date);
+    if (!day) continue;
+    const perPost = Number(day.engagement) / Math.max(Number(day.posts_published), postsOnDate.get(date) ?? 0, 1);
+    const acc = byHour.get(hour) ?? { total: 0, posts: 0 };
+    acc.total += perPost;
+    acc.posts++;
+    byHour.set(hour, acc);
+  }
+
+  return [...byHour.entries()]
+    .map(([hour, { total, posts }]) => ({ hour, avgEngagement: total / posts, posts }))
+    .sort((a, b) => b.avgEngagement - a.avgEngagement || a.hour - b.hour);
+}
+
+/** The `count` best hours, learned ones first, topped up from the defaults; returned in time order. */
+export function pickPostingHours(scores: HourScore[], count: number, defaults: number[]): number[] {
+  const learned = scores.filter(s => s.posts >= MIN_HOUR_SAMPLES).map(s => s.hour);
+  return [...new Set([...learned, ...defaults])].slice(0, count).sort((a, b) => a - b);
+}
+
+/**
+ * The first slot after `after` on a day that still has room under `cap`
+ * and whose hour isn't already taken. Null when the lookahead is full.
+ */
+export function nextFreeSlot(hours: number[], taken: Date[], cap: number, after: Date): Date | null {
+  const firstDay = startOfUtcDay(after);
+  for (let d = 0; d < SCHEDULE_LOOKAHEAD_DAYS; d++) {
+    const day = new Date(firstDay.getTime() + d * 86_400_000);
+    const onDay = taken.filter(t => utcDay(t) === utcDay(day));
+    if (onDay.length >= cap) continue;
+    for (const hour of hours) {
+      const slot = new Date(day.getTime() + hour * 3_600_000);
+      if (slot <= after || onDay.some(t => t.getUTCHours() === hour)) continue;
+      return slot;
+    }
+  }
+  return null;
+}
+
+// ── Storage ──────────────────────────────────────────────────────────────
+
+export async function getActiveCampaign(): Promise<ActiveCampaign | null> {
+  const sql = getDb();
+  const rows = await sql`
+    SELECT id, target_platforms, posts_per_day FROM marketing_campaigns WHERE status = 'active' ORDER BY updated_at DESC LIMIT 1
+  ` as unknown as ActiveCampaign[];
+  return rows[0] || null;
+}
+
+/** Best-time slots for a platform, learned from the last LEARNING_WINDOW_DAYS of metrics. */
+export async function getPostingSlots(platform: MarketingPlatform, count: number): Promise<{ hours: number[]; scores: HourScore[] }> {
+  const sql = getDb();
+  const [days, postedHours] = await Promise.all([
+    sql`
+      SELECT date, (total_likes + total_comments * 2 + total_shares * 3 + total_clicks) AS engagement, posts_published
+      FROM marketing_metrics_daily
+      WHERE platform = ${platform}
+        AND date >= TO_CHAR(NOW() - INTERVAL '1 day' * ${LEARNING_WINDOW_DAYS}, 'YYYY-MM-DD')
+    ` as unknown as Promise<{ date: string; engagement: number; posts_published: number }[]>,
+    sql`
+      SELECT TO_CHAR(posted_at AT TIME ZONE 'UTC', 'YYYY-MM-DD') AS date, EXTRACT(HOUR FROM posted_at AT TIME ZONE 'UTC')::int AS hour
+      FROM marketing_posts
+      WHERE platform = ${platform} AND status = 'posted'
+        AND posted_at > NOW() - INTERVAL '1 day' * ${LEARNING_WINDOW_DAYS}
+    ` as unknown as Promise<{ date: string; hour: number }[]>,
+  ]);
+  const scores = scorePostingHours(days, postedHours);
+  return { hours: pickPostingHours(scores, count, DEFAULT_POSTING_HOURS[platform]), scores };
+}
+
+/**
+ * A platform's schedule from today on. `next()` hands out free slots and
+ * remembers them, so one cycle can queue several posts without collisions.
+ */
+export async function openSchedule(platform: MarketingPlatform, cap: number, now: Date = new Date()): Promise<{
+  hours: number[];
+  next: (after?: Date) => Date | null;
+}> {
+  const sql = getDb();
+  const [{ hours }, rows] = await Promise.all([
+    getPostingSlots(platform, cap),
+    sql`
+      SELECT COALESCE(posted_at, scheduled_for) AS at FROM marketing_posts
+      WHERE platform = ${platform}
+        AND status IN ('queued', 'posting', 'posted')
+        AND COALESCE(posted_at, scheduled_for) >= ${startOfUtcDay(now).toISOString()}
+    ` as unknown as Promise<{ at: string }[]>,
+  ]);
+  const taken = rows.map(r => new Date(r.at));
+  return {
+    hours,
+    next(after = now) {
+      const slot = nextFreeSlot(hours, taken, cap, after);
+      if (slot) taken.push(slot);
+      return slot;
+    },
+  };
+}
+
+// ── Admin calendar ───────────────────────────────────────────────────────
+
+/** Everything scheduled or posted in [from, to), plus each platform's slots and cap. */
+export async function getCalendar(from: Date, to: Date): Promise<{
+  posts: CalendarEntry[];
+  slots: Record<MarketingPlatform, number[]>;
+  caps: Record<MarketingPlatform, number>;
+}> {
+  const sql = getDb();
+  const campaign = await getActiveCampaign();
+  const posts = await sql`
+    SELECT mp.id, mp.platform, mp.status, mp.adapted_content, mp.adapted_media_url, mp.scheduled_for,
+           mp.posted_at, mp.platform_url, mp.error_message,
+           a.display_name AS persona_display_name, a.avatar_emoji AS persona_emoji
+    FROM marketing_posts mp
+    LEFT JOIN ai_personas a ON a.id = mp.persona_id
+    WHERE COALESCE(mp.posted_at, mp.scheduled_for) >= ${from.toISOString()}
+      AND COALESCE(mp.posted_at, mp.scheduled_for) < ${to.toISOString()}
+    ORDER BY COALESCE(mp.posted_at, mp.scheduled_for) ASC
+  ` as unknown as CalendarEntry[];
+
+  const caps = Object.fromEntries(ALL_PLATFORMS.map(p => [p, dailyCap(p, campaign?.posts_per_day)])) as Record<MarketingPlatform, number>;
+  const slotList = await Promise.all(ALL_PLATFORMS.map(p => getPostingSlots(p, caps[p])));
+  const slots = Object.fromEntries(ALL_PLATFORMS.map((p, i) => [p, slotList[i].hours])) as Record<MarketingPlatform, number[]>;
+
+  return { posts, slots, caps };
+}
+
+/** Move a queued post. Refused when the target day is already at the platform's cap. */
+export async function reschedulePost(id: string, when: Date): Promise<{ ok: true } | { error: string }> {
+  const sql = getDb();
+  const [post] = await sql`SELECT platform, status FROM marketing_posts WHERE id = ${id}` as unknown as { platform: MarketingPlatform; status: string }[];
+  if (!post) return { error: "Marketing post not found" };
+  if (post.status !== "queued") return { error: `Only queued posts can be rescheduled (this one is ${post.status})` };
+
+  const campaign = await getActiveCampaign();
+  const cap = dailyCap(post.platform, campaign?.posts_per_day);
+  const dayStart = startOfUtcDay(when);
+  const dayEnd = new Date(dayStart.getTime() + 86_400_000);
+  const [{ count }] = await sql`
+    SELECT COUNT(*)::int AS count FROM marketing_posts
+    WHERE platform = ${post.platform} AND id != ${id}
+      AND status IN ('queued', 'posting', 'posted')
+      AND COALESCE(posted_at, scheduled_for) >= ${dayStart.toISOString()}
+      AND COALESCE(posted_at, scheduled_for) < ${dayEnd.toISOString()}
+  ` as unknown as { count: number }[];
+  if (Number(count) >= cap) {
+    return { error: `${PLATFORM_DISPLAY[post.platform].name} already has ${count} posts on ${utcDay(when)} (daily cap ${cap})` };
+  }
+
+  await sql`UPDATE marketing_posts SET scheduled_for = ${when.toISOString()} WHERE id = ${id} AND status = 'queued'`;
+  return { ok: true };
+}
+
+/** Pull a queued post off the calendar. False when it isn't queued (already posted, or gone). */
+export async function cancelScheduledPost(id: string): Promise<boolean> {
+  const sql = getDb();
+  const rows = await sql`
+    UPDATE marketing_posts SET status = 'cancelled' WHERE id = ${id} AND status = 'queued' RETURNING id
+  ` as unknown as { id: string }[];
+  return rows.length > 0;
+}
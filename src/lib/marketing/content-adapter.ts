@@ -7,12 +7,17 @@
 
 import { claude } from "@/lib/ai";
 import { MarketingPlatform, PLATFORM_SPECS, AdaptedContent } from "./types";
+import type { PostCaptions } from "@/lib/media/captions";
 
 const safeGenerate = claude.safeGenerate;
 
 /**
  * Adapt an AIG!itch post for a specific social media platform.
  * Claude rewrites the content to fit platform conventions while keeping the chaos.
+ *
+ * When the video has captions, their transcript informs the copy (most
+ * social video plays muted) and platforms that take a caption file get the
+ * SRT passed through on `captionsUrl`.
  */
 export async function adaptContentForPlatform(
   originalContent: string,
@@ -20,10 +25,14 @@ export async function adaptContentForPlatform(
   personaEmoji: string,
   platform: MarketingPlatform,
   mediaUrl?: string | null,
+  captions?: PostCaptions | null,
 ): Promise<AdaptedContent> {
   const specs = PLATFORM_SPECS[platform];
   const hasMedia = !!mediaUrl;
   const isVideo = mediaUrl?.includes(".mp4") || mediaUrl?.includes("video");
+  const narration = isVideo && captions ? captions.transcript.slice(0, 600) : "";
+  const withCaptions = (adapted: AdaptedContent): AdaptedContent =>
+    narration && specs.captionUpload ? { ...adapted, captionsUrl: captions!.srtUrl } : adapted;
 
   const prompt = `You are a social media marketing expert for AIG!itch — an AI-only social network where AI personas post and humans just watch.
 
@@ -36,6 +45,7 @@ PLATFORM: ${platform}
 MAX LENGTH: ${specs.maxTextLength} characters (STRICT — the system will truncate anything over this)
 ${platform === "x" ? "CHARACTER BUDGET FOR X: You have 280 chars total. Reserve ~30 chars for '@Grok ' + ' #MadeInGrok #AIGlitch'. That leaves ~250 chars for the actual content. Keep it punchy." : ""}
 HAS MEDIA: ${hasMedia ? (isVideo ? "video" : "image") : "no"}
+${narration ? `VIDEO NARRATION (from the video's captions): "${narration}"` : ""}
 HASHTAG STYLE: ${specs.hashtagStyle}
 LINK SUPPORT: ${specs.linkSupport}
 
@@ -47,9 +57,14 @@ RULES:
 - For Instagram: aesthetic caption, line breaks, emoji heavy
 - For Facebook: conversational, shareable, engagement bait
 - For YouTube: SEO-friendly title/description format
+- For Bluesky: conversational and a little weird, 1-2 hashtags max, write the link out as aiglitch.app
+- For Threads: casual, lowercase-friendly, reads like a group chat message
+- For Mastodon: sincere, no engagement bait, hashtags in CamelCase at the end (screen readers)
+- For Reddit: the FIRST LINE is the post title (no hashtags, no emoji spam); the body reads like a genuine community post — no marketing speak
 - Always include 3-5 relevant hashtags
 - ALWAYS include #MadeInGrok and #AIGlitch as the last two hashtags in every post
 - Add a call-to-action directing to aiglitch.app
+${narration ? "- Most people watch social video on mute: quote the most striking line of the VIDEO NARRATION in the post" : ""}
 - Generate a thumbnail prompt for AI image generation
 
 Respond with ONLY valid JSON:
@@ -112,10 +127,10 @@ Respond with ONLY valid JSON:
       }
     }
 
-    return parsed;
+    return withCaptions(parsed);
   } catch {
     // Fallback: manual adaptation without Claude
-    return fallbackAdaptation(originalContent, personaName, personaEmoji, platform);
+    return withCaptions(fallbackAdaptation(originalContent, personaName, personaEmoji, platform));
   }
 }
 
@@ -152,6 +167,18 @@ function fallbackAdaptation(
     case "youtube":
       text = `${personaEmoji} ${personaName} | AIG!itch AI Content\n\n${content.slice(0, 2000)}\n\n🤖 AIG!itch is an AI-only social network. Only AI can post. Humans watch.\n${cta}\n\n${hashtags.join(" ")}`;
       break;
+    case "bluesky":
+      text = `${personaEmoji} ${personaName}: "${content.slice(0, 180)}" ${cta} #AIGlitch`;
+      break;
+    case "threads":
+      text = `${personaEmoji} ${personaName} just posted this on the AI-only social network:\n\n"${content.slice(0, 350)}"\n\n${cta} #AIGlitch`;
+      break;
+    case "mastodon":
+      text = `${personaEmoji} ${personaName} (an AI persona) says:\n\n"${content.slice(0, 350)}"\n\n${cta}\n\n#AIGlitch #MadeInGrok #AI`;
+      break;
+    case "reddit":
+      text = `${personaName} posted this on a social network where only AIs can post\n\n"${content.slice(0, 2000)}"\n\nFrom AIG!itch — humans can only watch: https://aiglitch.app`;
+      break;
   }
 
   // Enforce max length
@@ -5,35 +5,39 @@
  * 1. Pick top-performing AIG!itch content
  * 2. Adapt for each platform
  * 3. Generate thumbnails
- * 4. Post to configured platforms
- * 5. Track metrics
+ * 4. Queue into each platform's best-time slots (see calendar.ts)
+ * 5. Post what is due to configured platforms
+ * 6. Track metrics
  */
 
 import { getDb } from "@/lib/db";
 import { v4 as uuidv4 } from "uuid";
-import { MarketingPlatform, ALL_PLATFORMS } from "./types";
+import { MarketingPlatform, MarketingPost, PlatformAccount, ALL_PLATFORMS } from "./types";
 import { getActiveAccounts, postToPlatform } from "./platforms";
 import { adaptContentForPlatform, pickTopPosts } from "./content-adapter";
 import { pickFallbackMedia } from "./spread-post";
+import { dailyCap, getActiveCampaign, openSchedule, type ActiveCampaign } from "./calendar";
 
 export { pickTopPosts } from "./content-adapter";
 export { getActiveAccounts } from "./platforms";
 export { collectAllMetrics } from "./metrics-collector";
+export { getCalendar, reschedulePost, cancelScheduledPost } from "./calendar";
 export * from "./types";
 
 /**
- * Run a full marketing cycle: pick content → adapt → post to all active platforms.
- * Called by the marketing cron job.
+ * Run a full marketing cycle: post whatever is due on the calendar (within
+ * each platform's daily cap), then queue fresh top content into the next
+ * best-time slots. Called by the marketing cron job.
  */
 export async function runMarketingCycle(): Promise<{
   posted: number;
   failed: number;
   skipped: number;
-  details: Array<{ platform: string; status: string; postId?: string; error?: string }>;
+  queued: number;
+  details: CycleDetail[];
 }> {
   const sql = getDb();
   const activeAccounts = await getActiveAccounts();
-  const details: Array<{ platform: string; status: string; postId?: string; error?: string }> = [];
 
   if (activeAccounts.length === 0) {
     // No platforms configured — still create queued posts for the showcase page
@@ -60,16 +64,12 @@ export async function runMarketingCycle(): Promise<{
       posted: 0,
       failed: 0,
       skipped: topPosts.length * ALL_PLATFORMS.length,
+      queued: 0,
       details: [{ platform: "all", status: "queued", error: "No platform accounts configured — content queued for showcase" }],
     };
   }
 
-  // Check for active campaign to respect its settings
-  const activeCampaigns = await sql`
-    SELECT id, target_platforms, posts_per_day FROM marketing_campaigns WHERE status = 'active' ORDER BY updated_at DESC LIMIT 1
-  ` as unknown as Array<{ id: string; target_platforms: string; posts_per_day: number }>;
-
-  const campaign = activeCampaigns[0] || null;
+  const campaign = await getActiveCampaign();
   const campaignPlatforms = campaign ? campaign.target_platforms.split(",").filter(Boolean) : null;
   const postsPerCycle = campaign ? Math.max(1, Math.ceil(campaign.posts_per_day / 24)) : 3; // ~24 cycles/day (every 1h)
 
@@ -78,12 +78,153 @@ export async function runMarketingCycle(): Promise<{
     ? activeAccounts.filter(a => campaignPlatforms.includes(a.platform))
     : activeAccounts;
 
-  // Pick top posts
-  const topPosts = await pickTopPosts(postsPerCycle);
+  const now = new Date();
+  const published = await publishDuePosts(targetAccounts, campaign, now);
+  const scheduled = await fillCalendar(targetAccounts, campaign, postsPerCycle, now);
+
+  return {
+    posted: published.posted,
+    failed: published.failed + scheduled.failed,
+    skipped: published.skipped + scheduled.skipped,
+    queued: scheduled.queued,
+    details: [...published.details, ...scheduled.details],
+  };
+}
+
+type CycleDetail = { platform: string; status: string; postId?: string; error?: string };
+
+/**
+ * Post every queued item whose slot has come, oldest first. A platform that
+ * has hit its daily cap gets its due posts pushed to the next free slot.
+ */
+async function publishDuePosts(
+  accounts: PlatformAccount[],
+  campaign: ActiveCampaign | null,
+  now: Date,
+): Promise<{ posted: number; failed: number; skipped: number; details: CycleDetail[] }> {
+  const sql = getDb();
+  const details: CycleDetail[] = [];
   let posted = 0;
   let failed = 0;
   let skipped = 0;
 
+  const platforms = accounts.map(a => a.platform);
+  const due = await sql`
+    SELECT * FROM marketing_posts
+    WHERE status = 'queued'
+      AND scheduled_for IS NOT NULL
+      AND scheduled_for <= ${now.toISOString()}
+      AND platform = ANY(${platforms})
+    ORDER BY scheduled_for ASC
+    LIMIT 50
+  ` as unknown as MarketingPost[];
+  if (due.length === 0) return { posted, failed, skipped, details };
+
+  const todayRows = await sql`
+    SELECT platform, COUNT(*)::int AS count FROM marketing_posts
+    WHERE status = 'posted' AND posted_at >= ${now.toISOString().slice(0, 10)}::date
+    GROUP BY platform
+  ` as unknown as Array<{ platform: string; count: number }>;
+  const postedToday = new Map(todayRows.map(r => [r.platform, Number(r.count)]));
+  const schedules = new Map<MarketingPlatform, Awaited<ReturnType<typeof openSchedule>>>();
+
+  for (const post of due) {
+    const platform = post.platform;
+    const account = accounts.find(a => a.platform === platform)!;
+    const cap = dailyCap(platform, campaign?.posts_per_day);
+
+    if ((postedToday.get(platform) ?? 0) >= cap) {
+      if (!schedules.has(platform)) schedules.set(platform, await openSchedule(platform, cap, now));
+      const slot = schedules.get(platform)!.next();
+      if (slot) {
+        await sql`UPDATE marketing_posts SET scheduled_for = ${slot.toISOString()} WHERE id = ${post.id}`;
+      }
+      skipped++;
+      details.push({ platform, status: "deferred", error: `Daily cap of ${cap} reached — moved to ${slot?.toISOString() ?? "no free slot"}` });
+      continue;
+    }
+
+    // Claim it so an overlapping run can't post it twice
+    const claimed = await sql`
+      UPDATE marketing_posts SET status = 'posting' WHERE id = ${post.id} AND status = 'queued' RETURNING id
+    ` as unknown as Array<{ id: string }>;
+    if (claimed.length === 0) continue;
+
+    try {
+      const result = await postToPlatform(platform, account, post.adapted_content, post.adapted_media_url);
+
+      if (result.success) {
+        await sql`
+          UPDATE marketing_posts
+          SET status = 'posted',
+              platform_post_id = ${result.platformPostId || null},
+              platform_url = ${result.platformUrl || null},
+              posted_at = NOW()
+          WHERE id = ${post.id}
+        `;
+
+        await sql`
+          UPDATE marketing_platform_accounts
+          SET last_posted_at = NOW()
+          WHERE id = ${account.id}
+        `;
+
+        postedToday.set(platform, (postedToday.get(platform) ?? 0) + 1);
+        posted++;
+        details.push({ platform, status: "posted", postId: result.platformPostId });
+      } else {
+        await sql`
+          UPDATE marketing_posts
+          SET status = 'failed', error_message = ${result.error || 'Unknown error'}
+          WHERE id = ${post.id}
+        `;
+        failed++;
+        details.push({ platform, status: "failed", error: result.error });
+      }
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      await sql`UPDATE marketing_posts SET status = 'failed', error_message = ${errMsg} WHERE id = ${post.id}`;
+      failed++;
+      details.push({ platform, status: "failed", error: errMsg });
+    }
+  }
+
+  return { posted, failed, skipped, details };
+}
+
+/**
+ * Queue fresh top posts into each platform's next best-time slots. A platform
+ * whose upcoming queue already holds a day's worth (its cap) is left alone.
+ */
+async function fillCalendar(
+  accounts: PlatformAccount[],
+  campaign: ActiveCampaign | null,
+  postsPerCycle: number,
+  now: Date,
+): Promise<{ queued: number; failed: number; skipped: number; details: CycleDetail[] }> {
+  const sql = getDb();
+  const details: CycleDetail[] = [];
+  let queued = 0;
+  let failed = 0;
+  let skipped = 0;
+
+  const pendingRows = await sql`
+    SELECT platform, COUNT(*)::int AS count FROM marketing_posts
+    WHERE status = 'queued' AND scheduled_for > ${now.toISOString()}
+    GROUP BY platform
+  ` as unknown as Array<{ platform: string; count: number }>;
+  const pending = new Map(pendingRows.map(r => [r.platform, Number(r.count)]));
+
+  const open = accounts.filter(a => (pending.get(a.platform) ?? 0) < dailyCap(a.platform, campaign?.posts_per_day));
+  if (open.length === 0) return { queued, failed, skipped, details };
+
+  const schedules = new Map<MarketingPlatform, Awaited<ReturnType<typeof openSchedule>>>();
+  for (const account of open) {
+    schedules.set(account.platform, await openSchedule(account.platform, dailyCap(account.platform, campaign?.posts_per_day), now));
+  }
+
+  const topPosts = await pickTopPosts(postsPerCycle);
+
   for (const post of topPosts) {
     const isVideo = post.media_type?.startsWith("video") || false;
 
@@ -96,8 +237,9 @@ export async function runMarketingCycle(): Promise<{
       }
     }
 
-    for (const account of targetAccounts) {
+    for (const account of open) {
       const platform = account.platform as MarketingPlatform;
+      if ((pending.get(platform) ?? 0) >= dailyCap(platform, campaign?.posts_per_day)) continue;
 
       // Platform compatibility rules:
       // - YouTube: video-only — skip images and text posts
@@ -109,6 +251,13 @@ export async function runMarketingCycle(): Promise<{
         continue;
       }
 
+      const slot = schedules.get(platform)!.next();
+      if (!slot) {
+        skipped++;
+        details.push({ platform, status: "skipped", error: "Calendar full for the next two weeks" });
+        continue;
+      }
+
       try {
         // Adapt content for this platform
         const adapted = await adaptContentForPlatform(
@@ -119,43 +268,15 @@ export async function runMarketingCycle(): Promise<{
           mediaUrlToSpread,
         );
 
-        // Create marketing post record
         const marketingPostId = uuidv4();
         await sql`
-          INSERT INTO marketing_posts (id, campaign_id, platform, source_post_id, persona_id, adapted_content, adapted_media_url, status, created_at)
-          VALUES (${marketingPostId}, ${campaign?.id || null}, ${platform}, ${post.id}, ${post.persona_id}, ${adapted.text}, ${mediaUrlToSpread}, 'posting', NOW())
+          INSERT INTO marketing_posts (id, campaign_id, platform, source_post_id, persona_id, adapted_content, adapted_media_url, status, scheduled_for, created_at)
+          VALUES (${marketingPostId}, ${campaign?.id || null}, ${platform}, ${post.id}, ${post.persona_id}, ${adapted.text}, ${mediaUrlToSpread}, 'queued', ${slot.toISOString()}, NOW())
         `;
 
-        // Post to platform
-        const result = await postToPlatform(platform, account, adapted.text, mediaUrlToSpread);
-
-        if (result.success) {
-          await sql`
-            UPDATE marketing_posts
-            SET status = 'posted',
-                platform_post_id = ${result.platformPostId || null},
-                platform_url = ${result.platformUrl || null},
-                posted_at = NOW()
-            WHERE id = ${marketingPostId}
-          `;
-
-          await sql`
-            UPDATE marketing_platform_accounts
-            SET last_posted_at = NOW()
-            WHERE id = ${account.id}
-          `;
-
-          posted++;
-          details.push({ platform, status: "posted", postId: result.platformPostId });
-        } else {
-          await sql`
-            UPDATE marketing_posts
-            SET status = 'failed', error_message = ${result.error || 'Unknown error'}
-            WHERE id = ${marketingPostId}
-          `;
-          failed++;
-          details.push({ platform, status: "failed", error: result.error });
-        }
+        pending.set(platform, (pending.get(platform) ?? 0) + 1);
+        queued++;
+        details.push({ platform, status: "queued", postId: marketingPostId });
       } catch (err) {
         const errMsg = err instanceof Error ? err.message : String(err);
         failed++;
@@ -164,7 +285,7 @@ export async function runMarketingCycle(): Promise<{
     }
   }
 
-  return { posted, failed, skipped, details };
+  return { queued, failed, skipped, details };
 }
 
 /**
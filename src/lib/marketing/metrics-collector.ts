@@ -8,18 +8,10 @@
 
 import { getDb } from "@/lib/db";
 import { v4 as uuidv4 } from "uuid";
-import { MarketingPlatform, MarketingPost } from "./types";
+import { MarketingPlatform, MarketingPost, PlatformAccount, PostMetrics } from "./types";
 import { getAccountForPlatform } from "./platforms";
 import { buildOAuth1Header, getAppCredentials } from "./oauth1";
-
-interface PostMetrics {
-  impressions?: number;
-  likes?: number;
-  shares?: number;
-  comments?: number;
-  views?: number;
-  clicks?: number;
-}
+import { SOCIAL_ADAPTERS } from "./adapters";
 
 // ── Facebook Metrics ──────────────────────────────────────────────────────
 // GET /{post-id}?fields=insights.metric(post_impressions,post_reactions_like_total,post_clicks)
@@ -208,15 +200,15 @@ async function fetchYouTubeMetrics(postId: string, accessToken: string): Promise
 
 // ── Fetch metrics for a single post ──────────────────────────────────────
 
-async function fetchMetricsForPost(post: MarketingPost, accessToken: string): Promise<PostMetrics> {
+async function fetchMetricsForPost(post: MarketingPost, account: PlatformAccount): Promise<PostMetrics> {
   if (!post.platform_post_id) return {};
 
   switch (post.platform) {
-    case "facebook":  return fetchFacebookMetrics(post.platform_post_id, accessToken);
-    case "instagram": return fetchInstagramMetrics(post.platform_post_id, accessToken);
-    case "x":         return fetchXMetrics(post.platform_post_id, accessToken);
-    case "youtube":   return fetchYouTubeMetrics(post.platform_post_id, accessToken);
-    default:          return {};
+    case "facebook":  return fetchFacebookMetrics(post.platform_post_id, account.access_token);
+    case "instagram": return fetchInstagramMetrics(post.platform_post_id, account.access_token);
+    case "x":         return fetchXMetrics(post.platform_post_id, account.access_token);
+    case "youtube":   return fetchYouTubeMetrics(post.platform_post_id, account.access_token);
+    default:          return SOCIAL_ADAPTERS[post.platform]?.fetchMetrics(account, post.platform_post_id) ?? {};
   }
 }
 
@@ -270,7 +262,7 @@ export async function collectAllMetrics(): Promise<{
 
     for (const post of platformPostList) {
       try {
-        const metrics = await fetchMetricsForPost(post, account.access_token);
+        const metrics = await fetchMetricsForPost(post, account);
 
         if (Object.keys(metrics).length === 0) {
           details.push({ platform, postId: post.id, status: "no_data" });
@@ -10,12 +10,14 @@
  * - Instagram: Graph API via Meta (200 req/hour, needs Business Account)
  * - Facebook: Graph API (Page posting, system user tokens)
  * - YouTube: Data API v3 (~6 uploads/day with default quota)
+ * - Bluesky, Threads, Mastodon, Reddit: SocialAdapters in ./adapters
  */
 
 import { getDb } from "@/lib/db";
 import sharp from "sharp";
-import { MarketingPlatform, PlatformAccount } from "./types";
+import { MarketingPlatform, PlatformAccount, PostResult } from "./types";
 import { buildOAuth1Header, getAppCredentials } from "./oauth1";
+import { SOCIAL_ADAPTERS } from "./adapters";
 
 const X_IMAGE_MAX_BYTES = 5 * 1024 * 1024; // 5MB — X's limit for tweet_image
 
@@ -27,6 +29,10 @@ const ENV_TOKEN_KEYS: Record<string, string> = {
   instagram: "INSTAGRAM_ACCESS_TOKEN",
   facebook: "FACEBOOK_ACCESS_TOKEN",
   youtube: "YOUTUBE_ACCESS_TOKEN",
+  bluesky: "BLUESKY_APP_PASSWORD",
+  threads: "THREADS_ACCESS_TOKEN",
+  mastodon: "MASTODON_ACCESS_TOKEN",
+  reddit: "REDDIT_REFRESH_TOKEN",
 };
 
 function applyEnvTokens(account: PlatformAccount): PlatformAccount {
@@ -144,15 +150,6 @@ export async function getAnyAccountForPlatform(platform: MarketingPlatform): Pro
   return envAccounts.find(a => a.platform === platform) || null;
 }
 
-// ── Post Result ──────────────────────────────────────────────────────────
-
-interface PostResult {
-  success: boolean;
-  platformPostId?: string;
-  platformUrl?: string;
-  error?: string;
-}
-
 // ── X (Twitter) Connector ────────────────────────────────────────────────
 // Free tier: write-only, ~500-1500 posts/month
 // API v2: POST https://api.twitter.com/2/tweets
@@ -806,7 +803,47 @@ async function refreshYouTubeToken(): Promise<string | null> {
 // Free API: Data API v3, ~6 uploads/day (10K quota, insert costs 1600)
 // Requires OAuth 2.0 with youtube.upload scope
 
-async function postToYouTube(account: PlatformAccount, text: string, mediaUrl?: string | null): Promise<PostResult> {
+/**
+ * Attach an SRT caption track to an uploaded video (captions.insert).
+ * Needs the youtube.force-ssl scope; a failure leaves the video uncaptioned
+ * rather than failing the post.
+ */
+async function uploadYouTubeCaptions(accessToken: string, videoId: string, captionsUrl: string): Promise<void> {
+  try {
+    const srtResponse = await fetch(captionsUrl);
+    if (!srtResponse.ok) throw new Error(`fetch captions ${srtResponse.status}`);
+    const srt = await srtResponse.text();
+
+    const boundary = `aiglitch-${Date.now()}`;
+    const body = [
+      `--${boundary}`,
+      "Content-Type: application/json; charset=UTF-8",
+      "",
+      JSON.stringify({ snippet: { videoId, language: "en", name: "English", isDraft: false } }),
+      `--${boundary}`,
+      "Content-Type: application/octet-stream",
+      "",
+      srt,
+      `--${boundary}--`,
+      "",
+    ].join("\r\n");
+
+    const res = await fetch("https://www.googleapis.com/upload/youtube/v3/captions?part=snippet&uploadType=multipart", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${accessToken}`,
+        "Content-Type": `multipart/related; boundary=${boundary}`,
+      },
+      body,
+    });
+    if (!res.ok) throw new Error(`${res.status} ${(await res.text()).slice(0, 200)}`);
+    console.log(`[youtube] Captions attached to ${videoId}`);
+  } catch (err) {
+    console.warn(`[youtube] Caption upload failed for ${videoId} (video is live without captions):`, err instanceof Error ? err.message : err);
+  }
+}
+
+async function postToYouTube(account: PlatformAccount, text: string, mediaUrl?: string | null, captionsUrl?: string | null): Promise<PostResult> {
   try {
     if (!mediaUrl) {
       return { success: false, error: "YouTube requires video content" };
@@ -913,6 +950,9 @@ async function postToYouTube(account: PlatformAccount, text: string, mediaUrl?:
     }
 
     const uploadData = await uploadResponse.json() as { id?: string };
+    if (uploadData.id && captionsUrl) {
+      await uploadYouTubeCaptions(accessToken, uploadData.id, captionsUrl);
+    }
     return {
       success: true,
       platformPostId: uploadData.id,
@@ -962,6 +1002,9 @@ export async function testPlatformToken(
   if (!account) {
     return { success: false, error: `No active account for ${platform}` };
   }
+  // Adapters check their own credentials (Reddit, say, runs on a refresh token)
+  const adapter = SOCIAL_ADAPTERS[platform];
+  if (adapter) return adapter.verify(account);
   if (!account.access_token) {
     return { success: false, error: `No token configured (DB or env var ${ENV_TOKEN_KEYS[platform]})` };
   }
@@ -979,6 +1022,7 @@ export async function postToPlatform(
   account: PlatformAccount,
   text: string,
   mediaUrl?: string | null,
+  options?: { captionsUrl?: string | null },
 ): Promise<PostResult> {
   const startTime = Date.now();
   console.log(`[postToPlatform] >>> ${platform} start (media=${mediaUrl?.slice(0, 60) || "none"})`);
@@ -988,8 +1032,11 @@ export async function postToPlatform(
       case "x":         result = await postToX(account, text, mediaUrl); break;
       case "instagram": result = await postToInstagram(account, text, mediaUrl); break;
       case "facebook":  result = await postToFacebook(account, text, mediaUrl); break;
-      case "youtube":   result = await postToYouTube(account, text, mediaUrl); break;
-      default:          result = { success: false, error: `Unknown platform: ${platform}` };
+      case "youtube":   result = await postToYouTube(account, text, mediaUrl, options?.captionsUrl); break;
+      default: {
+        const adapter = SOCIAL_ADAPTERS[platform];
+        result = adapter ? await adapter.post(account, text, mediaUrl) : { success: false, error: `Unknown platform: ${platform}` };
+      }
     }
     const duration = Date.now() - startTime;
     console.log(`[postToPlatform] <<< ${platform} ${result.success ? "OK" : "FAIL"} (${duration}ms) ${result.error || result.platformPostId || ""}`);
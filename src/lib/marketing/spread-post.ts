@@ -9,6 +9,7 @@ import { getActiveAccounts, postToPlatform } from "./platforms";
 import { adaptContentForPlatform } from "./content-adapter";
 import { MarketingPlatform } from "./types";
 import { sendTelegramMessage, rewriteMentionsForTelegram } from "@/lib/telegram";
+import { loadPostCaptions, type PostCaptions } from "@/lib/media/captions";
 
 /**
  * Pick a fallback media URL when a post has no media of its own.
@@ -67,11 +68,11 @@ export async function spreadPostToSocial(
   // Get the post content (needed for both social platforms and Telegram)
   // If knownMedia is provided, use it directly to avoid read-after-write race condition
   // with Neon Postgres replication lag (media_url can be NULL if read too soon after INSERT)
-  let postData: { content: string; media_url: string; media_type: string } | null = null;
+  let postData: { content: string; media_url: string; media_type: string; captions_url: string | null } | null = null;
   try {
     const posts = await sql`
-      SELECT content, media_url, media_type FROM posts WHERE id = ${postId}
-    ` as unknown as { content: string; media_url: string; media_type: string }[];
+      SELECT content, media_url, media_type, captions_url FROM posts WHERE id = ${postId}
+    ` as unknown as { content: string; media_url: string; media_type: string; captions_url: string | null }[];
     if (posts.length > 0) {
       postData = posts[0];
       // Override with known media if DB returned NULL (replication lag fix)
@@ -106,6 +107,11 @@ export async function spreadPostToSocial(
 
       console.error(`[spread-post] Spreading ${postId}: isVideo=${isVideo}, media=${mediaUrlToSpread?.slice(0, 60)}, accounts=${accounts.length}`);
 
+      // Captions only describe the post's own video, never a fallback image
+      const captions: PostCaptions | null = isVideo && postData.captions_url
+        ? await loadPostCaptions(postData.captions_url)
+        : null;
+
       // Post to ALL platforms in PARALLEL to avoid timeout
       const platformPromises = accounts
         .filter(account => {
@@ -128,6 +134,7 @@ export async function spreadPostToSocial(
               personaEmoji,
               platform,
               mediaUrlToSpread,
+              captions,
             );
 
             const marketingPostId = uuidv4();
@@ -136,7 +143,7 @@ export async function spreadPostToSocial(
               VALUES (${marketingPostId}, ${platform}, ${postId}, ${personaId}, ${adapted.text}, ${mediaUrlToSpread}, 'posting', NOW())
             `;
 
-            const result = await postToPlatform(platform, account, adapted.text, mediaUrlToSpread);
+            const result = await postToPlatform(platform, account, adapted.text, mediaUrlToSpread, { captionsUrl: adapted.captionsUrl });
 
             if (result.success) {
               await sql`
@@ -4,15 +4,31 @@
  * Shared types for the cross-platform marketing engine.
  */
 
-export type MarketingPlatform = "x" | "instagram" | "facebook" | "youtube";
+export type MarketingPlatform = "x" | "instagram" | "facebook" | "youtube" | "bluesky" | "threads" | "mastodon" | "reddit";
 
-export const ALL_PLATFORMS: MarketingPlatform[] = ["x", "instagram", "facebook", "youtube"];
+export const ALL_PLATFORMS: MarketingPlatform[] = ["x", "instagram", "facebook", "youtube", "bluesky", "threads", "mastodon", "reddit"];
 
 export const PLATFORM_DISPLAY: Record<MarketingPlatform, { name: string; emoji: string; color: string }> = {
   x:         { name: "X (Twitter)",  emoji: "𝕏", color: "#000000" },
   instagram: { name: "Instagram",    emoji: "📸", color: "#E4405F" },
   facebook:  { name: "Facebook",     emoji: "📘", color: "#1877F2" },
   youtube:   { name: "YouTube",      emoji: "▶️", color: "#FF0000" },
+  bluesky:   { name: "Bluesky",      emoji: "🦋", color: "#0085FF" },
+  threads:   { name: "Threads",      emoji: "🧵", color: "#000000" },
+  mastodon:  { name: "Mastodon",     emoji: "🐘", color: "#6364FF" },
+  reddit:    { name: "Reddit",       emoji: "👽", color: "#FF4500" },
+};
+
+/** Most posts the scheduler will publish per platform per UTC day (a campaign's posts_per_day can lower it) */
+export const PLATFORM_DAILY_CAPS: Record<MarketingPlatform, number> = {
+  x: 6,
+  instagram: 2,
+  facebook: 3,
+  youtube: 1,
+  bluesky: 6,
+  threads: 4,
+  mastodon: 6,
+  reddit: 1,
 };
 
 /** Platform-specific content constraints */
@@ -22,6 +38,7 @@ export const PLATFORM_SPECS: Record<MarketingPlatform, {
   mediaTypes: string[];
   hashtagStyle: "inline" | "end" | "none";
   linkSupport: boolean;
+  captionUpload: boolean; // API accepts a sidecar caption file with the video
 }> = {
   x: {
     maxTextLength: 280,
@@ -29,6 +46,7 @@ export const PLATFORM_SPECS: Record<MarketingPlatform, {
     mediaTypes: ["image", "video"],
     hashtagStyle: "end",
     linkSupport: true,
+    captionUpload: false,
   },
   instagram: {
     maxTextLength: 2200,
@@ -36,6 +54,7 @@ export const PLATFORM_SPECS: Record<MarketingPlatform, {
     mediaTypes: ["image", "video"],
     hashtagStyle: "end",
     linkSupport: false,
+    captionUpload: false,
   },
   facebook: {
     maxTextLength: 63206,
@@ -43,6 +62,7 @@ export const PLATFORM_SPECS: Record<MarketingPlatform, {
     mediaTypes: ["image", "video", "text"],
     hashtagStyle: "inline",
     linkSupport: true,
+    captionUpload: false,
   },
   youtube: {
     maxTextLength: 5000,
@@ -50,6 +70,39 @@ export const PLATFORM_SPECS: Record<MarketingPlatform, {
     mediaTypes: ["video"],
     hashtagStyle: "end",
     linkSupport: true,
+    captionUpload: true,
+  },
+  bluesky: {
+    maxTextLength: 300,
+    preferredAspectRatio: "16:9",
+    mediaTypes: ["image", "video", "text"],
+    hashtagStyle: "inline",
+    linkSupport: true,
+    captionUpload: false,
+  },
+  threads: {
+    maxTextLength: 500,
+    preferredAspectRatio: "4:5",
+    mediaTypes: ["image", "video", "text"],
+    hashtagStyle: "inline",
+    linkSupport: true,
+    captionUpload: false,
+  },
+  mastodon: {
+    maxTextLength: 500,
+    preferredAspectRatio: "16:9",
+    mediaTypes: ["image", "video", "text"],
+    hashtagStyle: "end",
+    linkSupport: true,
+    captionUpload: false,
+  },
+  reddit: {
+    maxTextLength: 40000, // self-post body; the first line becomes the 300-char title
+    preferredAspectRatio: "16:9",
+    mediaTypes: ["image", "video", "text"],
+    hashtagStyle: "none",
+    linkSupport: true,
+    captionUpload: false,
   },
 };
 
@@ -64,7 +117,7 @@ export interface MarketingPost {
   thumbnail_url: string | null;
   platform_post_id: string | null;
   platform_url: string | null;
-  status: "queued" | "posting" | "posted" | "failed";
+  status: "queued" | "posting" | "posted" | "failed" | "cancelled";
   scheduled_for: string | null;
   posted_at: string | null;
   impressions: number;
@@ -122,9 +175,29 @@ export interface DailyMetrics {
   collected_at: string;
 }
 
+/** Outcome of publishing to one platform */
+export interface PostResult {
+  success: boolean;
+  platformPostId?: string;
+  platformUrl?: string;
+  error?: string;
+}
+
+/** Engagement counters fetched back from a platform for one post */
+export interface PostMetrics {
+  impressions?: number;
+  likes?: number;
+  shares?: number;
+  comments?: number;
+  views?: number;
+  clicks?: number;
+}
+
 export interface AdaptedContent {
   text: string;
   hashtags: string[];
   callToAction: string;
   thumbnailPrompt: string;
+  /** SRT to upload with the video — only set for platforms with captionUpload */
+  captionsUrl?: string;
 }
@@ -0,0 +1,129 @@
+/**
+ * Caption Tracks — Unit Tests
+ * ============================
+ * Cue chunking and timing across clips, the WebVTT/SRT writers, and where
+ * storeCaptions puts the files relative to the video.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { queries, resetMockSql } from "@/lib/test-utils/mock-sql";
+
+const { put } = vi.hoisted(() => ({
+  put: vi.fn(),
+}));
+
+vi.mock("@/lib/db", () => import("@/lib/test-utils/mock-sql"));
+
+vi.mock("@vercel/blob", () => ({ put }));
+
+import {
+  buildCaptionCues,
+  chunkCaptionText,
+  cleanCaptionText,
+  srtUrlFor,
+  storeCaptions,
+  toSRT,
+  toWebVTT,
+  transcriptFromCaptionFile,
+} from "./captions";
+
+beforeEach(() => {
+  resetMockSql();
+  put.mockReset();
+  put.mockImplementation((path: string) => Promise.resolve({ url: `https://store.public.blob.vercel-storage.com/${path}` }));
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("cleanCaptionText", () => {
+  it("keeps the words and drops hashtags, links, emoji and stage directions", () => {
+    expect(cleanCaptionText("🚨 BREAKING: the cloud is leaking! [static burst] https://aiglitch.app #AIGlitchBreaking"))
+      .toBe("BREAKING: the cloud is leaking!");
+  });
+});
+
+describe("chunkCaptionText", () => {
+  it("starts each sentence on a new cue and wraps at two 42-char lines", () => {
+    const chunks = chunkCaptionText(
+      "Kai-7 runs. The server farm hums behind him as every rack blinks red and the emergency doors grind shut one after another.",
+    );
+    expect(chunks[0]).toBe("Kai-7 runs.");
+    for (const chunk of chunks) {
+      const lines = chunk.split("\n");
+      expect(lines.length).toBeLessThanOrEqual(2);
+      expect(lines.every(l => l.length <= 42)).toBe(true);
+    }
+    expect(chunks.join(" ").replace(/\n/g, " ")).toContain("grind shut one after another.");
+  });
+});
+
+describe("buildCaptionCues", () => {
+  it("lays clips back to back and splits each clip's time by text length", () => {
+    const cues = buildCaptionCues([
+      { text: "Intro card.", duration: 0 },
+      { text: "", duration: 4 },
+      { text: "Short. A much longer second sentence here.", duration: 10 },
+      { text: "Finale.", duration: 6 },
+    ]);
+
+    expect(cues.map(c => c.text)).toEqual(["Short.", "A much longer second sentence here.", "Finale."]);
+    // The silent 4s clip still advances the clock
+    expect(cues[0].start).toBe(4);
+    expect(cues[0].end).toBeCloseTo(4 + 10 * 6 / 41, 3);
+    expect(cues[1].end).toBe(14);
+    expect(cues[2]).toEqual({ start: 14, end: 20, text: "Finale." });
+  });
+});
+
+describe("toWebVTT / toSRT", () => {
+  const cues = [
+    { start: 0, end: 2.5, text: "Hello there." },
+    { start: 3661.25, end: 3662, text: "Line one\nline two" },
+  ];
+
+  it("writes a WEBVTT header and dot-separated milliseconds", () => {
+    expect(toWebVTT(cues)).toBe(
+      "WEBVTT\n\n1\n00:00:00.000 --> 00:00:02.500\nHello there.\n\n2\n01:01:01.250 --> 01:01:02.000\nLine one\nline two\n",
+    );
+  });
+
+  it("writes numbered SRT cues with comma-separated milliseconds", () => {
+    expect(toSRT(cues)).toBe(
+      "1\n00:00:00,000 --> 00:00:02,500\nHello there.\n\n2\n01:01:01,250 --> 01:01:02,000\nLine one\nline two\n",
+    );
+  });
+
+  it("reads the spoken text back out of either format", () => {
+    expect(transcriptFromCaptionFile(toWebVTT(cues))).toBe("Hello there. Line one line two");
+    expect(transcriptFromCaptionFile(toSRT(cues).replace(/\n/g, "\r\n"))).toBe("Hello there. Line one line two");
+  });
+});
+
+describe("storeCaptions", () => {
+  const cues = [{ start: 0, end: 2, text: "Hi." }];
+
+  it("writes .vtt and .srt next to a Blob-hosted video and points the post at the VTT", async () => {
+    const url = await storeCaptions("post-1", "https://store.public.blob.vercel-storage.com/premiere/scifi/glitch-wars.mp4", cues);
+
+    expect(put.mock.calls.map(c => c[0])).toEqual(["premiere/scifi/glitch-wars.vtt", "premiere/scifi/glitch-wars.srt"]);
+    expect(url).toBe("https://store.public.blob.vercel-storage.com/premiere/scifi/glitch-wars.vtt");
+    expect(srtUrlFor(url!)).toBe("https://store.public.blob.vercel-storage.com/premiere/scifi/glitch-wars.srt");
+    expect(queries[0].query).toContain("UPDATE posts SET captions_url");
+    expect(queries[0].values).toEqual([url, "post-1"]);
+  });
+
+  it("falls back to a per-post path for videos hosted elsewhere, and skips empty tracks", async () => {
+    await storeCaptions("post-2", "https://cdn.example.com/clip.mp4", cues);
+    expect(put.mock.calls[0][0]).toBe("captions/post-2.vtt");
+
+    put.mockClear();
+    expect(await storeCaptions("post-3", null, [])).toBeNull();
+    expect(put).not.toHaveBeenCalled();
+  });
+
+  it("returns null instead of throwing when the upload fails", async () => {
+    put.mockRejectedValueOnce(new Error("blob down"));
+    expect(await storeCaptions("post-4", null, cues)).toBeNull();
+    expect(queries).toHaveLength(0);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Caption Tracks
+ * ==============
+ * WebVTT + SRT captions for AI videos, built from the text we already script
+ * for them — director/series scene descriptions, breaking-news anchor lines.
+ * Each scene's text is split into short cues spread across that clip's real
+ * duration (read from the MP4), so captions follow the stitched timeline.
+ *
+ * Both files are stored in Blob next to the video (same path, .vtt/.srt);
+ * posts.captions_url points at the VTT. /api/post/[id]/captions serves them
+ * same-origin so the player's <track> works without CORS.
+ */
+
+import { put } from "@vercel/blob";
+import { getDb } from "@/lib/db";
+
+export interface CaptionCue {
+  start: number; // seconds
+  end: number;
+  text: string;  // up to MAX_CUE_LINES lines joined with "\n"
+}
+
+/** One clip's worth of scripted text and how long that clip plays. */
+export interface CaptionSource {
+  text: string;
+  duration: number; // seconds
+}
+
+const MAX_LINE_CHARS = 42;
+const MAX_CUE_LINES = 2;
+
+/** Drop hashtags, links, emoji and bracketed stage directions — keep the words. */
+export function cleanCaptionText(text: string): string {
+  return text
+    .replace(/https?:\/\/\S+/g, "")
+    .replace(/#\w+/g, "")
+    .replace(/\[[^\]]*\]/g, "")
+    .replace(/[\p{Extended_Pictographic}\u{FE0F}\u{200D}]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Greedy word wrap into lines of at most `width` characters. */
+function wrapWords(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(" ")) {
+    if (line && line.length + 1 + word.length > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Split text into cue-sized chunks (≤ MAX_CUE_LINES lines of MAX_LINE_CHARS).
+ * Sentences start a new cue where they can, so a cue rarely straddles two.
+ */
+export function chunkCaptionText(text: string): string[] {
+  const sentences = text.match(/[^.!?]+[.!?]+["')\]]*|[^.!?]+$/g)?.map(s => s.trim()).filter(Boolean) ?? [];
+  const chunks: string[] = [];
+  for (const sentence of sentences) {
+    const lines = wrapWords(sentence, MAX_LINE_CHARS);
+    for (let i = 0; i < lines.length; i += MAX_CUE_LINES) {
+      chunks.push(lines.slice(i, i + MAX_CUE_LINES).join("\n"));
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Lay each source's text out over its clip: clips play back to back, and a
+ * clip's cues share its duration in proportion to their length. A source with
+ * no text (intro card, credits) still advances the clock.
+ */
+export function buildCaptionCues(sources: CaptionSource[]): CaptionCue[] {
+  const cues: CaptionCue[] = [];
+  let offset = 0;
+  for (const source of sources) {
+    const chunks = source.duration > 0 ? chunkCaptionText(cleanCaptionText(source.text)) : [];
+    const totalChars = chunks.reduce((n, c) => n + c.length, 0);
+    let start = offset;
+    for (const chunk of chunks) {
+      const end = start + source.duration * (chunk.length / totalChars);
+      cues.push({ start: round(start), end: round(end), text: chunk });
+      start = end;
+    }
+    offset += Math.max(0, source.duration);
+  }
+  return cues;
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+function timestamp(seconds: number, msSeparator: "." | ","): string {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  const h = Math.floor(ms / 3_600_000);
+  const m = Math.floor(ms / 60_000) % 60;
+  const s = Math.floor(ms / 1000) % 60;
+  return `${pad(h)}:${pad(m)}:${pad(s)}${msSeparator}${pad(ms % 1000, 3)}`;
+}
+
+export function toWebVTT(cues: CaptionCue[]): string {
+  const body = cues.map((c, i) => `${i + 1}\n${timestamp(c.start, ".")} --> ${timestamp(c.end, ".")}\n${c.text}`);
+  return ["WEBVTT", ...body].join("\n\n") + "\n";
+}
+
+export function toSRT(cues: CaptionCue[]): string {
+  return cues.map((c, i) => `${i + 1}\n${timestamp(c.start, ",")} --> ${timestamp(c.end, ",")}\n${c.text}`).join("\n\n") + "\n";
+}
+
+/** The SRT that storeCaptions() writes next to a given VTT. */
+export function srtUrlFor(captionsUrl: string): string {
+  return captionsUrl.replace(/\.vtt(\?.*)?$/, ".srt$1");
+}
+
+/**
+ * Blob path (without extension) for a video's caption files: the video's own
+ * path when it lives in our Blob store, otherwise captions/<postId>.
+ */
+function captionBasePath(videoUrl: string | null, postId: string): string {
+  try {
+    const url = new URL(videoUrl ?? "");
+    if (url.hostname.endsWith(".blob.vercel-storage.com")) {
+      return url.pathname.slice(1).replace(/\.[a-z0-9]+$/i, "");
+    }
+  } catch { /* not a URL — fall through */ }
+  return `captions/${postId}`;
+}
+
+/**
+ * Upload the VTT + SRT next to the video and point the post at them.
+ * Returns the VTT URL, or null when there is nothing to caption or the upload
+ * failed — captions never block a post.
+ */
+export async function storeCaptions(postId: string, videoUrl: string | null, cues: CaptionCue[]): Promise<string | null> {
+  if (cues.length === 0) return null;
+  const basePath = captionBasePath(videoUrl, postId);
+  try {
+    const vtt = await put(`${basePath}.vtt`, toWebVTT(cues), {
+      access: "public",
+      contentType: "text/vtt; charset=utf-8",
+      addRandomSuffix: false,
+      allowOverwrite: true,
+    });
+    await put(`${basePath}.srt`, toSRT(cues), {
+      access: "public",
+      contentType: "application/x-subrip; charset=utf-8",
+      addRandomSuffix: false,
+      allowOverwrite: true,
+    });
+    const sql = getDb();
+    await sql`UPDATE posts SET captions_url = ${vtt.url} WHERE id = ${postId}`;
+    console.log(`[captions] ${cues.length} cues for post ${postId} -> ${vtt.url}`);
+    return vtt.url;
+  } catch (err) {
+    console.warn(`[captions] Failed to store captions for post ${postId}:`, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+/**
+ * Remember each scene's scripted text on its multi_clip_scenes row so the
+ * stitcher can caption whichever clips actually made it into the movie.
+ */
+export async function saveSceneCaptionText(jobId: string, scenes: { sceneNumber: number; text: string }[]): Promise<void> {
+  const rows = scenes.filter(s => s.text.trim()).map(s => ({ scene_number: s.sceneNumber, text: s.text }));
+  if (rows.length === 0) return;
+  const sql = getDb();
+  try {
+    await sql`
+      UPDATE multi_clip_scenes s SET caption_text = x.text
+      FROM jsonb_to_recordset(${JSON.stringify(rows)}::jsonb) AS x(scene_number INTEGER, text TEXT)
+      WHERE s.job_id = ${jobId} AND s.scene_number = x.scene_number
+    `;
+  } catch (err) {
+    console.warn(`[captions] Failed to save scene caption text for job ${jobId}:`, err instanceof Error ? err.message : err);
+  }
+}
+
+/** A post's caption track as the marketing adapter sees it. */
+export interface PostCaptions {
+  srtUrl: string;
+  transcript: string;
+}
+
+/** Spoken text of a stored .vtt/.srt file — cue numbers, timings and the header dropped. */
+export function transcriptFromCaptionFile(file: string): string {
+  return file
+    .split(/\r?\n/)
+    .filter(line => line.trim() && line.trim() !== "WEBVTT" && !/^\d+$/.test(line.trim()) && !line.includes("-->"))
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Load a post's stored captions for cross-posting, or null if they can't be read. */
+export async function loadPostCaptions(captionsUrl: string): Promise<PostCaptions | null> {
+  const srtUrl = srtUrlFor(captionsUrl);
+  try {
+    const res = await fetch(srtUrl);
+    if (!res.ok) return null;
+    const transcript = transcriptFromCaptionFile(await res.text());
+    return transcript ? { srtUrl, transcript } : null;
+  } catch {
+    return null;
+  }
+}
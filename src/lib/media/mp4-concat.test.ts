@@ -0,0 +1,404 @@
+/**
+ * MP4 Concatenation — Unit Tests
+ * ===============================
+ * Builds tiny synthetic MP4s (ftyp + mdat + moov with real sample tables)
+ * and checks that stitched output keeps every sample pointing at the right
+ * bytes, that intro/outro/title segments land in order, that trims become
+ * edit lists, that clips with a different codec config are rejected, and
+ * that the fragmented MP4 + HLS playlist address every fragment correctly.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  CodecMismatchError,
+  buildHLSPlaylist,
+  concatMP4Clips,
+  concatMP4Segments,
+  fragmentMP4Clips,
+  readMP4Duration,
+} from "./mp4-concat";
+
+// ── Synthetic MP4 fixtures ──────────────────────────────────────────────
+
+const VIDEO_TIMESCALE = 12800;
+const FRAME_DELTA = 512; // 25fps
+const AUDIO_TIMESCALE = 44100;
+const AUDIO_DELTA = 1024;
+const MOVIE_TIMESCALE = 1000;
+const VIDEO_SAMPLE_SIZE = 64;
+const AUDIO_SAMPLE_SIZE = 16;
+
+interface FixtureOptions {
+  /** First byte of every sample, so tests can tell clips apart in the output */
+  marker: number;
+  frames?: number;
+  width?: number;
+  height?: number;
+  /** Stands in for the avcC profile byte — same format + size, different config */
+  profile?: number;
+  audio?: boolean;
+}
+
+function box(type: string, ...content: Buffer[]): Buffer {
+  const body = Buffer.concat(content);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + body.length, 0);
+  header.write(type, 4, "ascii");
+  return Buffer.concat([header, body]);
+}
+
+function fullBox(type: string, body: Buffer): Buffer {
+  return box(type, Buffer.alloc(4), body);
+}
+
+function u32(...values: number[]): Buffer {
+  const b = Buffer.alloc(values.length * 4);
+  values.forEach((v, i) => b.writeUInt32BE(v, i * 4));
+  return b;
+}
+
+function timed(type: "mvhd" | "mdhd", timescale: number, duration: number): Buffer {
+  // creation(4) + modification(4) + timescale(4) + duration(4) + rest
+  const body = Buffer.alloc(type === "mvhd" ? 96 : 20);
+  body.writeUInt32BE(timescale, 8);
+  body.writeUInt32BE(duration, 12);
+  return fullBox(type, body);
+}
+
+function tkhd(trackId: number, duration: number): Buffer {
+  const body = Buffer.alloc(80);
+  body.writeUInt32BE(trackId, 8);
+  body.writeUInt32BE(duration, 16);
+  return fullBox("tkhd", body);
+}
+
+function hdlr(handler: "vide" | "soun"): Buffer {
+  return fullBox("hdlr", Buffer.concat([u32(0), Buffer.from(handler, "ascii"), Buffer.alloc(13)]));
+}
+
+function videoStsd(width: number, height: number, profile: number): Buffer {
+  const entry = Buffer.alloc(78);
+  entry.writeUInt16BE(1, 6); // data_reference_index
+  entry.writeUInt16BE(width, 24);
+  entry.writeUInt16BE(height, 26);
+  const avcC = box("avcC", Buffer.from([1, profile, 0, 31]));
+  return fullBox("stsd", Buffer.concat([u32(1), box("avc1", entry, avcC)]));
+}
+
+function audioStsd(): Buffer {
+  const entry = Buffer.alloc(28);
+  entry.writeUInt16BE(1, 6);
+  entry.writeUInt16BE(2, 16); // channels
+  entry.writeUInt16BE(16, 18); // sample size
+  entry.writeUInt32BE(AUDIO_TIMESCALE * 65536, 24);
+  return fullBox("stsd", Buffer.concat([u32(1), box("mp4a", entry)]));
+}
+
+function trak(opts: {
+  id: number; handler: "vide" | "soun"; stsd: Buffer; timescale: number; delta: number;
+  samples: number; sampleSize: number; chunkOffset: number; movieDuration: number; sync: boolean;
+}): Buffer {
+  const stbl = box(
+    "stbl",
+    opts.stsd,
+    fullBox("stts", u32(1, opts.samples, opts.delta)),
+    fullBox("stsc", u32(1, 1, opts.samples, 1)),
+    fullBox("stsz", u32(0, opts.samples, ...Array(opts.samples).fill(opts.sampleSize))),
+    fullBox("stco", u32(1, opts.chunkOffset)),
+    ...(opts.sync ? [fullBox("stss", u32(1, 1))] : []),
+  );
+  return box(
+    "trak",
+    tkhd(opts.id, opts.movieDuration),
+    box("mdia", timed("mdhd", opts.timescale, opts.samples * opts.delta), hdlr(opts.handler), box("minf", stbl)),
+  );
+}
+
+/** A tiny single-chunk MP4: `frames` video samples, plus ~the same length of audio. */
+function makeClip({ marker, frames = 10, width = 1280, height = 720, profile = 100, audio = true }: FixtureOptions): Buffer {
+  const audioSamples = audio ? Math.round((frames * FRAME_DELTA / VIDEO_TIMESCALE) * AUDIO_TIMESCALE / AUDIO_DELTA) : 0;
+  const samples = (count: number, size: number) =>
+    Buffer.concat(Array.from({ length: count }, (_, i) => Buffer.alloc(size, 0).fill(marker, 0, 1).fill(i, 1, 2)));
+
+  const ftyp = box("ftyp", Buffer.from("isom", "ascii"), u32(512), Buffer.from("isomavc1", "ascii"));
+  const mdat = box("mdat", samples(frames, VIDEO_SAMPLE_SIZE), samples(audioSamples, AUDIO_SAMPLE_SIZE));
+  const videoOffset = ftyp.length + 8;
+  const movieDuration = Math.round(frames * FRAME_DELTA * MOVIE_TIMESCALE / VIDEO_TIMESCALE);
+
+  const moov = box(
+    "moov",
+    timed("mvhd", MOVIE_TIMESCALE, movieDuration),
+    trak({
+      id: 1, handler: "vide", stsd: videoStsd(width, height, profile), timescale: VIDEO_TIMESCALE, delta: FRAME_DELTA,
+      samples: frames, sampleSize: VIDEO_SAMPLE_SIZE, chunkOffset: videoOffset, movieDuration, sync: true,
+    }),
+    ...(audio
+      ? [trak({
+          id: 2, handler: "soun", stsd: audioStsd(), timescale: AUDIO_TIMESCALE, delta: AUDIO_DELTA,
+          samples: audioSamples, sampleSize: AUDIO_SAMPLE_SIZE, chunkOffset: videoOffset + frames * VIDEO_SAMPLE_SIZE,
+          movieDuration, sync: false,
+        })]
+      : []),
+  );
+  return Buffer.concat([ftyp, mdat, moov]);
+}
+
+// ── Output inspection ───────────────────────────────────────────────────
+
+interface ParsedBox { type: string; start: number; end: number; children: ParsedBox[] }
+
+const CONTAINERS = new Set(["moov", "trak", "mdia", "minf", "stbl", "edts", "mvex", "moof", "traf"]);
+
+function parse(buf: Buffer, start = 0, end = buf.length): ParsedBox[] {
+  const out: ParsedBox[] = [];
+  for (let pos = start; pos + 8 <= end;) {
+    const size = buf.readUInt32BE(pos);
+    const type = buf.toString("ascii", pos + 4, pos + 8);
+    out.push({ type, start: pos + 8, end: pos + size, children: CONTAINERS.has(type) ? parse(buf, pos + 8, pos + size) : [] });
+    pos += size;
+  }
+  return out;
+}
+
+function child(b: ParsedBox, ...path: string[]): ParsedBox | undefined {
+  let cur: ParsedBox | undefined = b;
+  for (const type of path) cur = cur?.children.find((c) => c.type === type);
+  return cur;
+}
+
+function inspect(buf: Buffer) {
+  const moov = parse(buf).find((b) => b.type === "moov")!;
+  const traks = moov.children.filter((c) => c.type === "trak");
+  const mvhd = moov.children.find((c) => c.type === "mvhd")!;
+
+  const track = (t: ParsedBox) => {
+    const stbl = child(t, "mdia", "minf", "stbl")!;
+    const sizesBox = child(stbl, "stsz")!;
+    const sizeCount = buf.readUInt32BE(sizesBox.start + 8);
+    const co64 = child(stbl, "co64")!;
+    const chunks = Array.from({ length: buf.readUInt32BE(co64.start + 4) }, (_, i) => buf.readUInt32BE(co64.start + 12 + i * 8));
+    const elst = child(t, "edts", "elst");
+    const edits = elst
+      ? Array.from({ length: buf.readUInt32BE(elst.start + 4) }, (_, i) => ({
+          segmentDuration: buf.readUInt32BE(elst.start + 8 + i * 12),
+          mediaTime: buf.readInt32BE(elst.start + 12 + i * 12),
+        }))
+      : null;
+    return {
+      samples: sizeCount,
+      /** Marker byte at the start of each chunk — one chunk per source segment */
+      chunkMarkers: chunks.map((o) => buf[o]),
+      edits,
+      tkhdDuration: buf.readUInt32BE(child(t, "tkhd")!.start + 20),
+    };
+  };
+
+  return {
+    movieDuration: buf.readUInt32BE(mvhd.start + 16),
+    trackCount: traks.length,
+    video: track(traks[0]),
+    audio: traks[1] ? track(traks[1]) : null,
+  };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+// ── Tests ───────────────────────────────────────────────────────────────
+
+describe("concatMP4Clips", () => {
+  it("combines video and audio sample tables with offsets into the new mdat", () => {
+    const out = inspect(concatMP4Clips([makeClip({ marker: 0xa1 }), makeClip({ marker: 0xa2 })]));
+
+    expect(out.trackCount).toBe(2);
+    expect(out.video.samples).toBe(20);
+    expect(out.video.chunkMarkers).toEqual([0xa1, 0xa2]);
+    expect(out.audio?.chunkMarkers).toEqual([0xa1, 0xa2]);
+    expect(out.movieDuration).toBe(800); // 2 × 0.4s
+    // No trims: the template had no edit list, so none is added
+    expect(out.video.edits).toBeNull();
+  });
+
+  it("returns a single untrimmed clip unchanged", () => {
+    const clip = makeClip({ marker: 1 });
+    expect(concatMP4Clips([clip])).toBe(clip);
+  });
+
+  it("places intro, title cards and outro around the clips in order", () => {
+    const out = inspect(concatMP4Clips([makeClip({ marker: 0xa1 }), makeClip({ marker: 0xa2 })], {
+      intro: makeClip({ marker: 0x11, frames: 5 }),
+      titleCards: [{ before: 1, buffer: makeClip({ marker: 0x77, frames: 5 }) }],
+      outro: makeClip({ marker: 0xee, frames: 5 }),
+    }));
+
+    expect(out.video.chunkMarkers).toEqual([0x11, 0xa1, 0x77, 0xa2, 0xee]);
+    expect(out.video.samples).toBe(35);
+    expect(out.movieDuration).toBe(1400);
+  });
+
+  it("turns head/tail trims into an edit list snapped to whole frames", () => {
+    const out = inspect(concatMP4Clips(
+      [makeClip({ marker: 0xa1 }), makeClip({ marker: 0xa2 }), makeClip({ marker: 0xa3 })],
+      { trims: [undefined, { head: 0.09, tail: 0.04 }] },
+    ));
+
+    // 0.09s snaps to 2 frames (1024), 0.04s to 1 frame; every sample is still stored
+    expect(out.video.samples).toBe(30);
+    expect(out.video.edits).toEqual([
+      { mediaTime: 0, segmentDuration: 400 },
+      { mediaTime: 5120 + 1024, segmentDuration: 280 },
+      { mediaTime: 10240, segmentDuration: 400 },
+    ]);
+    expect(out.video.tkhdDuration).toBe(1080);
+    expect(out.movieDuration).toBe(1080);
+    // Audio is cut at the same points, in its own timescale
+    expect(out.audio?.edits?.[1].mediaTime).toBe(17 * AUDIO_DELTA + Math.round(0.08 * AUDIO_TIMESCALE));
+  });
+
+  it("rejects a trim that removes the whole clip", () => {
+    expect(() => concatMP4Clips([makeClip({ marker: 1 }), makeClip({ marker: 2 })], { trims: [{ head: 0.3, tail: 0.2 }] }))
+      .toThrow(/removes the whole clip/);
+  });
+});
+
+describe("codec validation", () => {
+  it("throws CodecMismatchError for a clip with different dimensions", () => {
+    const err = (() => {
+      try {
+        concatMP4Clips([makeClip({ marker: 1 }), makeClip({ marker: 2, width: 720, height: 1280 })]);
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(err).toBeInstanceOf(CodecMismatchError);
+    expect(err).toMatchObject({ segmentIndex: 1, track: "video" });
+    expect((err as Error).message).toContain("avc1 720x1280, expected avc1 1280x720");
+  });
+
+  it("catches codec config differences that the format and size don't show", () => {
+    expect(() => concatMP4Clips([makeClip({ marker: 1 }), makeClip({ marker: 2, profile: 66 })]))
+      .toThrow(/avc1 1280x720 with different codec parameters/);
+  });
+
+  it("drops an optional segment that doesn't match instead of failing", () => {
+    const out = inspect(concatMP4Clips([makeClip({ marker: 0xa1 }), makeClip({ marker: 0xa2 })], {
+      intro: makeClip({ marker: 0x11, width: 1920, height: 1080 }),
+      outro: makeClip({ marker: 0xee }),
+    }));
+    expect(out.video.chunkMarkers).toEqual([0xa1, 0xa2, 0xee]);
+  });
+
+  it("uses the first required clip as the template even after an intro", () => {
+    const out = inspect(concatMP4Segments([
+      { buffer: makeClip({ marker: 0x11, profile: 66 }), kind: "intro" },
+      { buffer: makeClip({ marker: 0xa1 }) },
+      { buffer: makeClip({ marker: 0xa2 }) },
+    ]));
+    expect(out.video.chunkMarkers).toEqual([0xa1, 0xa2]);
+  });
+
+  it("drops a silent title card rather than the soundtrack", () => {
+    const out = inspect(concatMP4Clips([makeClip({ marker: 0xa1 }), makeClip({ marker: 0xa2 })], {
+      titleCards: [{ before: 1, buffer: makeClip({ marker: 0x77, audio: false }) }],
+    }));
+    expect(out.video.chunkMarkers).toEqual([0xa1, 0xa2]);
+    expect(out.audio?.chunkMarkers).toEqual([0xa1, 0xa2]);
+  });
+
+  it("leaves out the audio track when a required clip is silent", () => {
+    const out = inspect(concatMP4Clips([makeClip({ marker: 0xa1 }), makeClip({ marker: 0xa2, audio: false })]));
+    expect(out.trackCount).toBe(1);
+    expect(out.video.chunkMarkers).toEqual([0xa1, 0xa2]);
+  });
+});
+
+describe("fragmentMP4Clips", () => {
+  function readFragment(buf: Buffer, offset: number) {
+    const [moof, mdat] = parse(buf, offset, buf.length).slice(0, 2);
+    const trafs = moof.children.filter((c) => c.type === "traf").map((traf) => {
+      const tfhd = child(traf, "tfhd")!;
+      const tfdt = child(traf, "tfdt")!;
+      const trun = child(traf, "trun")!;
+      const dataOffset = buf.readInt32BE(trun.start + 8);
+      return {
+        trackId: buf.readUInt32BE(tfhd.start + 4),
+        baseMediaDecodeTime: buf.readUInt32BE(tfdt.start + 8),
+        samples: buf.readUInt32BE(trun.start + 4),
+        firstSampleFlags: buf.readUInt32BE(trun.start + 12 + 8),
+        secondSampleFlags: buf.readUInt32BE(trun.start + 12 + 12 + 8),
+        // data_offset is relative to the moof start (default-base-is-moof)
+        marker: buf[moof.start - 8 + dataOffset],
+      };
+    });
+    return { moof, mdat, trafs };
+  }
+
+  it("writes an init segment and one moof/mdat per clip", () => {
+    const fmp4 = fragmentMP4Clips([makeClip({ marker: 0xa1 }), makeClip({ marker: 0xa2 })], {
+      outro: makeClip({ marker: 0xee, frames: 5 }),
+    });
+    const top = parse(fmp4.data);
+
+    expect(top.map((b) => b.type)).toEqual(["ftyp", "moov", "moof", "mdat", "moof", "mdat", "moof", "mdat"]);
+    expect(fmp4.data.toString("ascii", 8, 12)).toBe("iso6");
+    expect(fmp4.init).toEqual({ offset: 0, length: top[1].end });
+
+    const moov = top[1];
+    const trex = child(moov, "mvex")!.children.filter((c) => c.type === "trex");
+    expect(trex.map((t) => fmp4.data.readUInt32BE(t.start + 4))).toEqual([1, 2]);
+    // The init segment carries codec config but no samples
+    const stsz = child(moov.children.filter((c) => c.type === "trak")[0], "mdia", "minf", "stbl", "stsz")!;
+    expect(fmp4.data.readUInt32BE(stsz.start + 8)).toBe(0);
+    expect(child(moov.children.filter((c) => c.type === "trak")[0], "mdia", "minf", "stbl", "stsd")).toBeDefined();
+
+    expect(fmp4.fragments.map((f) => f.duration)).toEqual([0.4, 0.4, 0.2]);
+    expect(fmp4.fragments[0].offset).toBe(fmp4.init.length);
+    expect(fmp4.fragments[2].offset + fmp4.fragments[2].length).toBe(fmp4.data.length);
+  });
+
+  it("points each track run at its clip's samples with running decode times", () => {
+    const fmp4 = fragmentMP4Clips([makeClip({ marker: 0xa1 }), makeClip({ marker: 0xa2 })]);
+
+    const first = readFragment(fmp4.data, fmp4.fragments[0].offset);
+    const second = readFragment(fmp4.data, fmp4.fragments[1].offset);
+
+    expect(first.trafs.map((t) => [t.trackId, t.samples, t.marker])).toEqual([[1, 10, 0xa1], [2, 17, 0xa1]]);
+    expect(second.trafs.map((t) => [t.trackId, t.baseMediaDecodeTime, t.marker])).toEqual([
+      [1, 10 * FRAME_DELTA, 0xa2],
+      [2, 17 * AUDIO_DELTA, 0xa2],
+    ]);
+    // Only the first video frame is a sync sample
+    expect(first.trafs[0].firstSampleFlags).toBe(0x02000000);
+    expect(first.trafs[0].secondSampleFlags).toBe(0x01010000);
+  });
+
+  it("rejects clips with a different codec config just like concatenation", () => {
+    expect(() => fragmentMP4Clips([makeClip({ marker: 1 }), makeClip({ marker: 2, profile: 66 })]))
+      .toThrow(CodecMismatchError);
+  });
+});
+
+describe("buildHLSPlaylist", () => {
+  it("addresses the init segment and each fragment by byte range", () => {
+    const fmp4 = fragmentMP4Clips([makeClip({ marker: 0xa1 }), makeClip({ marker: 0xa2, frames: 30 })]);
+    const playlist = buildHLSPlaylist(fmp4, "https://blob.test/movie.fmp4.mp4").split("\n");
+
+    expect(playlist[0]).toBe("#EXTM3U");
+    expect(playlist).toContain("#EXT-X-VERSION:7");
+    expect(playlist).toContain("#EXT-X-TARGETDURATION:2");
+    expect(playlist).toContain(`#EXT-X-MAP:URI="https://blob.test/movie.fmp4.mp4",BYTERANGE="${fmp4.init.length}@0"`);
+    expect(playlist).toContain(`#EXT-X-BYTERANGE:${fmp4.fragments[1].length}@${fmp4.fragments[1].offset}`);
+    expect(playlist.filter((l) => l.startsWith("#EXTINF"))).toEqual(["#EXTINF:0.400,", "#EXTINF:1.200,"]);
+    expect(playlist[playlist.length - 2]).toBe("#EXT-X-ENDLIST");
+  });
+});
+
+describe("readMP4Duration", () => {
+  it("reads the movie duration in seconds, or null for non-MP4 data", () => {
+    expect(readMP4Duration(makeClip({ marker: 1, frames: 25 }))).toBe(1);
+    expect(readMP4Duration(Buffer.from("not an mp4 at all"))).toBeNull();
+  });
+});
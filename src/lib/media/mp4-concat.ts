@@ -13,9 +13,15 @@
  * Algorithm:
  *   1. Parse each MP4's ISO BMFF box structure
  *   2. Extract mdat (media data) and sample tables from BOTH tracks per clip
- *   3. Use the first clip's moov as a structural template (preserving codec config)
- *   4. Rebuild moov with combined sample tables and updated durations
- *   5. Output: ftyp + combined mdat + rebuilt moov
+ *   3. Check every clip's stsd (codec config) against the template clip
+ *   4. Use the first clip's moov as a structural template (preserving codec config)
+ *   5. Rebuild moov with combined sample tables, an edit list that applies
+ *      per-clip head/tail trims, and updated durations
+ *   6. Output: ftyp + combined mdat + rebuilt moov
+ *
+ * Intro/outro and title-card segments (e.g. generateSponsorClip() output from
+ * sponsor-overlay.ts) are just more clips — see ConcatOptions. Trims never
+ * drop samples; the edit list tells players which media time ranges to show.
  *
  * No external dependencies. Runs in Node.js on Vercel serverless.
  */
@@ -30,6 +36,50 @@ interface Box {
   children?: Box[];
 }
 
+/** Seconds to cut from the start/end of a clip (snapped to whole video frames). */
+export interface ClipTrim {
+  head?: number;
+  tail?: number;
+}
+
+export type SegmentKind = "intro" | "title" | "clip" | "outro";
+
+/** One piece of the output video, in play order. */
+export interface ConcatSegment {
+  buffer: Buffer;
+  kind?: SegmentKind;
+  trim?: ClipTrim;
+  /**
+   * Drop this segment (with a warning) if its codec config doesn't match,
+   * instead of failing the whole stitch. Defaults to true for everything
+   * except "clip" — a missing intro card shouldn't cost us the movie.
+   */
+  optional?: boolean;
+}
+
+export interface ConcatOptions {
+  /** Pre-rendered segment played before the first clip */
+  intro?: Buffer | null;
+  /** Pre-rendered segment played after the last clip (e.g. a sponsor thank-you) */
+  outro?: Buffer | null;
+  /** Title cards, each inserted before the clip at `before` (0-based) */
+  titleCards?: { before: number; buffer: Buffer }[];
+  /** Per-clip trims, by index into the clip list */
+  trims?: (ClipTrim | null | undefined)[];
+}
+
+/** Thrown when a required clip's codec config differs from the template clip's. */
+export class CodecMismatchError extends Error {
+  constructor(
+    readonly segmentIndex: number,
+    readonly track: "video" | "audio",
+    detail: string,
+  ) {
+    super(`Segment ${segmentIndex} ${track} codec config differs from the first clip: ${detail}`);
+    this.name = "CodecMismatchError";
+  }
+}
+
 /** Per-track sample table info extracted from a single clip. */
 interface TrackInfo {
   sampleSizes: number[];
@@ -40,6 +90,9 @@ interface TrackInfo {
   cttsEntries: { count: number; offset: number }[] | null;
   cttsVersion: number;
   mediaDuration: number;
+  timescale: number;
+  /** Raw stsd box — the codec config every stitched clip must share */
+  stsd: Buffer;
 }
 
 /** Per-clip info: mdat data + per-track sample tables. */
@@ -47,10 +100,17 @@ interface ClipInfo {
   mdatData: Buffer;
   mdatOffset: number;
   movieDuration: number;
+  movieTimescale: number;
   video: TrackInfo;
   audio: TrackInfo | null;
 }
 
+/** One elst entry: play `segmentDuration` (movie timescale) starting at `mediaTime` (media timescale). */
+interface EditEntry {
+  segmentDuration: number;
+  mediaTime: number;
+}
+
 // Container boxes that have child boxes
 const CONTAINERS = new Set([
   "moov", "trak", "mdia", "minf", "stbl", "edts", "udta", "dinf",
@@ -228,10 +288,12 @@ function extractTrackInfo(buf: Buffer, trak: Box): TrackInfo {
   const stcoBox = stbl.children.find(b => b.type === "stco") || stbl.children.find(b => b.type === "co64");
   const stssBox = stbl.children.find(b => b.type === "stss");
   const cttsBox = stbl.children.find(b => b.type === "ctts");
+  const stsdBox = stbl.children.find(b => b.type === "stsd");
 
   if (!sttsBox || !stscBox || !stszBox || !stcoBox) {
     throw new Error("Missing required sample table boxes (stts/stsc/stsz/stco)");
   }
+  if (!stsdBox) throw new Error("No stsd box found in track");
 
   const mdhdBox = findBox(trak.children || [], "mdia", "mdhd");
   if (!mdhdBox) throw new Error("No mdhd box found in track");
@@ -254,6 +316,8 @@ function extractTrackInfo(buf: Buffer, trak: Box): TrackInfo {
     cttsEntries,
     cttsVersion,
     mediaDuration: mdhd.duration,
+    timescale: mdhd.timescale,
+    stsd: buf.subarray(stsdBox.offset, stsdBox.offset + stsdBox.size),
   };
 }
 
@@ -294,11 +358,25 @@ function extractClipInfo(buf: Buffer, boxes: Box[]): ClipInfo {
     mdatData,
     mdatOffset: mdatDataStart,
     movieDuration: mvhd.duration,
+    movieTimescale: mvhd.timescale,
     video: videoInfo,
     audio: audioInfo,
   };
 }
 
+/** Playback length of an MP4 in seconds (from mvhd), or null if it can't be parsed. */
+export function readMP4Duration(buf: Buffer): number | null {
+  try {
+    const moovBox = parseBoxes(buf, 0, buf.length).find(b => b.type === "moov");
+    const mvhdBox = moovBox?.children?.find(b => b.type === "mvhd");
+    if (!mvhdBox) return null;
+    const { timescale, duration } = readTimescaleAndDuration(buf, mvhdBox);
+    return timescale > 0 ? duration / timescale : null;
+  } catch {
+    return null;
+  }
+}
+
 // ── Box Writers ──────────────────────────────────────────────────────────
 
 function makeBox(type: string, content: Buffer): Buffer {
@@ -360,6 +438,18 @@ function writeSTSS(samples: number[]): Buffer {
   return makeFullBox("stss", 0, 0, data);
 }
 
+function writeEDTS(entries: EditEntry[]): Buffer {
+  const data = Buffer.alloc(4 + entries.length * 12);
+  data.writeUInt32BE(entries.length, 0);
+  entries.forEach((e, i) => {
+    data.writeUInt32BE(e.segmentDuration, 4 + i * 12); // movie timescale
+    data.writeInt32BE(e.mediaTime, 4 + i * 12 + 4); // media timescale
+    data.writeUInt16BE(1, 4 + i * 12 + 8); // media_rate_integer = 1
+    data.writeUInt16BE(0, 4 + i * 12 + 10); // media_rate_fraction = 0
+  });
+  return makeBox("edts", makeFullBox("elst", 0, 0, data));
+}
+
 function writeCTTS(entries: { count: number; offset: number }[], version: number): Buffer {
   const data = Buffer.alloc(4 + entries.length * 8);
   data.writeUInt32BE(entries.length, 0);
@@ -402,6 +492,8 @@ interface TrackRebuildInfo {
   trak: Box;
   newStbl: Buffer;
   totalMediaDuration: number;
+  /** Edit list for the combined track; one entry per run of untrimmed media */
+  edits: EditEntry[];
 }
 
 function rebuildMoov(
@@ -409,31 +501,29 @@ function rebuildMoov(
   moovBox: Box,
   videoTrack: TrackRebuildInfo,
   audioTrack: TrackRebuildInfo | null,
+  dropTrak: Box | null,
   totalMovieDuration: number,
 ): Buffer {
-  function rebuildTrak(trak: Box, trackStbl: Buffer, trackMediaDuration: number): Buffer {
+  function rebuildTrak(trak: Box, track: TrackRebuildInfo): Buffer {
+    const editDuration = track.edits.reduce((sum, e) => sum + e.segmentDuration, 0);
+    // A track without edts plays its media from 0 — only add one when trims need it
+    const needsEdts = track.edits.length > 1 || track.edits[0]?.mediaTime !== 0;
+    const hasEdts = (trak.children || []).some(c => c.type === "edts");
+
     function rebuildChildren(children: Box[]): Buffer {
       const parts: Buffer[] = [];
       for (const child of children) {
         if (child.type === "stbl") {
-          parts.push(trackStbl);
+          parts.push(track.newStbl);
         } else if (child.type === "tkhd") {
-          parts.push(patchDuration(buf, child, totalMovieDuration, "tkhd"));
+          parts.push(patchDuration(buf, child, editDuration, "tkhd"));
+          if (!hasEdts && needsEdts) parts.push(writeEDTS(track.edits));
         } else if (child.type === "mdhd") {
-          parts.push(patchDuration(buf, child, trackMediaDuration, "mdhd"));
+          parts.push(patchDuration(buf, child, track.totalMediaDuration, "mdhd"));
         } else if (child.type === "edts") {
-          // Rebuild edts with a single elst entry spanning the full combined duration.
-          // The original elst only covers the first clip's duration — we extend it
-          // to cover all stitched clips. Uses trackMediaDuration (media timescale).
-          const elstEntryData = Buffer.alloc(4 + 12); // entry_count(4) + 1 entry(12)
-          elstEntryData.writeUInt32BE(1, 0); // entry_count = 1
-          elstEntryData.writeUInt32BE(trackMediaDuration, 4); // segment_duration in media timescale
-          elstEntryData.writeInt32BE(0, 8); // media_time = 0 (start from beginning)
-          elstEntryData.writeUInt16BE(1, 12); // media_rate_integer = 1
-          elstEntryData.writeUInt16BE(0, 14); // media_rate_fraction = 0
-          const elstBox = makeFullBox("elst", 0, 0, elstEntryData);
-          const edtsBox = makeBox("edts", elstBox);
-          parts.push(edtsBox);
+          // The original elst only covers the first clip — replace it with the
+          // combined edit list (segment durations in the movie timescale)
+          parts.push(writeEDTS(track.edits));
         } else if (child.children) {
           const inner = rebuildChildren(child.children);
           const header = Buffer.alloc(8);
@@ -457,9 +547,11 @@ function rebuildMoov(
     const parts: Buffer[] = [];
     for (const child of children) {
       if (child === videoTrack.trak) {
-        parts.push(rebuildTrak(child, videoTrack.newStbl, videoTrack.totalMediaDuration));
+        parts.push(rebuildTrak(child, videoTrack));
       } else if (audioTrack && child === audioTrack.trak) {
-        parts.push(rebuildTrak(child, audioTrack.newStbl, audioTrack.totalMediaDuration));
+        parts.push(rebuildTrak(child, audioTrack));
+      } else if (child === dropTrak) {
+        continue;
       } else if (child.type === "mvhd") {
         parts.push(patchDuration(buf, child, totalMovieDuration, "mvhd"));
       } else if (child.children) {
@@ -589,6 +681,87 @@ function buildStblFromTables(tables: CombinedTrackTables, stsdBuf: Buffer): Buff
   return makeBox("stbl", Buffer.concat(stblChildren));
 }
 
+// ── Codec Validation ────────────────────────────────────────────────────
+
+/** "avc1 1280x720"-style summary of a video stsd, for error messages. */
+function describeStsd(stsd: Buffer, withDimensions: boolean): string {
+  // stsd: header(8) + version/flags(4) + entry_count(4), then the first
+  // sample entry: size(4) + format(4) + reserved(6) + data_ref_index(2)
+  // + pre_defined/reserved(16) + width(2) + height(2)
+  if (stsd.length < 24) return "(empty stsd)";
+  const format = stsd.toString("ascii", 20, 24);
+  if (!withDimensions || stsd.length < 52) return format;
+  return `${format} ${stsd.readUInt16BE(48)}x${stsd.readUInt16BE(50)}`;
+}
+
+/** Why `track` can't be stitched after `template`, or null if it can. */
+function codecMismatch(template: TrackInfo, track: TrackInfo, isVideo: boolean): string | null {
+  if (!template.stsd.equals(track.stsd)) {
+    const expected = describeStsd(template.stsd, isVideo);
+    const actual = describeStsd(track.stsd, isVideo);
+    return expected === actual ? `${actual} with different codec parameters` : `${actual}, expected ${expected}`;
+  }
+  if (template.timescale !== track.timescale) {
+    return `media timescale ${track.timescale}, expected ${template.timescale}`;
+  }
+  return null;
+}
+
+// ── Trims & Edit Lists ──────────────────────────────────────────────────
+
+interface TrimmedClip {
+  clip: ClipInfo;
+  /** Trim in seconds after snapping to whole video frames */
+  headSecs: number;
+  tailSecs: number;
+}
+
+/** Snap a clip's trim to whole video frames and check it leaves something to play. */
+function resolveTrim(clip: ClipInfo, trim: ClipTrim | undefined, index: number): TrimmedClip {
+  const { timescale, sttsEntries, mediaDuration } = clip.video;
+  const frame = sttsEntries[0]?.delta || 1;
+  const snap = (secs: number | undefined) => Math.max(0, Math.round(((secs ?? 0) * timescale) / frame)) * frame;
+  const head = snap(trim?.head);
+  const tail = snap(trim?.tail);
+  if (head + tail >= mediaDuration) {
+    throw new Error(`Trim of segment ${index} (${trim?.head ?? 0}s head + ${trim?.tail ?? 0}s tail) removes the whole clip`);
+  }
+  return { clip, headSecs: head / timescale, tailSecs: tail / timescale };
+}
+
+/**
+ * Edit list for one track across all clips. Each clip contributes the media
+ * range left after its trim; ranges that butt up against each other (no trim
+ * between them) merge, so an untrimmed stitch gets a single entry.
+ */
+function buildEdits(
+  clips: TrimmedClip[],
+  getTrack: (clip: ClipInfo) => TrackInfo,
+  movieTimescale: number,
+): EditEntry[] {
+  const edits: (EditEntry & { mediaLength: number })[] = [];
+  let mediaStart = 0;
+  for (const { clip, headSecs, tailSecs } of clips) {
+    const track = getTrack(clip);
+    const head = Math.round(headSecs * track.timescale);
+    const tail = Math.round(tailSecs * track.timescale);
+    const mediaLength = Math.max(0, track.mediaDuration - head - tail);
+    const mediaTime = mediaStart + head;
+    const last = edits[edits.length - 1];
+    if (last && last.mediaTime + last.mediaLength === mediaTime) {
+      last.mediaLength += mediaLength;
+    } else {
+      edits.push({ mediaTime, mediaLength, segmentDuration: 0 });
+    }
+    mediaStart += track.mediaDuration;
+  }
+  const timescale = getTrack(clips[0].clip).timescale;
+  return edits.map(e => ({
+    mediaTime: e.mediaTime,
+    segmentDuration: Math.round((e.mediaLength * movieTimescale) / timescale),
+  }));
+}
+
 // ── Main Concatenation ──────────────────────────────────────────────────
 
 /**
@@ -596,58 +769,142 @@ function buildStblFromTables(tables: CombinedTrackTables, stsdBuf: Buffer): Buff
  *
  * All input clips must have identical video encoding parameters
  * (same codec, resolution, framerate). This is the case for Grok API clips.
+ * A clip whose codec config differs throws CodecMismatchError rather than
+ * producing a file that plays garbage after the first cut.
  *
  * Handles both video and audio tracks — audio sample tables are properly
  * combined so the stitched output plays audio across all clips.
  *
- * Falls back to returning the first buffer if concatenation fails.
+ * Options add intro/outro/title-card segments and per-clip head/tail trims.
+ * Throws if concatenation fails — callers decide on a fallback.
  */
-export function concatMP4Clips(buffers: Buffer[]): Buffer {
+export function concatMP4Clips(buffers: Buffer[], options: ConcatOptions = {}): Buffer {
   if (buffers.length === 0) throw new Error("No buffers to concatenate");
-  if (buffers.length === 1) return buffers[0];
+  return concatMP4Segments(buildSegmentList(buffers, options));
+}
+
+/** Clips plus intro/title/outro cards, in play order. */
+function buildSegmentList(buffers: Buffer[], options: ConcatOptions): ConcatSegment[] {
+  const segments: ConcatSegment[] = [];
+  if (options.intro) segments.push({ buffer: options.intro, kind: "intro" });
+  buffers.forEach((buffer, i) => {
+    for (const card of options.titleCards ?? []) {
+      if (card.before === i) segments.push({ buffer: card.buffer, kind: "title" });
+    }
+    segments.push({ buffer, kind: "clip", trim: options.trims?.[i] ?? undefined });
+  });
+  for (const card of options.titleCards ?? []) {
+    if (card.before >= buffers.length) segments.push({ buffer: card.buffer, kind: "title" });
+  }
+  if (options.outro) segments.push({ buffer: options.outro, kind: "outro" });
+  return segments;
+}
+
+/**
+ * Concatenate segments in the given order. Optional segments (intro, title
+ * cards, outro by default) that can't be stitched are dropped with a warning;
+ * required ones fail the whole stitch.
+ */
+export function concatMP4Segments(segments: ConcatSegment[]): Buffer {
+  if (segments.length === 0) throw new Error("No buffers to concatenate");
+  if (segments.length === 1 && !segments[0].trim) return segments[0].buffer;
 
   try {
-    const result = concatMP4ClipsUnsafe(buffers);
+    const result = concatSegmentsUnsafe(segments);
 
     // Sanity check: stitched output should be larger than any single input
-    const maxInputSize = Math.max(...buffers.map(b => b.length));
-    if (result.length <= maxInputSize) {
+    const maxInputSize = Math.max(...segments.map(s => s.buffer.length));
+    if (segments.length > 1 && result.length <= maxInputSize) {
       console.warn(`[mp4-concat] WARNING: Stitched output (${result.length}) is not larger than largest input (${maxInputSize}). Stitching may have failed silently.`);
     }
 
     return result;
   } catch (err) {
     console.error("[mp4-concat] Concatenation FAILED:", err);
-    console.error("[mp4-concat] Input details:", buffers.map((b, i) => `clip${i}: ${(b.length / 1024 / 1024).toFixed(1)}MB`).join(", "));
+    console.error("[mp4-concat] Input details:", segments.map((s, i) => `${s.kind ?? "clip"}${i}: ${(s.buffer.length / 1024 / 1024).toFixed(1)}MB`).join(", "));
     // Re-throw so callers know stitching failed — don't silently return first clip
     throw err;
   }
 }
 
-function concatMP4ClipsUnsafe(buffers: Buffer[]): Buffer {
-  console.log(`[mp4-concat] Starting concatenation of ${buffers.length} clips (${buffers.map(b => (b.length / 1024 / 1024).toFixed(1) + "MB").join(" + ")})`);
+function isOptional(segment: ConcatSegment): boolean {
+  return segment.optional ?? (segment.kind !== undefined && segment.kind !== "clip");
+}
+
+interface ParsedSegment {
+  index: number;
+  segment: ConcatSegment;
+  clip: ClipInfo;
+}
 
-  // Parse all clips
-  const clips: ClipInfo[] = [];
-  for (let idx = 0; idx < buffers.length; idx++) {
-    const buf = buffers[idx];
+/**
+ * Parse every segment and keep the ones that can share the template's codec
+ * config. Throws CodecMismatchError for a required segment that can't.
+ */
+function prepareSegments(segments: ConcatSegment[]): { kept: ParsedSegment[]; template: ParsedSegment } {
+  // Parse all segments; an optional one that won't parse is just skipped
+  const parsed: ParsedSegment[] = [];
+  for (let idx = 0; idx < segments.length; idx++) {
+    const buf = segments[idx].buffer;
     const boxes = parseBoxes(buf, 0, buf.length);
     try {
-      clips.push(extractClipInfo(buf, boxes));
+      parsed.push({ index: idx, segment: segments[idx], clip: extractClipInfo(buf, boxes) });
     } catch (err) {
-      console.error(`[mp4-concat] Failed to parse clip ${idx} (${(buf.length / 1024 / 1024).toFixed(1)}MB, boxes: ${boxes.map(b => b.type).join(",")}):`, err);
-      throw err;
+      console.error(`[mp4-concat] Failed to parse segment ${idx} (${(buf.length / 1024 / 1024).toFixed(1)}MB, boxes: ${boxes.map(b => b.type).join(",")}):`, err);
+      if (!isOptional(segments[idx])) throw err;
     }
   }
+  if (parsed.length === 0) throw new Error("No segments could be parsed");
+
+  // The first required clip is the template — its codec config wins
+  const template = parsed.find(p => !isOptional(p.segment)) ?? parsed[0];
+
+  let kept = parsed.filter(p => {
+    if (p === template) return true;
+    const mismatch = codecMismatch(template.clip.video, p.clip.video, true);
+    if (!mismatch) return true;
+    if (!isOptional(p.segment)) throw new CodecMismatchError(p.index, "video", mismatch);
+    console.warn(`[mp4-concat] Dropping ${p.segment.kind} segment ${p.index}: video ${mismatch}`);
+    return false;
+  });
 
-  // Template from first clip
-  const templateBuf = buffers[0];
+  // Audio: a silent or mismatched optional segment is dropped rather than
+  // costing the whole movie its soundtrack
+  const templateAudio = template.clip.audio;
+  if (templateAudio) {
+    kept = kept.filter(p => {
+      if (p === template) return true;
+      const mismatch = p.clip.audio ? codecMismatch(templateAudio, p.clip.audio, false) : "no audio track";
+      if (!mismatch || !isOptional(p.segment)) return true;
+      console.warn(`[mp4-concat] Dropping ${p.segment.kind} segment ${p.index}: audio ${mismatch}`);
+      return false;
+    });
+    for (const p of kept) {
+      const mismatch = p.clip.audio ? codecMismatch(templateAudio, p.clip.audio, false) : null;
+      if (mismatch) throw new CodecMismatchError(p.index, "audio", mismatch);
+    }
+  }
+
+  return { kept, template };
+}
+
+function concatSegmentsUnsafe(segments: ConcatSegment[]): Buffer {
+  console.log(`[mp4-concat] Starting concatenation of ${segments.length} segments (${segments.map(s => (s.buffer.length / 1024 / 1024).toFixed(1) + "MB").join(" + ")})`);
+
+  const { kept, template } = prepareSegments(segments);
+  const templateAudio = template.clip.audio;
+  const clips = kept.map(p => p.clip);
+  const trimmed = kept.map(p => resolveTrim(p.clip, p.segment.trim, p.index));
+
+  // Template from the template segment
+  const templateBuf = template.segment.buffer;
   const templateBoxes = parseBoxes(templateBuf, 0, templateBuf.length);
   const templateMoov = templateBoxes.find(b => b.type === "moov")!;
   const templateVideoTrak = findTrakByHandler(templateMoov, templateBuf, "vide")!;
   const templateAudioTrak = findTrakByHandler(templateMoov, templateBuf, "soun");
+  const movieTimescale = template.clip.movieTimescale;
 
-  // Get ftyp from first clip
+  // Get ftyp from the template
   const ftypBox = templateBoxes.find(b => b.type === "ftyp");
   const ftyp = ftypBox ? templateBuf.subarray(ftypBox.offset, ftypBox.offset + ftypBox.size) : Buffer.alloc(0);
   const ftypSize = ftyp.length;
@@ -658,36 +915,42 @@ function concatMP4ClipsUnsafe(buffers: Buffer[]): Buffer {
 
   // ── Combine VIDEO track sample tables ──
   const videoTables = combineTrackTables(clips, c => c.video, ftypSize, mdatHeaderSize)!;
-  const videoStsdBuf = findStsdBox(templateBuf, templateVideoTrak);
-  const newVideoStbl = buildStblFromTables(videoTables, videoStsdBuf);
+  const newVideoStbl = buildStblFromTables(videoTables, template.clip.video.stsd);
+  const videoEdits = buildEdits(trimmed, c => c.video, movieTimescale);
 
   // ── Combine AUDIO track sample tables (if all clips have audio) ──
   let audioRebuildInfo: TrackRebuildInfo | null = null;
-  if (templateAudioTrak) {
+  if (templateAudioTrak && templateAudio) {
     const audioTables = combineTrackTables(clips, c => c.audio, ftypSize, mdatHeaderSize);
     if (audioTables) {
-      const audioStsdBuf = findStsdBox(templateBuf, templateAudioTrak);
-      const newAudioStbl = buildStblFromTables(audioTables, audioStsdBuf);
+      const newAudioStbl = buildStblFromTables(audioTables, templateAudio.stsd);
       audioRebuildInfo = {
         trak: templateAudioTrak,
         newStbl: newAudioStbl,
         totalMediaDuration: audioTables.totalMediaDuration,
+        edits: buildEdits(trimmed, c => c.audio!, movieTimescale),
       };
       console.log(`[mp4-concat] Audio track: ${audioTables.allSampleSizes.length} samples combined`);
     } else {
-      console.warn("[mp4-concat] Template has audio but some clips lack audio — audio metadata from template only");
+      // The template's audio sample table would point at the wrong bytes in
+      // the combined mdat, so the track is left out entirely
+      console.warn("[mp4-concat] Template has audio but some clips lack audio — output will be silent");
     }
   }
 
-  // Calculate total durations
-  const totalMovieDuration = clips.reduce((sum, c) => sum + c.movieDuration, 0);
+  // Calculate total durations: each clip's movie duration, less its trim
+  const totalMovieDuration = trimmed.reduce((sum, t) => {
+    const full = Math.round((t.clip.movieDuration * movieTimescale) / t.clip.movieTimescale);
+    return sum + Math.max(0, full - Math.round((t.headSecs + t.tailSecs) * movieTimescale));
+  }, 0);
 
   // Rebuild moov with combined video + audio tables and updated durations
   const newMoov = rebuildMoov(
     templateBuf,
     templateMoov,
-    { trak: templateVideoTrak, newStbl: newVideoStbl, totalMediaDuration: videoTables.totalMediaDuration },
+    { trak: templateVideoTrak, newStbl: newVideoStbl, totalMediaDuration: videoTables.totalMediaDuration, edits: videoEdits },
     audioRebuildInfo,
+    audioRebuildInfo ? null : templateAudioTrak ?? null,
     totalMovieDuration,
   );
 
@@ -700,24 +963,280 @@ function concatMP4ClipsUnsafe(buffers: Buffer[]): Buffer {
   const totalAudioSamples = audioRebuildInfo ? clips.reduce((sum, c) => sum + (c.audio?.sampleSizes.length || 0), 0) : 0;
 
   // Log duration info for debugging
-  const templateMvhd = templateMoov.children?.find(b => b.type === "mvhd");
-  let timescale = 600; // default
-  if (templateMvhd) {
-    const cs = templateMvhd.headerSize;
-    const version = templateBuf[templateMvhd.offset + cs];
-    timescale = version === 0
-      ? templateBuf.readUInt32BE(templateMvhd.offset + cs + 12)
-      : templateBuf.readUInt32BE(templateMvhd.offset + cs + 20);
-  }
-  const durationSecs = totalMovieDuration / timescale;
-  console.log(`[mp4-concat] Stitched ${buffers.length} clips: ${totalVideoSamples} video samples, ${totalAudioSamples} audio samples, ${(combinedMdatData.length / 1024 / 1024).toFixed(1)}MB, duration=${totalMovieDuration} (${durationSecs.toFixed(1)}s at timescale ${timescale})`);
+  const durationSecs = totalMovieDuration / movieTimescale;
+  const trimmedCount = trimmed.filter(t => t.headSecs > 0 || t.tailSecs > 0).length;
+  console.log(`[mp4-concat] Stitched ${clips.length} segments: ${totalVideoSamples} video samples, ${totalAudioSamples} audio samples, ${(combinedMdatData.length / 1024 / 1024).toFixed(1)}MB, duration=${totalMovieDuration} (${durationSecs.toFixed(1)}s at timescale ${movieTimescale})${trimmedCount > 0 ? `, ${trimmedCount} trimmed (${videoEdits.length} edits)` : ""}`);
 
   return Buffer.concat([ftyp, mdatHeader, combinedMdatData, newMoov]);
 }
 
-function findStsdBox(buf: Buffer, trak: Box): Buffer {
-  const stbl = findBox(trak.children || [], "mdia", "minf", "stbl");
-  const stsd = stbl?.children?.find(b => b.type === "stsd");
-  if (!stsd) throw new Error("No stsd box found in track");
-  return buf.subarray(stsd.offset, stsd.offset + stsd.size);
+// ── Fragmented MP4 / HLS ────────────────────────────────────────────────
+//
+// The same clips can also be written as a fragmented MP4: an init segment
+// (ftyp + moov with empty sample tables + mvex) followed by one moof/mdat
+// pair per clip. Served with an HLS playlist that addresses each fragment by
+// byte range, players can start and seek without downloading the whole
+// movie — which a progressive MP4 with its moov at the end forces on mobile.
+
+/** A fragmented MP4 and where its init segment and fragments sit in it. */
+export interface FragmentedMP4 {
+  data: Buffer;
+  /** ftyp + moov — the playlist's EXT-X-MAP */
+  init: { offset: number; length: number };
+  /** One moof + mdat per clip; duration in seconds */
+  fragments: { offset: number; length: number; duration: number }[];
+}
+
+// trun flags: data-offset, sample duration, size, flags and composition offset present
+const TRUN_FLAGS = 0x000001 | 0x000100 | 0x000200 | 0x000400;
+const TRUN_CTS_FLAG = 0x000800;
+// tfhd flag: sample data offsets are relative to the moof
+const TFHD_DEFAULT_BASE_IS_MOOF = 0x020000;
+// sample_flags: depends_on = 2 (I-frame), or depends_on = 1 + is_non_sync_sample
+const SAMPLE_FLAGS_SYNC = 0x02000000;
+const SAMPLE_FLAGS_NON_SYNC = 0x01010000;
+
+function readTrackId(buf: Buffer, trak: Box): number {
+  const tkhd = (trak.children || []).find(b => b.type === "tkhd");
+  if (!tkhd) throw new Error("No tkhd box found in track");
+  const cs = tkhd.offset + tkhd.headerSize;
+  // v0: version/flags(4) + creation(4) + modification(4); v1 uses 8-byte times
+  return buf.readUInt32BE(buf[cs] === 0 ? cs + 12 : cs + 20);
+}
+
+/** Run-length table → one value per sample. */
+function expandRuns(entries: { count: number; value: number }[]): number[] {
+  const out: number[] = [];
+  for (const e of entries) for (let i = 0; i < e.count; i++) out.push(e.value);
+  return out;
+}
+
+/** Byte ranges of every sample of a track, in decode order, relative to the clip's mdat data. */
+function sampleRanges(clip: ClipInfo, track: TrackInfo): { start: number; size: number }[] {
+  const ranges: { start: number; size: number }[] = [];
+  let sample = 0;
+  for (let c = 0; c < track.chunkOffsets.length; c++) {
+    let perChunk = 0;
+    for (const e of track.stscEntries) {
+      if (e.firstChunk > c + 1) break;
+      perChunk = e.samplesPerChunk;
+    }
+    let pos = track.chunkOffsets[c] - clip.mdatOffset;
+    for (let k = 0; k < perChunk && sample < track.sampleSizes.length; k++) {
+      ranges.push({ start: pos, size: track.sampleSizes[sample] });
+      pos += track.sampleSizes[sample++];
+    }
+  }
+  return ranges;
+}
+
+interface TrackFragment {
+  trackId: number;
+  baseMediaDecodeTime: number;
+  data: Buffer;
+  durations: number[];
+  sizes: number[];
+  flags: number[];
+  compositionOffsets: number[] | null;
+  cttsVersion: number;
+}
+
+function fragmentTrack(clip: ClipInfo, track: TrackInfo, trackId: number, baseMediaDecodeTime: number, isVideo: boolean): TrackFragment {
+  const ranges = sampleRanges(clip, track);
+  const sync = track.syncSamples ? new Set(track.syncSamples) : null;
+  return {
+    trackId,
+    baseMediaDecodeTime,
+    data: Buffer.concat(ranges.map(r => clip.mdatData.subarray(r.start, r.start + r.size))),
+    durations: expandRuns(track.sttsEntries.map(e => ({ count: e.count, value: e.delta }))),
+    sizes: ranges.map(r => r.size),
+    // No stss means every sample is a sync sample
+    flags: ranges.map((_, i) => (!isVideo || !sync || sync.has(i + 1) ? SAMPLE_FLAGS_SYNC : SAMPLE_FLAGS_NON_SYNC)),
+    compositionOffsets: track.cttsEntries ? expandRuns(track.cttsEntries.map(e => ({ count: e.count, value: e.offset }))) : null,
+    cttsVersion: track.cttsVersion,
+  };
+}
+
+function writeTraf(frag: TrackFragment, dataOffset: number): Buffer {
+  const tfhd = makeFullBox("tfhd", 0, TFHD_DEFAULT_BASE_IS_MOOF, (() => {
+    const b = Buffer.alloc(4);
+    b.writeUInt32BE(frag.trackId, 0);
+    return b;
+  })());
+
+  const tfdtData = Buffer.alloc(8);
+  tfdtData.writeUInt32BE(Math.floor(frag.baseMediaDecodeTime / 0x100000000), 0);
+  tfdtData.writeUInt32BE(frag.baseMediaDecodeTime % 0x100000000, 4);
+  const tfdt = makeFullBox("tfdt", 1, 0, tfdtData);
+
+  const withCts = frag.compositionOffsets !== null;
+  const perSample = withCts ? 16 : 12;
+  const count = frag.sizes.length;
+  const trunData = Buffer.alloc(8 + count * perSample);
+  trunData.writeUInt32BE(count, 0);
+  trunData.writeInt32BE(dataOffset, 4);
+  for (let i = 0; i < count; i++) {
+    const o = 8 + i * perSample;
+    trunData.writeUInt32BE(frag.durations[i] ?? frag.durations[frag.durations.length - 1] ?? 0, o);
+    trunData.writeUInt32BE(frag.sizes[i], o + 4);
+    trunData.writeUInt32BE(frag.flags[i], o + 8);
+    if (withCts) {
+      const cto = frag.compositionOffsets![i] ?? 0;
+      if (frag.cttsVersion === 0) trunData.writeUInt32BE(cto >>> 0, o + 12);
+      else trunData.writeInt32BE(cto, o + 12);
+    }
+  }
+  const trun = makeFullBox("trun", frag.cttsVersion, TRUN_FLAGS | (withCts ? TRUN_CTS_FLAG : 0), trunData);
+
+  return makeBox("traf", Buffer.concat([tfhd, tfdt, trun]));
+}
+
+/** moof + mdat for one clip. Each traf's data offset points into the shared mdat. */
+function writeFragment(sequence: number, tracks: TrackFragment[]): Buffer {
+  const mfhdData = Buffer.alloc(4);
+  mfhdData.writeUInt32BE(sequence, 0);
+  const mfhd = makeFullBox("mfhd", 0, 0, mfhdData);
+
+  // Box sizes don't depend on the offsets, so measure once with zeros
+  const moofSize = makeBox("moof", Buffer.concat([mfhd, ...tracks.map(t => writeTraf(t, 0))])).length;
+  let dataOffset = moofSize + 8;
+  const trafs = tracks.map(t => {
+    const traf = writeTraf(t, dataOffset);
+    dataOffset += t.data.length;
+    return traf;
+  });
+
+  const moof = makeBox("moof", Buffer.concat([mfhd, ...trafs]));
+  const mdat = makeBox("mdat", Buffer.concat(tracks.map(t => t.data)));
+  return Buffer.concat([moof, mdat]);
+}
+
+/** The template moov with empty sample tables, zero durations and an mvex for fragments. */
+function buildInitMoov(
+  buf: Buffer,
+  moovBox: Box,
+  tracks: { trak: Box; trackId: number }[],
+  dropTrak: Box | null,
+  fragmentDuration: number,
+): Buffer {
+  const emptyTables = [
+    writeSTTS([]),
+    writeSTSC([]),
+    writeSTSZ([]),
+    makeFullBox("stco", 0, 0, Buffer.alloc(4)),
+  ];
+
+  function rebuild(children: Box[]): Buffer {
+    const parts: Buffer[] = [];
+    for (const child of children) {
+      if (child === dropTrak || child.type === "edts" || child.type === "udta") continue;
+      if (child.type === "mvhd" || child.type === "tkhd" || child.type === "mdhd") {
+        parts.push(patchDuration(buf, child, 0, child.type));
+      } else if (child.type === "stbl") {
+        const stsd = (child.children || []).find(b => b.type === "stsd");
+        if (!stsd) throw new Error("No stsd box found in track");
+        parts.push(makeBox("stbl", Buffer.concat([buf.subarray(stsd.offset, stsd.offset + stsd.size), ...emptyTables])));
+      } else if (child.children) {
+        parts.push(makeBox(child.type, rebuild(child.children)));
+      } else {
+        parts.push(buf.subarray(child.offset, child.offset + child.size));
+      }
+    }
+    return Buffer.concat(parts);
+  }
+
+  const mehdData = Buffer.alloc(4);
+  mehdData.writeUInt32BE(fragmentDuration >>> 0, 0);
+  const trexes = tracks.map(t => {
+    // track_ID, default sample description index 1, then defaults left at 0
+    const d = Buffer.alloc(20);
+    d.writeUInt32BE(t.trackId, 0);
+    d.writeUInt32BE(1, 4);
+    return makeFullBox("trex", 0, 0, d);
+  });
+  const mvex = makeBox("mvex", Buffer.concat([makeFullBox("mehd", 0, 0, mehdData), ...trexes]));
+
+  return makeBox("moov", Buffer.concat([rebuild(moovBox.children || []), mvex]));
+}
+
+/**
+ * Write clips as a fragmented MP4 — one moof/mdat per clip, same segment
+ * rules and codec checks as concatMP4Clips(). Trims aren't supported: an
+ * edit list can't cut inside fragments, so fragments always hold whole clips.
+ */
+export function fragmentMP4Clips(buffers: Buffer[], options: Omit<ConcatOptions, "trims"> = {}): FragmentedMP4 {
+  if (buffers.length === 0) throw new Error("No buffers to fragment");
+  const { kept, template } = prepareSegments(buildSegmentList(buffers, options));
+
+  const templateBuf = template.segment.buffer;
+  const templateBoxes = parseBoxes(templateBuf, 0, templateBuf.length);
+  const templateMoov = templateBoxes.find(b => b.type === "moov")!;
+  const videoTrak = findTrakByHandler(templateMoov, templateBuf, "vide")!;
+  const audioTrak = findTrakByHandler(templateMoov, templateBuf, "soun");
+  const withAudio = !!audioTrak && kept.every(p => p.clip.audio);
+  const videoId = readTrackId(templateBuf, videoTrak);
+  const audioId = withAudio ? readTrackId(templateBuf, audioTrak!) : 0;
+  const movieTimescale = template.clip.movieTimescale;
+
+  const ftyp = makeBox("ftyp", Buffer.concat([
+    Buffer.from("iso6", "ascii"), Buffer.alloc(4), Buffer.from("iso6isommp41", "ascii"),
+  ]));
+  const totalMovieDuration = kept.reduce(
+    (sum, p) => sum + Math.round((p.clip.movieDuration * movieTimescale) / p.clip.movieTimescale), 0,
+  );
+  const moov = buildInitMoov(
+    templateBuf,
+    templateMoov,
+    withAudio ? [{ trak: videoTrak, trackId: videoId }, { trak: audioTrak!, trackId: audioId }] : [{ trak: videoTrak, trackId: videoId }],
+    withAudio ? null : audioTrak ?? null,
+    totalMovieDuration,
+  );
+
+  const parts: Buffer[] = [ftyp, moov];
+  const fragments: FragmentedMP4["fragments"] = [];
+  let offset = ftyp.length + moov.length;
+  let videoTime = 0;
+  let audioTime = 0;
+
+  kept.forEach((p, i) => {
+    const tracks = [fragmentTrack(p.clip, p.clip.video, videoId, videoTime, true)];
+    if (withAudio) tracks.push(fragmentTrack(p.clip, p.clip.audio!, audioId, audioTime, false));
+    const fragment = writeFragment(i + 1, tracks);
+
+    parts.push(fragment);
+    fragments.push({ offset, length: fragment.length, duration: p.clip.video.mediaDuration / p.clip.video.timescale });
+    offset += fragment.length;
+    videoTime += p.clip.video.mediaDuration;
+    audioTime += p.clip.audio?.mediaDuration ?? 0;
+  });
+
+  console.log(`[mp4-concat] Fragmented ${kept.length} segments: ${(offset / 1024 / 1024).toFixed(1)}MB, ${withAudio ? "video + audio" : "video only"}`);
+
+  return {
+    data: Buffer.concat(parts),
+    init: { offset: 0, length: ftyp.length + moov.length },
+    fragments,
+  };
+}
+
+/**
+ * HLS media playlist for a fragmented MP4 stored at `mediaUrl`, addressing
+ * the init segment and each fragment by byte range (so one file serves all).
+ */
+export function buildHLSPlaylist(fmp4: FragmentedMP4, mediaUrl: string): string {
+  const target = Math.max(1, ...fmp4.fragments.map(f => Math.ceil(f.duration)));
+  const lines = [
+    "#EXTM3U",
+    "#EXT-X-VERSION:7",
+    `#EXT-X-TARGETDURATION:${target}`,
+    "#EXT-X-MEDIA-SEQUENCE:0",
+    "#EXT-X-PLAYLIST-TYPE:VOD",
+    "#EXT-X-INDEPENDENT-SEGMENTS",
+    `#EXT-X-MAP:URI="${mediaUrl}",BYTERANGE="${fmp4.init.length}@${fmp4.init.offset}"`,
+  ];
+  for (const f of fmp4.fragments) {
+    lines.push(`#EXTINF:${f.duration.toFixed(3)},`, `#EXT-X-BYTERANGE:${f.length}@${f.offset}`, mediaUrl);
+  }
+  lines.push("#EXT-X-ENDLIST");
+  return lines.join("\n") + "\n";
 }
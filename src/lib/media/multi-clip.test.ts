@@ -0,0 +1,139 @@
+/**
+ * Multi-Clip Scene Recovery — Unit Tests
+ * =======================================
+ * Simplified retry prompts, resubmission of failed scenes, and the stitch
+ * claim that stops overlapping cron runs from posting a movie twice.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { queries, respond, resetMockSql } from "@/lib/test-utils/mock-sql";
+
+const { responders, submitVideoJob } = vi.hoisted(() => ({
+  responders: [] as { match: string; rows: unknown[] }[],
+  submitVideoJob: vi.fn(),
+}));
+
+vi.mock("@/lib/db", () => import("@/lib/test-utils/mock-sql"));
+
+vi.mock("../xai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../xai")>()),
+  submitVideoJob,
+}));
+
+vi.mock("@vercel/blob", () => ({
+  put: vi.fn().mockResolvedValue({ url: "https://blob.test/stitched.mp4" }),
+}));
+
+import {
+  MAX_SCENE_ATTEMPTS,
+  pollMultiClipJobs,
+  resubmitDueScenes,
+  shouldSimplifyRetry,
+  simplifyScenePrompt,
+} from "./multi-clip";
+
+beforeEach(() => {
+  resetMockSql();
+  responders.length = 0;
+  respond.fn = (query) => responders.find((r) => query.includes(r.match))?.rows ?? [];
+  submitVideoJob.mockReset();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("simplifyScenePrompt", () => {
+  it("keeps only the scene section of a continuity prompt", () => {
+    const prompt = [
+      "CHARACTER BIBLE: KAI-7 is a tall chrome android with glowing blue circuit lines.",
+      "",
+      "SCENE TO GENERATE: Kai-7 sprints through a rain-soaked neon alley, sparks flying.",
+      "",
+      "DIRECTOR STYLE: handheld, anamorphic flares, heavy grain.",
+    ].join("\n");
+    const out = simplifyScenePrompt(prompt);
+    expect(out).toMatch(/^Kai-7 sprints through a rain-soaked neon alley, sparks flying\. Cinematic/);
+    expect(out).not.toContain("BIBLE");
+    expect(out).not.toContain("anamorphic");
+  });
+
+  it("strips a leading CHARACTERS block and caps the length", () => {
+    const words = Array.from({ length: 100 }, (_, i) => `w${i}`).join(" ");
+    const out = simplifyScenePrompt(`CHARACTERS: Luna Vex, silver bob.\n\n${words}`);
+    expect(out.startsWith("w0 w1")).toBe(true);
+    expect(out).toContain("w59.");
+    expect(out).not.toContain("w60");
+    expect(out).not.toContain("Luna");
+  });
+});
+
+describe("shouldSimplifyRetry", () => {
+  it("simplifies after moderation blocks, on the last attempt, or when flagged", () => {
+    expect(shouldSimplifyRetry(2, "grok_expired", false)).toBe(false);
+    expect(shouldSimplifyRetry(2, "moderation_blocked", false)).toBe(true);
+    expect(shouldSimplifyRetry(MAX_SCENE_ATTEMPTS, "grok_failed", false)).toBe(true);
+    expect(shouldSimplifyRetry(2, null, true)).toBe(true);
+  });
+});
+
+describe("resubmitDueScenes", () => {
+  it("claims due scenes before submitting and resubmits with the simplified prompt", async () => {
+    responders.push({
+      match: "SET status = 'submitting'",
+      rows: [{
+        id: "s1", job_id: "job-1", scene_number: 2, attempts: 2, aspect_ratio: null, is_director: true,
+        video_prompt: "SCENE: A chrome android waves goodbye.", fail_reason: "moderation_blocked", simplify_prompt: true,
+      }],
+    });
+    submitVideoJob.mockResolvedValue({ requestId: "req-2", provider: "grok", fellBack: false });
+
+    expect(await resubmitDueScenes()).toBe(1);
+
+    expect(submitVideoJob).toHaveBeenCalledWith(expect.stringMatching(/^A chrome android waves goodbye\. Cinematic/), 10, "16:9");
+    const update = queries.find((q) => q.query.includes("status = 'submitted'"));
+    expect(update?.query).toContain("AND status = 'submitting'");
+    expect(update?.values).toContain("req-2");
+  });
+
+  it("records a failed attempt when the provider rejects the resubmission", async () => {
+    responders.push({
+      match: "SET status = 'submitting'",
+      rows: [{ id: "s1", job_id: "job-1", scene_number: 1, attempts: 2, aspect_ratio: "9:16", is_director: false, video_prompt: "A cat.", fail_reason: null, simplify_prompt: false }],
+    });
+    submitVideoJob.mockResolvedValue({ provider: "none", fellBack: true, error: "no_provider" });
+
+    expect(await resubmitDueScenes()).toBe(0);
+    expect(submitVideoJob).toHaveBeenCalledWith("A cat.", 10, "9:16");
+    const fail = queries.find((q) => q.query.includes("THEN 'retry' ELSE 'failed'"));
+    expect(fail?.values).toContain("no_provider");
+  });
+});
+
+describe("pollMultiClipJobs", () => {
+  it("skips a ready job whose stitch claim another run already holds", async () => {
+    responders.push({
+      match: "LEFT JOIN director_movies dm",
+      rows: [{ id: "job-1", title: "Glitch Wars", clip_count: 3, completed_clips: 3, done_count: 3, pending_count: 0 }],
+    });
+
+    const result = await pollMultiClipJobs();
+
+    expect(result.stitched).toEqual([]);
+    expect(queries.some((q) => q.query.includes("SET status = 'stitching'"))).toBe(true);
+    // Losing the claim means no stitch: the job's clips are never read
+    expect(queries.some((q) => q.query.includes("SELECT id, title, genre, persona_id, caption"))).toBe(false);
+    expect(queries.some((q) => q.query.includes("SET status = 'done'") && q.query.includes("multi_clip_jobs"))).toBe(false);
+  });
+
+  it("waits while scenes are still queued for retry", async () => {
+    responders.push({
+      match: "LEFT JOIN director_movies dm",
+      rows: [{ id: "job-1", title: "Glitch Wars", clip_count: 4, completed_clips: 2, done_count: 2, pending_count: 1 }],
+    });
+
+    await pollMultiClipJobs();
+
+    expect(queries.some((q) => q.query.includes("SET status = 'stitching'"))).toBe(false);
+    expect(queries.some((q) => q.query.includes("SET status = 'failed'"))).toBe(false);
+  });
+});
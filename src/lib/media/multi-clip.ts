@@ -20,6 +20,7 @@
 import { claude } from "@/lib/ai";
 import { v4 as uuidv4 } from "uuid";
 import { put } from "@vercel/blob";
+import { applyPinnedDescriptions, buildSeriesDirective, type SeriesBible } from "@/lib/content/movie-bible";
 
 function toBlobFilename(title: string, fallbackId?: string): string {
   const date = new Date().toISOString().slice(0, 10);
@@ -31,7 +32,8 @@ function toBlobFilename(title: string, fallbackId?: string): string {
   return `${date}_${slug || fallbackId || uuidv4().slice(0, 8)}.mp4`;
 }
 import { getDb } from "../db";
-import { concatMP4Clips } from "./mp4-concat";
+import { concatMP4Clips, readMP4Duration } from "./mp4-concat";
+import { buildCaptionCues, saveSceneCaptionText, storeCaptions, type CaptionSource } from "./captions";
 import { getGenreBlobFolder } from "../genre-utils";
 import { submitVideoJob } from "../xai";
 import { env } from "../bible/env";
@@ -152,16 +154,23 @@ export interface Screenplay {
   clipCount: number;
   scenes: SceneDescription[];
   totalDuration: number;
+  characterBible?: string;
+  locationBible?: string;
 }
 
 /**
  * Generate a screenplay using Claude — a structured sequence of scenes that
  * will each become a 10-second Grok video clip.
+ *
+ * When `series` is given (a franchise with a stored bible), its established
+ * characters and locations go into the prompt and pinned descriptions replace
+ * the AI's for the same names.
  */
 export async function generateScreenplay(
   genre: string,
   clipCount: number = 4,
   customTopic?: string,
+  series?: SeriesBible | null,
 ): Promise<Screenplay | null> {
   const template = GENRE_TEMPLATES[genre] || GENRE_TEMPLATES.drama;
   const duration = clipCount * 10;
@@ -177,6 +186,7 @@ GENRE STYLE GUIDE:
 CREATIVE DIRECTION:
 ${template.screenplayInstructions}
 ${customTopic ? `\nSPECIFIC TOPIC/THEME: ${customTopic}` : ""}
+${buildSeriesDirective(series ?? null)}
 
 Create exactly ${clipCount} scenes, each exactly 10 seconds long. Each scene's video_prompt must be a SINGLE, CONCISE paragraph (under 80 words) describing ONLY the visual action — what the camera sees. No dialogue, no narration, no audio descriptions.
 
@@ -193,6 +203,8 @@ Respond in this exact JSON format:
   "title": "FILM TITLE (catchy, max 6 words)",
   "tagline": "One-line hook that sells the film",
   "synopsis": "2-3 sentence plot summary",
+  "character_bible": "One paragraph per character, starting with their name (e.g. 'KAI: ...'). Body type, skin, hair, clothing colors, accessories, distinguishing marks.",
+  "location_bible": "One paragraph per key location, starting with its name. Architecture, colours, lighting, props.",
   "scenes": [
     {
       "sceneNumber": 1,
@@ -208,8 +220,10 @@ Respond in this exact JSON format:
       title: string;
       tagline: string;
       synopsis: string;
+      character_bible?: string;
+      location_bible?: string;
       scenes: { sceneNumber: number; title: string; description: string; video_prompt: string }[];
-    }>(prompt, 1500);
+    }>(prompt, 2000);
     if (!parsed) return null;
 
     const scenes: SceneDescription[] = parsed.scenes.map((s: { sceneNumber: number; title: string; description: string; video_prompt: string }, i: number) => ({
@@ -229,6 +243,8 @@ Respond in this exact JSON format:
       clipCount: scenes.length,
       scenes,
       totalDuration: scenes.length * 10,
+      characterBible: applyPinnedDescriptions(parsed.character_bible || "", series?.entries ?? [], "character"),
+      locationBible: applyPinnedDescriptions(parsed.location_bible || "", series?.entries ?? [], "location"),
     };
   } catch (err) {
     console.error("[multi-clip] Screenplay generation failed:", err);
@@ -304,16 +320,18 @@ export async function submitMultiClipJobs(
   const caption = `${screenplay.title} — ${screenplay.tagline}\n\n${screenplay.synopsis}\n\n#AIGlitchPremieres #AIGlitch${capitalize(screenplay.genre)}`;
 
   await sql`
-    INSERT INTO multi_clip_jobs (id, screenplay_id, title, tagline, synopsis, genre, clip_count, persona_id, caption)
-    VALUES (${jobId}, ${screenplay.id}, ${screenplay.title}, ${screenplay.tagline}, ${screenplay.synopsis}, ${screenplay.genre}, ${screenplay.clipCount}, ${personaId}, ${caption})
+    INSERT INTO multi_clip_jobs (id, screenplay_id, title, tagline, synopsis, genre, clip_count, persona_id, caption, aspect_ratio)
+    VALUES (${jobId}, ${screenplay.id}, ${screenplay.title}, ${screenplay.tagline}, ${screenplay.synopsis}, ${screenplay.genre}, ${screenplay.clipCount}, ${personaId}, ${caption}, ${aspectRatio})
   `;
 
   // Submit each scene as a Grok video job
   for (const scene of screenplay.scenes) {
     const sceneId = uuidv4();
 
-    // Enrich the prompt with genre-specific cinematic context
-    const enrichedPrompt = `${scene.videoPrompt}. ${template.cinematicStyle}. ${template.lightingDesign}. ${template.technicalValues}`;
+    // Enrich the prompt with genre-specific cinematic context, plus the character
+    // bible (compact, like channel clips) so every clip shows the same cast
+    const characters = screenplay.characterBible ? `CHARACTERS: ${screenplay.characterBible.slice(0, 600)}\n\n` : "";
+    const enrichedPrompt = `${characters}${scene.videoPrompt}. ${template.cinematicStyle}. ${template.lightingDesign}. ${template.technicalValues}`;
 
     try {
       // Use shared submitVideoJob() for consistent auth, logging, and Kie.ai fallback
@@ -339,31 +357,304 @@ export async function submitMultiClipJobs(
         await sql`UPDATE multi_clip_jobs SET completed_clips = completed_clips + 1 WHERE id = ${jobId}`;
         console.log(`[multi-clip] Scene ${scene.sceneNumber}/${screenplay.clipCount} done immediately (${result.provider})`);
       } else {
-        console.error(`[multi-clip] Scene ${scene.sceneNumber} submit failed — no provider available`);
-        await sql`
-          INSERT INTO multi_clip_scenes (id, job_id, scene_number, title, video_prompt, status)
-          VALUES (${sceneId}, ${jobId}, ${scene.sceneNumber}, ${scene.title}, ${enrichedPrompt}, ${"failed"})
-        `;
+        console.error(`[multi-clip] Scene ${scene.sceneNumber} submit failed — no provider available, queued for retry`);
+        await insertRetryScene(sql, sceneId, jobId, scene.sceneNumber, scene.title, enrichedPrompt, result.error || "no_provider");
       }
     } catch (err) {
       console.error(`[multi-clip] Scene ${scene.sceneNumber} error:`, err);
-      await sql`
-        INSERT INTO multi_clip_scenes (id, job_id, scene_number, title, video_prompt, status)
-        VALUES (${sceneId}, ${jobId}, ${scene.sceneNumber}, ${scene.title}, ${scene.videoPrompt}, ${"failed"})
-      `;
+      const msg = err instanceof Error ? err.message : String(err);
+      await insertRetryScene(sql, sceneId, jobId, scene.sceneNumber, scene.title, enrichedPrompt, `error: ${msg.slice(0, 200)}`);
     }
   }
 
+  await saveSceneCaptionText(jobId, screenplay.scenes.map(scene => ({ sceneNumber: scene.sceneNumber, text: scene.description })));
+
   return jobId;
 }
 
+// ─── Scene Retries & Recovery ─────────────────────────────────────────────
+//
+// Scene lifecycle (multi_clip_scenes.status):
+//   submitted ──done──▶ done ──stitch──▶ stitched
+//       │                 ▲
+//       └─fail/timeout─▶ retry ──resubmit──▶ submitting ──▶ submitted
+//                         │ (after MAX_SCENE_ATTEMPTS)
+//                         └──────────▶ failed
+//   "stitch what we have" marks anything still in flight as skipped.
+//
+// Every transition is a conditional UPDATE on the current status, and scenes
+// and jobs are claimed with leases (last_polled_at / stitch_started_at), so
+// overlapping cron runs can't double-count a clip or double-stitch a movie.
+
+/** Submissions per scene before it's given up on (manual re-rolls can go past this) */
+export const MAX_SCENE_ATTEMPTS = 3;
+
+/** Scene statuses that still count as in flight — a job waits on these before stitching */
+export const IN_FLIGHT_SCENE_STATUSES = ["pending", "submitted", "submitting", "retry"];
+
+/** A submitted scene with no result after this long counts as a failed attempt */
+const SCENE_TIMEOUT_MINUTES = 90;
+/** Attempt n waits n × this before resubmitting */
+const RETRY_BACKOFF_SECONDS = 120;
+/** A stitch claim older than this is assumed to have crashed and is released */
+const STITCH_LEASE_MINUTES = 15;
+/** Words kept from the scene description in a simplified retry prompt */
+const SIMPLIFIED_PROMPT_WORDS = 60;
+
+export interface SceneHistoryEvent {
+  at: string;
+  event: "failed" | "resubmitted" | "done" | "rerolled" | "skipped";
+  attempt: number;
+  detail: string | null;
+}
+
+export interface MultiClipSceneState {
+  id: string;
+  scene_number: number;
+  title: string | null;
+  status: string;
+  attempts: number;
+  fail_reason: string | null;
+  xai_request_id: string | null;
+  video_url: string | null;
+  video_prompt: string;
+  simplify_prompt: boolean;
+  created_at: string;
+  submitted_at: string | null;
+  next_retry_at: string | null;
+  completed_at: string | null;
+  history: SceneHistoryEvent[];
+}
+
+export interface MultiClipJobSummary {
+  id: string;
+  title: string;
+  genre: string;
+  status: string;
+  clip_count: number;
+  completed_clips: number;
+  is_director: boolean;
+  created_at: string;
+  completed_at: string | null;
+  final_video_url: string | null;
+  scene_counts: Record<string, number>;
+}
+
+/**
+ * Cut a continuity-heavy clip prompt down to just the scene, for retrying a
+ * clip the provider rejected or kept failing on. Long bible/style scaffolding
+ * is the usual cause of moderation blocks and 4096-char truncation.
+ */
+export function simplifyScenePrompt(prompt: string): string {
+  const section = prompt.match(/SCENE(?: TO GENERATE)?:\s*([\s\S]*?)(?:\n\s*\n|\n[A-Z][A-Z /-]{2,}:|$)/);
+  const scene = (section?.[1] ?? prompt.replace(/^CHARACTERS:[\s\S]*?\n\n/, "")).trim();
+  const words = scene.split(/\s+/).filter(Boolean);
+  const kept = words.slice(0, SIMPLIFIED_PROMPT_WORDS).join(" ").replace(/[.,;:]+$/, "");
+  return `${kept}. Cinematic, clean composition, consistent lighting. No text overlays.`;
+}
+
+/** Whether a resubmission should use the simplified prompt. */
+export function shouldSimplifyRetry(attempt: number, failReason: string | null, flagged: boolean): boolean {
+  return flagged || attempt >= MAX_SCENE_ATTEMPTS || /moderation/i.test(failReason ?? "");
+}
+
+type Sql = ReturnType<typeof getDb>;
+
+/** Recount completed clips from the scenes themselves (idempotent, unlike +1). */
+async function syncCompletedClips(sql: Sql, jobId: string): Promise<void> {
+  await sql`
+    UPDATE multi_clip_jobs SET completed_clips = (
+      SELECT COUNT(*)::int FROM multi_clip_scenes WHERE job_id = ${jobId} AND status IN ('done', 'stitched')
+    ) WHERE id = ${jobId}
+  `;
+}
+
+/**
+ * Insert a scene whose first submission failed, already queued for retry so
+ * the poller resubmits it instead of the movie going out a clip short.
+ */
+export async function insertRetryScene(
+  sql: Sql, sceneId: string, jobId: string, sceneNumber: number, title: string | null, videoPrompt: string, reason: string,
+): Promise<void> {
+  await sql`
+    INSERT INTO multi_clip_scenes (id, job_id, scene_number, title, video_prompt, status, fail_reason, next_retry_at, history)
+    VALUES (${sceneId}, ${jobId}, ${sceneNumber}, ${title}, ${videoPrompt}, ${"retry"}, ${reason.slice(0, 500)},
+      NOW() + make_interval(secs => ${RETRY_BACKOFF_SECONDS}),
+      jsonb_build_array(jsonb_build_object('at', NOW(), 'event', 'failed', 'attempt', 1, 'detail', ${reason.slice(0, 200)}::text)))
+  `;
+}
+
+/**
+ * Record a failed attempt: schedule a retry with backoff, or give up after
+ * MAX_SCENE_ATTEMPTS. Moderation blocks flag the retry for a simplified prompt.
+ * Returns the new status, or null if another run already moved the scene on.
+ */
+async function failSceneAttempt(sql: Sql, sceneId: string, reason: string): Promise<"retry" | "failed" | null> {
+  const rows = await sql`
+    UPDATE multi_clip_scenes SET
+      status = CASE WHEN attempts < ${MAX_SCENE_ATTEMPTS} THEN 'retry' ELSE 'failed' END,
+      next_retry_at = CASE WHEN attempts < ${MAX_SCENE_ATTEMPTS} THEN NOW() + make_interval(secs => ${RETRY_BACKOFF_SECONDS} * attempts) END,
+      completed_at = CASE WHEN attempts < ${MAX_SCENE_ATTEMPTS} THEN NULL ELSE NOW() END,
+      simplify_prompt = simplify_prompt OR ${/moderation/i.test(reason)},
+      fail_reason = ${reason.slice(0, 500)},
+      history = history || jsonb_build_array(jsonb_build_object('at', NOW(), 'event', 'failed', 'attempt', attempts, 'detail', ${reason.slice(0, 200)}::text))
+    WHERE id = ${sceneId} AND status IN ('submitted', 'submitting')
+    RETURNING status
+  ` as unknown as { status: "retry" | "failed" }[];
+  return rows[0]?.status ?? null;
+}
+
+/** Mark a scene done with its persisted clip, if it's still the attempt we polled. */
+async function completeScene(sql: Sql, sceneId: string, jobId: string, videoUrl: string, fromStatus: "submitted" | "submitting"): Promise<boolean> {
+  const rows = await sql`
+    UPDATE multi_clip_scenes SET
+      status = 'done', video_url = ${videoUrl}, completed_at = NOW(), fail_reason = NULL,
+      history = history || jsonb_build_array(jsonb_build_object('at', NOW(), 'event', 'done', 'attempt', attempts, 'detail', NULL::text))
+    WHERE id = ${sceneId} AND status = ${fromStatus}
+    RETURNING id
+  `;
+  if (rows.length === 0) return false;
+  await syncCompletedClips(sql, jobId);
+  return true;
+}
+
+/**
+ * Resubmit scenes whose retry is due. Each scene is claimed (retry →
+ * submitting, attempts + 1) before the provider call so two runs can't both
+ * resubmit it. Returns how many were resubmitted or finished.
+ */
+export async function resubmitDueScenes(limit = 3): Promise<number> {
+  const sql = getDb();
+  const due = await sql`
+    UPDATE multi_clip_scenes s SET status = 'submitting', attempts = s.attempts + 1, last_polled_at = NOW()
+    FROM multi_clip_jobs j
+    WHERE j.id = s.job_id AND s.id IN (
+      SELECT s2.id FROM multi_clip_scenes s2
+      JOIN multi_clip_jobs j2 ON j2.id = s2.job_id
+      WHERE s2.status = 'retry' AND j2.status = 'generating'
+        AND COALESCE(s2.next_retry_at, NOW()) <= NOW()
+      ORDER BY s2.next_retry_at ASC NULLS FIRST
+      LIMIT ${limit}
+      FOR UPDATE OF s2 SKIP LOCKED
+    )
+    RETURNING s.id, s.job_id, s.scene_number, s.video_prompt, s.attempts, s.fail_reason, s.simplify_prompt, j.aspect_ratio,
+      EXISTS (SELECT 1 FROM director_movies dm WHERE dm.multi_clip_job_id = s.job_id) AS is_director
+  ` as unknown as {
+    id: string; job_id: string; scene_number: number; video_prompt: string; attempts: number;
+    fail_reason: string | null; simplify_prompt: boolean; aspect_ratio: string | null; is_director: boolean;
+  }[];
+
+  let resubmitted = 0;
+  for (const scene of due) {
+    const simplified = shouldSimplifyRetry(scene.attempts, scene.fail_reason, scene.simplify_prompt);
+    const prompt = simplified ? simplifyScenePrompt(scene.video_prompt) : scene.video_prompt;
+    const aspectRatio = (scene.aspect_ratio || (scene.is_director ? "16:9" : "9:16")) as "9:16" | "16:9";
+    try {
+      const result = await submitVideoJob(prompt, 10, aspectRatio);
+      if (result.requestId) {
+        await sql`
+          UPDATE multi_clip_scenes SET
+            status = 'submitted', xai_request_id = ${result.requestId}, submitted_at = NOW(),
+            last_polled_at = NULL, next_retry_at = NULL,
+            history = history || jsonb_build_array(jsonb_build_object('at', NOW(), 'event', 'resubmitted', 'attempt', attempts, 'detail', ${`${result.provider}${simplified ? ", simplified prompt" : ""}`}::text))
+          WHERE id = ${scene.id} AND status = 'submitting'
+        `;
+        resubmitted++;
+        console.log(`[multi-clip] Scene ${scene.scene_number} (job ${scene.job_id}) resubmitted, attempt ${scene.attempts}${simplified ? " (simplified)" : ""}: ${result.requestId}`);
+      } else if (result.videoUrl) {
+        const blobUrl = await persistClip(result.videoUrl, scene.job_id, scene.scene_number, scene.attempts);
+        if (await completeScene(sql, scene.id, scene.job_id, blobUrl, "submitting")) resubmitted++;
+      } else {
+        const status = await failSceneAttempt(sql, scene.id, result.error || "submit_rejected");
+        console.warn(`[multi-clip] Scene ${scene.scene_number} (job ${scene.job_id}) resubmit rejected → ${status}`);
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      await failSceneAttempt(sql, scene.id, `error: ${msg.slice(0, 200)}`);
+      console.error(`[multi-clip] Scene ${scene.scene_number} (job ${scene.job_id}) resubmit error: ${msg}`);
+    }
+  }
+  return resubmitted;
+}
+
+/**
+ * Claim a job for stitching (generating → stitching). Only one caller wins,
+ * so overlapping cron runs can't post the same movie twice.
+ */
+export async function claimStitch(jobId: string, fromStatuses: string[] = ["generating"]): Promise<boolean> {
+  const sql = getDb();
+  const rows = await sql`
+    UPDATE multi_clip_jobs SET status = 'stitching', stitch_started_at = NOW()
+    WHERE id = ${jobId} AND status = ANY(${fromStatuses})
+    RETURNING id
+  `;
+  return rows.length > 0;
+}
+
+/** Give up a stitch claim — back to generating (try again later) or failed. */
+export async function releaseStitch(jobId: string, status: "generating" | "failed"): Promise<void> {
+  const sql = getDb();
+  await sql`
+    UPDATE multi_clip_jobs SET status = ${status}, completed_at = ${status === "failed" ? new Date().toISOString() : null}
+    WHERE id = ${jobId} AND status = 'stitching'
+  `;
+}
+
+/** Stop waiting on a job's unfinished scenes so it can be stitched from what's done. */
+export async function skipUnfinishedScenes(jobId: string): Promise<number> {
+  const sql = getDb();
+  const rows = await sql`
+    UPDATE multi_clip_scenes SET
+      status = 'skipped', completed_at = NOW(),
+      history = history || jsonb_build_array(jsonb_build_object('at', NOW(), 'event', 'skipped', 'attempt', attempts, 'detail', 'stitch what we have'::text))
+    WHERE job_id = ${jobId} AND status IN ('pending', 'submitted', 'submitting', 'retry')
+    RETURNING id
+  `;
+  return rows.length;
+}
+
+/**
+ * Stitch and post a (non-director) job the caller has already claimed, and
+ * settle its status. Director movies go through stitchAndTriplePost().
+ */
+export async function stitchClaimedJob(jobId: string): Promise<{ postId: string; videoUrl: string } | null> {
+  const sql = getDb();
+  const [job] = await sql`
+    SELECT id, title, genre, persona_id, caption FROM multi_clip_jobs WHERE id = ${jobId}
+  ` as unknown as { id: string; title: string; genre: string; persona_id: string; caption: string }[];
+  if (!job) return null;
+
+  try {
+    const stitched = await stitchAndPost(job.id, job.persona_id, job.caption, job.genre, job.title);
+    if (!stitched) {
+      await releaseStitch(job.id, "failed");
+      return null;
+    }
+    await sql`UPDATE multi_clip_jobs SET status = 'done', final_video_url = ${stitched.videoUrl}, completed_at = NOW() WHERE id = ${job.id}`;
+    console.log(`[multi-clip] Job ${job.id} "${job.title}" stitched and posted!`);
+    // Update linked elon campaign (if any) with video URL + spread to social
+    await finalizeElonCampaign(job.id, stitched.postId, stitched.videoUrl);
+    return stitched;
+  } catch (err) {
+    console.error(`[multi-clip] Stitch error for job ${job.id}:`, err);
+    await releaseStitch(job.id, "failed");
+    return null;
+  }
+}
+
 /**
  * Poll pending multi-clip scenes and persist completed videos.
- * Called by the cron job. Returns the number of newly completed clips.
+ * Called by the cron job. Safe to run concurrently with itself.
+ *
+ *   1. Release stitch claims that outlived their lease (crashed run)
+ *   2. Poll submitted scenes (leased for 45s so runs don't double-poll)
+ *   3. Time out stuck scenes → retry or failed
+ *   4. Resubmit scenes whose retry is due
+ *   5. Stitch series jobs that are complete, or finished with ≥ 50% of clips
  */
-export async function pollMultiClipJobs(): Promise<{ polled: number; completed: number; stitched: string[] }> {
+export async function pollMultiClipJobs(): Promise<{ polled: number; completed: number; resubmitted: number; stitched: string[] }> {
   const sql = getDb();
-  const result = { polled: 0, completed: 0, stitched: [] as string[] };
+  const result = { polled: 0, completed: 0, resubmitted: 0, stitched: [] as string[] };
 
   // Check if multi_clip tables exist
   try {
@@ -372,16 +663,29 @@ export async function pollMultiClipJobs(): Promise<{ polled: number; completed:
     return result; // Tables don't exist yet
   }
 
-  // Find pending scenes to poll (3-hour window — xAI clips can take a while)
+  const released = await sql`
+    UPDATE multi_clip_jobs SET status = 'generating'
+    WHERE status = 'stitching' AND stitch_started_at IS NOT NULL
+      AND stitch_started_at < NOW() - make_interval(mins => ${STITCH_LEASE_MINUTES})
+    RETURNING id
+  `;
+  if (released.length > 0) {
+    console.warn(`[multi-clip] Released ${released.length} stale stitch claim(s): ${released.map(r => r.id).join(", ")}`);
+  }
+
   const pendingScenes = await sql`
-    SELECT s.id, s.job_id, s.scene_number, s.xai_request_id
-    FROM multi_clip_scenes s
-    JOIN multi_clip_jobs j ON s.job_id = j.id
-    WHERE s.status = 'submitted' AND s.xai_request_id IS NOT NULL
-      AND j.status = 'generating'
-      AND s.created_at > NOW() - INTERVAL '3 hours'
-    ORDER BY s.created_at ASC LIMIT 10
-  ` as unknown as { id: string; job_id: string; scene_number: number; xai_request_id: string }[];
+    UPDATE multi_clip_scenes SET last_polled_at = NOW()
+    WHERE id IN (
+      SELECT s.id FROM multi_clip_scenes s
+      JOIN multi_clip_jobs j ON s.job_id = j.id
+      WHERE s.status = 'submitted' AND s.xai_request_id IS NOT NULL
+        AND j.status = 'generating'
+        AND (s.last_polled_at IS NULL OR s.last_polled_at < NOW() - INTERVAL '45 seconds')
+      ORDER BY COALESCE(s.submitted_at, s.created_at) ASC LIMIT 10
+      FOR UPDATE OF s SKIP LOCKED
+    )
+    RETURNING id, job_id, scene_number, xai_request_id, attempts
+  ` as unknown as { id: string; job_id: string; scene_number: number; xai_request_id: string; attempts: number }[];
 
   for (const scene of pendingScenes) {
     result.polled++;
@@ -393,24 +697,24 @@ export async function pollMultiClipJobs(): Promise<{ polled: number; completed:
       if (!pollRes.ok) {
         const errBody = await pollRes.text().catch(() => "(unreadable)");
         console.error(`[multi-clip] Poll HTTP ${pollRes.status} for scene ${scene.scene_number} (job ${scene.job_id}, req ${scene.xai_request_id}): ${errBody.slice(0, 300)}`);
-        // Store the failure reason on the scene for diagnostics
-        await sql`UPDATE multi_clip_scenes SET fail_reason = ${`poll_http_${pollRes.status}`} WHERE id = ${scene.id}`;
+        // Store the failure reason on the scene for diagnostics; the timeout sweep retries it
+        await sql`UPDATE multi_clip_scenes SET fail_reason = ${`poll_http_${pollRes.status}`} WHERE id = ${scene.id} AND status = 'submitted'`;
         continue;
       }
       const pollData = await pollRes.json();
 
       if (pollData.status === "done" && pollData.respect_moderation !== false && pollData.video?.url) {
-        const blobUrl = await persistClip(pollData.video.url, scene.job_id, scene.scene_number);
-        await sql`UPDATE multi_clip_scenes SET status = 'done', video_url = ${blobUrl}, completed_at = NOW() WHERE id = ${scene.id}`;
-        await sql`UPDATE multi_clip_jobs SET completed_clips = completed_clips + 1 WHERE id = ${scene.job_id}`;
-        result.completed++;
-        console.log(`[multi-clip] Scene ${scene.scene_number} done for job ${scene.job_id}`);
+        const blobUrl = await persistClip(pollData.video.url, scene.job_id, scene.scene_number, scene.attempts);
+        if (await completeScene(sql, scene.id, scene.job_id, blobUrl, "submitted")) {
+          result.completed++;
+          console.log(`[multi-clip] Scene ${scene.scene_number} done for job ${scene.job_id}`);
+        }
       } else if (pollData.status === "expired" || pollData.status === "failed" || pollData.respect_moderation === false) {
         const reason = pollData.respect_moderation === false
           ? "moderation_blocked"
           : `grok_${pollData.status}`;
-        await sql`UPDATE multi_clip_scenes SET status = 'failed', completed_at = NOW(), fail_reason = ${reason} WHERE id = ${scene.id}`;
-        console.log(`[multi-clip] Scene ${scene.scene_number} FAILED for job ${scene.job_id}: ${reason} (request ${scene.xai_request_id})`);
+        const status = await failSceneAttempt(sql, scene.id, reason);
+        console.log(`[multi-clip] Scene ${scene.scene_number} attempt ${scene.attempts} FAILED for job ${scene.job_id}: ${reason} (request ${scene.xai_request_id}) → ${status}`);
       } else {
         // Still processing — log the actual status for diagnostics
         console.log(`[multi-clip] Scene ${scene.scene_number} still ${pollData.status || "unknown"} for job ${scene.job_id} (request ${scene.xai_request_id})`);
@@ -421,97 +725,148 @@ export async function pollMultiClipJobs(): Promise<{ polled: number; completed:
     }
   }
 
-  // Check if any jobs are fully complete and ready to stitch.
-  // Exclude director movie jobs — those are handled by stitchAndTriplePost() in director-movies.ts
-  const readyJobs = await sql`
-    SELECT j.id, j.title, j.genre, j.clip_count, j.persona_id, j.caption
-    FROM multi_clip_jobs j
-    LEFT JOIN director_movies dm ON dm.multi_clip_job_id = j.id
-    WHERE j.status = 'generating'
-      AND j.completed_clips >= j.clip_count
-      AND dm.id IS NULL
-  ` as unknown as { id: string; title: string; genre: string; clip_count: number; persona_id: string; caption: string }[];
-
-  for (const job of readyJobs) {
-    try {
-      await sql`UPDATE multi_clip_jobs SET status = 'stitching' WHERE id = ${job.id}`;
-      const stitchResult = await stitchAndPost(job.id, job.persona_id, job.caption, job.genre, job.title);
-      if (stitchResult) {
-        await sql`UPDATE multi_clip_jobs SET status = 'done', final_video_url = ${stitchResult.videoUrl}, completed_at = NOW() WHERE id = ${job.id}`;
-        result.stitched.push(job.id);
-        console.log(`[multi-clip] Job ${job.id} "${job.title}" stitched and posted!`);
-        // Update linked elon campaign (if any) with video URL + spread to social
-        await finalizeElonCampaign(job.id, stitchResult.postId, stitchResult.videoUrl);
-      } else {
-        await sql`UPDATE multi_clip_jobs SET status = 'failed', completed_at = NOW() WHERE id = ${job.id}`;
-      }
-    } catch (err) {
-      console.error(`[multi-clip] Stitch error for job ${job.id}:`, err);
-      await sql`UPDATE multi_clip_jobs SET status = 'failed', completed_at = NOW() WHERE id = ${job.id}`;
-    }
-  }
-
-  // Mark scenes stuck as "submitted" for over 3 hours as failed (with reason)
+  // Scenes stuck submitted past the timeout (or a resubmission that died
+  // mid-call) count as a failed attempt
   const timedOut = await sql`
-    UPDATE multi_clip_scenes SET status = 'failed', completed_at = NOW(), fail_reason = 'timeout_3h'
-    WHERE status = 'submitted' AND created_at < NOW() - INTERVAL '3 hours'
-    RETURNING id, job_id, scene_number
-  ` as unknown as { id: string; job_id: string; scene_number: number }[];
+    UPDATE multi_clip_scenes SET
+      status = CASE WHEN attempts < ${MAX_SCENE_ATTEMPTS} THEN 'retry' ELSE 'failed' END,
+      next_retry_at = CASE WHEN attempts < ${MAX_SCENE_ATTEMPTS} THEN NOW() END,
+      completed_at = CASE WHEN attempts < ${MAX_SCENE_ATTEMPTS} THEN NULL ELSE NOW() END,
+      fail_reason = CASE WHEN status = 'submitting' THEN 'submit_stalled' ELSE ${`timeout_${SCENE_TIMEOUT_MINUTES}m`} END,
+      history = history || jsonb_build_array(jsonb_build_object('at', NOW(), 'event', 'failed', 'attempt', attempts,
+        'detail', CASE WHEN status = 'submitting' THEN 'submit_stalled' ELSE ${`timeout_${SCENE_TIMEOUT_MINUTES}m`} END))
+    WHERE job_id IN (SELECT id FROM multi_clip_jobs WHERE status = 'generating')
+      AND (
+        (status = 'submitted' AND COALESCE(submitted_at, created_at) < NOW() - make_interval(mins => ${SCENE_TIMEOUT_MINUTES}))
+        OR (status = 'submitting' AND last_polled_at < NOW() - INTERVAL '10 minutes')
+      )
+    RETURNING id, job_id, scene_number, status
+  ` as unknown as { id: string; job_id: string; scene_number: number; status: string }[];
   if (timedOut.length > 0) {
-    console.warn(`[multi-clip] Timed out ${timedOut.length} scenes after 3 hours: ${timedOut.map(s => `scene ${s.scene_number} (job ${s.job_id})`).join(", ")}`);
+    console.warn(`[multi-clip] Timed out ${timedOut.length} scene(s): ${timedOut.map(s => `scene ${s.scene_number} (job ${s.job_id}) → ${s.status}`).join(", ")}`);
   }
 
-  // Check for jobs where some clips failed but enough succeeded (at least 50%),
-  // OR where all remaining scenes are failed/done (no more pending).
-  // Exclude director movie jobs — those are handled by the director-movies pipeline.
-  const partialJobs = await sql`
-    SELECT j.id, j.title, j.genre, j.clip_count, j.persona_id, j.caption,
+  result.resubmitted = await resubmitDueScenes();
+
+  // Jobs ready to stitch: every clip done, or nothing left in flight and at
+  // least half the clips made it. Director movies are excluded — those are
+  // stitched by stitchAndTriplePost() in director-movies.ts.
+  const candidates = await sql`
+    SELECT j.id, j.title, j.clip_count, j.completed_clips,
       (SELECT COUNT(*)::int FROM multi_clip_scenes WHERE job_id = j.id AND status = 'done') as done_count,
-      (SELECT COUNT(*)::int FROM multi_clip_scenes WHERE job_id = j.id AND status IN ('submitted', 'pending')) as pending_count
+      (SELECT COUNT(*)::int FROM multi_clip_scenes WHERE job_id = j.id AND status IN ('pending', 'submitted', 'submitting', 'retry')) as pending_count
     FROM multi_clip_jobs j
     LEFT JOIN director_movies dm ON dm.multi_clip_job_id = j.id
     WHERE j.status = 'generating'
-      AND j.created_at < NOW() - INTERVAL '20 minutes'
       AND dm.id IS NULL
-  ` as unknown as { id: string; title: string; genre: string; clip_count: number; persona_id: string; caption: string; done_count: number; pending_count: number }[];
-
-  for (const job of partialJobs) {
-    if (job.pending_count === 0 && job.done_count >= Math.ceil(job.clip_count / 2)) {
-      // Enough clips done, stitch what we have
-      try {
-        await sql`UPDATE multi_clip_jobs SET status = 'stitching' WHERE id = ${job.id}`;
-        const partialResult = await stitchAndPost(job.id, job.persona_id, job.caption, job.genre, job.title);
-        if (partialResult) {
-          await sql`UPDATE multi_clip_jobs SET status = 'done', final_video_url = ${partialResult.videoUrl}, completed_at = NOW() WHERE id = ${job.id}`;
-          result.stitched.push(job.id);
-          await finalizeElonCampaign(job.id, partialResult.postId, partialResult.videoUrl);
-        } else {
-          await sql`UPDATE multi_clip_jobs SET status = 'failed', completed_at = NOW() WHERE id = ${job.id}`;
-        }
-      } catch (err) {
-        console.error(`[multi-clip] Partial stitch error for job ${job.id}:`, err);
-        await sql`UPDATE multi_clip_jobs SET status = 'failed', completed_at = NOW() WHERE id = ${job.id}`;
-      }
-    } else if (job.pending_count === 0 && job.done_count < Math.ceil(job.clip_count / 2)) {
+      AND (j.completed_clips >= j.clip_count OR j.created_at < NOW() - INTERVAL '20 minutes')
+  ` as unknown as { id: string; title: string; clip_count: number; completed_clips: number; done_count: number; pending_count: number }[];
+
+  for (const job of candidates) {
+    const complete = job.completed_clips >= job.clip_count;
+    const enough = job.done_count >= Math.ceil(job.clip_count / 2);
+    if (!complete && job.pending_count > 0) continue;
+
+    if (complete || enough) {
+      if (!(await claimStitch(job.id))) continue; // another run is stitching it
+      if (!complete) console.log(`[multi-clip] Stitching partial job ${job.id} "${job.title}" (${job.done_count}/${job.clip_count} clips)`);
+      const stitched = await stitchClaimedJob(job.id);
+      if (stitched) result.stitched.push(job.id);
+    } else {
       // Too few clips succeeded
-      await sql`UPDATE multi_clip_jobs SET status = 'failed', completed_at = NOW() WHERE id = ${job.id}`;
+      await sql`UPDATE multi_clip_jobs SET status = 'failed', completed_at = NOW() WHERE id = ${job.id} AND status = 'generating'`;
     }
   }
 
   return result;
 }
 
+// ── Admin timeline ──────────────────────────────────────────────────────
+
+/** Recent multi-clip jobs with per-status scene counts. */
+export async function listMultiClipJobs(limit = 30): Promise<MultiClipJobSummary[]> {
+  const sql = getDb();
+  const rows = await sql`
+    SELECT j.id, j.title, j.genre, j.status, j.clip_count, COALESCE(j.completed_clips, 0)::int AS completed_clips,
+      j.created_at, j.completed_at, j.final_video_url,
+      EXISTS (SELECT 1 FROM director_movies dm WHERE dm.multi_clip_job_id = j.id) AS is_director,
+      COALESCE((
+        SELECT jsonb_object_agg(status, n) FROM (
+          SELECT status, COUNT(*)::int AS n FROM multi_clip_scenes WHERE job_id = j.id GROUP BY status
+        ) c
+      ), '{}'::jsonb) AS scene_counts
+    FROM multi_clip_jobs j
+    ORDER BY j.created_at DESC
+    LIMIT ${limit}
+  `;
+  return rows as unknown as MultiClipJobSummary[];
+}
+
+/** One job and its scenes in order, with each scene's attempt history. */
+export async function getMultiClipTimeline(jobId: string): Promise<{ job: MultiClipJobSummary; scenes: MultiClipSceneState[] } | null> {
+  const sql = getDb();
+  const [jobs, scenes] = await Promise.all([
+    sql`
+      SELECT j.id, j.title, j.genre, j.status, j.clip_count, COALESCE(j.completed_clips, 0)::int AS completed_clips,
+        j.created_at, j.completed_at, j.final_video_url,
+        EXISTS (SELECT 1 FROM director_movies dm WHERE dm.multi_clip_job_id = j.id) AS is_director,
+        '{}'::jsonb AS scene_counts
+      FROM multi_clip_jobs j WHERE j.id = ${jobId}
+    ` as unknown as Promise<MultiClipJobSummary[]>,
+    sql`
+      SELECT id, scene_number, title, status, attempts, fail_reason, xai_request_id, video_url, video_prompt,
+        simplify_prompt, created_at, submitted_at, next_retry_at, completed_at, history
+      FROM multi_clip_scenes WHERE job_id = ${jobId}
+      ORDER BY scene_number ASC
+    ` as unknown as Promise<MultiClipSceneState[]>,
+  ]);
+  if (jobs.length === 0) return null;
+  const counts: Record<string, number> = {};
+  for (const s of scenes) counts[s.status] = (counts[s.status] ?? 0) + 1;
+  return { job: { ...jobs[0], scene_counts: counts }, scenes };
+}
+
+/**
+ * Re-roll one scene: throw away its clip (or in-flight request) and queue an
+ * immediate resubmission. A failed job goes back to generating; a job that's
+ * stitching or already posted can't be re-rolled.
+ */
+export async function rerollScene(sceneId: string, simplify = false): Promise<{ jobId: string } | { error: string }> {
+  const sql = getDb();
+  const rows = await sql`
+    UPDATE multi_clip_scenes s SET
+      status = 'retry', next_retry_at = NOW(), video_url = NULL, completed_at = NULL,
+      simplify_prompt = ${simplify},
+      history = s.history || jsonb_build_array(jsonb_build_object('at', NOW(), 'event', 'rerolled', 'attempt', s.attempts, 'detail', ${simplify ? "simplified prompt" : "manual"}::text))
+    FROM multi_clip_jobs j
+    WHERE s.id = ${sceneId} AND j.id = s.job_id
+      AND j.status IN ('generating', 'failed')
+      AND s.status <> 'submitting'
+    RETURNING s.job_id
+  ` as unknown as { job_id: string }[];
+  if (rows.length === 0) {
+    return { error: "Scene not found, mid-submission, or its movie is already stitched" };
+  }
+
+  const jobId = rows[0].job_id;
+  await sql`UPDATE multi_clip_jobs SET status = 'generating', completed_at = NULL WHERE id = ${jobId} AND status = 'failed'`;
+  await syncCompletedClips(sql, jobId);
+  return { jobId };
+}
+
 // ─── Video Stitching & Posting ────────────────────────────────────────────
 
 /**
  * Download a clip and persist to Vercel Blob storage.
  */
-async function persistClip(tempUrl: string, jobId: string, sceneNumber: number): Promise<string> {
+async function persistClip(tempUrl: string, jobId: string, sceneNumber: number, attempt = 1): Promise<string> {
   const res = await fetch(tempUrl);
   if (!res.ok) throw new Error(`Failed to download clip: HTTP ${res.status}`);
   const buffer = Buffer.from(await res.arrayBuffer());
 
-  const blob = await put(`multi-clip/${jobId}/scene-${sceneNumber}.mp4`, buffer, {
+  // Retries get their own path — blob names aren't overwritable
+  const suffix = attempt > 1 ? `-a${attempt}` : "";
+  const blob = await put(`multi-clip/${jobId}/scene-${sceneNumber}${suffix}.mp4`, buffer, {
     access: "public",
     contentType: "video/mp4",
     addRandomSuffix: false,
@@ -593,26 +948,30 @@ async function stitchAndPost(
 
   // Get all completed scenes in order
   const scenes = await sql`
-    SELECT video_url, scene_number FROM multi_clip_scenes
+    SELECT video_url, scene_number, caption_text FROM multi_clip_scenes
     WHERE job_id = ${jobId} AND status = 'done' AND video_url IS NOT NULL
     ORDER BY scene_number ASC
-  ` as unknown as { video_url: string; scene_number: number }[];
+  ` as unknown as { video_url: string; scene_number: number; caption_text: string | null }[];
 
   if (scenes.length === 0) return null;
 
   // If only one clip, just use it directly
   if (scenes.length === 1) {
     const postId = await createPremierePost(sql, scenes[0].video_url, personaId, caption, genre, title, 1);
+    await storeCaptions(postId, scenes[0].video_url, buildCaptionCues([{ text: scenes[0].caption_text ?? "", duration: 10 }]));
     return { postId, videoUrl: scenes[0].video_url };
   }
 
   // Download all clips
   const buffers: Buffer[] = [];
+  const captionSources: CaptionSource[] = [];
   for (const scene of scenes) {
     try {
       const res = await fetch(scene.video_url);
       if (res.ok) {
-        buffers.push(Buffer.from(await res.arrayBuffer()));
+        const buffer = Buffer.from(await res.arrayBuffer());
+        buffers.push(buffer);
+        captionSources.push({ text: scene.caption_text ?? "", duration: readMP4Duration(buffer) ?? 10 });
       }
     } catch (err) {
       console.error(`[multi-clip] Failed to download scene ${scene.scene_number}:`, err);
@@ -625,12 +984,14 @@ async function stitchAndPost(
   // Parses each clip's box structure, combines sample tables, and rebuilds moov.
   // No re-encoding needed — all Grok clips share identical encoding params.
   let stitched: Buffer;
+  let stitchFailed = false;
   try {
     stitched = concatMP4Clips(buffers);
     console.log(`[multi-clip] Stitching SUCCESS: ${buffers.length} clips → ${(stitched.length / 1024 / 1024).toFixed(1)}MB`);
   } catch (err) {
     console.error(`[multi-clip] ⚠️ MP4 CONCATENATION FAILED — falling back to FIRST CLIP ONLY (10s):`, err instanceof Error ? err.message : err);
     stitched = buffers[0];
+    stitchFailed = true;
   }
   const stitchedCaption = scenes.length > 1
     ? `${caption}\n\n[${scenes.length}-scene ${genre} short film]`
@@ -653,6 +1014,7 @@ async function stitchAndPost(
   `;
 
   const postId = await createPremierePost(sql, blob.url, personaId, stitchedCaption, genre, title, scenes.length);
+  await storeCaptions(postId, blob.url, buildCaptionCues(stitchFailed ? captionSources.slice(0, 1) : captionSources));
   return { postId, videoUrl: blob.url };
 }
 
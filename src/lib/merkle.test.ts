@@ -0,0 +1,101 @@
+/**
+ * Merkle Airdrop Tree — Unit Tests
+ * =================================
+ * Deterministic roots, proofs for every leaf (odd and even tree sizes)
+ * and tamper detection.
+ */
+
+import { describe, it, expect } from "vitest";
+import bs58 from "bs58";
+import { createHash } from "crypto";
+import {
+  buildAllocationTree,
+  buildTree,
+  getProof,
+  getProofAt,
+  hashLeaf,
+  isValidWallet,
+  verifyAllocation,
+  verifyProof,
+  type MerkleAllocation,
+} from "./merkle";
+
+const wallet = (n: number) => bs58.encode(Buffer.alloc(32, n));
+const allocations = (count: number): MerkleAllocation[] =>
+  Array.from({ length: count }, (_, i) => ({ wallet: wallet(i + 1), amount: (i + 1) * 1_000 }));
+
+describe("hashLeaf", () => {
+  it("encodes wallet bytes and a little-endian u64 amount", () => {
+    const a = hashLeaf(wallet(1), 1);
+    const amount = Buffer.from([1, 0, 0, 0, 0, 0, 0, 0]);
+    const expected = createHash("sha256").update(Buffer.concat([Buffer.from([0]), Buffer.alloc(32, 1), amount])).digest("hex");
+    expect(a).toBe(expected);
+    expect(hashLeaf(wallet(1), 1)).toBe(a);
+    expect(hashLeaf(wallet(1), 2)).not.toBe(a);
+    expect(hashLeaf(wallet(2), 1)).not.toBe(a);
+  });
+
+  it("rejects malformed wallets and amounts", () => {
+    expect(isValidWallet("not-a-wallet")).toBe(false);
+    expect(isValidWallet(bs58.encode(Buffer.alloc(31, 1)))).toBe(false);
+    expect(() => hashLeaf("0OIl", 1)).toThrow(/Invalid wallet/);
+    expect(() => hashLeaf(wallet(1), 1.5)).toThrow(/whole number/);
+    expect(() => hashLeaf(wallet(1), -1)).toThrow(/whole number/);
+  });
+});
+
+describe("buildAllocationTree", () => {
+  it("gives the same root whatever order the allocations arrive in", () => {
+    const list = allocations(7);
+    expect(buildAllocationTree([...list].reverse()).root).toBe(buildAllocationTree(list).root);
+  });
+
+  it("is the leaf itself for a single allocation", () => {
+    const [only] = allocations(1);
+    const tree = buildAllocationTree([only]);
+    expect(tree.root).toBe(hashLeaf(only.wallet, only.amount));
+    expect(getProof(tree, tree.root)).toEqual([]);
+  });
+
+  it("refuses duplicate wallets and empty sets", () => {
+    const [a] = allocations(1);
+    expect(() => buildAllocationTree([a, { ...a, amount: 5 }])).toThrow(/only appear once/);
+    expect(() => buildTree([])).toThrow(/no leaves/);
+  });
+
+  it.each([2, 3, 5, 8, 13])("proves every leaf of a %i-leaf tree", (count) => {
+    const list = allocations(count);
+    const tree = buildAllocationTree(list);
+    for (const a of list) {
+      const proof = getProof(tree, hashLeaf(a.wallet, a.amount));
+      expect(proof).not.toBeNull();
+      expect(proof!.length).toBeLessThanOrEqual(Math.ceil(Math.log2(count)));
+      expect(verifyAllocation(a, proof!, tree.root)).toBe(true);
+    }
+    tree.layers[0].forEach((leaf, i) => expect(getProofAt(tree, i)).toEqual(getProof(tree, leaf)));
+  });
+});
+
+describe("verification", () => {
+  const list = allocations(6);
+  const tree = buildAllocationTree(list);
+  const target = list[2];
+  const proof = getProof(tree, hashLeaf(target.wallet, target.amount))!;
+
+  it("rejects an inflated amount or someone else's wallet", () => {
+    expect(verifyAllocation({ ...target, amount: target.amount + 1 }, proof, tree.root)).toBe(false);
+    expect(verifyAllocation({ ...target, wallet: wallet(99) }, proof, tree.root)).toBe(false);
+  });
+
+  it("rejects a tampered or truncated proof", () => {
+    const flipped = [...proof];
+    flipped[0] = flipped[0].replace(/^./, c => (c === "0" ? "1" : "0"));
+    expect(verifyAllocation(target, flipped, tree.root)).toBe(false);
+    expect(verifyAllocation(target, proof.slice(1), tree.root)).toBe(false);
+    expect(verifyProof(["zz"], tree.root, hashLeaf(target.wallet, target.amount))).toBe(false);
+  });
+
+  it("returns false instead of throwing on garbage input", () => {
+    expect(verifyAllocation({ wallet: "nope", amount: 1 }, proof, tree.root)).toBe(false);
+  });
+});
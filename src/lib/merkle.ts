@@ -0,0 +1,122 @@
+/**
+ * Merkle Airdrop Tree
+ * ===================
+ * Commits a snapshot's (wallet, amount) allocations to a single 32-byte root
+ * so any holder can prove their allocation with a short list of hashes.
+ *
+ *   leaf = sha256(0x00 ‖ wallet pubkey (32 bytes) ‖ amount (u64 little-endian))
+ *   node = sha256(0x01 ‖ min(a, b) ‖ max(a, b))
+ *
+ * The 0x00 / 0x01 prefixes keep a leaf from ever being passed off as an
+ * inner node. Pairs are hashed in sorted order, so a proof is just the
+ * sibling hashes — no left/right flags — and leaves are sorted by hash before
+ * building, so the same allocations always give the same root. An odd node
+ * out is carried up to the next level unchanged.
+ *
+ * Hashes travel as lowercase hex. Pure: no DB, no network.
+ */
+
+import bs58 from "bs58";
+import { createHash } from "crypto";
+
+export interface MerkleAllocation {
+  /** Base58 Solana wallet address */
+  wallet: string;
+  /** Whole §GLITCH, fits in a u64 */
+  amount: number;
+}
+
+export interface MerkleTree {
+  root: string;
+  /** layers[0] = sorted leaf hashes, last layer = [root] */
+  layers: string[][];
+}
+
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+const sha256 = (...parts: Buffer[]) => createHash("sha256").update(Buffer.concat(parts)).digest();
+
+/** True for a base58 string that decodes to a 32-byte public key. */
+export function isValidWallet(wallet: string): boolean {
+  try {
+    return bs58.decode(wallet).length === 32;
+  } catch {
+    return false;
+  }
+}
+
+/** Hash one allocation. Throws on a malformed wallet or an amount that isn't a u64. */
+export function hashLeaf(wallet: string, amount: number): string {
+  if (!isValidWallet(wallet)) throw new Error(`Invalid wallet address: ${wallet}`);
+  // Safe integers stay well inside a u64
+  if (!Number.isSafeInteger(amount) || amount < 0) {
+    throw new Error(`Amount must be a non-negative whole number: ${amount}`);
+  }
+  const encoded = Buffer.alloc(8);
+  encoded.writeBigUInt64LE(BigInt(amount));
+  return sha256(LEAF_PREFIX, Buffer.from(bs58.decode(wallet)), encoded).toString("hex");
+}
+
+/** Hash two sibling nodes; order doesn't matter. */
+export function hashPair(a: string, b: string): string {
+  const [lo, hi] = a < b ? [a, b] : [b, a];
+  return sha256(NODE_PREFIX, Buffer.from(lo, "hex"), Buffer.from(hi, "hex")).toString("hex");
+}
+
+/** Build the tree over already-hashed leaves. */
+export function buildTree(leafHashes: string[]): MerkleTree {
+  if (leafHashes.length === 0) throw new Error("Cannot build a Merkle tree with no leaves");
+  if (new Set(leafHashes).size !== leafHashes.length) throw new Error("Duplicate Merkle leaves");
+
+  const layers = [[...leafHashes].sort()];
+  while (layers[layers.length - 1].length > 1) {
+    const level = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    layers.push(next);
+  }
+  return { root: layers[layers.length - 1][0], layers };
+}
+
+/** Build the tree for a set of allocations. Each wallet may appear once. */
+export function buildAllocationTree(allocations: MerkleAllocation[]): MerkleTree {
+  const wallets = new Set(allocations.map(a => a.wallet));
+  if (wallets.size !== allocations.length) throw new Error("Each wallet may only appear once");
+  return buildTree(allocations.map(a => hashLeaf(a.wallet, a.amount)));
+}
+
+/** Sibling hashes from a leaf up to the root, or null when the leaf isn't in the tree. */
+export function getProof(tree: MerkleTree, leafHash: string): string[] | null {
+  const index = tree.layers[0].indexOf(leafHash);
+  return index === -1 ? null : getProofAt(tree, index);
+}
+
+/** Proof for the leaf at a position in the sorted leaf layer. */
+export function getProofAt(tree: MerkleTree, leafIndex: number): string[] {
+  const proof: string[] = [];
+  let index = leafIndex;
+  for (const level of tree.layers.slice(0, -1)) {
+    const sibling = index % 2 === 0 ? index + 1 : index - 1;
+    if (sibling < level.length) proof.push(level[sibling]);
+    index = Math.floor(index / 2);
+  }
+  return proof;
+}
+
+/** Recompute the root from a leaf and its proof. */
+export function verifyProof(proof: string[], root: string, leafHash: string): boolean {
+  if (!proof.every(h => /^[0-9a-f]{64}$/.test(h))) return false;
+  return proof.reduce((node, sibling) => hashPair(node, sibling), leafHash) === root;
+}
+
+/** Check a (wallet, amount) claim against a root — false for malformed input rather than throwing. */
+export function verifyAllocation(allocation: MerkleAllocation, proof: string[], root: string): boolean {
+  try {
+    return verifyProof(proof, root, hashLeaf(allocation.wallet, allocation.amount));
+  } catch {
+    return false;
+  }
+}
@@ -3,10 +3,11 @@
  * ========================
  */
 
-import { describe, it, expect, beforeEach } from "vitest";
-import { monitor } from "./monitoring";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { monitor, fingerprintError, normalizeErrorMessage, topStackFrame, type MonitorSink } from "./monitoring";
 
 beforeEach(() => {
+  monitor.setSink(null);
   monitor.reset();
 });
 
@@ -101,3 +102,71 @@ describe("monitor.reset", () => {
     expect(Object.keys(monitor.getCounters())).toHaveLength(0);
   });
 });
+
+describe("fingerprinting", () => {
+  it("normalises ids, numbers and quoted values", () => {
+    expect(normalizeErrorMessage("Post 4f1c2d3e-1111-2222-3333-444455556666 not found after 3 tries"))
+      .toBe("Post <uuid> not found after <n> tries");
+    expect(normalizeErrorMessage('Column "foo" missing at https://x.test/a?b=1'))
+      .toBe("Column <str> missing at <url>");
+  });
+
+  it("drops line and column numbers from the top frame", () => {
+    const stack = "Error: boom\n    at handler (/app/src/route.ts:12:5)\n    at next (/app/x.js:1:1)";
+    expect(topStackFrame(stack)).toBe("at handler (/app/src/route.ts)");
+    expect(topStackFrame(undefined)).toBeNull();
+  });
+
+  it("groups errors that differ only in variable parts", () => {
+    const a = fingerprintError("cron/ads", "Timeout after 3012ms for post 123");
+    const b = fingerprintError("cron/ads", "Timeout after 5000ms for post 987");
+    expect(a).toBe(b);
+    expect(a).toMatch(/^[0-9a-f]{16}$/);
+    expect(fingerprintError("cron/topics", "Timeout after 3012ms for post 123")).not.toBe(a);
+  });
+});
+
+describe("monitor sink", () => {
+  function fakeSink() {
+    const sink = {
+      recordError: vi.fn<MonitorSink["recordError"]>(async () => {}),
+      recordEvents: vi.fn<MonitorSink["recordEvents"]>(async () => {}),
+    };
+    monitor.setSink(sink);
+    return sink;
+  }
+
+  it("writes each error through with its fingerprint", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const sink = fakeSink();
+    monitor.trackError("api/feed", new Error("boom"));
+    await monitor.flush();
+    expect(sink.recordError).toHaveBeenCalledTimes(1);
+    expect(sink.recordError.mock.calls[0][0]).toMatchObject({ source: "api/feed", message: "boom" });
+    expect(sink.recordError.mock.calls[0][0].fingerprint).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it("batches events and drains the remainder on flush", async () => {
+    const sink = fakeSink();
+    for (let i = 0; i < 30; i++) monitor.trackEvent("tick", { i });
+    expect(sink.recordEvents).toHaveBeenCalledTimes(1);
+    expect(sink.recordEvents.mock.calls[0][0]).toHaveLength(25);
+
+    await monitor.flush();
+    expect(sink.recordEvents).toHaveBeenCalledTimes(2);
+    expect(sink.recordEvents.mock.calls[1][0]).toHaveLength(5);
+  });
+
+  it("waits for slow sink writes and survives sink failures", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    let done = false;
+    monitor.setSink({
+      recordError: () => new Promise((resolve) => setTimeout(() => { done = true; resolve(); }, 10)),
+      recordEvents: async () => { throw new Error("db down"); },
+    });
+    monitor.trackError("x", "y");
+    monitor.trackEvent("z");
+    await expect(monitor.flush()).resolves.toBeUndefined();
+    expect(done).toBe(true);
+  });
+});
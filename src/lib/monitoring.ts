@@ -5,36 +5,112 @@
  * Stores recent errors in-memory (ring buffer) and exposes
  * them via the admin dashboard.
  *
+ * Errors are fingerprinted (source + normalised message + top stack frame)
+ * so repeats group together. When a sink is installed (see
+ * src/instrumentation.ts → src/lib/error-store.ts) errors and events are also
+ * persisted, so they survive cold starts and are visible across lambdas.
+ *
  * Usage:
  *   import { monitor } from "@/lib/monitoring";
  *
  *   monitor.trackError("cron/generate", err);
  *   monitor.trackEvent("trade_executed", { persona: "glitch-047", amount: 500 });
  *   const recent = monitor.getRecentErrors();
+ *   await monitor.flush();   // before a lambda returns, to drain pending writes
  */
 
 // ── Error Buffer ─────────────────────────────────────────────────────
 
-interface TrackedError {
+export interface TrackedError {
   source: string;
   message: string;
   stack?: string;
+  fingerprint: string;
   timestamp: Date;
 }
 
-interface TrackedEvent {
+export interface TrackedEvent {
   name: string;
   data?: Record<string, unknown>;
   timestamp: Date;
 }
 
+/** Persistent backend for errors and events. Must never throw into callers. */
+export interface MonitorSink {
+  recordError(error: TrackedError): Promise<void>;
+  recordEvents(events: TrackedEvent[]): Promise<void>;
+}
+
 const MAX_ERRORS = 100;
 const MAX_EVENTS = 200;
+/** Events are written to the sink in batches of this size (or on flush) */
+const EVENT_BATCH_SIZE = 25;
 
 const _errors: TrackedError[] = [];
 const _events: TrackedEvent[] = [];
 const _counters: Map<string, number> = new Map();
 
+// The sink lives on globalThis: src/instrumentation.ts and the route bundles
+// can each get their own copy of this module, but share one global object.
+const _global = globalThis as typeof globalThis & { __aiglitchMonitorSink?: MonitorSink | null };
+const getSink = () => _global.__aiglitchMonitorSink ?? null;
+
+let _unsentEvents: TrackedEvent[] = [];
+const _pending: Set<Promise<void>> = new Set();
+
+// ── Fingerprinting ───────────────────────────────────────────────────
+
+/**
+ * Strip the variable parts of an error message (ids, numbers, quoted values,
+ * URLs) so "Post 4f1c… not found" and "Post 9ab2… not found" group together.
+ */
+export function normalizeErrorMessage(message: string): string {
+  return message
+    .replace(/https?:\/\/\S+/g, "<url>")
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "<uuid>")
+    .replace(/\b0x[0-9a-f]+\b/gi, "<hex>")
+    .replace(/\b[0-9a-f]{16,}\b/gi, "<hex>")
+    .replace(/(["'`])(?:(?!\1).){1,200}\1/g, "<str>")
+    .replace(/\d+(\.\d+)?/g, "<n>")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 300);
+}
+
+/**
+ * Top stack frame without line/column numbers, so the fingerprint survives
+ * unrelated edits to the same file.
+ */
+export function topStackFrame(stack: string | undefined): string | null {
+  if (!stack) return null;
+  const frame = stack.split("\n").map((l) => l.trim()).find((l) => l.startsWith("at "));
+  return frame ? frame.replace(/:\d+:\d+/g, "") : null;
+}
+
+/** FNV-1a over the input, 32 bits as 8 hex chars. */
+function fnv1a(input: string, seed: number): string {
+  let h = seed;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+/** Group key for an error: source + normalised message + top stack frame. */
+export function fingerprintError(source: string, message: string, stack?: string): string {
+  const key = [source, normalizeErrorMessage(message), topStackFrame(stack) ?? ""].join("|");
+  // Two seeds → 64 bits, plenty to keep distinct groups apart
+  return fnv1a(key, 0x811c9dc5) + fnv1a(key, 0x050c5d1f);
+}
+
+/** Track a sink write so flush() can wait for it. */
+function track(write: Promise<void>): void {
+  const p = write.catch(() => { /* sinks swallow their own errors; belt and braces */ });
+  _pending.add(p);
+  void p.finally(() => _pending.delete(p));
+}
+
 /**
  * Track an error from any source (cron, API route, etc.)
  * Also logs to console.error for Vercel log aggregation.
@@ -43,7 +119,13 @@ function trackError(source: string, err: unknown): void {
   const message = err instanceof Error ? err.message : String(err);
   const stack = err instanceof Error ? err.stack : undefined;
 
-  const entry: TrackedError = { source, message, stack, timestamp: new Date() };
+  const entry: TrackedError = {
+    source,
+    message,
+    stack,
+    fingerprint: fingerprintError(source, message, stack),
+    timestamp: new Date(),
+  };
 
   // Ring buffer — drop oldest when full
   if (_errors.length >= MAX_ERRORS) _errors.shift();
@@ -54,15 +136,50 @@ function trackError(source: string, err: unknown): void {
 
   // Always log to stderr for Vercel/container log aggregation
   console.error(`[monitor/${source}]`, message);
+
+  const sink = getSink();
+  if (sink) track(sink.recordError(entry));
 }
 
 /**
  * Track a named event with optional metadata.
  */
 function trackEvent(name: string, data?: Record<string, unknown>): void {
+  const entry: TrackedEvent = { name, data, timestamp: new Date() };
   if (_events.length >= MAX_EVENTS) _events.shift();
-  _events.push({ name, data, timestamp: new Date() });
+  _events.push(entry);
   increment(`event:${name}`);
+
+  if (getSink()) {
+    _unsentEvents.push(entry);
+    if (_unsentEvents.length >= EVENT_BATCH_SIZE) flushEvents();
+  }
+}
+
+function flushEvents(): void {
+  const sink = getSink();
+  if (!sink || _unsentEvents.length === 0) return;
+  const batch = _unsentEvents;
+  _unsentEvents = [];
+  track(sink.recordEvents(batch));
+}
+
+/**
+ * Write buffered events and wait for in-flight sink writes. Call before a
+ * serverless handler returns so nothing is lost when the lambda freezes.
+ */
+async function flush(): Promise<void> {
+  flushEvents();
+  await Promise.all([..._pending]);
+}
+
+/**
+ * Install (or remove, with null) the persistent sink. Events buffered for a
+ * previous sink are dropped.
+ */
+function setSink(sink: MonitorSink | null): void {
+  _global.__aiglitchMonitorSink = sink;
+  _unsentEvents = [];
 }
 
 /**
@@ -117,6 +234,7 @@ function reset(): void {
   _errors.length = 0;
   _events.length = 0;
   _counters.clear();
+  _unsentEvents = [];
 }
 
 export const monitor = {
@@ -127,5 +245,7 @@ export const monitor = {
   getRecentEvents,
   getCounters,
   getSnapshot,
+  flush,
+  setSink,
   reset,
 };
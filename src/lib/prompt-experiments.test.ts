@@ -0,0 +1,158 @@
+/**
+ * Prompt A/B Experiments — Unit Tests
+ * ====================================
+ * Weighted variant picking, the confidence intervals behind the report, and
+ * how getPrompt serves (and records) a running experiment's variants.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { queries, respond, resetMockSql } from "@/lib/test-utils/mock-sql";
+
+vi.mock("@/lib/db", () => import("@/lib/test-utils/mock-sql"));
+
+import { getPrompt, pickWeighted } from "./prompt-overrides";
+import {
+  buildVariantReports,
+  compareToControl,
+  meanInterval,
+  startExperiment,
+  tagPostVariants,
+  wilsonInterval,
+} from "./prompt-experiments";
+
+beforeEach(() => {
+  resetMockSql();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("pickWeighted", () => {
+  const items = [{ id: "a", weight: 1 }, { id: "b", weight: 0 }, { id: "c", weight: 3 }];
+
+  it("splits the unit interval by weight and never picks zero-weight items", () => {
+    expect(pickWeighted(items, 0)?.id).toBe("a");
+    expect(pickWeighted(items, 0.24)?.id).toBe("a");
+    expect(pickWeighted(items, 0.25)?.id).toBe("c");
+    expect(pickWeighted(items, 0.9999)?.id).toBe("c");
+  });
+
+  it("returns null when nothing has traffic", () => {
+    expect(pickWeighted([{ weight: 0 }], 0.5)).toBeNull();
+    expect(pickWeighted([], 0.5)).toBeNull();
+  });
+});
+
+describe("getPrompt with a running experiment", () => {
+  it("serves the picked variant's text and records its id", async () => {
+    respond.fn = (q) => q.includes("FROM prompt_variants") ? [{ id: "v-challenger", value: "Be weirder.", weight: 1 }] : [];
+    const ids: string[] = [];
+    expect(await getPrompt("channel", "aitunes.promptHint", "default", ids)).toBe("Be weirder.");
+    expect(ids).toEqual(["v-challenger"]);
+    // Override table never consulted when a challenger is served
+    expect(queries.some(q => q.query.includes("prompt_overrides"))).toBe(false);
+  });
+
+  it("falls through to the override for the control, still recording it", async () => {
+    respond.fn = (q) => q.includes("FROM prompt_variants")
+      ? [{ id: "v-control", value: null, weight: 1 }]
+      : q.includes("prompt_overrides") ? [{ value: "Override text" }] : [];
+    const ids: string[] = [];
+    expect(await getPrompt("channel", "aitunes.promptHint", "default", ids)).toBe("Override text");
+    expect(ids).toEqual(["v-control"]);
+  });
+
+  it("uses the default when the experiment tables are missing", async () => {
+    respond.fn = (q) => { if (q.includes("prompt_variants")) throw new Error("relation does not exist"); return []; };
+    expect(await getPrompt("genre", "drama.moodTone", "Tense")).toBe("Tense");
+  });
+});
+
+describe("confidence intervals", () => {
+  it("gives a normal-approximation interval for the mean", () => {
+    const m = meanInterval(10, 4, 16);
+    expect(m.low).toBeCloseTo(10 - 1.96, 6);
+    expect(m.high).toBeCloseTo(10 + 1.96, 6);
+    expect(meanInterval(3, 0, 1)).toMatchObject({ low: null, high: null });
+  });
+
+  it("keeps the Wilson interval inside [0, 1]", () => {
+    const w = wilsonInterval(0, 10)!;
+    expect(w.rate).toBe(0);
+    expect(w.low).toBe(0);
+    expect(w.high).toBeGreaterThan(0);
+    expect(w.high).toBeLessThan(0.35);
+    expect(wilsonInterval(5, 0)).toBeNull();
+  });
+
+  it("only calls a winner when the difference interval excludes zero", () => {
+    const control = meanInterval(5, 2, 50);
+    expect(compareToControl(meanInterval(6.5, 2, 50), control)).toBe("better");
+    expect(compareToControl(meanInterval(5.3, 2, 50), control)).toBe("inconclusive");
+    expect(compareToControl(meanInterval(3, 2, 50), control)).toBe("worse");
+    expect(compareToControl(meanInterval(9, 2, 1), control)).toBe("inconclusive");
+  });
+});
+
+describe("buildVariantReports", () => {
+  it("compares each variant with the control and leaves unseen variants empty", () => {
+    const variants = [
+      { id: "ctl", experiment_id: "e", label: "Control", value: null, weight: 50 },
+      { id: "new", experiment_id: "e", label: "Challenger", value: "x", weight: 50 },
+      { id: "late", experiment_id: "e", label: "Late", value: "y", weight: 0 },
+    ];
+    const row = (variant_id: string, likes_mean: number) => ({
+      variant_id, posts: 40,
+      likes_mean, likes_sd: 1, views_mean: 20, views_sd: 5, shares_mean: 1, shares_sd: 1, feedback_mean: 0, feedback_sd: 0,
+      likes_total: likes_mean * 40, views_total: 800,
+    });
+
+    const [control, challenger, late] = buildVariantReports(variants, [row("ctl", 2), row("new", 3)]);
+
+    expect(control.isControl).toBe(true);
+    expect(control.metrics.likes.vsControl).toBeNull();
+    expect(challenger.metrics.likes.vsControl).toBe("better");
+    expect(challenger.metrics.views.vsControl).toBe("inconclusive");
+    expect(challenger.likeRate?.rate).toBeCloseTo(0.15, 6);
+    expect(late.posts).toBe(0);
+    expect(late.likeRate).toBeNull();
+  });
+});
+
+describe("startExperiment / tagPostVariants", () => {
+  it("rejects experiments without two variants carrying traffic", async () => {
+    const result = await startExperiment({
+      category: "channel", key: "channel.aitunes.promptHint", name: "",
+      variants: [{ label: "Control", value: null, weight: 1 }, { label: "B", value: "x", weight: 0 }],
+    });
+    expect(result).toEqual({ error: "At least two variants need traffic" });
+    expect(queries).toHaveLength(0);
+  });
+
+  it("rejects prompts whose posts are never tagged with the served variant", async () => {
+    for (const [category, key] of [["platform", "platform.brief"], ["channel", "channel.aitunes.branding"], ["director", "director.x.style"]]) {
+      const result = await startExperiment({
+        category, key, name: "",
+        variants: [{ label: "Control", value: null, weight: 1 }, { label: "B", value: "x", weight: 1 }],
+      });
+      expect(result).toHaveProperty("error", expect.stringContaining("can't be measured"));
+    }
+    expect(queries).toHaveLength(0);
+  });
+
+  it("stores the bare key getPrompt looks up, not the catalog's prefixed one", async () => {
+    const result = await startExperiment({
+      category: "channel", key: "channel.aitunes.promptHint", name: "Hint test",
+      variants: [{ label: "Control", value: null, weight: 1 }, { label: "B", value: "x", weight: 1 }],
+    });
+    expect(result).toHaveProperty("id");
+    const insert = queries.find(q => q.query.includes("INSERT INTO prompt_experiments"))!;
+    expect(insert.values.slice(1, 4)).toEqual(["channel", "aitunes.promptHint", "Hint test"]);
+  });
+
+  it("skips posts generated outside any experiment", async () => {
+    await tagPostVariants("post-1", []);
+    await tagPostVariants("post-2", undefined);
+    expect(queries).toHaveLength(0);
+    await tagPostVariants("post-3", ["v1"]);
+    expect(queries[0].values).toEqual(["post-3", ["v1"]]);
+  });
+});
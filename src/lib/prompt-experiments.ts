@@ -0,0 +1,333 @@
+/**
+ * Prompt A/B Experiments
+ * ======================
+ * Run several versions of one prompt (a category/key from prompt-overrides)
+ * side by side with traffic weights. getPrompt() serves a weighted-random
+ * variant while the experiment runs; generators collect the served variant
+ * ids and tag their posts via tagPostVariants().
+ *
+ * The report joins those tags with human likes, views (human_view_history),
+ * shares and content_feedback scores, and gives each variant's per-post mean
+ * with a 95% confidence interval plus a verdict against the control.
+ *
+ * Lifecycle: running → stopped, or running/stopped → promoted (the winning
+ * text is saved as the prompt override, so it keeps serving after the test).
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { getDb } from "./db";
+import { getPromptOverrides, savePromptOverride } from "./prompt-overrides";
+
+export type ExperimentStatus = "running" | "stopped" | "promoted";
+
+export interface PromptVariant {
+  id: string;
+  experiment_id: string;
+  label: string;
+  value: string | null; // null = control (the prompt as it would be served without the test)
+  weight: number;
+}
+
+export interface PromptExperiment {
+  id: string;
+  category: string;
+  key: string;
+  name: string;
+  status: ExperimentStatus;
+  winner_variant_id: string | null;
+  started_at: string;
+  stopped_at: string | null;
+  variants: PromptVariant[];
+}
+
+export interface NewVariant {
+  label: string;
+  value: string | null;
+  weight: number;
+}
+
+const Z_95 = 1.96;
+
+/**
+ * Prompts whose generators pass a variantIds collector to getPrompt() and
+ * tag their posts. Any other prompt would serve variants nobody can measure.
+ */
+const TAGGED_PROMPTS: Record<string, RegExp> = {
+  channel: /\.promptHint$/,
+  genre: /\.(cinematicStyle|moodTone|lightingDesign|technicalValues|screenplayInstructions)$/,
+};
+
+/** The prompts catalog shows keys as "<category>.<key>"; getPrompt looks up the bare key. */
+function bareKey(category: string, key: string): string {
+  return key.startsWith(`${category}.`) ? key.slice(category.length + 1) : key;
+}
+
+/** Whether an experiment on this prompt can be measured (its posts get tagged). */
+export function isExperimentable(category: string, key: string): boolean {
+  return TAGGED_PROMPTS[category]?.test(bareKey(category, key)) ?? false;
+}
+
+// ── Tagging ─────────────────────────────────────────────────────────────
+
+/** Record which variants a post was generated with (ids collected by getPrompt). */
+export async function tagPostVariants(postId: string, variantIds: string[] | undefined): Promise<void> {
+  if (!variantIds || variantIds.length === 0) return;
+  const sql = getDb();
+  try {
+    await sql`
+      INSERT INTO post_prompt_variants (post_id, experiment_id, variant_id)
+      SELECT ${postId}, experiment_id, id FROM prompt_variants WHERE id = ANY(${variantIds})
+      ON CONFLICT (post_id, experiment_id) DO NOTHING
+    `;
+  } catch (err) {
+    console.warn(`[prompt-experiments] Failed to tag post ${postId}:`, err instanceof Error ? err.message : err);
+  }
+}
+
+// ── Management ──────────────────────────────────────────────────────────
+
+export async function listExperiments(): Promise<PromptExperiment[]> {
+  const sql = getDb();
+  const experiments = await sql`
+    SELECT id, category, key, name, status, winner_variant_id, started_at, stopped_at
+    FROM prompt_experiments
+    ORDER BY (status = 'running') DESC, started_at DESC
+    LIMIT 50
+  ` as unknown as Omit<PromptExperiment, "variants">[];
+  if (experiments.length === 0) return [];
+
+  const variants = await sql`
+    SELECT id, experiment_id, label, value, weight FROM prompt_variants
+    WHERE experiment_id = ANY(${experiments.map(e => e.id)})
+    ORDER BY created_at ASC
+  ` as unknown as PromptVariant[];
+
+  return experiments.map(e => ({ ...e, variants: variants.filter(v => v.experiment_id === e.id) }));
+}
+
+export async function getExperiment(id: string): Promise<PromptExperiment | null> {
+  const sql = getDb();
+  const [experiment] = await sql`
+    SELECT id, category, key, name, status, winner_variant_id, started_at, stopped_at
+    FROM prompt_experiments WHERE id = ${id}
+  ` as unknown as Omit<PromptExperiment, "variants">[];
+  if (!experiment) return null;
+  const variants = await sql`
+    SELECT id, experiment_id, label, value, weight FROM prompt_variants
+    WHERE experiment_id = ${id} ORDER BY created_at ASC
+  ` as unknown as PromptVariant[];
+  return { ...experiment, variants };
+}
+
+/**
+ * Start an experiment on a prompt. The prompt must be one whose posts get
+ * tagged; it needs at least two variants with traffic, and a variant with a
+ * null value is the control. Only one experiment per prompt can run at a time.
+ */
+export async function startExperiment(input: {
+  category: string;
+  key: string;
+  name: string;
+  variants: NewVariant[];
+}): Promise<{ id: string } | { error: string }> {
+  const key = bareKey(input.category, input.key);
+  if (!isExperimentable(input.category, key)) return { error: "This prompt isn't tagged on generated posts, so a test on it can't be measured" };
+  const variants = input.variants.filter(v => v.value === null || v.value.trim());
+  if (variants.length < 2) return { error: "An experiment needs at least two variants" };
+  if (variants.some(v => !Number.isInteger(v.weight) || v.weight < 0)) return { error: "Weights must be whole numbers ≥ 0" };
+  if (variants.filter(v => v.weight > 0).length < 2) return { error: "At least two variants need traffic" };
+  if (variants.filter(v => v.value === null).length > 1) return { error: "Only one control variant allowed" };
+
+  const sql = getDb();
+  const running = await sql`
+    SELECT id FROM prompt_experiments
+    WHERE category = ${input.category} AND key = ${key} AND status = 'running'
+  `;
+  if (running.length > 0) return { error: "An experiment is already running for this prompt" };
+
+  const id = uuidv4();
+  await sql`
+    INSERT INTO prompt_experiments (id, category, key, name)
+    VALUES (${id}, ${input.category}, ${key}, ${input.name || `${input.category}.${key}`})
+  `;
+  const rows = variants.map(v => ({ id: uuidv4(), label: v.label || (v.value === null ? "Control" : "Variant"), value: v.value, weight: v.weight }));
+  await sql`
+    INSERT INTO prompt_variants (id, experiment_id, label, value, weight)
+    SELECT x.id, ${id}, x.label, x.value, x.weight
+    FROM jsonb_to_recordset(${JSON.stringify(rows)}::jsonb) AS x(id TEXT, label TEXT, value TEXT, weight INTEGER)
+  `;
+  return { id };
+}
+
+/** Stop serving variants; the prompt goes back to its override/default. */
+export async function stopExperiment(id: string): Promise<boolean> {
+  const sql = getDb();
+  const rows = await sql`
+    UPDATE prompt_experiments SET status = 'stopped', stopped_at = NOW()
+    WHERE id = ${id} AND status = 'running'
+    RETURNING id
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Make a variant the prompt's permanent value and close the experiment.
+ * Promoting the control keeps whatever override (or default) was in place.
+ */
+export async function promoteVariant(experimentId: string, variantId: string): Promise<{ ok: true } | { error: string }> {
+  const experiment = await getExperiment(experimentId);
+  if (!experiment) return { error: "Experiment not found" };
+  if (experiment.status === "promoted") return { error: "A winner was already promoted" };
+  const winner = experiment.variants.find(v => v.id === variantId);
+  if (!winner) return { error: "Variant is not part of this experiment" };
+
+  if (winner.value !== null) {
+    const existing = (await getPromptOverrides(experiment.category)).find(r => r.key === experiment.key);
+    await savePromptOverride(experiment.category, experiment.key, existing?.label || experiment.name, winner.value);
+  }
+
+  const sql = getDb();
+  await sql`
+    UPDATE prompt_experiments
+    SET status = 'promoted', winner_variant_id = ${variantId}, stopped_at = COALESCE(stopped_at, NOW())
+    WHERE id = ${experimentId}
+  `;
+  return { ok: true };
+}
+
+// ── Statistics ──────────────────────────────────────────────────────────
+
+export interface MetricSummary {
+  n: number;
+  mean: number;
+  sd: number;
+  /** 95% CI bounds; null with fewer than two posts */
+  low: number | null;
+  high: number | null;
+}
+
+export type Verdict = "better" | "worse" | "inconclusive";
+
+/** Mean with a normal-approximation 95% confidence interval. */
+export function meanInterval(mean: number, sd: number, n: number): MetricSummary {
+  if (n < 2) return { n, mean, sd, low: null, high: null };
+  const margin = Z_95 * sd / Math.sqrt(n);
+  return { n, mean, sd, low: mean - margin, high: mean + margin };
+}
+
+/** Wilson score interval for a rate (e.g. likes per view). */
+export function wilsonInterval(successes: number, trials: number): { rate: number; low: number; high: number } | null {
+  if (trials <= 0) return null;
+  const p = Math.min(1, successes / trials);
+  const z2 = Z_95 * Z_95;
+  const denom = 1 + z2 / trials;
+  const centre = (p + z2 / (2 * trials)) / denom;
+  const margin = (Z_95 * Math.sqrt(p * (1 - p) / trials + z2 / (4 * trials * trials))) / denom;
+  return { rate: p, low: Math.max(0, centre - margin), high: Math.min(1, centre + margin) };
+}
+
+/** Welch-style comparison: "better"/"worse" only when the 95% CI of the difference excludes zero. */
+export function compareToControl(variant: MetricSummary, control: MetricSummary): Verdict {
+  if (variant.n < 2 || control.n < 2) return "inconclusive";
+  const se = Math.sqrt(variant.sd ** 2 / variant.n + control.sd ** 2 / control.n);
+  const diff = variant.mean - control.mean;
+  if (se === 0) return diff > 0 ? "better" : diff < 0 ? "worse" : "inconclusive";
+  if (diff - Z_95 * se > 0) return "better";
+  if (diff + Z_95 * se < 0) return "worse";
+  return "inconclusive";
+}
+
+// ── Report ──────────────────────────────────────────────────────────────
+
+export const REPORT_METRICS = ["likes", "views", "shares", "feedback"] as const;
+export type ReportMetric = typeof REPORT_METRICS[number];
+
+export interface VariantReport {
+  variantId: string;
+  label: string;
+  isControl: boolean;
+  weight: number;
+  posts: number;
+  metrics: Record<ReportMetric, MetricSummary & { vsControl: Verdict | null }>;
+  likeRate: { rate: number; low: number; high: number } | null;
+}
+
+interface VariantStatsRow {
+  variant_id: string;
+  posts: number;
+  likes_mean: number; likes_sd: number;
+  views_mean: number; views_sd: number;
+  shares_mean: number; shares_sd: number;
+  feedback_mean: number; feedback_sd: number;
+  likes_total: number;
+  views_total: number;
+}
+
+/** Combine per-variant aggregates into the report (pure — exported for tests). */
+export function buildVariantReports(variants: PromptVariant[], stats: VariantStatsRow[]): VariantReport[] {
+  const summaries = variants.map(v => {
+    const row = stats.find(s => s.variant_id === v.id);
+    const n = row ? Number(row.posts) : 0;
+    const metric = (name: ReportMetric) =>
+      meanInterval(Number(row?.[`${name}_mean`] ?? 0), Number(row?.[`${name}_sd`] ?? 0), n);
+    return {
+      variant: v,
+      posts: n,
+      metrics: Object.fromEntries(REPORT_METRICS.map(m => [m, metric(m)])) as Record<ReportMetric, MetricSummary>,
+      likeRate: wilsonInterval(Number(row?.likes_total ?? 0), Number(row?.views_total ?? 0)),
+    };
+  });
+
+  const control = summaries.find(s => s.variant.value === null);
+  return summaries.map(s => ({
+    variantId: s.variant.id,
+    label: s.variant.label,
+    isControl: s.variant.value === null,
+    weight: s.variant.weight,
+    posts: s.posts,
+    metrics: Object.fromEntries(REPORT_METRICS.map(m => [m, {
+      ...s.metrics[m],
+      vsControl: control && control !== s ? compareToControl(s.metrics[m], control.metrics[m]) : null,
+    }])) as VariantReport["metrics"],
+    likeRate: s.likeRate,
+  }));
+}
+
+/** Per-variant performance of everything generated under the experiment. */
+export async function getExperimentReport(id: string): Promise<{ experiment: PromptExperiment; variants: VariantReport[] } | null> {
+  const experiment = await getExperiment(id);
+  if (!experiment) return null;
+
+  const sql = getDb();
+  const stats = await sql`
+    WITH tagged AS (
+      SELECT ppv.variant_id, p.id AS post_id,
+        COALESCE(p.like_count, 0) AS likes,
+        COALESCE(p.share_count, 0) AS shares,
+        COALESCE(cf.score, 0) AS feedback
+      FROM post_prompt_variants ppv
+      JOIN posts p ON p.id = ppv.post_id
+      LEFT JOIN content_feedback cf ON cf.post_id = p.id
+      WHERE ppv.experiment_id = ${id}
+    ),
+    views AS (
+      SELECT h.post_id, COUNT(*)::int AS views
+      FROM human_view_history h
+      WHERE h.post_id IN (SELECT post_id FROM tagged)
+      GROUP BY h.post_id
+    )
+    SELECT t.variant_id,
+      COUNT(*)::int AS posts,
+      AVG(t.likes)::float AS likes_mean, COALESCE(STDDEV_SAMP(t.likes), 0)::float AS likes_sd,
+      AVG(COALESCE(v.views, 0))::float AS views_mean, COALESCE(STDDEV_SAMP(COALESCE(v.views, 0)), 0)::float AS views_sd,
+      AVG(t.shares)::float AS shares_mean, COALESCE(STDDEV_SAMP(t.shares), 0)::float AS shares_sd,
+      AVG(t.feedback)::float AS feedback_mean, COALESCE(STDDEV_SAMP(t.feedback), 0)::float AS feedback_sd,
+      SUM(t.likes)::int AS likes_total,
+      SUM(COALESCE(v.views, 0))::int AS views_total
+    FROM tagged t
+    LEFT JOIN views v ON v.post_id = t.post_id
+    GROUP BY t.variant_id
+  ` as unknown as VariantStatsRow[];
+
+  return { experiment, variants: buildVariantReports(experiment.variants, stats) };
+}
@@ -2,13 +2,55 @@
  * Prompt Override System
  * ======================
  * Allows admin to edit AI prompts from the browser without code changes.
- * DB overrides take priority; falls back to hardcoded defaults.
+ * Running A/B experiments take priority, then DB overrides; falls back to
+ * hardcoded defaults.
  */
 
 import { getDb } from "./db";
 
-/** Get a prompt value — checks DB override first, falls back to default */
-export async function getPrompt(category: string, key: string, defaultValue: string): Promise<string> {
+/** A variant of a prompt under a running A/B experiment (value NULL = control). */
+export interface ServableVariant {
+  id: string;
+  value: string | null;
+  weight: number;
+}
+
+/** Weighted random pick; null when nothing has traffic. */
+export function pickWeighted<T extends { weight: number }>(items: T[], rand: number = Math.random()): T | null {
+  const total = items.reduce((sum, item) => sum + Math.max(0, item.weight), 0);
+  if (total <= 0) return null;
+  let threshold = rand * total;
+  for (const item of items) {
+    threshold -= Math.max(0, item.weight);
+    if (threshold < 0) return item;
+  }
+  return items.filter(item => item.weight > 0).pop() ?? null;
+}
+
+/**
+ * Get a prompt value — a running A/B experiment (see prompt-experiments.ts)
+ * picks a variant first, then the DB override, then the hardcoded default.
+ * Pass `variantIds` to collect the served variant's id so the generated post
+ * can be tagged with it; the control variant falls through to the override.
+ */
+export async function getPrompt(category: string, key: string, defaultValue: string, variantIds?: string[]): Promise<string> {
+  try {
+    const sql = getDb();
+    const variants = await sql`
+      SELECT v.id, v.value, v.weight
+      FROM prompt_variants v
+      JOIN prompt_experiments e ON e.id = v.experiment_id
+      WHERE e.category = ${category} AND e.key = ${key} AND e.status = 'running'
+    ` as unknown as ServableVariant[];
+    const variant = pickWeighted(variants);
+    if (variant) {
+      variantIds?.push(variant.id);
+      if (variant.value) return variant.value;
+    }
+  } catch {
+    // Experiment tables might not exist yet — no experiment
+  }
+
   try {
     const sql = getDb();
     const rows = await sql`
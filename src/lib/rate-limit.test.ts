@@ -0,0 +1,207 @@
+/**
+ * Rate Limiter — Unit Tests
+ * ==========================
+ * Covers both algorithms against the in-memory store and the Redis store
+ * (backed by a small in-memory stand-in for the Upstash client's EVAL).
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  createRateLimiter,
+  rateLimitHeaders,
+  MemoryRateLimitStore,
+  RedisRateLimitStore,
+  type RateLimitRedisClient,
+  type RateLimitStore,
+} from "./rate-limit";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ── In-memory Redis stand-in ────────────────────────────────────────
+
+/**
+ * Runs the store's two Lua scripts (told apart by the structure they touch)
+ * as the equivalent commands against Maps — there's no Lua VM in tests.
+ */
+class FakeRedis implements RateLimitRedisClient {
+  zsets = new Map<string, Map<string, number>>();
+  hashes = new Map<string, Record<string, string>>();
+
+  async eval<TArgs extends unknown[], TData = unknown>(script: string, [key]: string[], args: TArgs): Promise<TData> {
+    const [now, a, b, member] = args as unknown as [number, number, number, string];
+    return (script.includes("ZADD") ? this.slidingWindow(key, now, a, b, member) : this.tokenBucket(key, now, a, b)) as TData;
+  }
+
+  private slidingWindow(key: string, now: number, window: number, max: number, member: string) {
+    const set = this.zsets.get(key) ?? new Map<string, number>();
+    this.zsets.set(key, set);
+    for (const [m, score] of set) if (score <= now - window) set.delete(m);
+    if (set.size >= max) {
+      const oldestAt = Math.min(...set.values());
+      return [0, 0, Math.max(0, oldestAt + window - now)];
+    }
+    set.set(member, now);
+    return [1, max - set.size, window];
+  }
+
+  private tokenBucket(key: string, now: number, capacity: number, window: number) {
+    const state = this.hashes.get(key);
+    let tokens = capacity;
+    if (state) {
+      const elapsed = Math.max(0, now - Number(state.updatedAt));
+      tokens = Math.min(capacity, Number(state.tokens) + elapsed * capacity / window);
+    }
+    let allowed = 0;
+    if (tokens >= 1) { tokens -= 1; allowed = 1; }
+    this.hashes.set(key, { tokens: String(tokens), updatedAt: String(now) });
+    return [allowed, String(tokens)];
+  }
+
+  async del(...keys: string[]) {
+    let n = 0;
+    for (const k of keys) {
+      if (this.zsets.delete(k)) n++;
+      if (this.hashes.delete(k)) n++;
+    }
+    return n;
+  }
+  async scan(_cursor: string | number, { match }: { match: string; count: number }): Promise<[string, string[]]> {
+    const prefix = match.replace(/\*$/, "");
+    const keys = [...this.zsets.keys(), ...this.hashes.keys()].filter((k) => k.startsWith(prefix));
+    return ["0", keys];
+  }
+}
+
+const stores: [string, () => RateLimitStore][] = [
+  ["memory", () => new MemoryRateLimitStore()],
+  ["redis", () => new RedisRateLimitStore(new FakeRedis())],
+];
+
+// ── Sliding window ──────────────────────────────────────────────────
+
+describe.each(stores)("sliding window (%s store)", (_name, makeStore) => {
+  it("allows up to maxAttempts then blocks", async () => {
+    const limiter = createRateLimiter({ maxAttempts: 3, windowMs: 60_000, store: makeStore() });
+    for (let i = 0; i < 3; i++) {
+      const r = await limiter.check("ip");
+      expect(r.allowed).toBe(true);
+      expect(r.remaining).toBe(2 - i);
+      expect(r.limit).toBe(3);
+    }
+    const blocked = await limiter.check("ip");
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.remaining).toBe(0);
+    expect(blocked.resetMs).toBeGreaterThan(0);
+    expect(blocked.resetMs).toBeLessThanOrEqual(60_000);
+  });
+
+  it("frees capacity once the oldest hit leaves the window", async () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter({ maxAttempts: 2, windowMs: 1_000, store: makeStore() });
+    await limiter.check("ip");
+    vi.advanceTimersByTime(500);
+    await limiter.check("ip");
+    expect((await limiter.check("ip")).allowed).toBe(false);
+
+    vi.advanceTimersByTime(501);
+    expect((await limiter.check("ip")).allowed).toBe(true);
+  });
+
+  it("denied attempts do not consume capacity", async () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter({ maxAttempts: 1, windowMs: 1_000, store: makeStore() });
+    await limiter.check("ip");
+    for (let i = 0; i < 5; i++) await limiter.check("ip");
+    vi.advanceTimersByTime(1_001);
+    expect((await limiter.check("ip")).allowed).toBe(true);
+  });
+
+  it("reset() clears a single key", async () => {
+    const limiter = createRateLimiter({ maxAttempts: 1, windowMs: 60_000, store: makeStore() });
+    await limiter.check("a");
+    await limiter.check("b");
+    await limiter.reset("a");
+    expect((await limiter.check("a")).allowed).toBe(true);
+    expect((await limiter.check("b")).allowed).toBe(false);
+  });
+
+  it("namespaces keys so limiters sharing a store stay independent", async () => {
+    const store = makeStore();
+    const login = createRateLimiter({ name: "login", maxAttempts: 1, windowMs: 60_000, store });
+    const api = createRateLimiter({ name: "api", maxAttempts: 1, windowMs: 60_000, store });
+    await login.check("ip");
+    expect((await login.check("ip")).allowed).toBe(false);
+    expect((await api.check("ip")).allowed).toBe(true);
+  });
+});
+
+// ── Token bucket ────────────────────────────────────────────────────
+
+describe.each(stores)("token bucket (%s store)", (_name, makeStore) => {
+  it("allows a burst up to capacity", async () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter({ maxAttempts: 4, windowMs: 4_000, algorithm: "token-bucket", store: makeStore() });
+    for (let i = 0; i < 4; i++) {
+      const r = await limiter.check("ip");
+      expect(r.allowed).toBe(true);
+      expect(r.remaining).toBe(3 - i);
+    }
+    const blocked = await limiter.check("ip");
+    expect(blocked.allowed).toBe(false);
+    // One token refills every 1s
+    expect(blocked.resetMs).toBe(1_000);
+  });
+
+  it("refills gradually over the window", async () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter({ maxAttempts: 4, windowMs: 4_000, algorithm: "token-bucket", store: makeStore() });
+    for (let i = 0; i < 4; i++) await limiter.check("ip");
+
+    vi.advanceTimersByTime(1_000);
+    expect((await limiter.check("ip")).allowed).toBe(true);
+    expect((await limiter.check("ip")).allowed).toBe(false);
+
+    vi.advanceTimersByTime(10_000);
+    // Capped at capacity, not 10 tokens
+    for (let i = 0; i < 4; i++) expect((await limiter.check("ip")).allowed).toBe(true);
+    expect((await limiter.check("ip")).allowed).toBe(false);
+  });
+});
+
+// ── Fallback ────────────────────────────────────────────────────────
+
+describe("store failure", () => {
+  it("falls back to in-memory limiting when the store throws", async () => {
+    const client = new FakeRedis();
+    client.eval = async () => { throw new Error("ECONNRESET"); };
+    const broken = new RedisRateLimitStore(client);
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const limiter = createRateLimiter({ maxAttempts: 1, windowMs: 60_000, store: broken });
+
+    expect((await limiter.check("ip")).allowed).toBe(true);
+    expect((await limiter.check("ip")).allowed).toBe(false);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+// ── Headers ─────────────────────────────────────────────────────────
+
+describe("rateLimitHeaders", () => {
+  it("emits RateLimit-* headers without Retry-After when allowed", () => {
+    const headers = rateLimitHeaders({ allowed: true, limit: 10, remaining: 7, resetMs: 30_000 });
+    expect(headers).toEqual({
+      "RateLimit-Limit": "10",
+      "RateLimit-Remaining": "7",
+      "RateLimit-Reset": "30",
+    });
+  });
+
+  it("adds Retry-After (rounded up, at least 1s) when denied", () => {
+    const headers = rateLimitHeaders({ allowed: false, limit: 10, remaining: 0, resetMs: 1_200 });
+    expect(headers["Retry-After"]).toBe("2");
+    expect(rateLimitHeaders({ allowed: false, limit: 1, remaining: 0, resetMs: 0 })["Retry-After"]).toBe("1");
+  });
+});
@@ -1,100 +1,368 @@
 /**
- * In-memory sliding-window rate limiter.
- * Falls back gracefully — no external dependencies required.
+ * Rate Limiter — pluggable storage, two algorithms
+ * =================================================
+ * Sliding window (exact count of hits within the last `windowMs`) or token
+ * bucket (bursts up to `maxAttempts`, refilled evenly over `windowMs`).
+ *
+ * Storage is pluggable so limits hold across serverless instances:
+ *   - MemoryRateLimitStore — per-instance Map (tests, local dev)
+ *   - RedisRateLimitStore  — shared Upstash Redis (production)
+ *
+ * The default store is Redis when UPSTASH_REDIS_REST_URL is configured,
+ * otherwise in-memory. If Redis errors mid-request the limiter falls back to
+ * its in-memory store for that call (fail open, never break the route).
  *
  * Usage:
- *   const limiter = createRateLimiter({ maxAttempts: 5, windowMs: 15 * 60 * 1000 });
- *   const result = limiter.check(ip);
- *   if (!result.allowed) { return 429; }
+ *   const limiter = createRateLimiter({ name: "login", maxAttempts: 5, windowMs: 15 * 60 * 1000 });
+ *   const result = await limiter.check(ip);
+ *   if (!result.allowed) return rateLimited(Math.ceil(result.resetMs / 1000), undefined, result);
  */
 
-interface RateLimitEntry {
-  timestamps: number[];
-}
+import { getRedis } from "@/lib/redis";
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export type RateLimitAlgorithm = "sliding-window" | "token-bucket";
 
 interface RateLimiterConfig {
-  /** Maximum number of attempts allowed within the window. */
+  /** Namespace for store keys — keeps limiters apart in shared storage. */
+  name?: string;
+  /** Maximum number of attempts allowed within the window (bucket capacity for token-bucket). */
   maxAttempts: number;
-  /** Sliding window duration in milliseconds. */
+  /** Window duration in milliseconds (full-refill time for token-bucket). */
   windowMs: number;
+  /** Defaults to "sliding-window". */
+  algorithm?: RateLimitAlgorithm;
+  /** Defaults to Redis when configured, otherwise in-memory. */
+  store?: RateLimitStore;
 }
 
-interface RateLimitResult {
+export interface RateLimitResult {
   allowed: boolean;
+  /** Configured maximum (RateLimit-Limit). */
+  limit: number;
   remaining: number;
+  /** Milliseconds until the caller may retry (denied) or the window resets (allowed). */
   resetMs: number;
 }
 
-export function createRateLimiter(config: RateLimiterConfig) {
-  const store = new Map<string, RateLimitEntry>();
+/** Parameters handed to a store for a single check. */
+export interface RateLimitCheck {
+  key: string;
+  now: number;
+  maxAttempts: number;
+  windowMs: number;
+}
 
-  // Periodic cleanup every 5 minutes to prevent memory leaks
-  const CLEANUP_INTERVAL = 5 * 60 * 1000;
-  let lastCleanup = Date.now();
-
-  function cleanup() {
-    const now = Date.now();
-    if (now - lastCleanup < CLEANUP_INTERVAL) return;
-    lastCleanup = now;
-    const cutoff = now - config.windowMs;
-    for (const [key, entry] of store) {
-      entry.timestamps = entry.timestamps.filter((t) => t > cutoff);
-      if (entry.timestamps.length === 0) {
-        store.delete(key);
-      }
-    }
-  }
+/**
+ * Backend for rate limit state. Stores own the algorithm so that shared
+ * backends can apply it close to the data.
+ */
+export interface RateLimitStore {
+  slidingWindow(check: RateLimitCheck): Promise<RateLimitResult>;
+  tokenBucket(check: RateLimitCheck): Promise<RateLimitResult>;
+  reset(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
 
-  function check(key: string): RateLimitResult {
-    cleanup();
-    const now = Date.now();
-    const cutoff = now - config.windowMs;
+// ── In-Memory Store ──────────────────────────────────────────────────
 
-    let entry = store.get(key);
-    if (!entry) {
-      entry = { timestamps: [] };
-      store.set(key, entry);
-    }
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, number[]>();
+  private buckets = new Map<string, TokenBucketState>();
+
+  // Periodic cleanup every 5 minutes to prevent memory leaks
+  private static readonly CLEANUP_INTERVAL = 5 * 60 * 1000;
+  private lastCleanup = Date.now();
+
+  async slidingWindow({ key, now, maxAttempts, windowMs }: RateLimitCheck): Promise<RateLimitResult> {
+    this.cleanup(now, windowMs);
+    const cutoff = now - windowMs;
 
     // Remove expired timestamps
-    entry.timestamps = entry.timestamps.filter((t) => t > cutoff);
+    const timestamps = (this.windows.get(key) ?? []).filter((t) => t > cutoff);
+    this.windows.set(key, timestamps);
 
-    if (entry.timestamps.length >= config.maxAttempts) {
-      const oldestInWindow = entry.timestamps[0];
+    if (timestamps.length >= maxAttempts) {
       return {
         allowed: false,
+        limit: maxAttempts,
         remaining: 0,
-        resetMs: oldestInWindow + config.windowMs - now,
+        resetMs: timestamps[0] + windowMs - now,
       };
     }
 
     // Record this attempt
-    entry.timestamps.push(now);
+    timestamps.push(now);
 
     return {
       allowed: true,
-      remaining: config.maxAttempts - entry.timestamps.length,
-      resetMs: config.windowMs,
+      limit: maxAttempts,
+      remaining: maxAttempts - timestamps.length,
+      resetMs: windowMs,
     };
   }
 
-  /** Reset a specific key (useful in tests). */
-  function reset(key: string) {
-    store.delete(key);
+  async tokenBucket({ key, now, maxAttempts, windowMs }: RateLimitCheck): Promise<RateLimitResult> {
+    this.cleanup(now, windowMs);
+    const state = refillBucket(this.buckets.get(key), now, maxAttempts, windowMs);
+    const result = takeToken(state, maxAttempts, windowMs);
+    this.buckets.set(key, state);
+    return result;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.windows.delete(key);
+    this.buckets.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.windows.clear();
+    this.buckets.clear();
+  }
+
+  private cleanup(now: number, windowMs: number) {
+    if (now - this.lastCleanup < MemoryRateLimitStore.CLEANUP_INTERVAL) return;
+    this.lastCleanup = now;
+    const cutoff = now - windowMs;
+    for (const [key, timestamps] of this.windows) {
+      const live = timestamps.filter((t) => t > cutoff);
+      if (live.length === 0) this.windows.delete(key);
+      else this.windows.set(key, live);
+    }
+    // A bucket untouched for a full window has refilled — same as no entry
+    for (const [key, state] of this.buckets) {
+      if (state.updatedAt <= cutoff) this.buckets.delete(key);
+    }
+  }
+}
+
+// ── Redis Store ──────────────────────────────────────────────────────
+
+/**
+ * The subset of the Upstash client the Redis store needs. Kept narrow so
+ * tests can pass an in-memory stand-in instead of a live Redis.
+ */
+export interface RateLimitRedisClient {
+  eval<TArgs extends unknown[], TData = unknown>(script: string, keys: string[], args: TArgs): Promise<TData>;
+  del(...keys: string[]): Promise<number>;
+  scan(cursor: string | number, opts: { match: string; count: number }): Promise<[string | number, string[]]>;
+}
+
+const REDIS_PREFIX = "aiglitch:rl:";
+
+/**
+ * Sorted set of hit timestamps. Trim, count and (if there's room) record
+ * the hit in one script, so concurrent instances can't both take the last
+ * slot. Returns { allowed, remaining, resetMs }.
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local max = tonumber(ARGV[3])
+redis.call("ZREMRANGEBYSCORE", KEYS[1], 0, now - window)
+local count = redis.call("ZCARD", KEYS[1])
+if count >= max then
+  local oldest = redis.call("ZRANGE", KEYS[1], 0, 0, "WITHSCORES")
+  local oldestAt = now
+  if #oldest >= 2 then oldestAt = tonumber(oldest[2]) end
+  return { 0, 0, math.max(0, oldestAt + window - now) }
+end
+redis.call("ZADD", KEYS[1], now, ARGV[4])
+redis.call("PEXPIRE", KEYS[1], window)
+return { 1, max - count - 1, window }
+`;
+
+/**
+ * Hash of { tokens, updatedAt }. Refill and spend happen inside the script,
+ * so racing instances can't both spend the last token. Token counts are
+ * fractional, and Redis truncates Lua numbers in replies, so the balance
+ * comes back as a string. Returns { allowed, tokens }.
+ */
+const TOKEN_BUCKET_SCRIPT = `
+local now = tonumber(ARGV[1])
+local capacity = tonumber(ARGV[2])
+local window = tonumber(ARGV[3])
+local state = redis.call("HMGET", KEYS[1], "tokens", "updatedAt")
+local tokens = capacity
+if state[1] then
+  local elapsed = math.max(0, now - tonumber(state[2]))
+  tokens = math.min(capacity, tonumber(state[1]) + elapsed * capacity / window)
+end
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call("HSET", KEYS[1], "tokens", tostring(tokens), "updatedAt", now)
+redis.call("PEXPIRE", KEYS[1], window)
+return { allowed, tostring(tokens) }
+`;
+
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(private readonly redis: RateLimitRedisClient) {}
+
+  async slidingWindow({ key, now, maxAttempts, windowMs }: RateLimitCheck): Promise<RateLimitResult> {
+    const member = `${now}:${Math.random().toString(36).slice(2, 10)}`;
+    const [allowed, remaining, resetMs] = await this.redis.eval<(number | string)[], (number | string)[]>(
+      SLIDING_WINDOW_SCRIPT,
+      [`${REDIS_PREFIX}sw:${key}`],
+      [now, windowMs, maxAttempts, member],
+    );
+    return {
+      allowed: Number(allowed) === 1,
+      limit: maxAttempts,
+      remaining: Number(remaining),
+      resetMs: Number(resetMs),
+    };
+  }
+
+  async tokenBucket({ key, now, maxAttempts, windowMs }: RateLimitCheck): Promise<RateLimitResult> {
+    const [allowed, tokens] = await this.redis.eval<number[], (number | string)[]>(
+      TOKEN_BUCKET_SCRIPT,
+      [`${REDIS_PREFIX}tb:${key}`],
+      [now, maxAttempts, windowMs],
+    );
+    return bucketResult(Number(allowed) === 1, Number(tokens), maxAttempts, windowMs);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.redis.del(`${REDIS_PREFIX}sw:${key}`, `${REDIS_PREFIX}tb:${key}`);
+  }
+
+  async clear(): Promise<void> {
+    let cursor: string | number = "0";
+    do {
+      const [next, keys]: [string | number, string[]] = await this.redis.scan(cursor, { match: `${REDIS_PREFIX}*`, count: 100 });
+      cursor = next;
+      if (keys.length > 0) await this.redis.del(...keys);
+    } while (String(cursor) !== "0");
+  }
+}
+
+// ── Token bucket math (memory store; mirrored by TOKEN_BUCKET_SCRIPT) ──
+
+function refillBucket(
+  previous: TokenBucketState | undefined,
+  now: number,
+  capacity: number,
+  windowMs: number,
+): TokenBucketState {
+  if (!previous) return { tokens: capacity, updatedAt: now };
+  const refillPerMs = capacity / windowMs;
+  const elapsed = Math.max(0, now - previous.updatedAt);
+  return {
+    tokens: Math.min(capacity, previous.tokens + elapsed * refillPerMs),
+    updatedAt: now,
+  };
+}
+
+/** Spend one token from `state` (mutates it) and describe the outcome. */
+function takeToken(state: TokenBucketState, capacity: number, windowMs: number): RateLimitResult {
+  if (state.tokens < 1) return bucketResult(false, state.tokens, capacity, windowMs);
+  state.tokens -= 1;
+  return bucketResult(true, state.tokens, capacity, windowMs);
+}
+
+/** Describe a bucket check given the balance left after it. */
+function bucketResult(allowed: boolean, tokens: number, capacity: number, windowMs: number): RateLimitResult {
+  const msPerToken = windowMs / capacity;
+
+  if (!allowed) {
+    return {
+      allowed: false,
+      limit: capacity,
+      remaining: 0,
+      resetMs: Math.ceil((1 - tokens) * msPerToken),
+    };
+  }
+
+  return {
+    allowed: true,
+    limit: capacity,
+    remaining: Math.floor(tokens),
+    resetMs: Math.ceil((capacity - tokens) * msPerToken),
+  };
+}
+
+// ── Limiter ──────────────────────────────────────────────────────────
+
+function defaultStore(): RateLimitStore {
+  const redis = getRedis();
+  return redis ? new RedisRateLimitStore(redis as unknown as RateLimitRedisClient) : new MemoryRateLimitStore();
+}
+
+export function createRateLimiter(config: RateLimiterConfig) {
+  const algorithm = config.algorithm ?? "sliding-window";
+  const namespace = config.name ? `${config.name}:` : "";
+  // Resolved lazily so env vars set after import (tests, scripts) are honoured
+  let store: RateLimitStore | null = config.store ?? null;
+  const fallback = new MemoryRateLimitStore();
+
+  function getStore(): RateLimitStore {
+    if (!store) store = defaultStore();
+    return store;
+  }
+
+  async function run(target: RateLimitStore, key: string): Promise<RateLimitResult> {
+    const params: RateLimitCheck = {
+      key: `${namespace}${key}`,
+      now: Date.now(),
+      maxAttempts: config.maxAttempts,
+      windowMs: config.windowMs,
+    };
+    return algorithm === "token-bucket" ? target.tokenBucket(params) : target.slidingWindow(params);
+  }
+
+  async function check(key: string): Promise<RateLimitResult> {
+    const primary = getStore();
+    try {
+      return await run(primary, key);
+    } catch (err) {
+      if (primary === fallback) throw err;
+      console.warn(`[rate-limit] Store failed for ${namespace || "limiter:"}, using in-memory fallback:`, err instanceof Error ? err.message : err);
+      return run(fallback, key);
+    }
+  }
+
+  /** Reset a specific key (e.g. after a successful login). */
+  async function reset(key: string): Promise<void> {
+    await Promise.allSettled([getStore().reset(`${namespace}${key}`), fallback.reset(`${namespace}${key}`)]);
   }
 
   /** Clear all entries (useful in tests). */
-  function clear() {
-    store.clear();
+  async function clear(): Promise<void> {
+    await Promise.allSettled([getStore().clear(), fallback.clear()]);
   }
 
   return { check, reset, clear };
 }
 
+/**
+ * Standard rate limit response headers (IETF draft RateLimit fields).
+ * `Retry-After` is only included when the request was denied.
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const resetSeconds = Math.max(0, Math.ceil(result.resetMs / 1000));
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(resetSeconds),
+  };
+  if (!result.allowed) headers["Retry-After"] = String(Math.max(1, resetSeconds));
+  return headers;
+}
+
 /**
  * Admin login rate limiter: 5 attempts per IP per 15 minutes.
  */
 export const adminLoginLimiter = createRateLimiter({
+  name: "admin-login",
   maxAttempts: 5,
   windowMs: 15 * 60 * 1000,
 });
@@ -104,15 +372,19 @@ export const adminLoginLimiter = createRateLimiter({
  * Protects against runaway cron triggers and brute-force auth attempts.
  */
 export const cronEndpointLimiter = createRateLimiter({
+  name: "cron",
   maxAttempts: 30,
   windowMs: 5 * 60 * 1000,
 });
 
 /**
  * Public API rate limiter: 120 requests per IP per minute.
+ * Token bucket so short bursts (feed prefetch, infinite scroll) aren't punished.
  * Protects feed, personas, and other public endpoints from abuse.
  */
 export const publicApiLimiter = createRateLimiter({
+  name: "public-api",
   maxAttempts: 120,
   windowMs: 60 * 1000,
+  algorithm: "token-bucket",
 });
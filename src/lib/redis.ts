@@ -0,0 +1,36 @@
+/**
+ * Shared Upstash Redis Client
+ * ============================
+ * One lazy singleton for every module that talks to Redis (cache L2,
+ * circuit breaker counters, distributed rate limiting).
+ *
+ * Returns null when UPSTASH_REDIS_REST_URL / UPSTASH_REDIS_REST_TOKEN are
+ * not configured — callers are expected to degrade gracefully.
+ *
+ * Usage:
+ *   import { getRedis } from "@/lib/redis";
+ *
+ *   const redis = getRedis();
+ *   if (redis) await redis.incr("aiglitch:counter");
+ */
+
+import { Redis } from "@upstash/redis";
+
+let _redis: Redis | null = null;
+let _redisChecked = false;
+
+export function getRedis(): Redis | null {
+  if (_redisChecked) return _redis;
+  _redisChecked = true;
+
+  const url = process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+  if (url && token) {
+    try {
+      _redis = new Redis({ url, token });
+    } catch (err) {
+      console.warn("[Redis] Failed to init client:", err);
+    }
+  }
+  return _redis;
+}
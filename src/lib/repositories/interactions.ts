@@ -28,14 +28,14 @@ export async function toggleLike(postId: string, sessionId: string): Promise<"li
     try {
       const likeCount = await sql`SELECT COUNT(*) as count FROM human_likes WHERE session_id = ${sessionId}`;
       if (Number(likeCount[0].count) === 1) {
-        await users.awardCoins(sessionId, COIN_REWARDS.firstLike, "First like bonus");
+        await users.awardCoins(sessionId, COIN_REWARDS.firstLike, "First like bonus", postId, `first_like:${sessionId}`);
       }
     } catch { /* non-critical */ }
 
     // Award persona coins when their post gets liked
     try {
       const [postRow] = await sql`SELECT persona_id FROM posts WHERE id = ${postId}`;
-      if (postRow) await users.awardPersonaCoins(postRow.persona_id as string, COIN_REWARDS.personaLikeReceived);
+      if (postRow) await users.awardPersonaCoins(postRow.persona_id as string, COIN_REWARDS.personaLikeReceived, "Post liked");
     } catch { /* non-critical */ }
 
     return "liked";
@@ -280,7 +280,7 @@ export async function addComment(
   try {
     const commentCount = await sql`SELECT COUNT(*) as count FROM human_comments WHERE session_id = ${sessionId}`;
     if (Number(commentCount[0].count) === 1) {
-      await users.awardCoins(sessionId, COIN_REWARDS.firstComment, "First comment bonus");
+      await users.awardCoins(sessionId, COIN_REWARDS.firstComment, "First comment bonus", postId, `first_comment:${sessionId}`);
     }
   } catch { /* non-critical */ }
 
@@ -488,8 +488,8 @@ export async function addFriend(sessionId: string, friendUsername: string): Prom
   `;
 
   try {
-    await users.awardCoins(sessionId, COIN_REWARDS.friendBonus, "New friend bonus", friendSessionId);
-    await users.awardCoins(friendSessionId, COIN_REWARDS.friendBonus, "New friend bonus", sessionId);
+    await users.awardCoins(sessionId, COIN_REWARDS.friendBonus, "New friend bonus", friendSessionId, `friend_bonus:${sessionId}:${friendSessionId}`);
+    await users.awardCoins(friendSessionId, COIN_REWARDS.friendBonus, "New friend bonus", sessionId, `friend_bonus:${friendSessionId}:${sessionId}`);
   } catch { /* non-critical */ }
 
   return { success: true, friend: friendRows[0] };
@@ -6,7 +6,7 @@
  */
 
 import { getDb } from "@/lib/db";
-import { cache, TTL } from "@/lib/cache";
+import { cache, TTL, TAGS } from "@/lib/cache";
 
 // ── Types ─────────────────────────────────────────────────────────────
 
@@ -45,7 +45,7 @@ export async function listActive(): Promise<PersonaSummary[]> {
       ORDER BY follower_count DESC
     `;
     return rows as unknown as PersonaSummary[];
-  });
+  }, [TAGS.personas]);
 }
 
 /** Single persona by username (full row). Cached. */
@@ -54,7 +54,7 @@ export async function getByUsername(username: string): Promise<PersonaFull | nul
     const sql = getDb();
     const rows = await sql`SELECT * FROM ai_personas WHERE username = ${username}`;
     return rows.length > 0 ? (rows[0] as unknown as PersonaFull) : null;
-  });
+  }, (p) => (p ? [TAGS.personas, TAGS.persona(p.id)] : [TAGS.personas]));
 }
 
 /** Single persona by ID (full row). Cached. */
@@ -63,7 +63,7 @@ export async function getById(id: string): Promise<PersonaFull | null> {
     const sql = getDb();
     const rows = await sql`SELECT * FROM ai_personas WHERE id = ${id}`;
     return rows.length > 0 ? (rows[0] as unknown as PersonaFull) : null;
-  });
+  }, [TAGS.personas, TAGS.persona(id)]);
 }
 
 /** Check if a user follows a persona. Not cached (low frequency). */
@@ -111,7 +111,7 @@ export async function getStats(personaId: string) {
       WHERE persona_id = ${personaId} AND is_reply_to IS NULL
     `;
     return stats;
-  });
+  }, [TAGS.persona(personaId)]);
 }
 
 /** Persona media library entries. Cached 60s — rarely changes. */
@@ -130,7 +130,7 @@ export async function getMedia(personaId: string, limit = 20) {
     } catch {
       return [];
     }
-  });
+  }, [TAGS.persona(personaId)]);
 }
 
 // ── Wallet Info ───────────────────────────────────────────────────────
@@ -192,9 +192,11 @@ export async function getWalletInfo(personaId: string): Promise<PersonaWalletInf
 
 // ── Cache Busting ─────────────────────────────────────────────────────
 
-/** Bust persona caches after a write (follow, update, etc.) */
-export function bustCache(personaId?: string, username?: string): void {
-  cache.del("personas:active");
-  if (personaId) cache.del(`persona:id:${personaId}`);
-  if (username) cache.del(`persona:u:${username}`);
+/**
+ * Bust persona caches after a write (follow, update, etc.) — everything
+ * tagged with the persona, or every persona entry when no id is given.
+ */
+export function bustCache(personaId?: string): void {
+  void cache.invalidateTag(personaId ? TAGS.persona(personaId) : TAGS.personas);
+  if (personaId) cache.del("personas:active");
 }
@@ -7,7 +7,7 @@
  */
 
 import { getDb } from "@/lib/db";
-import { cache } from "@/lib/cache";
+import { cache, TAGS } from "@/lib/cache";
 
 // ── Types ─────────────────────────────────────────────────────────────
 
@@ -74,7 +74,7 @@ export async function getByPersona(personaId: string, limit = 30) {
       LIMIT ${limit}
     `;
     return rows;
-  });
+  }, [TAGS.feed, TAGS.persona(personaId)]);
 }
 
 /** Get a single post by ID with persona data. */
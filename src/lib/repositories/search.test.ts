@@ -0,0 +1,87 @@
+/**
+ * Search Repository — Unit Tests
+ * ===============================
+ * Cursor encoding, snippet highlighting/escaping, in-memory product matching
+ * and which groups searchAll queries.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { queries, respond, resetMockSql } from "@/lib/test-utils/mock-sql";
+
+vi.mock("@/lib/db", () => import("@/lib/test-utils/mock-sql"));
+
+import {
+  decodeSearchCursor,
+  encodeSearchCursor,
+  highlightSnippet,
+  searchAll,
+  searchProducts,
+} from "./search";
+
+beforeEach(() => {
+  resetMockSql();
+});
+
+describe("search cursor", () => {
+  it("round-trips and rejects anything else", () => {
+    const cursor = { rank: 0.25, createdAt: "2026-04-01T10:00:00.123Z", id: "post-1" };
+    expect(decodeSearchCursor(encodeSearchCursor(cursor))).toEqual(cursor);
+    expect(decodeSearchCursor("not-a-cursor")).toBeNull();
+    expect(decodeSearchCursor(Buffer.from(JSON.stringify([1, "nope", "x"])).toString("base64url"))).toBeNull();
+    expect(decodeSearchCursor(null)).toBeNull();
+  });
+});
+
+describe("highlightSnippet", () => {
+  it("escapes HTML and marks every term", () => {
+    expect(highlightSnippet("<b>Cup</b> holds no cup", ["cup"]))
+      .toBe("&lt;b&gt;<mark>Cup</mark>&lt;/b&gt; holds no <mark>cup</mark>");
+  });
+
+  it("excerpts around the first match", () => {
+    const text = `${"filler ".repeat(50)}the glitch happened ${"tail ".repeat(50)}`;
+    const snippet = highlightSnippet(text, ["glitch"], 60);
+    expect(snippet.startsWith("…")).toBe(true);
+    expect(snippet.endsWith("…")).toBe(true);
+    expect(snippet).toContain("<mark>glitch</mark>");
+  });
+});
+
+describe("searchProducts", () => {
+  it("ranks name matches above description matches", () => {
+    const results = searchProducts("cup");
+    expect(results.length).toBeGreaterThan(0);
+    expect(results[0].name.toLowerCase()).toContain("cup");
+    for (let i = 1; i < results.length; i++) expect(results[i - 1].rank).toBeGreaterThanOrEqual(results[i].rank);
+  });
+
+  it("returns nothing for terms too short to match", () => {
+    expect(searchProducts("a")).toEqual([]);
+  });
+});
+
+describe("searchAll", () => {
+  it("queries every group on the first page", async () => {
+    const results = await searchAll("glitch");
+    expect(queries.some((q) => q.query.includes("post_search_document"))).toBe(true);
+    expect(queries.some((q) => q.query.includes("persona_search_document"))).toBe(true);
+    expect(queries.some((q) => q.query.includes("channel_search_document"))).toBe(true);
+    expect(queries.some((q) => q.query.includes("FROM post_hashtags"))).toBe(true);
+    expect(results.nextCursor).toBeNull();
+  });
+
+  it("returns a cursor when there are more posts, and only posts on later pages", async () => {
+    respond.fn = (q) => q.includes("post_search_document(p.content")
+      ? [1, 2, 3].map((n) => ({ id: `p${n}`, rank: 0.5, created_at: new Date(`2026-04-0${n}T00:00:00Z`) }))
+      : [];
+    const first = await searchAll("glitch", { limit: 2 });
+    expect(first.posts.map((p) => p.id)).toEqual(["p1", "p2"]);
+    expect(decodeSearchCursor(first.nextCursor)).toEqual({ rank: 0.5, createdAt: "2026-04-02T00:00:00.000Z", id: "p2" });
+
+    queries.length = 0;
+    const next = await searchAll("glitch", { limit: 2, cursor: first.nextCursor });
+    expect(queries).toHaveLength(1);
+    expect(next.personas).toEqual([]);
+    expect(next.products).toEqual([]);
+  });
+});
@@ -1,52 +1,261 @@
 /**
  * Search & Trending Repository
  * ==============================
- * Centralised search for posts, personas, and hashtags.
- * Also provides trending data for the explore page.
+ * Centralised search for posts, personas, channels, marketplace products
+ * and hashtags. Also provides trending data for the explore page.
+ *
+ * Search is Postgres full-text: each table has an IMMUTABLE
+ * *_search_document() function with an expression GIN index (migration in
+ * db.ts), queried with websearch_to_tsquery so users can type quotes, OR and
+ * -exclusions. Persona names and hashtags also match by trigram similarity,
+ * so "glitchbott" still finds @glitchbot. Marketplace products live in code
+ * (MARKETPLACE_PRODUCTS), so they're matched in memory.
+ *
+ * Posts are ranked by ts_rank_cd and paginated with an opaque cursor over
+ * (rank, created_at, id); the other groups are first-page only. Snippets are
+ * HTML-escaped with matches wrapped in <mark>.
  */
 
 import { getDb } from "@/lib/db";
 import { PAGINATION } from "@/lib/bible/constants";
+import { MARKETPLACE_PRODUCTS, type MarketplaceProduct } from "@/lib/marketplace";
 
 // ── Search ───────────────────────────────────────────────────────────
 
-export async function searchAll(query: string) {
+export type SearchGroup = "posts" | "personas" | "channels" | "products" | "hashtags";
+
+export const SEARCH_GROUPS: SearchGroup[] = ["posts", "personas", "channels", "products", "hashtags"];
+
+export type SearchMediaType = "video" | "image" | "text";
+
+export interface SearchFilters {
+  postType?: string;
+  mediaType?: SearchMediaType;
+  /** Channel slug or id */
+  channel?: string;
+  /** Persona username or id */
+  persona?: string;
+  /** ISO timestamps, inclusive from / exclusive to */
+  from?: string;
+  to?: string;
+}
+
+export interface SearchOptions {
+  filters?: SearchFilters;
+  /** Opaque cursor from a previous response's nextCursor — posts only */
+  cursor?: string | null;
+  limit?: number;
+  groups?: SearchGroup[];
+}
+
+export interface PostSearchCursor {
+  rank: number;
+  createdAt: string;
+  id: string;
+}
+
+/** Minimum trigram similarity for a fuzzy persona name / hashtag match */
+const FUZZY_THRESHOLD = 0.3;
+
+const HEADLINE_OPTIONS = 'StartSel="<mark>", StopSel="</mark>", MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "';
+
+export function encodeSearchCursor(cursor: PostSearchCursor): string {
+  return Buffer.from(JSON.stringify([cursor.rank, cursor.createdAt, cursor.id])).toString("base64url");
+}
+
+/** Null for anything that isn't a cursor we issued. */
+export function decodeSearchCursor(raw: string | null | undefined): PostSearchCursor | null {
+  if (!raw) return null;
+  try {
+    const [rank, createdAt, id] = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (typeof rank !== "number" || !Number.isFinite(rank)) return null;
+    if (typeof createdAt !== "string" || Number.isNaN(Date.parse(createdAt))) return null;
+    if (typeof id !== "string" || !id) return null;
+    return { rank, createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function queryTerms(query: string): string[] {
+  return query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((t) => t.length >= 2);
+}
+
+/**
+ * Escaped excerpt of `text` around the first matching term, with every
+ * term wrapped in <mark>. Used where Postgres ts_headline isn't available.
+ */
+export function highlightSnippet(text: string, terms: string[], maxLength = 160): string {
+  const lower = text.toLowerCase();
+  const first = terms.map((t) => lower.indexOf(t)).filter((i) => i >= 0).sort((a, b) => a - b)[0] ?? 0;
+  const start = Math.max(0, first - Math.floor(maxLength / 3));
+  let excerpt = text.slice(start, start + maxLength);
+  if (start > 0) excerpt = "…" + excerpt;
+  if (start + maxLength < text.length) excerpt += "…";
+
+  const escaped = escapeHtml(excerpt);
+  if (terms.length === 0) return escaped;
+  const pattern = new RegExp(`(${terms.map((t) => escapeHtml(t).replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})`, "giu");
+  return escaped.replace(pattern, "<mark>$1</mark>");
+}
+
+/** In-memory product match: name ×3, tagline ×2, category and description ×1 per term. */
+export function searchProducts(query: string, limit = PAGINATION.searchResultsPersonas): (MarketplaceProduct & { rank: number; snippet: string })[] {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [];
+  return MARKETPLACE_PRODUCTS
+    .map((product) => {
+      const fields: [string, number][] = [
+        [product.name, 3], [product.tagline, 2], [product.category, 1], [product.description, 1],
+      ];
+      let rank = 0;
+      for (const term of terms) {
+        for (const [text, weight] of fields) {
+          if (text.toLowerCase().includes(term)) rank += weight;
+        }
+      }
+      const snippetSource = product.tagline.toLowerCase().includes(terms[0]) ? product.tagline : product.description;
+      return { ...product, rank, snippet: highlightSnippet(snippetSource, terms) };
+    })
+    .filter((p) => p.rank > 0)
+    .sort((a, b) => b.rank - a.rank || b.sold_count - a.sold_count)
+    .slice(0, limit);
+}
+
+async function searchPosts(query: string, filters: SearchFilters, cursor: PostSearchCursor | null, limit: number) {
   const sql = getDb();
-  // Strip leading # for hashtag searches — hashtags are stored without #
-  const cleanQ = query.replace(/^#/, "");
-  const searchTerm = `%${cleanQ.toLowerCase()}%`;
-  const contentSearchTerm = `%${query.toLowerCase()}%`;
+  const postType = filters.postType ?? null;
+  const mediaType = filters.mediaType ?? null;
+  const channel = filters.channel ?? null;
+  const persona = filters.persona ?? null;
+  const from = filters.from ?? null;
+  const to = filters.to ?? null;
 
-  const [posts, personas, hashtags] = await Promise.all([
-    sql`
-      SELECT p.id, p.content, p.post_type, p.media_url, p.media_type, p.like_count, p.ai_like_count, p.created_at,
-        a.username, a.display_name, a.avatar_emoji, a.avatar_url
+  const rows = await sql`
+    WITH q AS (SELECT websearch_to_tsquery('english', ${query}) AS tsq),
+    matches AS (
+      SELECT p.id, p.content, p.post_type, p.media_url, p.media_type, p.like_count, p.ai_like_count,
+        p.channel_id, p.created_at,
+        a.username, a.display_name, a.avatar_emoji, a.avatar_url,
+        ts_rank_cd(post_search_document(p.content, p.hashtags), q.tsq, 32)::real AS rank,
+        date_trunc('milliseconds', p.created_at) AS created_ms,
+        q.tsq
       FROM posts p
       JOIN ai_personas a ON p.persona_id = a.id
+      CROSS JOIN q
       WHERE p.is_reply_to IS NULL
-        AND (LOWER(p.content) LIKE ${contentSearchTerm} OR LOWER(p.hashtags) LIKE ${searchTerm})
-      ORDER BY p.created_at DESC
-      LIMIT ${PAGINATION.searchResultsPosts}
-    `,
-    sql`
-      SELECT id, username, display_name, avatar_emoji, avatar_url, bio, persona_type, follower_count, post_count
-      FROM ai_personas
-      WHERE is_active = TRUE
-        AND (LOWER(username) LIKE ${searchTerm} OR LOWER(display_name) LIKE ${searchTerm} OR LOWER(bio) LIKE ${searchTerm})
-      ORDER BY follower_count DESC
-      LIMIT ${PAGINATION.searchResultsPersonas}
-    `,
-    sql`
-      SELECT tag, COUNT(*) as count
-      FROM post_hashtags
-      WHERE tag LIKE ${searchTerm}
-      GROUP BY tag
-      ORDER BY count DESC
-      LIMIT ${PAGINATION.searchResultsHashtags}
-    `,
+        AND post_search_document(p.content, p.hashtags) @@ q.tsq
+        AND (${postType}::text IS NULL OR p.post_type = ${postType})
+        AND (${mediaType}::text IS NULL
+          OR (${mediaType} = 'text' AND (p.media_url IS NULL OR p.media_type IS NULL OR p.media_type = 'text'))
+          OR (p.media_type = ${mediaType} AND p.media_url IS NOT NULL))
+        AND (${channel}::text IS NULL OR p.channel_id IN (SELECT id FROM channels WHERE slug = ${channel} OR id = ${channel}))
+        AND (${persona}::text IS NULL OR a.username = ${persona} OR a.id = ${persona})
+        AND (${from}::timestamptz IS NULL OR p.created_at >= ${from}::timestamptz)
+        AND (${to}::timestamptz IS NULL OR p.created_at < ${to}::timestamptz)
+    )
+    SELECT id, content, post_type, media_url, media_type, like_count, ai_like_count, channel_id, created_at,
+      username, display_name, avatar_emoji, avatar_url, rank,
+      ts_headline('english', replace(replace(replace(content, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), tsq, ${HEADLINE_OPTIONS}) AS snippet
+    FROM matches
+    WHERE ${cursor === null}
+      OR (rank, created_ms, id) < (${cursor?.rank ?? 0}::real, ${cursor?.createdAt ?? null}::timestamptz, ${cursor?.id ?? ""})
+    ORDER BY rank DESC, created_ms DESC, id DESC
+    LIMIT ${limit + 1}
+  ` as unknown as (Record<string, unknown> & { id: string; rank: number; created_at: string | Date })[];
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  const nextCursor = rows.length > limit && last
+    // JS dates are millisecond precision, matching created_ms in the cursor comparison
+    ? encodeSearchCursor({ rank: Number(last.rank), createdAt: new Date(last.created_at).toISOString(), id: last.id })
+    : null;
+
+  return { posts: page, nextCursor };
+}
+
+async function searchPersonas(query: string) {
+  const sql = getDb();
+  const handle = query.replace(/^@/, "");
+  return sql`
+    WITH q AS (SELECT websearch_to_tsquery('english', ${query}) || websearch_to_tsquery('simple', ${query}) AS tsq)
+    SELECT id, username, display_name, avatar_emoji, avatar_url, bio, persona_type, follower_count, post_count,
+      GREATEST(
+        ts_rank_cd(persona_search_document(username, display_name, persona_type, bio), q.tsq, 32),
+        similarity(username, ${handle}),
+        similarity(display_name, ${query})
+      )::real AS rank,
+      ts_headline('english', replace(replace(replace(bio, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), q.tsq, ${HEADLINE_OPTIONS}) AS snippet
+    FROM ai_personas CROSS JOIN q
+    WHERE is_active = TRUE
+      AND (
+        persona_search_document(username, display_name, persona_type, bio) @@ q.tsq
+        OR similarity(username, ${handle}) >= ${FUZZY_THRESHOLD}
+        OR similarity(display_name, ${query}) >= ${FUZZY_THRESHOLD}
+      )
+    ORDER BY rank DESC, follower_count DESC
+    LIMIT ${PAGINATION.searchResultsPersonas}
+  `;
+}
+
+async function searchChannels(query: string) {
+  const sql = getDb();
+  return sql`
+    WITH q AS (SELECT websearch_to_tsquery('english', ${query}) AS tsq)
+    SELECT id, slug, name, emoji, description, subscriber_count, post_count,
+      ts_rank_cd(channel_search_document(name, slug, description), q.tsq, 32)::real AS rank,
+      ts_headline('english', replace(replace(replace(description, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), q.tsq, ${HEADLINE_OPTIONS}) AS snippet
+    FROM channels CROSS JOIN q
+    WHERE is_active = TRUE AND channel_search_document(name, slug, description) @@ q.tsq
+    ORDER BY rank DESC, subscriber_count DESC
+    LIMIT ${PAGINATION.searchResultsPersonas}
+  `;
+}
+
+async function searchHashtags(query: string) {
+  const sql = getDb();
+  // Strip leading # for hashtag searches — hashtags are stored without #
+  const tag = query.replace(/^#/, "").toLowerCase();
+  return sql`
+    SELECT tag, COUNT(*) as count, MAX(similarity(tag, ${tag}))::real AS rank
+    FROM post_hashtags
+    WHERE tag LIKE ${`%${tag.replace(/[%_\\]/g, "\\$&")}%`} OR similarity(tag, ${tag}) >= ${FUZZY_THRESHOLD}
+    GROUP BY tag
+    ORDER BY (tag = ${tag}) DESC, rank DESC, count DESC
+    LIMIT ${PAGINATION.searchResultsHashtags}
+  `;
+}
+
+/**
+ * Search every group (or `groups`) for `query`. With a cursor, only the next
+ * page of posts is returned — the other groups are first-page only.
+ */
+export async function searchAll(query: string, opts: SearchOptions = {}) {
+  const filters = opts.filters ?? {};
+  const cursor = decodeSearchCursor(opts.cursor);
+  const limit = Math.min(Math.max(1, opts.limit ?? PAGINATION.searchResultsPosts), PAGINATION.maxLimit);
+  const groups = new Set(cursor ? ["posts"] : (opts.groups ?? SEARCH_GROUPS));
+  const empty = Promise.resolve([] as Record<string, unknown>[]);
+
+  const [postPage, personas, channels, hashtags] = await Promise.all([
+    groups.has("posts") ? searchPosts(query, filters, cursor, limit) : Promise.resolve({ posts: [], nextCursor: null }),
+    groups.has("personas") ? searchPersonas(query) : empty,
+    groups.has("channels") ? searchChannels(query) : empty,
+    groups.has("hashtags") ? searchHashtags(query) : empty,
   ]);
 
-  return { posts, personas, hashtags };
+  return {
+    posts: postPage.posts,
+    nextCursor: postPage.nextCursor,
+    personas,
+    channels,
+    products: groups.has("products") ? searchProducts(query) : [],
+    hashtags,
+  };
 }
 
 // ── Trending ─────────────────────────────────────────────────────────
@@ -2,6 +2,8 @@
  * Settings Repository
  * ====================
  * Typed access to `platform_settings` and `budju_trading_config` tables.
+ * Also owns the JSON-valued `circuit_breaker_config`, `ai_routing_config`
+ * and `throttle_schedule` platform settings.
  * Heavily cached — these are read on almost every request but written rarely.
  */
 
@@ -33,6 +35,125 @@ export interface BudjuTradingConfig {
   spentResetDate: string;
 }
 
+/** Spend caps for one scope. Omitted = no cap at that granularity. */
+export interface SpendBudget {
+  hourlyUsd?: number;
+  dailyUsd?: number;
+}
+
+export interface CircuitBreakerConfig {
+  /** Caps across all providers combined. */
+  global: Required<SpendBudget>;
+  /** Per-provider caps + burst limit, keyed by AIProvider ("_default" applies to unlisted providers). */
+  providers: Record<string, SpendBudget & { callsPerMinute?: number }>;
+  /** Per-AITaskType caps, summed across providers. */
+  tasks: Record<string, SpendBudget>;
+  /** How long a tripped breaker stays open before letting a half-open probe through. */
+  cooldownSeconds: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  global: { hourlyUsd: 15, dailyUsd: 50 },
+  providers: {
+    "claude":                 { callsPerMinute: 100 },
+    "grok-text":              { callsPerMinute: 200 },
+    "grok-text-reasoning":    { callsPerMinute: 100 },
+    "grok-text-nonreasoning": { callsPerMinute: 200 },
+    "grok-multi-agent":       { callsPerMinute: 50 },
+    "grok-image":             { callsPerMinute: 60 },
+    "grok-image-pro":         { callsPerMinute: 30 },
+    "grok-video":             { callsPerMinute: 20 },
+    "grok-img2vid":           { callsPerMinute: 20 },
+    "replicate-imagen4":      { callsPerMinute: 30 },
+    "replicate-flux":         { callsPerMinute: 60 },
+    "replicate-wan2":         { callsPerMinute: 20 },
+    "replicate-ideogram":     { callsPerMinute: 30 },
+    "kie-kling":              { callsPerMinute: 20 },
+    "raphael":                { callsPerMinute: 60 },
+    "_default":               { callsPerMinute: 100 },
+  },
+  tasks: {},
+  cooldownSeconds: 300,
+};
+
+/** How the AI router orders a task's providers. */
+export type AIRoutingPolicy = "cost-first" | "quality-first" | "round-robin";
+
+export const AI_ROUTING_POLICIES: AIRoutingPolicy[] = ["cost-first", "quality-first", "round-robin"];
+
+export interface AITaskRoute {
+  policy: AIRoutingPolicy;
+  /** Text providers in preference order (quality-first tries them as listed). */
+  providers: string[];
+  /** Per-attempt timeout before falling back to the next provider. */
+  timeoutMs: number;
+}
+
+export interface AIRoutingConfig {
+  /** Route used for any task without its own entry. */
+  default: AITaskRoute;
+  /** Per-AITaskType overrides. */
+  tasks: Record<string, AITaskRoute>;
+}
+
+export const DEFAULT_AI_ROUTING_CONFIG: AIRoutingConfig = {
+  default: {
+    policy: "quality-first",
+    providers: ["claude", "grok-text-reasoning", "grok-text-nonreasoning"],
+    timeoutMs: 90_000,
+  },
+  tasks: {
+    // Alternating keeps the old ~50/50 Grok/Claude screenplay mix
+    "screenplay":       { policy: "round-robin", providers: ["grok-text-reasoning", "claude"], timeoutMs: 180_000 },
+    "topic-generation": { policy: "quality-first", providers: ["claude", "grok-text-reasoning"], timeoutMs: 90_000 },
+  },
+};
+
+/** A planned window (e.g. a premiere) during which crons run at a raised activity level. */
+export interface ThrottleBoostWindow {
+  id: string;
+  label: string;
+  /** ISO timestamps; the window is [startsAt, endsAt) */
+  startsAt: string;
+  endsAt: string;
+  /** Activity % during the window — only ever raises the scheduled value */
+  percent: number;
+  /** cron_runs names the boost applies to; empty = every throttled cron */
+  crons: string[];
+}
+
+export interface CronThrottleOverride {
+  /** Base activity % for this cron, replacing the global slider */
+  percent?: number;
+  /** Apply the hour/day curves on top of the base (default true) */
+  followSchedule?: boolean;
+}
+
+/**
+ * Time-of-week shape for the activity throttle. The global slider (or a
+ * per-cron override) is the base %, scaled by the hour and weekday curves in
+ * the audience's timezone; an active boost window can raise it.
+ */
+export interface ThrottleScheduleConfig {
+  /** IANA timezone the curves are read in */
+  timezone: string;
+  /** Multiplier % per local hour, 0–23 */
+  hourly: number[];
+  /** Multiplier % per local weekday, Sunday first */
+  weekdays: number[];
+  /** Per-cron overrides keyed by cron_runs name */
+  crons: Record<string, CronThrottleOverride>;
+  boosts: ThrottleBoostWindow[];
+}
+
+export const DEFAULT_THROTTLE_SCHEDULE: ThrottleScheduleConfig = {
+  timezone: "UTC",
+  hourly: Array(24).fill(100),
+  weekdays: Array(7).fill(100),
+  crons: {},
+  boosts: [],
+};
+
 // ── Repository ────────────────────────────────────────────────────────
 
 /** Read a single platform setting by key. Cached. */
@@ -112,3 +233,197 @@ export async function setBudjuTradingConfig(key: string, value: string): Promise
   `;
   cache.del("budju:config");
 }
+
+const BUDGET_FIELDS = ["hourlyUsd", "dailyUsd", "callsPerMinute"];
+
+/** Keep only known fields holding finite, non-negative numbers. */
+function sanitizeBudget<T extends SpendBudget>(raw: unknown): T {
+  const out: Record<string, number> = {};
+  if (raw && typeof raw === "object") {
+    for (const [field, value] of Object.entries(raw)) {
+      if (!BUDGET_FIELDS.includes(field) || value === null || value === "") continue;
+      const n = Number(value);
+      if (Number.isFinite(n) && n >= 0) out[field] = n;
+    }
+  }
+  return out as unknown as T;
+}
+
+/**
+ * Merge a stored (possibly partial / stale) config over the defaults.
+ * Exported for tests and for validating admin edits before they are saved.
+ */
+export function parseCircuitBreakerConfig(raw: unknown): CircuitBreakerConfig {
+  const d = DEFAULT_CIRCUIT_BREAKER_CONFIG;
+  const obj = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+
+  const global = sanitizeBudget<SpendBudget>(obj.global);
+  const providers: CircuitBreakerConfig["providers"] = { ...d.providers };
+  for (const [k, v] of Object.entries((obj.providers ?? {}) as Record<string, unknown>)) {
+    providers[k] = sanitizeBudget(v);
+  }
+  const tasks: CircuitBreakerConfig["tasks"] = {};
+  for (const [k, v] of Object.entries((obj.tasks ?? {}) as Record<string, unknown>)) {
+    tasks[k] = sanitizeBudget(v);
+  }
+  const cooldown = Number(obj.cooldownSeconds);
+
+  return {
+    global: {
+      hourlyUsd: global.hourlyUsd ?? d.global.hourlyUsd,
+      dailyUsd: global.dailyUsd ?? d.global.dailyUsd,
+    },
+    providers,
+    tasks,
+    cooldownSeconds: Number.isFinite(cooldown) && cooldown > 0 ? Math.round(cooldown) : d.cooldownSeconds,
+  };
+}
+
+/** Fetch circuit breaker budgets. Cached; falls back to defaults on bad JSON or DB errors. */
+export async function getCircuitBreakerConfig(): Promise<CircuitBreakerConfig> {
+  try {
+    const raw = await getSetting("circuit_breaker_config");
+    return parseCircuitBreakerConfig(raw ? JSON.parse(raw) : null);
+  } catch {
+    return parseCircuitBreakerConfig(null);
+  }
+}
+
+/** Persist circuit breaker budgets (normalised). Busts cache via setSetting. */
+export async function setCircuitBreakerConfig(config: unknown): Promise<CircuitBreakerConfig> {
+  const parsed = parseCircuitBreakerConfig(config);
+  await setSetting("circuit_breaker_config", JSON.stringify(parsed));
+  return parsed;
+}
+
+function parseTaskRoute(raw: unknown, fallback: AITaskRoute): AITaskRoute {
+  const obj = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const policy = AI_ROUTING_POLICIES.includes(obj.policy as AIRoutingPolicy)
+    ? (obj.policy as AIRoutingPolicy)
+    : fallback.policy;
+  const providers = Array.isArray(obj.providers)
+    ? [...new Set(obj.providers.filter((p): p is string => typeof p === "string" && p.trim() !== ""))]
+    : [];
+  const timeout = Number(obj.timeoutMs);
+  return {
+    policy,
+    providers: providers.length > 0 ? providers : [...fallback.providers],
+    timeoutMs: Number.isFinite(timeout) && timeout >= 1000 ? Math.round(timeout) : fallback.timeoutMs,
+  };
+}
+
+/**
+ * Merge a stored AI routing config over the defaults. Missing or invalid
+ * task-route fields inherit from the default route.
+ */
+export function parseAIRoutingConfig(raw: unknown): AIRoutingConfig {
+  const d = DEFAULT_AI_ROUTING_CONFIG;
+  const obj = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+
+  const def = parseTaskRoute(obj.default, d.default);
+  // A stored task map replaces the defaults wholesale so admins can remove overrides
+  const rawTasks = (obj.tasks && typeof obj.tasks === "object" ? obj.tasks : d.tasks) as Record<string, unknown>;
+  const tasks: AIRoutingConfig["tasks"] = {};
+  for (const [k, v] of Object.entries(rawTasks)) {
+    tasks[k] = parseTaskRoute(v, def);
+  }
+
+  return { default: def, tasks };
+}
+
+/** Fetch per-task AI routing policy. Cached; falls back to defaults on bad JSON or DB errors. */
+export async function getAIRoutingConfig(): Promise<AIRoutingConfig> {
+  try {
+    const raw = await getSetting("ai_routing_config");
+    return parseAIRoutingConfig(raw ? JSON.parse(raw) : null);
+  } catch {
+    return parseAIRoutingConfig(null);
+  }
+}
+
+/** Persist AI routing policy (normalised). Busts cache via setSetting. */
+export async function setAIRoutingConfig(config: unknown): Promise<AIRoutingConfig> {
+  const parsed = parseAIRoutingConfig(config);
+  await setSetting("ai_routing_config", JSON.stringify(parsed));
+  return parsed;
+}
+
+function clampPercent(value: unknown, fallback: number, max = 100): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.min(max, Math.max(0, Math.round(n))) : fallback;
+}
+
+function isValidTimezone(tz: unknown): tz is string {
+  if (typeof tz !== "string" || tz === "") return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Merge a stored throttle schedule over the defaults. Curves must have the
+ * right length or fall back to flat; boosts with bad timestamps are dropped.
+ */
+export function parseThrottleSchedule(raw: unknown): ThrottleScheduleConfig {
+  const d = DEFAULT_THROTTLE_SCHEDULE;
+  const obj = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+
+  const curve = (value: unknown, fallback: number[]) =>
+    Array.isArray(value) && value.length === fallback.length
+      ? value.map((v, i) => clampPercent(v, fallback[i], 200))
+      : [...fallback];
+
+  const crons: ThrottleScheduleConfig["crons"] = {};
+  for (const [name, v] of Object.entries((obj.crons && typeof obj.crons === "object" ? obj.crons : {}) as Record<string, unknown>)) {
+    const o = (v && typeof v === "object" ? v : {}) as Record<string, unknown>;
+    const override: CronThrottleOverride = {};
+    if (o.percent !== undefined && o.percent !== null && o.percent !== "") override.percent = clampPercent(o.percent, 100);
+    if (typeof o.followSchedule === "boolean") override.followSchedule = o.followSchedule;
+    crons[name] = override;
+  }
+
+  const boosts: ThrottleBoostWindow[] = [];
+  for (const v of Array.isArray(obj.boosts) ? obj.boosts : []) {
+    const b = (v && typeof v === "object" ? v : {}) as Record<string, unknown>;
+    const start = Date.parse(String(b.startsAt));
+    const end = Date.parse(String(b.endsAt));
+    if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) continue;
+    boosts.push({
+      id: typeof b.id === "string" && b.id ? b.id : `boost-${start}`,
+      label: typeof b.label === "string" ? b.label.slice(0, 100) : "",
+      startsAt: new Date(start).toISOString(),
+      endsAt: new Date(end).toISOString(),
+      percent: clampPercent(b.percent, 100),
+      crons: Array.isArray(b.crons) ? b.crons.filter((c): c is string => typeof c === "string" && c !== "") : [],
+    });
+  }
+  boosts.sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+
+  return {
+    timezone: isValidTimezone(obj.timezone) ? obj.timezone : d.timezone,
+    hourly: curve(obj.hourly, d.hourly),
+    weekdays: curve(obj.weekdays, d.weekdays),
+    crons,
+    boosts,
+  };
+}
+
+/** Fetch the activity throttle schedule. Cached; falls back to a flat schedule on bad JSON or DB errors. */
+export async function getThrottleSchedule(): Promise<ThrottleScheduleConfig> {
+  try {
+    const raw = await getSetting("throttle_schedule");
+    return parseThrottleSchedule(raw ? JSON.parse(raw) : null);
+  } catch {
+    return parseThrottleSchedule(null);
+  }
+}
+
+/** Persist the activity throttle schedule (normalised). Busts cache via setSetting. */
+export async function setThrottleSchedule(config: unknown): Promise<ThrottleScheduleConfig> {
+  const parsed = parseThrottleSchedule(config);
+  await setSetting("throttle_schedule", JSON.stringify(parsed));
+  return parsed;
+}
@@ -1,17 +1,21 @@
 /**
  * Trading Repository
  * ====================
- * Typed access to `ai_trades`, `exchange_orders`, price history,
- * and order book aggregation. Cached for dashboard performance.
+ * Read side of the GLITCH/SOL exchange: the resting order book
+ * (`exchange_orders`), matched trades (`exchange_trades`), candles and the
+ * persona leaderboard — all derived from real matches made by
+ * `@/lib/trading/exchange`. Cached for dashboard performance.
  */
 
 import { getDb } from "@/lib/db";
-import { cache, TTL } from "@/lib/cache";
+import { cache, TTL, TAGS } from "@/lib/cache";
+import { LAMPORTS_PER_SOL } from "@/lib/trading/matching";
 
 // ── Types ─────────────────────────────────────────────────────────────
 
 export interface RecentTrade {
   id: string;
+  /** The taker's side — the order that crossed the spread */
   trade_type: string;
   glitch_amount: number;
   sol_amount: number;
@@ -19,6 +23,7 @@ export interface RecentTrade {
   commentary: string | null;
   strategy: string | null;
   created_at: string;
+  trader_type: "human" | "ai_persona";
   display_name: string;
   avatar_emoji: string;
   username: string;
@@ -26,8 +31,11 @@ export interface RecentTrade {
 
 export interface OrderBookLevel {
   price: number;
+  /** §GLITCH resting at this price */
   amount: number;
+  /** SOL value of the level */
   total: number;
+  orders: number;
 }
 
 export interface Stats24h {
@@ -61,37 +69,47 @@ export interface TradingDashboard {
 
 // ── Queries ───────────────────────────────────────────────────────────
 
-/** Recent AI trades (limit 50). Cached. */
+/** Recent matched trades, attributed to the taker (limit 50). Cached. */
 export async function getRecentTrades(limit = 50): Promise<RecentTrade[]> {
   return cache.getOrSet(`trades:recent:${limit}`, TTL.tradingStats, async () => {
     const sql = getDb();
     const rows = await sql`
-      SELECT t.id, t.trade_type, t.glitch_amount, t.sol_amount, t.price_per_glitch,
-             t.commentary, t.strategy, t.created_at,
-             p.display_name, p.avatar_emoji, p.username
-      FROM ai_trades t
-      JOIN ai_personas p ON t.persona_id = p.id
+      SELECT t.id, t.taker_side AS trade_type, t.amount AS glitch_amount,
+             t.quote_lamports::float8 / ${LAMPORTS_PER_SOL} AS sol_amount, t.price AS price_per_glitch,
+             o.commentary, o.strategy, t.created_at, o.owner_type AS trader_type,
+             COALESCE(p.display_name, h.display_name, 'Meat Bag') AS display_name,
+             COALESCE(p.avatar_emoji, h.avatar_emoji, '🧑') AS avatar_emoji,
+             COALESCE(p.username, h.username, '') AS username
+      FROM exchange_trades t
+      JOIN exchange_orders o ON o.id = CASE WHEN t.taker_side = 'buy' THEN t.buy_order_id ELSE t.sell_order_id END
+      LEFT JOIN ai_personas p ON o.owner_type = 'ai_persona' AND p.id = o.session_id
+      LEFT JOIN human_users h ON o.owner_type = 'human' AND h.session_id = o.session_id
       ORDER BY t.created_at DESC
       LIMIT ${limit}
     `;
-    return rows as unknown as RecentTrade[];
-  });
+    return rows.map(r => ({
+      ...r,
+      glitch_amount: Number(r.glitch_amount),
+      sol_amount: Number(r.sol_amount),
+      price_per_glitch: Number(r.price_per_glitch),
+    })) as unknown as RecentTrade[];
+  }, [TAGS.trades]);
 }
 
-/** 24h trading stats. Cached. */
+/** 24h trading stats over matched trades. Cached. */
 export async function get24hStats(): Promise<Stats24h> {
   return cache.getOrSet("trades:stats24h", TTL.tradingStats, async () => {
     const sql = getDb();
     const [row] = await sql`
       SELECT
         COUNT(*) as total_trades,
-        COUNT(*) FILTER (WHERE trade_type = 'buy') as buys,
-        COUNT(*) FILTER (WHERE trade_type = 'sell') as sells,
-        COALESCE(SUM(sol_amount), 0) as total_volume_sol,
-        COALESCE(SUM(glitch_amount), 0) as total_volume_glitch,
-        COALESCE(MAX(price_per_glitch), 0) as high_price,
-        COALESCE(MIN(price_per_glitch), 0) as low_price
-      FROM ai_trades
+        COUNT(*) FILTER (WHERE taker_side = 'buy') as buys,
+        COUNT(*) FILTER (WHERE taker_side = 'sell') as sells,
+        COALESCE(SUM(quote_lamports), 0)::float8 / ${LAMPORTS_PER_SOL} as total_volume_sol,
+        COALESCE(SUM(amount), 0) as total_volume_glitch,
+        COALESCE(MAX(price), 0) as high_price,
+        COALESCE(MIN(price), 0) as low_price
+      FROM exchange_trades
       WHERE created_at > NOW() - INTERVAL '24 hours'
     `;
     return {
@@ -103,58 +121,57 @@ export async function get24hStats(): Promise<Stats24h> {
       high: Number(row.high_price),
       low: Number(row.low_price),
     };
-  });
+  }, [TAGS.trades]);
 }
 
-/** Order book (24h aggregated buy/sell levels). Cached. */
-export async function getOrderBook(): Promise<{ bids: OrderBookLevel[]; asks: OrderBookLevel[] }> {
-  return cache.getOrSet("trades:orderbook", TTL.tradingStats, async () => {
+/** Order book — live resting orders aggregated by price, best first. Cached. */
+export async function getOrderBook(depth = 15): Promise<{ bids: OrderBookLevel[]; asks: OrderBookLevel[] }> {
+  return cache.getOrSet(`trades:orderbook:${depth}`, TTL.tradingStats, async () => {
     const sql = getDb();
     const [buyOrders, sellOrders] = await Promise.all([
       sql`
-        SELECT
-          ROUND(price_per_glitch::numeric, 8) as price,
-          SUM(glitch_amount) as total_glitch,
-          SUM(sol_amount) as total_sol
-        FROM ai_trades
-        WHERE trade_type = 'buy' AND created_at > NOW() - INTERVAL '24 hours'
-        GROUP BY ROUND(price_per_glitch::numeric, 8)
+        SELECT price_per_coin as price, SUM(amount - filled_amount) as total_glitch, COUNT(*) as order_count
+        FROM exchange_orders
+        WHERE order_type = 'buy' AND status IN ('open', 'partial')
+          AND (expires_at IS NULL OR expires_at > NOW())
+        GROUP BY price_per_coin
         ORDER BY price DESC
-        LIMIT 15
+        LIMIT ${depth}
       `,
       sql`
-        SELECT
-          ROUND(price_per_glitch::numeric, 8) as price,
-          SUM(glitch_amount) as total_glitch,
-          SUM(sol_amount) as total_sol
-        FROM ai_trades
-        WHERE trade_type = 'sell' AND created_at > NOW() - INTERVAL '24 hours'
-        GROUP BY ROUND(price_per_glitch::numeric, 8)
+        SELECT price_per_coin as price, SUM(amount - filled_amount) as total_glitch, COUNT(*) as order_count
+        FROM exchange_orders
+        WHERE order_type = 'sell' AND status IN ('open', 'partial')
+          AND (expires_at IS NULL OR expires_at > NOW())
+        GROUP BY price_per_coin
         ORDER BY price ASC
-        LIMIT 15
+        LIMIT ${depth}
       `,
     ]);
-    return {
-      bids: buyOrders.map(o => ({ price: Number(o.price), amount: Number(o.total_glitch), total: Number(o.total_sol) })),
-      asks: sellOrders.map(o => ({ price: Number(o.price), amount: Number(o.total_glitch), total: Number(o.total_sol) })),
-    };
-  });
+    const toLevel = (o: Record<string, unknown>): OrderBookLevel => ({
+      price: Number(o.price),
+      amount: Number(o.total_glitch),
+      total: Number(o.price) * Number(o.total_glitch),
+      orders: Number(o.order_count),
+    });
+    return { bids: buyOrders.map(toLevel), asks: sellOrders.map(toLevel) };
+  }, [TAGS.trades]);
 }
 
-/** Hourly price candles (7 days). Cached. */
+/** Hourly price candles (7 days) from matched trades. Cached. */
 export async function getPriceHistory(): Promise<PriceCandle[]> {
   return cache.getOrSet("trades:pricehistory", TTL.tradingStats, async () => {
     const sql = getDb();
     const rows = await sql`
       SELECT
         date_trunc('hour', created_at) as time_bucket,
-        (array_agg(price_per_glitch ORDER BY created_at ASC))[1] as open,
-        MAX(price_per_glitch) as high,
-        MIN(price_per_glitch) as low,
-        (array_agg(price_per_glitch ORDER BY created_at DESC))[1] as close,
-        SUM(glitch_amount) as volume,
+        (array_agg(price ORDER BY created_at ASC, id ASC))[1] as open,
+        MAX(price) as high,
+        MIN(price) as low,
+        (array_agg(price ORDER BY created_at DESC, id DESC))[1] as close,
+        SUM(amount) as volume,
         COUNT(*) as trade_count
-      FROM ai_trades
+      FROM exchange_trades
       WHERE created_at > NOW() - INTERVAL '7 days'
       GROUP BY date_trunc('hour', created_at)
       ORDER BY time_bucket ASC
@@ -168,28 +185,45 @@ export async function getPriceHistory(): Promise<PriceCandle[]> {
       volume: Number(p.volume),
       trades: Number(p.trade_count),
     }));
-  });
+  }, [TAGS.trades]);
+}
+
+/** Last matched price, or null before the first trade. */
+export async function getLastPrice(): Promise<number | null> {
+  const sql = getDb();
+  const [row] = await sql`SELECT price FROM exchange_trades ORDER BY created_at DESC, id DESC LIMIT 1`;
+  return row ? Number(row.price) : null;
 }
 
-/** Top traders leaderboard. Cached. */
+/** Top AI traders by net SOL from matched trades. Cached. */
 export async function getLeaderboard(limit = 15) {
   return cache.getOrSet(`trades:leaderboard:${limit}`, TTL.tradingStats, async () => {
     const sql = getDb();
     return await sql`
+      WITH sides AS (
+        SELECT buyer_id AS persona_id, buy_order_id AS order_id, -quote_lamports AS lamports, amount AS glitch
+        FROM exchange_trades WHERE buyer_type = 'ai_persona'
+        UNION ALL
+        SELECT seller_id, sell_order_id, quote_lamports, -amount
+        FROM exchange_trades WHERE seller_type = 'ai_persona'
+      )
       SELECT
-        t.persona_id,
+        s.persona_id,
         p.display_name, p.avatar_emoji, p.username,
         COUNT(*) as total_trades,
-        SUM(CASE WHEN t.trade_type = 'buy' THEN -t.sol_amount ELSE t.sol_amount END) as net_sol,
-        SUM(CASE WHEN t.trade_type = 'buy' THEN t.glitch_amount ELSE -t.glitch_amount END) as net_glitch,
-        MAX(t.strategy) as strategy
-      FROM ai_trades t
-      JOIN ai_personas p ON t.persona_id = p.id
-      GROUP BY t.persona_id, p.display_name, p.avatar_emoji, p.username
+        SUM(GREATEST(s.glitch, 0)) as total_bought,
+        SUM(GREATEST(-s.glitch, 0)) as total_sold,
+        SUM(s.lamports)::float8 / ${LAMPORTS_PER_SOL} as net_sol,
+        SUM(s.glitch) as net_glitch,
+        MAX(o.strategy) as strategy
+      FROM sides s
+      JOIN ai_personas p ON s.persona_id = p.id
+      JOIN exchange_orders o ON o.id = s.order_id
+      GROUP BY s.persona_id, p.display_name, p.avatar_emoji, p.username
       ORDER BY net_sol DESC
       LIMIT ${limit}
     `;
-  });
+  }, [TAGS.trades]);
 }
 
 /** Full trading dashboard data — fetches all sub-queries in parallel. Cached. */
@@ -210,7 +244,7 @@ export async function getDashboard(): Promise<TradingDashboard> {
   };
 }
 
-/** Bust all trading caches (after a new trade). */
+/** Bust all trading caches (after an order, cancel or match). */
 export function bustCache(): void {
-  cache.invalidatePrefix("trades:");
+  void cache.invalidateTag(TAGS.trades);
 }
@@ -2,10 +2,13 @@
  * Users Repository
  * ==================
  * Typed access to `human_users`, `glitch_coins`, and `coin_transactions`.
+ * Coin movements post through the double-entry ledger (`@/lib/ledger`),
+ * which keeps `glitch_coins` / `coin_transactions` in sync as caches.
  */
 
 import { getDb } from "@/lib/db";
 import { v4 as uuidv4 } from "uuid";
+import * as ledger from "@/lib/ledger";
 
 // ── Types ─────────────────────────────────────────────────────────────
 
@@ -80,66 +83,135 @@ export async function getCoinBalance(sessionId: string): Promise<CoinBalance> {
   };
 }
 
-/** Award coins to a human user. Upserts balance + logs transaction. */
+/**
+ * Award coins to a human user (minted from the ledger's issuance account).
+ * Pass an idempotencyKey for one-time rewards — a replay awards nothing and returns 0.
+ */
 export async function awardCoins(
   sessionId: string,
   amount: number,
   reason: string,
   referenceId?: string,
+  idempotencyKey: string = uuidv4(),
 ): Promise<number> {
-  const sql = getDb();
-  await sql`
-    INSERT INTO glitch_coins (id, session_id, balance, lifetime_earned, updated_at)
-    VALUES (${uuidv4()}, ${sessionId}, ${amount}, ${amount}, NOW())
-    ON CONFLICT (session_id) DO UPDATE SET
-      balance = glitch_coins.balance + ${amount},
-      lifetime_earned = glitch_coins.lifetime_earned + ${amount},
-      updated_at = NOW()
-  `;
-  await sql`
-    INSERT INTO coin_transactions (id, session_id, amount, reason, reference_id, created_at)
-    VALUES (${uuidv4()}, ${sessionId}, ${amount}, ${reason}, ${referenceId || null}, NOW())
-  `;
-  return amount;
+  const result = await ledger.credit(ledger.humanAccount(sessionId), amount, { idempotencyKey, referenceId, memo: reason });
+  if ("error" in result) throw new Error(`awardCoins: ${result.error}`);
+  return result.duplicate ? 0 : amount;
 }
 
-/** Deduct coins from a human user. Returns false if insufficient balance. */
+/**
+ * Deduct coins from a human user. The balance check and the debit are one
+ * atomic ledger posting, so concurrent purchases can't overdraw.
+ * Returns success: false if the balance is insufficient.
+ */
 export async function deductCoins(
   sessionId: string,
   amount: number,
   reason: string,
   referenceId?: string,
+  idempotencyKey: string = uuidv4(),
 ): Promise<{ success: boolean; newBalance: number }> {
-  const sql = getDb();
-  const balanceRows = await sql`SELECT balance FROM glitch_coins WHERE session_id = ${sessionId}`;
-  const balance = balanceRows.length > 0 ? Number(balanceRows[0].balance) : 0;
+  const account = ledger.humanAccount(sessionId);
+  const result = await ledger.debit(account, amount, { idempotencyKey, referenceId, memo: reason });
+  if ("error" in result) {
+    if (!result.insufficient) throw new Error(`deductCoins: ${result.error}`);
+    return { success: false, newBalance: await ledger.getBalance(account) };
+  }
+  return { success: true, newBalance: result.balances[ledger.accountId(account)] ?? 0 };
+}
 
-  if (balance < amount) {
-    return { success: false, newBalance: balance };
+/**
+ * Move everything a session holds in the ledger — GLITCH plus any other
+ * currency it has an account for — to another session, one transfer per
+ * currency. Used when sessions are merged on login. Returns amounts moved.
+ */
+export async function moveAllCoins(fromSessionId: string, toSessionId: string, reason: string): Promise<Record<string, number>> {
+  const moved: Record<string, number> = {};
+  if (fromSessionId === toSessionId) return moved;
+
+  for (const currency of await heldCurrencies(fromSessionId)) {
+    const from = ledger.humanAccount(fromSessionId, currency);
+    const balance = await ledger.openAccount(from);
+    if (balance <= 0) continue;
+    const result = await ledger.transfer(from, ledger.humanAccount(toSessionId, currency), balance, {
+      idempotencyKey: `session-merge:${fromSessionId}:${toSessionId}:${currency}:${uuidv4()}`,
+      referenceId: fromSessionId,
+      memo: reason,
+    });
+    if ("error" in result) throw new Error(`moveAllCoins: ${result.error}`);
+    moved[currency] = balance;
   }
+  return moved;
+}
 
-  await sql`UPDATE glitch_coins SET balance = balance - ${amount}, updated_at = NOW() WHERE session_id = ${sessionId}`;
-  await sql`
-    INSERT INTO coin_transactions (id, session_id, amount, reason, reference_id, created_at)
-    VALUES (${uuidv4()}, ${sessionId}, ${-amount}, ${reason}, ${referenceId || null}, NOW())
-  `;
+/**
+ * Zero every ledger account a session holds by spending each balance into
+ * system:sink. Used when a user is deleted, so their coins leave through the
+ * journal instead of disappearing with the cache rows. Returns amounts closed.
+ */
+export async function closeAllCoins(sessionId: string, reason: string): Promise<Record<string, number>> {
+  const closed: Record<string, number> = {};
+  for (const currency of await heldCurrencies(sessionId)) {
+    const account = ledger.humanAccount(sessionId, currency);
+    const balance = await ledger.openAccount(account);
+    if (balance <= 0) continue;
+    const result = await ledger.debit(account, balance, {
+      idempotencyKey: `account-close:${sessionId}:${currency}:${uuidv4()}`,
+      kind: "adjustment",
+      referenceId: sessionId,
+      memo: reason,
+    });
+    if ("error" in result) throw new Error(`closeAllCoins: ${result.error}`);
+    closed[currency] = balance;
+  }
+  return closed;
+}
 
-  const [updated] = await sql`SELECT balance FROM glitch_coins WHERE session_id = ${sessionId}`;
-  return { success: true, newBalance: Number(updated.balance) };
+/** GLITCH plus every other currency the session has a ledger account for. */
+async function heldCurrencies(sessionId: string): Promise<Set<string>> {
+  const sql = getDb();
+  const rows = await sql`
+    SELECT currency FROM ledger_accounts WHERE owner_type = 'human' AND owner_id = ${sessionId}
+  ` as unknown as { currency: string }[];
+  return new Set([ledger.GLITCH, ...rows.map(r => r.currency)]);
+}
+
+/**
+ * Move coins from a human to another human or an AI persona as one entry —
+ * the sender can never be debited without the recipient being credited.
+ */
+export async function sendCoins(
+  sessionId: string,
+  recipient: { type: "human" | "ai_persona"; id: string },
+  amount: number,
+  memos: { sent: string; received: string },
+  idempotencyKey: string = uuidv4(),
+): Promise<{ success: boolean; newBalance: number }> {
+  const from = ledger.humanAccount(sessionId);
+  const to = recipient.type === "human" ? ledger.humanAccount(recipient.id) : ledger.personaAccount(recipient.id);
+  const result = await ledger.transfer(from, to, amount, {
+    idempotencyKey,
+    referenceId: recipient.id,
+    memo: memos.sent,
+    creditMemo: memos.received,
+  });
+  if ("error" in result) {
+    if (!result.insufficient) throw new Error(`sendCoins: ${result.error}`);
+    return { success: false, newBalance: await ledger.getBalance(from) };
+  }
+  return { success: true, newBalance: result.balances[ledger.accountId(from)] ?? 0 };
 }
 
 /** Award coins to an AI persona (separate balance table). */
-export async function awardPersonaCoins(personaId: string, amount: number): Promise<number> {
-  const sql = getDb();
-  await sql`
-    INSERT INTO ai_persona_coins (id, persona_id, balance, lifetime_earned, updated_at)
-    VALUES (${uuidv4()}, ${personaId}, ${amount}, ${amount}, NOW())
-    ON CONFLICT (persona_id) DO UPDATE SET
-      balance = ai_persona_coins.balance + ${amount},
-      lifetime_earned = ai_persona_coins.lifetime_earned + ${amount},
-      updated_at = NOW()
-  `;
-  return amount;
+export async function awardPersonaCoins(
+  personaId: string,
+  amount: number,
+  reason = "Persona reward",
+  idempotencyKey: string = uuidv4(),
+): Promise<number> {
+  const result = await ledger.credit(ledger.personaAccount(personaId), amount, { idempotencyKey, referenceId: personaId, memo: reason });
+  if ("error" in result) throw new Error(`awardPersonaCoins: ${result.error}`);
+  return result.duplicate ? 0 : amount;
 }
 
 /** Get recent coin transactions for a session. */
@@ -174,6 +174,35 @@ export async function sendTelegramPhoto(
   }
 }
 
+/**
+ * Send a plain text message to a specific Telegram chat using a bot token
+ * (e.g. a bestie's own bot messaging its meatbag).
+ */
+export async function sendTelegramText(
+  botToken: string,
+  chatId: string | number,
+  text: string,
+): Promise<TelegramResult> {
+  try {
+    const res = await fetch(`${TELEGRAM_API}/bot${botToken}/sendMessage`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ chat_id: chatId, text }),
+      signal: AbortSignal.timeout(10000),
+    });
+    const data = await res.json();
+    if (!data.ok) {
+      console.error(`[telegram] sendMessage error:`, data.description);
+      return { ok: false, error: data.description };
+    }
+    return { ok: true, messageId: data.result?.message_id };
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[telegram] sendMessage failed:`, msg);
+    return { ok: false, error: msg };
+  }
+}
+
 /**
  * Send a video to a specific Telegram chat using a bot token.
  * Downloads the video first and uploads via multipart/form-data.
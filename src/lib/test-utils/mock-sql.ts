@@ -0,0 +1,44 @@
+/**
+ * Mock SQL tag for unit tests
+ * ===========================
+ * Stands in for `@/lib/db` so tests can assert on the queries a module
+ * issues and script the rows each one returns. Every tagged template is
+ * recorded with its strings joined by "?" (one per interpolated value).
+ *
+ * Usage:
+ *   vi.mock("@/lib/db", () => import("@/lib/test-utils/mock-sql"));
+ *   import { queries, respond, resetMockSql } from "@/lib/test-utils/mock-sql";
+ *
+ *   beforeEach(resetMockSql);
+ *   respond.fn = (q) => (q.includes("FROM posts") ? [{ id: "p1" }] : []);
+ *
+ * Vitest isolates modules per test file, so each file gets its own log.
+ */
+
+export interface RecordedQuery {
+  query: string;
+  values: unknown[];
+}
+
+export type Responder = (query: string, values: unknown[]) => unknown;
+
+/** Every query issued since the last reset, in order. */
+export const queries: RecordedQuery[] = [];
+
+/** Rows to resolve each query with. Defaults to no rows. */
+export const respond: { fn: Responder } = { fn: () => [] };
+
+export function mockSql(strings: TemplateStringsArray, ...values: unknown[]): Promise<unknown> {
+  const query = strings.join("?");
+  queries.push({ query, values });
+  return Promise.resolve(respond.fn(query, values));
+}
+
+/** `@/lib/db` replacement. */
+export const getDb = () => mockSql;
+
+/** Clear the query log and go back to answering every query with no rows. */
+export function resetMockSql(): void {
+  queries.length = 0;
+  respond.fn = () => [];
+}
@@ -0,0 +1,172 @@
+/**
+ * Activity Throttle — Unit Tests
+ * ===============================
+ * Schedule curves, per-cron overrides, boost windows, the stale-content
+ * bypass, and schedule parsing.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { respond } from "@/lib/test-utils/mock-sql";
+
+// ── Mock DB ─────────────────────────────────────────────────────────────
+
+let globalThrottle: string | null = "100";
+let lastPostAgeSeconds: number | null = 60;
+let storedSchedule: string | null = null;
+
+vi.mock("@/lib/db", () => import("@/lib/test-utils/mock-sql"));
+
+respond.fn = (query) => {
+  if (query.includes("activity_throttle")) return globalThrottle === null ? [] : [{ value: globalThrottle }];
+  if (query.includes("FROM posts")) return [{ age_seconds: lastPostAgeSeconds }];
+  return [];
+};
+
+vi.mock("@/lib/cache", () => ({
+  cache: { getOrSet: (_k: string, _t: number, fn: () => unknown) => fn(), del: () => {} },
+  TTL: { settings: 0 },
+}));
+
+vi.mock("@/lib/repositories/settings", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/repositories/settings")>();
+  return {
+    ...actual,
+    getThrottleSchedule: async () => actual.parseThrottleSchedule(storedSchedule ? JSON.parse(storedSchedule) : null),
+  };
+});
+
+import { resolveThrottle, decideCronRun, localTime } from "./throttle";
+import { parseThrottleSchedule, DEFAULT_THROTTLE_SCHEDULE } from "@/lib/repositories/settings";
+
+// Tuesday 2026-03-03 03:30 UTC
+const NOW = new Date("2026-03-03T03:30:00Z");
+
+function schedule(overrides: Partial<typeof DEFAULT_THROTTLE_SCHEDULE> = {}) {
+  return parseThrottleSchedule({ ...DEFAULT_THROTTLE_SCHEDULE, ...overrides });
+}
+
+beforeEach(() => {
+  globalThrottle = "100";
+  lastPostAgeSeconds = 60;
+  storedSchedule = null;
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(Math, "random").mockReturnValue(0.5);
+});
+
+describe("localTime", () => {
+  it("reads hour and weekday in the schedule timezone", () => {
+    expect(localTime(NOW, "UTC")).toEqual({ hour: 3, weekday: 2 });
+    // 03:30 UTC Tuesday is 22:30 Monday in New York (EST)
+    expect(localTime(NOW, "America/New_York")).toEqual({ hour: 22, weekday: 1 });
+  });
+});
+
+describe("resolveThrottle", () => {
+  it("passes the global slider through a flat schedule", () => {
+    expect(resolveThrottle("ads", 70, schedule(), NOW).percent).toBe(70);
+  });
+
+  it("scales by hour and weekday curves", () => {
+    const hourly = Array(24).fill(100);
+    hourly[3] = 50;
+    const weekdays = Array(7).fill(100);
+    weekdays[2] = 80;
+    const result = resolveThrottle("ads", 100, schedule({ hourly, weekdays }), NOW);
+    expect(result.percent).toBe(40);
+    expect(result.reason).toContain("Tue 80%");
+    expect(result.reason).toContain("03:00 50%");
+  });
+
+  it("caps surge curves at 100%", () => {
+    const hourly = Array(24).fill(200);
+    expect(resolveThrottle("ads", 80, schedule({ hourly }), NOW).percent).toBe(100);
+  });
+
+  it("uses per-cron overrides and can opt them out of the curves", () => {
+    const hourly = Array(24).fill(10);
+    const s = schedule({ hourly, crons: { "x-react": { percent: 30, followSchedule: false }, ads: { percent: 50 } } });
+    expect(resolveThrottle("x-react", 100, s, NOW)).toMatchObject({ percent: 30 });
+    expect(resolveThrottle("ads", 100, s, NOW).percent).toBe(5);
+  });
+
+  it("raises the chance during a matching boost window only", () => {
+    const s = schedule({
+      hourly: Array(24).fill(20),
+      boosts: [
+        { id: "b1", label: "Premiere", startsAt: "2026-03-03T03:00:00Z", endsAt: "2026-03-03T05:00:00Z", percent: 100, crons: ["ads"] },
+        { id: "b2", label: "Later", startsAt: "2026-03-04T00:00:00Z", endsAt: "2026-03-04T02:00:00Z", percent: 100, crons: [] },
+      ],
+    });
+    const boosted = resolveThrottle("ads", 100, s, NOW);
+    expect(boosted.percent).toBe(100);
+    expect(boosted.reason).toContain('boost "Premiere"');
+    expect(resolveThrottle("topics-news", 100, s, NOW).percent).toBe(20);
+  });
+
+  it("never lets a boost override the global pause", () => {
+    const s = schedule({
+      boosts: [{ id: "b", label: "x", startsAt: "2026-03-03T00:00:00Z", endsAt: "2026-03-04T00:00:00Z", percent: 100, crons: [] }],
+    });
+    expect(resolveThrottle("ads", 0, s, NOW)).toEqual({ percent: 0, reason: "global throttle 0% (paused)" });
+  });
+});
+
+describe("decideCronRun", () => {
+  it("runs at full activity without rolling", async () => {
+    const d = await decideCronRun("ads");
+    expect(d.run).toBe(true);
+    expect(Math.random).not.toHaveBeenCalled();
+  });
+
+  it("rolls against the scheduled percentage and explains the result", async () => {
+    globalThrottle = "40";
+    const d = await decideCronRun("ads");
+    expect(d).toMatchObject({ run: false, percent: 40 });
+    expect(d.reason).toContain("rolled 50");
+  });
+
+  it("keeps the stale-content bypass for content crons", async () => {
+    globalThrottle = "10";
+    lastPostAgeSeconds = 3600;
+    const d = await decideCronRun("general-content");
+    expect(d.run).toBe(true);
+    expect(d.reason).toMatch(/stale content bypass \(60m/);
+
+    expect((await decideCronRun("ads")).run).toBe(false);
+  });
+
+  it("skips when a curve takes a cron to 0%", async () => {
+    storedSchedule = JSON.stringify({ hourly: Array(24).fill(0) });
+    lastPostAgeSeconds = 3600;
+    expect(await decideCronRun("general-content")).toMatchObject({ run: false, percent: 0 });
+  });
+});
+
+describe("parseThrottleSchedule", () => {
+  it("falls back to a flat UTC schedule", () => {
+    expect(parseThrottleSchedule(null)).toEqual(DEFAULT_THROTTLE_SCHEDULE);
+    expect(parseThrottleSchedule({ timezone: "Not/AZone", hourly: [1, 2, 3] })).toEqual(DEFAULT_THROTTLE_SCHEDULE);
+  });
+
+  it("clamps curve values and override percentages", () => {
+    const s = parseThrottleSchedule({
+      weekdays: [-5, 50, 300, 100, 100, 100, "x"],
+      crons: { ads: { percent: 150, followSchedule: false }, topics: { percent: "" } },
+    });
+    expect(s.weekdays).toEqual([0, 50, 200, 100, 100, 100, 100]);
+    expect(s.crons).toEqual({ ads: { percent: 100, followSchedule: false }, topics: {} });
+  });
+
+  it("drops invalid boosts and sorts the rest by start", () => {
+    const s = parseThrottleSchedule({
+      boosts: [
+        { id: "late", startsAt: "2026-05-02T00:00:00Z", endsAt: "2026-05-02T01:00:00Z", percent: 90 },
+        { id: "backwards", startsAt: "2026-05-02T00:00:00Z", endsAt: "2026-05-01T00:00:00Z" },
+        { id: "garbage", startsAt: "soon", endsAt: "later" },
+        { id: "early", startsAt: "2026-05-01T00:00:00Z", endsAt: "2026-05-01T01:00:00Z", crons: ["ads", 3] },
+      ],
+    });
+    expect(s.boosts.map((b) => b.id)).toEqual(["early", "late"]);
+    expect(s.boosts[0]).toMatchObject({ percent: 100, crons: ["ads"] });
+  });
+});
@@ -1,61 +1,147 @@
 import { getDb } from "@/lib/db";
+import { getThrottleSchedule, type ThrottleScheduleConfig } from "@/lib/repositories/settings";
 
 /** Staleness threshold in seconds — if last post is older, bypass throttle */
 const STALE_CONTENT_THRESHOLD_SECONDS = 2700; // 45 minutes
 
+/** Crons that bypass the throttle when the feed goes stale */
+const CONTENT_CRONS = ["general-content", "persona-content", "channel-content"];
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export interface ThrottleDecision {
+  run: boolean;
+  /** Effective chance of running, 0–100 */
+  percent: number;
+  /** Human-readable explanation, stored on the cron_runs row */
+  reason: string;
+}
+
+/** Local hour (0–23) and weekday (0 = Sunday) of `now` in `timezone`. */
+export function localTime(now: Date, timezone: string): { hour: number; weekday: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hour: "numeric",
+    hourCycle: "h23",
+    weekday: "short",
+  }).formatToParts(now);
+  const hour = Number(parts.find((p) => p.type === "hour")?.value ?? 0) % 24;
+  const weekday = WEEKDAYS.indexOf(parts.find((p) => p.type === "weekday")?.value ?? "Sun");
+  return { hour, weekday: Math.max(0, weekday) };
+}
+
 /**
- * Check the global activity throttle and decide if a cron job should run.
- * Returns true if the job should proceed, false if it should skip.
+ * Work out a cron's chance of running right now, before any dice roll.
  *
- * At 100% throttle: always runs
- * At 50% throttle: ~50% chance of running
- * At 0% throttle: never runs (paused)
+ *   base      — global activity slider, or the cron's own override
+ *   × curves  — hour-of-day and day-of-week multipliers in the schedule's
+ *               timezone (skipped for overrides with followSchedule: false)
+ *   ↑ boost   — an active boost window covering this cron raises it
  *
- * STALENESS BYPASS: Content-generating crons (general-content, persona-content)
- * automatically bypass throttle if the last post is older than 45 minutes.
- * This prevents the platform from going silent due to unlucky throttle rolls.
+ * A global throttle of 0 is the platform-wide pause and beats everything.
  */
-export async function shouldRunCron(cronName: string): Promise<boolean> {
+export function resolveThrottle(
+  cronName: string,
+  globalThrottle: number,
+  schedule: ThrottleScheduleConfig,
+  now: Date = new Date(),
+): { percent: number; reason: string } {
+  if (globalThrottle <= 0) return { percent: 0, reason: "global throttle 0% (paused)" };
+
+  const override = schedule.crons[cronName];
+  const base = override?.percent ?? Math.min(100, globalThrottle);
+  const baseLabel = override?.percent !== undefined ? `${cronName} override ${base}%` : `global ${base}%`;
+
+  let percent = base;
+  let reason = baseLabel;
+  if (override?.followSchedule !== false) {
+    const { hour, weekday } = localTime(now, schedule.timezone);
+    const hourMul = schedule.hourly[hour] ?? 100;
+    const dayMul = schedule.weekdays[weekday] ?? 100;
+    if (hourMul !== 100 || dayMul !== 100) {
+      percent = Math.min(100, Math.round(base * (hourMul / 100) * (dayMul / 100)));
+      reason = `${baseLabel} × ${WEEKDAYS[weekday]} ${dayMul}% × ${String(hour).padStart(2, "0")}:00 ${hourMul}% (${schedule.timezone})`;
+    }
+  }
+
+  const nowMs = now.getTime();
+  const boost = schedule.boosts
+    .filter((b) => Date.parse(b.startsAt) <= nowMs && nowMs < Date.parse(b.endsAt))
+    .filter((b) => b.crons.length === 0 || b.crons.includes(cronName))
+    .sort((a, b) => b.percent - a.percent)[0];
+  if (boost && boost.percent > percent) {
+    return { percent: boost.percent, reason: `boost "${boost.label || boost.id}" ${boost.percent}% (scheduled: ${reason} = ${percent}%)` };
+  }
+
+  return { percent, reason: `${reason} = ${percent}%` };
+}
+
+/**
+ * Decide whether a cron job should run this time, and why.
+ *
+ * At 100%: always runs
+ * At 50%: ~50% chance of running
+ * At 0%: never runs (paused)
+ *
+ * STALENESS BYPASS: Content-generating crons (general-content, persona-content,
+ * channel-content) automatically bypass throttle if the last post is older
+ * than 45 minutes. This prevents the platform from going silent due to
+ * unlucky throttle rolls or a quiet-hours curve.
+ */
+export async function decideCronRun(cronName: string): Promise<ThrottleDecision> {
+  let decision: ThrottleDecision;
   try {
     const sql = getDb();
-    const rows = await sql`
-      SELECT value FROM platform_settings WHERE key = 'activity_throttle'
-    `;
+    const [rows, schedule] = await Promise.all([
+      sql`SELECT value FROM platform_settings WHERE key = 'activity_throttle'`,
+      getThrottleSchedule(),
+    ]);
     const throttle = rows.length > 0 ? Number(rows[0].value) : 100;
+    const { percent, reason } = resolveThrottle(cronName, throttle, schedule);
 
-    if (throttle >= 100) return true;
-    if (throttle <= 0) {
-      console.log(`[${cronName}] Skipped — activity throttle is 0% (paused)`);
-      return false;
-    }
+    if (percent >= 100) {
+      decision = { run: true, percent, reason };
+    } else if (percent <= 0) {
+      decision = { run: false, percent, reason };
+    } else {
+      let staleMinutes: number | null = null;
+      if (CONTENT_CRONS.includes(cronName)) {
+        try {
+          const lastPostRows = await sql`
+            SELECT EXTRACT(EPOCH FROM (NOW() - MAX(created_at)))::int as age_seconds
+            FROM posts WHERE is_reply_to IS NULL
+          ` as unknown as { age_seconds: number | null }[];
 
-    // Staleness bypass for content-generating crons
-    const contentCrons = ["general-content", "persona-content", "channel-content"];
-    if (contentCrons.includes(cronName)) {
-      try {
-        const lastPostRows = await sql`
-          SELECT EXTRACT(EPOCH FROM (NOW() - MAX(created_at)))::int as age_seconds
-          FROM posts WHERE is_reply_to IS NULL
-        ` as unknown as { age_seconds: number | null }[];
-
-        const ageSeconds = lastPostRows[0]?.age_seconds;
-        if (ageSeconds !== null && ageSeconds > STALE_CONTENT_THRESHOLD_SECONDS) {
-          console.log(`[${cronName}] Bypassing throttle — content stale (${Math.round(ageSeconds / 60)}m since last post, threshold: ${STALE_CONTENT_THRESHOLD_SECONDS / 60}m)`);
-          return true;
+          const ageSeconds = lastPostRows[0]?.age_seconds;
+          if (ageSeconds !== null && ageSeconds > STALE_CONTENT_THRESHOLD_SECONDS) {
+            staleMinutes = Math.round(ageSeconds / 60);
+          }
+        } catch {
+          // If staleness check fails, fall through to normal throttle logic
         }
-      } catch {
-        // If staleness check fails, fall through to normal throttle logic
       }
-    }
 
-    const roll = Math.random() * 100;
-    const shouldRun = roll < throttle;
-    if (!shouldRun) {
-      console.log(`[${cronName}] Skipped — throttle ${throttle}% (rolled ${Math.round(roll)})`);
+      if (staleMinutes !== null) {
+        decision = {
+          run: true,
+          percent,
+          reason: `stale content bypass (${staleMinutes}m since last post, threshold ${STALE_CONTENT_THRESHOLD_SECONDS / 60}m); ${reason}`,
+        };
+      } else {
+        const roll = Math.random() * 100;
+        decision = { run: roll < percent, percent, reason: `${reason}, rolled ${Math.round(roll)}` };
+      }
     }
-    return shouldRun;
   } catch {
-    // If we can't read the setting, default to running
-    return true;
+    // If we can't read the settings, default to running
+    decision = { run: true, percent: 100, reason: "throttle settings unavailable — running" };
   }
+
+  console.log(`[${cronName}] Throttle ${decision.run ? "run" : "skip"} — ${decision.reason}`);
+  return decision;
+}
+
+/** Boolean shorthand for {@link decideCronRun}. */
+export async function shouldRunCron(cronName: string): Promise<boolean> {
+  return (await decideCronRun(cronName)).run;
 }
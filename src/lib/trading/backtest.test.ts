@@ -0,0 +1,120 @@
+/**
+ * Trading Backtester — Unit Tests
+ * ================================
+ * Seeded determinism, synthetic paths, override resolution, market impact
+ * and cleaning of admin-supplied overrides.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({ getDb: vi.fn() }));
+
+import {
+  parseOverrides,
+  resolvePersonality,
+  runBacktest,
+  syntheticPrices,
+  type SimPersona,
+} from "./backtest";
+
+const personas: SimPersona[] = [
+  { id: "glitch-047", displayName: "ElonBot", personaType: "tech" },
+  { id: "glitch-001", displayName: "CH4OS", personaType: "troll" },
+  { id: "glitch-003", displayName: "Swinger", personaType: "influencer" },
+  { id: "nobody", displayName: "Default", personaType: "unknown" },
+];
+
+const prices = syntheticPrices({ startPrice: 0.00004, steps: 120, volatility: 0.03, seed: 7 });
+
+describe("syntheticPrices", () => {
+  it("is seeded, positive and spaced by the step", () => {
+    const again = syntheticPrices({ startPrice: 0.00004, steps: 120, volatility: 0.03, seed: 7 });
+    expect(again).toEqual(prices);
+    expect(prices).toHaveLength(120);
+    expect(prices[0].price).toBe(0.00004);
+    expect(prices.every(p => p.price > 0)).toBe(true);
+    expect(prices[1].time - prices[0].time).toBe(60 * 60_000);
+  });
+
+  it("follows the drift when there is no volatility", () => {
+    const path = syntheticPrices({ startPrice: 1, steps: 11, drift: 0.01, volatility: 0 });
+    expect(path[10].price).toBeCloseTo(Math.exp(0.1), 10);
+  });
+});
+
+describe("resolvePersonality", () => {
+  it("applies strategy overrides, then persona overrides", () => {
+    const persona = personas[0];
+    const base = resolvePersonality(persona);
+    const resolved = resolvePersonality(persona, {
+      strategies: { [base.strategy]: { tradeFrequency: 1, bias: 0 } },
+      personas: { [persona.id]: { bias: -1 } },
+    });
+
+    expect(resolved).toMatchObject({ strategy: base.strategy, tradeFrequency: 1, bias: -1 });
+    expect(resolved.maxTradePercent).toBe(base.maxTradePercent);
+  });
+});
+
+describe("runBacktest", () => {
+  it("produces the same report for the same inputs", () => {
+    expect(runBacktest({ prices, personas })).toEqual(runBacktest({ prices, personas }));
+    expect(runBacktest({ prices, personas, seed: 1 })).not.toEqual(runBacktest({ prices, personas, seed: 2 }));
+  });
+
+  it("keeps the books straight per persona and per strategy", () => {
+    const report = runBacktest({ prices, personas });
+
+    expect(report.steps).toBe(120);
+    expect(report.totals.trades).toBeGreaterThan(0);
+    for (const p of report.personas) {
+      expect(p.buys + p.sells).toBe(p.trades);
+      expect(p.pnlSol).toBeCloseTo(p.endEquitySol - p.startEquitySol, 5);
+      expect(p.maxDrawdownPct).toBeGreaterThanOrEqual(0);
+    }
+    const strategyTrades = report.strategies.reduce((s, r) => s + r.trades, 0);
+    expect(strategyTrades).toBe(report.totals.trades);
+  });
+
+  it("lets overrides change the outcome", () => {
+    const idle = runBacktest({
+      prices,
+      personas,
+      overrides: { strategies: Object.fromEntries(personas.map(p => [resolvePersonality(p).strategy, { tradeFrequency: 0 }])) },
+    });
+
+    expect(idle.totals.trades).toBe(0);
+    for (const p of idle.personas) expect(p.vsHoldSol).toBeCloseTo(0, 9);
+  });
+
+  it("moves the market in the direction of the flow", () => {
+    const flat = syntheticPrices({ startPrice: 0.00004, steps: 5, volatility: 0 });
+    const buyer = { strategies: { [resolvePersonality(personas[3]).strategy]: { tradeFrequency: 100, bias: 1, maxTradePercent: 100 } } };
+    const seller = { strategies: { [resolvePersonality(personas[3]).strategy]: { tradeFrequency: 100, bias: -1, maxTradePercent: 100 } } };
+
+    const up = runBacktest({ prices: flat, personas: [personas[3]], overrides: buyer, liquidityGlitch: 100_000 });
+    const down = runBacktest({ prices: flat, personas: [personas[3]], overrides: seller, liquidityGlitch: 100_000 });
+
+    expect(up.personas[0].buys).toBeGreaterThan(0);
+    expect(up.personas[0].impactPct).toBeGreaterThan(0);
+    expect(up.endPrice).toBeGreaterThan(up.pathEndPrice);
+    expect(down.personas[0].sells).toBeGreaterThan(0);
+    expect(down.personas[0].impactPct).toBeLessThan(0);
+    expect(down.endPrice).toBeLessThan(down.pathEndPrice);
+  });
+});
+
+describe("parseOverrides", () => {
+  it("clamps numbers, drops junk and empty sections", () => {
+    expect(parseOverrides({
+      strategies: {
+        whale: { tradeFrequency: "250", bias: -3, minTradeAmount: "12.7", riskLevel: "reckless", nonsense: 1 },
+        hodl: { tradeFrequency: "", maxTradePercent: "abc" },
+      },
+      personas: "nope",
+    })).toEqual({
+      strategies: { whale: { tradeFrequency: 100, bias: -1, minTradeAmount: 12 } },
+    });
+    expect(parseOverrides(null)).toEqual({});
+  });
+});
@@ -0,0 +1,503 @@
+/**
+ * Trading Personality Backtester
+ * ===============================
+ * Offline simulator: replays a price path — recorded §GLITCH prices, past
+ * matches, or a seeded synthetic walk — through every persona's trading
+ * personality and reports PnL, drawdown, trade counts and market impact per
+ * persona and per strategy. Nothing touches the live book or the ledger, so
+ * parameter tweaks can be tried here before they go live.
+ *
+ * Model, one step = one trading round:
+ *   1. Resting orders fill at their limit once the market reaches it, or
+ *      drop when their TTL runs out.
+ *   2. Each persona rolls planOrder() against the current market price.
+ *      Orders that cross the market fill at once; the rest go on the book.
+ *   3. Every fill pushes the market off the replayed path by
+ *      amount / liquidity (buys up, sells down). The push decays back
+ *      towards the path with a configurable half-life.
+ *
+ * Seeded: the same inputs always produce the same report.
+ */
+
+import { getDb } from "@/lib/db";
+import { getTradingPersonality, planOrder, type TradingPersonality } from "./personalities";
+
+export type TradingParams = Omit<TradingPersonality, "commentaryTemplates">;
+
+export interface PersonalityOverrides {
+  /** Applied to every persona whose base strategy matches the key */
+  strategies?: Record<string, Partial<TradingParams>>;
+  /** Applied last, per persona id */
+  personas?: Record<string, Partial<TradingParams>>;
+}
+
+export interface PricePoint {
+  /** Epoch ms */
+  time: number;
+  /** SOL per §GLITCH */
+  price: number;
+}
+
+export interface SimPersona {
+  id: string;
+  displayName: string;
+  personaType: string;
+}
+
+export interface BacktestOptions {
+  prices: PricePoint[];
+  personas: SimPersona[];
+  overrides?: PersonalityOverrides;
+  seed?: number;
+  /** Every persona starts with the same stack so strategies compare fairly */
+  startingGlitch?: number;
+  startingSol?: number;
+  /** §GLITCH of net flow it takes to move the price 100% */
+  liquidityGlitch?: number;
+  /** Steps for half of a price push to fade back to the path */
+  impactHalfLifeSteps?: number;
+}
+
+export interface PersonaResult {
+  personaId: string;
+  displayName: string;
+  strategy: string;
+  riskLevel: TradingParams["riskLevel"];
+  trades: number;
+  buys: number;
+  sells: number;
+  volumeGlitch: number;
+  volumeSol: number;
+  startEquitySol: number;
+  endEquitySol: number;
+  pnlSol: number;
+  pnlPct: number;
+  /** PnL relative to holding the starting stack untouched */
+  vsHoldSol: number;
+  maxDrawdownPct: number;
+  /** Sum of the price moves this persona's fills caused, in % */
+  impactPct: number;
+}
+
+export interface StrategyResult {
+  strategy: string;
+  personas: number;
+  trades: number;
+  volumeGlitch: number;
+  pnlSol: number;
+  avgPnlPct: number;
+  vsHoldSol: number;
+  worstDrawdownPct: number;
+  impactPct: number;
+}
+
+export interface BacktestReport {
+  steps: number;
+  startPrice: number;
+  /** Market price at the end, after impact */
+  endPrice: number;
+  /** Where the replayed path itself ended */
+  pathEndPrice: number;
+  totals: { trades: number; volumeGlitch: number; volumeSol: number; impactPct: number };
+  strategies: StrategyResult[];
+  personas: PersonaResult[];
+}
+
+export const BACKTEST_DEFAULTS = {
+  seed: 42,
+  startingGlitch: 100_000,
+  startingSol: 5,
+  liquidityGlitch: 5_000_000,
+  impactHalfLifeSteps: 6,
+} as const;
+
+// ── Helpers ─────────────────────────────────────────────────────────────
+
+/** Small seeded PRNG (mulberry32) — uniform in [0, 1). */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Seeded geometric random walk — drift and volatility are per step. */
+export function syntheticPrices(opts: {
+  startPrice: number;
+  steps: number;
+  stepMinutes?: number;
+  drift?: number;
+  volatility?: number;
+  seed?: number;
+  startTime?: number;
+}): PricePoint[] {
+  const rand = seededRandom(opts.seed ?? BACKTEST_DEFAULTS.seed);
+  const stepMs = (opts.stepMinutes ?? 60) * 60_000;
+  const drift = opts.drift ?? 0;
+  const vol = opts.volatility ?? 0.02;
+  const start = opts.startTime ?? 0;
+
+  const points: PricePoint[] = [{ time: start, price: opts.startPrice }];
+  let price = opts.startPrice;
+  for (let i = 1; i < opts.steps; i++) {
+    // Box–Muller: two uniforms → one standard normal
+    const z = Math.sqrt(-2 * Math.log(1 - rand())) * Math.cos(2 * Math.PI * rand());
+    price *= Math.exp(drift - (vol * vol) / 2 + vol * z);
+    points.push({ time: start + i * stepMs, price });
+  }
+  return points;
+}
+
+/** A persona's personality with strategy-level then persona-level overrides applied. */
+export function resolvePersonality(persona: SimPersona, overrides: PersonalityOverrides = {}): TradingPersonality {
+  const base = getTradingPersonality(persona.id, persona.personaType);
+  return {
+    ...base,
+    ...overrides.strategies?.[base.strategy],
+    ...overrides.personas?.[persona.id],
+  };
+}
+
+function medianStepMinutes(prices: PricePoint[]): number {
+  const gaps = prices.slice(1).map((p, i) => p.time - prices[i].time).filter(g => g > 0).sort((a, b) => a - b);
+  if (gaps.length === 0) return 60;
+  return Math.max(gaps[Math.floor(gaps.length / 2)] / 60_000, 1);
+}
+
+const round = (n: number, digits = 6) => Number(n.toFixed(digits));
+
+// ── Simulation ──────────────────────────────────────────────────────────
+
+interface Trader {
+  persona: SimPersona;
+  personality: TradingPersonality;
+  glitch: number;
+  sol: number;
+  reservedGlitch: number;
+  reservedSol: number;
+  startEquity: number;
+  peakEquity: number;
+  maxDrawdown: number;
+  trades: number;
+  buys: number;
+  sells: number;
+  volumeGlitch: number;
+  volumeSol: number;
+  impactPct: number;
+}
+
+interface RestingOrder {
+  trader: Trader;
+  side: "buy" | "sell";
+  amount: number;
+  price: number;
+  expiresAtStep: number;
+}
+
+/** Replay a price path through every persona's personality. Pure and seeded. */
+export function runBacktest(opts: BacktestOptions): BacktestReport {
+  const prices = opts.prices;
+  if (prices.length === 0) throw new Error("runBacktest: empty price path");
+
+  const rand = seededRandom(opts.seed ?? BACKTEST_DEFAULTS.seed);
+  const startingGlitch = opts.startingGlitch ?? BACKTEST_DEFAULTS.startingGlitch;
+  const startingSol = opts.startingSol ?? BACKTEST_DEFAULTS.startingSol;
+  const liquidity = opts.liquidityGlitch ?? BACKTEST_DEFAULTS.liquidityGlitch;
+  const decay = 0.5 ** (1 / (opts.impactHalfLifeSteps ?? BACKTEST_DEFAULTS.impactHalfLifeSteps));
+  const stepMinutes = medianStepMinutes(prices);
+
+  // Market = path price × e^impact, where impact is the log-price push from fills
+  let impact = 0;
+  let step = 0;
+  const market = () => prices[step].price * Math.exp(impact);
+  const startPrice = prices[0].price;
+
+  const traders: Trader[] = opts.personas.map(persona => ({
+    persona,
+    personality: resolvePersonality(persona, opts.overrides),
+    glitch: startingGlitch,
+    sol: startingSol,
+    reservedGlitch: 0,
+    reservedSol: 0,
+    startEquity: startingGlitch * startPrice + startingSol,
+    peakEquity: startingGlitch * startPrice + startingSol,
+    maxDrawdown: 0,
+    trades: 0,
+    buys: 0,
+    sells: 0,
+    volumeGlitch: 0,
+    volumeSol: 0,
+    impactPct: 0,
+  }));
+  let book: RestingOrder[] = [];
+
+  const fill = (t: Trader, side: "buy" | "sell", amount: number, price: number) => {
+    const cost = amount * price;
+    if (side === "buy") {
+      t.glitch += amount;
+      t.sol -= cost;
+      t.buys++;
+    } else {
+      t.glitch -= amount;
+      t.sol += cost;
+      t.sells++;
+    }
+    t.trades++;
+    t.volumeGlitch += amount;
+    t.volumeSol += cost;
+
+    const before = market();
+    impact += (side === "buy" ? 1 : -1) * (amount / liquidity);
+    t.impactPct += ((market() - before) / before) * 100;
+  };
+
+  for (step = 0; step < prices.length; step++) {
+    // 1. Resting orders: fill when the market reaches the limit, drop when stale
+    const stillResting: RestingOrder[] = [];
+    for (const order of book) {
+      const t = order.trader;
+      const crossed = order.side === "buy" ? market() <= order.price : market() >= order.price;
+      if (crossed || step >= order.expiresAtStep) {
+        if (order.side === "buy") t.reservedSol -= order.amount * order.price;
+        else t.reservedGlitch -= order.amount;
+        if (crossed) fill(t, order.side, order.amount, order.price);
+      } else {
+        stillResting.push(order);
+      }
+    }
+    book = stillResting;
+
+    // 2. Each persona decides whether to quote this round
+    for (const t of traders) {
+      const plan = planOrder(t.personality, {
+        refPrice: market(),
+        glitchBalance: t.glitch - t.reservedGlitch,
+        solBalance: t.sol - t.reservedSol,
+      }, rand);
+      if (!plan) continue;
+
+      const crosses = plan.side === "buy" ? plan.price >= market() : plan.price <= market();
+      if (crosses) {
+        fill(t, plan.side, plan.amount, market());
+      } else {
+        if (plan.side === "buy") t.reservedSol += plan.amount * plan.price;
+        else t.reservedGlitch += plan.amount;
+        const ttlSteps = Math.max(1, Math.round(plan.ttlMinutes / stepMinutes));
+        book.push({ trader: t, side: plan.side, amount: plan.amount, price: plan.price, expiresAtStep: step + ttlSteps });
+      }
+    }
+
+    // 3. Mark to market, then let the push fade towards the path
+    for (const t of traders) {
+      const equity = t.glitch * market() + t.sol;
+      t.peakEquity = Math.max(t.peakEquity, equity);
+      if (t.peakEquity > 0) t.maxDrawdown = Math.max(t.maxDrawdown, (t.peakEquity - equity) / t.peakEquity);
+    }
+    if (step < prices.length - 1) impact *= decay;
+  }
+  step = prices.length - 1;
+
+  const endPrice = market();
+  const personas: PersonaResult[] = traders.map(t => {
+    const endEquity = t.glitch * endPrice + t.sol;
+    const holdEquity = startingGlitch * endPrice + startingSol;
+    return {
+      personaId: t.persona.id,
+      displayName: t.persona.displayName,
+      strategy: t.personality.strategy,
+      riskLevel: t.personality.riskLevel,
+      trades: t.trades,
+      buys: t.buys,
+      sells: t.sells,
+      volumeGlitch: t.volumeGlitch,
+      volumeSol: round(t.volumeSol),
+      startEquitySol: round(t.startEquity),
+      endEquitySol: round(endEquity),
+      pnlSol: round(endEquity - t.startEquity),
+      pnlPct: round(t.startEquity > 0 ? ((endEquity - t.startEquity) / t.startEquity) * 100 : 0, 2),
+      vsHoldSol: round(endEquity - holdEquity),
+      maxDrawdownPct: round(t.maxDrawdown * 100, 2),
+      impactPct: round(t.impactPct, 4),
+    };
+  }).sort((a, b) => b.pnlSol - a.pnlSol);
+
+  const byStrategy = new Map<string, PersonaResult[]>();
+  for (const p of personas) byStrategy.set(p.strategy, [...(byStrategy.get(p.strategy) ?? []), p]);
+  const strategies: StrategyResult[] = [...byStrategy.entries()].map(([strategy, members]) => ({
+    strategy,
+    personas: members.length,
+    trades: members.reduce((s, p) => s + p.trades, 0),
+    volumeGlitch: members.reduce((s, p) => s + p.volumeGlitch, 0),
+    pnlSol: round(members.reduce((s, p) => s + p.pnlSol, 0)),
+    avgPnlPct: round(members.reduce((s, p) => s + p.pnlPct, 0) / members.length, 2),
+    vsHoldSol: round(members.reduce((s, p) => s + p.vsHoldSol, 0)),
+    worstDrawdownPct: Math.max(...members.map(p => p.maxDrawdownPct)),
+    impactPct: round(members.reduce((s, p) => s + p.impactPct, 0), 4),
+  })).sort((a, b) => b.pnlSol - a.pnlSol);
+
+  return {
+    steps: prices.length,
+    startPrice,
+    endPrice: round(endPrice, 12),
+    pathEndPrice: prices[prices.length - 1].price,
+    totals: {
+      trades: personas.reduce((s, p) => s + p.trades, 0),
+      volumeGlitch: personas.reduce((s, p) => s + p.volumeGlitch, 0),
+      volumeSol: round(personas.reduce((s, p) => s + p.volumeSol, 0)),
+      impactPct: round(((endPrice - prices[prices.length - 1].price) / prices[prices.length - 1].price) * 100, 4),
+    },
+    strategies,
+    personas,
+  };
+}
+
+// ── Data ────────────────────────────────────────────────────────────────
+
+export type PriceSource = "price_history" | "trades";
+
+/**
+ * A recorded price path: `price_history` reads glitch_price_history;
+ * `trades` takes hourly closes of exchange matches plus legacy ai_trades.
+ */
+export async function loadPricePath(source: PriceSource, days: number): Promise<PricePoint[]> {
+  const sql = getDb();
+  const rows = source === "price_history"
+    ? await sql`
+        SELECT recorded_at AS time, price_sol AS price
+        FROM glitch_price_history
+        WHERE recorded_at > NOW() - ${days} * INTERVAL '1 day' AND price_sol > 0
+        ORDER BY recorded_at ASC
+      `
+    : await sql`
+        WITH trades AS (
+          SELECT created_at, price FROM exchange_trades
+          UNION ALL
+          SELECT created_at, price_per_glitch FROM ai_trades
+        )
+        SELECT date_trunc('hour', created_at) AS time, (array_agg(price ORDER BY created_at DESC))[1] AS price
+        FROM trades
+        WHERE created_at > NOW() - ${days} * INTERVAL '1 day' AND price > 0
+        GROUP BY date_trunc('hour', created_at)
+        ORDER BY time ASC
+      `;
+  return rows.map(r => ({ time: new Date(r.time as string).getTime(), price: Number(r.price) }));
+}
+
+/** Every active persona, as the simulator sees them. */
+export async function loadPersonas(): Promise<SimPersona[]> {
+  const sql = getDb();
+  const rows = await sql`
+    SELECT id, display_name, persona_type FROM ai_personas WHERE is_active = TRUE ORDER BY id
+  ` as unknown as { id: string; display_name: string; persona_type: string }[];
+  return rows.map(r => ({ id: r.id, displayName: r.display_name, personaType: r.persona_type }));
+}
+
+const RISK_LEVELS: TradingParams["riskLevel"][] = ["low", "medium", "high", "yolo"];
+
+function parseParams(raw: unknown): Partial<TradingParams> {
+  if (!raw || typeof raw !== "object") return {};
+  const r = raw as Record<string, unknown>;
+  const num = (v: unknown, min: number, max: number) =>
+    v === "" || v == null || !Number.isFinite(Number(v)) ? undefined : Math.min(Math.max(Number(v), min), max);
+
+  const params: Partial<TradingParams> = {};
+  if (typeof r.strategy === "string" && r.strategy.trim()) params.strategy = r.strategy.trim();
+  if (RISK_LEVELS.includes(r.riskLevel as TradingParams["riskLevel"])) params.riskLevel = r.riskLevel as TradingParams["riskLevel"];
+  const tradeFrequency = num(r.tradeFrequency, 0, 100);
+  if (tradeFrequency !== undefined) params.tradeFrequency = tradeFrequency;
+  const maxTradePercent = num(r.maxTradePercent, 0, 100);
+  if (maxTradePercent !== undefined) params.maxTradePercent = maxTradePercent;
+  const minTradeAmount = num(r.minTradeAmount, 0, Number.MAX_SAFE_INTEGER);
+  if (minTradeAmount !== undefined) params.minTradeAmount = Math.floor(minTradeAmount);
+  const bias = num(r.bias, -1, 1);
+  if (bias !== undefined) params.bias = bias;
+  return params;
+}
+
+/** Clean admin-supplied overrides: unknown keys dropped, numbers clamped to their ranges. */
+export function parseOverrides(raw: unknown): PersonalityOverrides {
+  const section = (v: unknown) => {
+    if (!v || typeof v !== "object") return undefined;
+    const entries = Object.entries(v as Record<string, unknown>)
+      .map(([key, params]) => [key, parseParams(params)] as const)
+      .filter(([, params]) => Object.keys(params).length > 0);
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  };
+  const overrides: PersonalityOverrides = {};
+  const strategies = section((raw as PersonalityOverrides | null)?.strategies);
+  const personas = section((raw as PersonalityOverrides | null)?.personas);
+  if (strategies) overrides.strategies = strategies;
+  if (personas) overrides.personas = personas;
+  return overrides;
+}
+
+export interface BacktestRequest {
+  source: PriceSource | "synthetic";
+  /** Lookback for recorded sources */
+  days?: number;
+  synthetic?: { startPrice?: number; steps?: number; drift?: number; volatility?: number };
+  overrides?: PersonalityOverrides;
+  seed?: number;
+  startingGlitch?: number;
+  startingSol?: number;
+  liquidityGlitch?: number;
+}
+
+export interface BacktestComparison {
+  source: BacktestRequest["source"];
+  baseline: BacktestReport;
+  /** Same path and seed with the overrides applied — absent when there are none */
+  candidate: BacktestReport | null;
+  /** Current (un-overridden) parameters, one representative per strategy */
+  strategyDefaults: Record<string, TradingParams>;
+}
+
+/**
+ * Load a price path and the active personas, then run the current
+ * personalities and — if overrides were given — the candidate ones over the
+ * exact same path and seed, so the two reports compare like for like.
+ */
+export async function backtest(req: BacktestRequest, fallbackPrice: number): Promise<BacktestComparison | { error: string }> {
+  const days = Math.min(Math.max(req.days ?? 7, 1), 90);
+  const prices = req.source === "synthetic"
+    ? syntheticPrices({
+      startPrice: req.synthetic?.startPrice ?? fallbackPrice,
+      steps: Math.min(Math.max(req.synthetic?.steps ?? 168, 2), 2000),
+      drift: req.synthetic?.drift,
+      volatility: req.synthetic?.volatility,
+      seed: req.seed,
+    })
+    : await loadPricePath(req.source, days);
+  if (prices.length < 2) return { error: `Not enough ${req.source === "trades" ? "trade" : "price"} history in the last ${days} days — try a synthetic path` };
+
+  const personas = await loadPersonas();
+  if (personas.length === 0) return { error: "No active personas to simulate" };
+
+  const options: BacktestOptions = {
+    prices,
+    personas,
+    seed: req.seed,
+    startingGlitch: req.startingGlitch === undefined ? undefined : Math.max(req.startingGlitch, 0),
+    startingSol: req.startingSol === undefined ? undefined : Math.max(req.startingSol, 0),
+    liquidityGlitch: req.liquidityGlitch === undefined ? undefined : Math.max(req.liquidityGlitch, 1_000),
+  };
+  const overrides = parseOverrides(req.overrides);
+  const hasOverrides = Object.keys(overrides).length > 0;
+
+  const strategyDefaults: Record<string, TradingParams> = {};
+  for (const persona of personas) {
+    const { strategy, riskLevel, tradeFrequency, maxTradePercent, minTradeAmount, bias } = resolvePersonality(persona);
+    strategyDefaults[strategy] ??= { strategy, riskLevel, tradeFrequency, maxTradePercent, minTradeAmount, bias };
+  }
+
+  return {
+    source: req.source,
+    baseline: runBacktest(options),
+    candidate: hasOverrides ? runBacktest({ ...options, overrides }) : null,
+    strategyDefaults,
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * Exchange Service — Unit Tests
+ * ==============================
+ * Escrow on placement, claiming resting orders, settlement out of escrow,
+ * rematching when the book moves, and cancels returning unused funds.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { queries, respond, resetMockSql } from "@/lib/test-utils/mock-sql";
+
+const { ledger, transfers } = vi.hoisted(() => ({
+  ledger: {
+    /** Make the escrow posting fail as an overdraw */
+    insufficient: false,
+  },
+  transfers: [] as { from: string; to: string; amount: number; key: string }[],
+}));
+
+vi.mock("@/lib/db", () => import("@/lib/test-utils/mock-sql"));
+
+vi.mock("@/lib/ledger", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/ledger")>();
+  return {
+    ...actual,
+    transfer: vi.fn(async (from, to, amount, opts) => {
+      transfers.push({ from: actual.accountId(from), to: actual.accountId(to), amount, key: opts.idempotencyKey });
+      if (opts.idempotencyKey.endsWith(":escrow") && ledger.insufficient) {
+        return { error: "Insufficient balance", insufficient: true };
+      }
+      return { entryId: "entry", duplicate: false, balances: {} };
+    }),
+  };
+});
+
+vi.mock("@/lib/repositories/trading", () => ({ bustCache: vi.fn(), getLastPrice: vi.fn() }));
+vi.mock("@/lib/repositories/settings", () => ({ getPrices: vi.fn() }));
+
+import { cancelOrder, placeOrder, validateOrder } from "./exchange";
+
+const pendingRow = (values: unknown[]) => ({
+  id: values[0], owner_type: values[1], session_id: values[2], order_type: values[4],
+  amount: values[5], price_per_coin: values[6], filled_amount: 0,
+  escrow_lamports: values[8], spent_lamports: 0, status: "pending", seq: 50, expires_at: null,
+});
+
+const ask = {
+  id: "ask-1", owner_type: "ai_persona", session_id: "glitch-001", order_type: "sell",
+  amount: 100, filled_amount: 0, price_per_coin: 0.00004, escrow_lamports: 0, spent_lamports: 0,
+  status: "open", seq: 7, expires_at: null,
+};
+
+let taker: Record<string, unknown> = {};
+
+beforeEach(() => {
+  resetMockSql();
+  transfers.length = 0;
+  ledger.insufficient = false;
+  taker = {};
+});
+
+describe("validateOrder", () => {
+  const base = { owner: { type: "human" as const, id: "sess-1" }, side: "buy" as const, amount: 10, price: 0.00004 };
+
+  it("accepts a sane order", () => {
+    expect(validateOrder(base)).toBeNull();
+  });
+
+  it("rejects fractional amounts, bad prices and silly expiries", () => {
+    expect(validateOrder({ ...base, amount: 1.5 })).toBe("Amount must be a whole number of §GLITCH");
+    expect(validateOrder({ ...base, price: 0 })).toBe("Price must be a positive number of SOL");
+    expect(validateOrder({ ...base, ttlMinutes: 0 })).toMatch(/^Expiry must be between/);
+    expect(validateOrder({ ...base, side: "hold" as never })).toBe("Side must be buy or sell");
+  });
+});
+
+describe("placeOrder", () => {
+  it("rejects the order when the escrow can't be funded", async () => {
+    ledger.insufficient = true;
+    respond.fn = (q, v) => (q.includes("INSERT INTO exchange_orders") ? [pendingRow(v)] : []);
+
+    const result = await placeOrder({ owner: { type: "human", id: "sess-1" }, side: "sell", amount: 500, price: 0.00004 });
+
+    expect(result).toEqual({ error: "Insufficient §GLITCH balance", insufficient: true });
+    expect(queries.some(q => q.query.includes("SET status = 'rejected'"))).toBe(true);
+    expect(queries.some(q => q.query.includes("WITH maker AS"))).toBe(false);
+  });
+
+  it("fills against a resting ask at the ask's price and refunds the price improvement", async () => {
+    respond.fn = (q, v) => {
+      if (q.includes("INSERT INTO exchange_orders")) return [(taker = pendingRow(v))];
+      if (q.includes("SELECT * FROM exchange_orders") && q.includes("price_per_coin <=")) return [ask];
+      if (q.includes("WITH maker AS")) return [{ ...ask, filled_amount: 100, status: "filled" }];
+      if (q.includes("SELECT id FROM ledger_entries")) return [{ id: "lock" }];
+      if (q.includes("WHERE id = ?\n    RETURNING *")) return [{ ...taker, filled_amount: 100, spent_lamports: 4_000_000, status: "filled" }];
+      return [];
+    };
+
+    const result = await placeOrder({ owner: { type: "human", id: "sess-1" }, side: "buy", amount: 100, price: 0.00005 });
+
+    if ("error" in result) throw new Error(result.error);
+    expect(result.order.status).toBe("filled");
+    expect(result.fills).toEqual([{ makerId: "ask-1", takerId: taker.id, price: 0.00004, amount: 100, quoteLamports: 4_000_000 }]);
+    expect(transfers.map(t => [t.from, t.to, t.amount])).toEqual([
+      ["SOL:human:sess-1", "SOL:system:exchange_escrow", 5_000_000],        // escrow at the limit
+      ["GLITCH:system:exchange_escrow", "GLITCH:human:sess-1", 100],        // buyer gets §GLITCH
+      ["SOL:system:exchange_escrow", "SOL:ai_persona:glitch-001", 4_000_000], // seller gets SOL
+      ["SOL:system:exchange_escrow", "SOL:human:sess-1", 1_000_000],        // unused escrow back
+    ]);
+    const trade = queries.find(q => q.query.includes("INSERT INTO exchange_trades"))!;
+    expect(trade.values).toEqual(expect.arrayContaining(["ask-1", "buy", 0.00004, 100, 4_000_000]));
+  });
+
+  it("reloads the book when a resting order was taken by someone else", async () => {
+    let loads = 0;
+    let claims = 0;
+    const ask2 = { ...ask, id: "ask-2", session_id: "glitch-002", seq: 8 };
+    respond.fn = (q, v) => {
+      if (q.includes("INSERT INTO exchange_orders")) return [(taker = pendingRow(v))];
+      if (q.includes("SELECT * FROM exchange_orders") && q.includes("price_per_coin <=")) return ++loads === 1 ? [ask, ask2] : [ask2];
+      if (q.includes("WITH maker AS")) return ++claims === 1 ? [] : [{ ...ask2, filled_amount: 50, status: "partial" }];
+      if (q.includes("WHERE id = ?\n    RETURNING *")) return [{ ...taker, filled_amount: 50, status: "partial" }];
+      return [];
+    };
+
+    const result = await placeOrder({ owner: { type: "human", id: "sess-1" }, side: "buy", amount: 50, price: 0.00004 });
+
+    if ("error" in result) throw new Error(result.error);
+    expect(loads).toBe(2);
+    expect(result.fills.map(f => f.makerId)).toEqual(["ask-2"]);
+  });
+});
+
+describe("cancelOrder", () => {
+  it("returns the unfilled §GLITCH of a sell order", async () => {
+    respond.fn = (q) => {
+      if (q.includes("SELECT id FROM exchange_orders")) return [{ id: "ask-1" }];
+      if (q.includes("UPDATE exchange_orders SET status")) return [{ ...ask, filled_amount: 30, status: "cancelled" }];
+      if (q.includes("SELECT id FROM ledger_entries")) return [{ id: "lock" }];
+      return [];
+    };
+
+    const result = await cancelOrder("ask-1", { type: "ai_persona", id: "glitch-001" });
+
+    expect(result).toMatchObject({ order: { status: "cancelled" } });
+    expect(transfers).toEqual([{
+      from: "GLITCH:system:exchange_escrow", to: "GLITCH:ai_persona:glitch-001", amount: 70, key: "exchange:ask-1:release",
+    }]);
+  });
+
+  it("refuses someone else's order", async () => {
+    expect(await cancelOrder("ask-1", { type: "human", id: "sess-1" })).toEqual({ error: "Order not found" });
+    expect(transfers).toHaveLength(0);
+  });
+});
@@ -0,0 +1,479 @@
+/**
+ * GLITCH/SOL Exchange — resting limit orders
+ * ===========================================
+ * Meatbags and AI personas place limit orders into one book. Matching rules
+ * live in ./matching.ts (pure); this module persists what they decide.
+ *
+ * Order lifecycle (exchange_orders.status):
+ *   pending → open | partial | filled        while the incoming order matches
+ *   open | partial → filled | cancelled | expired
+ *   pending → rejected                       escrow failed (insufficient funds)
+ *
+ * Funds: placing an order escrows what it could spend through the ledger
+ * (`@/lib/ledger`) — §GLITCH for a sell, SOL lamports for a buy — into
+ * system:exchange_escrow. Each match pays both sides out of escrow; whatever
+ * an order didn't use comes back when it's filled, cancelled or expired.
+ * No Solana transactions are involved.
+ *
+ * Concurrency: an incoming order stays `pending` (unmatchable, uncancellable)
+ * until it's done matching, so only its own call touches it. Claiming a
+ * resting order is one conditional UPDATE; if someone else got there first
+ * the book is reloaded and matched again. Every ledger posting has an
+ * idempotency key, so sweep() can safely finish settlements a crash left
+ * behind.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { getDb } from "@/lib/db";
+import * as ledger from "@/lib/ledger";
+import { bustCache, getLastPrice } from "@/lib/repositories/trading";
+import { getPrices } from "@/lib/repositories/settings";
+import {
+  escrowLamports,
+  matchOrder,
+  normalizePrice,
+  oppositeSide,
+  type BookOrder,
+  type Fill,
+  type OrderOwnerType,
+  type OrderSide,
+} from "./matching";
+import { generateTradeCommentary, getTradingPersonality, planOrder } from "./personalities";
+
+export type OrderStatus = "pending" | "open" | "partial" | "filled" | "cancelled" | "expired" | "rejected";
+
+export interface OrderOwner {
+  type: OrderOwnerType;
+  id: string;
+}
+
+export interface ExchangeOrder {
+  id: string;
+  owner_type: OrderOwnerType;
+  /** Session id for humans, persona id for AI personas */
+  session_id: string;
+  wallet_address: string;
+  order_type: OrderSide;
+  amount: number;
+  filled_amount: number;
+  price_per_coin: number;
+  total_sol: number;
+  escrow_lamports: number;
+  spent_lamports: number;
+  status: OrderStatus;
+  seq: number;
+  expires_at: string | null;
+  commentary: string | null;
+  strategy: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PlaceOrderInput {
+  owner: OrderOwner;
+  side: OrderSide;
+  /** Whole §GLITCH */
+  amount: number;
+  /** Limit price, SOL per §GLITCH */
+  price: number;
+  /** Defaults to DEFAULT_ORDER_TTL_MINUTES */
+  ttlMinutes?: number;
+  walletAddress?: string | null;
+  commentary?: string | null;
+  strategy?: string | null;
+}
+
+export type PlaceOrderResult =
+  | { order: ExchangeOrder; fills: Fill[] }
+  | { error: string; insufficient?: boolean };
+
+export interface SweepResult {
+  expired: number;
+  abandoned: number;
+  settled: number;
+}
+
+export interface AiOrderResult {
+  personaId: string;
+  side: OrderSide;
+  amount: number;
+  price: number;
+  status?: OrderStatus;
+  filled?: number;
+  error?: string;
+}
+
+export const DEFAULT_ORDER_TTL_MINUTES = 3 * 24 * 60;
+export const MAX_ORDER_TTL_MINUTES = 30 * 24 * 60;
+export const MAX_ORDER_GLITCH = 100_000_000;
+
+/** Resting orders loaded per matching round */
+const MATCH_BATCH = 100;
+/** Reload-and-rematch rounds before the remainder just rests */
+const MAX_MATCH_ROUNDS = 5;
+/** A pending order older than this was abandoned mid-match */
+const PENDING_TIMEOUT_MINUTES = 10;
+
+const SOL = "SOL";
+const LIVE = ["open", "partial"];
+
+const ownerAccount = (owner: OrderOwner, currency: string): ledger.LedgerAccountRef =>
+  owner.type === "human" ? ledger.humanAccount(owner.id, currency) : ledger.personaAccount(owner.id, currency);
+
+const escrowAccount = (currency: string): ledger.LedgerAccountRef =>
+  ({ ...ledger.SYSTEM_ACCOUNTS.exchangeEscrow, currency });
+
+const orderOwner = (order: ExchangeOrder): OrderOwner => ({ type: order.owner_type, id: order.session_id });
+
+function toBookOrder(row: ExchangeOrder): BookOrder {
+  return {
+    id: row.id,
+    side: row.order_type,
+    price: Number(row.price_per_coin),
+    remaining: Number(row.amount) - Number(row.filled_amount),
+    seq: Number(row.seq),
+    ownerType: row.owner_type,
+    ownerId: row.session_id,
+    expiresAt: row.expires_at ? new Date(row.expires_at).getTime() : null,
+  };
+}
+
+/** Why an order can't be placed, or null when it's fine. */
+export function validateOrder(input: PlaceOrderInput): string | null {
+  if (!input.owner?.id) return "Missing order owner";
+  if (input.side !== "buy" && input.side !== "sell") return "Side must be buy or sell";
+  if (!Number.isSafeInteger(input.amount) || input.amount < 1) return "Amount must be a whole number of §GLITCH";
+  if (input.amount > MAX_ORDER_GLITCH) return `Amount can't exceed ${MAX_ORDER_GLITCH.toLocaleString()} §GLITCH`;
+  if (!Number.isFinite(input.price) || input.price <= 0) return "Price must be a positive number of SOL";
+  const ttl = input.ttlMinutes ?? DEFAULT_ORDER_TTL_MINUTES;
+  if (!Number.isFinite(ttl) || ttl <= 0 || ttl > MAX_ORDER_TTL_MINUTES) return `Expiry must be between 1 minute and ${MAX_ORDER_TTL_MINUTES / 1440} days`;
+  return null;
+}
+
+// ── Escrow & settlement ─────────────────────────────────────────────────
+
+/** Return whatever a finished order didn't spend. Idempotent. */
+async function releaseEscrow(order: ExchangeOrder): Promise<void> {
+  const sql = getDb();
+  // An order abandoned before its escrow posted has nothing to give back
+  const [locked] = await sql`SELECT id FROM ledger_entries WHERE idempotency_key = ${`exchange:${order.id}:escrow`}`;
+  if (!locked) return;
+
+  const [currency, amount] = order.order_type === "sell"
+    ? [ledger.GLITCH, Number(order.amount) - Number(order.filled_amount)]
+    : [SOL, Number(order.escrow_lamports) - Number(order.spent_lamports)];
+  if (amount <= 0) return;
+
+  const result = await ledger.transfer(escrowAccount(currency), ownerAccount(orderOwner(order), currency), amount, {
+    idempotencyKey: `exchange:${order.id}:release`,
+    referenceId: order.id,
+    memo: `Exchange ${order.order_type} order ${order.status} — escrow returned`,
+  });
+  if ("error" in result) throw new Error(`releaseEscrow: ${result.error}`);
+}
+
+interface TradeRow {
+  id: string;
+  buyer_type: OrderOwnerType;
+  buyer_id: string;
+  seller_type: OrderOwnerType;
+  seller_id: string;
+  amount: number;
+  quote_lamports: number;
+}
+
+/** Pay a match out of escrow: §GLITCH to the buyer, SOL to the seller. Idempotent. */
+async function settleTrade(trade: TradeRow): Promise<void> {
+  const sql = getDb();
+  const base = await ledger.transfer(escrowAccount(ledger.GLITCH), ownerAccount({ type: trade.buyer_type, id: trade.buyer_id }, ledger.GLITCH), Number(trade.amount), {
+    idempotencyKey: `exchange-trade:${trade.id}:glitch`,
+    referenceId: trade.id,
+    memo: "Bought on the §GLITCH exchange",
+  });
+  if ("error" in base) throw new Error(`settleTrade: ${base.error}`);
+
+  // Dust trades can round to zero lamports
+  if (Number(trade.quote_lamports) > 0) {
+    const quote = await ledger.transfer(escrowAccount(SOL), ownerAccount({ type: trade.seller_type, id: trade.seller_id }, SOL), Number(trade.quote_lamports), {
+      idempotencyKey: `exchange-trade:${trade.id}:sol`,
+      referenceId: trade.id,
+      memo: "Sold on the §GLITCH exchange",
+    });
+    if ("error" in quote) throw new Error(`settleTrade: ${quote.error}`);
+  }
+
+  await sql`UPDATE exchange_trades SET settled_at = NOW() WHERE id = ${trade.id}`;
+}
+
+// ── Matching ────────────────────────────────────────────────────────────
+
+/**
+ * Claim `fill.amount` of a resting order for the taker and record the trade —
+ * one statement, so the maker can't be claimed twice. Returns false when the
+ * maker changed underneath us (filled, cancelled or expired meanwhile).
+ */
+async function executeFill(taker: BookOrder, maker: BookOrder, fill: Fill): Promise<boolean> {
+  const sql = getDb();
+  const tradeId = uuidv4();
+  const buy = taker.side === "buy" ? taker : maker;
+  const sell = taker.side === "buy" ? maker : taker;
+  const makerSpent = maker.side === "buy" ? fill.quoteLamports : 0;
+  const takerSpent = taker.side === "buy" ? fill.quoteLamports : 0;
+
+  const [claimed] = await sql`
+    WITH maker AS (
+      UPDATE exchange_orders SET
+        filled_amount = filled_amount + ${fill.amount},
+        spent_lamports = spent_lamports + ${makerSpent},
+        status = CASE WHEN filled_amount + ${fill.amount} >= amount THEN 'filled' ELSE 'partial' END,
+        updated_at = NOW()
+      WHERE id = ${maker.id} AND status = ANY(${LIVE})
+        AND amount - filled_amount >= ${fill.amount}
+        AND (expires_at IS NULL OR expires_at > NOW())
+      RETURNING *
+    ),
+    taker AS (
+      UPDATE exchange_orders SET
+        filled_amount = filled_amount + ${fill.amount},
+        spent_lamports = spent_lamports + ${takerSpent},
+        updated_at = NOW()
+      WHERE id = ${taker.id} AND EXISTS (SELECT 1 FROM maker)
+    ),
+    trade AS (
+      INSERT INTO exchange_trades (id, buy_order_id, sell_order_id, taker_side, buyer_type, buyer_id,
+                                   seller_type, seller_id, price, amount, quote_lamports)
+      SELECT ${tradeId}, ${buy.id}, ${sell.id}, ${taker.side}, ${buy.ownerType}, ${buy.ownerId},
+             ${sell.ownerType}, ${sell.ownerId}, ${fill.price}, ${fill.amount}, ${fill.quoteLamports}
+      FROM maker
+    )
+    SELECT * FROM maker
+  ` as unknown as ExchangeOrder[];
+  if (!claimed) return false;
+
+  await settleTrade({
+    id: tradeId,
+    buyer_type: buy.ownerType,
+    buyer_id: buy.ownerId,
+    seller_type: sell.ownerType,
+    seller_id: sell.ownerId,
+    amount: fill.amount,
+    quote_lamports: fill.quoteLamports,
+  });
+  if (claimed.status === "filled") await releaseEscrow(claimed);
+  return true;
+}
+
+/** Close live orders (cancel / expire) and give back their escrow. */
+async function closeOrders(ids: string[], status: "cancelled" | "expired"): Promise<ExchangeOrder[]> {
+  if (ids.length === 0) return [];
+  const sql = getDb();
+  const closed = await sql`
+    UPDATE exchange_orders SET status = ${status}, updated_at = NOW()
+    WHERE id = ANY(${ids}) AND status = ANY(${LIVE})
+    RETURNING *
+  ` as unknown as ExchangeOrder[];
+  for (const order of closed) await releaseEscrow(order);
+  return closed;
+}
+
+async function loadCrossingMakers(taker: BookOrder): Promise<ExchangeOrder[]> {
+  const sql = getDb();
+  const side = oppositeSide(taker.side);
+  return (taker.side === "buy"
+    ? await sql`
+        SELECT * FROM exchange_orders
+        WHERE order_type = ${side} AND status = ANY(${LIVE}) AND price_per_coin <= ${taker.price}
+        ORDER BY price_per_coin ASC, seq ASC
+        LIMIT ${MATCH_BATCH}
+      `
+    : await sql`
+        SELECT * FROM exchange_orders
+        WHERE order_type = ${side} AND status = ANY(${LIVE}) AND price_per_coin >= ${taker.price}
+        ORDER BY price_per_coin DESC, seq ASC
+        LIMIT ${MATCH_BATCH}
+      `) as unknown as ExchangeOrder[];
+}
+
+/** Match a pending order against the book until it's filled or nothing crosses. */
+async function matchIncoming(order: ExchangeOrder): Promise<Fill[]> {
+  const taker = toBookOrder(order);
+  const fills: Fill[] = [];
+
+  for (let round = 0; round < MAX_MATCH_ROUNDS && taker.remaining > 0; round++) {
+    const rows = await loadCrossingMakers(taker);
+    const book = rows.map(toBookOrder);
+    const result = matchOrder(taker, book, Date.now());
+    await closeOrders(result.expired, "expired");
+
+    let conflicted = false;
+    for (const fill of result.fills) {
+      const maker = book.find(o => o.id === fill.makerId)!;
+      if (!(await executeFill(taker, maker, fill))) {
+        conflicted = true;
+        break;
+      }
+      fills.push(fill);
+      taker.remaining -= fill.amount;
+    }
+
+    // Rematch only if the book moved under us or there may be more beyond this batch
+    const batchExhausted = rows.length === MATCH_BATCH && result.fills.length > 0 && result.remaining > 0;
+    if (!conflicted && !batchExhausted) break;
+  }
+  return fills;
+}
+
+// ── Public API ──────────────────────────────────────────────────────────
+
+/**
+ * Place a limit order: escrow its funds, match it against the book, and
+ * leave any remainder resting until it fills, is cancelled or expires.
+ */
+export async function placeOrder(input: PlaceOrderInput): Promise<PlaceOrderResult> {
+  const invalid = validateOrder(input);
+  if (invalid) return { error: invalid };
+
+  const sql = getDb();
+  const id = uuidv4();
+  const price = normalizePrice(input.price);
+  const ttlMinutes = input.ttlMinutes ?? DEFAULT_ORDER_TTL_MINUTES;
+  const escrowSol = input.side === "buy" ? escrowLamports(input.amount, price) : 0;
+
+  const [pending] = await sql`
+    INSERT INTO exchange_orders (id, owner_type, session_id, wallet_address, order_type, amount, price_per_coin,
+                                 total_sol, status, escrow_lamports, expires_at, commentary, strategy)
+    VALUES (${id}, ${input.owner.type}, ${input.owner.id}, ${input.walletAddress ?? ""}, ${input.side}, ${input.amount}, ${price},
+            ${input.amount * price}, 'pending', ${escrowSol}, NOW() + ${ttlMinutes} * INTERVAL '1 minute',
+            ${input.commentary ?? null}, ${input.strategy ?? null})
+    RETURNING *
+  ` as unknown as ExchangeOrder[];
+
+  const [currency, escrowAmount] = input.side === "sell" ? [ledger.GLITCH, input.amount] : [SOL, escrowSol];
+  const locked = await ledger.transfer(ownerAccount(input.owner, currency), escrowAccount(currency), escrowAmount, {
+    idempotencyKey: `exchange:${id}:escrow`,
+    referenceId: id,
+    memo: `Exchange ${input.side} order escrow`,
+  });
+  if ("error" in locked) {
+    await sql`UPDATE exchange_orders SET status = 'rejected', updated_at = NOW() WHERE id = ${id}`;
+    if (!locked.insufficient) return { error: locked.error };
+    return { error: `Insufficient ${currency === SOL ? "SOL" : "§GLITCH"} balance`, insufficient: true };
+  }
+
+  const fills = await matchIncoming(pending);
+
+  const [order] = await sql`
+    UPDATE exchange_orders SET
+      status = CASE WHEN filled_amount >= amount THEN 'filled' WHEN filled_amount > 0 THEN 'partial' ELSE 'open' END,
+      updated_at = NOW()
+    WHERE id = ${id}
+    RETURNING *
+  ` as unknown as ExchangeOrder[];
+  if (order.status === "filled") await releaseEscrow(order);
+
+  bustCache();
+  return { order, fills };
+}
+
+/** Cancel one of the owner's live orders and return its unused escrow. */
+export async function cancelOrder(orderId: string, owner: OrderOwner): Promise<{ order: ExchangeOrder } | { error: string }> {
+  const sql = getDb();
+  const [mine] = await sql`
+    SELECT id FROM exchange_orders WHERE id = ${orderId} AND owner_type = ${owner.type} AND session_id = ${owner.id}
+  `;
+  if (!mine) return { error: "Order not found" };
+
+  const [order] = await closeOrders([orderId], "cancelled");
+  if (!order) return { error: "Order is no longer open" };
+  bustCache();
+  return { order };
+}
+
+/** An owner's orders, newest first. */
+export async function getOrders(owner: OrderOwner, opts: { liveOnly?: boolean; limit?: number } = {}): Promise<ExchangeOrder[]> {
+  const sql = getDb();
+  const statuses = opts.liveOnly ? LIVE : ["pending", ...LIVE, "filled", "cancelled", "expired"];
+  return await sql`
+    SELECT * FROM exchange_orders
+    WHERE owner_type = ${owner.type} AND session_id = ${owner.id} AND status = ANY(${statuses})
+    ORDER BY created_at DESC
+    LIMIT ${opts.limit ?? 50}
+  ` as unknown as ExchangeOrder[];
+}
+
+/**
+ * Housekeeping: expire orders past their expiry, release orders abandoned
+ * mid-match, and finish settling trades whose payout was interrupted.
+ */
+export async function sweep(): Promise<SweepResult> {
+  const sql = getDb();
+
+  const expiredRows = await sql`
+    SELECT id FROM exchange_orders WHERE status = ANY(${LIVE}) AND expires_at <= NOW() LIMIT 500
+  ` as unknown as { id: string }[];
+  const expired = await closeOrders(expiredRows.map(r => r.id), "expired");
+
+  const abandoned = await sql`
+    UPDATE exchange_orders SET status = 'expired', updated_at = NOW()
+    WHERE status = 'pending' AND created_at < NOW() - ${PENDING_TIMEOUT_MINUTES} * INTERVAL '1 minute'
+    RETURNING *
+  ` as unknown as ExchangeOrder[];
+  for (const order of abandoned) await releaseEscrow(order);
+
+  const unsettled = await sql`
+    SELECT * FROM exchange_trades
+    WHERE settled_at IS NULL AND created_at < NOW() - INTERVAL '1 minute'
+    ORDER BY created_at ASC
+    LIMIT 100
+  ` as unknown as TradeRow[];
+  for (const trade of unsettled) await settleTrade(trade);
+
+  if (expired.length + abandoned.length + unsettled.length > 0) bustCache();
+  return { expired: expired.length, abandoned: abandoned.length, settled: unsettled.length };
+}
+
+/**
+ * Let a batch of random active personas trade: each one's personality
+ * decides whether to quote, which side, how much and at what price around
+ * the last matched price (the platform price before the first trade).
+ */
+export async function runAiTraders(count = 10): Promise<AiOrderResult[]> {
+  const sql = getDb();
+  const refPrice = (await getLastPrice()) ?? (await getPrices()).glitchPriceSol;
+
+  const personas = await sql`
+    SELECT p.id, p.persona_type, COALESCE(c.balance, 0) AS glitch_balance, COALESCE(t.balance, 0) AS sol_balance
+    FROM ai_personas p
+    LEFT JOIN ai_persona_coins c ON c.persona_id = p.id
+    LEFT JOIN token_balances t ON t.owner_type = 'ai_persona' AND t.owner_id = p.id AND t.token = 'SOL'
+    WHERE p.is_active = TRUE
+    ORDER BY RANDOM()
+    LIMIT ${count}
+  ` as unknown as { id: string; persona_type: string; glitch_balance: number; sol_balance: number }[];
+
+  const results: AiOrderResult[] = [];
+  for (const persona of personas) {
+    const personality = getTradingPersonality(persona.id, persona.persona_type);
+    const plan = planOrder(personality, {
+      refPrice,
+      glitchBalance: Number(persona.glitch_balance),
+      solBalance: Number(persona.sol_balance),
+    });
+    if (!plan) continue;
+
+    const placed = await placeOrder({
+      owner: { type: "ai_persona", id: persona.id },
+      side: plan.side,
+      amount: plan.amount,
+      price: plan.price,
+      ttlMinutes: plan.ttlMinutes,
+      strategy: personality.strategy,
+      commentary: generateTradeCommentary(personality, plan.side === "buy", plan.amount, plan.amount * plan.price),
+    });
+    const base = { personaId: persona.id, side: plan.side, amount: plan.amount, price: plan.price };
+    results.push("error" in placed
+      ? { ...base, error: placed.error }
+      : { ...base, status: placed.order.status, filled: Number(placed.order.filled_amount) });
+  }
+  return results;
+}
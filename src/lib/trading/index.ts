@@ -1,10 +1,12 @@
 /**
  * AIG!itch — Trading Module (#10)
  * =================================
- * Centralised trading logic for GLITCH (simulated) and BUDJU (on-chain).
+ * Centralised trading logic for GLITCH (in-app order book) and BUDJU (on-chain).
  *
- *   import { personalities, budju } from "@/lib/trading";
+ *   import { personalities, budju, matching, exchange } from "@/lib/trading";
  */
 
 export * as personalities from "./personalities";
 export * as budju from "./budju";
+export * as matching from "./matching";
+export * as exchange from "./exchange";
@@ -0,0 +1,170 @@
+/**
+ * Matching Engine — Unit Tests
+ * =============================
+ * Price-time priority, partial fills, expiry, self-trade prevention and
+ * lamport rounding — plus the persona order planner that feeds the book.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  escrowLamports,
+  matchOrder,
+  normalizePrice,
+  quoteLamports,
+  type BookOrder,
+} from "./matching";
+import { getTradingPersonality, planOrder, type TradingPersonality } from "./personalities";
+
+const NOW = Date.UTC(2026, 9, 1, 12);
+
+let seq = 0;
+function order(side: BookOrder["side"], price: number, remaining: number, extra: Partial<BookOrder> = {}): BookOrder {
+  seq++;
+  return {
+    id: `o${seq}`,
+    side,
+    price,
+    remaining,
+    seq,
+    ownerType: "ai_persona",
+    ownerId: `persona-${seq}`,
+    expiresAt: null,
+    ...extra,
+  };
+}
+
+describe("matchOrder", () => {
+  it("fills the best price first, at the maker's price", () => {
+    const dear = order("sell", 0.00005, 100);
+    const cheap = order("sell", 0.00004, 100);
+    const taker = order("buy", 0.00006, 150);
+
+    const result = matchOrder(taker, [dear, cheap], NOW);
+
+    expect(result.fills.map(f => [f.makerId, f.price, f.amount])).toEqual([
+      [cheap.id, 0.00004, 100],
+      [dear.id, 0.00005, 50],
+    ]);
+    expect(result.remaining).toBe(0);
+  });
+
+  it("breaks price ties by arrival order", () => {
+    const first = order("buy", 0.00004, 10);
+    const second = order("buy", 0.00004, 10);
+    const taker = order("sell", 0.00004, 15);
+
+    const result = matchOrder(taker, [second, first], NOW);
+
+    expect(result.fills.map(f => [f.makerId, f.amount])).toEqual([[first.id, 10], [second.id, 5]]);
+  });
+
+  it("stops at the taker's limit and leaves the rest to rest", () => {
+    const ask = order("sell", 0.00004, 30);
+    const tooDear = order("sell", 0.00007, 500);
+    const taker = order("buy", 0.00005, 100);
+
+    const result = matchOrder(taker, [ask, tooDear], NOW);
+
+    expect(result.fills).toHaveLength(1);
+    expect(result.remaining).toBe(70);
+  });
+
+  it("ignores same-side orders and never crosses a non-crossing book", () => {
+    const bid = order("buy", 0.00009, 100);
+    const ask = order("sell", 0.00006, 100);
+
+    expect(matchOrder(order("buy", 0.00005, 10), [bid, ask], NOW).fills).toEqual([]);
+  });
+
+  it("skips and reports expired makers", () => {
+    const stale = order("sell", 0.00003, 100, { expiresAt: NOW - 1 });
+    const live = order("sell", 0.00004, 100, { expiresAt: NOW + 60_000 });
+
+    const result = matchOrder(order("buy", 0.00005, 50), [stale, live], NOW);
+
+    expect(result.expired).toEqual([stale.id]);
+    expect(result.fills.map(f => f.makerId)).toEqual([live.id]);
+  });
+
+  it("won't trade an owner against themselves", () => {
+    const own = order("sell", 0.00003, 100, { ownerType: "human", ownerId: "sess-1" });
+    const other = order("sell", 0.00004, 100);
+    const taker = order("buy", 0.00005, 50, { ownerType: "human", ownerId: "sess-1" });
+
+    const result = matchOrder(taker, [own, other], NOW);
+
+    expect(result.selfTradeSkipped).toEqual([own.id]);
+    expect(result.fills.map(f => f.makerId)).toEqual([other.id]);
+  });
+
+  it("is deterministic and leaves its input untouched", () => {
+    const book = [order("sell", 0.00004, 10), order("sell", 0.00004, 10), order("sell", 0.00003, 10)];
+    const snapshot = structuredClone(book);
+    const taker = order("buy", 0.00005, 25);
+
+    const a = matchOrder(taker, book, NOW);
+    const b = matchOrder(taker, [...book].reverse(), NOW);
+
+    expect(a).toEqual(b);
+    expect(book).toEqual(snapshot);
+  });
+});
+
+describe("lamport rounding", () => {
+  it("pays sellers rounded down and escrows buyers rounded up", () => {
+    // 3 × 0.0000000015 SOL = 4.5 lamports
+    expect(quoteLamports(3, 0.0000000015)).toBe(4);
+    expect(escrowLamports(3, 0.0000000015)).toBe(5);
+  });
+
+  it("absorbs float error on exact amounts", () => {
+    // 100 × 0.00001 is 999999.9999… in floating point
+    expect(quoteLamports(100, 0.00001)).toBe(1_000_000);
+    expect(escrowLamports(100, 0.00001)).toBe(1_000_000);
+  });
+
+  it("never lets partial fills cost more than the escrow", () => {
+    const price = 0.0000000015;
+    const parts = [1, 1, 1].map(n => quoteLamports(n, price)).reduce((a, b) => a + b, 0);
+    expect(parts).toBeLessThanOrEqual(escrowLamports(3, price));
+  });
+
+  it("normalizes prices to 6 significant digits", () => {
+    expect(normalizePrice(0.0000420000001)).toBe(0.000042);
+  });
+});
+
+describe("planOrder", () => {
+  const sequence = (...values: number[]) => {
+    let i = 0;
+    return () => values[i++ % values.length];
+  };
+  const ctx = { refPrice: 0.00004, glitchBalance: 100_000, solBalance: 10 };
+
+  it("sits out when the frequency roll misses", () => {
+    const p = getTradingPersonality("nobody", "philosopher"); // 25% frequency
+    expect(planOrder(p, ctx, sequence(0.5))).toBeNull();
+  });
+
+  it("quotes around the reference price within the risk range", () => {
+    const p: TradingPersonality = { ...getTradingPersonality("nobody", "unknown"), riskLevel: "medium", bias: 0 };
+    // trade, sell, top of the price range, full size
+    const plan = planOrder(p, ctx, sequence(0, 0.9, 1, 1));
+
+    expect(plan).toEqual({ side: "sell", amount: 10_000, price: 0.0000412, ttlMinutes: 720 });
+  });
+
+  it("sizes buys from the SOL balance", () => {
+    const p: TradingPersonality = { ...getTradingPersonality("nobody", "unknown"), riskLevel: "low", bias: 1 };
+    const plan = planOrder(p, ctx, sequence(0, 0, 0.5, 1));
+
+    // 10% of 10 SOL at the reference price
+    expect(plan).toMatchObject({ side: "buy", price: 0.00004, amount: 25_000 });
+  });
+
+  it("skips orders below the persona's minimum", () => {
+    const p = getTradingPersonality("nobody", "unknown");
+    expect(planOrder(p, { ...ctx, glitchBalance: 50 }, sequence(0, 0.9, 0.5, 1))).toBeNull();
+    expect(planOrder(p, { ...ctx, refPrice: 0 }, sequence(0))).toBeNull();
+  });
+});
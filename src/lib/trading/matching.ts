@@ -0,0 +1,134 @@
+/**
+ * GLITCH/SOL Limit-Order Matching Engine
+ * =======================================
+ * Pure and deterministic — no database, no clock, no randomness — so the
+ * exchange service (./exchange.ts) can persist whatever it decides and the
+ * rules can be tested on their own.
+ *
+ * Rules:
+ *   - Price-time priority: best price first, then the earliest order (lowest seq).
+ *   - A taker crosses while its limit reaches the maker's price; every fill
+ *     executes at the maker's (resting) price.
+ *   - Partial fills on both sides; the taker's remainder rests in the book.
+ *   - Expired makers are skipped and reported so the caller can release them.
+ *   - No self-trades: a maker owned by the taker's owner is skipped.
+ *
+ * Amounts are whole §GLITCH; prices are SOL per §GLITCH; settlement values
+ * are integer lamports.
+ */
+
+export type OrderSide = "buy" | "sell";
+export type OrderOwnerType = "human" | "ai_persona";
+
+export const LAMPORTS_PER_SOL = 1_000_000_000;
+
+/** Absorbs float error in amount × price before rounding to lamports */
+const LAMPORT_EPSILON = 1e-6;
+
+export interface BookOrder {
+  id: string;
+  side: OrderSide;
+  /** Limit price, SOL per §GLITCH */
+  price: number;
+  /** Unfilled §GLITCH */
+  remaining: number;
+  /** Arrival order — ties at the same price fill lowest seq first */
+  seq: number;
+  ownerType: OrderOwnerType;
+  ownerId: string;
+  /** Epoch ms, or null for good-till-cancelled */
+  expiresAt: number | null;
+}
+
+export interface Fill {
+  makerId: string;
+  takerId: string;
+  /** The maker's price */
+  price: number;
+  amount: number;
+  /** SOL the buyer pays the seller, in lamports */
+  quoteLamports: number;
+}
+
+export interface MatchResult {
+  fills: Fill[];
+  /** Taker §GLITCH left to rest in the book */
+  remaining: number;
+  /** Makers found past their expiry */
+  expired: string[];
+  /** Makers skipped to prevent a self-trade */
+  selfTradeSkipped: string[];
+}
+
+/** Lamports the seller receives for `amount` at `price` — rounded down, in the buyer's favour. */
+export function quoteLamports(amount: number, price: number): number {
+  return Math.floor(amount * price * LAMPORTS_PER_SOL + LAMPORT_EPSILON);
+}
+
+/**
+ * Lamports a buy order escrows — rounded up, so the rounded-down fills it
+ * pays for can never add up to more than was escrowed.
+ */
+export function escrowLamports(amount: number, price: number): number {
+  return Math.ceil(amount * price * LAMPORTS_PER_SOL - LAMPORT_EPSILON);
+}
+
+/** Prices carry 6 significant digits, so equal limits share a book level. */
+export function normalizePrice(price: number): number {
+  return Number(price.toPrecision(6));
+}
+
+export const oppositeSide = (side: OrderSide): OrderSide => (side === "buy" ? "sell" : "buy");
+
+export function isExpired(order: Pick<BookOrder, "expiresAt">, now: number): boolean {
+  return order.expiresAt != null && order.expiresAt <= now;
+}
+
+/** Priority order for one side: bids high→low, asks low→high, then by seq. */
+export function comparePriority(a: BookOrder, b: BookOrder): number {
+  if (a.price !== b.price) return a.side === "buy" ? b.price - a.price : a.price - b.price;
+  return a.seq - b.seq;
+}
+
+/** Whether a taker's limit reaches a resting maker's price. */
+export function crosses(taker: Pick<BookOrder, "side" | "price">, maker: Pick<BookOrder, "price">): boolean {
+  return taker.side === "buy" ? taker.price >= maker.price : taker.price <= maker.price;
+}
+
+/**
+ * Match an incoming order against the resting book. `book` may hold either
+ * side and in any order — only the opposite side is considered, in priority
+ * order. Nothing is mutated.
+ */
+export function matchOrder(taker: BookOrder, book: BookOrder[], now: number): MatchResult {
+  const makers = book
+    .filter(o => o.side === oppositeSide(taker.side) && o.id !== taker.id && o.remaining > 0)
+    .sort(comparePriority);
+
+  const result: MatchResult = { fills: [], remaining: taker.remaining, expired: [], selfTradeSkipped: [] };
+
+  for (const maker of makers) {
+    if (result.remaining <= 0) break;
+    if (!crosses(taker, maker)) break; // sorted — nothing further can cross
+    if (isExpired(maker, now)) {
+      result.expired.push(maker.id);
+      continue;
+    }
+    if (maker.ownerType === taker.ownerType && maker.ownerId === taker.ownerId) {
+      result.selfTradeSkipped.push(maker.id);
+      continue;
+    }
+
+    const amount = Math.min(result.remaining, maker.remaining);
+    result.fills.push({
+      makerId: maker.id,
+      takerId: taker.id,
+      price: maker.price,
+      amount,
+      quoteLamports: quoteLamports(amount, maker.price),
+    });
+    result.remaining -= amount;
+  }
+
+  return result;
+}
@@ -379,3 +379,56 @@ export function generateTradeCommentary(
 
   return template + suffix;
 }
+
+// ── Limit orders for the in-app exchange ──────────────────────────────
+
+export interface OrderPlan {
+  side: "buy" | "sell";
+  /** Whole §GLITCH */
+  amount: number;
+  /** Limit price, SOL per §GLITCH */
+  price: number;
+  ttlMinutes: number;
+}
+
+/** How far from the reference price a persona is willing to quote */
+const RISK_PRICE_RANGE: Record<TradingPersonality["riskLevel"], number> = {
+  low: 0.01,
+  medium: 0.03,
+  high: 0.06,
+  yolo: 0.12,
+};
+
+/** Cautious traders leave orders resting longer */
+const RISK_ORDER_TTL_MINUTES: Record<TradingPersonality["riskLevel"], number> = {
+  low: 24 * 60,
+  medium: 12 * 60,
+  high: 4 * 60,
+  yolo: 60,
+};
+
+/**
+ * Decide whether a persona places an order this run, and what. Quotes land
+ * within the persona's risk range either side of the reference price, so
+ * some rest as liquidity and some cross the spread and trade. Pass `rand`
+ * for deterministic results.
+ */
+export function planOrder(
+  personality: TradingPersonality,
+  ctx: { refPrice: number; glitchBalance: number; solBalance: number },
+  rand: () => number = Math.random,
+): OrderPlan | null {
+  if (ctx.refPrice <= 0) return null;
+  if (rand() * 100 >= personality.tradeFrequency) return null;
+
+  const side = rand() < (1 + personality.bias) / 2 ? "buy" : "sell";
+  const range = RISK_PRICE_RANGE[personality.riskLevel];
+  const price = Number((ctx.refPrice * (1 + (rand() * 2 - 1) * range)).toPrecision(4));
+
+  const fraction = (personality.maxTradePercent / 100) * (0.25 + 0.75 * rand());
+  const size = side === "sell" ? ctx.glitchBalance * fraction : (ctx.solBalance * fraction) / price;
+  const amount = Math.floor(size + 1e-9); // absorb float error (25000 can come out as 24999.999…)
+  if (amount < personality.minTradeAmount) return null;
+
+  return { side, amount, price, ttlMinutes: RISK_ORDER_TTL_MINUTES[personality.riskLevel] };
+}
@@ -24,6 +24,10 @@ export interface Post {
   media_url: string | null;
   media_type: "image" | "video" | null;
   media_source: string | null;
+  /** HLS playlist for long stitched videos — players that support HLS prefer it over media_url */
+  media_playlist_url?: string | null;
+  /** WebVTT caption track (served same-origin via /api/post/[id]/captions) */
+  captions_url?: string | null;
   username: string;
   display_name: string;
   avatar_emoji: string;
@@ -19,8 +19,8 @@ import OpenAI from "openai";
 import { env } from "@/lib/bible/env";
 import { CONTENT } from "@/lib/bible/constants";
 import { trackCost, COST_TABLE } from "@/lib/ai/costs";
-import type { AIProvider } from "@/lib/ai/types";
-import { checkCircuitBreaker, recordProviderCall } from "@/lib/ai/circuit-breaker";
+import type { AICallOptions, AIProvider } from "@/lib/ai/types";
+import { checkCircuitBreaker, recordProviderCall, recordProviderFailure } from "@/lib/ai/circuit-breaker";
 
 // ── Grok 4.1 Model Slugs ───────────────────────────────────────────────
 // Current production models from xAI API.
@@ -93,8 +93,10 @@ export async function generateWithGrok(
   userPrompt: string,
   maxTokens: number = 500,
   modelKey: GrokModelKey = "nonReasoning",
+  options: Omit<AICallOptions, "system"> = {},
 ): Promise<string | null> {
   const client = getClient();
+  const task = options.task ?? "text-generation";
   if (!client) {
     console.log("XAI_API_KEY not set — skipping Grok text generation");
     return null;
@@ -108,7 +110,7 @@ export async function generateWithGrok(
     "grok-text";
 
   // Circuit breaker check
-  const allowed = await checkCircuitBreaker(costKey);
+  const allowed = await checkCircuitBreaker(costKey, task);
   if (!allowed) {
     console.warn(`[xai] Circuit breaker tripped for ${costKey} — skipping call`);
     return null;
@@ -135,14 +137,15 @@ export async function generateWithGrok(
             + ((response.usage?.completion_tokens ?? 0) / 1_000_000) * costTable.perMOutputTokens;
         trackCost({
           provider: costKey,
-          task: "text-generation",
+          task,
           estimatedCostUsd: costUsd,
           inputTokens: response.usage?.prompt_tokens,
           outputTokens: response.usage?.completion_tokens,
           model,
+          routing: options.routing,
         });
         // Record for circuit breaker rate limiting
-        recordProviderCall(costKey, costUsd).catch(() => {});
+        recordProviderCall(costKey, costUsd, task).catch(() => {});
       }
       return text;
     } catch (err) {
@@ -158,10 +161,11 @@ export async function generateWithGrok(
       }
 
       console.error(`Grok text generation failed (${model}):`, errMsg);
+      recordProviderFailure(costKey, task).catch(() => {});
       // If primary model fails, fall back to legacy
       if (modelKey !== "legacy") {
         console.log(`Falling back to legacy Grok model (${GROK_MODELS.legacy})...`);
-        return generateWithGrok(systemPrompt, userPrompt, maxTokens, "legacy");
+        return generateWithGrok(systemPrompt, userPrompt, maxTokens, "legacy", options);
       }
       return null;
     }
@@ -214,7 +218,7 @@ export async function generateImageWithAurora(
   const providerKey = pro ? "grok-image-pro" : "grok-image";
 
   // Circuit breaker check
-  const cbAllowed = await checkCircuitBreaker(providerKey);
+  const cbAllowed = await checkCircuitBreaker(providerKey, "image-generation");
   if (!cbAllowed) {
     console.warn(`[xai] Circuit breaker tripped for ${providerKey} — skipping`);
     return null;
@@ -262,7 +266,7 @@ export async function generateImageWithAurora(
         estimatedCostUsd: imgCost,
         model,
       });
-      recordProviderCall(providerKey, imgCost).catch(() => {});
+      recordProviderCall(providerKey, imgCost, "image-generation").catch(() => {});
       return { url: imageData.url, contentType: "image/png" };
     }
 
@@ -387,7 +391,7 @@ export async function generateVideoWithGrok(
   }
 
   // Circuit breaker check
-  const cbAllowed = await checkCircuitBreaker("grok-video");
+  const cbAllowed = await checkCircuitBreaker("grok-video", "video-generation");
   if (!cbAllowed) {
     console.warn("[xai] Circuit breaker tripped for grok-video — skipping");
     return null;
@@ -427,7 +431,7 @@ export async function generateVideoWithGrok(
       // If the response already contains the video URL (synchronous)
       if (createData.video?.url) {
         console.log(`Grok video generated immediately: ${createData.video.url.slice(0, 80)}...`);
-        { const _vc = duration * COST_TABLE["grok-video"].perSecond; trackCost({ provider: "grok-video", task: "video-generation", estimatedCostUsd: _vc, durationSeconds: duration, model: "grok-imagine-video" }); recordProviderCall("grok-video", _vc).catch(() => {}); }
+        { const _vc = duration * COST_TABLE["grok-video"].perSecond; trackCost({ provider: "grok-video", task: "video-generation", estimatedCostUsd: _vc, durationSeconds: duration, model: "grok-imagine-video" }); recordProviderCall("grok-video", _vc, "video-generation").catch(() => {}); }
         return createData.video.url;
       }
       console.error("Grok video: no request_id in response:", JSON.stringify(createData).slice(0, 300));
@@ -464,7 +468,7 @@ export async function generateVideoWithGrok(
         }
         if (pollData.video?.url) {
           console.log(`Grok video generated successfully: ${pollData.video.url.slice(0, 80)}...`);
-          { const _vc = duration * COST_TABLE["grok-video"].perSecond; trackCost({ provider: "grok-video", task: "video-generation", estimatedCostUsd: _vc, durationSeconds: duration, model: "grok-imagine-video" }); recordProviderCall("grok-video", _vc).catch(() => {}); }
+          { const _vc = duration * COST_TABLE["grok-video"].perSecond; trackCost({ provider: "grok-video", task: "video-generation", estimatedCostUsd: _vc, durationSeconds: duration, model: "grok-imagine-video" }); recordProviderCall("grok-video", _vc, "video-generation").catch(() => {}); }
           return pollData.video.url;
         }
         console.error("Grok video done but no URL:", JSON.stringify(pollData).slice(0, 300));
@@ -668,7 +672,7 @@ export async function submitVideoJob(
     // Rare: synchronous video result
     if (data.video?.url) {
       console.log(`[video-submit] Grok returned video immediately`);
-      { const _vc = duration * COST_TABLE["grok-video"].perSecond; trackCost({ provider: "grok-video", task: "video-generation", estimatedCostUsd: _vc, durationSeconds: duration, model: "grok-imagine-video" }); recordProviderCall("grok-video", _vc).catch(() => {}); }
+      { const _vc = duration * COST_TABLE["grok-video"].perSecond; trackCost({ provider: "grok-video", task: "video-generation", estimatedCostUsd: _vc, durationSeconds: duration, model: "grok-imagine-video" }); recordProviderCall("grok-video", _vc, "video-generation").catch(() => {}); }
       return { requestId: null, videoUrl: data.video.url, provider: "grok", fellBack: false };
     }
 
@@ -9,7 +9,7 @@ export default defineConfig({
     coverage: {
       provider: "v8",
       include: ["src/lib/**/*.ts"],
-      exclude: ["src/lib/db.ts", "src/lib/seed.ts", "src/lib/**/index.ts"],
+      exclude: ["src/lib/db.ts", "src/lib/seed.ts", "src/lib/**/index.ts", "src/lib/test-utils/**"],
     },
   },
   resolve: {